@@ -35,6 +35,7 @@ vi.mock("@clerk/nextjs/server", () => ({
 }))
 vi.mock("@/lib/kpi-scoring", () => ({
   calculateKpiScoreAndColor: vi.fn(),
+  getKpiScoringOptions: vi.fn().mockReturnValue({}),
 }))
 vi.mock("@/lib/kpi-calculation-engine", () => ({
   extractKpiReferences: vi.fn().mockReturnValue([]),
@@ -42,6 +43,11 @@ vi.mock("@/lib/kpi-calculation-engine", () => ({
 vi.mock("@/actions/db/alert-actions", () => ({
   processKpiAlerts: vi.fn(),
 }))
+vi.mock("@/lib/authorization", () => ({
+  requirePermission: vi.fn().mockResolvedValue(null),
+  getKpiOrganizationId: vi.fn().mockResolvedValue("org-123"),
+  getScorecardElementOrganizationId: vi.fn().mockResolvedValue("org-123"),
+}))
 
 // -------------------------------------------------------------
 // Helpers y constantes seguras de enums (un solo literal, no arrays)
@@ -94,6 +100,11 @@ const mockKpi: SelectKpi = {
   isManualUpdate: true,
   calculationEquation: null,
   rollupEnabled: false,
+  scoringDirection: "Higher is Better",
+  scoringMethod: "Stepped",
+  targetTolerance: null,
+  externalCode: null,
+  aliases: [],
   createdAt: new Date(),
   updatedAt: new Date(),
 }
@@ -0,0 +1,129 @@
+/**
+ * @file __tests__/server-actions/permission-guards.test.ts
+ * @brief Pruebas de la guarda de permisos en las Server Actions que modifican datos.
+ * @description Con la guarda negando un permiso, cada acción debe devolver el rechazo de ese
+ * permiso sin escribir en la base de datos.
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest"
+import { db } from "@/db/db"
+import { auth } from "@clerk/nextjs/server"
+import {
+  PERMISSION_DENIED_MESSAGES,
+  requirePermission
+} from "@/lib/authorization"
+import { PermissionKey } from "@/types"
+import {
+  createKpiAction,
+  updateKpiManualValueAction
+} from "@/actions/db/kpi-actions"
+import { createKpiNoteAction } from "@/actions/db/kpi-note-actions"
+import { deleteOrganizationAction } from "@/actions/db/organization-actions"
+import { deleteScorecardElementAction } from "@/actions/db/scorecard-element-actions"
+import { createAlertAction } from "@/actions/db/alert-actions"
+import { toggleStrategyMapsAction } from "@/actions/db/app-settings-actions"
+import { deleteSavedKpiImportAction } from "@/actions/db/import-actions"
+import { deleteImportConnectionAction } from "@/actions/db/import-connections-actions"
+import {
+  assignGroupMembersAction,
+  assignGroupPermissionsAction,
+  createDeltaOneUserAction,
+  createGroupAction
+} from "@/actions/db/user-group-actions"
+
+vi.mock("@/db/db")
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn()
+}))
+vi.mock("@/lib/authorization", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/authorization")>()),
+  requirePermission: vi.fn(),
+  getKpiOrganizationId: vi.fn().mockResolvedValue("org-123"),
+  getScorecardElementOrganizationId: vi.fn().mockResolvedValue("org-123"),
+  getKpiValueOrganizationId: vi.fn().mockResolvedValue("org-123")
+}))
+
+const ID = "11111111-1111-4111-8111-111111111111"
+
+const guardedActions: [PermissionKey, () => Promise<unknown>][] = [
+  ["user:manage", () => createDeltaOneUserAction({ userId: "user-2" })],
+  [
+    "group:manage",
+    () => createGroupAction({ name: "Admins", groupType: "Power User" })
+  ],
+  [
+    "group:assign_members",
+    () => assignGroupMembersAction({ groupId: ID, userIds: ["user-2"] })
+  ],
+  [
+    "group:assign_permissions",
+    () => assignGroupPermissionsAction({ groupId: ID, permissions: [] })
+  ],
+  ["organization:manage", () => deleteOrganizationAction({ id: ID })],
+  [
+    "kpi:manage",
+    () =>
+      createKpiAction({
+        scorecardElementId: ID,
+        scoringType: "Goal/Red Flag",
+        calendarFrequency: "Monthly",
+        dataType: "Number",
+        aggregationType: "Sum",
+        decimalPrecision: 0,
+        isManualUpdate: true,
+        rollupEnabled: false
+      } as any)
+  ],
+  ["scorecard_element:manage", () => deleteScorecardElementAction(ID)],
+  ["import:manage_connections", () => deleteImportConnectionAction(ID)],
+  ["import:manage_saved_imports", () => deleteSavedKpiImportAction({ id: ID })],
+  [
+    "alert:manage",
+    () => createAlertAction({ alertType: "Red KPI", kpiId: ID })
+  ],
+  ["app_settings:manage", () => toggleStrategyMapsAction({ enabled: true })],
+  [
+    "kpi_value:update",
+    () =>
+      updateKpiManualValueAction({
+        kpiId: ID,
+        periodDate: "2024-03-01",
+        actualValue: "10"
+      })
+  ],
+  [
+    "kpi_note:create",
+    () => createKpiNoteAction({ kpiValueId: ID, content: "Revisar" })
+  ]
+]
+
+describe("guarda de permisos en las Server Actions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(auth as unknown as any).mockResolvedValue({ userId: "user-1" })
+    ;(requirePermission as any).mockImplementation(
+      async (_db: unknown, _userId: string, key: PermissionKey) => ({
+        isSuccess: false,
+        message: PERMISSION_DENIED_MESSAGES[key]
+      })
+    )
+  })
+
+  test.each(guardedActions)(
+    "rechaza sin el permiso %s y no escribe",
+    async (key, runAction) => {
+      expect(await runAction()).toEqual({
+        isSuccess: false,
+        message: PERMISSION_DENIED_MESSAGES[key]
+      })
+      expect((requirePermission as any).mock.calls[0].slice(0, 3)).toEqual([
+        db,
+        "user-1",
+        key
+      ])
+      expect(db.insert).not.toHaveBeenCalled()
+      expect(db.update).not.toHaveBeenCalled()
+      expect(db.delete).not.toHaveBeenCalled()
+    }
+  )
+})
@@ -0,0 +1,95 @@
+/**
+ * @file __tests__/unit/alert-digest.test.ts
+ * @brief Pruebas unitarias de la composición de los resúmenes de alertas.
+ * @description Verifica la agrupación de eventos por organización y KPI y el contenido del correo
+ * de resumen (valores, colores y enlaces).
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  buildAlertDigestEmail,
+  groupAlertDigestItems
+} from "@/lib/alert-digest"
+import { AlertDigestItem } from "@/types"
+
+const item = (overrides: Partial<AlertDigestItem>): AlertDigestItem => ({
+  eventId: "event-1",
+  alertType: "Red KPI",
+  organizationId: "org-1",
+  organizationName: "Ventas",
+  kpiId: "kpi-1",
+  kpiName: "Ingresos",
+  periodDate: "2024-06-01",
+  detail: "El KPI está en Rojo.",
+  actualValue: "80",
+  targetValue: "100",
+  color: "Red",
+  createdAt: new Date("2024-07-01T10:00:00Z"),
+  ...overrides
+})
+
+describe("groupAlertDigestItems", () => {
+  test("agrupa por organización y KPI en orden alfabético", () => {
+    const groups = groupAlertDigestItems([
+      item({
+        eventId: "e1",
+        organizationName: "Ventas",
+        kpiName: "Margen",
+        kpiId: "k2"
+      }),
+      item({ eventId: "e2", organizationName: "Operaciones" }),
+      item({ eventId: "e3", organizationName: "Ventas" }),
+      item({
+        eventId: "e4",
+        organizationName: "Ventas",
+        createdAt: new Date("2024-07-02T10:00:00Z")
+      })
+    ])
+
+    expect(groups.map(group => group.organizationName)).toEqual([
+      "Operaciones",
+      "Ventas"
+    ])
+    expect(groups[1].kpis.map(kpi => kpi.kpiName)).toEqual([
+      "Ingresos",
+      "Margen"
+    ])
+    expect(groups[1].kpis[0].items.map(i => i.eventId)).toEqual(["e4", "e3"])
+  })
+
+  test("agrupa los eventos sin organización ni KPI", () => {
+    const groups = groupAlertDigestItems([
+      item({ organizationName: null, kpiId: null, kpiName: null })
+    ])
+    expect(groups[0].organizationName).toBe("Sin organización")
+    expect(groups[0].kpis[0].kpiName).toBe("General")
+  })
+})
+
+describe("buildAlertDigestEmail", () => {
+  test("incluye valores, colores y enlaces", () => {
+    const email = buildAlertDigestEmail(
+      "daily_digest",
+      [item({}), item({ eventId: "e2", color: "Yellow", actualValue: "95" })],
+      "https://deltaone.example.com"
+    )
+
+    expect(email.subject).toBe("DeltaOne: resumen diario de alertas (2)")
+    expect(email.text).toContain("Ventas\n  Ingresos")
+    expect(email.text).toContain("valor 80, objetivo 100, Rojo")
+    expect(email.html).toContain("https://deltaone.example.com/alerts")
+    expect(email.html).toContain("Amarillo")
+    expect(email.html).toContain('rowspan="2"')
+  })
+
+  test("escapa el HTML de los datos", () => {
+    const email = buildAlertDigestEmail(
+      "weekly_digest",
+      [item({ kpiName: "<b>KPI</b>" })],
+      ""
+    )
+    expect(email.subject).toContain("semanal")
+    expect(email.html).toContain("&lt;b&gt;KPI&lt;/b&gt;")
+    expect(email.html).not.toContain("/alerts")
+  })
+})
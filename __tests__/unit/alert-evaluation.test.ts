@@ -0,0 +1,199 @@
+/**
+ * @file __tests__/unit/alert-evaluation.test.ts
+ * @brief Pruebas unitarias de las reglas puras del motor de evaluación de alertas.
+ * @description Verifica la programación por frecuencia, la comparación de umbrales y variaciones
+ * de las alertas personalizadas, el cálculo de períodos pendientes de los recordatorios y la
+ * ventana de supresión de duplicados.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  buildAlertDedupeKey,
+  compareWithOperator,
+  evaluateCustomCondition,
+  getAlertDedupeWindowStart,
+  getAlertEvaluationWindowStart,
+  getUpdateReminderDue,
+  isAlertDue
+} from "@/lib/alert-evaluation"
+
+describe("isAlertDue / getAlertEvaluationWindowStart", () => {
+  const mondayMidnight = new Date("2024-07-01T00:10:00Z")
+  const mondayNoon = new Date("2024-07-01T12:00:00Z")
+
+  test("las alertas inmediatas se evalúan en cada ejecución", () => {
+    expect(isAlertDue({ type: "immediate" }, mondayNoon)).toBe(true)
+    expect(isAlertDue(null, mondayNoon)).toBe(true)
+  })
+
+  test("las alertas diarias y semanales solo en la primera ejecución del día", () => {
+    expect(isAlertDue({ type: "daily" }, mondayMidnight)).toBe(true)
+    expect(isAlertDue({ type: "daily" }, mondayNoon)).toBe(false)
+    expect(isAlertDue({ type: "weekly" }, mondayMidnight)).toBe(true)
+    expect(
+      isAlertDue({ type: "weekly" }, new Date("2024-07-02T00:10:00Z"))
+    ).toBe(false)
+  })
+
+  test("la ventana cubre el intervalo desde la evaluación anterior", () => {
+    expect(
+      getAlertEvaluationWindowStart({ type: "immediate" }, mondayNoon)
+    ).toEqual(new Date("2024-07-01T11:00:00Z"))
+    expect(
+      getAlertEvaluationWindowStart({ type: "daily" }, mondayNoon)
+    ).toEqual(new Date("2024-06-30T12:00:00Z"))
+  })
+})
+
+describe("compareWithOperator", () => {
+  test("aplica cada operador", () => {
+    expect(compareWithOperator(5, "gt", 3)).toBe(true)
+    expect(compareWithOperator(5, "lt", 3)).toBe(false)
+    expect(compareWithOperator(0.1 + 0.2, "eq", 0.3)).toBe(true)
+    expect(compareWithOperator(3, "ne", 3)).toBe(false)
+  })
+})
+
+describe("evaluateCustomCondition", () => {
+  test("compara la puntuación contra el umbral", () => {
+    const result = evaluateCustomCondition(
+      { triggerEvent: "score_changing", operator: "lt", thresholdValue: "50" },
+      { actualValue: "80", score: "25" },
+      null
+    )
+    expect(result).toBe("Puntuación 25 < 50")
+  })
+
+  test("no se dispara si no cumple el umbral", () => {
+    expect(
+      evaluateCustomCondition(
+        {
+          triggerEvent: "value_changing",
+          operator: "gt",
+          thresholdValue: "100"
+        },
+        { actualValue: "80", score: null },
+        null
+      )
+    ).toBeNull()
+  })
+
+  test("compara la variación respecto del período anterior", () => {
+    const details = {
+      triggerEvent: "value_changing" as const,
+      operator: "lt" as const,
+      thresholdValue: "-10",
+      comparison: "delta" as const
+    }
+    expect(
+      evaluateCustomCondition(
+        details,
+        { actualValue: "80", score: null },
+        { actualValue: "100", score: null }
+      )
+    ).toBe("Valor 100 → 80 (variación -20) < -10")
+    expect(
+      evaluateCustomCondition(details, { actualValue: "80", score: null }, null)
+    ).toBeNull()
+  })
+
+  test("ignora valores no numéricos", () => {
+    expect(
+      evaluateCustomCondition(
+        { triggerEvent: "value_changing", operator: "gt", thresholdValue: "1" },
+        { actualValue: "Sí", score: null },
+        null
+      )
+    ).toBeNull()
+  })
+})
+
+describe("getUpdateReminderDue", () => {
+  const now = new Date("2024-07-28T09:00:00")
+
+  test("avisa antes del cierre del período en curso sin valor", () => {
+    const due = getUpdateReminderDue(
+      "Monthly",
+      now,
+      { daysBeforeDeadline: 5 },
+      new Set()
+    )
+    expect(due).toEqual([
+      { periodDate: "2024-07-01", deadline: "2024-08-01", overdue: false }
+    ])
+  })
+
+  test("no avisa si el período en curso ya tiene valor o falta tiempo", () => {
+    expect(
+      getUpdateReminderDue(
+        "Monthly",
+        now,
+        { daysBeforeDeadline: 5 },
+        new Set(["2024-07-01"])
+      )
+    ).toEqual([])
+    expect(
+      getUpdateReminderDue("Monthly", now, { daysBeforeDeadline: 1 }, new Set())
+    ).toEqual([])
+  })
+
+  test("marca como atrasado el período anterior sin valor", () => {
+    const due = getUpdateReminderDue(
+      "Monthly",
+      now,
+      { daysAfterDeadline: 3 },
+      new Set()
+    )
+    expect(due).toEqual([
+      { periodDate: "2024-06-01", deadline: "2024-07-01", overdue: true }
+    ])
+  })
+
+  test("usa la semana que empieza el lunes para KPIs semanales", () => {
+    const due = getUpdateReminderDue(
+      "Weekly",
+      new Date("2024-07-04T09:00:00"),
+      { daysAfterDeadline: 0 },
+      new Set()
+    )
+    expect(due[0]).toMatchObject({
+      periodDate: "2024-06-24",
+      deadline: "2024-07-01"
+    })
+  })
+})
+
+describe("getAlertDedupeWindowStart / buildAlertDedupeKey", () => {
+  const now = new Date("2024-07-02T00:10:00Z")
+
+  test("las alertas inmediatas no repiten el mismo hecho en 24 horas", () => {
+    expect(getAlertDedupeWindowStart({ type: "immediate" }, now)).toEqual(
+      new Date("2024-07-01T00:10:00Z")
+    )
+  })
+
+  test("las alertas periódicas no suprimen la notificación del período siguiente", () => {
+    expect(getAlertDedupeWindowStart({ type: "daily" }, now)).toEqual(
+      new Date("2024-07-01T00:40:00Z")
+    )
+  })
+
+  test("las alertas de una sola vez no se repiten nunca", () => {
+    expect(getAlertDedupeWindowStart({ type: "once" }, now)).toBeNull()
+  })
+
+  test("la clave identifica KPI, período y detalle", () => {
+    const match = {
+      kpiId: "kpi-1",
+      kpiName: "Ventas",
+      periodDate: "2024-06-01",
+      detail: "El KPI está en Rojo (valor 10)."
+    }
+    expect(buildAlertDedupeKey(match)).toBe(
+      buildAlertDedupeKey({ ...match, kpiName: "Otro nombre" })
+    )
+    expect(buildAlertDedupeKey(match)).not.toBe(
+      buildAlertDedupeKey({ ...match, periodDate: "2024-07-01" })
+    )
+  })
+})
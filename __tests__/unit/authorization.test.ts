@@ -0,0 +1,285 @@
+/**
+ * @file __tests__/unit/authorization.test.ts
+ * @brief Pruebas unitarias de la guarda de autorización de las Server Actions.
+ * @description Verifica, para cada clave de permiso, que se rechaza a un usuario sin grupos, de un
+ * grupo de solo lectura, con el permiso denegado explícitamente o concedido solo en otra
+ * organización, y que se autoriza con el permiso por defecto del tipo de grupo o el de la
+ * organización. También cubre la configuración inicial sin miembros en ningún grupo, los perfiles
+ * desactivados, la visibilidad de las organizaciones en las Server Actions de lectura y el filtro
+ * por permiso de los listados de varias organizaciones.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  INACTIVE_PROFILE_MESSAGE,
+  PERMISSION_DENIED_MESSAGES,
+  explainUserEffectivePermissions,
+  hasUserPermission,
+  loadOrganizationVisibility,
+  loadPermissionCheck,
+  requireOrganizationVisibility,
+  requirePermission
+} from "@/lib/authorization"
+import { PERMISSION_KEYS, READ_PERMISSION_KEYS, UserGroupType } from "@/types"
+import { fakeDrizzle } from "@/lib/__tests__/fake-drizzle"
+
+const ORG_A = "11111111-1111-4111-8111-111111111111"
+const ORG_B = "22222222-2222-4222-8222-222222222222"
+const ORG_C = "33333333-3333-4333-8333-333333333333"
+
+// Orden de las consultas al Drizzle falso: perfil del usuario, grupos del usuario, filas de permisos
+// de esos grupos y, para los permisos de gestión de grupos, si existe algún miembro (configuración
+// inicial).
+const activeProfile = [{ isActive: true }]
+const inactiveProfile = [{ isActive: false }]
+const memberOf = (groupType: UserGroupType) => [
+  { id: "group-1", name: "Grupo", groupType }
+]
+const someoneElseIsMember = [{ userId: "other-user" }]
+const row = (
+  permissionKey: string,
+  organizationId: string | null,
+  permissionValue: boolean
+) => ({ groupId: "group-1", permissionKey, organizationId, permissionValue })
+
+describe.each(PERMISSION_KEYS.map(key => [key]))("permiso %s", key => {
+  const denial = { isSuccess: false, message: PERMISSION_DENIED_MESSAGES[key] }
+
+  test("rechaza a un usuario que no pertenece a ningún grupo", async () => {
+    const drizzle = fakeDrizzle([activeProfile, [], someoneElseIsMember])
+    expect(await requirePermission(drizzle, "user-1", key, ORG_A)).toEqual(
+      denial
+    )
+  })
+
+  test.skipIf(READ_PERMISSION_KEYS.includes(key))(
+    "rechaza a un grupo View Only aunque tenga el permiso asignado",
+    async () => {
+      const drizzle = fakeDrizzle([
+        activeProfile,
+        memberOf("View Only"),
+        [row(key, null, true), row(key, ORG_A, true)],
+        someoneElseIsMember
+      ])
+      expect(await requirePermission(drizzle, "user-1", key, ORG_A)).toEqual(
+        denial
+      )
+    }
+  )
+
+  test("rechaza si una fila explícita deniega el permiso por defecto", async () => {
+    const drizzle = fakeDrizzle([
+      activeProfile,
+      memberOf("Power User"),
+      [row(key, null, false)],
+      someoneElseIsMember
+    ])
+    expect(await requirePermission(drizzle, "user-1", key, ORG_A)).toEqual(
+      denial
+    )
+  })
+
+  test("rechaza si el permiso es solo de otra organización", async () => {
+    const grants = [row(key, null, false), row(key, ORG_B, true)]
+    expect(
+      await hasUserPermission(
+        fakeDrizzle([
+          activeProfile,
+          memberOf("Power User"),
+          grants,
+          someoneElseIsMember
+        ]),
+        "user-1",
+        key,
+        ORG_A
+      )
+    ).toBe(false)
+    expect(
+      await hasUserPermission(
+        fakeDrizzle([activeProfile, memberOf("Power User"), grants]),
+        "user-1",
+        key,
+        ORG_B
+      )
+    ).toBe(true)
+  })
+
+  test("rechaza a un perfil desactivado aunque su grupo tenga el permiso", async () => {
+    const drizzle = fakeDrizzle([
+      inactiveProfile,
+      memberOf("Power User"),
+      [row(key, null, true)]
+    ])
+    expect(await requirePermission(drizzle, "user-1", key, ORG_A)).toEqual({
+      isSuccess: false,
+      message: INACTIVE_PROFILE_MESSAGE
+    })
+  })
+
+  test("autoriza con el permiso por defecto del tipo de grupo", async () => {
+    const drizzle = fakeDrizzle([activeProfile, memberOf("Power User"), []])
+    expect(await requirePermission(drizzle, "user-1", key, ORG_A)).toBeNull()
+  })
+})
+
+describe("configuración inicial sin miembros en ningún grupo", () => {
+  test("concede solo los permisos de gestión de grupos y de lectura", async () => {
+    for (const key of PERMISSION_KEYS) {
+      const drizzle = fakeDrizzle([activeProfile, [], []])
+      expect(await hasUserPermission(drizzle, "user-1", key)).toBe(
+        key.startsWith("group:") || key === "organization:view"
+      )
+    }
+  })
+
+  test("la explicación indica la configuración inicial", async () => {
+    const explanations = await explainUserEffectivePermissions(
+      fakeDrizzle([[], []]),
+      "user-1"
+    )
+    expect(explanations.find(e => e.key === "group:manage")).toMatchObject({
+      granted: true,
+      rule: "bootstrap"
+    })
+    expect(explanations.find(e => e.key === "kpi:manage")).toMatchObject({
+      granted: false,
+      rule: "no_groups"
+    })
+  })
+})
+
+describe("visibilidad de las organizaciones", () => {
+  test("un grupo Power User ve todas las organizaciones con el permiso por defecto", async () => {
+    const canView = await loadOrganizationVisibility(
+      fakeDrizzle([activeProfile, memberOf("Power User"), []]),
+      "user-1"
+    )
+    expect([ORG_A, ORG_B].map(canView)).toEqual([true, true])
+  })
+
+  test.each(["Update User", "Interactive User", "View Only"] as const)(
+    "un grupo %s solo ve las organizaciones que se le asignan",
+    async groupType => {
+      const canView = await loadOrganizationVisibility(
+        fakeDrizzle([
+          activeProfile,
+          memberOf(groupType),
+          [row("organization:view", ORG_A, true)]
+        ]),
+        "user-1"
+      )
+      expect([ORG_A, ORG_B].map(canView)).toEqual([true, false])
+    }
+  )
+
+  test("los permisos de árbol restringen la visibilidad a sus organizaciones", async () => {
+    const canView = await loadOrganizationVisibility(
+      fakeDrizzle([
+        activeProfile,
+        memberOf("View Only"),
+        [
+          row("organization:view", null, false),
+          row("organization:view", ORG_A, true),
+          row("organization:view", ORG_B, true)
+        ]
+      ]),
+      "user-1"
+    )
+    expect([ORG_A, ORG_B, ORG_C].map(canView)).toEqual([true, true, false])
+  })
+
+  test("otro permiso concedido en la organización también la hace visible", async () => {
+    const canView = await loadOrganizationVisibility(
+      fakeDrizzle([
+        activeProfile,
+        memberOf("Update User"),
+        [
+          row("organization:view", null, false),
+          row("kpi_value:update", ORG_B, true)
+        ]
+      ]),
+      "user-1"
+    )
+    expect([ORG_A, ORG_B].map(canView)).toEqual([false, true])
+  })
+
+  test("un usuario sin grupos no ve organizaciones salvo en la configuración inicial", async () => {
+    const configured = await loadOrganizationVisibility(
+      fakeDrizzle([activeProfile, [], someoneElseIsMember]),
+      "user-1"
+    )
+    expect(configured(ORG_A)).toBe(false)
+    const bootstrap = await loadOrganizationVisibility(
+      fakeDrizzle([activeProfile, [], []]),
+      "user-1"
+    )
+    expect(bootstrap(ORG_A)).toBe(true)
+  })
+
+  test("un perfil desactivado no ve organizaciones ni en la configuración inicial", async () => {
+    const canView = await loadOrganizationVisibility(
+      fakeDrizzle([inactiveProfile, [], []]),
+      "user-1"
+    )
+    expect(canView(ORG_A)).toBe(false)
+    expect(
+      await hasUserPermission(
+        fakeDrizzle([inactiveProfile, [], []]),
+        "user-1",
+        "group:manage"
+      )
+    ).toBe(false)
+  })
+
+  test("requireOrganizationVisibility rechaza las organizaciones no visibles", async () => {
+    const grants = [
+      row("organization:view", null, false),
+      row("organization:view", ORG_A, true)
+    ]
+    expect(
+      await requireOrganizationVisibility(
+        fakeDrizzle([activeProfile, memberOf("Interactive User"), grants]),
+        "user-1",
+        ORG_A
+      )
+    ).toBeNull()
+    expect(
+      await requireOrganizationVisibility(
+        fakeDrizzle([activeProfile, memberOf("Interactive User"), grants]),
+        "user-1",
+        ORG_B
+      )
+    ).toEqual({
+      isSuccess: false,
+      message: PERMISSION_DENIED_MESSAGES["organization:view"]
+    })
+  })
+})
+
+describe("loadPermissionCheck", () => {
+  test("filtra por organización con una sola carga de los permisos", async () => {
+    const drizzle = fakeDrizzle([
+      activeProfile,
+      memberOf("Interactive User"),
+      [
+        row("import:manage_connections", null, false),
+        row("import:manage_connections", ORG_A, true)
+      ]
+    ])
+    const canManage = await loadPermissionCheck(
+      drizzle,
+      "user-1",
+      "import:manage_connections"
+    )
+    expect([ORG_A, ORG_B, null].map(canManage)).toEqual([true, false, false])
+  })
+
+  test("un perfil desactivado no tiene el permiso en ninguna organización", async () => {
+    const canManage = await loadPermissionCheck(
+      fakeDrizzle([inactiveProfile]),
+      "user-1",
+      "import:manage_connections"
+    )
+    expect(canManage(ORG_A)).toBe(false)
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * @file __tests__/unit/data-transformer.test.ts
+ * @brief Pruebas unitarias de las transformaciones de datos de las importaciones.
+ * @description Verifica el renombrado de columnas, las columnas derivadas, las tablas de
+ * equivalencias, el escalado de unidades, el recorte y la normalización de textos, la lectura de
+ * fechas con formato explícito, el paso de columnas anchas a filas y la validación de las reglas.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  applyTransformations,
+  validateTransformationRules
+} from "@/lib/data-transformer"
+import { TransformationRuleSchema } from "@/types/import-types"
+
+describe("applyTransformations", () => {
+  test("renombra columnas y calcula columnas derivadas", () => {
+    const rows = applyTransformations(
+      [{ Ventas: "150", Unidades: 3, Zona: "N" }],
+      [
+        { type: "rename", field: "Zona", parameters: { newName: "Region" } },
+        {
+          type: "derived_column",
+          field: "Precio",
+          parameters: { expression: "[Ventas] / Unidades" }
+        },
+        {
+          type: "derived_column",
+          field: "Clave",
+          parameters: { expression: "Region & '-' & (Unidades * -2)" }
+        }
+      ]
+    )
+
+    expect(rows).toEqual([
+      { Ventas: "150", Unidades: 3, Region: "N", Precio: 50, Clave: "N--6" }
+    ])
+  })
+
+  test("reemplaza valores con una tabla de equivalencias", () => {
+    const data = [{ org: " ven-01 " }, { org: "MKT" }, { org: "otro" }]
+    const mappings = [
+      { from: "VEN-01", to: "kpi-ventas" },
+      { from: "mkt", to: "kpi-marketing" }
+    ]
+
+    expect(
+      applyTransformations(data, [
+        {
+          type: "value_mapping",
+          field: "org",
+          parameters: { mappings, targetField: "kpiId", unmatched: "drop" }
+        }
+      ]).map(row => row.kpiId)
+    ).toEqual(["kpi-ventas", "kpi-marketing"])
+
+    expect(
+      applyTransformations(data, [
+        {
+          type: "value_mapping",
+          field: "org",
+          parameters: { mappings, unmatched: "keep", caseSensitive: true }
+        }
+      ]).map(row => row.org)
+    ).toEqual([" ven-01 ", "MKT", "otro"])
+  })
+
+  test("escala unidades, recorta espacios y normaliza mayúsculas", () => {
+    const rows = applyTransformations(
+      [{ monto: " 1234.5 ", nombre: "  juan   pérez " }, { monto: "n/a" }],
+      [
+        {
+          type: "unit_scaling",
+          field: "monto",
+          parameters: { factor: 0.001, decimals: 2 }
+        },
+        {
+          type: "trim",
+          field: "nombre",
+          parameters: { collapseWhitespace: true }
+        },
+        {
+          type: "case_normalization",
+          field: "nombre",
+          parameters: { mode: "title" }
+        }
+      ]
+    )
+
+    expect(rows).toEqual([
+      { monto: 1.23, nombre: "Juan Pérez" },
+      { monto: null }
+    ])
+  })
+
+  test("lee fechas con un formato explícito", () => {
+    const rows = applyTransformations(
+      [
+        { fecha: "31/01/2024" },
+        { fecha: "2024-13-01" },
+        { fecha: new Date(2024, 1, 15) }
+      ],
+      [
+        {
+          type: "date_parse",
+          field: "fecha",
+          parameters: { format: "dd/MM/yyyy" }
+        }
+      ]
+    )
+
+    expect(rows.map(row => row.fecha)).toEqual([
+      "2024-01-31",
+      null,
+      "2024-02-15"
+    ])
+  })
+
+  test("convierte columnas mensuales en filas", () => {
+    const rows = applyTransformations(
+      [{ kpi: "Ventas", Ene: 10, Feb: 12 }],
+      [
+        {
+          type: "unpivot",
+          field: "valor",
+          parameters: {
+            keyField: "periodo",
+            columns: [
+              { column: "Ene", key: "2024-01-01" },
+              { column: "Feb", key: "2024-02-01" },
+              { column: "Mar", key: "2024-03-01" }
+            ]
+          }
+        }
+      ]
+    )
+
+    expect(rows).toEqual([
+      { kpi: "Ventas", periodo: "2024-01-01", valor: 10 },
+      { kpi: "Ventas", periodo: "2024-02-01", valor: 12 }
+    ])
+  })
+})
+
+describe("validación de reglas", () => {
+  test("el esquema exige los parámetros de cada tipo", () => {
+    expect(
+      TransformationRuleSchema.safeParse({
+        type: "unit_scaling",
+        field: "monto",
+        parameters: { factor: 0 }
+      }).success
+    ).toBe(false)
+    expect(
+      TransformationRuleSchema.safeParse({
+        type: "regex_replace",
+        field: "monto",
+        parameters: { pattern: "(", replacement: "" }
+      }).success
+    ).toBe(false)
+    expect(
+      TransformationRuleSchema.safeParse({
+        type: "pivot",
+        field: "monto",
+        parameters: {}
+      }).error?.issues[0].message
+    ).toBe("Tipo de transformación inválido.")
+  })
+
+  test("validateTransformationRules rechaza expresiones y formatos inválidos", () => {
+    expect(
+      validateTransformationRules([
+        {
+          type: "derived_column",
+          field: "total",
+          parameters: { expression: "[a] +" }
+        }
+      ])
+    ).toMatch(/^Transformación 1 \(Columna derivada en "total"\)/)
+    expect(
+      validateTransformationRules([
+        { type: "date_parse", field: "f", parameters: { format: "dd/MM/yyyy" } }
+      ])
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * @file __tests__/unit/effective-permissions.test.ts
+ * @brief Pruebas unitarias de la resolución de permisos efectivos por tipo de grupo.
+ * @description Verifica los permisos por defecto de cada tipo de grupo, que las filas explícitas
+ * los reemplazan (por organización antes que globales), que View Only solo tiene permisos de
+ * lectura y que la explicación indica la regla y el grupo que decidieron cada permiso.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  GroupPermissionRow,
+  PermissionGroup,
+  buildEffectivePermissionsMap,
+  explainPermission,
+  explainUserPermissions
+} from "@/lib/effective-permissions"
+import { PERMISSION_KEYS, makeHasPermission } from "@/types"
+
+const ORG_A = "11111111-1111-4111-8111-111111111111"
+
+const powerUsers: PermissionGroup = {
+  id: "g-power",
+  name: "Administradores",
+  groupType: "Power User"
+}
+const updaters: PermissionGroup = {
+  id: "g-update",
+  name: "Actualizadores",
+  groupType: "Update User"
+}
+const interactive: PermissionGroup = {
+  id: "g-interactive",
+  name: "Analistas",
+  groupType: "Interactive User"
+}
+const viewers: PermissionGroup = {
+  id: "g-view",
+  name: "Lectores",
+  groupType: "View Only"
+}
+
+const row = (
+  group: PermissionGroup,
+  permissionKey: string,
+  permissionValue: boolean,
+  organizationId: string | null = null
+): GroupPermissionRow => ({
+  groupId: group.id,
+  permissionKey,
+  permissionValue,
+  organizationId
+})
+
+const granted = (groups: PermissionGroup[], rows: GroupPermissionRow[] = []) =>
+  explainUserPermissions(groups, rows)
+    .filter(e => e.granted)
+    .map(e => e.key)
+
+describe("permisos por defecto por tipo de grupo", () => {
+  test("Power User tiene todos los permisos", () => {
+    expect(granted([powerUsers])).toEqual([...PERMISSION_KEYS])
+  })
+
+  test("Update User actualiza valores y publica notas, pero no gestiona KPIs", () => {
+    expect(granted([updaters])).toEqual(["kpi_value:update", "kpi_note:create"])
+  })
+
+  test("Interactive User solo publica notas", () => {
+    expect(granted([interactive])).toEqual(["kpi_note:create"])
+  })
+
+  test("View Only solo tiene permisos de lectura, aunque se le asignen otros", () => {
+    const rows = PERMISSION_KEYS.map(key => row(viewers, key, true))
+    expect(granted([viewers], rows)).toEqual(["organization:view"])
+    expect(explainPermission([viewers], rows, "kpi:manage")).toMatchObject({
+      granted: false,
+      rule: "read_only_group_type",
+      groupName: "Lectores"
+    })
+  })
+})
+
+describe("filas explícitas", () => {
+  test("una fila global concede un permiso que el tipo no incluye", () => {
+    const rows = [row(interactive, "kpi:manage", true)]
+    expect(explainPermission([interactive], rows, "kpi:manage")).toMatchObject({
+      granted: true,
+      rule: "explicit_global",
+      groupId: "g-interactive"
+    })
+  })
+
+  test("una fila global deniega un permiso por defecto", () => {
+    const rows = [row(updaters, "kpi_value:update", false)]
+    expect(
+      explainPermission([updaters], rows, "kpi_value:update")
+    ).toMatchObject({ granted: false, rule: "explicit_global" })
+  })
+
+  test("la fila de la organización prevalece sobre la global solo en esa organización", () => {
+    const rows = [
+      row(powerUsers, "organization:manage", true),
+      row(powerUsers, "organization:manage", false, ORG_A)
+    ]
+    expect(
+      explainPermission([powerUsers], rows, "organization:manage", ORG_A)
+    ).toMatchObject({
+      granted: false,
+      rule: "explicit_organization",
+      organizationId: ORG_A
+    })
+    expect(
+      explainPermission([powerUsers], rows, "organization:manage")
+    ).toMatchObject({ granted: true, rule: "explicit_global" })
+  })
+
+  test("basta con que un grupo conceda el permiso", () => {
+    const rows = [row(updaters, "kpi_value:update", false)]
+    expect(
+      explainPermission([updaters, powerUsers], rows, "kpi_value:update")
+    ).toMatchObject({
+      granted: true,
+      rule: "group_type_default",
+      groupName: "Administradores"
+    })
+  })
+})
+
+describe("buildEffectivePermissionsMap", () => {
+  test("se comporta como la resolución con makeHasPermission", () => {
+    const groups = [updaters, interactive]
+    const rows = [
+      row(updaters, "kpi_value:update", false, ORG_A),
+      row(interactive, "alert:manage", true, ORG_A)
+    ]
+    const hasPermission = makeHasPermission(
+      buildEffectivePermissionsMap(groups, rows)
+    )
+    for (const key of PERMISSION_KEYS) {
+      for (const organizationId of [null, ORG_A, "otra-organizacion"]) {
+        expect(hasPermission(key, organizationId)).toBe(
+          explainPermission(groups, rows, key, organizationId).granted
+        )
+      }
+    }
+  })
+
+  test("conserva las claves no declaradas de las filas", () => {
+    const map = buildEffectivePermissionsMap(
+      [interactive],
+      [row(interactive, "beta:flag", true)]
+    )
+    expect(map["beta:flag"]).toEqual({ global: true })
+  })
+})
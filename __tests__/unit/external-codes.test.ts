@@ -0,0 +1,69 @@
+/**
+ * @file __tests__/unit/external-codes.test.ts
+ * @brief Pruebas unitarias de los códigos externos y los alias de KPIs y organizaciones.
+ * @description Verifica la normalización de los alias, la validación de los códigos externos y de
+ * los alias y la comparación de ambos con los identificadores sin distinguir mayúsculas.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  matchesAlias,
+  matchesExternalCode,
+  parseAliasList
+} from "@/lib/external-codes"
+import { AliasesSchema, ExternalCodeSchema, normalizeAliases } from "@/types"
+
+describe("normalizeAliases", () => {
+  test("recorta los alias y elimina los vacíos", () => {
+    expect(normalizeAliases(["  Net Sales ", "", "   ", "Ventas"])).toEqual([
+      "Net Sales",
+      "Ventas"
+    ])
+  })
+
+  test("elimina los repetidos sin distinguir mayúsculas y conserva la primera escritura", () => {
+    expect(
+      normalizeAliases(["Net Sales", "net sales", "NET SALES ", "Costs"])
+    ).toEqual(["Net Sales", "Costs"])
+  })
+
+  test("separa el texto del formulario por líneas y comas", () => {
+    expect(parseAliasList("Net Sales, Ventas\nnet sales\n\nCosts")).toEqual([
+      "Net Sales",
+      "Ventas",
+      "Costs"
+    ])
+    expect(parseAliasList(null)).toEqual([])
+  })
+})
+
+describe("ExternalCodeSchema", () => {
+  test("acepta letras, números y los separadores permitidos", () => {
+    expect(ExternalCodeSchema.parse(" VTA-001/a.b_c ")).toBe("VTA-001/a.b_c")
+  })
+
+  test("rechaza los códigos vacíos o con otros caracteres", () => {
+    expect(ExternalCodeSchema.safeParse("  ").success).toBe(false)
+    expect(ExternalCodeSchema.safeParse("VTA 001").success).toBe(false)
+    expect(ExternalCodeSchema.safeParse("[VTA]").success).toBe(false)
+  })
+})
+
+describe("AliasesSchema", () => {
+  test("normaliza la lista de alias", () => {
+    expect(AliasesSchema.parse([" Ventas", "ventas", ""])).toEqual(["Ventas"])
+  })
+
+  test("rechaza los alias con corchetes", () => {
+    expect(AliasesSchema.safeParse(["[KPI:Ventas]"]).success).toBe(false)
+  })
+})
+
+describe("matchesExternalCode y matchesAlias", () => {
+  test("comparan sin distinguir mayúsculas ni espacios en los extremos", () => {
+    expect(matchesExternalCode("VTA-001", " vta-001 ")).toBe(true)
+    expect(matchesExternalCode(null, "VTA-001")).toBe(false)
+    expect(matchesAlias(["Net Sales"], "NET SALES")).toBe(true)
+    expect(matchesAlias(undefined, "Net Sales")).toBe(false)
+  })
+})
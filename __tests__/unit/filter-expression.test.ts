@@ -0,0 +1,134 @@
+/**
+ * @file __tests__/unit/filter-expression.test.ts
+ * @brief Pruebas unitarias del lenguaje de expresiones de los filtros de importación.
+ * @description Verifica comparaciones, operadores lógicos, listas IN, operadores de texto,
+ * comprobaciones de nulos, referencias a otros campos de la fila y el rechazo de condiciones
+ * inválidas o que intentan ejecutar código.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  evaluateFilterExpression,
+  parseFilterExpression,
+  validateFilterExpression
+} from "@/lib/filter-expression"
+import {
+  applyTransformations,
+  validateTransformationRules
+} from "@/lib/data-transformer"
+
+const matches = (
+  condition: string,
+  row: Record<string, unknown>,
+  field = "amount"
+) => {
+  const parsed = parseFilterExpression(condition)
+  if (!parsed.isSuccess) throw new Error(parsed.error.message)
+  return evaluateFilterExpression(parsed.ast, row, field)
+}
+
+describe("evaluateFilterExpression", () => {
+  test("compara números, textos numéricos y textos", () => {
+    expect(matches("value > 100", { amount: 150 })).toBe(true)
+    expect(matches("value > 100", { amount: "99.5" })).toBe(false)
+    expect(matches("value >= -3", { amount: "-3" })).toBe(true)
+    expect(matches("value = 'Norte'", { amount: "Norte" })).toBe(true)
+    expect(matches("value <> 'Norte'", { amount: "Sur" })).toBe(true)
+  })
+
+  test("combina condiciones con AND, OR, NOT y paréntesis", () => {
+    const condition =
+      "NOT (value < 0) AND (region = 'Norte' OR [Región de venta] = 'Sur')"
+    expect(matches(condition, { amount: 5, region: "Norte" })).toBe(true)
+    expect(matches(condition, { amount: 5, "Región de venta": "Sur" })).toBe(
+      true
+    )
+    expect(matches(condition, { amount: -1, region: "Norte" })).toBe(false)
+    expect(matches(condition, { amount: 5, region: "Este" })).toBe(false)
+  })
+
+  test("admite IN, operadores de texto y comprobaciones de nulos", () => {
+    expect(matches("region IN ('Norte', 'Sur')", { region: "Sur" })).toBe(true)
+    expect(matches("region NOT IN ('Norte', 'Sur')", { region: "Sur" })).toBe(
+      false
+    )
+    expect(matches("value IN (1, 2, 3)", { amount: "2" })).toBe(true)
+    expect(matches("name CONTAINS 'ven'", { name: "Ventas" })).toBe(false)
+    expect(matches("name STARTSWITH 'Ven'", { name: "Ventas" })).toBe(true)
+    expect(matches("name NOT ENDSWITH 'as'", { name: "Ventas" })).toBe(false)
+    expect(matches("value IS NULL", { amount: "  " })).toBe(true)
+    expect(matches("value IS NOT NULL", {})).toBe(false)
+    expect(matches("value > 0", { amount: null })).toBe(false)
+  })
+
+  test("acepta los operadores de JavaScript de las condiciones anteriores", () => {
+    expect(
+      matches("value !== null && value === 'A' || !(value == 'B')", {
+        amount: "A"
+      })
+    ).toBe(true)
+  })
+})
+
+describe("parseFilterExpression", () => {
+  test("devuelve los campos referenciados", () => {
+    const parsed = parseFilterExpression("value > 1 AND region = [Zona]")
+    expect(parsed.isSuccess && parsed.fields).toEqual(["region", "Zona"])
+  })
+
+  test("rechaza condiciones inválidas con la posición del error", () => {
+    expect(validateFilterExpression("")).toEqual({
+      message: "La condición del filtro está vacía."
+    })
+    expect(validateFilterExpression("value >")).toMatchObject({ position: 7 })
+    expect(validateFilterExpression("value")).not.toBeNull()
+    expect(validateFilterExpression("region IN (zona)")).not.toBeNull()
+    expect(validateFilterExpression("(value > 1")).not.toBeNull()
+    expect(validateFilterExpression("'abc")).not.toBeNull()
+  })
+
+  test("no permite ejecutar código", () => {
+    expect(
+      validateFilterExpression("process.exit(1) || value > 0")
+    ).toMatchObject({ message: 'Carácter no permitido ".".' })
+    expect(validateFilterExpression("value; require('fs')")).not.toBeNull()
+    expect(validateFilterExpression("constructor(value)")).not.toBeNull()
+  })
+})
+
+describe("filtros en las transformaciones", () => {
+  test("validateTransformationRules informa la regla con la condición inválida", () => {
+    expect(
+      validateTransformationRules([
+        {
+          type: "filter",
+          field: "amount",
+          parameters: { condition: "value > 1" }
+        },
+        {
+          type: "filter",
+          field: "region",
+          parameters: { condition: "value =" }
+        }
+      ])
+    ).toMatch(/^Transformación 2 \(Filtro en "region"\)/)
+  })
+
+  test("applyTransformations filtra las filas sin eval", () => {
+    const rows = applyTransformations(
+      [
+        { amount: "10", region: "Norte" },
+        { amount: "200", region: "Norte" },
+        { amount: "300", region: "Sur" }
+      ],
+      [
+        {
+          type: "filter",
+          field: "amount",
+          parameters: { condition: "value > 100 AND region = 'Norte'" }
+        }
+      ]
+    )
+    expect(rows).toEqual([{ amount: "200", region: "Norte" }])
+  })
+})
@@ -0,0 +1,167 @@
+/**
+ * @file __tests__/unit/formula-evaluator.test.ts
+ * @brief Pruebas unitarias del evaluador seguro de ecuaciones de KPI.
+ * @description Verifica precedencia de operadores, funciones soportadas, resolución de
+ * referencias [KPI:...], manejo de división por cero y errores de sintaxis estructurados.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  evaluateFormula,
+  parseFormula,
+  validateFormula
+} from "@/lib/formula-evaluator"
+
+const noRefs = () => null
+
+describe("evaluateFormula", () => {
+  test("Respeta la precedencia de operadores y paréntesis", () => {
+    expect(evaluateFormula("2 + 3 * 4", noRefs)).toEqual({
+      isSuccess: true,
+      value: 14
+    })
+    expect(evaluateFormula("(2 + 3) * 4", noRefs)).toEqual({
+      isSuccess: true,
+      value: 20
+    })
+    expect(evaluateFormula("-2 ^ 2", noRefs)).toEqual({
+      isSuccess: true,
+      value: -4
+    })
+    expect(evaluateFormula("2 ^ 3 ^ 2", noRefs)).toEqual({
+      isSuccess: true,
+      value: 512
+    })
+  })
+
+  test("Soporta MIN, MAX, ABS, ROUND e IF (case-insensitive)", () => {
+    const value = (eq: string) => {
+      const result = evaluateFormula(eq, noRefs)
+      return result.isSuccess ? result.value : null
+    }
+    expect(value("MIN(3, 1, 2)")).toBe(1)
+    expect(value("max(3, 1, 2)")).toBe(3)
+    expect(value("ABS(-7)")).toBe(7)
+    expect(value("ROUND(2.345, 2)")).toBe(2.35)
+    expect(value("IF(1 > 2, 10, 20)")).toBe(20)
+    expect(value("AVG(2, 4)")).toBe(3)
+  })
+
+  test("Resuelve referencias a KPI mediante el resolver", () => {
+    const values: Record<string, number> = { Ventas: 200, Unidades: 50 }
+    const result = evaluateFormula(
+      "[KPI:Ventas] / [KPI: Unidades ]",
+      ref => values[ref.identifier] ?? null
+    )
+    expect(result).toEqual({ isSuccess: true, value: 4 })
+  })
+
+  test("Devuelve DIVISION_BY_ZERO con la posición del operador", () => {
+    const result = evaluateFormula("10 / (5 - 5)", noRefs)
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.code).toBe("DIVISION_BY_ZERO")
+      expect(result.error.position).toBe(3)
+    }
+  })
+
+  test("IF evalúa solo la rama seleccionada (protege divisiones)", () => {
+    const result = evaluateFormula(
+      "IF([KPI:b] = 0, 0, [KPI:a] / [KPI:b])",
+      ref => (ref.identifier === "a" ? 10 : 0)
+    )
+    expect(result).toEqual({ isSuccess: true, value: 0 })
+  })
+
+  test("Devuelve INVALID_ARGUMENT si ROUND recibe decimales fuera de rango o no enteros", () => {
+    for (const eq of [
+      "ROUND(2.345, 11)",
+      "ROUND(2.345, -1)",
+      "ROUND(2.345, 1.5)"
+    ]) {
+      const result = evaluateFormula(eq, noRefs)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.code).toBe("INVALID_ARGUMENT")
+      }
+    }
+  })
+
+  test("Devuelve MISSING_VALUE si un KPI referenciado no tiene valor", () => {
+    const result = evaluateFormula("[KPI:Ventas] + 1", noRefs)
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.code).toBe("MISSING_VALUE")
+    }
+  })
+})
+
+describe("parseFormula / validateFormula", () => {
+  test("Extrae las referencias y detecta UUIDs", () => {
+    const result = parseFormula(
+      "[KPI:123e4567-e89b-12d3-a456-426614174000] + [KPI:Costos]"
+    )
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.references.map(r => r.isId)).toEqual([true, false])
+    }
+  })
+
+  test("Interpreta los modificadores de campo, período y agregación", () => {
+    const result = parseFormula(
+      "[KPI:Ventas:target] - [KPI:Ventas:prev] + [KPI:Ventas:YTD:lastYear]"
+    )
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(
+        result.references.map(r => ({
+          identifier: r.identifier,
+          field: r.field,
+          periodShift: r.periodShift,
+          aggregate: r.aggregate
+        }))
+      ).toEqual([
+        {
+          identifier: "Ventas",
+          field: "target",
+          periodShift: "current",
+          aggregate: null
+        },
+        {
+          identifier: "Ventas",
+          field: "actual",
+          periodShift: "previous",
+          aggregate: null
+        },
+        {
+          identifier: "Ventas",
+          field: "actual",
+          periodShift: "lastYear",
+          aggregate: "ytd"
+        }
+      ])
+    }
+    expect(validateFormula("[KPI:Ventas:prev:lastYear]")?.code).toBe(
+      "INVALID_REFERENCE"
+    )
+  })
+
+  test("Rechaza código arbitrario sin ejecutarlo", () => {
+    expect(validateFormula("1; while (true) {}")?.code).toBe(
+      "INVALID_CHARACTER"
+    )
+    expect(validateFormula("alert(1)")?.code).toBe("UNKNOWN_FUNCTION")
+  })
+
+  test("Reporta errores de sintaxis con posición", () => {
+    expect(validateFormula("")?.code).toBe("EMPTY_EXPRESSION")
+    expect(validateFormula("(1 + 2")?.code).toBe("UNEXPECTED_END")
+    expect(validateFormula("1 + * 2")).toMatchObject({
+      code: "UNEXPECTED_TOKEN",
+      position: 4
+    })
+    expect(validateFormula("[Ventas] + 1")?.code).toBe("INVALID_REFERENCE")
+    expect(validateFormula("IF(1, 2)")?.code).toBe("INVALID_ARGUMENT_COUNT")
+    expect(validateFormula("ROUND([KPI:a], 2)")).toBeNull()
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * @file __tests__/unit/import-preview.test.ts
+ * @brief Pruebas unitarias de la vista previa de importaciones.
+ * @description Verifica la clasificación de los valores importados en inserciones, actualizaciones
+ * y omisiones frente a los valores guardados, qué valores se escriben y la combinación de las filas
+ * del mismo KPI y período según el tipo de agregación.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  ImportCandidate,
+  aggregatePeriodValues,
+  buildImportChangeSet,
+  combineSamePeriodCandidates,
+  kpiValueKey
+} from "@/lib/import-preview"
+
+const candidate = (
+  rowNumber: number,
+  kpiId: string,
+  periodDate: string,
+  actualValue: string,
+  extra: Partial<ImportCandidate["value"]> = {}
+): ImportCandidate => ({
+  rowNumber,
+  kpiName: `KPI ${kpiId}`,
+  value: { kpiId, periodDate, actualValue, ...extra }
+})
+
+const existing = new Map([
+  [
+    kpiValueKey("k1", "2024-01-01"),
+    {
+      kpiId: "k1",
+      periodDate: "2024-01-01",
+      actualValue: "100",
+      targetValue: "120",
+      thresholdRed: null,
+      thresholdYellow: null,
+      score: "83.33",
+      color: "Yellow" as const,
+      note: null,
+      updatedByUserId: null,
+      isManualEntry: false
+    }
+  ],
+  [
+    kpiValueKey("k2", "2024-01-01"),
+    {
+      kpiId: "k2",
+      periodDate: "2024-01-01",
+      actualValue: "5",
+      targetValue: null,
+      thresholdRed: null,
+      thresholdYellow: null,
+      score: null,
+      color: null,
+      note: "Carga inicial",
+      updatedByUserId: "user_ana",
+      isManualEntry: true
+    }
+  ]
+])
+
+describe("buildImportChangeSet", () => {
+  test("clasifica inserciones, actualizaciones y valores sin cambios", () => {
+    const { changeSet, valuesToWrite } = buildImportChangeSet(
+      [
+        candidate(1, "k1", "2024-01-01", "130", {
+          targetValue: "120",
+          score: "100",
+          color: "Green"
+        }),
+        candidate(2, "k2", "2024-01-01", "5"),
+        candidate(3, "k3", "2024-01-01", "7")
+      ],
+      [{ rowNumber: 4, reason: "Fecha inválida." }],
+      existing,
+      true
+    )
+
+    expect(changeSet).toMatchObject({
+      dryRun: true,
+      insertCount: 1,
+      updateCount: 1,
+      skipCount: 2
+    })
+    expect(changeSet.rows.map(row => [row.rowNumber, row.action])).toEqual([
+      [1, "update"],
+      [2, "skip"],
+      [3, "insert"],
+      [4, "skip"]
+    ])
+    expect(changeSet.rows[0]).toMatchObject({
+      kpiName: "KPI k1",
+      oldActualValue: "100",
+      newActualValue: "130",
+      oldScore: "83.33",
+      newScore: "100",
+      oldColor: "Yellow",
+      newColor: "Green"
+    })
+    expect(changeSet.rows[1].reason).toBe("El valor guardado no cambia.")
+    expect(valuesToWrite.map(value => value.kpiId)).toEqual(["k1", "k3"])
+  })
+
+  test("compara los valores repetidos de la importación con el anterior", () => {
+    const { changeSet, valuesToWrite } = buildImportChangeSet(
+      [
+        candidate(1, "k3", "2024-02-01", "10"),
+        candidate(2, "k3", "2024-02-01", "10"),
+        candidate(3, "k3", "2024-02-01", "12")
+      ],
+      [],
+      new Map(),
+      false
+    )
+
+    expect(changeSet.rows.map(row => row.action)).toEqual([
+      "insert",
+      "skip",
+      "update"
+    ])
+    expect(changeSet.rows[2].oldActualValue).toBe("10")
+    expect(valuesToWrite).toHaveLength(2)
+  })
+})
+
+describe("combineSamePeriodCandidates", () => {
+  test("agrega el valor real según el tipo de agregación del KPI", () => {
+    expect(aggregatePeriodValues(["10", " 20.5", null], "Sum")).toBe("30.5")
+    expect(aggregatePeriodValues(["0.1", "0.2", ""], "Average")).toBe("0.15")
+    expect(aggregatePeriodValues(["10", "12"], "Last Value")).toBe("12")
+    expect(aggregatePeriodValues(["Sí", "No"], "Sum")).toBe("No")
+    expect(aggregatePeriodValues([null, " "], "Average")).toBeNull()
+  })
+
+  test("combina las filas del mismo KPI y período", () => {
+    const combined = combineSamePeriodCandidates(
+      [
+        candidate(1, "k1", "2024-03-01", "10", { targetValue: "50" }),
+        candidate(2, "k2", "2024-03-01", "7"),
+        candidate(3, "k1", "2024-03-01", "15", { targetValue: null }),
+        candidate(4, "k1", "2024-04-01", "1")
+      ],
+      new Map([
+        ["k1", "Sum" as const],
+        ["k2", "Average" as const]
+      ])
+    )
+
+    expect(combined.map(c => [c.rowNumber, c.value.actualValue])).toEqual([
+      [1, "25"],
+      [2, "7"],
+      [4, "1"]
+    ])
+    expect(combined[0]).toMatchObject({
+      combinedRowNumbers: [1, 3],
+      reason: "Combina las filas 1, 3 del mismo período (suma).",
+      value: { targetValue: "50" }
+    })
+
+    const { changeSet } = buildImportChangeSet(combined, [], new Map(), true)
+    expect(changeSet.rows[0].reason).toBe(
+      "Combina las filas 1, 3 del mismo período (suma)."
+    )
+    expect(changeSet.rows[1].reason).toBeNull()
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * @file __tests__/unit/import-runs.test.ts
+ * @brief Pruebas unitarias del historial de ejecuciones de importaciones.
+ * @description Verifica cómo se planifica la reversión de una ejecución: valores a restaurar, a
+ * eliminar y en conflicto porque cambiaron después de la ejecución.
+ */
+
+import { describe, test, expect } from "vitest"
+import { KpiValueSnapshot, SelectImportRunChange } from "@/db/schema"
+import { ExistingKpiValue, kpiValueKey } from "@/lib/import-preview"
+import { planImportRunRollback, toKpiValueSnapshot } from "@/lib/import-runs"
+
+const snapshot = (
+  actualValue: string,
+  extra: Partial<KpiValueSnapshot> = {}
+): KpiValueSnapshot => ({
+  actualValue,
+  targetValue: null,
+  thresholdRed: null,
+  thresholdYellow: null,
+  score: null,
+  color: null,
+  note: null,
+  updatedByUserId: null,
+  isManualEntry: false,
+  ...extra
+})
+
+const change = (
+  kpiId: string,
+  previousValue: KpiValueSnapshot | null,
+  newValue: KpiValueSnapshot
+): SelectImportRunChange => ({
+  id: `change-${kpiId}`,
+  runId: "run-1",
+  kpiId,
+  periodDate: "2024-03-01",
+  previousValue,
+  newValue,
+  createdAt: new Date("2024-03-02T00:00:00Z"),
+  updatedAt: new Date("2024-03-02T00:00:00Z")
+})
+
+const current = (kpiId: string, value: KpiValueSnapshot): ExistingKpiValue => ({
+  kpiId,
+  periodDate: "2024-03-01",
+  ...value
+})
+
+describe("planImportRunRollback", () => {
+  test("restaura, elimina y conserva los valores cambiados después de la ejecución", () => {
+    const changes = [
+      change("k1", snapshot("10"), snapshot("12")),
+      change("k2", null, snapshot("5")),
+      change("k3", snapshot("1"), snapshot("2")),
+      change("k4", snapshot("7"), snapshot("8"))
+    ]
+    const currentValues = new Map([
+      // Igual a lo escrito salvo espacios: se restaura
+      [kpiValueKey("k1", "2024-03-01"), current("k1", snapshot(" 12 "))],
+      [kpiValueKey("k2", "2024-03-01"), current("k2", snapshot("5"))],
+      // Editado a mano después de la ejecución
+      [
+        kpiValueKey("k3", "2024-03-01"),
+        current("k3", snapshot("3", { isManualEntry: true }))
+      ]
+      // k4 se eliminó después de la ejecución
+    ])
+
+    const plan = planImportRunRollback(changes, currentValues)
+
+    expect(plan.restore.map(c => c.kpiId)).toEqual(["k1"])
+    expect(plan.remove.map(c => c.kpiId)).toEqual(["k2"])
+    expect(plan.conflicts.map(c => c.kpiId)).toEqual(["k3", "k4"])
+  })
+})
+
+describe("toKpiValueSnapshot", () => {
+  test("conserva solo los campos del valor guardados en el historial", () => {
+    const value = current(
+      "k1",
+      snapshot("10", { score: "80", color: "Yellow", note: "Revisado" })
+    )
+
+    expect(toKpiValueSnapshot(value)).toEqual(
+      snapshot("10", { score: "80", color: "Yellow", note: "Revisado" })
+    )
+    expect(toKpiValueSnapshot(value)).not.toHaveProperty("kpiId")
+  })
+})
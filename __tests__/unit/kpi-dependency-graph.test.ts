@@ -0,0 +1,236 @@
+/**
+ * @file __tests__/unit/kpi-dependency-graph.test.ts
+ * @brief Pruebas unitarias del grafo de dependencias entre KPIs calculados.
+ * @description Verifica la resolución de referencias por nombre, código externo y alias (también con
+ * los nodos de un grafo ya construido, sin consultar la base de datos), la detección de ciclos y el
+ * orden topológico de recálculo en cascada.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  KpiGraphNode,
+  buildKpiDependencyGraph,
+  findKpiDependencyCycle,
+  getRecalculationOrder,
+  matchKpiReference
+} from "@/lib/kpi-dependency-graph"
+import { resolveKpiReferenceIds } from "@/lib/kpi-calculation-engine"
+import { fakeDrizzle } from "@/lib/__tests__/fake-drizzle"
+
+const node = (
+  id: string,
+  calculationEquation: string | null = null,
+  organizationId = "org-1"
+): KpiGraphNode => ({ id, name: id, organizationId, calculationEquation })
+
+describe("buildKpiDependencyGraph", () => {
+  test("Resuelve referencias priorizando la misma organización", () => {
+    const graph = buildKpiDependencyGraph([
+      {
+        id: "ventas-1",
+        name: "Ventas",
+        organizationId: "org-1",
+        calculationEquation: null
+      },
+      {
+        id: "ventas-2",
+        name: "Ventas",
+        organizationId: "org-2",
+        calculationEquation: null
+      },
+      {
+        id: "margen",
+        name: "Margen",
+        organizationId: "org-2",
+        calculationEquation: "[KPI:Ventas] * 0.2"
+      }
+    ])
+    expect([...graph.dependencies.get("margen")!]).toEqual(["ventas-2"])
+    expect([...graph.dependents.get("ventas-2")!]).toEqual(["margen"])
+  })
+
+  test("Resuelve las referencias [KPI:código] y [KPI:alias]", () => {
+    const graph = buildKpiDependencyGraph([
+      {
+        id: "ventas",
+        name: "Ventas",
+        organizationId: "org-1",
+        calculationEquation: null,
+        externalCode: "VTA-001",
+        aliases: ["Net Sales"]
+      },
+      {
+        id: "costos",
+        name: "Costos",
+        organizationId: "org-1",
+        calculationEquation: null,
+        externalCode: "CST-001"
+      },
+      {
+        id: "margen",
+        name: "Margen",
+        organizationId: "org-1",
+        calculationEquation: "([KPI:vta-001] - [KPI:CST-001]) / [KPI:Net Sales]"
+      }
+    ])
+    expect([...graph.dependencies.get("margen")!].sort()).toEqual([
+      "costos",
+      "ventas"
+    ])
+  })
+
+  test("Ignora un alias ambiguo fuera de la organización de la ecuación", () => {
+    const graph = buildKpiDependencyGraph([
+      {
+        id: "revenue-1",
+        name: "Ventas Norte",
+        organizationId: "org-1",
+        calculationEquation: null,
+        aliases: ["Revenue"]
+      },
+      {
+        id: "revenue-2",
+        name: "Ventas Sur",
+        organizationId: "org-2",
+        calculationEquation: null,
+        aliases: ["Revenue"]
+      },
+      {
+        id: "total",
+        name: "Total",
+        organizationId: "org-3",
+        calculationEquation: "[KPI:Revenue] * 2"
+      },
+      {
+        id: "norte",
+        name: "Norte",
+        organizationId: "org-1",
+        calculationEquation: "[KPI:Revenue] * 2"
+      }
+    ])
+    expect([...graph.dependencies.get("total")!]).toEqual([])
+    expect([...graph.dependencies.get("norte")!]).toEqual(["revenue-1"])
+  })
+})
+
+describe("matchKpiReference", () => {
+  const candidates = [
+    {
+      id: "ventas",
+      name: "Ventas",
+      organizationId: "org-1",
+      externalCode: "VTA-001",
+      aliases: ["Net Sales"]
+    },
+    {
+      id: "costos",
+      name: "Costos",
+      organizationId: "org-1",
+      externalCode: null,
+      aliases: ["Ventas", "Costs"]
+    },
+    {
+      id: "costos-2",
+      name: "Costos",
+      organizationId: "org-2",
+      aliases: ["Costs"]
+    }
+  ]
+  const match = (identifier: string, organizationId: string | null = "org-1") =>
+    matchKpiReference({ identifier, isId: false }, candidates, organizationId)
+
+  test("resuelve por código externo o alias cuando ningún nombre coincide", () => {
+    expect(match("vta-001")).toBe("ventas")
+    expect(match("net sales")).toBe("ventas")
+    expect(match("Ventas")).toBe("ventas")
+    expect(match("Costs", "org-2")).toBe("costos-2")
+    expect(match("Costs", null)).toBeUndefined()
+  })
+})
+
+describe("findKpiDependencyCycle", () => {
+  test("Devuelve el camino del ciclo", () => {
+    const graph = buildKpiDependencyGraph([
+      node("A", "[KPI:B] + 1"),
+      node("B", "[KPI:C] * 2"),
+      node("C", "[KPI:A]")
+    ])
+    expect(findKpiDependencyCycle(graph, "A")).toEqual(["A", "B", "C", "A"])
+  })
+
+  test("Detecta auto-referencias y devuelve null sin ciclos", () => {
+    expect(
+      findKpiDependencyCycle(
+        buildKpiDependencyGraph([node("A", "[KPI:A]")]),
+        "A"
+      )
+    ).toEqual(["A", "A"])
+    expect(
+      findKpiDependencyCycle(
+        buildKpiDependencyGraph([node("A", "[KPI:B]"), node("B")]),
+        "A"
+      )
+    ).toBeNull()
+  })
+
+  test("Las referencias a períodos anteriores no forman ciclos", () => {
+    const graph = buildKpiDependencyGraph([
+      node("A", "[KPI:A:prev] + [KPI:B:ytd]"),
+      node("B")
+    ])
+    expect(findKpiDependencyCycle(graph, "A")).toBeNull()
+    expect([...graph.dependencies.get("A")!]).toEqual(["B"])
+    expect([...graph.timeDependents.get("A")!]).toEqual(["A"])
+    expect([...graph.timeDependents.get("B")!]).toEqual(["A"])
+  })
+})
+
+describe("getRecalculationOrder", () => {
+  test("Ordena los dependientes topológicamente", () => {
+    // D depende de B y C; B y C dependen de A
+    const graph = buildKpiDependencyGraph([
+      node("A"),
+      node("D", "[KPI:B] + [KPI:C]"),
+      node("C", "[KPI:A] * 2"),
+      node("B", "[KPI:A] + [KPI:C]")
+    ])
+    expect(getRecalculationOrder(graph, ["A"])).toEqual(["C", "B", "D"])
+  })
+
+  test("Incluye el KPI cambiado solo si se solicita y es calculado", () => {
+    const graph = buildKpiDependencyGraph([
+      node("A"),
+      node("B", "[KPI:A]"),
+      node("C", "[KPI:B]")
+    ])
+    expect(getRecalculationOrder(graph, ["B"])).toEqual(["C"])
+    expect(getRecalculationOrder(graph, ["B"], true)).toEqual(["B", "C"])
+    expect(getRecalculationOrder(graph, ["A"], true)).toEqual(["B", "C"])
+  })
+})
+
+describe("resolveKpiReferenceIds", () => {
+  test("Resuelve con los nodos del grafo sin consultar la base de datos", async () => {
+    const queries = [[{ id: "otro" }]]
+    const graph = buildKpiDependencyGraph([
+      node("A"),
+      { ...node("B"), externalCode: "VTA-01" },
+      node("C", "[KPI:A] + [KPI:VTA-01]")
+    ])
+    const resolved = await resolveKpiReferenceIds(
+      fakeDrizzle(queries),
+      [
+        { identifier: "A", isId: false },
+        { identifier: "VTA-01", isId: false },
+        { identifier: "X", isId: false }
+      ],
+      "org-1",
+      graph.nodes
+    )
+    expect([...resolved]).toEqual([
+      ["A", "A"],
+      ["VTA-01", "B"]
+    ])
+    expect(queries).toHaveLength(1)
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * @file __tests__/unit/kpi-notes.test.ts
+ * @brief Pruebas unitarias de las utilidades de notas de valores de KPI.
+ * @description Verifica la resolución de menciones, el armado de conversaciones, los permisos de
+ * edición y eliminación, y los destinatarios de las alertas por respuestas a notas.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  buildKpiNoteThreads,
+  canDeleteKpiNote,
+  canEditKpiNote,
+  extractMentionTokens,
+  getNoteReplyRecipientIds,
+  resolveMentionedUserIds
+} from "@/lib/kpi-notes"
+import { KpiNoteView } from "@/types"
+
+const users = [
+  { userId: "user_ana", email: "ana.perez@empresa.com" },
+  { userId: "user_luis", email: "luis@empresa.com" },
+  { userId: "user_luis2", email: "luis@otra.com" },
+  { userId: "user_sin_correo", email: null }
+]
+
+const note = (overrides: Partial<KpiNoteView>): KpiNoteView => ({
+  id: "n1",
+  parentNoteId: null,
+  authorUserId: "user_ana",
+  authorEmail: "ana.perez@empresa.com",
+  content: "Texto",
+  mentions: [],
+  createdAt: new Date("2024-07-01T10:00:00Z"),
+  editedAt: null,
+  canEdit: false,
+  canDelete: false,
+  ...overrides
+})
+
+describe("extractMentionTokens", () => {
+  test("extrae correos, partes locales e IDs sin repetir", () => {
+    expect(
+      extractMentionTokens(
+        "Hola @Ana.Perez@empresa.com y @luis. Revisa @user_sin_correo, @luis"
+      )
+    ).toEqual(["ana.perez@empresa.com", "luis", "user_sin_correo"])
+  })
+
+  test("ignora correos escritos sin @ inicial", () => {
+    expect(extractMentionTokens("Escribe a ana@empresa.com")).toEqual([])
+  })
+})
+
+describe("resolveMentionedUserIds", () => {
+  test("resuelve por correo, ID y parte local no ambigua", () => {
+    expect(
+      resolveMentionedUserIds(
+        "@ana.perez y @user_sin_correo y @ana.perez@empresa.com",
+        users
+      )
+    ).toEqual(["user_ana", "user_sin_correo"])
+  })
+
+  test("descarta partes locales ambiguas y usuarios inexistentes", () => {
+    expect(resolveMentionedUserIds("@luis @nadie", users)).toEqual([])
+    expect(resolveMentionedUserIds("@luis@otra.com", users)).toEqual([
+      "user_luis2"
+    ])
+  })
+})
+
+describe("permisos de notas", () => {
+  test("solo el autor edita; el autor o un moderador eliminan", () => {
+    const authored = { authorUserId: "user_ana" }
+    expect(canEditKpiNote(authored, "user_ana")).toBe(true)
+    expect(canEditKpiNote(authored, "user_luis")).toBe(false)
+    expect(canDeleteKpiNote(authored, "user_luis", false)).toBe(false)
+    expect(canDeleteKpiNote(authored, "user_luis", true)).toBe(true)
+    expect(canEditKpiNote({ authorUserId: null }, "user_luis")).toBe(false)
+  })
+})
+
+describe("buildKpiNoteThreads", () => {
+  test("ordena las notas raíz de la más reciente y las respuestas cronológicamente", () => {
+    const threads = buildKpiNoteThreads([
+      note({ id: "r1", createdAt: new Date("2024-07-01T10:00:00Z") }),
+      note({ id: "r2", createdAt: new Date("2024-07-02T10:00:00Z") }),
+      note({
+        id: "a2",
+        parentNoteId: "r1",
+        createdAt: new Date("2024-07-03T10:00:00Z")
+      }),
+      note({
+        id: "a1",
+        parentNoteId: "r1",
+        createdAt: new Date("2024-07-01T12:00:00Z")
+      }),
+      note({ id: "huerfana", parentNoteId: "borrada" })
+    ])
+
+    expect(threads.map(thread => thread.note.id)).toEqual(["r2", "r1"])
+    expect(threads[1].replies.map(reply => reply.id)).toEqual(["a1", "a2"])
+    expect(threads[0].replies).toEqual([])
+  })
+})
+
+describe("getNoteReplyRecipientIds", () => {
+  test("notifica a los participantes previos y mencionados, excepto al autor", () => {
+    const thread = [
+      { authorUserId: "user_ana", createdAt: new Date("2024-07-01T10:00:00Z") },
+      {
+        authorUserId: "user_luis",
+        createdAt: new Date("2024-07-01T11:00:00Z")
+      },
+      { authorUserId: "user_eva", createdAt: new Date("2024-07-01T13:00:00Z") },
+      { authorUserId: null, createdAt: new Date("2024-07-01T09:00:00Z") }
+    ]
+    const recipients = getNoteReplyRecipientIds(
+      {
+        authorUserId: "user_luis",
+        mentionedUserIds: ["user_pablo", "user_luis"],
+        createdAt: new Date("2024-07-01T12:00:00Z")
+      },
+      thread
+    )
+    expect(recipients.sort()).toEqual(["user_ana", "user_pablo"])
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * @file __tests__/unit/kpi-resolution.test.ts
+ * @brief Pruebas unitarias de la resolución de identificadores de KPI de los mapeos dinámicos.
+ * @description Verifica la resolución por ID, por nombre, por código externo y por alias, el filtro
+ * por organización, los nombres y alias ambiguos y los motivos de los identificadores que no se
+ * pueden resolver.
+ */
+
+import { describe, test, expect } from "vitest"
+import { createKpiResolver } from "@/lib/kpi-resolution"
+
+const ORG_NORTE = "11111111-1111-4111-8111-111111111111"
+const ORG_SUR = "22222222-2222-4222-8222-222222222222"
+const KPI_VENTAS_NORTE = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa"
+const KPI_VENTAS_SUR = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb"
+const KPI_MARGEN = "cccccccc-cccc-4ccc-8ccc-cccccccccccc"
+
+const resolver = createKpiResolver(
+  [
+    { id: KPI_VENTAS_NORTE, name: "Ventas", organizationId: ORG_NORTE },
+    { id: KPI_VENTAS_SUR, name: "Ventas", organizationId: ORG_SUR },
+    {
+      id: KPI_MARGEN,
+      name: "Margen Bruto",
+      organizationId: ORG_NORTE,
+      externalCode: "MRG-01",
+      aliases: ["Gross Margin", "Ventas"]
+    }
+  ],
+  [
+    {
+      id: ORG_NORTE,
+      name: "Región Norte",
+      externalCode: "R-N",
+      aliases: ["North"]
+    },
+    { id: ORG_SUR, name: "Región Sur" }
+  ]
+)
+
+describe("createKpiResolver", () => {
+  test("resuelve por ID o por nombre", () => {
+    expect(resolver.resolve(KPI_MARGEN.toUpperCase(), "auto")).toEqual({
+      isSuccess: true,
+      kpiId: KPI_MARGEN
+    })
+    expect(resolver.resolve("  margen bruto ", "auto")).toEqual({
+      isSuccess: true,
+      kpiId: KPI_MARGEN
+    })
+    expect(resolver.resolve("Margen Bruto", "id")).toEqual({
+      isSuccess: false,
+      reason: 'KPI "Margen Bruto" no encontrado.'
+    })
+  })
+
+  test("usa la organización para distinguir KPIs con el mismo nombre", () => {
+    expect(resolver.resolve("Ventas", "name")).toMatchObject({
+      isSuccess: false,
+      reason: expect.stringContaining("coincide con 2 KPIs")
+    })
+    expect(resolver.resolve("Ventas", "name", "región sur")).toEqual({
+      isSuccess: true,
+      kpiId: KPI_VENTAS_SUR
+    })
+    expect(resolver.resolve("Ventas", "auto", ORG_NORTE, "id")).toEqual({
+      isSuccess: true,
+      kpiId: KPI_VENTAS_NORTE
+    })
+  })
+
+  test("resuelve por código externo y por alias", () => {
+    expect(resolver.resolve("mrg-01", "auto")).toEqual({
+      isSuccess: true,
+      kpiId: KPI_MARGEN
+    })
+    expect(resolver.resolve("MRG-01", "name")).toMatchObject({
+      isSuccess: false
+    })
+    expect(resolver.resolve("Margen Bruto", "externalCode")).toMatchObject({
+      isSuccess: false
+    })
+    expect(resolver.resolve("gross margin", "name", "north")).toEqual({
+      isSuccess: true,
+      kpiId: KPI_MARGEN
+    })
+    // Los nombres tienen prioridad sobre los alias
+    expect(resolver.resolve("Ventas", "auto", "R-N", "externalCode")).toEqual({
+      isSuccess: true,
+      kpiId: KPI_VENTAS_NORTE
+    })
+    expect(resolver.resolve("MRG-01", "externalCode", "Región Sur")).toEqual({
+      isSuccess: false,
+      reason: 'El KPI "MRG-01" no pertenece a la organización "Región Sur".'
+    })
+  })
+
+  test("informa los alias ambiguos y los resuelve con la organización", () => {
+    const aliasResolver = createKpiResolver(
+      [
+        {
+          id: KPI_VENTAS_NORTE,
+          name: "Ventas Norte",
+          organizationId: ORG_NORTE,
+          aliases: ["Revenue"]
+        },
+        {
+          id: KPI_VENTAS_SUR,
+          name: "Ventas Sur",
+          organizationId: ORG_SUR,
+          aliases: ["revenue"]
+        }
+      ],
+      [
+        { id: ORG_NORTE, name: "Región Norte", aliases: ["North"] },
+        { id: ORG_SUR, name: "Región Sur", externalCode: "R-S" }
+      ]
+    )
+    expect(aliasResolver.resolve("Revenue", "auto")).toEqual({
+      isSuccess: false,
+      reason:
+        'El nombre "Revenue" coincide con 2 KPIs; indica la columna de organización.'
+    })
+    expect(aliasResolver.resolve("REVENUE", "name", "north")).toEqual({
+      isSuccess: true,
+      kpiId: KPI_VENTAS_NORTE
+    })
+    expect(
+      aliasResolver.resolve("revenue", "auto", "r-s", "externalCode")
+    ).toEqual({ isSuccess: true, kpiId: KPI_VENTAS_SUR })
+    // Un alias no es un código externo
+    expect(aliasResolver.resolve("Revenue", "externalCode")).toMatchObject({
+      isSuccess: false
+    })
+  })
+
+  test("informa por qué no se pudo resolver un identificador", () => {
+    expect(resolver.resolve("Ventas", "name", "Región Este")).toEqual({
+      isSuccess: false,
+      reason: 'Organización "Región Este" no encontrada.'
+    })
+    expect(resolver.resolve(KPI_MARGEN, "id", "Región Sur")).toMatchObject({
+      isSuccess: false,
+      reason: expect.stringContaining("no pertenece a la organización")
+    })
+    expect(resolver.resolve("Margen Bruto", "name", "Región Sur")).toEqual({
+      isSuccess: false,
+      reason:
+        'KPI "Margen Bruto" no encontrado en la organización "Región Sur".'
+    })
+    expect(resolver.resolve("  ", "auto")).toEqual({
+      isSuccess: false,
+      reason: "Falta el identificador del KPI."
+    })
+  })
+})
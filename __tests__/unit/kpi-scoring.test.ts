@@ -111,3 +111,62 @@ describe("calculateKpiScoreAndColor (numérico, 4 args)", () => {
     })
   })
 })
+
+describe("calculateKpiScoreAndColor (sentido y método de puntuación)", () => {
+  test("Lower is Better: invierte la comparación con target y umbrales", () => {
+    const options = { direction: "Lower is Better" as const }
+    // target 10, yellow 15, red 20
+    expect(calculateKpiScoreAndColor(8, 10, 20, 15, options)).toEqual({
+      score: 100,
+      color: "Green"
+    })
+    expect(calculateKpiScoreAndColor(12, 10, 20, 15, options)).toEqual({
+      score: 50,
+      color: "Yellow"
+    })
+    expect(calculateKpiScoreAndColor(18, 10, 20, 15, options)).toEqual({
+      score: 25,
+      color: "Red"
+    })
+    expect(calculateKpiScoreAndColor(25, 10, 20, 15, options)).toEqual({
+      score: 0,
+      color: "Red"
+    })
+  })
+
+  test("Closer to Target: banda de tolerancia simétrica alrededor del target", () => {
+    const options = { direction: "Closer to Target" as const, tolerance: 2 }
+    // target 100, yellow 95 (±5), red 90 (±10)
+    expect(calculateKpiScoreAndColor(101.5, 100, 90, 95, options).color).toBe(
+      "Green"
+    )
+    expect(calculateKpiScoreAndColor(96, 100, 90, 95, options).color).toBe(
+      "Yellow"
+    )
+    expect(calculateKpiScoreAndColor(104, 100, 90, 95, options).color).toBe(
+      "Yellow"
+    )
+    expect(calculateKpiScoreAndColor(108, 100, 90, 95, options)).toEqual({
+      score: 25,
+      color: "Red"
+    })
+    expect(calculateKpiScoreAndColor(100, null, 90, 95, options)).toEqual({
+      score: null,
+      color: null
+    })
+  })
+
+  test("Interpolated: interpola linealmente el score entre umbrales", () => {
+    const options = { method: "Interpolated" as const }
+    // target 100, yellow 90, red 80
+    expect(calculateKpiScoreAndColor(95, 100, 80, 90, options)).toEqual({
+      score: 75,
+      color: "Yellow"
+    })
+    expect(calculateKpiScoreAndColor(85, 100, 80, 90, options)).toEqual({
+      score: 37.5,
+      color: "Red"
+    })
+    expect(calculateKpiScoreAndColor(70, 100, 80, 90, options).score).toBe(0)
+  })
+})
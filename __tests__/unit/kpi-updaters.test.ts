@@ -0,0 +1,211 @@
+/**
+ * @file __tests__/unit/kpi-updaters.test.ts
+ * @brief Pruebas unitarias de la resolución de los Updaters de los KPIs.
+ * @description Verifica que un usuario es Updater de un KPI por asignación directa o por pertenecer
+ * a un grupo asignado al KPI o a un elemento ancestro, que los Updaters de cada KPI se combinan sin
+ * duplicados, que la asignación por elemento del Scorecard alcanza los KPIs de todos sus
+ * descendientes y que sin permiso sobre los umbrales se conservan los vigentes.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  getKpiIdsUnderScorecardElement,
+  getKpiUpdaterAccess,
+  getUpdatableKpiIds,
+  loadKpiUpdaterUserIds,
+  resolveUpdaterThresholds
+} from "@/lib/kpi-updaters"
+import { fakeDrizzle } from "@/lib/__tests__/fake-drizzle"
+
+// Orden de las consultas de getKpiUpdaterAccess: asignación directa, grupos asignados al KPI,
+// elemento del KPI, un nivel de ancestros por consulta y grupos asignados a esos elementos.
+describe("getKpiUpdaterAccess", () => {
+  test("reconoce la asignación directa sin permiso sobre los umbrales", async () => {
+    const drizzle = fakeDrizzle([[{ canModifyThresholds: false }], [], []])
+    expect(await getKpiUpdaterAccess(drizzle, "kpi-1", "user-1")).toEqual({
+      canModifyThresholds: false
+    })
+  })
+
+  test("permite modificar los umbrales si alguna asignación lo permite", async () => {
+    const drizzle = fakeDrizzle([
+      [{ canModifyThresholds: false }],
+      [{ canModifyThresholds: true }],
+      []
+    ])
+    expect(await getKpiUpdaterAccess(drizzle, "kpi-1", "user-1")).toEqual({
+      canModifyThresholds: true
+    })
+  })
+
+  test("reconoce al miembro de un grupo asignado a un elemento ancestro", async () => {
+    const drizzle = fakeDrizzle([
+      [],
+      [],
+      [{ scorecardElementId: "kpi-element" }],
+      [{ id: "kpi-element", parentId: "objective" }],
+      [{ id: "objective", parentId: null }],
+      [{ canModifyThresholds: false }]
+    ])
+    expect(await getKpiUpdaterAccess(drizzle, "kpi-1", "user-1")).toEqual({
+      canModifyThresholds: false
+    })
+  })
+
+  test("no se repite ante un ciclo entre los ancestros", async () => {
+    const results = [
+      [],
+      [],
+      [{ scorecardElementId: "a" }],
+      [{ id: "a", parentId: "b" }],
+      [{ id: "b", parentId: "a" }],
+      [{ canModifyThresholds: true }]
+    ]
+    expect(
+      await getKpiUpdaterAccess(fakeDrizzle(results), "kpi-1", "user-1")
+    ).toEqual({ canModifyThresholds: true })
+    expect(results).toHaveLength(0)
+  })
+
+  test("rechaza a quien no está asignado ni pertenece a un grupo asignado", async () => {
+    const drizzle = fakeDrizzle([
+      [],
+      [],
+      [{ scorecardElementId: "kpi-element" }],
+      [{ id: "kpi-element", parentId: null }],
+      []
+    ])
+    expect(await getKpiUpdaterAccess(drizzle, "kpi-1", "user-1")).toBeNull()
+  })
+})
+
+describe("loadKpiUpdaterUserIds", () => {
+  test("combina los Updaters directos y los miembros de los grupos sin duplicados", async () => {
+    const drizzle = fakeDrizzle([
+      [
+        { kpiId: "kpi-1", userId: "user-1" },
+        { kpiId: "kpi-2", userId: "user-2" }
+      ],
+      [
+        { kpiId: "kpi-1", userId: "user-1" },
+        { kpiId: "kpi-1", userId: "user-3" }
+      ]
+    ])
+    const updaters = await loadKpiUpdaterUserIds(drizzle, [
+      "kpi-1",
+      "kpi-2",
+      "kpi-3"
+    ])
+    expect(updaters.get("kpi-1")).toEqual(["user-1", "user-3"])
+    expect(updaters.get("kpi-2")).toEqual(["user-2"])
+    expect(updaters.has("kpi-3")).toBe(false)
+  })
+
+  test("expande las asignaciones por elemento a los KPIs de sus descendientes", async () => {
+    const drizzle = fakeDrizzle([
+      [],
+      [],
+      [
+        { id: "kpi-1", scorecardElementId: "element-1" },
+        { id: "kpi-2", scorecardElementId: "element-2" }
+      ],
+      [
+        { id: "element-1", parentId: "root" },
+        { id: "element-2", parentId: null }
+      ],
+      [{ id: "root", parentId: null }],
+      [
+        { scorecardElementId: "root", userId: "user-1" },
+        { scorecardElementId: "element-2", userId: "user-2" }
+      ]
+    ])
+    const updaters = await loadKpiUpdaterUserIds(drizzle, ["kpi-1", "kpi-2"])
+    expect(updaters.get("kpi-1")).toEqual(["user-1"])
+    expect(updaters.get("kpi-2")).toEqual(["user-2"])
+  })
+
+  test("no consulta sin KPIs", async () => {
+    const results = [[{ kpiId: "kpi-1", userId: "user-1" }]]
+    const updaters = await loadKpiUpdaterUserIds(fakeDrizzle(results), [])
+    expect(updaters.size).toBe(0)
+    expect(results).toHaveLength(1)
+  })
+})
+
+describe("getUpdatableKpiIds", () => {
+  test("devuelve los KPIs asignados directamente o por grupo, sin duplicados", async () => {
+    const drizzle = fakeDrizzle([
+      [{ kpiId: "kpi-1" }],
+      [{ kpiId: "kpi-1" }, { kpiId: "kpi-2" }]
+    ])
+    expect(await getUpdatableKpiIds(drizzle, "user-1")).toEqual([
+      "kpi-1",
+      "kpi-2"
+    ])
+  })
+
+  test("incluye los KPIs bajo los elementos asignados a sus grupos", async () => {
+    const drizzle = fakeDrizzle([
+      [{ kpiId: "kpi-1" }],
+      [],
+      [{ scorecardElementId: "element-1" }],
+      [],
+      [{ id: "kpi-1" }, { id: "kpi-3" }]
+    ])
+    expect(await getUpdatableKpiIds(drizzle, "user-1")).toEqual([
+      "kpi-1",
+      "kpi-3"
+    ])
+  })
+})
+
+describe("getKpiIdsUnderScorecardElement", () => {
+  test("recorre los descendientes del elemento y devuelve sus KPIs", async () => {
+    const drizzle = fakeDrizzle([
+      [{ id: "objective-1" }, { id: "objective-2" }],
+      [{ id: "kpi-element-1" }],
+      [],
+      [{ id: "kpi-1" }, { id: "kpi-2" }]
+    ])
+    expect(
+      await getKpiIdsUnderScorecardElement(drizzle, "perspective")
+    ).toEqual(["kpi-1", "kpi-2"])
+  })
+
+  test("no se repite ante un ciclo en el árbol", async () => {
+    const drizzle = fakeDrizzle([
+      [{ id: "child" }],
+      [{ id: "root" }],
+      [{ id: "kpi-1" }]
+    ])
+    expect(await getKpiIdsUnderScorecardElement(drizzle, "root")).toEqual([
+      "kpi-1"
+    ])
+  })
+})
+
+describe("resolveUpdaterThresholds", () => {
+  const current = {
+    targetValue: "100",
+    thresholdRed: "60",
+    thresholdYellow: "80"
+  }
+
+  test("los campos vacíos toman el objetivo y los umbrales vigentes", () => {
+    expect(
+      resolveUpdaterThresholds(
+        { targetValue: null, thresholdRed: "", thresholdYellow: "80" },
+        current
+      )
+    ).toEqual(current)
+  })
+
+  test("rechaza un cambio en el objetivo o en un umbral", () => {
+    expect(
+      resolveUpdaterThresholds(
+        { targetValue: "100", thresholdRed: "50", thresholdYellow: null },
+        current
+      )
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,281 @@
+/**
+ * @file __tests__/unit/kpi-value-ingestion.test.ts
+ * @brief Pruebas unitarias de la ingesta de valores de KPI por API.
+ * @description Verifica la lectura del cuerpo en JSON y NDJSON, los límites del cuerpo y del lote, la
+ * combinación de los campos enviados con el valor guardado y la validación y puntuación
+ * compartida con la actualización manual.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  mergeIngestionItem,
+  parseKpiValueIngestionBody,
+  readKpiValueIngestionBody
+} from "@/lib/kpi-value-ingestion"
+import { evaluateKpiValueEntry } from "@/lib/kpi-value-entry"
+import {
+  calculateKpiScoreAndColor,
+  getKpiScoringOptions
+} from "@/lib/kpi-scoring"
+import {
+  generateApiKey,
+  hashApiKey,
+  readApiKeyFromHeaders
+} from "@/lib/api-keys"
+import {
+  KPI_VALUE_INGESTION_MAX_BODY_BYTES,
+  KPI_VALUE_INGESTION_MAX_ITEMS,
+  KpiValueIngestionItemSchema
+} from "@/types"
+
+const goalKpi = {
+  dataType: "Number",
+  scoringType: "Goal/Red Flag",
+  scoringDirection: "Higher is Better",
+  scoringMethod: "Stepped",
+  targetTolerance: null
+} as const
+const yesNoKpi = {
+  ...goalKpi,
+  dataType: "Text",
+  scoringType: "Yes/No"
+} as const
+
+describe("parseKpiValueIngestionBody", () => {
+  test("acepta un arreglo, un objeto con items o un único objeto", () => {
+    const item = { kpi: "VTA-01", periodDate: "2024-03-01", actual: 10 }
+    for (const body of [[item, item], { items: [item, item] }]) {
+      const parsed = parseKpiValueIngestionBody(
+        JSON.stringify(body),
+        "application/json"
+      )
+      expect(parsed.isSuccess && parsed.entries).toEqual([
+        { index: 0, line: null, value: item },
+        { index: 1, line: null, value: item }
+      ])
+    }
+    const single = parseKpiValueIngestionBody(JSON.stringify(item), null)
+    expect(single.isSuccess && single.entries).toHaveLength(1)
+  })
+
+  test("lee NDJSON línea a línea y marca solo las líneas inválidas", () => {
+    const body = [
+      '{"kpi":"A","periodDate":"2024-01-01"}',
+      "",
+      "{no es json",
+      '{"kpi":"B","periodDate":"2024-01-01"}'
+    ].join("\n")
+    const parsed = parseKpiValueIngestionBody(body, "application/x-ndjson")
+    expect(parsed.isSuccess).toBe(true)
+    if (!parsed.isSuccess) return
+    expect(parsed.entries.map(e => [e.index, e.line, !!e.error])).toEqual([
+      [0, 1, false],
+      [1, 3, true],
+      [2, 4, false]
+    ])
+  })
+
+  test("rechaza JSON inválido, lotes vacíos y lotes demasiado grandes", () => {
+    expect(parseKpiValueIngestionBody("{", "application/json")).toMatchObject({
+      isSuccess: false,
+      status: 400
+    })
+    expect(parseKpiValueIngestionBody("[]", "application/json")).toMatchObject({
+      isSuccess: false,
+      status: 400
+    })
+    const tooMany = Array.from(
+      { length: KPI_VALUE_INGESTION_MAX_ITEMS + 1 },
+      () => ({})
+    )
+    expect(
+      parseKpiValueIngestionBody(JSON.stringify(tooMany), "application/json")
+    ).toMatchObject({ isSuccess: false, status: 413 })
+  })
+})
+
+describe("readKpiValueIngestionBody", () => {
+  const post = (body: BodyInit, headers: Record<string, string> = {}) =>
+    new Request("http://localhost/api/kpi-values", {
+      method: "POST",
+      body,
+      headers,
+      duplex: "half"
+    } as RequestInit)
+
+  test("lee el cuerpo dentro del límite", async () => {
+    expect(await readKpiValueIngestionBody(post('{"kpi":"VTA-01"}'))).toEqual({
+      isSuccess: true,
+      body: '{"kpi":"VTA-01"}'
+    })
+  })
+
+  test("rechaza con 413 un Content-Length mayor que el límite sin leer el cuerpo", async () => {
+    const request = post("{}", {
+      "content-length": String(KPI_VALUE_INGESTION_MAX_BODY_BYTES + 1)
+    })
+    expect(await readKpiValueIngestionBody(request)).toMatchObject({
+      isSuccess: false,
+      status: 413
+    })
+    expect(request.bodyUsed).toBe(false)
+  })
+
+  test("deja de leer en cuanto el cuerpo supera el límite", async () => {
+    const chunk = new Uint8Array(64 * 1024)
+    let pulled = 0
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++
+        controller.enqueue(chunk)
+      }
+    })
+    expect(await readKpiValueIngestionBody(post(stream))).toMatchObject({
+      isSuccess: false,
+      status: 413
+    })
+    expect(pulled * chunk.byteLength).toBeLessThanOrEqual(
+      KPI_VALUE_INGESTION_MAX_BODY_BYTES + 2 * chunk.byteLength
+    )
+  })
+})
+
+describe("KpiValueIngestionItemSchema", () => {
+  test("exige el KPI y una fecha YYYY-MM-DD válida", () => {
+    expect(
+      KpiValueIngestionItemSchema.safeParse({ periodDate: "2024-01-01" })
+        .success
+    ).toBe(false)
+    expect(
+      KpiValueIngestionItemSchema.safeParse({
+        kpi: "A",
+        periodDate: "01/02/2024"
+      }).success
+    ).toBe(false)
+    expect(
+      KpiValueIngestionItemSchema.safeParse({
+        kpi: "A",
+        periodDate: "2024-01-01",
+        actual: 12.5,
+        thresholds: { red: 5, yellow: "8" }
+      }).success
+    ).toBe(true)
+  })
+})
+
+describe("mergeIngestionItem", () => {
+  const existing = {
+    kpiId: "k",
+    periodDate: "2024-01-01",
+    actualValue: "10",
+    targetValue: "100",
+    thresholdRed: "50",
+    thresholdYellow: "80",
+    score: null,
+    color: null,
+    note: "Nota anterior",
+    updatedByUserId: null,
+    isManualEntry: true
+  }
+
+  test("conserva los campos omitidos y convierte los números a texto", () => {
+    expect(
+      mergeIngestionItem(
+        { kpi: "A", periodDate: "2024-01-01", actual: 90 },
+        existing
+      )
+    ).toEqual({
+      actualValue: "90",
+      targetValue: "100",
+      thresholdRed: "50",
+      thresholdYellow: "80",
+      note: "Nota anterior"
+    })
+  })
+
+  test("borra los campos enviados como null", () => {
+    expect(
+      mergeIngestionItem(
+        { kpi: "A", periodDate: "2024-01-01", thresholds: null, note: null },
+        existing
+      )
+    ).toMatchObject({ thresholdRed: null, thresholdYellow: null, note: null })
+  })
+})
+
+describe("evaluateKpiValueEntry", () => {
+  test("rechaza un valor actual no numérico en un KPI numérico", () => {
+    expect(
+      evaluateKpiValueEntry(goalKpi, { actualValue: "abc" }, false)
+    ).toMatchObject({ isSuccess: false })
+  })
+
+  test("puntúa los KPIs Goal/Red Flag como la actualización manual", () => {
+    const values = {
+      actualValue: "90",
+      targetValue: "100",
+      thresholdRed: "50",
+      thresholdYellow: "80"
+    }
+    const expected = calculateKpiScoreAndColor(
+      90,
+      100,
+      50,
+      80,
+      getKpiScoringOptions(goalKpi)
+    )
+    expect(evaluateKpiValueEntry(goalKpi, values, false)).toEqual({
+      isSuccess: true,
+      ...expected
+    })
+    expect(
+      evaluateKpiValueEntry(goalKpi, { ...values, targetValue: "x" }, false)
+    ).toMatchObject({ isSuccess: false })
+  })
+
+  test("puntúa los KPIs Sí/No", () => {
+    expect(
+      evaluateKpiValueEntry(yesNoKpi, { actualValue: "Yes" }, false)
+    ).toEqual({ isSuccess: true, score: 100, color: "Green" })
+    expect(
+      evaluateKpiValueEntry(yesNoKpi, { actualValue: "no" }, false)
+    ).toEqual({
+      isSuccess: true,
+      score: 0,
+      color: "Red"
+    })
+  })
+
+  test("exige una nota en Rojo si la configuración está activa", () => {
+    expect(
+      evaluateKpiValueEntry(yesNoKpi, { actualValue: "No" }, true)
+    ).toMatchObject({ isSuccess: false })
+    expect(
+      evaluateKpiValueEntry(
+        yesNoKpi,
+        { actualValue: "No", note: "Motivo" },
+        true
+      )
+    ).toMatchObject({ isSuccess: true, color: "Red" })
+  })
+})
+
+describe("api keys", () => {
+  test("genera claves con prefijo visible y guarda solo el hash", () => {
+    const { secret, keyPrefix, keyHash } = generateApiKey()
+    expect(secret.startsWith("dok_")).toBe(true)
+    expect(secret.startsWith(keyPrefix)).toBe(true)
+    expect(keyHash).toBe(hashApiKey(secret))
+    expect(keyHash).not.toContain(secret)
+  })
+
+  test("lee la clave de Authorization o de X-Api-Key", () => {
+    expect(
+      readApiKeyFromHeaders(new Headers({ Authorization: "Bearer dok_abc" }))
+    ).toBe("dok_abc")
+    expect(readApiKeyFromHeaders(new Headers({ "X-Api-Key": "dok_xyz" }))).toBe(
+      "dok_xyz"
+    )
+    expect(readApiKeyFromHeaders(new Headers())).toBeNull()
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * @file __tests__/unit/period-utils.test.ts
+ * @brief Pruebas unitarias de las utilidades de fechas de período.
+ * @description Verifica que cualquier fecha se lleve al inicio canónico del período de cada
+ * frecuencia de calendario, contando trimestres y años desde el mes de inicio del año fiscal, y que
+ * las referencias de una ecuación lean el período de la frecuencia del KPI referenciado.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  getReferencePeriodDate,
+  normalizePeriodDate,
+  parseFiscalYearStartMonth
+} from "@/lib/period-utils"
+
+describe("normalizePeriodDate", () => {
+  test("lleva la fecha al inicio del período de la frecuencia", () => {
+    expect(normalizePeriodDate("2024-03-17", "Daily")).toBe("2024-03-17")
+    expect(normalizePeriodDate("2024-03-17", "Weekly")).toBe("2024-03-11")
+    expect(normalizePeriodDate("2024-03-17", "Monthly")).toBe("2024-03-01")
+    expect(normalizePeriodDate("2024-03-31", "Monthly")).toBe("2024-03-01")
+    expect(normalizePeriodDate("2024-05-20", "Quarterly")).toBe("2024-04-01")
+    expect(normalizePeriodDate("2024-05-20", "Annually")).toBe("2024-01-01")
+  })
+
+  test("cuenta trimestres y años desde el inicio del año fiscal", () => {
+    // Año fiscal de julio a junio
+    expect(normalizePeriodDate("2024-05-20", "Annually", 7)).toBe("2023-07-01")
+    expect(normalizePeriodDate("2024-07-01", "Annually", 7)).toBe("2024-07-01")
+    // Año fiscal de febrero a enero: trimestres feb-abr, may-jul, ago-oct, nov-ene
+    expect(normalizePeriodDate("2024-01-15", "Quarterly", 2)).toBe("2023-11-01")
+    expect(normalizePeriodDate("2024-04-30", "Quarterly", 2)).toBe("2024-02-01")
+    expect(normalizePeriodDate("2024-05-01", "Quarterly", 2)).toBe("2024-05-01")
+    expect(normalizePeriodDate("2024-03-17", "Monthly", 2)).toBe("2024-03-01")
+  })
+})
+
+describe("parseFiscalYearStartMonth", () => {
+  test("usa enero si el valor guardado falta o es inválido", () => {
+    expect(parseFiscalYearStartMonth("7")).toBe(7)
+    expect(parseFiscalYearStartMonth(undefined)).toBe(1)
+    expect(parseFiscalYearStartMonth("13")).toBe(1)
+    expect(parseFiscalYearStartMonth("abc")).toBe(1)
+  })
+})
+
+describe("getReferencePeriodDate", () => {
+  test("lee el período del KPI referenciado que contiene el del KPI calculado", () => {
+    // KPI mensual que referencia uno trimestral
+    expect(getReferencePeriodDate("2024-05-01", "current", "Quarterly")).toBe(
+      "2024-04-01"
+    )
+    expect(getReferencePeriodDate("2024-05-01", "previous", "Quarterly")).toBe(
+      "2024-01-01"
+    )
+    expect(getReferencePeriodDate("2024-05-01", "lastYear", "Quarterly")).toBe(
+      "2023-04-01"
+    )
+    // Misma frecuencia: sin cambios respecto del período calculado
+    expect(getReferencePeriodDate("2024-05-01", "previous", "Monthly")).toBe(
+      "2024-04-01"
+    )
+  })
+
+  test("cuenta los trimestres desde el inicio del año fiscal", () => {
+    expect(
+      getReferencePeriodDate("2024-01-01", "current", "Quarterly", 2)
+    ).toBe("2023-11-01")
+    expect(
+      getReferencePeriodDate("2024-03-01", "previous", "Annually", 7)
+    ).toBe("2022-07-01")
+  })
+})
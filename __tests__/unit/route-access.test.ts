@@ -0,0 +1,115 @@
+/**
+ * @file __tests__/unit/route-access.test.ts
+ * @brief Pruebas unitarias del control de acceso a las rutas de la aplicación.
+ * @description Verifica los permisos que exige cada sección de `/settings` y que se bloquea a los
+ * perfiles desactivados, a los usuarios sin grupos (salvo en la configuración inicial) y a quienes
+ * no tienen el permiso de gestión de la sección, ni global ni en alguna organización.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  checkRouteAccess,
+  getRequiredRoutePermissions
+} from "@/lib/route-access"
+import { fakeDrizzle } from "@/lib/__tests__/fake-drizzle"
+
+const ORG_A = "11111111-1111-4111-8111-111111111111"
+
+// Orden de las consultas al Drizzle falso: perfil, grupos del usuario, filas de permisos de esos
+// grupos y, si no pertenece a ningún grupo, si existe algún miembro (configuración inicial).
+const activeProfile = [{ isActive: true }]
+const memberOf = (groupType: string) => [
+  { id: "group-1", name: "Grupo", groupType }
+]
+const someoneElseIsMember = [{ userId: "other-user" }]
+const row = (
+  permissionKey: string,
+  organizationId: string | null,
+  permissionValue: boolean
+) => ({ groupId: "group-1", permissionKey, organizationId, permissionValue })
+
+describe("getRequiredRoutePermissions", () => {
+  test("exige el permiso de gestión de cada sección de settings", () => {
+    expect(getRequiredRoutePermissions("/settings/users")).toEqual([
+      "user:manage"
+    ])
+    expect(getRequiredRoutePermissions("/settings/groups/123")).toContain(
+      "group:manage"
+    )
+    expect(getRequiredRoutePermissions("/settings/app")).toEqual([
+      "app_settings:manage"
+    ])
+  })
+
+  test("no exige permisos fuera de las secciones de gestión", () => {
+    expect(getRequiredRoutePermissions("/settings/profile")).toEqual([])
+    expect(getRequiredRoutePermissions("/scorecards")).toEqual([])
+    expect(getRequiredRoutePermissions("/settings/users-archive")).toEqual([])
+  })
+})
+
+describe("checkRouteAccess", () => {
+  test("bloquea un perfil desactivado", async () => {
+    const drizzle = fakeDrizzle([[{ isActive: false }]])
+    expect(await checkRouteAccess(drizzle, "user-1", "/scorecards")).toBe(
+      "inactive"
+    )
+  })
+
+  test("bloquea a un usuario sin grupos", async () => {
+    const drizzle = fakeDrizzle([activeProfile, [], someoneElseIsMember])
+    expect(await checkRouteAccess(drizzle, "user-1", "/scorecards")).toBe(
+      "no_groups"
+    )
+  })
+
+  test("en la configuración inicial solo abre las rutas sin permisos y la gestión de grupos", async () => {
+    expect(
+      await checkRouteAccess(fakeDrizzle([[], [], []]), "user-1", "/scorecards")
+    ).toBeNull()
+    expect(
+      await checkRouteAccess(
+        fakeDrizzle([[], [], []]),
+        "user-1",
+        "/settings/groups"
+      )
+    ).toBeNull()
+    expect(
+      await checkRouteAccess(
+        fakeDrizzle([[], [], []]),
+        "user-1",
+        "/settings/app"
+      )
+    ).toBe("forbidden")
+  })
+
+  test("abre las rutas sin permisos a cualquier miembro de un grupo", async () => {
+    const drizzle = fakeDrizzle([activeProfile, memberOf("View Only"), []])
+    expect(await checkRouteAccess(drizzle, "user-1", "/alerts")).toBeNull()
+  })
+
+  test("bloquea una sección de settings sin su permiso de gestión", async () => {
+    const drizzle = fakeDrizzle([activeProfile, memberOf("Update User"), []])
+    expect(await checkRouteAccess(drizzle, "user-1", "/settings/users")).toBe(
+      "forbidden"
+    )
+  })
+
+  test("abre una sección con el permiso concedido solo en una organización", async () => {
+    const drizzle = fakeDrizzle([
+      activeProfile,
+      memberOf("Interactive User"),
+      [row("import:manage_connections", ORG_A, true)]
+    ])
+    expect(
+      await checkRouteAccess(drizzle, "user-1", "/settings/api-keys")
+    ).toBeNull()
+  })
+
+  test("abre todas las secciones a un Power User", async () => {
+    const drizzle = fakeDrizzle([activeProfile, memberOf("Power User"), []])
+    expect(
+      await checkRouteAccess(drizzle, "user-1", "/settings/groups")
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * @file __tests__/unit/scorecard-scoring.test.ts
+ * @brief Pruebas unitarias de la agregación ponderada de puntuaciones del Scorecard.
+ * @description Verifica el promedio ponderado por hijos, las políticas de datos faltantes,
+ * la conversión de puntuación a color y el cálculo de abajo hacia arriba del árbol.
+ */
+
+import { describe, test, expect } from "vitest"
+import {
+  KpiElementScore,
+  ScorecardScoreNode,
+  aggregateChildScores,
+  computeScorecardScores,
+  scoreToColor
+} from "@/lib/scorecard-scoring"
+
+const node = (
+  id: string,
+  parentId: string | null,
+  elementType: ScorecardScoreNode["elementType"],
+  weight = 1
+): ScorecardScoreNode => ({ id, parentId, elementType, weight })
+
+describe("aggregateChildScores", () => {
+  test("calcula el promedio ponderado de los hijos", () => {
+    const result = aggregateChildScores(
+      [
+        { weight: 3, score: 100 },
+        { weight: 1, score: 0 }
+      ],
+      "exclude"
+    )
+    expect(result.score).toBe(75)
+    expect(result.contributingChildren).toBe(2)
+    expect(result.missingChildren).toBe(0)
+  })
+
+  test("ignora los hijos con peso 0", () => {
+    const result = aggregateChildScores(
+      [
+        { weight: 1, score: 100 },
+        { weight: 0, score: 0 },
+        { weight: 0, score: null }
+      ],
+      "propagate"
+    )
+    expect(result.score).toBe(100)
+    expect(result.missingChildren).toBe(0)
+  })
+
+  test("exclude: renormaliza los pesos sin los hijos faltantes", () => {
+    const result = aggregateChildScores(
+      [
+        { weight: 1, score: 50 },
+        { weight: 1, score: null }
+      ],
+      "exclude"
+    )
+    expect(result.score).toBe(50)
+    expect(result.contributingChildren).toBe(1)
+    expect(result.missingChildren).toBe(1)
+  })
+
+  test("zero: cuenta los hijos faltantes como 0", () => {
+    const result = aggregateChildScores(
+      [
+        { weight: 1, score: 50 },
+        { weight: 1, score: null }
+      ],
+      "zero"
+    )
+    expect(result.score).toBe(25)
+  })
+
+  test("propagate: sin puntuación si algún hijo no tiene datos", () => {
+    const result = aggregateChildScores(
+      [
+        { weight: 1, score: 50 },
+        { weight: 1, score: null }
+      ],
+      "propagate"
+    )
+    expect(result.score).toBeNull()
+    expect(result.missingChildren).toBe(1)
+  })
+
+  test("sin hijos con datos no hay puntuación", () => {
+    expect(aggregateChildScores([], "exclude").score).toBeNull()
+    expect(
+      aggregateChildScores([{ weight: 1, score: null }], "exclude").score
+    ).toBeNull()
+  })
+})
+
+describe("scoreToColor", () => {
+  test("convierte la puntuación según los umbrales", () => {
+    expect(scoreToColor(100)).toBe("Green")
+    expect(scoreToColor(75)).toBe("Green")
+    expect(scoreToColor(60)).toBe("Yellow")
+    expect(scoreToColor(25)).toBe("Red")
+    expect(scoreToColor(null)).toBeNull()
+  })
+})
+
+describe("computeScorecardScores", () => {
+  const kpiScores = new Map<string, KpiElementScore>([
+    ["kpi-a", { score: 100, color: "Green" }],
+    ["kpi-b", { score: 0, color: "Red" }],
+    ["kpi-c", { score: 50, color: "Yellow" }]
+  ])
+
+  test("agrega de KPI a objetivo y de objetivo a perspectiva", () => {
+    const nodes = [
+      node("persp", null, "Perspective"),
+      node("obj-1", "persp", "Objective", 2),
+      node("obj-2", "persp", "Objective", 1),
+      node("kpi-a", "obj-1", "KPI", 1),
+      node("kpi-b", "obj-1", "KPI", 1),
+      node("kpi-c", "obj-2", "KPI")
+    ]
+    const scores = computeScorecardScores(nodes, kpiScores, "exclude")
+
+    expect(scores.get("kpi-a")).toMatchObject({ score: 100, color: "Green" })
+    expect(scores.get("obj-1")).toMatchObject({
+      score: 50,
+      color: "Yellow",
+      contributingChildren: 2
+    })
+    expect(scores.get("obj-2")?.score).toBe(50)
+    expect(scores.get("persp")?.score).toBe(50)
+  })
+
+  test("las iniciativas se puntúan pero no aportan a su padre", () => {
+    const nodes = [
+      node("obj", null, "Objective"),
+      node("kpi-a", "obj", "KPI"),
+      node("init", "obj", "Initiative"),
+      node("kpi-b", "init", "KPI")
+    ]
+    const scores = computeScorecardScores(nodes, kpiScores, "exclude")
+
+    expect(scores.get("init")?.score).toBe(0)
+    expect(scores.get("obj")).toMatchObject({
+      score: 100,
+      contributingChildren: 1,
+      missingChildren: 0
+    })
+  })
+
+  test("los KPIs sin valor quedan sin datos", () => {
+    const nodes = [node("obj", null, "Objective"), node("kpi-x", "obj", "KPI")]
+    const scores = computeScorecardScores(nodes, kpiScores, "exclude")
+
+    expect(scores.get("kpi-x")).toMatchObject({ score: null, color: null })
+    expect(scores.get("obj")).toMatchObject({ score: null, missingChildren: 1 })
+  })
+
+  test("no entra en bucle con ciclos en parentId", () => {
+    const nodes = [node("a", "b", "Objective"), node("b", "a", "Objective")]
+    const scores = computeScorecardScores(nodes, kpiScores, "exclude")
+
+    expect(scores.get("a")?.score).toBeNull()
+    expect(scores.get("b")?.score).toBeNull()
+  })
+})
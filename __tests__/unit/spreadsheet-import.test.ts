@@ -0,0 +1,174 @@
+/**
+ * @file __tests__/unit/spreadsheet-import.test.ts
+ * @brief Pruebas unitarias de la lectura de archivos de la importación simple.
+ * @description Verifica la interpretación de números y fechas con formato local, la selección de
+ * hoja, la detección de la fila de encabezados y el reporte de filas omitidas.
+ */
+
+import { describe, test, expect } from "vitest"
+import * as XLSX from "xlsx"
+import {
+  mapSimpleImportRows,
+  parseLocaleDate,
+  parseLocaleNumber,
+  readSpreadsheet
+} from "@/lib/spreadsheet-import"
+import { SIMPLE_IMPORT_MAX_FILE_BYTES } from "@/types/import-types"
+
+const kpis = [
+  { id: "k-ventas", name: "Ventas", dataType: "Currency" as const },
+  { id: "k-estado", name: "Estado del proyecto", dataType: "Text" as const }
+]
+
+function buildWorkbook(sheets: Record<string, unknown[][]>): Buffer {
+  const workbook = XLSX.utils.book_new()
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name)
+  }
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" })
+}
+
+describe("parseLocaleNumber", () => {
+  test("interpreta separadores de miles y decimales locales", () => {
+    expect(parseLocaleNumber("1.234,56")).toBe(1234.56)
+    expect(parseLocaleNumber("1,234.56")).toBe(1234.56)
+    expect(parseLocaleNumber("12,5")).toBe(12.5)
+    expect(parseLocaleNumber("1.234.567")).toBe(1234567)
+    expect(parseLocaleNumber("$ -2.500,00")).toBe(-2500)
+    expect(parseLocaleNumber("85%")).toBe(85)
+    expect(parseLocaleNumber(42)).toBe(42)
+  })
+
+  test("rechaza textos que no son números", () => {
+    expect(parseLocaleNumber("N/A")).toBeNull()
+    expect(parseLocaleNumber("1,2,3.4.5")).toBeNull()
+    expect(parseLocaleNumber("")).toBeNull()
+  })
+})
+
+describe("parseLocaleDate", () => {
+  test("interpreta fechas ISO, día/mes/año, mes/año y números de serie", () => {
+    expect(parseLocaleDate("31/12/2024")).toBe("2024-12-31")
+    expect(parseLocaleDate("01.02.24")).toBe("2024-02-01")
+    expect(parseLocaleDate("12/31/2024")).toBe("2024-12-31")
+    expect(parseLocaleDate("2024-06-30T00:00:00Z")).toBe("2024-06-30")
+    expect(parseLocaleDate("03/2024")).toBe("2024-03-01")
+    expect(parseLocaleDate(45657)).toBe("2024-12-31")
+  })
+
+  test("rechaza fechas inexistentes o ilegibles", () => {
+    expect(parseLocaleDate("31/02/2024")).toBeNull()
+    expect(parseLocaleDate("ayer")).toBeNull()
+    expect(parseLocaleDate(null)).toBeNull()
+  })
+})
+
+describe("readSpreadsheet", () => {
+  test("detecta la fila de encabezados de un CSV con separador punto y coma", () => {
+    const csv = [
+      "Reporte mensual;;",
+      ";;",
+      "Nombre KPI;Fecha;Valor;Meta",
+      "Ventas;31/12/2024;1.234,56;1.000",
+      ";;;",
+      "Ventas;31/01/2025;900;1.000"
+    ].join("\n")
+
+    const sheet = readSpreadsheet(Buffer.from(csv, "utf-8"), "ventas.csv")
+
+    expect(sheet.headerRow).toBe(3)
+    expect(sheet.headers).toEqual(["Nombre KPI", "Fecha", "Valor", "Meta"])
+    expect(sheet.rows.map(row => row.rowNumber)).toEqual([4, 6])
+  })
+
+  test("lee la hoja elegida de un libro Excel con celdas de fecha", () => {
+    const content = buildWorkbook({
+      Resumen: [["Sin datos"]],
+      Datos: [
+        ["KPI", "Fecha", "Valor"],
+        ["Ventas", new Date(Date.UTC(2024, 5, 30)), 1500]
+      ]
+    })
+
+    expect(() => readSpreadsheet(content, "kpis.xlsx")).toThrow(
+      "No se encontró"
+    )
+    const sheet = readSpreadsheet(content, "kpis.xlsx", { sheetName: "Datos" })
+    expect(sheet.sheetNames).toEqual(["Resumen", "Datos"])
+    expect(sheet.rows[0].cells).toEqual(["Ventas", "2024-06-30", 1500])
+  })
+
+  test("valida la hoja, la fila de encabezados indicada y el formato", () => {
+    const content = buildWorkbook({ Datos: [["KPI", "Fecha", "Valor"]] })
+    expect(() =>
+      readSpreadsheet(content, "kpis.xlsx", { sheetName: "Otra" })
+    ).toThrow('La hoja "Otra" no existe')
+    expect(() =>
+      readSpreadsheet(content, "kpis.xlsx", { headerRow: 2 })
+    ).toThrow("La fila 2")
+    expect(() => readSpreadsheet(content, "kpis.pdf")).toThrow(
+      "Formato de archivo no soportado"
+    )
+  })
+
+  test("rechaza los archivos de más de 5MB antes de leerlos", () => {
+    const content = Buffer.alloc(SIMPLE_IMPORT_MAX_FILE_BYTES + 1)
+    expect(() => readSpreadsheet(content, "kpis.xlsx")).toThrow(
+      "no debe exceder 5MB"
+    )
+  })
+})
+
+describe("mapSimpleImportRows", () => {
+  test("importa las filas válidas y reporta las omitidas con su motivo", () => {
+    const csv = [
+      "KPI,Fecha,Valor,Meta",
+      'Ventas,31/12/2024,"1.234,56",1000',
+      "estado del proyecto,31/12/2024,En curso,",
+      "Costos,31/12/2024,10,",
+      "Ventas,32/13/2024,10,",
+      "Ventas,30/11/2024,mucho,",
+      "Ventas,30/10/2024,,",
+      "Ventas,30/09/2024,5,alta",
+      ",30/09/2024,5,",
+      "Ventas,2024-12-31,99,"
+    ].join("\n")
+
+    const { values, skippedRows } = mapSimpleImportRows(
+      readSpreadsheet(Buffer.from(csv, "utf-8"), "kpis.csv"),
+      kpis
+    )
+
+    expect(values).toEqual([
+      {
+        rowNumber: 2,
+        kpi: kpis[0],
+        periodDate: "2024-12-31",
+        actualValue: "1234.56",
+        targetValue: "1000"
+      },
+      {
+        rowNumber: 3,
+        kpi: kpis[1],
+        periodDate: "2024-12-31",
+        actualValue: "En curso",
+        targetValue: null
+      },
+      {
+        rowNumber: 10,
+        kpi: kpis[0],
+        periodDate: "2024-12-31",
+        actualValue: "99",
+        targetValue: null
+      }
+    ])
+    expect(skippedRows).toEqual([
+      { rowNumber: 4, reason: 'El KPI "Costos" no existe en la organización.' },
+      { rowNumber: 5, reason: 'Fecha inválida "32/13/2024".' },
+      { rowNumber: 6, reason: 'Valor numérico inválido "mucho".' },
+      { rowNumber: 7, reason: "Falta el valor del KPI." },
+      { rowNumber: 8, reason: 'Meta inválida "alta".' },
+      { rowNumber: 9, reason: "Falta el nombre del KPI." }
+    ])
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * @file __tests__/unit/sql-extraction.test.ts
+ * @brief Pruebas unitarias de la extracción SQL de las importaciones estándar.
+ * @description Verifica la validación de la consulta de origen, los límites por defecto y máximos,
+ * la normalización de filas y el corte por límite de filas con un cliente PostgreSQL simulado.
+ */
+
+import { describe, test, expect, vi } from "vitest"
+
+const postgresMock = vi.hoisted(() => {
+  const statements: string[] = []
+  const end = vi.fn(async () => {})
+  const batches = [
+    [
+      { fecha: new Date("2024-06-01T00:00:00Z"), valor: "10" },
+      { fecha: new Date("2024-07-01T00:00:00Z"), valor: "20" }
+    ],
+    [{ fecha: new Date("2024-08-01T00:00:00Z"), valor: "30" }]
+  ]
+  const tx = {
+    unsafe: (query: string) => {
+      statements.push(query)
+      return {
+        then: (resolve: (value: unknown[]) => void) => resolve([]),
+        cursor: async function* () {
+          for (const batch of batches) yield batch
+        }
+      }
+    }
+  }
+  const client = {
+    begin: vi.fn(async (_mode: string, cb: (t: typeof tx) => unknown) =>
+      cb(tx)
+    ),
+    end
+  }
+  return { statements, end, client, factory: vi.fn(() => client) }
+})
+
+vi.mock("postgres", () => ({ default: postgresMock.factory }))
+
+import {
+  extractSqlRows,
+  isSqlImportConnectionType,
+  normalizeSqlQuery,
+  normalizeSqlRow,
+  resolveSqlExtractionLimits
+} from "@/lib/sql-extraction"
+
+const details = {
+  host: "localhost",
+  port: 5432,
+  user: "deltaone",
+  password: "secret",
+  database: "ventas"
+}
+
+describe("normalizeSqlQuery", () => {
+  test("acepta SELECT y WITH y quita el punto y coma final", () => {
+    expect(normalizeSqlQuery("  SELECT * FROM ventas;  ")).toBe(
+      "SELECT * FROM ventas"
+    )
+    expect(
+      normalizeSqlQuery("with t as (select 1) select * from t where a = ';'")
+    ).toContain("with t")
+  })
+
+  test("rechaza consultas vacías, de escritura o con varias sentencias", () => {
+    expect(() => normalizeSqlQuery(" ; ")).toThrow("vacía")
+    expect(() => normalizeSqlQuery("DELETE FROM ventas")).toThrow(
+      "solo lectura"
+    )
+    expect(() => normalizeSqlQuery("SELECT 1; DROP TABLE ventas")).toThrow(
+      "una sola sentencia"
+    )
+  })
+})
+
+describe("resolveSqlExtractionLimits", () => {
+  test("aplica valores por defecto y máximos", () => {
+    expect(resolveSqlExtractionLimits({})).toEqual({
+      rowLimit: 10000,
+      timeoutMs: 30000
+    })
+    expect(
+      resolveSqlExtractionLimits({
+        rowLimit: 5_000_000,
+        queryTimeoutSeconds: 5
+      })
+    ).toEqual({ rowLimit: 100000, timeoutMs: 5000 })
+  })
+})
+
+describe("normalizeSqlRow", () => {
+  test("convierte fechas, binarios y enteros grandes", () => {
+    expect(
+      normalizeSqlRow({
+        fecha: new Date("2024-06-01T00:00:00Z"),
+        nombre: Buffer.from("Ventas"),
+        total: BigInt(12),
+        valor: 3.5,
+        vacio: null
+      })
+    ).toEqual({
+      fecha: "2024-06-01T00:00:00.000Z",
+      nombre: "Ventas",
+      total: "12",
+      valor: 3.5,
+      vacio: null
+    })
+  })
+})
+
+describe("extractSqlRows", () => {
+  test("reconoce los tipos de conexión soportados", () => {
+    expect(isSqlImportConnectionType("PostgreSQL")).toBe(true)
+    expect(isSqlImportConnectionType("MySQL")).toBe(true)
+    expect(isSqlImportConnectionType("Oracle")).toBe(false)
+  })
+
+  test("lee por cursor en solo lectura y corta en el límite de filas", async () => {
+    const result = await extractSqlRows(
+      "PostgreSQL",
+      details,
+      "SELECT fecha, valor FROM ventas;",
+      { rowLimit: 2, timeoutMs: 15000 }
+    )
+
+    expect(postgresMock.client.begin).toHaveBeenCalledWith(
+      "read only",
+      expect.any(Function)
+    )
+    expect(postgresMock.statements).toEqual([
+      "SET LOCAL statement_timeout = 15000",
+      "SELECT fecha, valor FROM ventas"
+    ])
+    expect(result.truncated).toBe(true)
+    expect(result.rows).toEqual([
+      { fecha: "2024-06-01T00:00:00.000Z", valor: "10" },
+      { fecha: "2024-07-01T00:00:00.000Z", valor: "20" }
+    ])
+    expect(postgresMock.end).toHaveBeenCalled()
+  })
+
+  test("no ejecuta consultas que no son de lectura", async () => {
+    await expect(
+      extractSqlRows("PostgreSQL", details, "UPDATE ventas SET valor = 0", {
+        rowLimit: 10,
+        timeoutMs: 1000
+      })
+    ).rejects.toThrow("solo lectura")
+  })
+})
@@ -5,8 +5,11 @@
  * eliminar y recuperar alertas configuradas en la base de datos. Incluye validaciones
  * específicas para los diferentes tipos de alertas, como recordatorios de actualización
  * de KPI, cambios personalizados en KPI y alertas de KPI en estado "Rojo".
+ * También expone el historial de alertas disparadas del usuario actual (`alert_events`) y permite
+ * marcarlas como leídas o no leídas.
  * Asegura la validación de datos, la autenticación de usuarios y el manejo de errores
- * para garantizar la consistencia y seguridad en las operaciones.
+ * para garantizar la consistencia y seguridad en las operaciones. Configurar alertas exige el
+ * permiso `alert:manage` sobre la organización del KPI de la alerta (o global si no tiene KPI).
  */
 
 "use server";
@@ -14,6 +17,8 @@
 import { db } from "@/db/db";
 import {
   alertsTable,
+  alertEventsTable,
+  alertEventRecipientsTable,
   appSettingsTable,
   kpisTable,
   alertTypeEnum,
@@ -21,11 +26,12 @@ import {
   SelectAppSetting,
   InsertAlert,
 } from "@/db/schema";
-import { ActionState, ok, fail } from "@/types";
+import { ActionState, ok, fail, UserAlertEvent } from "@/types";
 import { auth } from "@clerk/nextjs/server";
-import { and, eq, isNull } from "drizzle-orm";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
 import { z } from "zod";
 import { getLogger } from "@/lib/logger";
+import { getKpiOrganizationId, requirePermission } from "@/lib/authorization";
 
 const logger = getLogger("alert-actions");
 
@@ -38,6 +44,11 @@ function formatZodError(err: z.ZodError): string {
   return err.errors.map((e) => e.message).join(", ");
 }
 
+/** Organización sobre la que se exige `alert:manage`: la del KPI de la alerta, o global si no tiene. */
+async function getAlertOrganizationId(kpiId: string | null | undefined): Promise<string | null> {
+  return kpiId ? getKpiOrganizationId(db, kpiId) : null;
+}
+
 /** Helper para obtener el primer elemento de un array o undefined. */
 async function firstOrUndefined<T>(q: Promise<T[]>): Promise<T | undefined> {
   const rows = await q;
@@ -93,6 +104,11 @@ const CustomKpiChangeConditionDetailsSchema = z.object({
     .string()
     .min(1, "El valor de umbral es requerido.")
     .max(255, "El valor de umbral no puede exceder 255 caracteres."),
+  comparison: z
+    .enum(["value", "delta"], {
+      errorMap: () => ({ message: "Tipo de comparación inválido." }),
+    })
+    .optional(),
 });
 
 /** Base para crear alertas. */
@@ -200,6 +216,12 @@ const validateUpdateByType = (
 
 const updateAlertSchema = UpdateAlertBaseSchema.superRefine(validateUpdateByType);
 
+/** Cambio de estado de lectura de eventos de alerta (sin IDs = todos los del usuario). */
+const updateAlertEventReadStateSchema = z.object({
+  eventIds: z.array(z.string().uuid("ID de evento inválido.")).optional(),
+  read: z.boolean(),
+});
+
 /** Toggle 'require note for red KPI'. */
 const toggleRequireNoteForRedKpiSchema = z.object({
   enabled: z.boolean(),
@@ -234,6 +256,14 @@ export async function createAlertAction(
     alertType,
   } = validated.data;
 
+  const denied = await requirePermission(
+    db,
+    userId,
+    "alert:manage",
+    await getAlertOrganizationId(kpiId),
+  );
+  if (denied) return denied;
+
   try {
     if (kpiId) {
       const existingKpi = await firstOrUndefined(
@@ -310,6 +340,19 @@ export async function updateAlertAction(
       return fail("Alerta no encontrada.");
     }
 
+    // Permiso sobre la organización del KPI actual de la alerta y, si cambia, sobre la del nuevo
+    const denied =
+      (await requirePermission(
+        db,
+        userId,
+        "alert:manage",
+        await getAlertOrganizationId(existingAlert.kpiId),
+      )) ??
+      (kpiId && kpiId !== existingAlert.kpiId
+        ? await requirePermission(db, userId, "alert:manage", await getAlertOrganizationId(kpiId))
+        : null);
+    if (denied) return denied;
+
     if (kpiId && kpiId !== existingAlert.kpiId) {
       const existingKpi = await firstOrUndefined(
         db.select().from(kpisTable).where(eq(kpisTable.id, kpiId)),
@@ -375,6 +418,17 @@ export async function deleteAlertAction(
     return fail("ID de alerta inválido.");
   }
 
+  const alert = await firstOrUndefined(
+    db.select({ kpiId: alertsTable.kpiId }).from(alertsTable).where(eq(alertsTable.id, id)),
+  );
+  const denied = await requirePermission(
+    db,
+    userId,
+    "alert:manage",
+    await getAlertOrganizationId(alert?.kpiId),
+  );
+  if (denied) return denied;
+
   try {
     const [deletedAlert] = await db
       .delete(alertsTable)
@@ -487,6 +541,9 @@ export async function configureKpiUpdateReminderAction(
     frequencyConfig,
   } = validated.data;
 
+  const denied = await requirePermission(db, userId, "alert:manage");
+  if (denied) return denied;
+
   try {
     // Verificar si ya existe el recordatorio global (kpiId IS NULL)
     const existingReminder = await firstOrUndefined(
@@ -590,6 +647,9 @@ export async function toggleRequireNoteForRedKpiAction(
     return fail(errorMessage);
   }
 
+  const denied = await requirePermission(db, userId, "alert:manage");
+  if (denied) return denied;
+
   const { enabled } = validated.data;
   const settingKey = "require_note_for_red_kpi";
 
@@ -632,3 +692,121 @@ export async function toggleRequireNoteForRedKpiAction(
     );
   }
 }
+
+/** Máximo de eventos de alerta devueltos al usuario. */
+const MAX_USER_ALERT_EVENTS = 200;
+
+/**
+ * @function getMyAlertEventsAction
+ * @description Obtiene los eventos de alerta recibidos por el usuario actual, del más reciente al
+ * más antiguo, hasta un máximo de `MAX_USER_ALERT_EVENTS`.
+ * @returns {Promise<ActionState<UserAlertEvent[]>>} Eventos del usuario con su estado de lectura.
+ */
+export async function getMyAlertEventsAction(): Promise<
+  ActionState<UserAlertEvent[]>
+> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to get alert events.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  try {
+    const events: UserAlertEvent[] = await db
+      .select({
+        id: alertEventsTable.id,
+        alertType: alertEventsTable.alertType,
+        kpiId: alertEventsTable.kpiId,
+        kpiName: alertEventsTable.kpiName,
+        periodDate: alertEventsTable.periodDate,
+        detail: alertEventsTable.detail,
+        channel: alertEventsTable.channel,
+        deliveryStatus: alertEventsTable.deliveryStatus,
+        createdAt: alertEventsTable.createdAt,
+        readAt: alertEventRecipientsTable.readAt,
+      })
+      .from(alertEventRecipientsTable)
+      .innerJoin(
+        alertEventsTable,
+        eq(alertEventRecipientsTable.eventId, alertEventsTable.id),
+      )
+      .where(eq(alertEventRecipientsTable.userId, userId))
+      .orderBy(desc(alertEventsTable.createdAt))
+      .limit(MAX_USER_ALERT_EVENTS);
+
+    return ok("Eventos de alerta obtenidos exitosamente.", events);
+  } catch (error) {
+    logger.error(
+      `Error getting alert events: ${error instanceof Error ? error.message : String(error)}`,
+      { userId },
+    );
+    return fail(
+      `Fallo al obtener los eventos de alerta: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * @function updateAlertEventReadStateAction
+ * @description Marca eventos de alerta del usuario actual como leídos o no leídos. Si no se indican
+ * IDs, se aplica a todos sus eventos.
+ * @param {z.infer<typeof updateAlertEventReadStateSchema>} data - IDs de los eventos y estado de lectura.
+ * @returns {Promise<ActionState<{ updated: number }>>} Cantidad de eventos actualizados.
+ */
+export async function updateAlertEventReadStateAction(
+  data: z.infer<typeof updateAlertEventReadStateSchema>,
+): Promise<ActionState<{ updated: number }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to update alert event read state.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validated = updateAlertEventReadStateSchema.safeParse(data);
+  if (!validated.success) {
+    const errorMessage = formatZodError(validated.error);
+    logger.error(
+      `Validation error for updateAlertEventReadStateAction: ${errorMessage}`,
+    );
+    return fail(errorMessage);
+  }
+
+  const { eventIds, read } = validated.data;
+  if (eventIds && eventIds.length === 0) {
+    return ok("No hay eventos que actualizar.", { updated: 0 });
+  }
+
+  try {
+    const conditions = [eq(alertEventRecipientsTable.userId, userId)];
+    if (eventIds) {
+      conditions.push(inArray(alertEventRecipientsTable.eventId, eventIds));
+    }
+    if (read) {
+      conditions.push(isNull(alertEventRecipientsTable.readAt));
+    }
+
+    const updated = await db
+      .update(alertEventRecipientsTable)
+      .set({ readAt: read ? new Date() : null, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning({ eventId: alertEventRecipientsTable.eventId });
+
+    logger.info(
+      `Marked ${updated.length} alert event(s) as ${read ? "read" : "unread"} for user ${userId}.`,
+    );
+    return ok(
+      read
+        ? "Eventos marcados como leídos."
+        : "Eventos marcados como no leídos.",
+      { updated: updated.length },
+    );
+  } catch (error) {
+    logger.error(
+      `Error updating alert event read state: ${error instanceof Error ? error.message : String(error)}`,
+      { data },
+    );
+    return fail(
+      `Fallo al actualizar los eventos de alerta: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * @file actions/db/api-key-actions.ts
+ * @brief Implementa Server Actions para la gestión de claves de API de ingesta de valores de KPI.
+ * @description Este archivo contiene funciones del lado del servidor para crear, listar y revocar
+ * las claves con las que los procesos externos envían valores a `POST /api/kpi-values`. Cada clave
+ * está limitada a una organización (y opcionalmente a sus descendientes). De la clave solo se guarda
+ * su hash: el secreto completo se devuelve una única vez al crearla.
+ * Se requiere autenticación para todas las operaciones, y el permiso `import:manage_connections`
+ * sobre la organización de la clave para crearla, revocarla o verla en el listado.
+ */
+
+"use server";
+
+import { db } from "@/db/db";
+import { apiKeysTable, organizationsTable } from "@/db/schema";
+import { ActionState, ApiKeyView, CreatedApiKey, fail, ok } from "@/types";
+import { formatZodError } from "@/types/validation";
+import { auth } from "@clerk/nextjs/server";
+import { desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { getLogger } from "@/lib/logger";
+import { firstOrUndefined } from "@/lib/db-helpers";
+import { generateApiKey } from "@/lib/api-keys";
+import { loadPermissionCheck, requirePermission } from "@/lib/authorization";
+
+const logger = getLogger("api-key-actions");
+
+/**
+ * @schema createApiKeySchema
+ * @description Esquema de validación para la creación de una clave de API.
+ * @property {string} name - Nombre descriptivo de la clave, requerido y máximo 255 caracteres.
+ * @property {string} organizationId - Organización a la que se limita la clave, UUID requerido.
+ * @property {boolean} includeDescendants - Permite también las organizaciones descendientes, por defecto true.
+ * @property {Date | null} expiresAt - Vencimiento opcional; debe ser una fecha futura.
+ */
+const createApiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "El nombre de la clave es requerido.")
+    .max(255, "El nombre no puede exceder los 255 caracteres."),
+  organizationId: z.string().uuid("ID de organización inválido."),
+  includeDescendants: z.boolean().default(true),
+  expiresAt: z.coerce
+    .date({ errorMap: () => ({ message: "Fecha de vencimiento inválida." }) })
+    .refine((date) => date.getTime() > Date.now(), "La fecha de vencimiento debe ser futura.")
+    .nullable()
+    .optional(),
+});
+
+/**
+ * @schema revokeApiKeySchema
+ * @description Esquema de validación para revocar una clave de API.
+ * @property {string} id - ID de la clave, UUID requerido.
+ */
+const revokeApiKeySchema = z.object({
+  id: z.string().uuid("ID de clave inválido."),
+});
+
+/** Columnas de la clave que se muestran en la configuración (sin el hash). */
+const apiKeyViewColumns = {
+  id: apiKeysTable.id,
+  name: apiKeysTable.name,
+  keyPrefix: apiKeysTable.keyPrefix,
+  organizationId: apiKeysTable.organizationId,
+  organizationName: organizationsTable.name,
+  includeDescendants: apiKeysTable.includeDescendants,
+  lastUsedAt: apiKeysTable.lastUsedAt,
+  expiresAt: apiKeysTable.expiresAt,
+  revokedAt: apiKeysTable.revokedAt,
+  createdAt: apiKeysTable.createdAt,
+};
+
+/**
+ * @function createApiKeyAction
+ * @description Crea una clave de API limitada a una organización. El secreto solo se devuelve en esta respuesta.
+ * @param {z.input<typeof createApiKeySchema>} data - Nombre, organización, alcance y vencimiento de la clave.
+ * @returns {Promise<ActionState<CreatedApiKey>>} Objeto ActionState con la clave creada y su secreto.
+ */
+export async function createApiKeyAction(
+  data: z.input<typeof createApiKeySchema>,
+): Promise<ActionState<CreatedApiKey>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to create API key.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = createApiKeySchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = formatZodError(validatedData.error);
+    logger.error(`Validation error for createApiKeyAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  const denied = await requirePermission(
+    db,
+    userId,
+    "import:manage_connections",
+    validatedData.data.organizationId,
+  );
+  if (denied) return denied;
+
+  try {
+    const { name, organizationId, includeDescendants, expiresAt } = validatedData.data;
+    const organization = await firstOrUndefined(
+      db
+        .select({ id: organizationsTable.id, name: organizationsTable.name })
+        .from(organizationsTable)
+        .where(eq(organizationsTable.id, organizationId)),
+    );
+    if (!organization) {
+      return fail("Organización no encontrada.");
+    }
+
+    const { secret, keyPrefix, keyHash } = generateApiKey();
+    const [created] = await db
+      .insert(apiKeysTable)
+      .values({
+        name,
+        keyPrefix,
+        keyHash,
+        organizationId,
+        includeDescendants,
+        expiresAt: expiresAt ?? null,
+        createdById: userId,
+      })
+      .returning();
+
+    logger.info(`API key ${created.id} created for organization ${organizationId} by user ${userId}.`);
+    return ok("Clave de API creada exitosamente. Copie el secreto: no se volverá a mostrar.", {
+      apiKey: {
+        id: created.id,
+        name: created.name,
+        keyPrefix: created.keyPrefix,
+        organizationId: created.organizationId,
+        organizationName: organization.name,
+        includeDescendants: created.includeDescendants,
+        lastUsedAt: created.lastUsedAt,
+        expiresAt: created.expiresAt,
+        revokedAt: created.revokedAt,
+        createdAt: created.createdAt,
+      },
+      secret,
+    });
+  } catch (error) {
+    logger.error(`Error creating API key: ${error instanceof Error ? error.message : String(error)}`);
+    return fail("Fallo al crear la clave de API.");
+  }
+}
+
+/**
+ * @function getApiKeysAction
+ * @description Obtiene las claves de API emitidas en las organizaciones donde el usuario tiene
+ * `import:manage_connections`, de la más reciente a la más antigua (sin los secretos).
+ * @returns {Promise<ActionState<ApiKeyView[]>>} Objeto ActionState con las claves.
+ */
+export async function getApiKeysAction(): Promise<ActionState<ApiKeyView[]>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to list API keys.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  try {
+    const canManage = await loadPermissionCheck(db, userId, "import:manage_connections");
+    const apiKeys = await db
+      .select(apiKeyViewColumns)
+      .from(apiKeysTable)
+      .leftJoin(organizationsTable, eq(apiKeysTable.organizationId, organizationsTable.id))
+      .orderBy(desc(apiKeysTable.createdAt));
+    return ok(
+      "Claves de API obtenidas exitosamente.",
+      apiKeys.filter((apiKey) => canManage(apiKey.organizationId)),
+    );
+  } catch (error) {
+    logger.error(`Error retrieving API keys: ${error instanceof Error ? error.message : String(error)}`);
+    return fail("Fallo al obtener las claves de API.");
+  }
+}
+
+/**
+ * @function revokeApiKeyAction
+ * @description Revoca una clave de API. Las solicitudes posteriores con esa clave se rechazan.
+ * @param {z.infer<typeof revokeApiKeySchema>} data - ID de la clave a revocar.
+ * @returns {Promise<ActionState<undefined>>} Objeto ActionState indicando el éxito o fracaso.
+ */
+export async function revokeApiKeyAction(
+  data: z.infer<typeof revokeApiKeySchema>,
+): Promise<ActionState<undefined>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to revoke API key.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = revokeApiKeySchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = formatZodError(validatedData.error);
+    logger.error(`Validation error for revokeApiKeyAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  const apiKey = await firstOrUndefined(
+    db
+      .select({ organizationId: apiKeysTable.organizationId })
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, validatedData.data.id)),
+  );
+  const denied = await requirePermission(
+    db,
+    userId,
+    "import:manage_connections",
+    apiKey?.organizationId ?? null,
+  );
+  if (denied) return denied;
+
+  try {
+    const [revoked] = await db
+      .update(apiKeysTable)
+      .set({ revokedAt: new Date() })
+      .where(eq(apiKeysTable.id, validatedData.data.id))
+      .returning({ id: apiKeysTable.id });
+    if (!revoked) {
+      return fail("Clave de API no encontrada.");
+    }
+
+    logger.info(`API key ${revoked.id} revoked by user ${userId}.`);
+    return ok("Clave de API revocada exitosamente.", undefined);
+  } catch (error) {
+    logger.error(`Error revoking API key: ${error instanceof Error ? error.message : String(error)}`);
+    return fail("Fallo al revocar la clave de API.");
+  }
+}
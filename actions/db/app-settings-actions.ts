@@ -5,12 +5,15 @@
  * - Personalización de terminología (UC-403)
  * - Activación/desactivación de Strategy Maps (UC-404)
  * - Configuración global de alertas por respuesta a notas (UC-302)
+ * - Política de datos faltantes en la agregación de puntuaciones del Scorecard
+ * - Mes de inicio del año fiscal, que define los trimestres y años de los períodos de KPI
  *
  * Mejores prácticas aplicadas:
  * - Validación con Zod y mensajes de error claros
  * - Compatibilidad hacia atrás en contratos de entrada
  * - Escritura dual para claves renombradas a fin de no romper lecturas existentes
  * - Respuestas tipadas coherentes con `.returning()`
+ * - Las actualizaciones exigen el permiso global `app_settings:manage`
  */
 
 "use server";
@@ -18,16 +21,20 @@
 import { db } from "@/db/db";
 import {
   appSettingsTable,
+  scorecardElementScoresTable,
   InsertAppSetting,
   SelectAppSetting,
 } from "@/db/schema";
-import { ActionState, ok, fail } from "@/types";
+import { ActionState, ok, fail, SCORE_MISSING_DATA_POLICIES } from "@/types";
 import { formatZodError } from "@/types/validation";
 import { auth } from "@clerk/nextjs/server";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 import { getLogger } from "@/lib/logger";
 import { firstOrUndefined } from "@/lib/db-helpers";
+import { SCORE_MISSING_DATA_POLICY_SETTING_KEY } from "@/lib/scorecard-scoring";
+import { FISCAL_YEAR_START_MONTH_SETTING_KEY } from "@/lib/period-utils";
+import { requirePermission } from "@/lib/authorization";
 
 const logger = getLogger("app-settings-actions");
 
@@ -84,6 +91,30 @@ const toggleEnableNoteReplyAlertsSchema = z.object({
   enabled: z.boolean(),
 });
 
+/**
+ * @schema updateScoreMissingDataPolicySchema
+ * @description Esquema de validación para la política de datos faltantes de la agregación de puntuaciones.
+ * @property {ScoreMissingDataPolicy} policy - 'exclude', 'zero' o 'propagate'.
+ */
+const updateScoreMissingDataPolicySchema = z.object({
+  policy: z.enum(SCORE_MISSING_DATA_POLICIES, {
+    errorMap: () => ({ message: "Política de datos faltantes inválida." }),
+  }),
+});
+
+/**
+ * @schema updateFiscalYearStartMonthSchema
+ * @description Esquema de validación para el mes de inicio del año fiscal.
+ * @property {number} month - Mes (1 = enero, 12 = diciembre).
+ */
+const updateFiscalYearStartMonthSchema = z.object({
+  month: z
+    .number()
+    .int("El mes debe ser un número entero.")
+    .min(1, "El mes debe estar entre 1 y 12.")
+    .max(12, "El mes debe estar entre 1 y 12."),
+});
+
 /* -------------------------------------------------------------------------- */
 /*                           Utilidades de Compatibilidad                     */
 /* -------------------------------------------------------------------------- */
@@ -193,6 +224,9 @@ export async function updateTerminologyAction(
     return fail(errorMessage || "Datos inválidos.");
   }
 
+  const denied = await requirePermission(db, userId, "app_settings:manage");
+  if (denied) return denied;
+
   const { settingKey, settingValue } = normalized;
 
   try {
@@ -259,6 +293,9 @@ export async function toggleStrategyMapsAction(
     return fail(errorMessage);
   }
 
+  const denied = await requirePermission(db, userId, "app_settings:manage");
+  if (denied) return denied;
+
   const { enabled } = validatedData.data;
   const canonicalKey = "strategy_maps_enabled"; // v1
   const altKey = "enable_strategy_maps"; // v2 (compatibilidad)
@@ -356,6 +393,9 @@ export async function toggleEnableNoteReplyAlertsAction(
     return fail(errorMessage);
   }
 
+  const denied = await requirePermission(db, userId, "app_settings:manage");
+  if (denied) return denied;
+
   const { enabled } = validatedData.data;
   const settingKey = "enable_note_reply_alerts";
   const settingValue = String(enabled);
@@ -399,3 +439,132 @@ export async function toggleEnableNoteReplyAlertsAction(
     );
   }
 }
+
+/**
+ * @function updateScoreMissingDataPolicyAction
+ * @description Define cómo se tratan los hijos sin datos al agregar las puntuaciones del Scorecard
+ * (ignorarlos, contarlos como 0 o dejar al padre sin puntuación). Invalida la caché de puntuaciones
+ * agregadas para que se recalculen con la nueva política.
+ * @param {z.infer<typeof updateScoreMissingDataPolicySchema>} data
+ * @returns {Promise<ActionState<SelectAppSetting>>}
+ */
+export async function updateScoreMissingDataPolicyAction(
+  data: z.infer<typeof updateScoreMissingDataPolicySchema>,
+): Promise<ActionState<SelectAppSetting>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to update score missing data policy.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = updateScoreMissingDataPolicySchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = formatZodError(validatedData.error);
+    logger.error(`Validation error for updateScoreMissingDataPolicyAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  const denied = await requirePermission(db, userId, "app_settings:manage");
+  if (denied) return denied;
+
+  const settingKey = SCORE_MISSING_DATA_POLICY_SETTING_KEY;
+  const settingValue = validatedData.data.policy;
+
+  try {
+    const [updatedSetting] = await db
+      .insert(appSettingsTable)
+      .values({
+        settingKey,
+        settingValue,
+        settingType: "methodology",
+        updatedAt: new Date(),
+      } satisfies InsertAppSetting)
+      .onConflictDoUpdate({
+        target: appSettingsTable.settingKey,
+        set: {
+          settingValue,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    if (!updatedSetting) {
+      return fail("Fallo al actualizar la política de datos faltantes.");
+    }
+
+    // Las puntuaciones agregadas en caché se calcularon con la política anterior
+    await db.delete(scorecardElementScoresTable);
+
+    logger.info(`Score missing data policy set to ${settingValue} by user ${userId}`, { updatedSetting });
+    return ok("Política de datos faltantes actualizada exitosamente.", updatedSetting);
+  } catch (error) {
+    logger.error(
+      `Error updating score missing data policy: ${error instanceof Error ? error.message : String(error)}`,
+      { settingKey, settingValue },
+    );
+    return fail("Fallo al actualizar la política de datos faltantes.");
+  }
+}
+
+/**
+ * @function updateFiscalYearStartMonthAction
+ * @description Define el mes en que comienza el año fiscal. Los valores de KPI trimestrales y anuales
+ * que se escriban a partir de ahora se guardan en el inicio del trimestre o año fiscal; los valores ya
+ * guardados conservan su fecha.
+ * @param {z.infer<typeof updateFiscalYearStartMonthSchema>} data
+ * @returns {Promise<ActionState<SelectAppSetting>>}
+ */
+export async function updateFiscalYearStartMonthAction(
+  data: z.infer<typeof updateFiscalYearStartMonthSchema>,
+): Promise<ActionState<SelectAppSetting>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to update fiscal year start month.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = updateFiscalYearStartMonthSchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = formatZodError(validatedData.error);
+    logger.error(`Validation error for updateFiscalYearStartMonthAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  const denied = await requirePermission(db, userId, "app_settings:manage");
+  if (denied) return denied;
+
+  const settingKey = FISCAL_YEAR_START_MONTH_SETTING_KEY;
+  const settingValue = String(validatedData.data.month);
+
+  try {
+    const [updatedSetting] = await db
+      .insert(appSettingsTable)
+      .values({
+        settingKey,
+        settingValue,
+        settingType: "methodology",
+        updatedAt: new Date(),
+      } satisfies InsertAppSetting)
+      .onConflictDoUpdate({
+        target: appSettingsTable.settingKey,
+        set: {
+          settingValue,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    if (!updatedSetting) {
+      return fail("Fallo al actualizar el inicio del año fiscal.");
+    }
+
+    logger.info(`Fiscal year start month set to ${settingValue} by user ${userId}`, { updatedSetting });
+    return ok("Inicio del año fiscal actualizado exitosamente.", updatedSetting);
+  } catch (error) {
+    logger.error(
+      `Error updating fiscal year start month: ${error instanceof Error ? error.message : String(error)}`,
+      { settingKey, settingValue },
+    );
+    return fail("Fallo al actualizar el inicio del año fiscal.");
+  }
+}
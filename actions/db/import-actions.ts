@@ -10,18 +10,28 @@
  * Este módulo expone funciones del lado servidor para:
  *   - Crear, leer, actualizar y eliminar configuraciones de importación guardadas (UC-201).
  *   - Ejecutar importaciones (UC-201, UC-203), aplicando transformaciones y mapeando valores hacia KPIs.
+ *     Cada mapeo apunta a un KPI fijo o, en modo dinámico, lee de una columna el identificador del KPI
+ *     (ID, código externo, nombre o alias) y opcionalmente de otra su organización (ver `lib/kpi-resolution.ts`).
+ *     Las conexiones PostgreSQL y MySQL ejecutan la consulta SQL guardada en la importación
+ *     (solo lectura, con límite de filas y tiempo máximo; ver `lib/sql-extraction.ts`).
  *   - Programar y desprogramar importaciones recurrentes (UC-204), almacenando la configuración de schedule en la DB.
  *
  * Características clave:
  *   - Validación con Zod de todas las entradas (payloads, IDs, JSONB).
  *   - Parseo seguro de campos JSONB (`kpiMappings`, `transformations`) con schemas dedicados.
+ *   - Fechas de período llevadas al inicio canónico del período del KPI (según su `calendarFrequency`
+ *     y el mes de inicio del año fiscal), combinando las filas del mismo período con su `aggregationType`.
  *   - Cálculo de `score` y `color` para KPIs de tipo "Goal/Red Flag" y "Yes/No".
  *   - Upsert idempotente en `kpi_values` (conflicto por [kpiId, periodDate]).
  *   - Registro de `lastRunAt` y `updatedAt` para control de re-ejecuciones.
  *   - Aliases de compatibilidad con nombres de acciones de la versión 1.
+ *   - Las acciones que leen, crean, modifican, programan o ejecutan importaciones exigen el permiso
+ *     `import:manage_saved_imports` (la importación simple, sobre la organización destino).
  *
  * Notas:
- *   - La extracción de datos reales desde fuentes externas está simulada (placeholder).
+ *   - La importación simple lee archivos .xlsx, .xls y .csv (ver `lib/spreadsheet-import.ts`).
+ *   - La extracción desde conexiones Excel está simulada (placeholder) y los demás motores relacionales
+ *     (SQL Server, Oracle, Hive) aún no están disponibles.
  *   - `score` se almacena como string para compatibilidad con tipos (ej. decimal/char).
  *   - Si necesitas estricta compatibilidad binaria con v1 en nombres/firmas, revisa los
  *     "Aliases de compatibilidad v1" al final del archivo.
@@ -35,29 +45,53 @@ import {
   importConnectionsTable,
   kpiValuesTable,
   kpisTable,
-  kpiColorEnum,
-  SelectKpi,
-  InsertKpiValue,
   scorecardElementsTable,
 } from "@/db/schema";
-import { ActionState, ok, fail } from "@/types";
+import {
+  ActionState,
+  ok,
+  fail,
+  ImportChangeSet,
+  SimpleImportFileInfo,
+  SimpleImportReport,
+} from "@/types";
 import {
   KpiMapping,
   KpiMappingSchema,
+  SIMPLE_IMPORT_FILE_EXTENSIONS,
+  SIMPLE_IMPORT_MAX_FILE_BYTES,
+  SqlImportSourceSchema,
   TransformationRule,
   TransformationRuleSchema,
 } from "@/types/import-types";
 import { ScheduleConfigSchema } from "@/types/schedule-types";
 import { auth } from "@clerk/nextjs/server";
-import { eq, inArray } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { z } from "zod";
 import { getLogger } from "@/lib/logger";
-import { decrypt } from "@/lib/encryption";
-import { applyTransformations } from "@/lib/data-transformer";
-import { calculateKpiScoreAndColor } from "@/lib/kpi-scoring";
+import { validateTransformationRules } from "@/lib/data-transformer";
+import { mapSimpleImportRows, ParsedSpreadsheet, readSpreadsheet } from "@/lib/spreadsheet-import";
+import {
+  buildImportChangeSet,
+  combineSamePeriodCandidates,
+  ImportCandidate,
+  kpiValueKey,
+  loadExistingKpiValues,
+} from "@/lib/import-preview";
+import { evaluateKpiValueEntry } from "@/lib/kpi-value-entry";
+import { getFiscalYearStartMonth, normalizePeriodDate } from "@/lib/period-utils";
+import { requirePermission } from "@/lib/authorization";
+import {
+  recalculateDependentsOfImportedValues,
+  runSavedKpiImport,
+  validateSqlImportSource,
+} from "@/lib/saved-import-execution";
 
 const logger = getLogger("import-actions");
 
+// Longitud Base64 de un archivo de 5MB (límite de la importación simple)
+const SIMPLE_IMPORT_MAX_BASE64_LENGTH = Math.ceil(SIMPLE_IMPORT_MAX_FILE_BYTES / 3) * 4;
+
 /* -------------------------------------------------------------------------- */
 /*                               Helpers / Utils                              */
 /* -------------------------------------------------------------------------- */
@@ -88,6 +122,20 @@ function formatZodError(e: z.ZodError): string {
 /*                           Esquemas de Validación Zod                       */
 /* -------------------------------------------------------------------------- */
 
+/**
+ * @schema transformationRulesSchema
+ * @description Reglas de transformación de una importación. Las condiciones de los filtros se
+ * validan con el lenguaje de expresiones seguro, para rechazarlas al guardar y no al ejecutar.
+ */
+const transformationRulesSchema = z
+  .array(TransformationRuleSchema)
+  .nullable()
+  .optional()
+  .superRefine((rules, ctx) => {
+    const error = rules ? validateTransformationRules(rules) : null;
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  });
+
 /**
  * @schema createSavedKpiImportSchema
  * @description Esquema de validación para crear una importación guardada (UC-201).
@@ -96,13 +144,17 @@ function formatZodError(e: z.ZodError): string {
  * @property {KpiMapping[]} kpiMappings Lista de mapeos KPI-Columnas origen.
  * @property {TransformationRule[] | null} transformations Reglas de transformación (opcional/nullable).
  * @property {ScheduleConfig | null} scheduleConfig Configuración de programación (opcional/nullable).
+ * @property {string | null} sourceQuery Consulta SQL de origen (requerida para PostgreSQL/MySQL).
+ * @property {number | null} rowLimit Máximo de filas a leer de la consulta (opcional).
+ * @property {number | null} queryTimeoutSeconds Tiempo máximo de la consulta en segundos (opcional).
  */
 const createSavedKpiImportSchema = z.object({
   name: z.string().min(1, "El nombre es requerido.").max(255, "Máx 255 caracteres."),
   connectionId: z.string().uuid("ID de conexión inválido."),
   kpiMappings: z.array(KpiMappingSchema).min(1, "Debe haber al menos un mapeo."),
-  transformations: z.array(TransformationRuleSchema).nullable().optional(),
+  transformations: transformationRulesSchema,
   scheduleConfig: ScheduleConfigSchema.nullable().optional(),
+  ...SqlImportSourceSchema.shape,
 });
 
 /**
@@ -115,8 +167,9 @@ const updateSavedKpiImportSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   connectionId: z.string().uuid().optional(),
   kpiMappings: z.array(KpiMappingSchema).min(1).optional(),
-  transformations: z.array(TransformationRuleSchema).nullable().optional(),
+  transformations: transformationRulesSchema,
   scheduleConfig: ScheduleConfigSchema.nullable().optional(),
+  ...SqlImportSourceSchema.shape,
 });
 
 /**
@@ -130,9 +183,11 @@ const deleteSavedKpiImportSchema = z.object({
 /**
  * @schema executeSavedKpiImportSchema
  * @description Esquema de validación para ejecutar una importación guardada (UC-201, UC-203).
+ * Con `dryRun` solo se calcula la vista previa de los cambios, sin escribir.
  */
 const executeSavedKpiImportSchema = z.object({
   id: z.string().uuid("ID de importación inválido."),
+  dryRun: z.boolean().optional(),
 });
 
 /**
@@ -153,13 +208,35 @@ const unscheduleKpiImportSchema = z.object({
 });
 
 /**
- * @schema uploadSimpleKpiImportSchema
- * @description Esquema de validación para importación simple desde archivo (UC-200 / placeholder).
+ * @schema simpleImportFileSchema
+ * @description Esquema de validación del archivo de una importación simple (.xlsx, .xls o .csv en Base64),
+ * de la organización destino y de la hoja y fila de encabezados elegidas (opcionales: por defecto, la
+ * primera hoja y la fila detectada).
  */
-const uploadSimpleKpiImportSchema = z.object({
-  fileName: z.string().min(1, "El nombre del archivo es requerido."),
-  fileContentBase64: z.string().min(1, "El contenido Base64 es requerido."),
+const simpleImportFileSchema = z.object({
   organizationId: z.string().uuid("ID de organización inválido."),
+  fileName: z
+    .string()
+    .min(1, "El nombre del archivo es requerido.")
+    .refine(
+      name => SIMPLE_IMPORT_FILE_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext)),
+      "Solo se permiten archivos Excel (.xlsx, .xls) o CSV (.csv).",
+    ),
+  fileContentBase64: z
+    .string()
+    .min(1, "El contenido Base64 es requerido.")
+    .max(SIMPLE_IMPORT_MAX_BASE64_LENGTH, "El tamaño del archivo no debe exceder 5MB."),
+  sheetName: z.string().nullable().optional(),
+  headerRow: z.number().int().min(1, "La fila de encabezados debe ser al menos 1.").nullable().optional(),
+});
+
+/**
+ * @schema uploadSimpleKpiImportSchema
+ * @description Esquema de validación para importación simple desde archivo (UC-200).
+ * Con `dryRun` solo se calcula la vista previa de los cambios, sin escribir.
+ */
+const uploadSimpleKpiImportSchema = simpleImportFileSchema.extend({
+  dryRun: z.boolean().optional(),
 });
 
 /* -------------------------------------------------------------------------- */
@@ -188,7 +265,19 @@ export async function createSavedKpiImportAction(
     return fail(msg);
   }
 
-  const { name, connectionId, kpiMappings, transformations, scheduleConfig } = parsed.data;
+  const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+  if (denied) return denied;
+
+  const {
+    name,
+    connectionId,
+    kpiMappings,
+    transformations,
+    scheduleConfig,
+    sourceQuery,
+    rowLimit,
+    queryTimeoutSeconds,
+  } = parsed.data;
 
   try {
     const nameExists = await firstOrUndefined(
@@ -201,6 +290,9 @@ export async function createSavedKpiImportAction(
     );
     if (!connectionExists) return fail("La conexión especificada no existe.");
 
+    const sourceError = validateSqlImportSource(connectionExists.connectionType, sourceQuery);
+    if (sourceError) return fail(sourceError);
+
     const [row] = await db
       .insert(savedImportsTable)
       .values({
@@ -209,6 +301,9 @@ export async function createSavedKpiImportAction(
         kpiMappings: kpiMappings as any,
         transformations: transformations as any,
         scheduleConfig: scheduleConfig as any,
+        sourceQuery: sourceQuery?.trim() || null,
+        rowLimit: rowLimit ?? null,
+        queryTimeoutSeconds: queryTimeoutSeconds ?? null,
         createdById: userId,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -238,6 +333,9 @@ export async function getSavedKpiImportAction(
   if (!v.success) return fail(formatZodError(v.error));
 
   try {
+    const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+    if (denied) return denied;
+
     const saved = await firstOrUndefined(
       db.select().from(savedImportsTable).where(eq(savedImportsTable.id, v.data)),
     );
@@ -268,7 +366,20 @@ export async function updateSavedKpiImportAction(
 
   const v = updateSavedKpiImportSchema.safeParse({ id, ...data });
   if (!v.success) return fail(formatZodError(v.error));
-  const { id: importId, name, connectionId, kpiMappings, transformations, scheduleConfig } = v.data;
+  const {
+    id: importId,
+    name,
+    connectionId,
+    kpiMappings,
+    transformations,
+    scheduleConfig,
+    sourceQuery,
+    rowLimit,
+    queryTimeoutSeconds,
+  } = v.data;
+
+  const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+  if (denied) return denied;
 
   try {
     const existing = await firstOrUndefined(
@@ -283,12 +394,19 @@ export async function updateSavedKpiImportAction(
       if (conflict) return fail("Ya existe otra importación con ese nombre.");
     }
 
-    if (connectionId) {
-      const conn = await firstOrUndefined(
-        db.select().from(importConnectionsTable).where(eq(importConnectionsTable.id, connectionId)),
-      );
-      if (!conn) return fail("La conexión de importación especificada no existe.");
-    }
+    const conn = await firstOrUndefined(
+      db
+        .select()
+        .from(importConnectionsTable)
+        .where(eq(importConnectionsTable.id, connectionId ?? existing.connectionId)),
+    );
+    if (!conn) return fail("La conexión de importación especificada no existe.");
+
+    const sourceError = validateSqlImportSource(
+      conn.connectionType,
+      sourceQuery !== undefined ? sourceQuery : existing.sourceQuery,
+    );
+    if (sourceError) return fail(sourceError);
 
     const [updated] = await db
       .update(savedImportsTable)
@@ -298,6 +416,9 @@ export async function updateSavedKpiImportAction(
         kpiMappings: kpiMappings as any,
         transformations: transformations as any,
         scheduleConfig: scheduleConfig as any,
+        sourceQuery: sourceQuery !== undefined ? sourceQuery?.trim() || null : undefined,
+        rowLimit,
+        queryTimeoutSeconds,
         updatedAt: new Date(),
       })
       .where(eq(savedImportsTable.id, importId))
@@ -326,6 +447,9 @@ export async function deleteSavedKpiImportAction(
   const v = deleteSavedKpiImportSchema.safeParse(data);
   if (!v.success) return fail(formatZodError(v.error));
 
+  const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+  if (denied) return denied;
+
   try {
     const existing = await firstOrUndefined(
       db.select().from(savedImportsTable).where(eq(savedImportsTable.id, v.data.id)),
@@ -342,261 +466,115 @@ export async function deleteSavedKpiImportAction(
 
 /**
  * @function executeSavedKpiImportAction
- * @description Ejecuta una importación guardada (UC-201, UC-203).
- * Flujo:
- *   1) Carga import + conexión asociada.
- *   2) Decripta y parsea detalles de conexión (placeholder).
- *   3) Valida y aplica transformaciones sobre los datos extraídos (placeholder).
- *   4) Mapea columnas → campos KPI y calcula `score/color`.
- *   5) Upsert en `kpi_values` por [kpiId, periodDate].
- *   6) Actualiza `lastRunAt`.
+ * @description Ejecuta una importación guardada (UC-201, UC-203) en nombre del usuario autenticado.
+ * Con `dryRun` devuelve la vista previa de los cambios sin escribir. La ejecución se registra en
+ * `import_runs` como manual; las programadas las ejecuta el cron (ver `lib/saved-import-execution.ts`).
  * @param {z.infer<typeof executeSavedKpiImportSchema>} data
- * @param {string | null} [executorUserId=null] Permite ejecución por sistema (cron) o usuario autenticado.
- * @returns {Promise<ActionState<undefined>>}
+ * @returns {Promise<ActionState<ImportChangeSet>>} Cambios escritos (o que se escribirían, con `dryRun`).
  */
 export async function executeSavedKpiImportAction(
   data: z.infer<typeof executeSavedKpiImportSchema>,
-  executorUserId: string | null = null,
-): Promise<ActionState<undefined>> {
-  const { userId: authUserId } = await auth();
-  const actualUpdaterUserId = executorUserId || authUserId;
-  if (!actualUpdaterUserId) return fail("No autorizado. Debe iniciar sesión o proporcionar un ID de usuario ejecutor.");
+): Promise<ActionState<ImportChangeSet>> {
+  const { userId } = await auth();
+  if (!userId) return fail("No autorizado. Debe iniciar sesión.");
 
   const v = executeSavedKpiImportSchema.safeParse(data);
   if (!v.success) return fail(formatZodError(v.error));
-  const { id: importId } = v.data;
-
-  try {
-    // 1) Import + Conexión
-    const joined = await firstOrUndefined(
-      db
-        .select()
-        .from(savedImportsTable)
-        .leftJoin(importConnectionsTable, eq(savedImportsTable.connectionId, importConnectionsTable.id))
-        .where(eq(savedImportsTable.id, importId))
-        .limit(1),
-    );
-
-    // Drizzle retorna con claves por nombre de tabla (snake_case)
-    if (!joined || !joined.saved_imports) {
-      return fail("Configuración de importación de KPI guardada no encontrada.");
-    }
-
-    const savedImport = joined.saved_imports;
-    const connection = joined.import_connections;
-    if (!connection) return fail("Conexión de importación asociada no encontrada.");
-
-    // 2) Decrypt + parse de detalles (placeholder)
-    let connectionDetails: unknown = {};
-    try {
-      const decrypted = decrypt(connection.connectionDetails as unknown as string);
-      connectionDetails = JSON.parse(decrypted);
-    } catch {
-      logger.error(`No se pudieron parsear los detalles de conexión para importId=${importId}`);
-      return fail("Detalles de conexión inválidos o corruptos.");
-    }
-
-    // 3) JSONB: mapeos/transformaciones
-    const mappingsRes = z.array(KpiMappingSchema).safeParse(savedImport.kpiMappings ?? []);
-    if (!mappingsRes.success) {
-      logger.error(`Invalid KPI mappings: ${formatZodError(mappingsRes.error)}`);
-      return fail("Mapeos de KPI inválidos o corruptos en la configuración de importación.");
-    }
-    const kpiMappings: KpiMapping[] = mappingsRes.data;
-
-    const transfRes = z.array(TransformationRuleSchema).safeParse(savedImport.transformations ?? []);
-    const transformations: TransformationRule[] = transfRes.success
-      ? transfRes.data.map(r => ({ ...r, parameters: r.parameters ?? {} }))
-      : [];
-
-    // 4) Extracción (placeholder)
-    logger.info(`Simulating data extraction for connection type: ${connection.connectionType}`);
-    let rawData: Record<string, unknown>[] = [];
-    if (connection.connectionType === "Excel") {
-      rawData = [
-        { "Date": "2023-01-01T00:00:00Z", "KPI_ID": "a1", "Actual": "100", "Target": "120" },
-        { "Date": "2023-02-01T00:00:00Z", "KPI_ID": "b2", "Actual": "50", "ThresholdRed": "40" },
-      ];
-    } else if (["Microsoft SQL Server", "Oracle", "MySQL", "PostgreSQL", "Hive"].includes(connection.connectionType)) {
-      rawData = [
-        { "date_col": "2023-03-01T00:00:00Z", "kpi_id_col": "a1", "value_col": "110", "goal_col": "130" },
-        { "date_col": "2023-03-01T00:00:00Z", "kpi_id_col": "b2", "value_col": "45", "red_threshold_col": "40" },
-      ];
-    } else {
-      return fail("Tipo de conexión no soportado para la extracción de datos.");
-    }
 
-    if (rawData.length === 0) {
-      await db.update(savedImportsTable).set({ lastRunAt: new Date(), updatedAt: new Date() }).where(eq(savedImportsTable.id, importId));
-      return ok("Importación ejecutada, pero no se extrajeron datos.");
-    }
+  const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+  if (denied) return denied;
 
-    // 5) Transformaciones
-    const transformed = applyTransformations(rawData, transformations);
-    logger.info(`Applied ${transformations.length} transformations.`);
-
-    // 6) Pre-carga de KPIs
-    const kpiIdsToFetch = Array.from(new Set(kpiMappings.map(m => m.kpiId)));
-    const kpis: SelectKpi[] =
-      kpiIdsToFetch.length > 0
-        ? await db.select().from(kpisTable).where(inArray(kpisTable.id, kpiIdsToFetch))
-        : [];
-    const kpiMap = new Map<string, SelectKpi>(kpis.map(k => [k.id, k]));
-
-    // 7) Mapeo y cálculo
-    const kpiValuesToUpsert: InsertKpiValue[] = [];
-
-    // 🔧 FIX: aceptar null | undefined en el parámetro `field`
-    const getMappedValue = (
-      row: Record<string, unknown>,
-      field: { sourceField: string; defaultValue?: string | null } | null | undefined,
-    ) => {
-      if (!field) return null;
-      const v = row[field.sourceField];
-      if (v === undefined || v === null || String(v).trim() === "") {
-        return field.defaultValue ?? null;
-      }
-      return String(v);
-    };
+  return runSavedKpiImport(db, v.data.id, { executorUserId: userId, trigger: "manual", dryRun: v.data.dryRun });
+}
 
-    for (const row of transformed) {
-      for (const mapping of kpiMappings) {
-        const kpi = kpiMap.get(mapping.kpiId);
-        if (!kpi) {
-          logger.info(`KPI ${mapping.kpiId} no encontrado; fila omitida.`);
-          continue;
-        }
-
-        const rawPeriod = getMappedValue(row, mapping.periodDate);
-        if (!rawPeriod) continue;
-        const periodDate = rawPeriod.includes("T") ? rawPeriod.split("T")[0] : rawPeriod;
-        if (!/^\d{4}-\d{2}-\d{2}$/.test(periodDate)) {
-          logger.info(`Formato de fecha inválido '${periodDate}' para KPI ${mapping.kpiId}`);
-          continue;
-        }
-
-        const actualValue = getMappedValue(row, mapping.actualValue);
-        const targetValue = getMappedValue(row, mapping.targetValue);
-        const thresholdRed = getMappedValue(row, mapping.thresholdRed);
-        const thresholdYellow = getMappedValue(row, mapping.thresholdYellow);
-        const note = getMappedValue(row, mapping.note);
-
-        // Cálculo score/color (score como string)
-        let scoreStr: string | null = null;
-        let color: (typeof kpiColorEnum.enumValues)[number] | null = null;
-
-        const toNum = (s: string | null) =>
-          s != null && s.trim() !== "" && !isNaN(Number(s)) ? Number(s) : null;
-        const a = toNum(actualValue);
-        const t = toNum(targetValue);
-        const r = toNum(thresholdRed);
-        const y = toNum(thresholdYellow);
-
-        if (kpi.scoringType === "Goal/Red Flag" && a !== null) {
-          const res = calculateKpiScoreAndColor(a, t, r, y);
-          scoreStr = res.score != null ? String(res.score) : null;
-          color = res.color;
-        } else if (kpi.scoringType === "Yes/No" && a !== null) {
-          scoreStr = a === 1 ? "100" : "0";
-          color = a === 1 ? "Green" : "Red";
-        }
-
-        kpiValuesToUpsert.push({
-          kpiId: kpi.id,
-          periodDate,
-          actualValue,
-          targetValue,
-          thresholdRed,
-          thresholdYellow,
-          score: scoreStr,
-          color,
-          updatedByUserId: actualUpdaterUserId,
-          isManualEntry: false,
-          note,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        });
-      }
-    }
+/**
+ * @function inspectSimpleKpiImportFileAction
+ * @description Lee la estructura de un archivo de importación simple (UC-200): hojas disponibles,
+ * fila de encabezados detectada y sus encabezados, para que el usuario elija la hoja antes de importar.
+ * @param {z.infer<typeof simpleImportFileSchema>} data
+ * @returns {Promise<ActionState<SimpleImportFileInfo>>}
+ */
+export async function inspectSimpleKpiImportFileAction(
+  data: z.infer<typeof simpleImportFileSchema>,
+): Promise<ActionState<SimpleImportFileInfo>> {
+  const { userId } = await auth();
+  if (!userId) return fail("No autorizado. Debe iniciar sesión.");
 
-    // 8) Upsert por conflicto (kpiId, periodDate)
-    if (kpiValuesToUpsert.length > 0) {
-      await db.transaction(async (tx) => {
-        for (const v of kpiValuesToUpsert) {
-          await tx
-            .insert(kpiValuesTable)
-            .values(v)
-            .onConflictDoUpdate({
-              target: [kpiValuesTable.kpiId, kpiValuesTable.periodDate],
-              set: {
-                actualValue: v.actualValue,
-                targetValue: v.targetValue,
-                thresholdRed: v.thresholdRed,
-                thresholdYellow: v.thresholdYellow,
-                score: v.score,
-                color: v.color,
-                updatedByUserId: v.updatedByUserId,
-                isManualEntry: v.isManualEntry,
-                note: v.note,
-                updatedAt: new Date(),
-              },
-            });
-        }
-      });
-      logger.info(`Successfully processed ${kpiValuesToUpsert.length} KPI values.`);
-    } else {
-      logger.info(`No valid KPI values to insert after mapping for import ID: ${importId}.`);
-    }
+  const v = simpleImportFileSchema.safeParse(data);
+  if (!v.success) return fail(formatZodError(v.error));
 
-    // 9) lastRunAt
-    await db
-      .update(savedImportsTable)
-      .set({ lastRunAt: new Date(), updatedAt: new Date() })
-      .where(eq(savedImportsTable.id, importId));
+  const denied = await requirePermission(db, userId, "import:manage_saved_imports", v.data.organizationId);
+  if (denied) return denied;
 
-    return ok("Importación de KPI ejecutada exitosamente.");
+  try {
+    const { sheetNames, sheetName, headerRow, headers } = readSpreadsheet(
+      Buffer.from(v.data.fileContentBase64, "base64"),
+      v.data.fileName,
+      { sheetName: v.data.sheetName, headerRow: v.data.headerRow },
+    );
+    return ok("Archivo leído exitosamente.", { sheetNames, sheetName, headerRow, headers });
   } catch (e) {
-    logger.error(`Error executing saved KPI import: ${e instanceof Error ? e.message : String(e)}`);
-    return fail("Fallo al ejecutar la importación de KPI.");
+    const message = e instanceof Error ? e.message : String(e);
+    logger.warn(`Could not read simple import file ${v.data.fileName}: ${message}`);
+    return fail(`No se pudo leer el archivo: ${message}`);
   }
 }
 
 /**
  * @function uploadSimpleKpiImportAction
- * @description Importación simple desde archivo (UC-200) — **placeholder**:
- *   - Simula parseo desde `fileContentBase64`.
- *   - Enlaza KPIs por nombre dentro de una organización.
- *   - Calcula `score/color` si corresponde.
+ * @description Importación simple desde archivo (UC-200):
+ *   - Lee el archivo .xlsx, .xls o .csv (hoja elegida y fila de encabezados detectada o indicada).
+ *   - Enlaza KPIs por nombre, código externo o alias dentro de una organización e interpreta números y
+ *     fechas con formato local.
+ *   - Lleva cada fecha al inicio del período del KPI y combina las filas del mismo período según su
+ *     `aggregationType`.
+ *   - Calcula `score/color` con las reglas de la entrada manual (`evaluateKpiValueEntry`); si el archivo
+ *     no trae meta, usa la meta y los umbrales guardados del período.
+ *   - Compara con los valores guardados y escribe solo los que cambian; con `dryRun` no escribe nada.
+ *   - Devuelve un reporte con las filas omitidas y el motivo de cada una, y la diferencia de valores.
  * @param {z.infer<typeof uploadSimpleKpiImportSchema>} data
- * @returns {Promise<ActionState<undefined>>}
+ * @returns {Promise<ActionState<SimpleImportReport>>}
  */
 export async function uploadSimpleKpiImportAction(
   data: z.infer<typeof uploadSimpleKpiImportSchema>,
-): Promise<ActionState<undefined>> {
+): Promise<ActionState<SimpleImportReport>> {
   const { userId } = await auth();
   if (!userId) return fail("No autorizado. Debe iniciar sesión.");
 
   const v = uploadSimpleKpiImportSchema.safeParse(data);
   if (!v.success) return fail(formatZodError(v.error));
 
-  const { fileName, fileContentBase64, organizationId } = v.data;
+  const { fileName, fileContentBase64, organizationId, sheetName, headerRow, dryRun = false } = v.data;
 
-  try {
-    const decoded = Buffer.from(fileContentBase64, "base64").toString("utf-8");
-    logger.info(`Simulando importación simple: ${fileName} (len=${decoded.length})`);
+  const denied = await requirePermission(db, userId, "import:manage_saved_imports", organizationId);
+  if (denied) return denied;
 
-    // Datos simulados
-    const simulatedRows = [
-      { KpiName: "Ventas Mensuales", Date: "2023-01-01", Value: "1500" },
-      { KpiName: "Ventas Mensuales", Date: "2023-02-01", Value: "1600" },
-      { KpiName: "Satisfacción Cliente", Date: "2023-01-01", Value: "85", Target: "90" },
-    ];
+  let sheet: ParsedSpreadsheet;
+  try {
+    sheet = readSpreadsheet(Buffer.from(fileContentBase64, "base64"), fileName, {
+      sheetName,
+      headerRow,
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    logger.warn(`Could not read simple import file ${fileName}: ${message}`);
+    return fail(`No se pudo leer el archivo: ${message}`);
+  }
 
+  try {
     const kpisInOrg = await db
       .select({
         id: kpisTable.id,
         name: scorecardElementsTable.name,
+        externalCode: kpisTable.externalCode,
+        aliases: kpisTable.aliases,
+        dataType: kpisTable.dataType,
+        calendarFrequency: kpisTable.calendarFrequency,
+        aggregationType: kpisTable.aggregationType,
         scoringType: kpisTable.scoringType,
+        scoringDirection: kpisTable.scoringDirection,
+        scoringMethod: kpisTable.scoringMethod,
+        targetTolerance: kpisTable.targetTolerance,
       })
       .from(kpisTable)
       .leftJoin(
@@ -604,54 +582,74 @@ export async function uploadSimpleKpiImportAction(
         eq(kpisTable.scorecardElementId, scorecardElementsTable.id),
       )
       .where(eq(scorecardElementsTable.organizationId, organizationId));
+    const kpiById = new Map(kpisInOrg.map(kpi => [kpi.id, kpi]));
+    const fiscalYearStartMonth = await getFiscalYearStartMonth(db);
+
+    const { values, skippedRows } = mapSimpleImportRows(sheet, kpisInOrg);
+
+    // Inicio canónico del período y combinación de las filas del mismo KPI y período
+    const candidates: ImportCandidate[] = combineSamePeriodCandidates(
+      values.map(({ rowNumber, kpi: kpiEntry, periodDate, actualValue, targetValue }) => ({
+        rowNumber,
+        kpiName: kpiEntry.name,
+        value: {
+          kpiId: kpiEntry.id,
+          periodDate: normalizePeriodDate(periodDate, kpiEntry.calendarFrequency, fiscalYearStartMonth),
+          actualValue,
+          targetValue,
+          score: null,
+          color: null,
+          updatedByUserId: userId,
+          isManualEntry: false,
+          note: `Importado vía importación simple (${fileName})`,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      })),
+      new Map(kpisInOrg.map(kpi => [kpi.id, kpi.aggregationType])),
+    );
 
-    const kpiNameMap = new Map(kpisInOrg.map(k => [k.name, k]));
-
-    for (const row of simulatedRows) {
-      const kpiName = row.KpiName;
-      const kpiEntry = kpiNameMap.get(kpiName);
-      if (!kpiEntry) {
-        logger.info(`KPI '${kpiName}' no encontrado en org ${organizationId}; fila omitida.`);
-        continue;
-      }
-
-      const periodRaw = row.Date;
-      const periodDate = periodRaw.includes("T") ? periodRaw.split("T")[0] : periodRaw;
-      if (!/^\d{4}-\d{2}-\d{2}$/.test(periodDate)) {
-        logger.info(`Formato de fecha inválido '${row.Date}' para KPI '${kpiName}'.`);
-        continue;
-      }
-
-      const actualValue = row.Value ?? null;
-      const targetValue = row.Target ?? null;
-
-      let scoreStr: string | null = null;
-      let color: (typeof kpiColorEnum.enumValues)[number] | null = null;
-
-      if (kpiEntry.scoringType === "Goal/Red Flag" && actualValue && targetValue) {
-        const a = Number(actualValue);
-        const t = Number(targetValue);
-        if (!Number.isNaN(a) && !Number.isNaN(t)) {
-          const res = calculateKpiScoreAndColor(a, t, null, null);
-          scoreStr = res.score != null ? String(res.score) : null;
-          color = res.color;
-        }
+    // Puntuación sobre el valor combinado; sin meta en el archivo se usan la meta y los umbrales guardados
+    const existingValues = await loadExistingKpiValues(db, candidates.map(c => c.value));
+    for (const { value } of candidates) {
+      const stored = existingValues.get(kpiValueKey(value.kpiId, value.periodDate));
+      value.targetValue = value.targetValue ?? stored?.targetValue ?? null;
+      const evaluation = evaluateKpiValueEntry(
+        kpiById.get(value.kpiId)!,
+        {
+          actualValue: value.actualValue,
+          targetValue: value.targetValue,
+          thresholdRed: stored?.thresholdRed,
+          thresholdYellow: stored?.thresholdYellow,
+        },
+        false,
+      );
+      if (evaluation.isSuccess) {
+        value.score = evaluation.score != null ? String(evaluation.score) : null;
+        value.color = evaluation.color;
       }
+    }
 
-      const vToUpsert: InsertKpiValue = {
-        kpiId: kpiEntry.id,
-        periodDate,
-        actualValue,
-        targetValue,
-        score: scoreStr,
-        color,
-        updatedByUserId: userId,
-        isManualEntry: false,
-        note: `Importado vía importación simple (${fileName})`,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+    const { changeSet, valuesToWrite } = buildImportChangeSet(candidates, skippedRows, existingValues, dryRun);
+    const report: SimpleImportReport = {
+      sheetNames: sheet.sheetNames,
+      sheetName: sheet.sheetName,
+      headerRow: sheet.headerRow,
+      headers: sheet.headers,
+      totalRows: sheet.rows.length,
+      importedCount: 0,
+      skippedRows,
+      changes: changeSet,
+    };
+    if (dryRun) {
+      return ok(
+        `Vista previa generada: ${changeSet.insertCount} inserciones, ${changeSet.updateCount} actualizaciones y ${changeSet.skipCount} filas omitidas.`,
+        report,
+      );
+    }
 
+    const written: { kpiId: string; periodDate: string }[] = [];
+    for (const vToUpsert of valuesToWrite) {
       await db
         .insert(kpiValuesTable)
         .values(vToUpsert)
@@ -667,9 +665,22 @@ export async function uploadSimpleKpiImportAction(
             updatedAt: new Date(),
           },
         });
+      written.push({ kpiId: vToUpsert.kpiId, periodDate: vToUpsert.periodDate });
     }
 
-    return ok("Importación simple de KPI procesada exitosamente.");
+    await recalculateDependentsOfImportedValues(db, written, userId);
+
+    report.importedCount = written.length;
+    logger.info(
+      `Simple import ${fileName} (sheet "${sheet.sheetName}"): ${written.length} value(s) imported, ${skippedRows.length} row(s) skipped.`,
+    );
+
+    return ok(
+      skippedRows.length > 0
+        ? `Importación simple procesada: ${written.length} valores importados y ${skippedRows.length} filas omitidas.`
+        : `Importación simple procesada: ${written.length} valores importados.`,
+      report,
+    );
   } catch (e) {
     logger.error(`Error uploading simple KPI import: ${e instanceof Error ? e.message : String(e)}`);
     return fail("Fallo al procesar la importación simple.");
@@ -691,6 +702,9 @@ export async function scheduleKpiImportAction(
   const v = scheduleKpiImportSchema.safeParse(data);
   if (!v.success) return fail(formatZodError(v.error));
 
+  const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+  if (denied) return denied;
+
   try {
     const exists = await firstOrUndefined(
       db.select().from(savedImportsTable).where(eq(savedImportsTable.id, v.data.id)),
@@ -725,6 +739,9 @@ export async function unscheduleKpiImportAction(
   const v = unscheduleKpiImportSchema.safeParse(data);
   if (!v.success) return fail(formatZodError(v.error));
 
+  const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+  if (denied) return denied;
+
   try {
     const exists = await firstOrUndefined(
       db.select().from(savedImportsTable).where(eq(savedImportsTable.id, v.data.id)),
@@ -754,6 +771,9 @@ export async function getAllSavedKpiImportsAction(): Promise<ActionState<SelectS
   if (!userId) return fail("No autorizado. Debe iniciar sesión.");
 
   try {
+    const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+    if (denied) return denied;
+
     const rows = await db.select().from(savedImportsTable);
     return ok("Importaciones de KPI guardadas obtenidas exitosamente.", rows);
   } catch (e) {
@@ -4,7 +4,8 @@
  * @description Este archivo contiene funciones del lado del servidor para crear, obtener,
  * actualizar, eliminar y probar conexiones a fuentes de datos externas. Las credenciales
  * sensibles se cifran antes de ser almacenadas y se descifran al ser recuperadas.
- * Se requiere autenticación para todas las operaciones.
+ * Se requiere autenticación para todas las operaciones, y el permiso `import:manage_connections`
+ * para crear, actualizar, eliminar o probar conexiones.
  */
 
 "use server";
@@ -23,6 +24,9 @@ import { and, eq } from "drizzle-orm";
 import { z } from "zod";
 import { getLogger } from "@/lib/logger";
 import { encrypt, decrypt } from "@/lib/encryption";
+import { isSqlImportConnectionType, testSqlConnection } from "@/lib/sql-extraction";
+import { SqlConnectionDetailsSchema } from "@/types/import-types";
+import { requirePermission } from "@/lib/authorization";
 
 const logger = getLogger("import-connections-actions");
 
@@ -145,6 +149,9 @@ export async function createImportConnectionAction(
     return fail(errorMessage);
   }
 
+  const denied = await requirePermission(db, userId, "import:manage_connections");
+  if (denied) return denied;
+
   try {
     // Verificar si ya existe una conexión con el mismo nombre para asegurar unicidad
     const existingConnection = await firstOrUndefined(
@@ -291,6 +298,9 @@ export async function updateImportConnectionAction(
     return fail(errorMessage);
   }
 
+  const denied = await requirePermission(db, userId, "import:manage_connections");
+  if (denied) return denied;
+
   try {
     const { id: connectionId, ...updateData } = validatedPayload.data;
 
@@ -351,6 +361,9 @@ export async function deleteImportConnectionAction(id: string): Promise<ActionSt
     return fail(errorMessage);
   }
 
+  const denied = await requirePermission(db, userId, "import:manage_connections");
+  if (denied) return denied;
+
   try {
     const [deletedConnection] = await db
       .delete(importConnectionsTable)
@@ -377,10 +390,11 @@ export async function deleteImportConnectionAction(id: string): Promise<ActionSt
  * @function testImportConnectionAction
  * @description Prueba una conexión de importación, verificando la validez de los detalles de conexión.
  *
- * @important Para esta fase inicial, esta función realiza una validación de formato (ej., si connectionDetails es un JSON válido)
- * y una simulación. NO establece una conexión real a bases de datos externas. La integración con
- * controladores de bases de datos y manejo de errores específico para cada tipo de fuente (SQL Server, Oracle, etc.)
- * es una tarea compleja que excede el alcance de un paso atómico.
+ * Para PostgreSQL y MySQL abre una conexión real y ejecuta `SELECT 1`.
+ *
+ * @important Para los demás tipos, esta función realiza una validación de formato (ej., si connectionDetails es un JSON válido)
+ * y una simulación. NO establece una conexión real. La integración con los controladores de
+ * SQL Server, Oracle y Hive queda pendiente.
  *
  * @param {z.infer<typeof testImportConnectionSchema>} data - Objeto con el tipo y los detalles de conexión a probar.
  * @returns {Promise<ActionState<undefined>>} Objeto ActionState indicando el éxito o un mensaje de error.
@@ -401,6 +415,9 @@ export async function testImportConnectionAction(
     return fail(errorMessage);
   }
 
+  const denied = await requirePermission(db, userId, "import:manage_connections");
+  if (denied) return denied;
+
   const { connectionType, connectionDetails } = validatedData.data;
 
   try {
@@ -413,13 +430,31 @@ export async function testImportConnectionAction(
       return fail("Los detalles de conexión tienen un formato JSON inválido.");
     }
 
+    if (isSqlImportConnectionType(connectionType)) {
+      const details = SqlConnectionDetailsSchema.safeParse(parsedDetails);
+      if (!details.success) {
+        return fail(
+          `Faltan detalles esenciales para la conexión a la base de datos: ${details.error.errors
+            .map((e) => e.message)
+            .join(", ")}`,
+        );
+      }
+      try {
+        await testSqlConnection(connectionType, details.data);
+      } catch (connectionError) {
+        const message = connectionError instanceof Error ? connectionError.message : String(connectionError);
+        logger.warn(`Connection test failed for type "${connectionType}": ${message}`);
+        return fail(`No se pudo conectar a la base de datos: ${message}`);
+      }
+      logger.info(`Connection test for type "${connectionType}" successful for user ${userId}.`);
+      return ok("Conexión probada exitosamente.");
+    }
+
     // Aquí se podría añadir lógica específica para cada tipo de conexión
     // Por ejemplo, verificar que ciertos campos existan para un tipo de DB
     switch (connectionType) {
       case "Microsoft SQL Server":
       case "Oracle":
-      case "MySQL":
-      case "PostgreSQL":
       case "Hive":
         if (!parsedDetails.host || !parsedDetails.port || !parsedDetails.user || !parsedDetails.database) {
           return fail("Faltan detalles esenciales para la conexión a la base de datos (host, port, user, database).");
@@ -0,0 +1,207 @@
+/**
+ * @file actions/db/import-run-actions.ts
+ * @brief Implementa Server Actions para el historial de ejecuciones de importaciones de KPI.
+ * @description Este archivo contiene funciones del lado del servidor para listar las ejecuciones
+ * de una importación guardada (origen, estado, conteos y filas rechazadas) y revertir una
+ * ejecución: cada valor que escribió vuelve a su valor anterior o se elimina si la ejecución lo
+ * creó. Los valores modificados después de la ejecución se conservan y se informan. Revertir exige
+ * el permiso `import:manage_saved_imports`.
+ */
+
+"use server";
+
+import { db } from "@/db/db";
+import {
+  importRunChangesTable,
+  importRunsTable,
+  kpiValuesTable,
+  SelectImportRun,
+} from "@/db/schema";
+import { ActionState, ok, fail, ImportRunRollbackResult } from "@/types";
+import { auth } from "@clerk/nextjs/server";
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { getLogger } from "@/lib/logger";
+import { loadExistingKpiValues } from "@/lib/import-preview";
+import { planImportRunRollback } from "@/lib/import-runs";
+import { buildKpiDependencyGraph } from "@/lib/kpi-dependency-graph";
+import { loadKpiGraphNodes, propagateKpiValueChanges } from "@/lib/kpi-calculation-engine";
+import { requirePermission } from "@/lib/authorization";
+
+const logger = getLogger("import-run-actions");
+
+// Ejecuciones listadas por importación
+const IMPORT_RUN_HISTORY_LIMIT = 50;
+
+/* -------------------------------------------------------------------------- */
+/*                               Utilidades locales                           */
+/* -------------------------------------------------------------------------- */
+
+/** Formatea mensajes de error de Zod de forma tipada. */
+function formatZodError(err: z.ZodError): string {
+  return err.errors.map((e) => e.message).join(", ");
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Esquemas de Validación                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * @schema rollbackImportRunSchema
+ * @description Esquema de validación para revertir una ejecución.
+ * @property {string} id - ID de la ejecución a revertir.
+ */
+const rollbackImportRunSchema = z.object({
+  id: z.string().uuid("ID de ejecución inválido."),
+});
+
+/* -------------------------------------------------------------------------- */
+/*                                  Acciones                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * @function getImportRunsAction
+ * @description Obtiene las ejecuciones más recientes de una importación guardada.
+ * @param {string} savedImportId - ID de la importación guardada.
+ * @returns {Promise<ActionState<SelectImportRun[]>>} Ejecuciones, de la más reciente a la más antigua.
+ */
+export async function getImportRunsAction(
+  savedImportId: string,
+): Promise<ActionState<SelectImportRun[]>> {
+  const { userId } = await auth();
+  if (!userId) return fail("No autorizado. Debe iniciar sesión.");
+
+  const v = z.string().uuid("ID de importación inválido.").safeParse(savedImportId);
+  if (!v.success) return fail(formatZodError(v.error));
+
+  try {
+    const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+    if (denied) return denied;
+
+
+    const runs = await db
+      .select()
+      .from(importRunsTable)
+      .where(eq(importRunsTable.savedImportId, v.data))
+      .orderBy(desc(importRunsTable.startedAt))
+      .limit(IMPORT_RUN_HISTORY_LIMIT);
+    return ok("Historial de ejecuciones obtenido exitosamente.", runs);
+  } catch (e) {
+    logger.error(`Error retrieving import runs: ${e instanceof Error ? e.message : String(e)}`);
+    return fail("Fallo al obtener el historial de ejecuciones.");
+  }
+}
+
+/**
+ * @function rollbackImportRunAction
+ * @description Revierte una ejecución terminada: restaura el valor anterior de cada KPI y período
+ * que escribió o lo elimina si la ejecución lo creó, y recalcula los KPIs calculados dependientes
+ * y los rollups. Los valores que cambiaron después de la ejecución no se tocan y se devuelven como
+ * conflictos. La ejecución queda en estado "rolled_back".
+ * @param {z.infer<typeof rollbackImportRunSchema>} data - ID de la ejecución.
+ * @returns {Promise<ActionState<ImportRunRollbackResult>>} Valores restaurados, eliminados y en conflicto.
+ */
+export async function rollbackImportRunAction(
+  data: z.infer<typeof rollbackImportRunSchema>,
+): Promise<ActionState<ImportRunRollbackResult>> {
+  const { userId } = await auth();
+  if (!userId) return fail("No autorizado. Debe iniciar sesión.");
+
+  const v = rollbackImportRunSchema.safeParse(data);
+  if (!v.success) return fail(formatZodError(v.error));
+
+  const denied = await requirePermission(db, userId, "import:manage_saved_imports");
+  if (denied) return denied;
+
+  try {
+    const [run] = await db
+      .select()
+      .from(importRunsTable)
+      .where(eq(importRunsTable.id, v.data.id))
+      .limit(1);
+    if (!run) return fail("Ejecución de importación no encontrada.");
+    if (run.status !== "succeeded") {
+      return fail("Solo se pueden revertir ejecuciones terminadas exitosamente que no se hayan revertido.");
+    }
+
+    // La ejecución se reclama dentro de la transacción: el cambio de estado solo aplica si sigue
+    // "succeeded", así que de dos reversiones concurrentes solo una continúa, y el plan se arma con
+    // los valores vigentes tras reclamarla.
+    const plan = await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(importRunsTable)
+        .set({ status: "rolled_back", rolledBackAt: new Date(), rolledBackByUserId: userId, updatedAt: new Date() })
+        .where(and(eq(importRunsTable.id, run.id), eq(importRunsTable.status, "succeeded")))
+        .returning({ id: importRunsTable.id });
+      if (!claimed) return null;
+
+      const changes = await tx
+        .select()
+        .from(importRunChangesTable)
+        .where(eq(importRunChangesTable.runId, run.id));
+      const currentValues = await loadExistingKpiValues(tx, changes);
+      const rollbackPlan = planImportRunRollback(changes, currentValues);
+
+      for (const change of rollbackPlan.restore) {
+        await tx
+          .update(kpiValuesTable)
+          .set({ ...change.previousValue!, updatedAt: new Date() })
+          .where(
+            and(
+              eq(kpiValuesTable.kpiId, change.kpiId),
+              eq(kpiValuesTable.periodDate, change.periodDate),
+            ),
+          );
+      }
+      for (const change of rollbackPlan.remove) {
+        await tx
+          .delete(kpiValuesTable)
+          .where(
+            and(
+              eq(kpiValuesTable.kpiId, change.kpiId),
+              eq(kpiValuesTable.periodDate, change.periodDate),
+            ),
+          );
+      }
+      return rollbackPlan;
+    });
+    if (!plan) {
+      return fail("Solo se pueden revertir ejecuciones terminadas exitosamente que no se hayan revertido.");
+    }
+
+    // Recalcular dependientes de los valores revertidos, período a período
+    const reverted = [...plan.restore, ...plan.remove];
+    if (reverted.length > 0) {
+      try {
+        const kpiIdsByPeriod = new Map<string, Set<string>>();
+        for (const { kpiId, periodDate } of reverted) {
+          if (!kpiIdsByPeriod.has(periodDate)) kpiIdsByPeriod.set(periodDate, new Set());
+          kpiIdsByPeriod.get(periodDate)!.add(kpiId);
+        }
+        const graph = buildKpiDependencyGraph(await loadKpiGraphNodes(db));
+        for (const [periodDate, kpiIds] of kpiIdsByPeriod) {
+          await propagateKpiValueChanges(db, [...kpiIds], periodDate, userId, { graph });
+        }
+      } catch (e) {
+        logger.error(`Error recalculating dependent KPIs after rollback: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    if (plan.conflicts.length > 0) {
+      logger.warn(`Import run ${run.id} rolled back with ${plan.conflicts.length} values kept because they changed after the run.`);
+    }
+    return ok(
+      plan.conflicts.length > 0
+        ? `Ejecución revertida. ${plan.conflicts.length} valor(es) cambiaron después de la ejecución y se conservaron.`
+        : "Ejecución revertida exitosamente.",
+      {
+        restoredCount: plan.restore.length,
+        removedCount: plan.remove.length,
+        conflicts: plan.conflicts.map(({ kpiId, periodDate }) => ({ kpiId, periodDate })),
+      },
+    );
+  } catch (e) {
+    logger.error(`Error rolling back import run: ${e instanceof Error ? e.message : String(e)}`);
+    return fail("Fallo al revertir la ejecución de importación.");
+  }
+}
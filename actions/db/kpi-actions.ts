@@ -7,36 +7,67 @@
  * También incluye la lógica para habilitar/deshabilitar la funcionalidad de rollup para KPIs,
  * ajustando los campos de actualización relacionados.
  * Asegura la validación de datos, la consistencia lógica y la protección de accesos no autorizados.
+ * Las acciones que modifican KPIs exigen el permiso `kpi:manage` sobre la organización del KPI.
+ * Los Updaters de un KPI pueden ser usuarios o grupos; los miembros de un grupo se resuelven al
+ * consultar (ver `lib/kpi-updaters.ts`).
  */
 "use server";
 
 import { db } from "@/db/db";
 import {
   InsertKpi,
+  InsertKpiGroupUpdater,
   InsertKpiUpdater,
-  InsertKpiValue,    
+  InsertScorecardElementGroupUpdater,
+  groupsTable,
   kpisTable,
   kpiScoringTypeEnum,
   kpiCalendarFrequencyEnum,
   kpiDataTypeEnum,
   kpiAggregationTypeEnum,
+  kpiScoringDirectionEnum,
+  kpiScoringMethodEnum,
+  kpiGroupUpdatersTable,
   kpiUpdatersTable,
   kpiValuesTable,
+  organizationsTable,
+  scorecardElementGroupUpdatersTable,
   scorecardElementsTable,
   SelectKpi,
+  SelectKpiGroupUpdater,
   SelectKpiValue,
   SelectScorecardElement,
-  kpiColorEnum,
-  SelectAppSetting, // Para futuras referencias si se necesita leer configuraciones de la app aquí
-  appSettingsTable, // Para futuras referencias
+  SelectScorecardElementGroupUpdater,
 } from "@/db/schema";
-import { ActionState, ok, fail } from "@/types";
+import { ActionState, ok, fail, KpiToUpdate, AliasesSchema, ExternalCodeSchema } from "@/types";
 import { auth } from "@clerk/nextjs/server";
-import { and, eq, isNull, ne } from "drizzle-orm";
+import { and, desc, eq, inArray, isNull, lte, ne } from "drizzle-orm";
 import { z } from "zod";
 import { getLogger } from "@/lib/logger";
-import { calculateKpiScoreAndColor } from "@/lib/kpi-scoring"; // Módulo compartido sin "use server"
-import { extractKpiReferences } from "@/lib/kpi-calculation-engine"; // Nueva importación para el motor de cálculo
+import {
+  extractKpiReferences,
+  calculateKpiValueForPeriod,
+  resolveKpiReferenceIds,
+  loadKpiGraphNodes,
+  propagateKpiValueChanges,
+  recalculateKpiForAllPeriods,
+  recalculateKpiRollupForAllPeriods,
+  rescoreKpiValues,
+  KpiCalculationResult,
+} from "@/lib/kpi-calculation-engine"; // Nueva importación para el motor de cálculo
+import { buildKpiDependencyGraph, findKpiDependencyCycle } from "@/lib/kpi-dependency-graph";
+import { formatFormulaError, parseFormula } from "@/lib/formula-evaluator";
+import { getFiscalYearStartMonth, normalizePeriodDate } from "@/lib/period-utils";
+import { isExternalCodeInUse } from "@/lib/external-codes";
+import { evaluateKpiValueEntry, isNoteRequiredForRedKpi, upsertKpiValue } from "@/lib/kpi-value-entry";
+import {
+  getKpiOrganizationId,
+  getScorecardElementOrganizationId,
+  loadOrganizationVisibility,
+  requireOrganizationVisibility,
+  requirePermission,
+} from "@/lib/authorization";
+import { getKpiUpdaterAccess, getUpdatableKpiIds, resolveUpdaterThresholds } from "@/lib/kpi-updaters";
 
 const logger = getLogger("kpi-actions");
 
@@ -50,6 +81,28 @@ async function firstOrUndefined<T>(q: Promise<T[]>): Promise<T | undefined> {
 type KpiDataType = (typeof kpiDataTypeEnum.enumValues)[number];
 const numericDataTypes = new Set<KpiDataType>(["Number", "Percentage", "Currency"]);
 
+/**
+ * Refinamiento Zod que valida la sintaxis de una ecuación de cálculo con el evaluador seguro,
+ * reportando el mensaje de error con su posición.
+ */
+const refineCalculationEquation = (value: string, ctx: z.RefinementCtx) => {
+  if (!value) return;
+  const parsed = parseFormula(value);
+  if (!parsed.isSuccess) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Ecuación inválida: ${formatFormulaError(parsed.error)}` });
+  }
+};
+
+/**
+ * @schema targetToleranceSchema
+ * @description Tolerancia alrededor del objetivo: número no negativo almacenado como decimal (texto).
+ */
+const targetToleranceSchema = z
+  .string()
+  .refine((v) => v.trim() !== "" && !isNaN(Number(v)) && Number(v) >= 0, {
+    message: "La tolerancia debe ser un número no negativo.",
+  });
+
 /**
  * @schema createKpiSchema
  * @description Esquema de validación para la creación de un nuevo KPI.
@@ -62,6 +115,11 @@ const numericDataTypes = new Set<KpiDataType>(["Number", "Percentage", "Currency
  * @property {boolean} isManualUpdate - Indica si se actualiza manualmente, por defecto false.
  * @property {string | null} calculationEquation - Ecuación de cálculo para KPIs automáticos, opcional.
  * @property {boolean} rollupEnabled - Habilita el rollup desde organizaciones hijas, por defecto false.
+ * @property {z.infer<typeof kpiScoringDirectionEnum>} scoringDirection - Sentido de la puntuación, por defecto 'Higher is Better'.
+ * @property {z.infer<typeof kpiScoringMethodEnum>} scoringMethod - Puntuación por tramos o interpolada, por defecto 'Stepped'.
+ * @property {string | null} targetTolerance - Banda de tolerancia alrededor del objetivo (modo 'Closer to Target'), opcional.
+ * @property {string | null} externalCode - Código del KPI en los sistemas de origen, opcional y único.
+ * @property {string[]} aliases - Otros nombres con los que se conoce el KPI en importaciones y ecuaciones, opcional.
  */
 const createKpiSchema = z
   .object({
@@ -88,9 +146,23 @@ const createKpiSchema = z
     calculationEquation: z
       .string()
       .max(1000, "La ecuación no puede exceder los 1000 caracteres.")
+      .superRefine(refineCalculationEquation)
       .optional()
       .nullable(),
     rollupEnabled: z.boolean().default(false),
+    scoringDirection: z
+      .enum(kpiScoringDirectionEnum.enumValues, {
+        errorMap: () => ({ message: "Sentido de puntuación de KPI inválido." }),
+      })
+      .default("Higher is Better"),
+    scoringMethod: z
+      .enum(kpiScoringMethodEnum.enumValues, {
+        errorMap: () => ({ message: "Método de puntuación de KPI inválido." }),
+      })
+      .default("Stepped"),
+    targetTolerance: targetToleranceSchema.optional().nullable(),
+    externalCode: ExternalCodeSchema.optional().nullable(),
+    aliases: AliasesSchema.optional(),
   })
   .refine(
     (data) => {
@@ -127,6 +199,11 @@ const createKpiSchema = z
  * @property {boolean} isManualUpdate - Indica si se actualiza manualmente, opcional.
  * @property {string | null} calculationEquation - Ecuación de cálculo para KPIs automáticos, opcional.
  * @property {boolean} rollupEnabled - Habilita el rollup desde organizaciones hijas, opcional.
+ * @property {z.infer<typeof kpiScoringDirectionEnum>} scoringDirection - Sentido de la puntuación, opcional.
+ * @property {z.infer<typeof kpiScoringMethodEnum>} scoringMethod - Puntuación por tramos o interpolada, opcional.
+ * @property {string | null} targetTolerance - Banda de tolerancia alrededor del objetivo, opcional.
+ * @property {string | null} externalCode - Código del KPI en los sistemas de origen, opcional y único.
+ * @property {string[]} aliases - Otros nombres con los que se conoce el KPI, opcional.
  */
 const updateKpiConfigurationSchema = z
   .object({
@@ -161,9 +238,23 @@ const updateKpiConfigurationSchema = z
     calculationEquation: z
       .string()
       .max(1000, "La ecuación no puede exceder los 1000 caracteres.")
+      .superRefine(refineCalculationEquation)
       .optional()
       .nullable(),
     rollupEnabled: z.boolean().optional(),
+    scoringDirection: z
+      .enum(kpiScoringDirectionEnum.enumValues, {
+        errorMap: () => ({ message: "Sentido de puntuación de KPI inválido." }),
+      })
+      .optional(),
+    scoringMethod: z
+      .enum(kpiScoringMethodEnum.enumValues, {
+        errorMap: () => ({ message: "Método de puntuación de KPI inválido." }),
+      })
+      .optional(),
+    targetTolerance: targetToleranceSchema.optional().nullable(),
+    externalCode: ExternalCodeSchema.optional().nullable(),
+    aliases: AliasesSchema.optional(),
   })
   .refine(
     (data) => {
@@ -239,6 +330,44 @@ const assignKpiUpdatersSchema = z.object({
   canModifyThresholds: z.boolean().default(false).optional(),
 });
 
+/**
+ * @schema assignKpiGroupUpdatersSchema
+ * @description Esquema de validación para asignar un grupo como "Updater" de un KPI o de todos los KPIs
+ * bajo un elemento de Scorecard.
+ * @property {string} groupId - ID del grupo, UUID requerido.
+ * @property {string} [kpiId] - ID del KPI; excluyente con `scorecardElementId`.
+ * @property {string} [scorecardElementId] - ID del elemento raíz; el grupo actualiza sus KPIs y los de sus descendientes.
+ * @property {boolean} canModifyThresholds - Indica si los miembros pueden modificar los umbrales, por defecto false.
+ */
+const assignKpiGroupUpdatersSchema = z
+  .object({
+    groupId: z.string().uuid("ID de grupo inválido."),
+    kpiId: z.string().uuid("ID de KPI inválido.").optional(),
+    scorecardElementId: z.string().uuid("ID de elemento de Scorecard inválido.").optional(),
+    canModifyThresholds: z.boolean().default(false).optional(),
+  })
+  .refine((data) => !!data.kpiId !== !!data.scorecardElementId, {
+    message: "Indique un KPI o un elemento de Scorecard, pero no ambos.",
+  });
+
+/**
+ * @schema removeKpiGroupUpdaterSchema
+ * @description Esquema de validación para quitar un grupo de los "Updaters" de un KPI.
+ */
+const removeKpiGroupUpdaterSchema = z.object({
+  kpiId: z.string().uuid("ID de KPI inválido."),
+  groupId: z.string().uuid("ID de grupo inválido."),
+});
+
+/**
+ * @schema removeScorecardElementGroupUpdaterSchema
+ * @description Esquema de validación para quitar un grupo de los "Updaters" de un elemento de Scorecard.
+ */
+const removeScorecardElementGroupUpdaterSchema = z.object({
+  scorecardElementId: z.string().uuid("ID de elemento de Scorecard inválido."),
+  groupId: z.string().uuid("ID de grupo inválido."),
+});
+
 /**
  * @schema updateKpiManualValueSchema
  * @description Esquema de validación para la actualización manual de un valor de KPI.
@@ -277,6 +406,17 @@ const setKpiCalculationEquationSchema = z.object({
     .nullable(),
 });
 
+/**
+ * @schema calculateKpiValueSchema
+ * @description Esquema de validación para calcular el valor de un KPI calculado en un período.
+ * @property {string} kpiId - ID del KPI calculado, UUID requerido.
+ * @property {string} periodDate - Fecha del período (YYYY-MM-DD), requerida.
+ */
+const calculateKpiValueSchema = z.object({
+  kpiId: z.string().uuid("ID de KPI inválido."),
+  periodDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido. Use YYYY-MM-DD."),
+});
+
 /**
  * @schema enableKpiRollupSchema
  * @description Esquema de validación para habilitar/deshabilitar la funcionalidad de rollup en un KPI (UC-501).
@@ -313,6 +453,8 @@ export async function createKpiAction(
   const sanitizedData = {
     ...data,
     calculationEquation: data.calculationEquation === "" ? null : data.calculationEquation,
+    targetTolerance: data.targetTolerance === "" ? null : data.targetTolerance,
+    externalCode: data.externalCode === "" ? null : data.externalCode,
   };
 
   const validatedData = createKpiSchema.safeParse(sanitizedData);
@@ -323,6 +465,14 @@ export async function createKpiAction(
   }
 
   try {
+    const denied = await requirePermission(
+      db,
+      userId,
+      "kpi:manage",
+      await getScorecardElementOrganizationId(db, validatedData.data.scorecardElementId),
+    );
+    if (denied) return denied;
+
     // Verificar que el scorecardElementId existe y es de tipo 'KPI'
     const existingScorecardElement: SelectScorecardElement | undefined = await firstOrUndefined(
       db
@@ -358,6 +508,11 @@ export async function createKpiAction(
       return fail("Ya existe un KPI asociado a este elemento de Scorecard.");
     }
 
+    const { externalCode } = validatedData.data;
+    if (externalCode && (await isExternalCodeInUse(db, "kpi", externalCode))) {
+      return fail(`Ya existe un KPI con el código externo "${externalCode}".`);
+    }
+
     const newKpi: InsertKpi = {
       ...validatedData.data,
       // Default values for createdAt and updatedAt are handled by the DB schema
@@ -399,6 +554,12 @@ export async function getKpiAction(id: string): Promise<ActionState<SelectKpi>>
   }
 
   try {
+    const organizationId = await getKpiOrganizationId(db, validatedId.data.id);
+    if (organizationId) {
+      const denied = await requireOrganizationVisibility(db, userId, organizationId);
+      if (denied) return denied;
+    }
+
     const kpi = await firstOrUndefined(db.select().from(kpisTable).where(eq(kpisTable.id, validatedId.data.id)));
 
     if (!kpi) {
@@ -438,6 +599,12 @@ export async function getKpiValueForPeriodAction(
   }
 
   try {
+    const organizationId = await getKpiOrganizationId(db, validated.data.kpiId);
+    if (organizationId) {
+      const denied = await requireOrganizationVisibility(db, userId, organizationId);
+      if (denied) return denied;
+    }
+
     const row = await firstOrUndefined(
       db
         .select()
@@ -484,6 +651,8 @@ export async function updateKpiConfigurationAction(
   const sanitizedData = {
     ...data,
     calculationEquation: data.calculationEquation === "" ? null : data.calculationEquation,
+    targetTolerance: data.targetTolerance === "" ? null : data.targetTolerance,
+    externalCode: data.externalCode === "" ? null : data.externalCode,
   };
 
   const validatedPayload = updateKpiConfigurationSchema.safeParse({ id, ...sanitizedData });
@@ -496,6 +665,21 @@ export async function updateKpiConfigurationAction(
   const { id: kpiId, ...updateData } = validatedPayload.data;
 
   try {
+    const denied = await requirePermission(
+      db,
+      userId,
+      "kpi:manage",
+      await getKpiOrganizationId(db, validatedPayload.data.id),
+    );
+    if (denied) return denied;
+
+    if (
+      updateData.externalCode &&
+      (await isExternalCodeInUse(db, "kpi", updateData.externalCode, kpiId))
+    ) {
+      return fail(`Ya existe otro KPI con el código externo "${updateData.externalCode}".`);
+    }
+
     const [updatedKpi] = await db
       .update(kpisTable)
       .set({ ...updateData, updatedAt: new Date() })
@@ -507,6 +691,23 @@ export async function updateKpiConfigurationAction(
       return fail("Fallo al actualizar la configuración del KPI.");
     }
 
+    // Si cambió la configuración de puntuación, recalcular score y color de los valores existentes
+    const scoringChanged =
+      updateData.scoringType !== undefined ||
+      updateData.scoringDirection !== undefined ||
+      updateData.scoringMethod !== undefined ||
+      updateData.targetTolerance !== undefined;
+    if (scoringChanged) {
+      try {
+        await rescoreKpiValues(db, kpiId);
+      } catch (rescoreError) {
+        logger.error(
+          `Error rescoring KPI values after configuration update: ${rescoreError instanceof Error ? rescoreError.message : String(rescoreError)}`,
+          { kpiId },
+        );
+      }
+    }
+
     logger.info("KPI configuration updated successfully.", { kpiId: updatedKpi.id });
     return ok("Configuración de KPI actualizada exitosamente.", updatedKpi);
   } catch (error) {
@@ -541,6 +742,14 @@ export async function deleteKpiAction(id: string): Promise<ActionState<undefined
   }
 
   try {
+    const denied = await requirePermission(
+      db,
+      userId,
+      "kpi:manage",
+      await getKpiOrganizationId(db, validatedId.data.id),
+    );
+    if (denied) return denied;
+
     const [deletedKpi] = await db.delete(kpisTable).where(eq(kpisTable.id, validatedId.data.id)).returning();
 
     if (!deletedKpi) {
@@ -588,6 +797,14 @@ export async function assignScorecardElementOwnersAction(
   }
 
   try {
+    const denied = await requirePermission(
+      db,
+      userId,
+      "scorecard_element:manage",
+      await getScorecardElementOrganizationId(db, validatedData.data.scorecardElementId),
+    );
+    if (denied) return denied;
+
     const [updatedElement] = await db
       .update(scorecardElementsTable)
       .set({ ownerUserId: validatedData.data.ownerUserId, updatedAt: new Date() })
@@ -637,6 +854,14 @@ export async function assignKpiUpdatersAction(
   }
 
   try {
+    const denied = await requirePermission(
+      db,
+      currentAuthUserId,
+      "kpi:manage",
+      await getKpiOrganizationId(db, validatedData.data.kpiId),
+    );
+    if (denied) return denied;
+
     // Verify KPI exists
     const existingKpi = await firstOrUndefined(
       db.select().from(kpisTable).where(eq(kpisTable.id, validatedData.data.kpiId)),
@@ -684,17 +909,295 @@ export async function assignKpiUpdatersAction(
   }
 }
 
+/**
+ * @function assignKpiGroupUpdatersAction
+ * @description Asigna un grupo como "Updater" de un KPI o de todos los KPIs bajo un elemento de Scorecard
+ * (el elemento y sus descendientes). La asignación a un elemento se guarda como tal y sus KPIs se resuelven
+ * al consultar, al igual que los miembros del grupo, por lo que los KPIs creados después y los cambios en el
+ * grupo aplican sin reasignar. Si el grupo ya está asignado, actualiza `canModifyThresholds`.
+ * @param {z.infer<typeof assignKpiGroupUpdatersSchema>} data - Grupo y KPI o elemento de Scorecard.
+ * @returns {Promise<ActionState<SelectKpiGroupUpdater | SelectScorecardElementGroupUpdater>>} La asignación creada o actualizada.
+ */
+export async function assignKpiGroupUpdatersAction(
+  data: z.infer<typeof assignKpiGroupUpdatersSchema>,
+): Promise<ActionState<SelectKpiGroupUpdater | SelectScorecardElementGroupUpdater>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to assign KPI group updater.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = assignKpiGroupUpdatersSchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = validatedData.error.errors.map((e) => e.message).join(", ");
+    logger.error(`Validation error for assignKpiGroupUpdatersAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  const { groupId, kpiId, scorecardElementId, canModifyThresholds = false } = validatedData.data;
+
+  try {
+    const denied = await requirePermission(
+      db,
+      userId,
+      "kpi:manage",
+      kpiId ? await getKpiOrganizationId(db, kpiId) : await getScorecardElementOrganizationId(db, scorecardElementId!),
+    );
+    if (denied) return denied;
+
+    const group = await firstOrUndefined(
+      db.select({ id: groupsTable.id }).from(groupsTable).where(eq(groupsTable.id, groupId)),
+    );
+    if (!group) {
+      return fail("Grupo no encontrado.");
+    }
+
+    if (scorecardElementId) {
+      const element = await firstOrUndefined(
+        db
+          .select({ id: scorecardElementsTable.id })
+          .from(scorecardElementsTable)
+          .where(eq(scorecardElementsTable.id, scorecardElementId)),
+      );
+      if (!element) {
+        return fail("Elemento de Scorecard no encontrado.");
+      }
+
+      const row: InsertScorecardElementGroupUpdater = { scorecardElementId, groupId, canModifyThresholds };
+      const [assigned] = await db
+        .insert(scorecardElementGroupUpdatersTable)
+        .values(row)
+        .onConflictDoUpdate({
+          target: [scorecardElementGroupUpdatersTable.scorecardElementId, scorecardElementGroupUpdatersTable.groupId],
+          set: { canModifyThresholds, updatedAt: new Date() },
+        })
+        .returning();
+
+      logger.info("Scorecard element group updater assigned successfully.", { groupId, scorecardElementId });
+      return ok("Grupo asignado como Updater de los KPIs del elemento exitosamente.", assigned);
+    }
+
+    const kpi = await firstOrUndefined(db.select({ id: kpisTable.id }).from(kpisTable).where(eq(kpisTable.id, kpiId!)));
+    if (!kpi) {
+      return fail("KPI no encontrado.");
+    }
+
+    const row: InsertKpiGroupUpdater = { kpiId: kpi.id, groupId, canModifyThresholds };
+    const [assigned] = await db
+      .insert(kpiGroupUpdatersTable)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [kpiGroupUpdatersTable.kpiId, kpiGroupUpdatersTable.groupId],
+        set: { canModifyThresholds, updatedAt: new Date() },
+      })
+      .returning();
+
+    logger.info("KPI group updater assigned successfully.", { groupId, kpiId: kpi.id });
+    return ok("Grupo asignado como Updater del KPI exitosamente.", assigned);
+  } catch (error) {
+    logger.error(`Error assigning KPI group updater: ${error instanceof Error ? error.message : String(error)}`, {
+      data,
+    });
+    return fail("Fallo al asignar el grupo encargado de actualización de KPI.");
+  }
+}
+
+/**
+ * @function removeKpiGroupUpdaterAction
+ * @description Quita un grupo de los "Updaters" de un KPI.
+ * @param {z.infer<typeof removeKpiGroupUpdaterSchema>} data - KPI y grupo.
+ * @returns {Promise<ActionState<undefined>>} Objeto ActionState indicando el éxito o fracaso.
+ */
+export async function removeKpiGroupUpdaterAction(
+  data: z.infer<typeof removeKpiGroupUpdaterSchema>,
+): Promise<ActionState<undefined>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to remove KPI group updater.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = removeKpiGroupUpdaterSchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = validatedData.error.errors.map((e) => e.message).join(", ");
+    logger.error(`Validation error for removeKpiGroupUpdaterAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  const { kpiId, groupId } = validatedData.data;
+  try {
+    const denied = await requirePermission(db, userId, "kpi:manage", await getKpiOrganizationId(db, kpiId));
+    if (denied) return denied;
+
+    await db
+      .delete(kpiGroupUpdatersTable)
+      .where(and(eq(kpiGroupUpdatersTable.kpiId, kpiId), eq(kpiGroupUpdatersTable.groupId, groupId)));
+
+    logger.info("KPI group updater removed successfully.", { kpiId, groupId });
+    return ok("Grupo quitado de los Updaters del KPI exitosamente.", undefined);
+  } catch (error) {
+    logger.error(`Error removing KPI group updater: ${error instanceof Error ? error.message : String(error)}`, {
+      data,
+    });
+    return fail("Fallo al quitar el grupo encargado de actualización de KPI.");
+  }
+}
+
+/**
+ * @function getKpiGroupUpdatersAction
+ * @description Obtiene los grupos asignados como "Updaters" de un KPI.
+ * @param {string} kpiId - El ID del KPI.
+ * @returns {Promise<ActionState<SelectKpiGroupUpdater[]>>} Las asignaciones de grupos del KPI.
+ */
+export async function getKpiGroupUpdatersAction(kpiId: string): Promise<ActionState<SelectKpiGroupUpdater[]>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to retrieve KPI group updaters.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedId = getKpiByIdSchema.safeParse({ id: kpiId });
+  if (!validatedId.success) {
+    const errorMessage = validatedId.error.errors.map((e) => e.message).join(", ");
+    logger.error(`Validation error for getKpiGroupUpdatersAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  try {
+    const organizationId = await getKpiOrganizationId(db, validatedId.data.id);
+    if (organizationId) {
+      const denied = await requireOrganizationVisibility(db, userId, organizationId);
+      if (denied) return denied;
+    }
+
+    const rows = await db
+      .select()
+      .from(kpiGroupUpdatersTable)
+      .where(eq(kpiGroupUpdatersTable.kpiId, validatedId.data.id));
+    return ok("Grupos Updaters del KPI obtenidos exitosamente.", rows);
+  } catch (error) {
+    logger.error(`Error retrieving KPI group updaters: ${error instanceof Error ? error.message : String(error)}`, {
+      kpiId,
+    });
+    return fail("Fallo al obtener los grupos encargados de actualización del KPI.");
+  }
+}
+
+/**
+ * @function removeScorecardElementGroupUpdaterAction
+ * @description Quita un grupo de los "Updaters" de un elemento de Scorecard; sus miembros dejan de actualizar
+ * los KPIs del elemento y de sus descendientes, salvo por otras asignaciones.
+ * @param {z.infer<typeof removeScorecardElementGroupUpdaterSchema>} data - Elemento de Scorecard y grupo.
+ * @returns {Promise<ActionState<undefined>>} Objeto ActionState indicando el éxito o fracaso.
+ */
+export async function removeScorecardElementGroupUpdaterAction(
+  data: z.infer<typeof removeScorecardElementGroupUpdaterSchema>,
+): Promise<ActionState<undefined>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to remove scorecard element group updater.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = removeScorecardElementGroupUpdaterSchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = validatedData.error.errors.map((e) => e.message).join(", ");
+    logger.error(`Validation error for removeScorecardElementGroupUpdaterAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  const { scorecardElementId, groupId } = validatedData.data;
+  try {
+    const denied = await requirePermission(
+      db,
+      userId,
+      "kpi:manage",
+      await getScorecardElementOrganizationId(db, scorecardElementId),
+    );
+    if (denied) return denied;
+
+    await db
+      .delete(scorecardElementGroupUpdatersTable)
+      .where(
+        and(
+          eq(scorecardElementGroupUpdatersTable.scorecardElementId, scorecardElementId),
+          eq(scorecardElementGroupUpdatersTable.groupId, groupId),
+        ),
+      );
+
+    logger.info("Scorecard element group updater removed successfully.", { scorecardElementId, groupId });
+    return ok("Grupo quitado de los Updaters del elemento exitosamente.", undefined);
+  } catch (error) {
+    logger.error(
+      `Error removing scorecard element group updater: ${error instanceof Error ? error.message : String(error)}`,
+      { data },
+    );
+    return fail("Fallo al quitar el grupo encargado de actualización del elemento.");
+  }
+}
+
+/**
+ * @function getScorecardElementGroupUpdatersAction
+ * @description Obtiene los grupos asignados como "Updaters" de un elemento de Scorecard.
+ * @param {string} scorecardElementId - El ID del elemento de Scorecard.
+ * @returns {Promise<ActionState<SelectScorecardElementGroupUpdater[]>>} Las asignaciones de grupos del elemento.
+ */
+export async function getScorecardElementGroupUpdatersAction(
+  scorecardElementId: string,
+): Promise<ActionState<SelectScorecardElementGroupUpdater[]>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to retrieve scorecard element group updaters.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedId = z.string().uuid("ID de elemento de Scorecard inválido.").safeParse(scorecardElementId);
+  if (!validatedId.success) {
+    const errorMessage = validatedId.error.errors.map((e) => e.message).join(", ");
+    logger.error(`Validation error for getScorecardElementGroupUpdatersAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  try {
+    const organizationId = await getScorecardElementOrganizationId(db, validatedId.data);
+    if (organizationId) {
+      const denied = await requireOrganizationVisibility(db, userId, organizationId);
+      if (denied) return denied;
+    }
+
+    const rows = await db
+      .select()
+      .from(scorecardElementGroupUpdatersTable)
+      .where(eq(scorecardElementGroupUpdatersTable.scorecardElementId, validatedId.data));
+    return ok("Grupos Updaters del elemento obtenidos exitosamente.", rows);
+  } catch (error) {
+    logger.error(
+      `Error retrieving scorecard element group updaters: ${error instanceof Error ? error.message : String(error)}`,
+      { scorecardElementId },
+    );
+    return fail("Fallo al obtener los grupos encargados de actualización del elemento.");
+  }
+}
+
 /**
  * @function updateKpiManualValueAction
  * @description Actualiza el valor de un KPI manualmente para un período específico.
  * Solo los usuarios designados como "Updaters" para ese KPI pueden realizar esta acción.
  * Realiza validaciones de tipos de datos y, si el KPI es de tipo "Goal/Red Flag", calcula el score y el color.
- * Si ya existe un valor para el KPI y el período, lo actualiza (upsert).
+ * La fecha se lleva al inicio del período de la frecuencia del KPI (ej. 2024-03-17 de un KPI mensual
+ * se guarda como 2024-03-01). Si ya existe un valor para el KPI y el período, lo actualiza (upsert) y
+ * luego recalcula en cascada los KPIs calculados que dependen de él y los rollups de las
+ * organizaciones ancestro.
  * @param {z.infer<typeof updateKpiManualValueSchema>} data - Datos de la actualización manual del KPI.
  * @returns {Promise<ActionState<SelectKpiValue>>} Objeto ActionState indicando el éxito o fracaso.
  * @notes
  *  El valor actual del KPI y los umbrales se almacenan como texto para compatibilidad con el esquema,
  *  Se verifica la configuración require_note_for_red_kpi en appSettingsTable antes de permitir la actualización.
+ *  La validación y la puntuación son las mismas que las de la ingesta por API (ver `lib/kpi-value-entry.ts`).
+ *  Requiere el permiso `kpi_value:update` en la organización del KPI y estar asignado como Updater,
+ *  directamente o como miembro de un grupo asignado al KPI o a un elemento ancestro. Sin `canModifyThresholds`
+ *  en ninguna de sus asignaciones, el objetivo y los umbrales vacíos toman los vigentes (los del período o,
+ *  si no hay valor, los del último período anterior) y no se permite cambiarlos.
  */
 export async function updateKpiManualValueAction(
   data: z.infer<typeof updateKpiManualValueSchema>,
@@ -715,22 +1218,18 @@ export async function updateKpiManualValueAction(
   const { kpiId, periodDate, actualValue, targetValue, thresholdRed, thresholdYellow, note } = validatedData.data;
 
   try {
-    // Helper: valida string no vacío (evita undefined/null y espacios)
-    const isNonEmptyString = (v: unknown): v is string =>
-      typeof v === "string" && v.trim() !== "";
-  
-    // 1. Verify if the current user is an authorized updater for this KPI
-    const isUpdater = await firstOrUndefined(
-      db
-        .select()
-        .from(kpiUpdatersTable)
-        .where(and(eq(kpiUpdatersTable.kpiId, kpiId), eq(kpiUpdatersTable.userId, currentAuthUserId))),
+    // Los grupos de solo lectura no actualizan valores aunque el usuario esté asignado al KPI
+    const denied = await requirePermission(
+      db,
+      currentAuthUserId,
+      "kpi_value:update",
+      await getKpiOrganizationId(db, kpiId),
     );
+    if (denied) return denied;
 
-    // TODO: Implement proper permission check for updaters based on organization or roles.
-    // For now, a user is an updater if they are explicitly assigned to this KPI.
-    // In a real scenario, an admin might update any KPI. This check assumes non-admin update.
-    if (!isUpdater) {
+    // 1. Solo los Updaters del KPI (asignados directamente o por uno de sus grupos) pueden actualizar su valor
+    const updaterAccess = await getKpiUpdaterAccess(db, kpiId, currentAuthUserId);
+    if (!updaterAccess) {
       logger.warn(`User ${currentAuthUserId} is not an authorized updater for KPI ${kpiId}.`);
       return fail("No tiene permisos para actualizar este KPI.");
     }
@@ -743,113 +1242,80 @@ export async function updateKpiManualValueAction(
       return fail("Configuración de KPI no encontrada.");
     }
 
-    // 3. Validate actualValue based on KPI data type
-    let parsedActualValue: number | null = null;
-    if (actualValue !== null && actualValue !== undefined && actualValue !== "") {
-      if (numericDataTypes.has(kpiConfig.dataType)) {
-        parsedActualValue = parseFloat(actualValue);
-        if (isNaN(parsedActualValue)) {
-          return fail(`El valor actual no es un número válido para el tipo de dato ${kpiConfig.dataType}.`);
-        }
-      }
-    }
-
-    // 4. Calculate score and color for 'Goal/Red Flag' KPIs
-    let score: number | null = null;
-    let color: (typeof kpiColorEnum.enumValues)[number] | null = null;
-
-    if (kpiConfig.scoringType === "Goal/Red Flag") {
-      const parsedTarget = isNonEmptyString(targetValue) ? parseFloat(targetValue) : null;
-      const parsedThresholdRed = isNonEmptyString(thresholdRed) ? parseFloat(thresholdRed) : null;
-      const parsedThresholdYellow = isNonEmptyString(thresholdYellow) ? parseFloat(thresholdYellow) : null;
-
-      if (parsedTarget === null && isNonEmptyString(targetValue)) {
-        return fail("El valor objetivo no es un número válido.");
-      }
-      if (parsedThresholdRed === null && isNonEmptyString(thresholdRed)) {
-        return fail("El umbral rojo no es un número válido.");
-      }
-      if (parsedThresholdYellow === null && isNonEmptyString(thresholdYellow)) {
-        return fail("El umbral amarillo no es un número válido.");
-      }
+    // Inicio canónico del período según la frecuencia del KPI y el año fiscal
+    const canonicalPeriodDate = normalizePeriodDate(
+      periodDate,
+      kpiConfig.calendarFrequency,
+      await getFiscalYearStartMonth(db),
+    );
 
-      const calculated = calculateKpiScoreAndColor(
-        parsedActualValue,
-        parsedTarget,
-        parsedThresholdRed,
-        parsedThresholdYellow,
+    // Sin permiso sobre los umbrales, se conservan el objetivo y los umbrales vigentes
+    let thresholds = {
+      targetValue: targetValue ?? null,
+      thresholdRed: thresholdRed ?? null,
+      thresholdYellow: thresholdYellow ?? null,
+    };
+    if (!updaterAccess.canModifyThresholds) {
+      const current = await firstOrUndefined(
+        db
+          .select({
+            targetValue: kpiValuesTable.targetValue,
+            thresholdRed: kpiValuesTable.thresholdRed,
+            thresholdYellow: kpiValuesTable.thresholdYellow,
+          })
+          .from(kpiValuesTable)
+          .where(and(eq(kpiValuesTable.kpiId, kpiId), lte(kpiValuesTable.periodDate, canonicalPeriodDate)))
+          .orderBy(desc(kpiValuesTable.periodDate))
+          .limit(1),
+      );
+      const resolved = resolveUpdaterThresholds(
+        thresholds,
+        current ?? { targetValue: null, thresholdRed: null, thresholdYellow: null },
       );
-      score = calculated.score;
-      color = calculated.color;
-    } else if (kpiConfig.scoringType === "Yes/No") {
-      // For Yes/No, map 'Yes' to 100 (Green), 'No' to 0 (Red), others to null/Red
-      if (actualValue?.toLowerCase() === "yes") {
-        score = 100;
-        color = "Green";
-      } else if (actualValue?.toLowerCase() === "no") {
-        score = 0;
-        color = "Red";
-      } else {
-        score = null;
-        color = null; // Or default to Red if strict
+      if (!resolved) {
+        logger.warn(`User ${currentAuthUserId} cannot modify the thresholds of KPI ${kpiId}.`);
+        return fail("No tiene permisos para modificar el objetivo ni los umbrales de este KPI.");
       }
-    } else if (kpiConfig.scoringType === "Text") {
-      // For Text KPIs, score and color are not typically calculated automatically
-      score = null;
-      color = null;
+      thresholds = resolved;
     }
 
-    // 5. Check if note is required for 'Red' KPIs (UC-303)
-    // This requires checking an app setting.
-    const requireNoteSetting: SelectAppSetting | undefined = await firstOrUndefined(
-      db.select().from(appSettingsTable).where(eq(appSettingsTable.settingKey, "require_note_for_red_kpi")),
+    // 3-5. Validar los valores según el tipo de dato, calcular score/color y exigir la nota en Rojo (UC-303)
+    const evaluation = evaluateKpiValueEntry(
+      kpiConfig,
+      { actualValue, ...thresholds, note },
+      await isNoteRequiredForRedKpi(db),
     );
-    const isNoteRequired = requireNoteSetting?.settingValue === "true";
-
-    if (isNoteRequired && color === "Red" && (!note || note.trim() === "")) {
-      return fail("Una nota es requerida al actualizar un KPI a estado 'Rojo'.");
+    if (!evaluation.isSuccess) {
+      return fail(evaluation.message);
     }
+    const { score, color } = evaluation;
 
-    const insertOrUpdateData: InsertKpiValue = {
+    const upsertedKpiValue = await upsertKpiValue(db, {
       kpiId: kpiId,
-      periodDate: periodDate,
+      periodDate: canonicalPeriodDate,
       actualValue: actualValue,
-      targetValue: targetValue,
-      thresholdRed: thresholdRed,
-      thresholdYellow: thresholdYellow,
+      ...thresholds,
       score: score !== null ? String(score) : null, // Store numeric score as string for decimal type
       color: color,
       updatedByUserId: currentAuthUserId,
       isManualEntry: true,
       note: note,
-      // createdAt and updatedAt handled by schema
-    };
-
-    const [upsertedKpiValue] = await db
-      .insert(kpiValuesTable)
-      .values(insertOrUpdateData)
-      .onConflictDoUpdate({
-        target: [kpiValuesTable.kpiId, kpiValuesTable.periodDate],
-        set: {
-          actualValue: insertOrUpdateData.actualValue,
-          targetValue: insertOrUpdateData.targetValue,
-          thresholdRed: insertOrUpdateData.thresholdRed,
-          thresholdYellow: insertOrUpdateData.thresholdYellow,
-          score: insertOrUpdateData.score,
-          color: insertOrUpdateData.color,
-          updatedByUserId: insertOrUpdateData.updatedByUserId,
-          isManualEntry: insertOrUpdateData.isManualEntry,
-          note: insertOrUpdateData.note,
-          updatedAt: new Date(),
-        },
-      })
-      .returning();
+    });
 
     if (!upsertedKpiValue) {
-      logger.error(`Failed to upsert KPI value for KPI ID: ${kpiId}, Period: ${periodDate}`);
+      logger.error(`Failed to upsert KPI value for KPI ID: ${kpiId}, Period: ${canonicalPeriodDate}`);
       return fail("Fallo al actualizar el valor manual del KPI.");
     }
 
+    // Cascade: recalculate dependent calculated KPIs (topological order) and ancestor rollups
+    try {
+      await propagateKpiValueChanges(db, [kpiId], canonicalPeriodDate, currentAuthUserId);
+    } catch (recalcError) {
+      logger.error(
+        `Error recalculating KPIs dependent on ${kpiId}: ${recalcError instanceof Error ? recalcError.message : String(recalcError)}`,
+      );
+    }
+
     logger.info("KPI manual value updated successfully.", { kpiId: upsertedKpiValue.kpiId, periodDate: upsertedKpiValue.periodDate });
     return ok("Valor de KPI actualizado exitosamente.", upsertedKpiValue);
   } catch (error) {
@@ -872,7 +1338,10 @@ export async function updateKpiManualValueAction(
  * @returns {Promise<ActionState<SelectKpi>>} Un objeto ActionState indicando el éxito o fracaso y los datos del KPI actualizado.
  * @notes
  *  Esta acción actualiza tanto calculation_equation como is_manual_update.
- *  La lógica para la evaluación real de la ecuación se manejará en pasos posteriores
+ *  La ecuación se valida sintácticamente (lib/formula-evaluator.ts) y sus referencias deben existir;
+ *  los errores incluyen la posición del problema para mostrarse en el editor.
+ *  Se rechazan las ecuaciones que crean dependencias circulares (indicando el camino del ciclo) y,
+ *  tras guardar, se recalcula el KPI y sus dependientes en los períodos con datos de origen.
  */
 export async function setKpiCalculationEquationAction(
   data: z.infer<typeof setKpiCalculationEquationSchema>,
@@ -891,8 +1360,56 @@ export async function setKpiCalculationEquationAction(
   }
 
   try {
+    const denied = await requirePermission(
+      db,
+      userId,
+      "kpi:manage",
+      await getKpiOrganizationId(db, validatedData.data.kpiId),
+    );
+    if (denied) return denied;
+
     const { kpiId, calculationEquation } = validatedData.data;
 
+    // Validate the equation syntax and its KPI references before storing it
+    if (calculationEquation) {
+      const parsed = parseFormula(calculationEquation);
+      if (!parsed.isSuccess) {
+        logger.warn(`Invalid calculation equation for KPI ${kpiId}.`, { error: parsed.error });
+        return fail(`Ecuación inválida: ${formatFormulaError(parsed.error)}`);
+      }
+
+      const owner = await firstOrUndefined(
+        db
+          .select({ organizationId: scorecardElementsTable.organizationId })
+          .from(kpisTable)
+          .innerJoin(scorecardElementsTable, eq(kpisTable.scorecardElementId, scorecardElementsTable.id))
+          .where(eq(kpisTable.id, kpiId)),
+      );
+      const resolvedIds = await resolveKpiReferenceIds(db, parsed.references, owner?.organizationId ?? null);
+      const unresolved = parsed.references.find((r) => !resolvedIds.has(r.identifier));
+      if (unresolved) {
+        return fail(
+          `Ecuación inválida: ${formatFormulaError({
+            code: "INVALID_REFERENCE",
+            message: `El KPI referenciado "${unresolved.identifier}" no existe.`,
+            position: unresolved.position,
+          })}`,
+        );
+      }
+
+      // Reject equations that would create a dependency cycle (A → B → A)
+      const graphNodes = (await loadKpiGraphNodes(db)).map((node) =>
+        node.id === kpiId ? { ...node, calculationEquation } : node,
+      );
+      const cycle = findKpiDependencyCycle(buildKpiDependencyGraph(graphNodes), kpiId);
+      if (cycle) {
+        const names = new Map(graphNodes.map((node) => [node.id, node.name ?? node.id]));
+        const cyclePath = cycle.map((id) => names.get(id) ?? id).join(" → ");
+        logger.warn(`Circular dependency rejected for KPI ${kpiId}.`, { cycle });
+        return fail(`Dependencia circular detectada: ${cyclePath}.`);
+      }
+    }
+
     // Determine isManualUpdate based on the presence of a calculationEquation
     const isManualUpdate = !calculationEquation;
 
@@ -911,7 +1428,17 @@ export async function setKpiCalculationEquationAction(
       return fail("Fallo al configurar la ecuación de cálculo del KPI.");
     }
 
-    // TODO: Trigger recalculation for this KPI and any dependent KPIs
+    // Recalculate this KPI and its dependents for every period with source data
+    if (calculationEquation) {
+      try {
+        await recalculateKpiForAllPeriods(db, kpiId, userId);
+      } catch (recalcError) {
+        logger.error(
+          `Error recalculating KPI ${kpiId} after equation change: ${recalcError instanceof Error ? recalcError.message : String(recalcError)}`,
+        );
+      }
+    }
+
     logger.info("KPI calculation equation updated successfully.", { kpiId: updatedKpi.id, isManualUpdate });
     return ok("Ecuación de cálculo de KPI configurada exitosamente.", updatedKpi);
   } catch (error) {
@@ -922,11 +1449,65 @@ export async function setKpiCalculationEquationAction(
   }
 }
 
+/**
+ * @function calculateKpiValueAction
+ * @description Evalúa la ecuación de cálculo de un KPI para un período y escribe el resultado en `kpi_values`
+ * (UC-103). Los valores de los KPIs referenciados se toman del mismo período.
+ * @param {z.infer<typeof calculateKpiValueSchema>} data - Objeto con el ID del KPI y la fecha del período.
+ * @returns {Promise<ActionState<SelectKpiValue>>} Un objeto ActionState con el valor calculado, o el error de la ecuación
+ * (con su posición) si no pudo evaluarse.
+ */
+export async function calculateKpiValueAction(
+  data: z.infer<typeof calculateKpiValueSchema>,
+): Promise<ActionState<SelectKpiValue>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to calculate KPI value.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = calculateKpiValueSchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = validatedData.error.errors.map((e) => e.message).join(", ");
+    logger.error(`Validation error for calculateKpiValueAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  try {
+    const denied = await requirePermission(
+      db,
+      userId,
+      "kpi:manage",
+      await getKpiOrganizationId(db, validatedData.data.kpiId),
+    );
+    if (denied) return denied;
+
+    const { kpiId, periodDate } = validatedData.data;
+    const result: KpiCalculationResult = await calculateKpiValueForPeriod(db, kpiId, periodDate, userId);
+
+    if (!result.value) {
+      return fail(
+        result.error
+          ? `No se pudo calcular el KPI: ${formatFormulaError(result.error)}`
+          : "No se pudo calcular el KPI.",
+      );
+    }
+
+    return ok("Valor de KPI calculado exitosamente.", result.value);
+  } catch (error) {
+    logger.error(`Error calculating KPI value: ${error instanceof Error ? error.message : String(error)}`, {
+      data,
+    });
+    return fail("Fallo al calcular el valor del KPI.");
+  }
+}
+
 /**
  * @function enableKpiRollupAction
  * @description Habilita o deshabilita la funcionalidad de rollup para un KPI (UC-501).
  * Cuando el rollup se habilita, el KPI se marca como no manual y su ecuación de cálculo se limpia,
  * ya que su valor será agregado desde organizaciones hijas. Si se deshabilita, se marca como manual.
+ * Al habilitarlo se ejecuta un primer cálculo del rollup para los períodos con datos en las organizaciones hijas.
  * @param {z.infer<typeof enableKpiRollupSchema>} data - Objeto con el ID del KPI y el estado deseado para rollup.
  * @returns {Promise<ActionState<SelectKpi>>} Un objeto ActionState indicando el éxito o fracaso y los datos del KPI actualizado.
  */
@@ -947,6 +1528,14 @@ export async function enableKpiRollupAction(
   }
 
   try {
+    const denied = await requirePermission(
+      db,
+      userId,
+      "kpi:manage",
+      await getKpiOrganizationId(db, validatedData.data.kpiId),
+    );
+    if (denied) return denied;
+
     const { kpiId, rollupEnabled } = validatedData.data;
 
     // Si el rollup está habilitado, el KPI no es de actualización manual y su ecuación se limpia.
@@ -967,8 +1556,17 @@ export async function enableKpiRollupAction(
       return fail("Fallo al actualizar el estado de rollup del KPI.");
     }
 
-    // TODO: Si rollupEnabled es true, se podría disparar una primera ejecución del cálculo de rollup.
-    // Si rollupEnabled es false, se podría limpiar cualquier valor de rollup previo o restablecerlo.
+    // Primera ejecución del rollup para los períodos con datos en las organizaciones hijas.
+    // Al deshabilitarlo se conservan los valores previos, que pasan a poder editarse manualmente.
+    if (rollupEnabled) {
+      try {
+        await recalculateKpiRollupForAllPeriods(db, kpiId, userId);
+      } catch (rollupError) {
+        logger.error(
+          `Error running initial rollup for KPI ${kpiId}: ${rollupError instanceof Error ? rollupError.message : String(rollupError)}`,
+        );
+      }
+    }
 
     logger.info("KPI rollup status updated successfully.", { kpiId: updatedKpi.id, rollupEnabled: updatedKpi.rollupEnabled });
     return ok("Estado de rollup de KPI actualizado exitosamente.", updatedKpi);
@@ -980,8 +1578,48 @@ export async function enableKpiRollupAction(
   }
 }
 
+// -------------------------------------------------------------
+// Mis KPIs por actualizar: KPIs manuales de los que el usuario es Updater,
+// directamente o por uno de sus grupos, en las organizaciones que puede ver.
+// -------------------------------------------------------------
+export async function getMyKpisToUpdateAction(): Promise<ActionState<KpiToUpdate[]>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to list KPIs to update.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  try {
+    const kpiIds = await getUpdatableKpiIds(db, userId);
+    if (kpiIds.length === 0) {
+      return ok("KPIs por actualizar listados exitosamente.", []);
+    }
+
+    const rows = await db
+      .select({
+        kpiId: kpisTable.id,
+        name: scorecardElementsTable.name,
+        organizationId: organizationsTable.id,
+        organizationName: organizationsTable.name,
+        calendarFrequency: kpisTable.calendarFrequency,
+      })
+      .from(kpisTable)
+      .innerJoin(scorecardElementsTable, eq(kpisTable.scorecardElementId, scorecardElementsTable.id))
+      .innerJoin(organizationsTable, eq(scorecardElementsTable.organizationId, organizationsTable.id))
+      .where(and(inArray(kpisTable.id, kpiIds), eq(kpisTable.isManualUpdate, true)))
+      .orderBy(organizationsTable.name, scorecardElementsTable.name);
+    const canView = await loadOrganizationVisibility(db, userId);
+
+    return ok("KPIs por actualizar listados exitosamente.", rows.filter((row) => canView(row.organizationId)));
+  } catch (error) {
+    logger.error(`Error listing KPIs to update: ${error instanceof Error ? error.message : String(error)}`);
+    return fail("Fallo al listar los KPIs por actualizar.");
+  }
+}
+
 // -------------------------------------------------------------
 // NUEVA ACCIÓN: listar KPIs para selects (id + name)
+// Solo incluye los KPIs de las organizaciones que el usuario puede ver.
 // -------------------------------------------------------------
 export type KpiSelectOption = { id: string; name: string };
 
@@ -1000,16 +1638,18 @@ export async function getAllKpisForSelectAction(): Promise<ActionState<KpiSelect
         id: kpisTable.id,
         name: scorecardElementsTable.name,
         elementType: scorecardElementsTable.elementType,
+        organizationId: scorecardElementsTable.organizationId,
       })
       .from(kpisTable)
       .leftJoin(
         scorecardElementsTable,
         eq(scorecardElementsTable.id, kpisTable.scorecardElementId),
       );
+    const canView = await loadOrganizationVisibility(db, userId);
 
     const data: KpiSelectOption[] =
       rows
-        .filter((r) => r.elementType === "KPI" && !!r.name)
+        .filter((r) => r.elementType === "KPI" && !!r.name && !!r.organizationId && canView(r.organizationId))
         .map((r) => ({ id: r.id, name: r.name as string })) ?? [];
 
     return ok("KPIs listados exitosamente.", data);
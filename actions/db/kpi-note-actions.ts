@@ -0,0 +1,347 @@
+/**
+ * @file actions/db/kpi-note-actions.ts
+ * @brief Implementa Server Actions para las notas y respuestas de los valores de KPI.
+ * @description Este archivo contiene funciones del lado del servidor para listar las
+ * conversaciones de un valor de KPI, publicar notas y respuestas con menciones (@correo),
+ * editarlas (solo su autor) y eliminarlas (su autor o quien administra los KPIs de la
+ * organización). Publicar exige el permiso `kpi_note:create` en la organización del KPI y leer,
+ * que el usuario pueda ver esa organización. Las respuestas disparan las alertas de tipo "Note Reply".
+ */
+
+"use server";
+
+import { db } from "@/db/db";
+import {
+  kpiNotesTable,
+  kpiValuesTable,
+  profilesTable,
+  SelectKpiNote,
+} from "@/db/schema";
+import {
+  ActionState,
+  ok,
+  fail,
+  KPI_NOTE_MAX_LENGTH,
+  KpiNoteThread,
+  KpiNoteView,
+} from "@/types";
+import { auth } from "@clerk/nextjs/server";
+import { eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { getLogger } from "@/lib/logger";
+import {
+  buildKpiNoteThreads,
+  canDeleteKpiNote,
+  canEditKpiNote,
+  canModerateKpiValueNotes,
+  resolveMentionedUserIds,
+} from "@/lib/kpi-notes";
+import {
+  getKpiValueOrganizationId,
+  requireOrganizationVisibility,
+  requirePermission,
+} from "@/lib/authorization";
+
+const logger = getLogger("kpi-note-actions");
+
+/* -------------------------------------------------------------------------- */
+/*                               Utilidades locales                           */
+/* -------------------------------------------------------------------------- */
+
+/** Formatea mensajes de error de Zod de forma tipada. */
+function formatZodError(err: z.ZodError): string {
+  return err.errors.map((e) => e.message).join(", ");
+}
+
+/** Resuelve las menciones del texto contra los perfiles existentes. */
+async function resolveMentions(content: string): Promise<string[]> {
+  const users = await db
+    .select({ userId: profilesTable.userId, email: profilesTable.email })
+    .from(profilesTable);
+  return resolveMentionedUserIds(content, users);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Esquemas de Validación                         */
+/* -------------------------------------------------------------------------- */
+
+const noteContentSchema = z
+  .string()
+  .trim()
+  .min(1, "La nota no puede estar vacía.")
+  .max(KPI_NOTE_MAX_LENGTH, `La nota no puede exceder los ${KPI_NOTE_MAX_LENGTH} caracteres.`);
+
+/**
+ * @schema createKpiNoteSchema
+ * @description Esquema de validación para publicar una nota o una respuesta.
+ * @property {string} kpiValueId - ID del valor de KPI comentado.
+ * @property {string} content - Texto de la nota; admite menciones con @correo.
+ * @property {string | null} [parentNoteId] - Nota a la que responde (null = nota raíz).
+ */
+const createKpiNoteSchema = z.object({
+  kpiValueId: z.string().uuid("ID de valor de KPI inválido."),
+  content: noteContentSchema,
+  parentNoteId: z.string().uuid("ID de nota inválido.").nullable().optional(),
+});
+
+/**
+ * @schema updateKpiNoteSchema
+ * @description Esquema de validación para editar el texto de una nota.
+ * @property {string} id - ID de la nota.
+ * @property {string} content - Nuevo texto.
+ */
+const updateKpiNoteSchema = z.object({
+  id: z.string().uuid("ID de nota inválido."),
+  content: noteContentSchema,
+});
+
+/* -------------------------------------------------------------------------- */
+/*                                 Server Actions                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * @function getKpiValueNotesAction
+ * @description Obtiene las conversaciones de un valor de KPI, con los permisos de edición y
+ * eliminación del usuario actual sobre cada nota.
+ * @param {string} kpiValueId - ID del valor de KPI.
+ * @returns {Promise<ActionState<KpiNoteThread[]>>} Conversaciones o un mensaje de error.
+ */
+export async function getKpiValueNotesAction(
+  kpiValueId: string,
+): Promise<ActionState<KpiNoteThread[]>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to get KPI notes.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validated = z.string().uuid("ID de valor de KPI inválido.").safeParse(kpiValueId);
+  if (!validated.success) return fail(formatZodError(validated.error));
+
+  const organizationId = await getKpiValueOrganizationId(db, validated.data);
+  if (organizationId) {
+    const denied = await requireOrganizationVisibility(db, userId, organizationId);
+    if (denied) return denied;
+  }
+
+  try {
+    const rows = await db
+      .select({ note: kpiNotesTable, authorEmail: profilesTable.email })
+      .from(kpiNotesTable)
+      .leftJoin(profilesTable, eq(kpiNotesTable.authorUserId, profilesTable.userId))
+      .where(eq(kpiNotesTable.kpiValueId, validated.data));
+
+    const mentionedIds = Array.from(
+      new Set(rows.flatMap(({ note }) => note.mentionedUserIds ?? [])),
+    );
+    const mentionedProfiles =
+      mentionedIds.length > 0
+        ? await db
+            .select({ userId: profilesTable.userId, email: profilesTable.email })
+            .from(profilesTable)
+            .where(inArray(profilesTable.userId, mentionedIds))
+        : [];
+    const emails = new Map(mentionedProfiles.map((p) => [p.userId, p.email]));
+
+    const canModerate = await canModerateKpiValueNotes(db, userId, validated.data);
+    const views: KpiNoteView[] = rows.map(({ note, authorEmail }) => ({
+      id: note.id,
+      parentNoteId: note.parentNoteId,
+      authorUserId: note.authorUserId,
+      authorEmail,
+      content: note.content,
+      mentions: (note.mentionedUserIds ?? [])
+        .filter((id) => emails.has(id))
+        .map((id) => ({ userId: id, email: emails.get(id) ?? null })),
+      createdAt: note.createdAt,
+      editedAt: note.editedAt,
+      canEdit: canEditKpiNote(note, userId),
+      canDelete: canDeleteKpiNote(note, userId, canModerate),
+    }));
+
+    return ok("Notas obtenidas exitosamente.", buildKpiNoteThreads(views));
+  } catch (error) {
+    logger.error(
+      `Error retrieving KPI notes: ${error instanceof Error ? error.message : String(error)}`,
+      { kpiValueId },
+    );
+    return fail("Fallo al obtener las notas del KPI.");
+  }
+}
+
+/**
+ * @function createKpiNoteAction
+ * @description Publica una nota en un valor de KPI o una respuesta a una nota existente. Las
+ * respuestas a una respuesta se agregan a la conversación de su nota raíz.
+ * @param {z.infer<typeof createKpiNoteSchema>} data - Valor de KPI, texto y nota respondida.
+ * @returns {Promise<ActionState<SelectKpiNote>>} La nota creada o un mensaje de error.
+ */
+export async function createKpiNoteAction(
+  data: z.infer<typeof createKpiNoteSchema>,
+): Promise<ActionState<SelectKpiNote>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to create KPI note.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = createKpiNoteSchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = formatZodError(validatedData.error);
+    logger.error(`Validation error for createKpiNoteAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+  const { kpiValueId, content, parentNoteId } = validatedData.data;
+
+  const denied = await requirePermission(
+    db,
+    userId,
+    "kpi_note:create",
+    await getKpiValueOrganizationId(db, kpiValueId),
+  );
+  if (denied) return denied;
+
+  try {
+    const [kpiValue] = await db
+      .select({ id: kpiValuesTable.id })
+      .from(kpiValuesTable)
+      .where(eq(kpiValuesTable.id, kpiValueId));
+    if (!kpiValue) return fail("Valor de KPI no encontrado.");
+
+    let rootNoteId: string | null = null;
+    if (parentNoteId) {
+      const [parent] = await db
+        .select({
+          id: kpiNotesTable.id,
+          kpiValueId: kpiNotesTable.kpiValueId,
+          parentNoteId: kpiNotesTable.parentNoteId,
+        })
+        .from(kpiNotesTable)
+        .where(eq(kpiNotesTable.id, parentNoteId));
+      if (!parent || parent.kpiValueId !== kpiValueId) {
+        return fail("La nota a la que se responde no existe.");
+      }
+      rootNoteId = parent.parentNoteId ?? parent.id;
+    }
+
+    const [createdNote] = await db
+      .insert(kpiNotesTable)
+      .values({
+        kpiValueId,
+        parentNoteId: rootNoteId,
+        authorUserId: userId,
+        content,
+        mentionedUserIds: await resolveMentions(content),
+      })
+      .returning();
+
+    logger.info(
+      `KPI note ${createdNote.id} created by user ${userId}${rootNoteId ? ` in reply to ${rootNoteId}` : ""}.`,
+    );
+    return ok(rootNoteId ? "Respuesta publicada exitosamente." : "Nota publicada exitosamente.", createdNote);
+  } catch (error) {
+    logger.error(
+      `Error creating KPI note: ${error instanceof Error ? error.message : String(error)}`,
+      { kpiValueId, parentNoteId },
+    );
+    return fail("Fallo al publicar la nota.");
+  }
+}
+
+/**
+ * @function updateKpiNoteAction
+ * @description Edita el texto de una nota del usuario actual y vuelve a resolver sus menciones.
+ * @param {z.infer<typeof updateKpiNoteSchema>} data - ID de la nota y nuevo texto.
+ * @returns {Promise<ActionState<SelectKpiNote>>} La nota actualizada o un mensaje de error.
+ */
+export async function updateKpiNoteAction(
+  data: z.infer<typeof updateKpiNoteSchema>,
+): Promise<ActionState<SelectKpiNote>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to update KPI note.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = updateKpiNoteSchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = formatZodError(validatedData.error);
+    logger.error(`Validation error for updateKpiNoteAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+  const { id, content } = validatedData.data;
+
+  try {
+    const [note] = await db.select().from(kpiNotesTable).where(eq(kpiNotesTable.id, id));
+    if (!note) return fail("Nota no encontrada.");
+    if (!canEditKpiNote(note, userId)) {
+      logger.warn(`User ${userId} attempted to edit KPI note ${id} without permission.`);
+      return fail("Solo el autor puede editar esta nota.");
+    }
+
+    const [updatedNote] = await db
+      .update(kpiNotesTable)
+      .set({
+        content,
+        mentionedUserIds: await resolveMentions(content),
+        editedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(kpiNotesTable.id, id))
+      .returning();
+
+    logger.info(`KPI note ${id} edited by user ${userId}.`);
+    return ok("Nota actualizada exitosamente.", updatedNote);
+  } catch (error) {
+    logger.error(
+      `Error updating KPI note: ${error instanceof Error ? error.message : String(error)}`,
+      { id },
+    );
+    return fail("Fallo al actualizar la nota.");
+  }
+}
+
+/**
+ * @function deleteKpiNoteAction
+ * @description Elimina una nota junto con sus respuestas. Puede hacerlo su autor o quien
+ * administra los KPIs de la organización.
+ * @param {string} id - ID de la nota.
+ * @returns {Promise<ActionState<undefined>>} Resultado de la operación.
+ */
+export async function deleteKpiNoteAction(id: string): Promise<ActionState<undefined>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to delete KPI note.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validated = z.string().uuid("ID de nota inválido.").safeParse(id);
+  if (!validated.success) return fail(formatZodError(validated.error));
+
+  try {
+    const [note] = await db
+      .select()
+      .from(kpiNotesTable)
+      .where(eq(kpiNotesTable.id, validated.data));
+    if (!note) return fail("Nota no encontrada.");
+
+    const canModerate =
+      !canEditKpiNote(note, userId) &&
+      (await canModerateKpiValueNotes(db, userId, note.kpiValueId));
+    if (!canDeleteKpiNote(note, userId, canModerate)) {
+      logger.warn(`User ${userId} attempted to delete KPI note ${id} without permission.`);
+      return fail("No tiene permisos para eliminar esta nota.");
+    }
+
+    await db.delete(kpiNotesTable).where(eq(kpiNotesTable.id, validated.data));
+
+    logger.info(`KPI note ${id} deleted by user ${userId}.`);
+    return ok("Nota eliminada exitosamente.", undefined);
+  } catch (error) {
+    logger.error(
+      `Error deleting KPI note: ${error instanceof Error ? error.message : String(error)}`,
+      { id },
+    );
+    return fail("Fallo al eliminar la nota.");
+  }
+}
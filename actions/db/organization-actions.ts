@@ -5,7 +5,9 @@
  * leer, actualizar y eliminar organizaciones. También incluye la acción para
  * crear organizaciones basadas en plantillas a partir de un listado de nombres,
  * replicando la estructura de Scorecards y KPIs de una organización existente.
- * Asegura la validación de datos, la unicidad y la protección de accesos no autorizados.
+ * Asegura la validación de datos, la unicidad y la protección de accesos no autorizados: las
+ * acciones que modifican organizaciones exigen el permiso `organization:manage` sobre ellas y las
+ * de lectura solo devuelven las organizaciones que el usuario puede ver.
  */
 "use server";
 
@@ -15,7 +17,7 @@ import {
   SelectOrganization,
   organizationsTable,
 } from "@/db/schema";
-import { ActionState, fail, ok } from "@/types";
+import { ActionState, AliasesSchema, ExternalCodeSchema, fail, ok } from "@/types";
 import { auth } from "@clerk/nextjs/server";
 import { and, eq, isNull, ne } from "drizzle-orm";
 import { z } from "zod";
@@ -24,6 +26,12 @@ import {
   replicateScorecardStructure,
   getDescendantOrganizations,
 } from "@/lib/organization-utils";
+import { isExternalCodeInUse, matchesAlias, matchesExternalCode } from "@/lib/external-codes";
+import {
+  loadOrganizationVisibility,
+  requireOrganizationVisibility,
+  requirePermission,
+} from "@/lib/authorization";
 
 const logger = getLogger("organization-actions");
 
@@ -44,6 +52,8 @@ const formatZodError = (error: z.ZodError) =>
  * @property {string | null} [description] - Descripción opcional, máximo 1000 caracteres.
  * @property {string | null} [parentId] - ID de la organización padre, UUID opcional y nullable.
  * @property {string | null} [templateFromDatasetField] - Nombre del campo del dataset para plantillas, opcional y nullable.
+ * @property {string | null} [externalCode] - Código de la organización en los sistemas de origen, opcional y único.
+ * @property {string[]} [aliases] - Otros nombres con los que se conoce la organización, opcional.
  */
 const createOrganizationSchema = z
   .object({
@@ -66,6 +76,8 @@ const createOrganizationSchema = z
       .max(255, "El nombre del campo del dataset no puede exceder 255 caracteres.")
       .optional()
       .nullable(),
+    externalCode: ExternalCodeSchema.optional().nullable(),
+    aliases: AliasesSchema.optional(),
   })
   .refine(
     (data) => {
@@ -88,6 +100,8 @@ const createOrganizationSchema = z
  * @property {string | null} [description] - Descripción opcional, máximo 1000 caracteres.
  * @property {string | null} [parentId] - ID de la organización padre, UUID opcional y nullable.
  * @property {string | null} [templateFromDatasetField] - Nombre del campo del dataset para plantillas, opcional y nullable.
+ * @property {string | null} [externalCode] - Código de la organización en los sistemas de origen, opcional y único.
+ * @property {string[]} [aliases] - Otros nombres con los que se conoce la organización, opcional.
  */
 const updateOrganizationSchema = z
   .object({
@@ -112,6 +126,8 @@ const updateOrganizationSchema = z
       .max(255, "El nombre del campo del dataset no puede exceder 255 caracteres.")
       .optional()
       .nullable(),
+    externalCode: ExternalCodeSchema.optional().nullable(),
+    aliases: AliasesSchema.optional(),
   })
   .refine(
     (data) => {
@@ -145,25 +161,58 @@ const deleteOrganizationSchema = z.object({
 /**
  * @schema createTemplatedOrganizationsFromDatasetSchema
  * @description Esquema de validación para la creación de organizaciones basadas en plantillas (UC-502).
- * @property {string} templateOrganizationId - ID de la organización plantilla, UUID requerido.
- * @property {string[]} newOrganizationNames - Array de nombres para las nuevas organizaciones, requerido.
+ * La plantilla se indica por su ID o por su código externo (o uno de sus alias).
+ * @property {string} [templateOrganizationId] - ID de la organización plantilla, UUID.
+ * @property {string} [templateOrganizationCode] - Código externo o alias de la organización plantilla.
+ * @property {string[]} newOrganizationNames - Array de nombres para las nuevas organizaciones.
+ * @property {{ name: string; externalCode?: string | null; aliases?: string[] }[]} [newOrganizations] -
+ * Nuevas organizaciones con su código externo y alias (ej. cuando el dataset trae código y nombre).
  * @property {string} datasetFieldName - Nombre del campo del dataset que simula la fuente, requerido.
  */
-const createTemplatedOrganizationsFromDatasetSchema = z.object({
-  templateOrganizationId: z.string().uuid("ID de organización plantilla inválido."),
-  newOrganizationNames: z
-    .array(
-      z
-        .string()
-        .min(1, "El nombre de la organización es requerido.")
-        .max(255, "El nombre no puede exceder los 255 caracteres."),
-    )
-    .min(1, "Debe proporcionar al menos un nombre de organización para crear."),
-  datasetFieldName: z
-    .string()
-    .min(1, "El nombre del campo del dataset es requerido.")
-    .max(255, "El nombre del campo del dataset no puede exceder los 255 caracteres."),
-});
+const createTemplatedOrganizationsFromDatasetSchema = z
+  .object({
+    templateOrganizationId: z
+      .string()
+      .uuid("ID de organización plantilla inválido.")
+      .optional(),
+    templateOrganizationCode: z
+      .string()
+      .trim()
+      .min(1, "El código de la organización plantilla no puede estar vacío.")
+      .optional(),
+    newOrganizationNames: z
+      .array(
+        z
+          .string()
+          .min(1, "El nombre de la organización es requerido.")
+          .max(255, "El nombre no puede exceder los 255 caracteres."),
+      )
+      .default([]),
+    newOrganizations: z
+      .array(
+        z.object({
+          name: z
+            .string()
+            .min(1, "El nombre de la organización es requerido.")
+            .max(255, "El nombre no puede exceder los 255 caracteres."),
+          externalCode: ExternalCodeSchema.optional().nullable(),
+          aliases: AliasesSchema.optional(),
+        }),
+      )
+      .default([]),
+    datasetFieldName: z
+      .string()
+      .min(1, "El nombre del campo del dataset es requerido.")
+      .max(255, "El nombre del campo del dataset no puede exceder los 255 caracteres."),
+  })
+  .refine((data) => !!data.templateOrganizationId || !!data.templateOrganizationCode, {
+    message: "Debe indicar el ID o el código de la organización plantilla.",
+    path: ["templateOrganizationId"],
+  })
+  .refine((data) => data.newOrganizationNames.length + data.newOrganizations.length > 0, {
+    message: "Debe proporcionar al menos un nombre de organización para crear.",
+    path: ["newOrganizationNames"],
+  });
 
 /**
  * @schema getAllOrganizationsSchema
@@ -202,8 +251,18 @@ export async function createOrganizationAction(
     return fail(errorMessage);
   }
 
-  const { name, description, parentId, templateFromDatasetField } =
-    validatedData.data;
+  const {
+    name,
+    description,
+    parentId,
+    templateFromDatasetField,
+    externalCode,
+    aliases,
+  } = validatedData.data;
+
+  // Crear una organización hija exige el permiso sobre el padre; una raíz, el permiso global
+  const denied = await requirePermission(db, userId, "organization:manage", parentId ?? null);
+  if (denied) return denied;
 
   try {
     // Verificar si ya existe una organización con el mismo nombre y padre (o sin padre)
@@ -234,6 +293,10 @@ export async function createOrganizationAction(
       }
     }
 
+    if (externalCode && (await isExternalCodeInUse(db, "organization", externalCode))) {
+      return fail(`Ya existe una organización con el código externo "${externalCode}".`);
+    }
+
     const [newOrganization] = await db
       .insert(organizationsTable)
       .values({
@@ -241,6 +304,8 @@ export async function createOrganizationAction(
         description,
         parentId,
         templateFromDatasetField,
+        externalCode,
+        aliases,
         createdAt: new Date(),
         updatedAt: new Date(),
       })
@@ -288,6 +353,9 @@ export async function getOrganizationByIdAction(
 
   const { id } = validatedData.data;
 
+  const denied = await requireOrganizationVisibility(db, userId, id);
+  if (denied) return denied;
+
   try {
     const organizationArr = await db
       .select()
@@ -338,8 +406,19 @@ export async function updateOrganizationAction(
     return fail(errorMessage);
   }
 
-  const { name, description, parentId, templateFromDatasetField } =
-    validatedData.data;
+  const {
+    name,
+    description,
+    parentId,
+    templateFromDatasetField,
+    externalCode,
+    aliases,
+  } = validatedData.data;
+
+  const denied =
+    (await requirePermission(db, userId, "organization:manage", id)) ??
+    (parentId ? await requirePermission(db, userId, "organization:manage", parentId) : null);
+  if (denied) return denied;
 
   try {
     // Verificar que la organización exista
@@ -410,6 +489,10 @@ export async function updateOrganizationAction(
       }
     }
 
+    if (externalCode && (await isExternalCodeInUse(db, "organization", externalCode, id))) {
+      return fail(`Ya existe otra organización con el código externo "${externalCode}".`);
+    }
+
     // Construir patch solo con campos definidos
     const patch: Partial<typeof organizationsTable.$inferInsert> = {};
     if (name !== undefined) patch.name = name;
@@ -417,6 +500,8 @@ export async function updateOrganizationAction(
     if (parentId !== undefined) patch.parentId = parentId;
     if (templateFromDatasetField !== undefined)
       patch.templateFromDatasetField = templateFromDatasetField;
+    if (externalCode !== undefined) patch.externalCode = externalCode;
+    if (aliases !== undefined) patch.aliases = aliases;
     patch.updatedAt = new Date();
 
     const [updatedOrganization] = await db
@@ -469,6 +554,9 @@ export async function deleteOrganizationAction(
 
   const { id } = validatedData.data;
 
+  const denied = await requirePermission(db, userId, "organization:manage", id);
+  if (denied) return denied;
+
   try {
     const [deletedOrganization] = await db
       .delete(organizationsTable)
@@ -498,9 +586,11 @@ export async function deleteOrganizationAction(
  * @function createTemplatedOrganizationsFromDatasetAction
  * @description Crea múltiples organizaciones hijas a partir de una organización plantilla (UC-502).
  * Replicará la estructura completa de Scorecards y KPIs de la plantilla para cada nueva organización hija.
+ * Un valor del dataset que coincide con el código externo de una organización existente, o con el
+ * nombre o un alias de una organización del mismo nivel, se considera ya creado y se omite.
  */
 export async function createTemplatedOrganizationsFromDatasetAction(
-  data: z.infer<typeof createTemplatedOrganizationsFromDatasetSchema>,
+  data: z.input<typeof createTemplatedOrganizationsFromDatasetSchema>,
 ): Promise<ActionState<SelectOrganization[]>> {
   const { userId } = await auth();
   if (!userId) {
@@ -518,43 +608,61 @@ export async function createTemplatedOrganizationsFromDatasetAction(
     return fail(errorMessage);
   }
 
-  const { templateOrganizationId, newOrganizationNames, datasetFieldName } =
-    validatedData.data;
+  const {
+    templateOrganizationId,
+    templateOrganizationCode,
+    newOrganizationNames,
+    newOrganizations,
+    datasetFieldName,
+  } = validatedData.data;
+  const requestedOrganizations = [
+    ...newOrganizationNames.map((name) => ({
+      name,
+      externalCode: null as string | null | undefined,
+      aliases: undefined as string[] | undefined,
+    })),
+    ...newOrganizations,
+  ];
 
   try {
-    // 1. Verificar que la organización plantilla exista
-    const templateOrgArr = await db
+    // 1. Verificar que la organización plantilla exista (por ID, código externo o alias)
+    const allOrganizations: SelectOrganization[] = await db
       .select()
-      .from(organizationsTable)
-      .where(eq(organizationsTable.id, templateOrganizationId))
-      .limit(1);
-
-    const [templateOrg] = templateOrgArr;
+      .from(organizationsTable);
+    const templateAliasMatches = templateOrganizationCode
+      ? allOrganizations.filter((org) => matchesAlias(org.aliases, templateOrganizationCode))
+      : [];
+    const templateOrg = templateOrganizationId
+      ? allOrganizations.find((org) => org.id === templateOrganizationId)
+      : (allOrganizations.find((org) =>
+          matchesExternalCode(org.externalCode, templateOrganizationCode!),
+        ) ?? (templateAliasMatches.length === 1 ? templateAliasMatches[0] : undefined));
     if (!templateOrg) {
       return fail("La organización plantilla especificada no existe.");
     }
 
+    // Las nuevas organizaciones son hijas de la plantilla
+    const denied = await requirePermission(db, userId, "organization:manage", templateOrg.id);
+    if (denied) return denied;
+
     const createdOrganizations: SelectOrganization[] = [];
 
     await db.transaction(async (tx) => {
-      for (const newOrgName of newOrganizationNames) {
-        // Verificar unicidad del nombre bajo el padre de la plantilla (o el mismo nivel si la plantilla no tiene padre)
-        const existingOrg = await tx
-          .select()
-          .from(organizationsTable)
-          .where(
-            and(
-              eq(organizationsTable.name, newOrgName),
-              templateOrg.parentId !== null
-                ? eq(organizationsTable.parentId, templateOrg.parentId)
-                : isNull(organizationsTable.parentId),
-            ),
-          )
-          .limit(1);
-
-        if (existingOrg.length > 0) {
+      for (const requested of requestedOrganizations) {
+        const newOrgName = requested.name;
+        // Verificar unicidad bajo el padre de la plantilla (o el mismo nivel si la plantilla no tiene padre):
+        // por nombre o alias en ese nivel, y por código externo en cualquier organización
+        const code = requested.externalCode ?? newOrgName;
+        const existingOrg = allOrganizations.find(
+          (org) =>
+            matchesExternalCode(org.externalCode, code) ||
+            (org.parentId === templateOrg.parentId &&
+              (org.name === newOrgName || matchesAlias(org.aliases, newOrgName))),
+        );
+
+        if (existingOrg) {
           logger.warn(
-            `Skipping creation of organization "${newOrgName}" as it already exists in this level.`,
+            `Skipping creation of organization "${newOrgName}" as it already exists as "${existingOrg.name}".`,
           );
           continue; // Saltar esta organización y continuar con la siguiente
         }
@@ -567,6 +675,8 @@ export async function createTemplatedOrganizationsFromDatasetAction(
             description: `Organización generada a partir de plantilla "${templateOrg.name}" para el campo "${datasetFieldName}".`,
             parentId: templateOrg.id, // Las nuevas organizaciones son hijas de la plantilla
             templateFromDatasetField: datasetFieldName,
+            externalCode: requested.externalCode ?? null,
+            aliases: requested.aliases ?? [],
             createdAt: new Date(),
             updatedAt: new Date(),
           })
@@ -574,6 +684,7 @@ export async function createTemplatedOrganizationsFromDatasetAction(
 
         if (newOrganization) {
           createdOrganizations.push(newOrganization);
+          allOrganizations.push(newOrganization);
           // Replicar la estructura del Scorecard de la plantilla a la nueva organización
           await replicateScorecardStructure(
             tx,
@@ -592,7 +703,7 @@ export async function createTemplatedOrganizationsFromDatasetAction(
     logger.info(
       `Se crearon ${createdOrganizations.length} organizaciones basadas en plantilla exitosamente.`,
       {
-        templateOrganizationId,
+        templateOrganizationId: templateOrg.id,
         newOrganizationNames: createdOrganizations.map((o) => o.name),
       },
     );
@@ -616,6 +727,8 @@ export async function createTemplatedOrganizationsFromDatasetAction(
  * @description Obtiene una lista de todas las organizaciones en la base de datos (UC-500).
  * Opcionalmente, puede filtrar organizaciones por su parentId para obtener sus hijos directos.
  * Si parentId es null/undefined, devuelve todas las organizaciones de nivel superior (sin padre).
+ * Solo incluye las organizaciones que el usuario puede ver; una organización visible cuyo padre no
+ * lo es se devuelve como de nivel superior, para que los permisos de un subárbol sigan accesibles.
  */
 export async function getAllOrganizationsAction(
   data?: z.infer<typeof getAllOrganizationsSchema>,
@@ -636,15 +749,17 @@ export async function getAllOrganizationsAction(
   const { parentId } = validatedData.data || {};
 
   try {
-    const organizations = await db
-      .select()
-      .from(organizationsTable)
-      .where(
-        parentId === undefined || parentId === null
-          ? isNull(organizationsTable.parentId)
-          : eq(organizationsTable.parentId, parentId),
-      )
-      .orderBy(organizationsTable.name); // Ordenar por nombre para consistencia
+    const canView = await loadOrganizationVisibility(db, userId);
+    const visibleOrganizations = (
+      await db.select().from(organizationsTable).orderBy(organizationsTable.name) // Ordenar por nombre para consistencia
+    ).filter((org) => canView(org.id));
+    const visibleIds = new Set(visibleOrganizations.map((org) => org.id));
+
+    const organizations = visibleOrganizations.filter((org) =>
+      parentId === undefined || parentId === null
+        ? !org.parentId || !visibleIds.has(org.parentId)
+        : org.parentId === parentId,
+    );
 
     return ok("Organizaciones obtenidas exitosamente.", organizations);
   } catch (error) {
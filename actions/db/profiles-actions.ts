@@ -4,18 +4,21 @@
  * @description Este archivo contiene funciones del lado del servidor para crear,
  * leer y eliminar perfiles de usuario en la base de datos local. Estos perfiles
  * complementan la información de usuario de Clerk con datos específicos de la aplicación,
- * como la membresía y los IDs de suscripción/cliente de Stripe.
+ * como la membresía, los IDs de suscripción/cliente de Stripe y la preferencia de entrega de alertas.
  * Las funciones aseguran la autenticación del usuario y la validación de los datos de entrada.
+ * Modificar el perfil de otro usuario (o los campos de membresía y estado del propio) exige el
+ * permiso `user:manage`; la sincronización con Stripe vive en `actions/stripe-actions.ts`.
  */
 "use server";
 
 import { db } from "@/db/db";
 import { profilesTable, SelectProfile, InsertProfile } from "@/db/schema";
-import { ActionState, ok, fail } from "@/types";
+import { ActionState, ok, fail, ALERT_DELIVERY_MODES } from "@/types";
 import { auth } from "@clerk/nextjs/server";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 import { getLogger } from "@/lib/logger";
+import { requirePermission } from "@/lib/authorization";
 import { groupMembersTable } from "@/db/schema/group-members-schema"; // Importar tabla de miembros de grupo
 import { groupsTable } from "@/db/schema/groups-schema"; // Importar tabla de grupos
 import { relations } from "drizzle-orm"; // Importar relations
@@ -54,6 +57,17 @@ const createDeltaOneUserSchema = z.object({
   groupIds: z.array(z.string().uuid("ID de grupo inválido.")).optional(),
 });
 
+/**
+ * @schema updateAlertDeliveryModeSchema
+ * @description Esquema de validación para la preferencia de entrega de alertas del usuario.
+ * @property {string} alertDeliveryMode - 'immediate', 'daily_digest' o 'weekly_digest'.
+ */
+const updateAlertDeliveryModeSchema = z.object({
+  alertDeliveryMode: z.enum(ALERT_DELIVERY_MODES, {
+    errorMap: () => ({ message: "Modo de entrega de alertas inválido." }),
+  }),
+});
+
 /* -------------------------------------------------------------------------- */
 /*                                  Server Actions                            */
 /* -------------------------------------------------------------------------- */
@@ -92,6 +106,13 @@ export async function createDeltaOneUserAction(
 
   const { userId, groupIds, email } = validatedData.data;
 
+  // Un usuario autenticado que da de alta a otro necesita `user:manage`; los procesos del sistema
+  // (webhook de Clerk) y la sincronización del propio perfil no lo requieren
+  if (currentAuthUserId && currentAuthUserId !== userId) {
+    const denied = await requirePermission(db, currentAuthUserId, "user:manage");
+    if (denied) return denied;
+  }
+
   try {
     const existingProfile = await firstOrUndefined(
       db.select().from(profilesTable).where(eq(profilesTable.userId, userId)),
@@ -239,8 +260,11 @@ export async function deleteProfileAction(userId: string): Promise<ActionState<u
     logger.warn("Unauthorized attempt to delete user profile.");
     return fail("No autorizado. Debe iniciar sesión.");
   }
-  // In a real application, implement robust authorization checks here
-  // e.g., only an admin or the user themselves can delete their profile
+  // Solo el propio usuario o quien tenga `user:manage` puede eliminar un perfil
+  if (currentAuthUserId !== userId) {
+    const denied = await requirePermission(db, currentAuthUserId, "user:manage");
+    if (denied) return denied;
+  }
 
   try {
     const [deletedProfile] = await db
@@ -295,10 +319,25 @@ export async function getAllProfilesAction(): Promise<ActionState<SelectProfile[
 /*                Backwards-compat actions esperadas por otros módulos        */
 /* -------------------------------------------------------------------------- */
 
-/** @deprecated Usa createDeltaOneUserAction o getOrCreateProfileAction */
+/**
+ * @deprecated Usa createDeltaOneUserAction o getOrCreateProfileAction.
+ * Cada usuario puede crear su propio perfil con los valores por defecto; crear otro perfil o fijar
+ * sus campos exige `user:manage`.
+ */
 export async function createProfileAction(
   data: InsertProfile
 ): Promise<ActionState<SelectProfile>> {
+  const { userId: currentAuthUserId } = await auth();
+  if (!currentAuthUserId) {
+    logger.warn("Unauthorized attempt to create user profile.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+  const isOwnDefaultProfile = data.userId === currentAuthUserId && Object.keys(data).every((key) => key === "userId");
+  if (!isOwnDefaultProfile) {
+    const denied = await requirePermission(db, currentAuthUserId, "user:manage");
+    if (denied) return denied;
+  }
+
   try {
     const [newProfile] = await db
       .insert(profilesTable)
@@ -321,11 +360,22 @@ export async function createProfileAction(
   }
 }
 
-/** @deprecated Usada por módulos antiguos, reemplazar por flows de sincronización */
+/**
+ * @deprecated Usada por módulos antiguos, reemplazar por flows de sincronización.
+ * Exige `user:manage`: permite cambiar la membresía y el estado (`isActive`) de cualquier perfil.
+ */
 export async function updateProfileAction(
   userId: string,
   data: Partial<InsertProfile>
 ): Promise<ActionState<SelectProfile>> {
+  const { userId: currentAuthUserId } = await auth();
+  if (!currentAuthUserId) {
+    logger.warn("Unauthorized attempt to update user profile.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+  const denied = await requirePermission(db, currentAuthUserId, "user:manage");
+  if (denied) return denied;
+
   try {
     const [updatedProfile] = await db
       .update(profilesTable)
@@ -346,31 +396,6 @@ export async function updateProfileAction(
   }
 }
 
-/** @deprecated Usada en stripe-actions.ts para mantener compatibilidad */
-export async function updateProfileByStripeCustomerIdAction(
-  stripeCustomerId: string,
-  data: Partial<InsertProfile>
-): Promise<ActionState<SelectProfile>> {
-  try {
-    const [updatedProfile] = await db
-      .update(profilesTable)
-      .set({ ...data, updatedAt: new Date() } as Partial<InsertProfile>)
-      .where(eq(profilesTable.stripeCustomerId, stripeCustomerId))
-      .returning();
-
-    if (!updatedProfile) return fail("Profile not found by Stripe customer ID");
-
-    logger.info(`Profile updated by Stripe customer ID successfully: ${stripeCustomerId}`);
-    return ok("Profile updated by Stripe customer ID successfully", updatedProfile);
-  } catch (error) {
-    logger.error(
-      `Error updating profile by stripe customer ID: ${error instanceof Error ? error.message : String(error)}`,
-      { stripeCustomerId }
-    );
-    return fail("Failed to update profile by Stripe customer ID");
-  }
-}
-
 /* ----------------------- Helpers adicionales opcionales ------------------- */
 
 /** Compat getter por stripeCustomerId */
@@ -396,11 +421,24 @@ export async function getProfileByStripeCustomerIdAction(
   }
 }
 
-/** Compat get-or-create usado por algunos módulos antiguos */
+/**
+ * Compat get-or-create usado por algunos módulos antiguos.
+ * Sin `patch`, cada usuario puede obtener o crear su propio perfil; lo demás exige `user:manage`.
+ */
 export async function getOrCreateProfileAction(
   userId: string,
   patch?: Partial<InsertProfile>
 ): Promise<ActionState<SelectProfile>> {
+  const { userId: currentAuthUserId } = await auth();
+  if (!currentAuthUserId) {
+    logger.warn("Unauthorized attempt to get or create user profile.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+  if (userId !== currentAuthUserId || (patch && Object.keys(patch).length > 0)) {
+    const denied = await requirePermission(db, currentAuthUserId, "user:manage");
+    if (denied) return denied;
+  }
+
   try {
     const existing = await db
       .select()
@@ -434,4 +472,56 @@ export async function getOrCreateProfileAction(
       }`
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * @function updateMyAlertDeliveryModeAction
+ * @description Actualiza cómo recibe el usuario actual las alertas por correo: de inmediato o
+ * agrupadas en un resumen diario o semanal.
+ * @param {z.infer<typeof updateAlertDeliveryModeSchema>} data - Nuevo modo de entrega.
+ * @returns {Promise<ActionState<SelectProfile>>} El perfil actualizado o un mensaje de error.
+ */
+export async function updateMyAlertDeliveryModeAction(
+  data: z.infer<typeof updateAlertDeliveryModeSchema>,
+): Promise<ActionState<SelectProfile>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to update alert delivery mode.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const validatedData = updateAlertDeliveryModeSchema.safeParse(data);
+  if (!validatedData.success) {
+    const errorMessage = validatedData.error.errors.map((e) => e.message).join(", ");
+    logger.error(`Validation error for updateMyAlertDeliveryModeAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  try {
+    const [updatedProfile] = await db
+      .update(profilesTable)
+      .set({
+        alertDeliveryMode: validatedData.data.alertDeliveryMode,
+        updatedAt: new Date(),
+      })
+      .where(eq(profilesTable.userId, userId))
+      .returning();
+
+    if (!updatedProfile) return fail("Perfil de usuario no encontrado.");
+
+    logger.info(
+      `Alert delivery mode set to ${validatedData.data.alertDeliveryMode} for user ${userId}`,
+    );
+    return ok("Preferencia de alertas actualizada exitosamente.", updatedProfile);
+  } catch (error) {
+    logger.error(
+      `Error updating alert delivery mode: ${error instanceof Error ? error.message : String(error)}`,
+      { userId },
+    );
+    return fail(
+      `Fallo al actualizar la preferencia de alertas: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+}
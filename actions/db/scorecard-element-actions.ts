@@ -4,7 +4,9 @@
  * @description Este archivo contiene funciones del lado del servidor para crear, leer,
  * actualizar, eliminar y reordenar elementos del Scorecard (perspectivas, objetivos,
  * iniciativas, KPIs). Asegura la validación de datos, la unicidad en la jerarquía
- * y la protección de accesos no autorizados.
+ * y la protección de accesos no autorizados: las acciones que modifican elementos exigen el
+ * permiso `scorecard_element:manage` sobre su organización y las de lectura, que el usuario pueda
+ * ver la organización.
  */
 
 "use server"
@@ -16,11 +18,17 @@ import {
   scorecardElementsTable,
   scorecardElementTypeEnum,
 } from "@/db/schema"
-import { ActionState } from "@/types"
+import { ActionState, ScorecardScoresResult } from "@/types"
 import { auth } from "@clerk/nextjs/server"
-import { and, eq, isNull, ne, asc } from "drizzle-orm";
+import { and, eq, inArray, isNull, ne, asc } from "drizzle-orm";
 import { z } from "zod"
 import { getLogger } from "@/lib/logger"
+import { getScorecardScores, invalidateScorecardScores } from "@/lib/scorecard-scoring"
+import {
+  getScorecardElementOrganizationId,
+  requireOrganizationVisibility,
+  requirePermission,
+} from "@/lib/authorization"
 
 const logger = getLogger("scorecard-element-actions")
 
@@ -34,6 +42,16 @@ async function firstOrUndefined<T>(q: Promise<T[]>): Promise<T | undefined> {
   return rows[0];
 }
 
+// Invalida la caché de puntuaciones agregadas tras cambiar la estructura o los pesos del Scorecard.
+// Best-effort: un fallo aquí no revierte la operación (la caché se recalcula al leerla).
+async function invalidateScoresForOrganizations(organizationIds: string[]): Promise<void> {
+  try {
+    await invalidateScorecardScores(db, [...new Set(organizationIds)]);
+  } catch (error) {
+    logger.warn(`Failed to invalidate scorecard scores: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 
 /**
  * @schema createScorecardElementSchema
@@ -121,6 +139,21 @@ const reorderScorecardElementsSchema = z
   .array(reorderScorecardElementItemSchema)
   .min(1, "Debe enviar al menos un elemento a reordenar.");
 
+/**
+ * @schema getScorecardScoresSchema
+ * @description Esquema de validación para obtener las puntuaciones del Scorecard de una organización.
+ * @property {string} organizationId - ID de la organización, UUID requerido.
+ * @property {string} periodDate - Período en formato YYYY-MM-DD, opcional y nullable.
+ */
+const getScorecardScoresSchema = z.object({
+  organizationId: z.string().uuid("ID de organización inválido."),
+  periodDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "El período debe tener el formato YYYY-MM-DD.")
+    .optional()
+    .nullable(),
+});
+
 
 /**
  * @function createScorecardElementAction
@@ -157,6 +190,14 @@ export async function createScorecardElementAction(
     return { isSuccess: false, message: errorMessage };
   }
 
+  const denied = await requirePermission(
+    db,
+    userId,
+    "scorecard_element:manage",
+    validatedData.data.organizationId,
+  );
+  if (denied) return denied;
+
   try {
     // Verificar si ya existe un elemento con el mismo nombre, organizationId y parentId
     const payload = validatedData.data; // tipado fuerte para Drizzle
@@ -204,6 +245,8 @@ export async function createScorecardElementAction(
       return { isSuccess: false, message: "Fallo al crear el elemento de Scorecard." };
     }
 
+    await invalidateScoresForOrganizations([newElement.organizationId]);
+
     logger.info(`Scorecard element created successfully: ${newElement.id} - ${newElement.name}`);
     return { isSuccess: true, message: "Elemento de Scorecard creado exitosamente.", data: newElement };
   } catch (error) {
@@ -254,6 +297,9 @@ export async function getScorecardElementsAction(
     }
   }
 
+  const denied = await requireOrganizationVisibility(db, userId, organizationId);
+  if (denied) return denied;
+
   try {
     //const whereConditions = [eq(scorecardElementsTable.organizationId, organizationId)];
     const whereConditions = [eq(scorecardElementsTable.organizationId, organizationId)];
@@ -320,6 +366,19 @@ export async function updateScorecardElementAction(
 
   const { id: elementId, ...updateData } = validatedPayload.data;
 
+  // Se exige el permiso en la organización actual del elemento y, si se mueve, también en la nueva
+  const denied =
+    (await requirePermission(
+      db,
+      userId,
+      "scorecard_element:manage",
+      await getScorecardElementOrganizationId(db, elementId),
+    )) ??
+    (updateData.organizationId
+      ? await requirePermission(db, userId, "scorecard_element:manage", updateData.organizationId)
+      : null);
+  if (denied) return denied;
+
   try {
     // Prevenir que un elemento sea su propio padre
     if (updateData.parentId === elementId) {
@@ -394,6 +453,8 @@ export async function updateScorecardElementAction(
       return { isSuccess: false, message: "Fallo al actualizar el elemento de Scorecard." };
     }
 
+    await invalidateScoresForOrganizations([existingElement.organizationId, updatedElement.organizationId]);
+
     logger.info(`Scorecard element updated successfully: ${updatedElement.id} - ${updatedElement.name}`);
     return { isSuccess: true, message: "Elemento de Scorecard actualizado exitosamente.", data: updatedElement };
   } catch (error) {
@@ -430,6 +491,14 @@ export async function deleteScorecardElementAction(
     return { isSuccess: false, message: errorMessage };
   }
 
+  const denied = await requirePermission(
+    db,
+    userId,
+    "scorecard_element:manage",
+    await getScorecardElementOrganizationId(db, validatedId.data.id),
+  );
+  if (denied) return denied;
+
   try {
     const [deletedElement] = await db
       .delete(scorecardElementsTable)
@@ -441,6 +510,8 @@ export async function deleteScorecardElementAction(
         return { isSuccess: false, message: "Elemento de Scorecard no encontrado o ya eliminado." };
     }
 
+    await invalidateScoresForOrganizations([deletedElement.organizationId]);
+
     logger.info(`Scorecard element deleted successfully: ${validatedId.data.id}`);
     return { isSuccess: true, message: "Elemento de Scorecard eliminado exitosamente." };
   } catch (error) {
@@ -484,6 +555,17 @@ export async function reorderScorecardElementsAction(
     return { isSuccess: false, message: errorMessage };
   }
 
+  const elementOrganizations: { organizationId: string }[] = validatedElements.data.length
+    ? await db
+        .selectDistinct({ organizationId: scorecardElementsTable.organizationId })
+        .from(scorecardElementsTable)
+        .where(inArray(scorecardElementsTable.id, validatedElements.data.map(e => e.id)))
+    : [];
+  for (const { organizationId } of elementOrganizations) {
+    const denied = await requirePermission(db, userId, "scorecard_element:manage", organizationId);
+    if (denied) return denied;
+  }
+
   try {
     await db.transaction(async (tx) => {
       for (const element of validatedElements.data) {
@@ -507,6 +589,13 @@ export async function reorderScorecardElementsAction(
       }
     });
 
+    // Los cambios de padre alteran la agregación de puntuaciones
+    const affected = await db
+      .selectDistinct({ organizationId: scorecardElementsTable.organizationId })
+      .from(scorecardElementsTable)
+      .where(inArray(scorecardElementsTable.id, validatedElements.data.map(e => e.id)));
+    await invalidateScoresForOrganizations(affected.map(row => row.organizationId));
+
     logger.info(`Scorecard elements reordered successfully.`);
     return { isSuccess: true, message: "Elementos de Scorecard reordenados exitosamente." };
   } catch (error) {
@@ -514,4 +603,47 @@ export async function reorderScorecardElementsAction(
     logger.error(`Error reordering scorecard elements: ${error instanceof Error ? error.message : String(error)}`);
     return { isSuccess: false, message: "Fallo al reordenar los elementos de Scorecard." };
   }
-}
\ No newline at end of file
+}
+/**
+ * @function getScorecardScoresAction
+ * @description Obtiene la puntuación y el color de todos los elementos del Scorecard de una organización
+ * para un período: los KPIs con la puntuación de su valor y las perspectivas, objetivos e iniciativas
+ * con el promedio ponderado (según `weight`) de sus hijos.
+ * @param {string} organizationId - El ID de la organización.
+ * @param {string | null} [periodDate] - Período (YYYY-MM-DD); por defecto, el más reciente con valores de KPI.
+ * @returns {Promise<ActionState<ScorecardScoresResult>>} El período evaluado y la puntuación de cada elemento.
+ * @notes
+ *   - Las puntuaciones agregadas se leen de la caché `scorecard_element_scores` y se recalculan si falta.
+ *   - Los hijos sin datos se tratan según la política `score_missing_data_policy`.
+ */
+export async function getScorecardScoresAction(
+  organizationId: string,
+  periodDate?: string | null,
+): Promise<ActionState<ScorecardScoresResult>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to retrieve scorecard scores.");
+    return { isSuccess: false, message: "No autorizado. Debe iniciar sesión." };
+  }
+
+  const validated = getScorecardScoresSchema.safeParse({ organizationId, periodDate });
+  if (!validated.success) {
+    const errorMessage = validated.error.errors.map(e => e.message).join(", ");
+    logger.error(`Validation error for getScorecardScoresAction: ${errorMessage}`);
+    return { isSuccess: false, message: errorMessage };
+  }
+
+  const denied = await requireOrganizationVisibility(db, userId, validated.data.organizationId);
+  if (denied) return denied;
+
+  try {
+    const result = await getScorecardScores(db, validated.data.organizationId, validated.data.periodDate);
+    logger.info(`Retrieved ${result.scores.length} scorecard scores for organization ${organizationId}.`, {
+      periodDate: result.periodDate,
+    });
+    return { isSuccess: true, message: "Puntuaciones del Scorecard obtenidas exitosamente.", data: result };
+  } catch (error) {
+    logger.error(`Error retrieving scorecard scores: ${error instanceof Error ? error.message : String(error)}`);
+    return { isSuccess: false, message: "Fallo al obtener las puntuaciones del Scorecard." };
+  }
+}
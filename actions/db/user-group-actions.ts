@@ -6,6 +6,7 @@
  *  - Se mantiene TODO el contrato público de v1 (mismas funciones, payloads y semánticas).
  *  - Se agrega **getUserPermissionsMapAction** (mejora v2) que consolida permisos del usuario
  *    en un `UserPermissionsMap` (fuente única de verdad para checks en UI/backend).
+ *  - `getEffectivePermissionsAction` explica qué regla concede o deniega cada permiso efectivo.
  *  - Se mantiene `assignRollupTreeGroupPermissionsAction` con soporte de descendientes.
  *  - Se mantiene la corrección UC-401 con importación masiva desde CSV Base64 (parser interno).
  */
@@ -34,11 +35,16 @@ import { z } from "zod";
 import { getLogger } from "@/lib/logger";
 import crypto from "crypto";
 import { getDescendantOrganizations } from "@/lib/organization-utils";
+import {
+  explainUserEffectivePermissions,
+  loadUserPermissionsMap,
+  requirePermission,
+} from "@/lib/authorization";
 
 /** Mejora v2: tipos y utilidades de permisos (compatibles con v1) */
 import {
+  EffectivePermissionExplanation,
   UserPermissionsMap,
-  toOrgScope, // normaliza organizationId -> OrgScope ('global' | uuid)
 } from "@/types/permissions-types";
 
 const logger = getLogger("user-group-actions");
@@ -172,6 +178,11 @@ const deactivateUserSchema = z.object({
   userId: z.string().min(1, "El ID de usuario es requerido."),
 });
 
+const getEffectivePermissionsSchema = z.object({
+  userId: z.string().min(1, "El ID de usuario es requerido."),
+  organizationId: z.string().uuid("ID de organización inválido.").nullable().optional(),
+});
+
 /* -------------------------------------------------------------------------- */
 /*                               Group Actions                                */
 /* -------------------------------------------------------------------------- */
@@ -184,6 +195,10 @@ export async function createGroupAction(
 
   const parsed = createGroupSchema.safeParse(data);
   if (!parsed.success) return fail(formatZodError(parsed.error));
+
+  const denied = await requirePermission(db, userId, "group:manage");
+  if (denied) return denied;
+
   const { name, groupType } = parsed.data;
 
   const existing = await db
@@ -238,6 +253,10 @@ export async function updateGroupAction(
 
   const parsed = updateGroupSchema.safeParse(data);
   if (!parsed.success) return fail(formatZodError(parsed.error));
+
+  const denied = await requirePermission(db, userId, "group:manage");
+  if (denied) return denied;
+
   const { id, name, groupType } = parsed.data;
 
   const [existing] = await db
@@ -274,6 +293,10 @@ export async function deleteGroupAction(
 
   const parsed = deleteGroupSchema.safeParse(data);
   if (!parsed.success) return fail(formatZodError(parsed.error));
+
+  const denied = await requirePermission(db, userId, "group:manage");
+  if (denied) return denied;
+
   const { id } = parsed.data;
 
   const [deleted] = await db.delete(groupsTable).where(eq(groupsTable.id, id)).returning();
@@ -290,6 +313,10 @@ export async function assignGroupMembersAction(
 
   const parsed = assignGroupMembersSchema.safeParse(data);
   if (!parsed.success) return fail(formatZodError(parsed.error));
+
+  const denied = await requirePermission(db, userId, "group:assign_members");
+  if (denied) return denied;
+
   const { groupId, userIds } = parsed.data;
 
   // Verificar grupo (mantener v1)
@@ -320,6 +347,10 @@ export async function assignGroupPermissionsAction(
 
   const parsed = assignGroupPermissionsSchema.safeParse(data);
   if (!parsed.success) return fail(formatZodError(parsed.error));
+
+  const denied = await requirePermission(db, userId, "group:assign_permissions");
+  if (denied) return denied;
+
   const { groupId, permissions } = parsed.data;
 
   // Verificar grupo
@@ -363,6 +394,9 @@ export async function assignRollupTreeGroupPermissionsAction(
   const { groupId, permissionKey, permissionValue, organizationId, applyToDescendants } =
     parsed.data;
 
+  const denied = await requirePermission(db, userId, "group:assign_permissions", organizationId);
+  if (denied) return denied;
+
   // Verificar grupo
   const [group] = await db.select().from(groupsTable).where(eq(groupsTable.id, groupId)).limit(1);
   if (!group) return fail("Grupo no encontrado.");
@@ -422,6 +456,9 @@ export async function createDeltaOneUserAction(
   const parsed = createDeltaOneUserSchema.safeParse(data);
   if (!parsed.success) return fail(formatZodError(parsed.error));
 
+  const denied = await requirePermission(db, current, "user:manage");
+  if (denied) return denied;
+
   const { userId, groupIds, email } = parsed.data;
 
   let profile: SelectProfile;
@@ -511,6 +548,9 @@ export async function updateDeltaOneUserAction(
   const parsed = updateDeltaOneUserSchema.safeParse(data);
   if (!parsed.success) return fail(formatZodError(parsed.error));
 
+  const denied = await requirePermission(db, current, "user:manage");
+  if (denied) return denied;
+
   const { userId, email, groupIds } = parsed.data;
 
   const [existing] = await db
@@ -558,6 +598,10 @@ export async function deactivateDeltaOneUserAction(
 
   const parsed = deactivateDeltaOneUserSchema.safeParse(data);
   if (!parsed.success) return fail(formatZodError(parsed.error));
+
+  const denied = await requirePermission(db, current, "user:manage");
+  if (denied) return denied;
+
   const { userId } = parsed.data;
 
   const [existing] = await db
@@ -650,6 +694,9 @@ export async function bulkImportUsersAction(
     return fail(errorMessage);
   }
 
+  const denied = await requirePermission(db, current, "user:manage");
+  if (denied) return denied;
+
   const { fileName, fileContentBase64 } = validated.data;
 
   // Por ahora soportamos sólo CSV para parsing server-side sin librerías externas.
@@ -874,6 +921,9 @@ export async function updateUserAction(
     return fail(formatZodError(validated.error));
   }
 
+  const denied = await requirePermission(db, currentAuthUserId, "user:manage");
+  if (denied) return denied;
+
   const { userId, email, membership } = validated.data;
 
   // Verificar existencia del perfil
@@ -933,6 +983,9 @@ export async function deactivateUserAction(
     return fail(formatZodError(validated.error));
   }
 
+  const denied = await requirePermission(db, currentAuthUserId, "user:manage");
+  if (denied) return denied;
+
   const { userId } = validated.data;
 
   // Verificar existencia del perfil
@@ -1020,8 +1073,10 @@ export async function getUserPermissionsAction(): Promise<ActionState<SelectGrou
  * en un `UserPermissionsMap`.
  *
  * Reglas:
- * - Sólo mapeamos `permissionValue = true` (activos). Ausencia => false.
+ * - Cada grupo aporta su fila explícita (de la organización o global) o, sin filas, el permiso por
+ *   defecto de su tipo; los grupos View Only no conceden nada. Basta con que un grupo lo conceda.
  * - Se respeta el scope por organización y el scope 'global' para `organizationId = null`.
+ * - Es el mismo mapa con el que `requirePermission` autoriza las Server Actions.
  */
 export async function getUserPermissionsMapAction(): Promise<ActionState<UserPermissionsMap>> {
   const { userId } = await auth();
@@ -1031,38 +1086,8 @@ export async function getUserPermissionsMapAction(): Promise<ActionState<UserPer
   }
 
   try {
-    // 1) Obtener todos los grupos a los que pertenece el usuario
-    const userGroups = await db
-      .select({ groupId: groupMembersTable.groupId })
-      .from(groupMembersTable)
-      .where(eq(groupMembersTable.userId, userId));
-
-    const groupIds = userGroups.map((gm) => gm.groupId);
-    if (groupIds.length === 0) {
-      logger.info(`User ${userId} is not part of any group. No permissions found.`);
-      return ok("Mapa de permisos obtenido exitosamente.", {} as UserPermissionsMap);
-    }
-
-    // 2) Obtener permisos concedidos (true) para esos grupos
-    const rawPermissions = await db
-      .select()
-      .from(groupPermissionsTable)
-      .where(
-        and(
-          inArray(groupPermissionsTable.groupId, groupIds),
-          eq(groupPermissionsTable.permissionValue, true),
-        ),
-      );
-
-    // 3) Consolidar en `UserPermissionsMap`
-    const map: UserPermissionsMap = {};
-
-    for (const perm of rawPermissions) {
-      const scope = toOrgScope(perm.organizationId);
-      map[perm.permissionKey] ??= {};
-      // Si hay duplicados por el mismo scope, true prevalece (ya es true).
-      map[perm.permissionKey][scope] = true;
-    }
+    // Mismo mapa que usa la guarda de autorización de las Server Actions (lib/authorization.ts)
+    const map = await loadUserPermissionsMap(db, userId);
 
     logger.info(`User ${userId} permissions map loaded.`, {
       keys: Object.keys(map).length,
@@ -1076,3 +1101,48 @@ export async function getUserPermissionsMapAction(): Promise<ActionState<UserPer
     return fail("Fallo al obtener el mapa de permisos del usuario.");
   }
 }
+
+/**
+ * Explica los permisos efectivos de un usuario en una organización (o globales): para cada
+ * permiso, si lo tiene y qué regla y qué grupo lo concedieron o denegaron (fila explícita, permiso
+ * por defecto del tipo de grupo, grupo de solo lectura, configuración inicial o sin grupos).
+ * Consultar a otro usuario requiere `user:manage`.
+ */
+export async function getEffectivePermissionsAction(
+  data: z.infer<typeof getEffectivePermissionsSchema>,
+): Promise<ActionState<EffectivePermissionExplanation[]>> {
+  const { userId } = await auth();
+  if (!userId) {
+    logger.warn("Unauthorized attempt to explain effective permissions.");
+    return fail("No autorizado. Debe iniciar sesión.");
+  }
+
+  const parsed = getEffectivePermissionsSchema.safeParse(data);
+  if (!parsed.success) {
+    const errorMessage = formatZodError(parsed.error);
+    logger.error(`Validation error for getEffectivePermissionsAction: ${errorMessage}`);
+    return fail(errorMessage);
+  }
+
+  const { userId: targetUserId, organizationId } = parsed.data;
+
+  if (targetUserId !== userId) {
+    const denied = await requirePermission(db, userId, "user:manage");
+    if (denied) return denied;
+  }
+
+  try {
+    const explanations = await explainUserEffectivePermissions(
+      db,
+      targetUserId,
+      organizationId ?? null,
+    );
+    return ok("Permisos efectivos obtenidos exitosamente.", explanations);
+  } catch (error: any) {
+    logger.error(`Error explaining effective permissions: ${error?.message ?? String(error)}`, {
+      targetUserId,
+      organizationId,
+    });
+    return fail("Fallo al obtener los permisos efectivos del usuario.");
+  }
+}
@@ -1,13 +1,13 @@
 /*
 Contains server actions related to Stripe.
+The profile updates run only from the Stripe webhook (signature verified there), so they write the
+profiles table directly instead of going through the user-guarded profile server actions.
 */
 
-import {
-  updateProfileAction,
-  updateProfileByStripeCustomerIdAction
-} from "@/actions/db/profiles-actions"
-import { SelectProfile } from "@/db/schema"
+import { db } from "@/db/db"
+import { InsertProfile, profilesTable, SelectProfile } from "@/db/schema"
 import { stripe } from "@/lib/stripe"
+import { eq, SQL } from "drizzle-orm"
 import Stripe from "stripe"
 
 type MembershipStatus = SelectProfile["membership"]
@@ -32,6 +32,18 @@ const getMembershipStatus = (
   }
 }
 
+const updateProfileWhere = async (
+  where: SQL,
+  data: Partial<InsertProfile>
+): Promise<SelectProfile | undefined> => {
+  const [updatedProfile] = await db
+    .update(profilesTable)
+    .set({ ...data, updatedAt: new Date() })
+    .where(where)
+    .returning()
+  return updatedProfile
+}
+
 const getSubscription = async (subscriptionId: string) => {
   return stripe.subscriptions.retrieve(subscriptionId, {
     expand: ["default_payment_method"]
@@ -50,16 +62,16 @@ export const updateStripeCustomer = async (
 
     const subscription = await getSubscription(subscriptionId)
 
-    const result = await updateProfileAction(userId, {
-      stripeCustomerId: customerId,
-      stripeSubscriptionId: subscription.id
-    })
+    const updatedProfile = await updateProfileWhere(
+      eq(profilesTable.userId, userId),
+      { stripeCustomerId: customerId, stripeSubscriptionId: subscription.id }
+    )
 
-    if (!result.isSuccess) {
+    if (!updatedProfile) {
       throw new Error("Failed to update customer profile")
     }
 
-    return result.data
+    return updatedProfile
   } catch (error) {
     console.error("Error in updateStripeCustomer:", error)
     throw error instanceof Error
@@ -95,12 +107,12 @@ export const manageSubscriptionStatusChange = async (
       membership
     )
 
-    const updateResult = await updateProfileByStripeCustomerIdAction(
-      customerId,
+    const updatedProfile = await updateProfileWhere(
+      eq(profilesTable.stripeCustomerId, customerId),
       { stripeSubscriptionId: subscription.id, membership: membershipStatus }
     )
 
-    if (!updateResult.isSuccess) {
+    if (!updatedProfile) {
       throw new Error("Failed to update subscription status")
     }
 
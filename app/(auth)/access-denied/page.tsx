@@ -0,0 +1,58 @@
+/*
+This server page explains why the middleware blocked access to an application route.
+*/
+
+"use server"
+
+import Link from "next/link"
+import { SignOutButton } from "@clerk/nextjs"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card"
+import type { RouteAccessDenialReason } from "@/lib/route-access"
+
+const DENIAL_MESSAGES: Record<RouteAccessDenialReason, string> = {
+  inactive:
+    "Tu usuario está desactivado. Contacta a un administrador para reactivarlo.",
+  no_groups:
+    "Tu usuario aún no pertenece a ningún grupo. Un administrador debe asignarte a uno para acceder a la aplicación.",
+  forbidden:
+    "No tienes los permisos necesarios para acceder a esta sección de la configuración."
+}
+
+interface AccessDeniedPageProps {
+  searchParams: Promise<{ reason?: string }>
+}
+
+export default async function AccessDeniedPage({
+  searchParams
+}: AccessDeniedPageProps) {
+  const { reason } = await searchParams
+  const message =
+    DENIAL_MESSAGES[reason as RouteAccessDenialReason] ??
+    DENIAL_MESSAGES.forbidden
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Acceso denegado</CardTitle>
+        <CardDescription>{message}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex gap-2">
+        {reason === "forbidden" && (
+          <Button asChild variant="outline">
+            <Link href="/scorecards">Volver a Scorecards</Link>
+          </Button>
+        )}
+        <SignOutButton redirectUrl="/">
+          <Button variant="secondary">Cerrar sesión</Button>
+        </SignOutButton>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,171 @@
+/**
+ * @file app/(main)/alerts/_components/alert-events-list.tsx
+ * @brief Componente de cliente que lista las alertas recibidas por el usuario.
+ * @description Muestra cada evento de alerta (KPI, período, motivo y estado de entrega) y permite
+ * filtrar las no leídas y marcarlas como leídas o no leídas mediante Server Actions.
+ */
+"use client"
+
+import React, { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { updateAlertEventReadStateAction } from "@/actions/db/alert-actions"
+import { UserAlertEvent } from "@/types"
+import { useToast } from "@/components/ui/use-toast"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { cn } from "@/lib/utils"
+import { CheckCheck, Loader2, Mail, MailOpen } from "lucide-react"
+
+const ALERT_TYPE_LABELS: Record<UserAlertEvent["alertType"], string> = {
+  "Red KPI": "KPI en Rojo",
+  "Update Reminder": "Recordatorio de actualización",
+  "Note Reply": "Respuesta a nota",
+  "Custom KPI Change": "Cambio de KPI"
+}
+
+const DELIVERY_LABELS: Record<UserAlertEvent["deliveryStatus"], string> = {
+  sent: "Enviado",
+  failed: "Error de envío",
+  queued: "En resumen",
+  skipped: "Solo en la aplicación"
+}
+
+interface AlertEventsListProps {
+  events: UserAlertEvent[]
+}
+
+export default function AlertEventsList({ events }: AlertEventsListProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [isPending, startTransition] = useTransition()
+  const [filter, setFilter] = useState<"all" | "unread">("all")
+
+  const unreadCount = events.filter(event => !event.readAt).length
+  const visibleEvents =
+    filter === "unread" ? events.filter(event => !event.readAt) : events
+
+  const updateReadState = (eventIds: string[] | undefined, read: boolean) => {
+    startTransition(async () => {
+      const result = await updateAlertEventReadStateAction({ eventIds, read })
+      if (result.isSuccess) {
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.message,
+          variant: "destructive"
+        })
+      }
+    })
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="text-muted-foreground">No has recibido alertas todavía.</p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Tabs
+          value={filter}
+          onValueChange={value => setFilter(value as "all" | "unread")}
+        >
+          <TabsList>
+            <TabsTrigger value="all">Todas ({events.length})</TabsTrigger>
+            <TabsTrigger value="unread">No leídas ({unreadCount})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending || unreadCount === 0}
+          onClick={() => updateReadState(undefined, true)}
+        >
+          {isPending ? (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          ) : (
+            <CheckCheck className="mr-2 size-4" />
+          )}
+          Marcar todas como leídas
+        </Button>
+      </div>
+
+      {visibleEvents.length === 0 ? (
+        <p className="text-muted-foreground">No hay alertas sin leer.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Fecha</TableHead>
+              <TableHead>Tipo</TableHead>
+              <TableHead>KPI</TableHead>
+              <TableHead>Período</TableHead>
+              <TableHead>Detalle</TableHead>
+              <TableHead>Entrega</TableHead>
+              <TableHead className="text-right">Acciones</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleEvents.map(event => (
+              <TableRow
+                key={event.id}
+                className={cn(!event.readAt && "bg-muted/50 font-medium")}
+              >
+                <TableCell>
+                  {new Date(event.createdAt).toLocaleString()}
+                </TableCell>
+                <TableCell>{ALERT_TYPE_LABELS[event.alertType]}</TableCell>
+                <TableCell>{event.kpiName ?? "—"}</TableCell>
+                <TableCell>{event.periodDate ?? "—"}</TableCell>
+                <TableCell className="max-w-md whitespace-normal">
+                  {event.detail}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={
+                      event.deliveryStatus === "failed"
+                        ? "destructive"
+                        : "outline"
+                    }
+                  >
+                    {DELIVERY_LABELS[event.deliveryStatus]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() => updateReadState([event.id], !event.readAt)}
+                    title={
+                      event.readAt
+                        ? "Marcar como no leída"
+                        : "Marcar como leída"
+                    }
+                  >
+                    {event.readAt ? (
+                      <Mail className="size-4" />
+                    ) : (
+                      <MailOpen className="size-4" />
+                    )}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+/**
+ * @file app/(main)/alerts/page.tsx
+ * @brief Página de alertas recibidas por el usuario en DeltaOne.
+ * @description Server Component: autentica, obtiene el historial de alertas disparadas dirigidas
+ * al usuario actual y renderiza la lista cliente con su estado de lectura. Lista además los KPIs
+ * manuales de los que el usuario es Updater, directamente o por uno de sus grupos.
+ */
+
+import { auth } from "@clerk/nextjs/server"
+import { redirect } from "next/navigation"
+import { getMyAlertEventsAction } from "@/actions/db/alert-actions"
+import { getMyKpisToUpdateAction } from "@/actions/db/kpi-actions"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import AlertEventsList from "./_components/alert-events-list"
+
+export default async function AlertsPage() {
+  const { userId } = await auth()
+  if (!userId) {
+    redirect("/login")
+  }
+
+  const [eventsRes, kpisToUpdateRes] = await Promise.all([
+    getMyAlertEventsAction(),
+    getMyKpisToUpdateAction()
+  ])
+  if (!eventsRes.isSuccess) {
+    return (
+      <div className="container mx-auto py-12">
+        <h1 className="mb-4 text-2xl font-bold">Error al cargar alertas</h1>
+        <p className="text-red-500">{eventsRes.message}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto py-12">
+      <h1 className="mb-6 text-3xl font-bold">Alertas</h1>
+      <Card>
+        <CardHeader>
+          <CardTitle>Alertas recibidas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AlertEventsList events={eventsRes.data ?? []} />
+        </CardContent>
+      </Card>
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Mis KPIs por actualizar</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!kpisToUpdateRes.isSuccess ? (
+            <p className="text-red-500">{kpisToUpdateRes.message}</p>
+          ) : (kpisToUpdateRes.data ?? []).length === 0 ? (
+            <p className="text-muted-foreground">
+              No eres Updater de ningún KPI manual.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {kpisToUpdateRes.data!.map(kpi => (
+                <li
+                  key={kpi.kpiId}
+                  className="flex items-center justify-between py-2"
+                >
+                  <span>{kpi.name}</span>
+                  <span className="text-muted-foreground text-sm">
+                    {kpi.organizationName} · {kpi.calendarFrequency}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+/**
+ * @file app/(main)/data-imports/_components/import-change-preview.tsx
+ * @brief Componente de cliente que muestra la diferencia de una importación de valores de KPI.
+ * @description Lista, fila por fila, si la importación inserta, actualiza u omite un valor, con los
+ * valores real y objetivo anteriores y nuevos y la puntuación y color resultantes, y los
+ * identificadores de KPI de los mapeos dinámicos que no se pudieron resolver. Se usa para la
+ * vista previa (dry-run) antes de confirmar una importación.
+ */
+"use client"
+
+import React from "react"
+import { ImportChangeAction, ImportChangeRow, ImportChangeSet } from "@/types"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+
+interface ImportChangePreviewProps {
+  changes: ImportChangeSet
+}
+
+const ACTION_LABELS: Record<ImportChangeAction, string> = {
+  insert: "Nuevo",
+  update: "Actualiza",
+  skip: "Omitida"
+}
+
+const ACTION_VARIANTS: Record<
+  ImportChangeAction,
+  "default" | "secondary" | "outline"
+> = {
+  insert: "default",
+  update: "secondary",
+  skip: "outline"
+}
+
+const COLOR_CLASSES: Record<"Red" | "Yellow" | "Green", string> = {
+  Red: "bg-red-500",
+  Yellow: "bg-yellow-400",
+  Green: "bg-green-500"
+}
+
+/**
+ * @function ValueDiff
+ * @description Muestra un valor anterior y el nuevo, resaltando el nuevo si cambia.
+ */
+function ValueDiff({
+  oldValue,
+  newValue
+}: {
+  oldValue: string | null
+  newValue: string | null
+}) {
+  if (oldValue === newValue) return <span>{newValue ?? "—"}</span>
+  return (
+    <span className="whitespace-nowrap">
+      <span className="text-muted-foreground line-through">
+        {oldValue ?? "—"}
+      </span>{" "}
+      → <span className="font-medium">{newValue ?? "—"}</span>
+    </span>
+  )
+}
+
+/**
+ * @function ScoreDiff
+ * @description Muestra la puntuación y el color anteriores y los resultantes.
+ */
+function ScoreDiff({ row }: { row: ImportChangeRow }) {
+  const dot = (color: ImportChangeRow["newColor"]) =>
+    color ? (
+      <span
+        className={`mr-1 inline-block size-2 rounded-full ${COLOR_CLASSES[color]}`}
+      />
+    ) : null
+  if (row.action === "insert") {
+    return (
+      <span className="whitespace-nowrap">
+        {dot(row.newColor)}
+        {row.newScore ?? "—"}
+      </span>
+    )
+  }
+  return (
+    <span className="whitespace-nowrap">
+      {dot(row.oldColor)}
+      {row.oldScore ?? "—"} → {dot(row.newColor)}
+      {row.newScore ?? "—"}
+    </span>
+  )
+}
+
+export default function ImportChangePreview({
+  changes
+}: ImportChangePreviewProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge>{changes.insertCount} nuevos</Badge>
+        <Badge variant="secondary">{changes.updateCount} actualizados</Badge>
+        <Badge variant="outline">{changes.skipCount} omitidos</Badge>
+      </div>
+      {changes.unresolvedIdentifiers &&
+        changes.unresolvedIdentifiers.length > 0 && (
+          <div className="rounded-md border border-yellow-400 p-3 text-sm">
+            <p className="mb-1 font-medium">
+              Identificadores de KPI no resueltos
+            </p>
+            <ul className="text-muted-foreground list-disc pl-5">
+              {changes.unresolvedIdentifiers.map(item => (
+                <li
+                  key={`${item.kpiIdentifier}|${item.organizationIdentifier ?? ""}`}
+                >
+                  {item.reason} ({item.rowCount}{" "}
+                  {item.rowCount === 1 ? "fila" : "filas"})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      {changes.rows.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          La importación no produce ningún valor.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Fila</TableHead>
+              <TableHead>Acción</TableHead>
+              <TableHead>KPI</TableHead>
+              <TableHead>Período</TableHead>
+              <TableHead>Valor real</TableHead>
+              <TableHead>Meta</TableHead>
+              <TableHead>Puntuación</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.rows.map((row, index) => (
+              <TableRow key={index}>
+                <TableCell>{row.rowNumber ?? "—"}</TableCell>
+                <TableCell>
+                  <Badge variant={ACTION_VARIANTS[row.action]}>
+                    {ACTION_LABELS[row.action]}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {row.kpiName ?? row.kpiId ?? "—"}
+                  {row.action !== "skip" && row.reason && (
+                    <p className="text-muted-foreground text-xs">
+                      {row.reason}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>{row.periodDate ?? "—"}</TableCell>
+                {row.action === "skip" && row.reason && !row.newActualValue ? (
+                  <TableCell colSpan={3} className="text-muted-foreground">
+                    {row.reason}
+                  </TableCell>
+                ) : (
+                  <>
+                    <TableCell>
+                      <ValueDiff
+                        oldValue={row.oldActualValue}
+                        newValue={row.newActualValue}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <ValueDiff
+                        oldValue={row.oldTargetValue}
+                        newValue={row.newTargetValue}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {row.action === "skip" ? (
+                        <span className="text-muted-foreground">
+                          {row.reason}
+                        </span>
+                      ) : (
+                        <ScoreDiff row={row} />
+                      )}
+                    </TableCell>
+                  </>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+/**
+ * @file app/(main)/data-imports/_components/import-runs-history.tsx
+ * @brief Componente de cliente que muestra el historial de ejecuciones de una importación guardada.
+ * @description Lista cada ejecución con su origen (manual o programada), inicio y fin, estado,
+ * conteos de filas leídas, transformadas, escritas y rechazadas, y el motivo de cada fila rechazada.
+ * Permite revertir una ejecución terminada, restaurando los valores de KPI anteriores.
+ */
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import {
+  getImportRunsAction,
+  rollbackImportRunAction
+} from "@/actions/db/import-run-actions"
+import { SelectImportRun } from "@/db/schema"
+import { useToast } from "@/components/ui/use-toast"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog"
+import { Loader2, Undo2 } from "lucide-react"
+
+interface ImportRunsHistoryProps {
+  savedImportId: string
+  /** Si el usuario puede revertir ejecuciones. */
+  canRollback: boolean
+}
+
+const STATUS_LABELS: Record<SelectImportRun["status"], string> = {
+  running: "En curso",
+  succeeded: "Exitosa",
+  failed: "Fallida",
+  rolled_back: "Revertida"
+}
+
+const STATUS_VARIANTS: Record<
+  SelectImportRun["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  running: "outline",
+  succeeded: "default",
+  failed: "destructive",
+  rolled_back: "secondary"
+}
+
+const formatDateTime = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleString() : "—"
+
+/**
+ * @function ImportRunsHistory
+ * @description Tabla con las ejecuciones de una importación y la acción de revertir.
+ */
+export default function ImportRunsHistory({
+  savedImportId,
+  canRollback
+}: ImportRunsHistoryProps) {
+  const { toast } = useToast()
+  const [runs, setRuns] = useState<SelectImportRun[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null)
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null)
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true)
+    const result = await getImportRunsAction(savedImportId)
+    if (result.isSuccess) {
+      setRuns(result.data)
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive"
+      })
+    }
+    setIsLoading(false)
+  }, [savedImportId, toast])
+
+  useEffect(() => {
+    loadRuns()
+  }, [loadRuns])
+
+  const handleRollback = async (runId: string) => {
+    setRollingBackId(runId)
+    const result = await rollbackImportRunAction({ id: runId })
+    setRollingBackId(null)
+    toast({
+      title: result.isSuccess ? "Ejecución revertida" : "Error",
+      description: result.message,
+      variant: result.isSuccess ? "default" : "destructive"
+    })
+    if (result.isSuccess) await loadRuns()
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="size-5 animate-spin" />
+      </div>
+    )
+  }
+
+  if (runs.length === 0) {
+    return (
+      <p className="text-muted-foreground py-4 text-sm">
+        Esta importación aún no se ha ejecutado.
+      </p>
+    )
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Origen</TableHead>
+          <TableHead>Inicio</TableHead>
+          <TableHead>Fin</TableHead>
+          <TableHead>Estado</TableHead>
+          <TableHead className="text-right">Leídas</TableHead>
+          <TableHead className="text-right">Transformadas</TableHead>
+          <TableHead className="text-right">Escritas</TableHead>
+          <TableHead className="text-right">Rechazadas</TableHead>
+          <TableHead className="text-right">Acciones</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {runs.map(run => (
+          <React.Fragment key={run.id}>
+            <TableRow>
+              <TableCell>
+                {run.trigger === "cron" ? "Programada" : "Manual"}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {formatDateTime(run.startedAt)}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {formatDateTime(run.finishedAt)}
+              </TableCell>
+              <TableCell>
+                <Badge variant={STATUS_VARIANTS[run.status]}>
+                  {STATUS_LABELS[run.status]}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right">{run.rowsRead}</TableCell>
+              <TableCell className="text-right">
+                {run.rowsTransformed}
+              </TableCell>
+              <TableCell className="text-right">{run.rowsUpserted}</TableCell>
+              <TableCell className="text-right">
+                {run.rowsRejected > 0 ? (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() =>
+                      setExpandedRunId(expandedRunId === run.id ? null : run.id)
+                    }
+                  >
+                    {run.rowsRejected}
+                  </Button>
+                ) : (
+                  0
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {canRollback && run.status === "succeeded" && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={rollingBackId !== null}
+                      >
+                        {rollingBackId === run.id ? (
+                          <Loader2 className="mr-1 size-3 animate-spin" />
+                        ) : (
+                          <Undo2 className="mr-1 size-3" />
+                        )}
+                        Revertir
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>
+                          ¿Revertir esta ejecución?
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Los valores de KPI que escribió volverán a su valor
+                          anterior y los que creó se eliminarán. Los valores
+                          modificados después de la ejecución se conservarán.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleRollback(run.id)}
+                        >
+                          Revertir
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </TableCell>
+            </TableRow>
+            {(run.errorMessage || expandedRunId === run.id) && (
+              <TableRow>
+                <TableCell colSpan={9} className="bg-muted/40 text-xs">
+                  {run.errorMessage && (
+                    <p className="text-red-600">Error: {run.errorMessage}</p>
+                  )}
+                  {expandedRunId === run.id && (
+                    <ul className="list-disc space-y-1 pl-4">
+                      {run.rejectedRows.map((row, index) => (
+                        <li key={index}>
+                          {row.rowNumber !== null
+                            ? `Fila ${row.rowNumber}: `
+                            : ""}
+                          {row.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </TableCell>
+              </TableRow>
+            )}
+          </React.Fragment>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
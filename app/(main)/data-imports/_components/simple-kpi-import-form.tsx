@@ -1,9 +1,11 @@
 /**
  * @file app/(main)/data-imports/_components/simple-kpi-import-form.tsx
  * @brief Componente de cliente para la importación simple de valores de KPI desde hojas de cálculo.
- * @description Este formulario permite a los usuarios cargar un archivo Excel para realizar una
- * importación rápida de valores de KPI. El archivo se codifica en Base64 y se envía a una
- * Server Action para su procesamiento.
+ * @description Este formulario permite a los usuarios cargar un archivo Excel (.xlsx, .xls) o CSV
+ * para realizar una importación rápida de valores de KPI. El archivo se codifica en Base64; al
+ * elegirlo se leen sus hojas y la fila de encabezados detectada, que el usuario puede cambiar, y al
+ * importar se muestra el reporte con las filas omitidas y el motivo de cada una. La vista previa
+ * muestra, sin escribir nada, los valores que se insertarían, actualizarían u omitirían.
  * (UC-200: Configurar Importación Simple de Valores de KPI (desde Hojas de Cálculo))
  */
 "use client"
@@ -12,9 +14,17 @@ import React, { useState } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
-import { uploadSimpleKpiImportAction } from "@/actions/db/import-actions"
+import {
+  inspectSimpleKpiImportFileAction,
+  uploadSimpleKpiImportAction
+} from "@/actions/db/import-actions"
 import { SelectOrganization } from "@/db/schema"
-import { ActionState } from "@/types"
+import {
+  ActionState,
+  SIMPLE_IMPORT_FILE_EXTENSIONS,
+  SimpleImportFileInfo,
+  SimpleImportReport
+} from "@/types"
 import { useToast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import {
@@ -28,7 +38,17 @@ import {
 } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { Loader2, Upload } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import { Eye, Loader2, Upload } from "lucide-react"
+import ImportChangePreview from "./import-change-preview"
 import {
   Select as UiSelect,
   SelectContent,
@@ -61,13 +81,32 @@ const formSchema = z.object({
     )
     .refine(
       file =>
-        file.type ===
-          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
-        file.type === "application/vnd.ms-excel",
-      "Solo se permiten archivos Excel (.xlsx, .xls)."
-    )
+        SIMPLE_IMPORT_FILE_EXTENSIONS.some(ext =>
+          file.name.toLowerCase().endsWith(ext)
+        ),
+      "Solo se permiten archivos Excel (.xlsx, .xls) o CSV (.csv)."
+    ),
+  sheetName: z.string().optional(),
+  headerRow: z.coerce
+    .number()
+    .int("La fila de encabezados debe ser un número entero.")
+    .min(1, "La fila de encabezados debe ser al menos 1.")
+    .optional()
 })
 
+/**
+ * @function readFileAsBase64
+ * @description Lee el contenido de un archivo como Base64 (sin el prefijo data URL).
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.readAsDataURL(file)
+    reader.onload = () => resolve((reader.result as string).split(",")[1])
+    reader.onerror = error => reject(error)
+  })
+}
+
 /**
  * @function SimpleKpiImportForm
  * @description Componente de formulario para realizar importaciones simples de KPI.
@@ -78,42 +117,82 @@ const SimpleKpiImportForm: React.FC<SimpleKpiImportFormProps> = ({
   const { toast } = useToast()
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isInspecting, setIsInspecting] = useState(false)
+  const [fileInfo, setFileInfo] = useState<SimpleImportFileInfo | null>(null)
+  const [report, setReport] = useState<SimpleImportReport | null>(null)
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       organizationId: "",
-      file: undefined
+      file: undefined,
+      sheetName: undefined,
+      headerRow: undefined
     }
   })
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
-    setIsSubmitting(true)
+  /**
+   * @function inspectFile
+   * @description Lee las hojas del archivo y la fila de encabezados detectada en la hoja elegida.
+   */
+  const inspectFile = async (file: File, sheetName?: string) => {
+    setIsInspecting(true)
     try {
-      // Read the file content as Base64
-      const fileContentBase64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader()
-        reader.readAsDataURL(values.file)
-        reader.onload = () => {
-          const base64 = (reader.result as string).split(",")[1] // Extract base64 part
-          resolve(base64)
-        } // Extract base64 part
-        reader.onerror = error => reject(error)
+      const result = await inspectSimpleKpiImportFileAction({
+        organizationId: form.getValues("organizationId"),
+        fileName: file.name,
+        fileContentBase64: await readFileAsBase64(file),
+        sheetName
       })
+      if (result.isSuccess) {
+        setFileInfo(result.data)
+        form.setValue("sheetName", result.data.sheetName)
+        form.setValue("headerRow", result.data.headerRow)
+      } else {
+        setFileInfo(null)
+        toast({
+          title: "Error",
+          description: result.message,
+          variant: "destructive"
+        })
+      }
+    } finally {
+      setIsInspecting(false)
+    }
+  }
 
-      const result: ActionState<undefined> = await uploadSimpleKpiImportAction({
-        fileName: values.file.name,
-        fileContentBase64: fileContentBase64,
-        organizationId: values.organizationId
-      })
+  /**
+   * @function runImport
+   * @description Envía el archivo para importarlo o, con `dryRun`, para obtener la vista previa.
+   */
+  const runImport = async (
+    values: z.infer<typeof formSchema>,
+    dryRun: boolean
+  ) => {
+    setIsSubmitting(true)
+    setReport(null)
+    try {
+      const result: ActionState<SimpleImportReport> =
+        await uploadSimpleKpiImportAction({
+          fileName: values.file.name,
+          fileContentBase64: await readFileAsBase64(values.file),
+          organizationId: values.organizationId,
+          sheetName: values.sheetName,
+          headerRow: values.headerRow,
+          dryRun
+        })
 
       if (result.isSuccess) {
         toast({
-          title: "Éxito",
-          description: "Importación simple de KPI completada correctamente."
+          title: dryRun ? "Vista previa" : "Éxito",
+          description: result.message
         })
-        form.reset() // Clear the form
-        router.refresh()
+        setReport(result.data)
+        if (!dryRun) {
+          setFileInfo(null)
+          form.reset() // Clear the form
+          router.refresh()
+        }
       } else {
         toast({
           title: "Error",
@@ -132,6 +211,9 @@ const SimpleKpiImportForm: React.FC<SimpleKpiImportFormProps> = ({
     }
   }
 
+  const onSubmit = (values: z.infer<typeof formSchema>) =>
+    runImport(values, false)
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 p-4">
@@ -178,35 +260,149 @@ const SimpleKpiImportForm: React.FC<SimpleKpiImportFormProps> = ({
           name="file"
           render={({ field: { value, onChange, ...fieldProps } }) => (
             <FormItem>
-              <FormLabel>Archivo Excel de KPI</FormLabel>
+              <FormLabel>Archivo de KPI</FormLabel>
               <FormControl>
                 <Input
                   {...fieldProps}
                   type="file"
-                  accept=".xlsx, .xls"
+                  accept={SIMPLE_IMPORT_FILE_EXTENSIONS.join(", ")}
                   onChange={event => {
-                    onChange(event.target.files && event.target.files)
+                    const file = event.target.files?.[0]
+                    onChange(file)
+                    setFileInfo(null)
+                    if (file) inspectFile(file)
                   }}
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || !form.watch("organizationId")}
                 />
               </FormControl>
               <FormDescription>
-                Sube un archivo Excel (.xlsx o .xls) con tus datos de KPI.
-                Asegúrate de que los nombres de las columnas coincidan con los
-                nombres de tus KPIs y las fechas.
+                Elige primero la organización y sube un archivo Excel (.xlsx,
+                .xls) o CSV con las columnas KPI, Fecha y Valor (y opcionalmente
+                Meta). Los nombres de KPI deben coincidir con los de la
+                organización; se aceptan números como 1.234,56 y fechas como
+                31/12/2024.
               </FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
-        <Button type="submit" disabled={isSubmitting} className="w-full">
-          {isSubmitting ? (
-            <Loader2 className="mr-2 size-4 animate-spin" />
-          ) : (
-            <Upload className="mr-2 size-4" />
-          )}{" "}
-          Cargar e Importar
-        </Button>
+        {isInspecting && (
+          <p className="text-muted-foreground flex items-center text-sm">
+            <Loader2 className="mr-2 size-4 animate-spin" /> Leyendo archivo...
+          </p>
+        )}
+        {fileInfo && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="sheetName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Hoja</FormLabel>
+                  <UiSelect
+                    onValueChange={value => {
+                      field.onChange(value)
+                      const file = form.getValues("file")
+                      if (file) inspectFile(file, value)
+                    }}
+                    value={field.value}
+                    disabled={isSubmitting || isInspecting}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecciona una hoja" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {fileInfo.sheetNames.map(name => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </UiSelect>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="headerRow"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fila de encabezados</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      {...field}
+                      value={field.value ?? ""}
+                      disabled={isSubmitting || isInspecting}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Detectada: {fileInfo.headers.filter(Boolean).join(", ")}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isSubmitting}
+            className="w-full"
+            onClick={form.handleSubmit(values => runImport(values, true))}
+          >
+            <Eye className="mr-2 size-4" /> Vista previa
+          </Button>
+          <Button type="submit" disabled={isSubmitting} className="w-full">
+            {isSubmitting ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 size-4" />
+            )}{" "}
+            Cargar e Importar
+          </Button>
+        </div>
+        {report?.changes.dryRun && (
+          <ImportChangePreview changes={report.changes} />
+        )}
+        {report && !report.changes.dryRun && (
+          <Alert
+            variant={report.skippedRows.length > 0 ? "destructive" : "default"}
+          >
+            <AlertTitle>
+              {report.importedCount} valores importados de {report.totalRows}{" "}
+              filas (hoja &quot;{report.sheetName}&quot;)
+            </AlertTitle>
+            <AlertDescription>
+              {report.skippedRows.length === 0 ? (
+                "No se omitió ninguna fila."
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-20">Fila</TableHead>
+                      <TableHead>Motivo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.skippedRows.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>{row.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
       </form>
     </Form>
   )
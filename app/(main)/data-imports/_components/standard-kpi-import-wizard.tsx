@@ -3,12 +3,17 @@
  * @brief Componente de cliente para la gestión y configuración de importaciones estándar de KPI.
  * @description Basado en la versión 1, incorporando control de permisos (usePermissions) para
  * condicionar la visibilidad de las acciones de cada importación guardada, tal como en la versión 2,
- * sin perder funcionalidades ni romper compatibilidad.
+ * sin perder funcionalidades ni romper compatibilidad. Para las conexiones PostgreSQL y MySQL
+ * solicita la consulta SQL de origen, su límite de filas y su tiempo máximo de ejecución. Antes de
+ * ejecutar una importación muestra la vista previa de los valores que insertará, actualizará u omitirá,
+ * y cada importación guardada muestra el historial de sus ejecuciones, que pueden revertirse. Cada
+ * mapeo del paso 2 apunta a un KPI fijo o lee de una columna el KPI (y la organización) de cada fila.
+ * Las reglas de transformación se editan en el paso 3 (ver `transformation-rules-editor.tsx`).
  */
 "use client"
 
 import React, { useState, useEffect } from "react"
-import { useForm, useFieldArray, Control } from "react-hook-form"
+import { useForm, useFieldArray, useWatch, Control } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
 import {
@@ -25,13 +30,19 @@ import { getAllKpisForSelectAction } from "@/actions/db/kpi-actions"
 import { SelectImportConnection, SelectSavedImport } from "@/db/schema"
 
 import {
+  IMPORT_IDENTIFIER_TYPE_LABELS,
+  IMPORT_IDENTIFIER_TYPES,
   KpiMapping,
   KpiMappingSchema,
+  SQL_IMPORT_CONNECTION_TYPES,
+  SQL_IMPORT_DEFAULT_ROW_LIMIT,
+  SQL_IMPORT_DEFAULT_TIMEOUT_SECONDS,
+  SqlImportSourceSchema,
   TransformationRule,
   TransformationRuleSchema
 } from "@/types/import-types"
 import { ScheduleConfig, ScheduleConfigSchema } from "@/types/schedule-types"
-import { ActionState } from "@/types"
+import { ActionState, ImportChangeSet } from "@/types"
 import { useToast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import {
@@ -62,7 +73,8 @@ import {
   CalendarDays,
   Trash2,
   Edit,
-  MoreVertical
+  MoreVertical,
+  History
 } from "lucide-react"
 import {
   Card,
@@ -108,10 +120,14 @@ import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger
 } from "@/components/ui/dialog"
+import ImportChangePreview from "./import-change-preview"
+import ImportRunsHistory from "./import-runs-history"
+import TransformationRulesEditor from "./transformation-rules-editor"
 
 // ⬇️ NUEVO: control de permisos (aportado por la versión 2)
 import { usePermissions } from "@/context/permission-context"
@@ -149,18 +165,23 @@ const formSchema = z.object({
     .min(1, "Debe haber al menos un mapeo de KPI."),
   transformations: z.array(TransformationRuleSchema).nullable().optional(),
   // aseguramos estructura por defecto para evitar {} vacíos
-  scheduleConfig: ScheduleConfigSchema.nullable().optional()
+  scheduleConfig: ScheduleConfigSchema.nullable().optional(),
+  // consulta de origen para conexiones PostgreSQL/MySQL
+  ...SqlImportSourceSchema.shape
 })
 
 type FormData = z.infer<typeof formSchema>
 
 /**
  * @component KpiMappingRow
+ * @description Mapeo de una columna de valores hacia un KPI fijo o, en modo dinámico, hacia el KPI
+ * (y la organización) que indica cada fila.
  */
 interface KpiMappingRowProps {
   index: number
   control: Control<FormData>
   kpiOptions: KpiOption[]
+  onModeChange: (mode: "static" | "dynamic") => void
   onRemove: () => void
 }
 
@@ -168,34 +189,138 @@ const KpiMappingRow: React.FC<KpiMappingRowProps> = ({
   index,
   control,
   kpiOptions,
+  onModeChange,
   onRemove
 }) => {
+  const mode = useWatch({ control, name: `kpiMappings.${index}.mode` })
+  const isDynamic = mode === "dynamic"
+
+  const identifierTypeField = (
+    name:
+      | `kpiMappings.${number}.kpiIdentifierType`
+      | `kpiMappings.${number}.organizationIdentifierType`,
+    label: string
+  ) => (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <UiSelect
+            onValueChange={field.onChange}
+            value={(field.value as string | undefined) ?? "auto"}
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {IMPORT_IDENTIFIER_TYPES.map(type => (
+                <SelectItem key={type} value={type}>
+                  {IMPORT_IDENTIFIER_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </UiSelect>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
   return (
     <div className="mb-2 grid grid-cols-1 gap-4 rounded-md border p-4 md:grid-cols-4">
-      <FormField
-        control={control}
-        name={`kpiMappings.${index}.kpiId`}
-        render={({ field }) => (
-          <FormItem>
-            <FormLabel>KPI de Destino</FormLabel>
-            <UiSelect onValueChange={field.onChange} value={field.value}>
-              <FormControl>
-                <SelectTrigger>
-                  <SelectValue placeholder="Selecciona un KPI" />
-                </SelectTrigger>
-              </FormControl>
-              <SelectContent>
-                {kpiOptions.map(kpi => (
-                  <SelectItem key={kpi.id} value={kpi.id}>
-                    {kpi.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </UiSelect>
-            <FormMessage />
-          </FormItem>
-        )}
-      />
+      <FormItem>
+        <FormLabel>Tipo de Mapeo</FormLabel>
+        <UiSelect
+          onValueChange={value => onModeChange(value as "static" | "dynamic")}
+          value={isDynamic ? "dynamic" : "static"}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="static">KPI fijo</SelectItem>
+            <SelectItem value="dynamic">
+              KPI indicado por una columna
+            </SelectItem>
+          </SelectContent>
+        </UiSelect>
+      </FormItem>
+      {isDynamic ? (
+        <>
+          <FormField
+            control={control}
+            name={`kpiMappings.${index}.kpiField.sourceField`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Campo KPI (Origen)</FormLabel>
+                <FormControl>
+                  <Input placeholder="Ej: KpiColumn" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {identifierTypeField(
+            `kpiMappings.${index}.kpiIdentifierType`,
+            "Identificador del KPI"
+          )}
+          <div />
+          <FormField
+            control={control}
+            name={`kpiMappings.${index}.organizationField`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Campo Organización (Opcional)</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Ej: OrgColumn"
+                    value={field.value?.sourceField ?? ""}
+                    onChange={e =>
+                      field.onChange(
+                        e.target.value ? { sourceField: e.target.value } : null
+                      )
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {identifierTypeField(
+            `kpiMappings.${index}.organizationIdentifierType`,
+            "Identificador de la Organización"
+          )}
+        </>
+      ) : (
+        <FormField
+          control={control}
+          name={`kpiMappings.${index}.kpiId`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>KPI de Destino</FormLabel>
+              <UiSelect onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecciona un KPI" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {kpiOptions.map(kpi => (
+                    <SelectItem key={kpi.id} value={kpi.id}>
+                      {kpi.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </UiSelect>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
       <FormField
         control={control}
         name={`kpiMappings.${index}.periodDate.sourceField`}
@@ -251,6 +376,12 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
   const [currentStep, setCurrentStep] = useState(1)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [kpiOptions, setKpiOptions] = useState<KpiOption[]>([])
+  const [executionPreview, setExecutionPreview] = useState<{
+    importId: string
+    importName: string
+    changes: ImportChangeSet
+  } | null>(null)
+  const [isExecuting, setIsExecuting] = useState(false)
 
   // ⬇️ NUEVO: permisos
   const { hasPermission } = usePermissions()
@@ -278,14 +409,19 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
         (savedImport?.transformations as TransformationRule[]) ?? [],
       // si no viene, no forzamos objeto vacío; el UI maneja opcionalidad
       scheduleConfig:
-        (savedImport?.scheduleConfig as ScheduleConfig | undefined) ?? undefined
+        (savedImport?.scheduleConfig as ScheduleConfig | undefined) ??
+        undefined,
+      sourceQuery: savedImport?.sourceQuery ?? "",
+      rowLimit: savedImport?.rowLimit ?? null,
+      queryTimeoutSeconds: savedImport?.queryTimeoutSeconds ?? null
     }
   })
 
   const {
     fields: kpiMappingFields,
     append: appendKpiMapping,
-    remove: removeKpiMapping
+    remove: removeKpiMapping,
+    update: updateKpiMapping
   } = useFieldArray({
     control: form.control,
     name: "kpiMappings"
@@ -320,7 +456,10 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
           (savedImport.transformations as TransformationRule[]) || [],
         scheduleConfig:
           (savedImport.scheduleConfig as ScheduleConfig | undefined) ??
-          undefined
+          undefined,
+        sourceQuery: savedImport.sourceQuery ?? "",
+        rowLimit: savedImport.rowLimit,
+        queryTimeoutSeconds: savedImport.queryTimeoutSeconds
       })
     } else {
       form.reset({
@@ -334,11 +473,21 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
           }
         ],
         transformations: [],
-        scheduleConfig: undefined
+        scheduleConfig: undefined,
+        sourceQuery: "",
+        rowLimit: null,
+        queryTimeoutSeconds: null
       })
     }
   }, [savedImport])
 
+  const selectedConnectionType = connections.find(
+    conn => conn.id === form.watch("connectionId")
+  )?.connectionType
+  const isSqlConnection = (
+    SQL_IMPORT_CONNECTION_TYPES as readonly string[]
+  ).includes(selectedConnectionType ?? "")
+
   const nextStep = () => setCurrentStep(prev => prev + 1)
   const prevStep = () => setCurrentStep(prev => prev - 1)
 
@@ -355,7 +504,12 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
         connectionId: values.connectionId,
         kpiMappings: values.kpiMappings,
         transformations: values.transformations ?? [],
-        scheduleConfig: values.scheduleConfig ?? null
+        scheduleConfig: values.scheduleConfig ?? null,
+        sourceQuery: isSqlConnection ? values.sourceQuery || null : null,
+        rowLimit: isSqlConnection ? (values.rowLimit ?? null) : null,
+        queryTimeoutSeconds: isSqlConnection
+          ? (values.queryTimeoutSeconds ?? null)
+          : null
       }
 
       if (isEditMode && savedImport?.id) {
@@ -419,6 +573,41 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
     }
   }
 
+  /**
+   * @function handlePreviewImport
+   * @description Calcula la vista previa (sin escribir) de una importación guardada y la muestra
+   * para que el usuario confirme la ejecución.
+   */
+  const handlePreviewImport = async (id: string, name: string) => {
+    if (!canManageSavedImports) {
+      toast({
+        title: "Permisos insuficientes",
+        description: "No tienes permisos para ejecutar importaciones estándar.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    toast({
+      title: "Vista previa",
+      description: "Calculando los cambios de la importación..."
+    })
+    const result = await executeSavedKpiImportAction({ id, dryRun: true })
+    if (result.isSuccess) {
+      setExecutionPreview({
+        importId: id,
+        importName: name,
+        changes: result.data
+      })
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive"
+      })
+    }
+  }
+
   const handleExecuteImport = async (id: string) => {
     if (!canManageSavedImports) {
       toast({
@@ -429,16 +618,19 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
       return
     }
 
+    setIsExecuting(true)
     toast({
       title: "Ejecutando",
       description: "La importación de KPI está en curso..."
     })
     const result = await executeSavedKpiImportAction({ id })
+    setIsExecuting(false)
     if (result.isSuccess) {
       toast({
         title: "Éxito",
-        description: "Importación ejecutada correctamente."
+        description: `Importación ejecutada correctamente: ${result.data.insertCount} valores nuevos y ${result.data.updateCount} actualizados.`
       })
+      setExecutionPreview(null)
       router.refresh()
     } else {
       toast({
@@ -588,10 +780,36 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
                             </DialogContent>
                           </Dialog>
                           <DropdownMenuItem
-                            onClick={() => handleExecuteImport(imp.id)}
+                            onClick={() =>
+                              handlePreviewImport(imp.id, imp.name)
+                            }
                           >
                             <Play className="mr-2 size-4" /> Ejecutar Ahora
                           </DropdownMenuItem>
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <DropdownMenuItem
+                                onSelect={e => e.preventDefault()}
+                              >
+                                <History className="mr-2 size-4" /> Historial
+                              </DropdownMenuItem>
+                            </DialogTrigger>
+                            <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[1000px]">
+                              <DialogHeader>
+                                <DialogTitle>
+                                  Historial de ejecuciones: {imp.name}
+                                </DialogTitle>
+                                <DialogDescription>
+                                  Ejecuciones manuales y programadas con sus
+                                  conteos de filas y los motivos de rechazo.
+                                </DialogDescription>
+                              </DialogHeader>
+                              <ImportRunsHistory
+                                savedImportId={imp.id}
+                                canRollback={canManageSavedImports}
+                              />
+                            </DialogContent>
+                          </Dialog>
                           <DropdownMenuItem
                             onClick={() => handleScheduleToggle(imp.id, sc)}
                           >
@@ -638,6 +856,56 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
             })}
           </TableBody>
         </Table>
+        <Dialog
+          open={executionPreview !== null}
+          onOpenChange={open => {
+            if (!open && !isExecuting) setExecutionPreview(null)
+          }}
+        >
+          <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[900px]">
+            <DialogHeader>
+              <DialogTitle>
+                Vista previa: {executionPreview?.importName}
+              </DialogTitle>
+              <DialogDescription>
+                Revisa los valores que la importación insertará, actualizará u
+                omitirá. No se ha escrito ningún dato todavía.
+              </DialogDescription>
+            </DialogHeader>
+            {executionPreview && (
+              <ImportChangePreview changes={executionPreview.changes} />
+            )}
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setExecutionPreview(null)}
+                disabled={isExecuting}
+              >
+                Cancelar
+              </Button>
+              <Button
+                onClick={() =>
+                  executionPreview &&
+                  handleExecuteImport(executionPreview.importId)
+                }
+                disabled={
+                  isExecuting ||
+                  !executionPreview ||
+                  executionPreview.changes.insertCount +
+                    executionPreview.changes.updateCount ===
+                    0
+                }
+              >
+                {isExecuting ? (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                ) : (
+                  <Play className="mr-2 size-4" />
+                )}
+                Confirmar importación
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </CardContent>
     )
   }
@@ -645,7 +913,17 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
   // Formulario del wizard (crear/editar)
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <form
+        onSubmit={form.handleSubmit(onSubmit, () =>
+          toast({
+            title: "Error",
+            description:
+              "Revisa la configuración: hay campos inválidos en alguno de los pasos.",
+            variant: "destructive"
+          })
+        )}
+        className="space-y-6"
+      >
         {/* Paso 1 */}
         {currentStep === 1 && (
           <Card className="p-6">
@@ -707,6 +985,87 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
                 </FormItem>
               )}
             />
+            {isSqlConnection && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="sourceQuery"
+                  render={({ field }) => (
+                    <FormItem className="mt-4">
+                      <FormLabel>Consulta SQL de Origen</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          className="min-h-[140px] font-mono text-xs"
+                          placeholder="SELECT fecha, valor_real, meta FROM ventas_mensuales"
+                          {...field}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Una única sentencia SELECT. Se ejecuta en modo de solo
+                        lectura y sus columnas se usan como campos de origen en
+                        el mapeo.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="rowLimit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Límite de Filas</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            placeholder={String(SQL_IMPORT_DEFAULT_ROW_LIMIT)}
+                            value={field.value ?? ""}
+                            onChange={e =>
+                              field.onChange(
+                                e.target.value === ""
+                                  ? null
+                                  : Number(e.target.value)
+                              )
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="queryTimeoutSeconds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tiempo Máximo (segundos)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            placeholder={String(
+                              SQL_IMPORT_DEFAULT_TIMEOUT_SECONDS
+                            )}
+                            value={field.value ?? ""}
+                            onChange={e =>
+                              field.onChange(
+                                e.target.value === ""
+                                  ? null
+                                  : Number(e.target.value)
+                              )
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </>
+            )}
           </Card>
         )}
 
@@ -716,7 +1075,9 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
             <CardTitle className="mb-4">2. Mapeo de KPI</CardTitle>
             <FormDescription className="mb-4">
               Define cómo los campos de tu fuente de datos se corresponden con
-              los KPIs de DeltaOne.
+              los KPIs de DeltaOne. Con un mapeo de KPI indicado por una
+              columna, un solo mapeo importa todos los KPIs de la tabla: cada
+              fila se asigna al KPI (y la organización) que indica.
             </FormDescription>
             {kpiMappingFields.map((field, index) => (
               <KpiMappingRow
@@ -724,6 +1085,25 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
                 index={index}
                 control={form.control}
                 kpiOptions={kpiOptions}
+                onModeChange={mode => {
+                  const { periodDate, actualValue } = form.getValues(
+                    `kpiMappings.${index}`
+                  )
+                  updateKpiMapping(
+                    index,
+                    mode === "dynamic"
+                      ? {
+                          mode,
+                          kpiField: { sourceField: "" },
+                          kpiIdentifierType: "auto",
+                          organizationField: null,
+                          organizationIdentifierType: "auto",
+                          periodDate,
+                          actualValue
+                        }
+                      : { kpiId: "", periodDate, actualValue }
+                  )
+                }}
                 onRemove={() => removeKpiMapping(index)}
               />
             ))}
@@ -754,32 +1134,23 @@ const StandardKpiImportWizard: React.FC<StandardKpiImportWizardProps> = ({
           <Card className="p-6">
             <CardTitle className="mb-4">3. Transformaciones de Datos</CardTitle>
             <FormDescription className="mb-4">
-              Aplica reglas para limpiar, filtrar o modificar los datos antes de
-              la importación.
+              Aplica reglas, en orden, para limpiar, filtrar o modificar los
+              datos antes de la importación.
             </FormDescription>
-            {form.watch("transformations")?.length ? (
-              <ul>
-                {form.watch("transformations")?.map((t, i) => (
-                  <li key={i} className="mb-2">
-                    <span className="font-semibold">{t.type}</span> en campo "
-                    {t.field}"
-                  </li>
-                ))}
-              </ul>
-            ) : (
-              <p className="text-muted-foreground py-4 text-center">
-                No hay transformaciones configuradas. Puedes añadir
-                transformaciones personalizadas en una fase posterior.
-              </p>
-            )}
-            <Button
-              type="button"
-              variant="outline"
-              disabled
-              className="mt-4 w-full"
-            >
-              Añadir Transformación (funcionalidad avanzada)
-            </Button>
+            <FormField
+              control={form.control}
+              name="transformations"
+              render={({ field }) => (
+                <FormItem>
+                  <TransformationRulesEditor
+                    value={field.value ?? []}
+                    onChange={field.onChange}
+                    disabled={isSubmitting}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </Card>
         )}
 
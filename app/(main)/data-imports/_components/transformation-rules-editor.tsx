@@ -0,0 +1,653 @@
+/**
+ * @file app/(main)/data-imports/_components/transformation-rules-editor.tsx
+ * @brief Componente de cliente para editar las reglas de transformación de una importación estándar.
+ * @description Permite añadir, reordenar y eliminar reglas y editar los parámetros de cada tipo:
+ * filtros, reemplazos, valores por defecto, conversión de tipos, renombrado, columnas derivadas,
+ * tablas de equivalencias, escalado de unidades, recorte de espacios, mayúsculas/minúsculas, fechas
+ * con formato y columnas a filas. Cada regla muestra su error de validación (incluida la sintaxis de
+ * las condiciones y expresiones) antes de guardar.
+ */
+"use client"
+
+import React from "react"
+import {
+  TRANSFORMATION_TYPE_LABELS,
+  TRANSFORMATION_TYPES,
+  TransformationRule,
+  TransformationRuleOf,
+  TransformationRuleSchema,
+  TransformationType
+} from "@/types/import-types"
+import {
+  formatFilterExpressionError,
+  parseFilterExpression,
+  parseValueExpression
+} from "@/lib/filter-expression"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react"
+
+interface TransformationRulesEditorProps {
+  value: TransformationRule[]
+  onChange: (rules: TransformationRule[]) => void
+  disabled?: boolean
+}
+
+/**
+ * @function createDefaultRule
+ * @description Regla nueva de un tipo, con parámetros iniciales editables.
+ */
+function createDefaultRule(
+  type: TransformationType,
+  field: string
+): TransformationRule {
+  switch (type) {
+    case "filter":
+      return { type, field, parameters: { condition: "" } }
+    case "regex_replace":
+      return { type, field, parameters: { pattern: "", replacement: "" } }
+    case "set_default":
+      return { type, field, parameters: { defaultValue: "" } }
+    case "data_type_conversion":
+      return { type, field, parameters: { targetType: "number" } }
+    case "rename":
+      return { type, field, parameters: { newName: "" } }
+    case "derived_column":
+      return { type, field, parameters: { expression: "" } }
+    case "value_mapping":
+      return {
+        type,
+        field,
+        parameters: {
+          mappings: [{ from: "", to: "" }],
+          targetField: null,
+          unmatched: "keep"
+        }
+      }
+    case "unit_scaling":
+      return { type, field, parameters: { factor: 1, decimals: null } }
+    case "trim":
+      return { type, field, parameters: { collapseWhitespace: false } }
+    case "case_normalization":
+      return { type, field, parameters: { mode: "upper" } }
+    case "date_parse":
+      return { type, field, parameters: { format: "dd/MM/yyyy" } }
+    case "unpivot":
+      return {
+        type,
+        field,
+        parameters: { columns: [{ column: "", key: null }], keyField: "" }
+      }
+  }
+}
+
+/**
+ * @function getRuleError
+ * @description Primer error de validación de una regla (esquema y sintaxis), o null.
+ */
+function getRuleError(rule: TransformationRule): string | null {
+  const result = TransformationRuleSchema.safeParse(rule)
+  if (!result.success) return result.error.issues[0]?.message ?? null
+  if (rule.type === "filter") {
+    const parsed = parseFilterExpression(rule.parameters.condition)
+    if (!parsed.isSuccess) return formatFilterExpressionError(parsed.error)
+  }
+  if (rule.type === "derived_column") {
+    const parsed = parseValueExpression(rule.parameters.expression)
+    if (!parsed.isSuccess) return formatFilterExpressionError(parsed.error)
+  }
+  return null
+}
+
+const FIELD_LABELS: Partial<Record<TransformationType, string>> = {
+  rename: "Columna a renombrar",
+  derived_column: "Nueva columna",
+  unpivot: "Columna de valores"
+}
+
+/**
+ * @function ParameterInput
+ * @description Campo de texto con etiqueta para un parámetro.
+ */
+function ParameterInput({
+  label,
+  value,
+  onChange,
+  placeholder,
+  type = "text",
+  disabled
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  type?: "text" | "number"
+  disabled?: boolean
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        onChange={e => onChange(e.target.value)}
+        disabled={disabled}
+      />
+    </div>
+  )
+}
+
+/**
+ * @function RuleParametersEditor
+ * @description Editor de los parámetros de una regla según su tipo.
+ */
+function RuleParametersEditor({
+  rule,
+  onChange,
+  disabled
+}: {
+  rule: TransformationRule
+  onChange: (rule: TransformationRule) => void
+  disabled?: boolean
+}) {
+  const setParameters = <T extends TransformationType>(
+    current: TransformationRuleOf<T>,
+    parameters: Partial<TransformationRuleOf<T>["parameters"]>
+  ) =>
+    onChange({
+      ...current,
+      parameters: { ...current.parameters, ...parameters }
+    } as TransformationRule)
+
+  switch (rule.type) {
+    case "filter":
+      return (
+        <div className="space-y-1 md:col-span-2">
+          <ParameterInput
+            label="Condición"
+            value={rule.parameters.condition}
+            placeholder="value > 100 AND [Región] IN ('Norte', 'Sur')"
+            onChange={condition => setParameters(rule, { condition })}
+            disabled={disabled}
+          />
+          <p className="text-muted-foreground text-xs">
+            Conserva las filas que cumplen la condición. Use value para el campo
+            de la regla y [Columna] para otros campos. Operadores: = &lt;&gt;
+            &lt; &lt;= &gt; &gt;=, AND, OR, NOT, IN (...), CONTAINS, STARTSWITH,
+            ENDSWITH, IS NULL, IS NOT NULL.
+          </p>
+        </div>
+      )
+
+    case "regex_replace":
+      return (
+        <>
+          <ParameterInput
+            label="Expresión regular"
+            value={rule.parameters.pattern}
+            placeholder="[^0-9.]"
+            onChange={pattern => setParameters(rule, { pattern })}
+            disabled={disabled}
+          />
+          <ParameterInput
+            label="Reemplazo"
+            value={rule.parameters.replacement}
+            onChange={replacement => setParameters(rule, { replacement })}
+            disabled={disabled}
+          />
+        </>
+      )
+
+    case "set_default":
+      return (
+        <ParameterInput
+          label="Valor por defecto"
+          value={String(rule.parameters.defaultValue ?? "")}
+          onChange={defaultValue => setParameters(rule, { defaultValue })}
+          disabled={disabled}
+        />
+      )
+
+    case "data_type_conversion":
+      return (
+        <div className="space-y-1">
+          <Label className="text-xs">Tipo de destino</Label>
+          <Select
+            value={rule.parameters.targetType}
+            onValueChange={targetType =>
+              setParameters(rule, {
+                targetType: targetType as "number" | "string" | "date"
+              })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="number">Número</SelectItem>
+              <SelectItem value="string">Texto</SelectItem>
+              <SelectItem value="date">Fecha</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )
+
+    case "rename":
+      return (
+        <ParameterInput
+          label="Nuevo nombre"
+          value={rule.parameters.newName}
+          onChange={newName => setParameters(rule, { newName })}
+          disabled={disabled}
+        />
+      )
+
+    case "derived_column":
+      return (
+        <div className="space-y-1 md:col-span-2">
+          <ParameterInput
+            label="Expresión"
+            value={rule.parameters.expression}
+            placeholder="[Ventas] / [Unidades] * 100"
+            onChange={expression => setParameters(rule, { expression })}
+            disabled={disabled}
+          />
+          <p className="text-muted-foreground text-xs">
+            Operadores: + - * / y &amp; para unir textos. Use [Columna] para
+            referenciar otros campos.
+          </p>
+        </div>
+      )
+
+    case "value_mapping": {
+      const { mappings } = rule.parameters
+      const setMapping = (index: number, from: string, to: string) =>
+        setParameters(rule, {
+          mappings: mappings.map((mapping, i) =>
+            i === index ? { from, to } : mapping
+          )
+        })
+      return (
+        <div className="space-y-3 md:col-span-2">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <ParameterInput
+              label="Campo de destino (vacío = el mismo)"
+              value={rule.parameters.targetField ?? ""}
+              onChange={targetField =>
+                setParameters(rule, { targetField: targetField || null })
+              }
+              disabled={disabled}
+            />
+            <div className="space-y-1">
+              <Label className="text-xs">Valores sin equivalencia</Label>
+              <Select
+                value={rule.parameters.unmatched}
+                onValueChange={unmatched =>
+                  setParameters(rule, {
+                    unmatched: unmatched as "keep" | "null" | "drop"
+                  })
+                }
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keep">Conservar el valor</SelectItem>
+                  <SelectItem value="null">Dejar vacío</SelectItem>
+                  <SelectItem value="drop">Descartar la fila</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs">Equivalencias (origen → destino)</Label>
+            {mappings.map((mapping, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={mapping.from}
+                  placeholder="Valor de origen"
+                  onChange={e => setMapping(index, e.target.value, mapping.to)}
+                  disabled={disabled}
+                />
+                <span>→</span>
+                <Input
+                  value={mapping.to}
+                  placeholder="Valor de destino"
+                  onChange={e =>
+                    setMapping(index, mapping.from, e.target.value)
+                  }
+                  disabled={disabled}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setParameters(rule, {
+                      mappings: mappings.filter((_, i) => i !== index)
+                    })
+                  }
+                  disabled={disabled || mappings.length === 1}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setParameters(rule, {
+                    mappings: [...mappings, { from: "", to: "" }]
+                  })
+                }
+                disabled={disabled}
+              >
+                <Plus className="mr-1 size-3" /> Añadir equivalencia
+              </Button>
+              <label className="flex items-center gap-2 text-xs">
+                <Checkbox
+                  checked={rule.parameters.caseSensitive ?? false}
+                  onCheckedChange={checked =>
+                    setParameters(rule, { caseSensitive: checked === true })
+                  }
+                  disabled={disabled}
+                />
+                Distinguir mayúsculas
+              </label>
+            </div>
+          </div>
+        </div>
+      )
+    }
+
+    case "unit_scaling":
+      return (
+        <>
+          <ParameterInput
+            label="Factor"
+            type="number"
+            value={String(rule.parameters.factor)}
+            placeholder="0.001"
+            onChange={factor => setParameters(rule, { factor: Number(factor) })}
+            disabled={disabled}
+          />
+          <ParameterInput
+            label="Decimales (opcional)"
+            type="number"
+            value={
+              rule.parameters.decimals === null ||
+              rule.parameters.decimals === undefined
+                ? ""
+                : String(rule.parameters.decimals)
+            }
+            onChange={decimals =>
+              setParameters(rule, {
+                decimals: decimals === "" ? null : Number(decimals)
+              })
+            }
+            disabled={disabled}
+          />
+        </>
+      )
+
+    case "trim":
+      return (
+        <label className="flex items-center gap-2 self-end pb-2 text-sm">
+          <Checkbox
+            checked={rule.parameters.collapseWhitespace ?? false}
+            onCheckedChange={checked =>
+              setParameters(rule, { collapseWhitespace: checked === true })
+            }
+            disabled={disabled}
+          />
+          Reducir espacios internos repetidos
+        </label>
+      )
+
+    case "case_normalization":
+      return (
+        <div className="space-y-1">
+          <Label className="text-xs">Convertir a</Label>
+          <Select
+            value={rule.parameters.mode}
+            onValueChange={mode =>
+              setParameters(rule, { mode: mode as "upper" | "lower" | "title" })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="upper">MAYÚSCULAS</SelectItem>
+              <SelectItem value="lower">minúsculas</SelectItem>
+              <SelectItem value="title">Tipo Título</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )
+
+    case "date_parse":
+      return (
+        <div className="space-y-1">
+          <ParameterInput
+            label="Formato de origen"
+            value={rule.parameters.format}
+            placeholder="dd/MM/yyyy"
+            onChange={format => setParameters(rule, { format })}
+            disabled={disabled}
+          />
+          <p className="text-muted-foreground text-xs">
+            dd = día, MM = mes, yyyy = año (ej. dd/MM/yyyy, MMM yyyy).
+          </p>
+        </div>
+      )
+
+    case "unpivot": {
+      const { columns } = rule.parameters
+      const setColumn = (index: number, column: string, key: string) =>
+        setParameters(rule, {
+          columns: columns.map((current, i) =>
+            i === index ? { column, key: key || null } : current
+          )
+        })
+      return (
+        <div className="space-y-3 md:col-span-2">
+          <ParameterInput
+            label="Campo que recibe el nombre o la clave de cada columna"
+            value={rule.parameters.keyField}
+            placeholder="Periodo"
+            onChange={keyField => setParameters(rule, { keyField })}
+            disabled={disabled}
+          />
+          <div className="space-y-2">
+            <Label className="text-xs">
+              Columnas a convertir en filas (clave opcional, ej. 2024-01-01)
+            </Label>
+            {columns.map((current, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={current.column}
+                  placeholder="Columna (ej. Ene)"
+                  onChange={e =>
+                    setColumn(index, e.target.value, current.key ?? "")
+                  }
+                  disabled={disabled}
+                />
+                <Input
+                  value={current.key ?? ""}
+                  placeholder="Clave (opcional)"
+                  onChange={e =>
+                    setColumn(index, current.column, e.target.value)
+                  }
+                  disabled={disabled}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setParameters(rule, {
+                      columns: columns.filter((_, i) => i !== index)
+                    })
+                  }
+                  disabled={disabled || columns.length === 1}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setParameters(rule, {
+                  columns: [...columns, { column: "", key: null }]
+                })
+              }
+              disabled={disabled}
+            >
+              <Plus className="mr-1 size-3" /> Añadir columna
+            </Button>
+          </div>
+        </div>
+      )
+    }
+  }
+}
+
+/**
+ * @function TransformationRulesEditor
+ * @description Lista editable de reglas de transformación, aplicadas en orden.
+ */
+export default function TransformationRulesEditor({
+  value,
+  onChange,
+  disabled
+}: TransformationRulesEditorProps) {
+  const updateRule = (index: number, rule: TransformationRule) =>
+    onChange(value.map((current, i) => (i === index ? rule : current)))
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    const rules = [...value]
+    const [rule] = rules.splice(index, 1)
+    rules.splice(index + offset, 0, rule)
+    onChange(rules)
+  }
+
+  return (
+    <div className="space-y-4">
+      {value.length === 0 && (
+        <p className="text-muted-foreground py-4 text-center">
+          No hay transformaciones configuradas. Los datos se importarán tal como
+          los devuelve el origen.
+        </p>
+      )}
+      {value.map((rule, index) => {
+        const error = getRuleError(rule)
+        return (
+          <div key={index} className="space-y-3 rounded-md border p-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold">
+                {index + 1}. {TRANSFORMATION_TYPE_LABELS[rule.type]}
+              </span>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveRule(index, -1)}
+                  disabled={disabled || index === 0}
+                >
+                  <ArrowUp className="size-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveRule(index, 1)}
+                  disabled={disabled || index === value.length - 1}
+                >
+                  <ArrowDown className="size-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Tipo</Label>
+                <Select
+                  value={rule.type}
+                  onValueChange={type =>
+                    updateRule(
+                      index,
+                      createDefaultRule(type as TransformationType, rule.field)
+                    )
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRANSFORMATION_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>
+                        {TRANSFORMATION_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ParameterInput
+                label={FIELD_LABELS[rule.type] ?? "Campo"}
+                value={rule.field}
+                placeholder="Nombre de la columna"
+                onChange={field => updateRule(index, { ...rule, field })}
+                disabled={disabled}
+              />
+              <RuleParametersEditor
+                rule={rule}
+                onChange={updated => updateRule(index, updated)}
+                disabled={disabled}
+              />
+            </div>
+            {error && <p className="text-destructive text-sm">{error}</p>}
+          </div>
+        )
+      })}
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={() => onChange([...value, createDefaultRule("filter", "")])}
+        disabled={disabled}
+      >
+        <Plus className="mr-2 size-4" /> Añadir Transformación
+      </Button>
+    </div>
+  )
+}
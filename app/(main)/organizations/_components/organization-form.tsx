@@ -4,7 +4,8 @@
  * @description Este formulario utiliza `react-hook-form` con `zod` para validar y enviar datos
  * a las Server Actions `createOrganizationAction` y `updateOrganizationAction`. Permite
  * crear nuevas organizaciones o editar existentes, incluyendo la asignación de una
- * organización padre. Proporciona feedback al usuario a través de `useToast` (UC-500).
+ * organización padre y del código externo y los alias con los que las importaciones
+ * identifican la organización. Proporciona feedback al usuario a través de `useToast` (UC-500).
  */
 "use client"
 
@@ -18,7 +19,8 @@ import {
   getAllOrganizationsAction // Necesario para listar padres potenciales
 } from "@/actions/db/organization-actions"
 import { SelectOrganization } from "@/db/schema"
-import { ActionState, fail } from "@/types"
+import { ActionState, ExternalCodeSchema, fail } from "@/types"
+import { parseAliasList } from "@/lib/external-codes"
 import { useToast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import {
@@ -68,7 +70,22 @@ const formSchema = z.object({
       "El nombre del campo del dataset no puede exceder 255 caracteres."
     )
     .nullable()
-    .optional()
+    .optional(),
+  externalCode: z
+    .string()
+    .superRefine((value, ctx) => {
+      if (!value.trim()) return
+      const result = ExternalCodeSchema.safeParse(value)
+      if (!result.success) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: result.error.issues[0].message
+        })
+      }
+    })
+    .nullable()
+    .optional(),
+  aliases: z.string().nullable().optional() // Un alias por línea o separados por comas
 })
 
 interface OrganizationFormProps {
@@ -94,7 +111,9 @@ export default function OrganizationForm({
       name: organization?.name || "",
       description: organization?.description || null,
       parentId: organization?.parentId || null,
-      templateFromDatasetField: organization?.templateFromDatasetField || null
+      templateFromDatasetField: organization?.templateFromDatasetField || null,
+      externalCode: organization?.externalCode ?? "",
+      aliases: organization?.aliases.join("\n") ?? ""
     }
   })
 
@@ -149,7 +168,9 @@ export default function OrganizationForm({
       templateFromDatasetField:
         values.templateFromDatasetField === ""
           ? null
-          : values.templateFromDatasetField
+          : values.templateFromDatasetField,
+      externalCode: values.externalCode?.trim() || null,
+      aliases: parseAliasList(values.aliases)
     }
 
     if (isEditMode && organization) {
@@ -249,6 +270,49 @@ export default function OrganizationForm({
             </FormItem>
           )}
         />
+        <FormField
+          control={form.control}
+          name="externalCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Código Externo (Opcional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Ej. SUC-014"
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormDescription>
+                Código único con el que los sistemas de origen identifican esta
+                organización.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="aliases"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Alias (Opcional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder={"Ej. Sucursal Centro\nCentro"}
+                  rows={2}
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormDescription>
+                Otros nombres de la organización en los archivos importados, uno
+                por línea o separados por comas.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
         {/* Este campo se deja oculto o de solo lectura para la mayoría de los casos de uso,
             ya que se relaciona con la creación de organizaciones por plantilla desde datasets,
             un caso de uso más avanzado. */}
@@ -3,7 +3,7 @@
  * @brief Página de administración de organizaciones para listar, crear, editar y eliminar organizaciones.
  * @description Este Server Component se encarga de:
  *  - Autenticar al usuario.
- *  - Obtener la lista de organizaciones de nivel superior desde la base de datos.
+ *  - Obtener la lista de organizaciones de nivel superior que el usuario puede ver.
  *  - Mostrar un listado de OrganizationCard para cada organización.
  *  - Proveer un botón para abrir un modal de creación de nueva organización (OrganizationForm).
  *  - Manejar la visualización inicial de la jerarquía organizacional.
@@ -153,7 +153,7 @@ export default async function OrganizationsPage() {
         <CardContent>
           {organizations.length === 0 ? (
             <p className="text-muted-foreground py-8 text-center">
-              No hay organizaciones configuradas.{" "}
+              No hay organizaciones configuradas o visibles para tu usuario.{" "}
               {canCreateOrganization
                 ? 'Haz clic en "Nueva Organización" para empezar.'
                 : "Contacta a un administrador para configurar la estructura."}
@@ -0,0 +1,183 @@
+/**
+ * @file app/(main)/scorecards/_components/element-group-updaters-assigner.tsx
+ * @brief Asignación de un grupo como Updater de todos los KPIs bajo un elemento del Scorecard.
+ * @description Permite elegir un grupo y asignarlo como Updater de los KPIs del elemento y de
+ * sus descendientes, y quitar los grupos ya asignados. Los miembros del grupo y los KPIs bajo el
+ * elemento se resuelven al actualizar, por lo que los cambios en el grupo y los KPIs creados
+ * después no obligan a reasignar.
+ */
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import {
+  assignKpiGroupUpdatersAction,
+  getScorecardElementGroupUpdatersAction,
+  removeScorecardElementGroupUpdaterAction
+} from "@/actions/db/kpi-actions"
+import { getAllGroupsAction } from "@/actions/db/user-group-actions"
+import { SelectGroup, SelectScorecardElementGroupUpdater } from "@/db/schema"
+import { useToast } from "@/components/ui/use-toast"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Loader2, Users, X } from "lucide-react"
+
+interface ElementGroupUpdatersAssignerProps {
+  scorecardElementId: string
+}
+
+export default function ElementGroupUpdatersAssigner({
+  scorecardElementId
+}: ElementGroupUpdatersAssignerProps) {
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const [groups, setGroups] = useState<SelectGroup[]>([])
+  const [assignments, setAssignments] = useState<
+    SelectScorecardElementGroupUpdater[]
+  >([])
+  const [groupId, setGroupId] = useState<string>("")
+  const [canModifyThresholds, setCanModifyThresholds] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const loadAssignments = async () => {
+    const res = await getScorecardElementGroupUpdatersAction(scorecardElementId)
+    if (res.isSuccess && res.data) {
+      setAssignments(res.data)
+    }
+  }
+
+  useEffect(() => {
+    ;(async () => {
+      const res = await getAllGroupsAction()
+      if (res.isSuccess && res.data) {
+        setGroups(res.data)
+      }
+    })()
+  }, [])
+
+  useEffect(() => {
+    loadAssignments()
+  }, [scorecardElementId])
+
+  const handleResult = async (result: {
+    isSuccess: boolean
+    message: string
+  }) => {
+    if (result.isSuccess) {
+      toast({ title: "Éxito", description: result.message })
+      await loadAssignments()
+      router.refresh()
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleAssign = async () => {
+    if (!groupId) return
+    setIsSubmitting(true)
+    await handleResult(
+      await assignKpiGroupUpdatersAction({
+        groupId,
+        scorecardElementId,
+        canModifyThresholds
+      })
+    )
+    setIsSubmitting(false)
+  }
+
+  const handleRemove = async (assignedGroupId: string) => {
+    setIsSubmitting(true)
+    await handleResult(
+      await removeScorecardElementGroupUpdaterAction({
+        scorecardElementId,
+        groupId: assignedGroupId
+      })
+    )
+    setIsSubmitting(false)
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <h3 className="text-lg font-semibold">Grupo Updater de los KPIs</h3>
+      <p className="text-muted-foreground text-sm">
+        Asigna un grupo como Updater de todos los KPIs de este elemento y de sus
+        descendientes.
+      </p>
+      <div className="flex items-center gap-2">
+        <Select
+          value={groupId}
+          onValueChange={setGroupId}
+          disabled={isSubmitting}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Selecciona un grupo" />
+          </SelectTrigger>
+          <SelectContent>
+            {groups.map(group => (
+              <SelectItem key={group.id} value={group.id}>
+                {group.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleAssign} disabled={isSubmitting || !groupId}>
+          {isSubmitting ? (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          ) : (
+            <Users className="mr-2 size-4" />
+          )}
+          Asignar
+        </Button>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={canModifyThresholds}
+          onCheckedChange={checked => setCanModifyThresholds(checked === true)}
+          disabled={isSubmitting}
+        />
+        Puede modificar el objetivo y los umbrales
+      </label>
+      {assignments.length > 0 && (
+        <ul className="space-y-1">
+          {assignments.map(assignment => (
+            <li
+              key={assignment.groupId}
+              className="flex items-center justify-between text-sm"
+            >
+              <span>
+                {groups.find(group => group.id === assignment.groupId)?.name ??
+                  assignment.groupId}
+                {assignment.canModifyThresholds && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    (modifica umbrales)
+                  </span>
+                )}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(assignment.groupId)}
+                disabled={isSubmitting}
+              >
+                <X className="size-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
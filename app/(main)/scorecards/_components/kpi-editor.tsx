@@ -4,7 +4,7 @@
  * @description Form de configuración de KPI con pestañas para:
  * - Configuración general
  * - Valores manuales (si el KPI es manual)
- * - Propietarios del elemento y Updaters del KPI
+ * - Propietarios del elemento y Updaters del KPI (usuarios y grupos)
  */
 "use client"
 
@@ -18,23 +18,33 @@ import {
   setKpiCalculationEquationAction,
   enableKpiRollupAction,
   assignKpiUpdatersAction,
+  assignKpiGroupUpdatersAction,
+  removeKpiGroupUpdaterAction,
+  getKpiGroupUpdatersAction,
   getKpiAction // ✅ usaremos esto para reconsultar y listar updaters
 } from "@/actions/db/kpi-actions"
 import {
   updateScorecardElementAction // ✅ para asignar propietario
 } from "@/actions/db/scorecard-element-actions"
 import { getAllProfilesAction } from "@/actions/db/profiles-actions"
+import { getAllGroupsAction } from "@/actions/db/user-group-actions"
 import {
   SelectKpi,
   kpiScoringTypeEnum,
   kpiCalendarFrequencyEnum,
   kpiDataTypeEnum,
   kpiAggregationTypeEnum,
+  kpiScoringDirectionEnum,
+  kpiScoringMethodEnum,
   InsertKpi,
   SelectProfile,
-  SelectKpiUpdater
+  SelectKpiUpdater,
+  SelectGroup,
+  SelectKpiGroupUpdater
 } from "@/db/schema"
-import { ActionState } from "@/types"
+import { ActionState, ExternalCodeSchema } from "@/types"
+import { formatFormulaError, validateFormula } from "@/lib/formula-evaluator"
+import { parseAliasList } from "@/lib/external-codes"
 import { useToast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import {
@@ -93,9 +103,52 @@ const formSchema = z
     calculationEquation: z
       .string()
       .max(1000, "La ecuación no puede exceder los 1000 caracteres.")
+      // Validación sintáctica en el cliente con el mismo parser que usa el servidor
+      .superRefine((value, ctx) => {
+        if (!value) return
+        const error = validateFormula(value)
+        if (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: formatFormulaError(error)
+          })
+        }
+      })
+      .nullable()
+      .optional(),
+    rollupEnabled: z.boolean().default(false),
+    scoringDirection: z
+      .enum(kpiScoringDirectionEnum.enumValues, {
+        errorMap: () => ({ message: "Sentido de puntuación de KPI inválido." })
+      })
+      .default("Higher is Better"),
+    scoringMethod: z
+      .enum(kpiScoringMethodEnum.enumValues, {
+        errorMap: () => ({ message: "Método de puntuación de KPI inválido." })
+      })
+      .default("Stepped"),
+    targetTolerance: z
+      .string()
+      .refine(v => v.trim() === "" || (!isNaN(Number(v)) && Number(v) >= 0), {
+        message: "La tolerancia debe ser un número no negativo."
+      })
       .nullable()
       .optional(),
-    rollupEnabled: z.boolean().default(false)
+    externalCode: z
+      .string()
+      .superRefine((value, ctx) => {
+        if (!value.trim()) return
+        const result = ExternalCodeSchema.safeParse(value)
+        if (!result.success) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: result.error.issues[0].message
+          })
+        }
+      })
+      .nullable()
+      .optional(),
+    aliases: z.string().nullable().optional() // Un alias por línea o separados por comas
   })
   .refine(
     data => {
@@ -171,6 +224,10 @@ export default function KpiEditor({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [allUsers, setAllUsers] = useState<SelectProfile[]>([])
   const [kpiUpdaters, setKpiUpdaters] = useState<SelectKpiUpdater[]>([])
+  const [allGroups, setAllGroups] = useState<SelectGroup[]>([])
+  const [kpiGroupUpdaters, setKpiGroupUpdaters] = useState<
+    SelectKpiGroupUpdater[]
+  >([])
   const [ownerUserId, setOwnerUserId] = useState<string | "null">("null")
 
   const form = useForm<z.infer<typeof formSchema>>({
@@ -187,13 +244,20 @@ export default function KpiEditor({
       decimalPrecision: kpi?.decimalPrecision ?? 0,
       isManualUpdate: kpi?.isManualUpdate ?? false,
       calculationEquation: kpi?.calculationEquation ?? null,
-      rollupEnabled: kpi?.rollupEnabled ?? false
+      rollupEnabled: kpi?.rollupEnabled ?? false,
+      scoringDirection: kpi?.scoringDirection ?? "Higher is Better",
+      scoringMethod: kpi?.scoringMethod ?? "Stepped",
+      targetTolerance: kpi?.targetTolerance ?? null,
+      externalCode: kpi?.externalCode ?? "",
+      aliases: kpi?.aliases.join("\n") ?? ""
     }
   })
 
   const currentIsManualUpdate = form.watch("isManualUpdate")
   const currentCalculationEquation = form.watch("calculationEquation")
   const currentRollupEnabled = form.watch("rollupEnabled")
+  const currentScoringType = form.watch("scoringType")
+  const currentScoringDirection = form.watch("scoringDirection")
 
   // Usuarios para propietarios/updaters
   useEffect(() => {
@@ -211,6 +275,16 @@ export default function KpiEditor({
     })()
   }, [toast])
 
+  // Grupos para updaters por grupo
+  useEffect(() => {
+    ;(async () => {
+      const res = await getAllGroupsAction()
+      if (res.isSuccess && res.data) {
+        setAllGroups(res.data)
+      }
+    })()
+  }, [])
+
   // Si estoy editando, cargo updaters y owner a partir del KPI (con getKpiAction)
   useEffect(() => {
     ;(async () => {
@@ -227,6 +301,10 @@ export default function KpiEditor({
           (res.data as any)?.scorecardElementOwnerUserId ?? null
         setOwnerUserId(ownerIdFromModel ?? "null")
       }
+      const groupsRes = await getKpiGroupUpdatersAction(kpi.id)
+      if (groupsRes.isSuccess && groupsRes.data) {
+        setKpiGroupUpdaters(groupsRes.data)
+      }
     })()
   }, [kpi?.id])
 
@@ -238,7 +316,13 @@ export default function KpiEditor({
     let result: ActionState<SelectKpi>
 
     if (isEditMode && kpi?.id) {
-      const { scorecardElementId: _ignore, ...updatePayload } = values
+      const { scorecardElementId: _ignore, aliases, ...configuration } = values
+      const updatePayload = {
+        ...configuration,
+        targetTolerance: configuration.targetTolerance || null,
+        externalCode: configuration.externalCode?.trim() || null,
+        aliases: parseAliasList(aliases)
+      }
       result = await updateKpiConfigurationAction(kpi.id, updatePayload)
 
       if (result.isSuccess) {
@@ -247,10 +331,17 @@ export default function KpiEditor({
           updatePayload.calculationEquation !== undefined &&
           updatePayload.calculationEquation !== kpi.calculationEquation
         ) {
-          await setKpiCalculationEquationAction({
+          const equationResult = await setKpiCalculationEquationAction({
             kpiId: kpi.id,
             calculationEquation: updatePayload.calculationEquation
           })
+          if (!equationResult.isSuccess) {
+            // Mostrar el error (con posición) bajo el campo de la ecuación
+            form.setError("calculationEquation", {
+              message: equationResult.message
+            })
+            result = equationResult
+          }
         }
         // persistir rollup si cambió
         if (
@@ -274,6 +365,11 @@ export default function KpiEditor({
         isManualUpdate: values.isManualUpdate,
         calculationEquation: values.calculationEquation,
         rollupEnabled: values.rollupEnabled,
+        scoringDirection: values.scoringDirection,
+        scoringMethod: values.scoringMethod,
+        targetTolerance: values.targetTolerance || null,
+        externalCode: values.externalCode?.trim() || null,
+        aliases: parseAliasList(values.aliases),
         createdAt: new Date(),
         updatedAt: new Date()
       }
@@ -373,6 +469,42 @@ export default function KpiEditor({
     setIsSubmitting(false)
   }
 
+  /**
+   * Asignación/remoción de un grupo como Updater
+   * (los miembros del grupo pueden actualizar el KPI mientras pertenezcan a él)
+   */
+  const handleAssignGroupUpdater = async (
+    groupId: string,
+    checked: boolean | "indeterminate"
+  ) => {
+    if (!kpi?.id) return
+    setIsSubmitting(true)
+
+    const result =
+      checked === true
+        ? await assignKpiGroupUpdatersAction({ kpiId: kpi.id, groupId })
+        : await removeKpiGroupUpdaterAction({ kpiId: kpi.id, groupId })
+
+    if (result.isSuccess) {
+      toast({
+        title: "Éxito",
+        description: `Grupo ${checked === true ? "asignado" : "quitado"} correctamente.`
+      })
+      const updated = await getKpiGroupUpdatersAction(kpi.id)
+      if (updated.isSuccess && updated.data) {
+        setKpiGroupUpdaters(updated.data)
+      }
+      router.refresh()
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive"
+      })
+    }
+    setIsSubmitting(false)
+  }
+
   return (
     <Tabs defaultValue="settings" className="w-full">
       <TabsList className="grid w-full grid-cols-3">
@@ -531,6 +663,108 @@ export default function KpiEditor({
                 )}
               />
 
+              {currentScoringType === "Goal/Red Flag" && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="scoringDirection"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sentido de la Puntuación</FormLabel>
+                        <UiSelect
+                          onValueChange={field.onChange}
+                          value={field.value}
+                          disabled={isSubmitting}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecciona el sentido de la puntuación" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {kpiScoringDirectionEnum.enumValues.map(
+                              direction => (
+                                <SelectItem key={direction} value={direction}>
+                                  {direction}
+                                </SelectItem>
+                              )
+                            )}
+                          </SelectContent>
+                        </UiSelect>
+                        <FormDescription>
+                          Mayor es mejor (ej. ventas), menor es mejor (ej.
+                          costos, defectos) o más cerca del objetivo es mejor.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="scoringMethod"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Método de Puntuación</FormLabel>
+                        <UiSelect
+                          onValueChange={field.onChange}
+                          value={field.value}
+                          disabled={isSubmitting}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecciona el método de puntuación" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {kpiScoringMethodEnum.enumValues.map(method => (
+                              <SelectItem key={method} value={method}>
+                                {method}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </UiSelect>
+                        <FormDescription>
+                          Tramos fijos (100/50/25/0) o interpolación lineal
+                          entre umbrales.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {currentScoringDirection === "Closer to Target" && (
+                    <FormField
+                      control={form.control}
+                      name="targetTolerance"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            Tolerancia respecto del Objetivo
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              placeholder="Ej. 5"
+                              {...field}
+                              value={field.value ?? ""}
+                              disabled={isSubmitting}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Desviación máxima (por encima o por debajo del
+                            objetivo) que se considera Verde.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </>
+              )}
+
               <FormField
                 control={form.control}
                 name="decimalPrecision"
@@ -556,6 +790,54 @@ export default function KpiEditor({
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="externalCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Código Externo (Opcional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Ej. VTA-001"
+                        {...field}
+                        value={field.value ?? ""}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Código único con el que los sistemas de origen identifican
+                      este KPI. Las importaciones y las ecuaciones
+                      ([KPI:VTA-001]) pueden usarlo en lugar del nombre.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="aliases"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Alias (Opcional)</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder={"Ej. Ventas netas\nNet Sales"}
+                        rows={2}
+                        {...field}
+                        value={field.value ?? ""}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Otros nombres del KPI en los archivos importados, uno por
+                      línea o separados por comas.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="isManualUpdate"
@@ -604,7 +886,11 @@ export default function KpiEditor({
                     </FormControl>
                     <FormDescription>
                       Define una ecuación para calcular el valor del KPI
-                      automáticamente (excluye KPI manual o rollup).
+                      automáticamente (excluye KPI manual o rollup). Admite + -
+                      * / ^, paréntesis, comparaciones y las funciones MIN, MAX,
+                      SUM, AVG, ABS, ROUND e IF. Las referencias aceptan
+                      modificadores: [KPI:Ventas:target], :red, :yellow, :prev,
+                      :lastYear, :ytd y :trailing12.
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -728,6 +1014,39 @@ export default function KpiEditor({
                 )
               })}
             </ScrollArea>
+
+            <h3 className="text-lg font-semibold">Grupos Updaters del KPI</h3>
+            <p className="text-muted-foreground text-sm">
+              Los miembros actuales de estos grupos pueden ingresar valores
+              manualmente para este KPI.
+            </p>
+            <ScrollArea className="h-40 w-full rounded-md border p-4">
+              {allGroups.map(group => {
+                const isGroupUpdater = kpiGroupUpdaters.some(
+                  g => g.groupId === group.id
+                )
+                return (
+                  <div
+                    key={group.id}
+                    className="flex items-center justify-between py-2"
+                  >
+                    <span>
+                      {group.name}{" "}
+                      <span className="text-muted-foreground text-xs">
+                        ({group.groupType})
+                      </span>
+                    </span>
+                    <Checkbox
+                      checked={isGroupUpdater}
+                      onCheckedChange={checked =>
+                        handleAssignGroupUpdater(group.id, checked)
+                      }
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                )
+              })}
+            </ScrollArea>
           </div>
         </TabsContent>
       )}
@@ -5,7 +5,8 @@
  * manualmente los valores (actual, objetivo, umbrales) de un KPI para un período específico.
  * Utiliza `react-hook-form` y `zod` para la validación y se integra con la
  * `updateKpiManualValueAction` del backend. Proporciona retroalimentación
- * mediante `useToast` (UC-102).
+ * mediante `useToast` (UC-102). Si el período ya tiene un valor registrado, muestra debajo
+ * sus conversaciones de notas y respuestas.
  */
 "use client"
 
@@ -42,6 +43,7 @@ import {
 import { format } from "date-fns"
 import { CalendarIcon, Loader2, Save } from "lucide-react"
 import { cn } from "@/lib/utils" // Import cn utility
+import KpiNotesThread from "./kpi-notes-thread"
 
 /**
  * @interface KpiManualUpdateFormProps
@@ -236,159 +238,163 @@ export default function KpiManualUpdateForm({
   )
 
   return (
-    <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-        <FormField
-          control={form.control}
-          name="periodDate"
-          render={({ field }) => (
-            <FormItem className="flex flex-col">
-              <FormLabel>Fecha del Período</FormLabel>
-              <Popover>
-                <PopoverTrigger asChild>
-                  <FormControl>
-                    <Button
-                      variant={"outline"}
-                      className={cn(
-                        "w-[240px] pl-3 text-left font-normal",
-                        !field.value && "text-muted-foreground"
-                      )}
-                    >
-                      {field.value ? (
-                        format(field.value, "PPP")
-                      ) : (
-                        <span>Selecciona una fecha</span>
-                      )}
-                      <CalendarIcon className="ml-auto size-4 opacity-50" />
-                    </Button>
-                  </FormControl>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <Calendar
-                    mode="single"
-                    selected={field.value}
-                    onSelect={field.onChange}
-                    disabled={date =>
-                      date > new Date() || date < new Date("1900-01-01")
-                    }
-                    initialFocus
+    <div className="space-y-6">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="periodDate"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>Fecha del Período</FormLabel>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <FormControl>
+                      <Button
+                        variant={"outline"}
+                        className={cn(
+                          "w-[240px] pl-3 text-left font-normal",
+                          !field.value && "text-muted-foreground"
+                        )}
+                      >
+                        {field.value ? (
+                          format(field.value, "PPP")
+                        ) : (
+                          <span>Selecciona una fecha</span>
+                        )}
+                        <CalendarIcon className="ml-auto size-4 opacity-50" />
+                      </Button>
+                    </FormControl>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={field.value}
+                      onSelect={field.onChange}
+                      disabled={date =>
+                        date > new Date() || date < new Date("1900-01-01")
+                      }
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="actualValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Valor Actual</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Ej. 123.45"
+                    type={isNumericKpi ? "number" : "text"}
+                    step={isNumericKpi ? "any" : undefined}
+                    {...field}
+                    value={field.value ?? ""}
                   />
-                </PopoverContent>
-              </Popover>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
 
-        <FormField
-          control={form.control}
-          name="actualValue"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Valor Actual</FormLabel>
-              <FormControl>
-                <Input
-                  placeholder="Ej. 123.45"
-                  type={isNumericKpi ? "number" : "text"}
-                  step={isNumericKpi ? "any" : undefined}
-                  {...field}
-                  value={field.value ?? ""}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
+          {kpiConfig.scoringType === "Goal/Red Flag" && ( // Only show target/thresholds for Goal/Red Flag KPIs
+            <>
+              <FormField
+                control={form.control}
+                name="targetValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valor Objetivo</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Ej. 100.00"
+                        type={isNumericKpi ? "number" : "text"}
+                        step={isNumericKpi ? "any" : undefined}
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="thresholdRed"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Umbral Rojo</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Ej. 70.00"
+                        type={isNumericKpi ? "number" : "text"}
+                        step={isNumericKpi ? "any" : undefined}
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="thresholdYellow"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Umbral Amarillo</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Ej. 90.00"
+                        type={isNumericKpi ? "number" : "text"}
+                        step={isNumericKpi ? "any" : undefined}
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
           )}
-        />
 
-        {kpiConfig.scoringType === "Goal/Red Flag" && ( // Only show target/thresholds for Goal/Red Flag KPIs
-          <>
-            <FormField
-              control={form.control}
-              name="targetValue"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Valor Objetivo</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="Ej. 100.00"
-                      type={isNumericKpi ? "number" : "text"}
-                      step={isNumericKpi ? "any" : undefined}
-                      {...field}
-                      value={field.value ?? ""}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={form.control}
-              name="thresholdRed"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Umbral Rojo</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="Ej. 70.00"
-                      type={isNumericKpi ? "number" : "text"}
-                      step={isNumericKpi ? "any" : undefined}
-                      {...field}
-                      value={field.value ?? ""}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={form.control}
-              name="thresholdYellow"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Umbral Amarillo</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="Ej. 90.00"
-                      type={isNumericKpi ? "number" : "text"}
-                      step={isNumericKpi ? "any" : undefined}
-                      {...field}
-                      value={field.value ?? ""}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          </>
-        )}
+          <FormField
+            control={form.control}
+            name="note"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nota (Opcional)</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="Añadir una nota sobre esta actualización..."
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
 
-        <FormField
-          control={form.control}
-          name="note"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Nota (Opcional)</FormLabel>
-              <FormControl>
-                <Textarea
-                  placeholder="Añadir una nota sobre esta actualización..."
-                  {...field}
-                  value={field.value ?? ""}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+          <Button type="submit" disabled={isSubmitting} className="w-full">
+            {isSubmitting ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 size-4" />
+            )}
+            Guardar Actualización Manual
+          </Button>
+        </form>
+      </Form>
 
-        <Button type="submit" disabled={isSubmitting} className="w-full">
-          {isSubmitting ? (
-            <Loader2 className="mr-2 size-4 animate-spin" />
-          ) : (
-            <Save className="mr-2 size-4" />
-          )}
-          Guardar Actualización Manual
-        </Button>
-      </form>
-    </Form>
+      {currentKpiValue && <KpiNotesThread kpiValueId={currentKpiValue.id} />}
+    </div>
   )
 }
@@ -0,0 +1,316 @@
+/**
+ * @file app/(main)/scorecards/_components/kpi-notes-thread.tsx
+ * @brief Componente de cliente con las conversaciones de notas de un valor de KPI.
+ * @description Muestra las notas de un KPI en un período, con sus respuestas, autor, fecha y
+ * menciones, y permite publicar notas y respuestas (mencionando usuarios con @correo), así como
+ * editar o eliminar las notas según los permisos devueltos por el servidor.
+ */
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import {
+  createKpiNoteAction,
+  deleteKpiNoteAction,
+  getKpiValueNotesAction,
+  updateKpiNoteAction
+} from "@/actions/db/kpi-note-actions"
+import { KPI_NOTE_MAX_LENGTH, KpiNoteThread, KpiNoteView } from "@/types"
+import { useToast } from "@/components/ui/use-toast"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog"
+import { format } from "date-fns"
+import { Loader2, MessageSquareReply, Pencil, Send, Trash2 } from "lucide-react"
+
+interface KpiNotesThreadProps {
+  kpiValueId: string
+}
+
+/**
+ * @function NoteComposer
+ * @description Cuadro de texto para publicar o editar una nota.
+ */
+function NoteComposer({
+  initialValue = "",
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel
+}: {
+  initialValue?: string
+  placeholder: string
+  submitLabel: string
+  onSubmit: (content: string) => Promise<boolean>
+  onCancel?: () => void
+}) {
+  const [content, setContent] = useState(initialValue)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    if (await onSubmit(content)) setContent("")
+    setIsSubmitting(false)
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={content}
+        onChange={event => setContent(event.target.value)}
+        placeholder={placeholder}
+        maxLength={KPI_NOTE_MAX_LENGTH}
+        disabled={isSubmitting}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancelar
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleSubmit}
+          disabled={isSubmitting || !content.trim()}
+        >
+          {isSubmitting ? (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          ) : (
+            <Send className="mr-2 size-4" />
+          )}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * @function renderContent
+ * @description Resalta en el texto las menciones a usuarios existentes.
+ */
+function renderContent(note: KpiNoteView) {
+  const mentionTokens = new Set(
+    note.mentions.flatMap(mention =>
+      mention.email
+        ? [
+            mention.email.toLowerCase(),
+            mention.email.split("@")[0].toLowerCase()
+          ]
+        : [mention.userId.toLowerCase()]
+    )
+  )
+  return note.content
+    .split(/(@[\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g)
+    .map((part, index) =>
+      part.startsWith("@") &&
+      mentionTokens.has(part.slice(1).replace(/[.]+$/, "").toLowerCase()) ? (
+        <span key={index} className="text-primary font-medium">
+          {part}
+        </span>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )
+}
+
+export default function KpiNotesThread({ kpiValueId }: KpiNotesThreadProps) {
+  const { toast } = useToast()
+  const [threads, setThreads] = useState<KpiNoteThread[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const loadNotes = useCallback(async () => {
+    const result = await getKpiValueNotesAction(kpiValueId)
+    if (result.isSuccess) {
+      setThreads(result.data)
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive"
+      })
+    }
+    setIsLoading(false)
+  }, [kpiValueId, toast])
+
+  useEffect(() => {
+    setIsLoading(true)
+    loadNotes()
+  }, [loadNotes])
+
+  /**
+   * @function handleResult
+   * @description Muestra el resultado de una acción y recarga las notas si tuvo éxito.
+   */
+  const handleResult = async (result: {
+    isSuccess: boolean
+    message: string
+  }): Promise<boolean> => {
+    toast({
+      title: result.isSuccess ? "Éxito" : "Error",
+      description: result.message,
+      variant: result.isSuccess ? "default" : "destructive"
+    })
+    if (result.isSuccess) await loadNotes()
+    return result.isSuccess
+  }
+
+  const renderNote = (note: KpiNoteView, rootId: string) => (
+    <div key={note.id} className="space-y-1">
+      <div className="text-muted-foreground flex flex-wrap items-center gap-x-2 text-xs">
+        <span className="text-foreground font-medium">
+          {note.authorEmail ?? note.authorUserId ?? "Usuario eliminado"}
+        </span>
+        <span>{format(new Date(note.createdAt), "dd/MM/yyyy HH:mm")}</span>
+        {note.editedAt && <span>(editada)</span>}
+      </div>
+
+      {editingId === note.id ? (
+        <NoteComposer
+          initialValue={note.content}
+          placeholder="Editar nota..."
+          submitLabel="Guardar"
+          onCancel={() => setEditingId(null)}
+          onSubmit={async content => {
+            const saved = await handleResult(
+              await updateKpiNoteAction({ id: note.id, content })
+            )
+            if (saved) setEditingId(null)
+            return saved
+          }}
+        />
+      ) : (
+        <p className="whitespace-pre-wrap text-sm">{renderContent(note)}</p>
+      )}
+
+      <div className="flex gap-1">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setReplyingTo(rootId)}
+        >
+          <MessageSquareReply className="mr-1 size-4" /> Responder
+        </Button>
+        {note.canEdit && editingId !== note.id && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setEditingId(note.id)}
+          >
+            <Pencil className="mr-1 size-4" /> Editar
+          </Button>
+        )}
+        {note.canDelete && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-red-600"
+              >
+                <Trash2 className="mr-1 size-4" /> Eliminar
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>¿Eliminar esta nota?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {note.parentNoteId
+                    ? "La respuesta se eliminará de la conversación."
+                    : "Se eliminarán la nota y todas sus respuestas."}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={async () =>
+                    handleResult(await deleteKpiNoteAction(note.id))
+                  }
+                  className="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+                >
+                  Eliminar
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold">Notas del período</h3>
+
+      <NoteComposer
+        placeholder="Escribe una nota. Menciona a otros usuarios con @correo."
+        submitLabel="Publicar nota"
+        onSubmit={async content =>
+          handleResult(await createKpiNoteAction({ kpiValueId, content }))
+        }
+      />
+
+      {isLoading ? (
+        <Loader2 className="mx-auto size-5 animate-spin" />
+      ) : threads.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          Aún no hay notas para este período.
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {threads.map(thread => (
+            <li key={thread.note.id} className="rounded-md border p-3">
+              {renderNote(thread.note, thread.note.id)}
+              {(thread.replies.length > 0 || replyingTo === thread.note.id) && (
+                <div className="mt-3 space-y-3 border-l pl-4">
+                  {thread.replies.map(reply =>
+                    renderNote(reply, thread.note.id)
+                  )}
+                  {replyingTo === thread.note.id && (
+                    <NoteComposer
+                      placeholder="Escribe una respuesta..."
+                      submitLabel="Responder"
+                      onCancel={() => setReplyingTo(null)}
+                      onSubmit={async content => {
+                        const sent = await handleResult(
+                          await createKpiNoteAction({
+                            kpiValueId,
+                            content,
+                            parentNoteId: thread.note.id
+                          })
+                        )
+                        if (sent) setReplyingTo(null)
+                        return sent
+                      }}
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
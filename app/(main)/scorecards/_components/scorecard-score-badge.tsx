@@ -0,0 +1,67 @@
+/**
+ * @file app/(main)/scorecards/_components/scorecard-score-badge.tsx
+ * @brief Indicador Rojo/Amarillo/Verde de la puntuación de un elemento del Scorecard.
+ * @description Muestra el color y la puntuación (0-100) de un elemento para el período evaluado.
+ * En perspectivas y objetivos indica además cuántos hijos aportaron datos al promedio ponderado.
+ */
+
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { ScorecardElementScore } from "@/types"
+
+const COLOR_CLASSES: Record<
+  NonNullable<ScorecardElementScore["color"]>,
+  string
+> = {
+  Green: "bg-green-500 text-white",
+  Yellow: "bg-yellow-400 text-black",
+  Red: "bg-red-500 text-white"
+}
+
+const COLOR_LABELS: Record<
+  NonNullable<ScorecardElementScore["color"]>,
+  string
+> = {
+  Green: "Verde",
+  Yellow: "Amarillo",
+  Red: "Rojo"
+}
+
+interface ScorecardScoreBadgeProps {
+  score?: ScorecardElementScore
+  isKpi: boolean
+}
+
+export default function ScorecardScoreBadge({
+  score,
+  isKpi
+}: ScorecardScoreBadgeProps) {
+  if (!score || score.score === null) {
+    return (
+      <Badge variant="outline" className="text-muted-foreground">
+        Sin datos
+      </Badge>
+    )
+  }
+
+  const totalChildren = score.contributingChildren + score.missingChildren
+
+  return (
+    <div className="flex items-center gap-2">
+      <Badge
+        className={cn(
+          "border-transparent",
+          score.color ? COLOR_CLASSES[score.color] : "bg-muted"
+        )}
+        title={score.color ? COLOR_LABELS[score.color] : undefined}
+      >
+        {score.score.toFixed(1)}
+      </Badge>
+      {!isKpi && totalChildren > 0 && (
+        <span className="text-muted-foreground text-xs">
+          {score.contributingChildren}/{totalChildren} con datos
+        </span>
+      )}
+    </div>
+  )
+}
@@ -3,15 +3,20 @@
  * @brief Página de administración de Scorecards y KPIs para listar y gestionar la estrategia organizacional.
  * @description Server Component que:
  *   - Autentica al usuario.
- *   - Obtiene organizaciones y selecciona la primera por defecto.
- *   - Lista elementos de Scorecard y, si son KPI, adjunta sus detalles.
+ *   - Obtiene las organizaciones que el usuario puede ver y selecciona la primera por defecto.
+ *   - Lista elementos de Scorecard como árbol jerárquico y, si son KPI, adjunta sus detalles.
+ *   - Muestra la puntuación Rojo/Amarillo/Verde de cada elemento, agregada por pesos desde los KPIs.
  *   - Permite crear/editar elementos y configurar KPIs mediante diálogos.
+ *   - Permite asignar un grupo como Updater de todos los KPIs bajo un elemento.
  */
 
 import { auth } from "@clerk/nextjs/server"
 import { redirect } from "next/navigation"
 import { getAllOrganizationsAction } from "@/actions/db/organization-actions"
-import { getScorecardElementsAction } from "@/actions/db/scorecard-element-actions"
+import {
+  getScorecardElementsAction,
+  getScorecardScoresAction
+} from "@/actions/db/scorecard-element-actions"
 import { getKpiAction } from "@/actions/db/kpi-actions"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -30,11 +35,14 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 
 import ScorecardElementEditor from "./_components/scorecard-element-editor"
 import KpiEditor from "./_components/kpi-editor"
+import ScorecardScoreBadge from "./_components/scorecard-score-badge"
+import ElementGroupUpdatersAssigner from "./_components/element-group-updaters-assigner"
 import {
   SelectOrganization,
   SelectScorecardElement,
   SelectKpi
 } from "@/db/schema"
+import { ScorecardElementScore } from "@/types"
 
 interface ScorecardElementWithKpi extends SelectScorecardElement {
   kpi?: SelectKpi | null
@@ -82,6 +90,133 @@ export default async function ScorecardsPage() {
     }
   }
 
+  // 4) Puntuaciones agregadas (último período con valores)
+  let scoredPeriod: string | null = null
+  const scoresByElementId = new Map<string, ScorecardElementScore>()
+  if (selectedOrganizationId) {
+    const scoresRes = await getScorecardScoresAction(selectedOrganizationId)
+    if (scoresRes.isSuccess && scoresRes.data) {
+      scoredPeriod = scoresRes.data.periodDate
+      for (const score of scoresRes.data.scores) {
+        scoresByElementId.set(score.scorecardElementId, score)
+      }
+    }
+  }
+
+  // 5) Árbol de elementos (hijos anidados bajo su padre)
+  const elementIds = new Set(scorecardElements.map(el => el.id))
+  const childrenOf = (parentId: string | null) =>
+    scorecardElements.filter(el =>
+      parentId === null
+        ? !el.parentId || !elementIds.has(el.parentId)
+        : el.parentId === parentId
+    )
+
+  const renderElementTree = (
+    parentId: string | null,
+    ancestors: Set<string> = new Set()
+  ): React.ReactNode => {
+    const children = childrenOf(parentId).filter(el => !ancestors.has(el.id))
+    if (children.length === 0) return null
+    const nextAncestors = new Set(ancestors)
+    if (parentId) nextAncestors.add(parentId)
+    return (
+      <ul className={parentId ? "mt-3 space-y-3 border-l pl-4" : "space-y-3"}>
+        {children.map(element => (
+          <li key={element.id} className="rounded-md border p-4 shadow-sm">
+            <div className="mb-2 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                {/* Icono por tipo */}
+                {element.elementType === "Perspective" && (
+                  <LayoutGrid className="size-4 text-blue-500" />
+                )}
+                {element.elementType === "Objective" && (
+                  <Pyramid className="size-4 text-green-500" />
+                )}
+                {element.elementType === "Initiative" && (
+                  <PlusCircle className="size-4 text-purple-500" />
+                )}
+                {element.elementType === "KPI" && (
+                  <LayoutGrid className="size-4 text-red-500" />
+                )}
+                <h3 className="text-lg font-semibold">
+                  {element.name} ({element.elementType})
+                </h3>
+                <ScorecardScoreBadge
+                  score={scoresByElementId.get(element.id)}
+                  isKpi={element.elementType === "KPI"}
+                />
+              </div>
+
+              {/* Botón Configurar / Editar */}
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    Configurar
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
+                  <DialogHeader>
+                    <DialogTitle>
+                      {element.elementType === "KPI"
+                        ? `Configurar KPI: ${element.name}`
+                        : `Editar Elemento: ${element.name}`}
+                    </DialogTitle>
+                    <DialogDescription>
+                      {element.elementType === "KPI"
+                        ? "Establece las características específicas del KPI."
+                        : "Modifica los detalles de este elemento de Scorecard."}
+                    </DialogDescription>
+                  </DialogHeader>
+
+                  {element.elementType === "KPI" ? (
+                    // ✅ KpiEditor NO recibe organizationId ni onSuccess
+                    <KpiEditor
+                      scorecardElementId={element.id}
+                      organizationId={selectedOrganizationId}
+                      kpi={element.kpi || undefined}
+                    />
+                  ) : (
+                    // ✅ ScorecardElementEditor espera `organizations` y puede recibir `scorecardElement`
+                    <>
+                      <ScorecardElementEditor
+                        organizations={organizations}
+                        scorecardElement={element}
+                      />
+                      <ElementGroupUpdatersAssigner
+                        scorecardElementId={element.id}
+                      />
+                    </>
+                  )}
+                </DialogContent>
+              </Dialog>
+            </div>
+
+            <p className="text-muted-foreground text-sm">
+              {element.description || "Sin descripción."}
+            </p>
+
+            {/* Si es KPI, podríamos mostrar un mini resumen */}
+            {element.elementType === "KPI" && element.kpi && (
+              <>
+                <Separator className="my-3" />
+                <div className="text-muted-foreground text-sm">
+                  <span className="font-medium">Tipo de dato:</span>{" "}
+                  {element.kpi.dataType} ·{" "}
+                  <span className="font-medium">Frecuencia:</span>{" "}
+                  {element.kpi.calendarFrequency} ·{" "}
+                  <span className="font-medium">Rollup:</span>{" "}
+                  {element.kpi.rollupEnabled ? "Habilitado" : "Deshabilitado"}
+                </div>
+              </>
+            )}
+            {renderElementTree(element.id, nextAncestors)}
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
   return (
     <div className="container mx-auto py-12">
       {/* Header + Crear elemento */}
@@ -124,11 +259,19 @@ export default async function ScorecardsPage() {
               ? `(${organizations.find(o => o.id === selectedOrganizationId)?.name ?? "—"})`
               : "(Ninguna organización seleccionada)"}
           </CardTitle>
+          {selectedOrganizationId && scorecardElements.length > 0 && (
+            <p className="text-muted-foreground text-sm">
+              {scoredPeriod
+                ? `Puntuaciones del período ${scoredPeriod}`
+                : "Sin valores de KPI registrados"}
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           {organizations.length === 0 && (
             <p className="text-muted-foreground">
-              No hay organizaciones configuradas. Crea una primero para empezar.
+              No hay organizaciones configuradas o visibles para tu usuario.
+              Crea una o solicita acceso a un administrador.
             </p>
           )}
 
@@ -140,94 +283,7 @@ export default async function ScorecardsPage() {
 
           {selectedOrganizationId && scorecardElements.length > 0 && (
             <ScrollArea className="h-[500px] w-full rounded-md border p-4">
-              <ul className="space-y-3">
-                {scorecardElements.map(element => (
-                  <li
-                    key={element.id}
-                    className="rounded-md border p-4 shadow-sm"
-                  >
-                    <div className="mb-2 flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        {/* Icono por tipo */}
-                        {element.elementType === "Perspective" && (
-                          <LayoutGrid className="size-4 text-blue-500" />
-                        )}
-                        {element.elementType === "Objective" && (
-                          <Pyramid className="size-4 text-green-500" />
-                        )}
-                        {element.elementType === "Initiative" && (
-                          <PlusCircle className="size-4 text-purple-500" />
-                        )}
-                        {element.elementType === "KPI" && (
-                          <LayoutGrid className="size-4 text-red-500" />
-                        )}
-                        <h3 className="text-lg font-semibold">
-                          {element.name} ({element.elementType})
-                        </h3>
-                      </div>
-
-                      {/* Botón Configurar / Editar */}
-                      <Dialog>
-                        <DialogTrigger asChild>
-                          <Button variant="outline" size="sm">
-                            Configurar
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
-                          <DialogHeader>
-                            <DialogTitle>
-                              {element.elementType === "KPI"
-                                ? `Configurar KPI: ${element.name}`
-                                : `Editar Elemento: ${element.name}`}
-                            </DialogTitle>
-                            <DialogDescription>
-                              {element.elementType === "KPI"
-                                ? "Establece las características específicas del KPI."
-                                : "Modifica los detalles de este elemento de Scorecard."}
-                            </DialogDescription>
-                          </DialogHeader>
-
-                          {element.elementType === "KPI" ? (
-                            // ✅ KpiEditor NO recibe organizationId ni onSuccess
-                            <KpiEditor
-                              scorecardElementId={element.id}
-                              organizationId={selectedOrganizationId}
-                              kpi={element.kpi || undefined}
-                            />
-                          ) : (
-                            // ✅ ScorecardElementEditor espera `organizations` y puede recibir `scorecardElement`
-                            <ScorecardElementEditor
-                              organizations={organizations}
-                              scorecardElement={element}
-                            />
-                          )}
-                        </DialogContent>
-                      </Dialog>
-                    </div>
-
-                    <p className="text-muted-foreground text-sm">
-                      {element.description || "Sin descripción."}
-                    </p>
-
-                    {/* Si es KPI, podríamos mostrar un mini resumen */}
-                    {element.elementType === "KPI" && element.kpi && (
-                      <>
-                        <Separator className="my-3" />
-                        <div className="text-muted-foreground text-sm">
-                          <span className="font-medium">Tipo de dato:</span>{" "}
-                          {element.kpi.dataType} ·{" "}
-                          <span className="font-medium">Frecuencia:</span>{" "}
-                          {element.kpi.calendarFrequency} ·{" "}
-                          <span className="font-medium">Rollup:</span>{" "}
-                          {element.kpi.rollupEnabled
-                            ? "Habilitado"
-                            : "Deshabilitado"}
-                        </div>
-                      </>
-                    )}
-                  </li>
-                ))}
-              </ul>
+              {renderElementTree(null)}
             </ScrollArea>
           )}
         </CardContent>
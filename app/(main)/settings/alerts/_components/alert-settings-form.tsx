@@ -157,7 +157,12 @@ const ClientCustomKpiChangeConditionDetailsSchema = z.object({
   thresholdValue: z
     .string()
     .min(1, "El valor de umbral es requerido.")
-    .max(255, "El valor de umbral no puede exceder 255 caracteres.")
+    .max(255, "El valor de umbral no puede exceder 255 caracteres."),
+  comparison: z
+    .enum(["value", "delta"], {
+      errorMap: () => ({ message: "Tipo de comparación inválido." })
+    })
+    .optional()
 })
 
 /** Para recordatorio de actualización (alineado al servidor) */
@@ -552,7 +557,12 @@ const KpiAlertFormDialog: React.FC<KpiAlertFormDialogProps> = ({
                 </FormControl>
                 <FormDescription>
                   Define las condiciones del disparo. Estructura válida:{" "}
-                  <code>{"{ triggerEvent, operator, thresholdValue }"}</code>.
+                  <code>
+                    {"{ triggerEvent, operator, thresholdValue, comparison? }"}
+                  </code>
+                  . Con <code>{'"comparison": "delta"'}</code> se compara la
+                  variación respecto del período anterior en lugar del último
+                  valor.
                 </FormDescription>
                 <FormMessage />
               </FormItem>
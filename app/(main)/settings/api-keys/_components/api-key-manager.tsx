@@ -0,0 +1,375 @@
+/**
+ * @file app/(main)/settings/api-keys/_components/api-key-manager.tsx
+ * @brief Componente de cliente para gestionar las claves de API de ingesta de valores de KPI.
+ * @description Lista las claves emitidas (prefijo, organización, alcance, último uso, vencimiento y
+ * estado), permite crear una clave limitada a una organización y revocarla. El secreto de una clave
+ * nueva se muestra una única vez, con un ejemplo de uso de `POST /api/kpi-values`. Las acciones de
+ * creación y revocación solo se muestran con el permiso `import:manage_connections`.
+ */
+"use client"
+
+import React, { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { format } from "date-fns"
+import {
+  createApiKeyAction,
+  revokeApiKeyAction
+} from "@/actions/db/api-key-actions"
+import { ApiKeyView } from "@/types"
+import { useToast } from "@/components/ui/use-toast"
+import { useRouter } from "next/navigation"
+import { usePermissions } from "@/context/permission-context"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog"
+import { Copy, KeyRound, Loader2, Ban } from "lucide-react"
+
+/**
+ * @interface ApiKeyManagerProps
+ * @description Propiedades para el componente ApiKeyManager.
+ * @property {ApiKeyView[]} initialApiKeys - Claves emitidas.
+ * @property {{ id: string; name: string }[]} organizations - Organizaciones a las que se puede limitar una clave.
+ */
+interface ApiKeyManagerProps {
+  initialApiKeys: ApiKeyView[]
+  organizations: { id: string; name: string }[]
+}
+
+/**
+ * @schema formSchema
+ * @description Esquema de validación del formulario de creación de una clave.
+ * @property {string} name - Nombre descriptivo de la clave.
+ * @property {string} organizationId - Organización a la que se limita la clave.
+ * @property {boolean} includeDescendants - Permite también las organizaciones descendientes.
+ * @property {string} expiresAt - Fecha de vencimiento opcional (YYYY-MM-DD).
+ */
+const formSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "El nombre de la clave es requerido.")
+    .max(255, "El nombre no puede exceder los 255 caracteres."),
+  organizationId: z.string().uuid("Seleccione una organización."),
+  includeDescendants: z.boolean(),
+  expiresAt: z.string().optional()
+})
+
+/** Estado de una clave para mostrarlo en la tabla. */
+function getKeyStatus(apiKey: ApiKeyView): {
+  label: string
+  variant: "default" | "secondary" | "destructive"
+} {
+  if (apiKey.revokedAt) return { label: "Revocada", variant: "destructive" }
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) {
+    return { label: "Vencida", variant: "secondary" }
+  }
+  return { label: "Activa", variant: "default" }
+}
+
+export default function ApiKeyManager({
+  initialApiKeys,
+  organizations
+}: ApiKeyManagerProps) {
+  const { toast } = useToast()
+  const router = useRouter()
+  const { hasPermission } = usePermissions()
+  const canManageKeys = hasPermission("import:manage_connections")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null)
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      organizationId: "",
+      includeDescendants: true,
+      expiresAt: ""
+    }
+  })
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    setIsSubmitting(true)
+    try {
+      const result = await createApiKeyAction({
+        name: values.name,
+        organizationId: values.organizationId,
+        includeDescendants: values.includeDescendants,
+        expiresAt: values.expiresAt ? new Date(values.expiresAt) : null
+      })
+      if (result.isSuccess && result.data) {
+        setCreatedSecret(result.data.secret)
+        form.reset()
+        toast({ title: "Éxito", description: result.message })
+        router.refresh()
+      } else {
+        toast({
+          title: "Error",
+          description: result.message,
+          variant: "destructive"
+        })
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRevoke = async (id: string) => {
+    const result = await revokeApiKeyAction({ id })
+    toast({
+      title: result.isSuccess ? "Éxito" : "Error",
+      description: result.message,
+      variant: result.isSuccess ? "default" : "destructive"
+    })
+    if (result.isSuccess) router.refresh()
+  }
+
+  const handleCopySecret = async () => {
+    if (!createdSecret) return
+    await navigator.clipboard.writeText(createdSecret)
+    toast({ title: "Copiado", description: "Clave copiada al portapapeles." })
+  }
+
+  return (
+    <div className="space-y-8">
+      {canManageKeys && (
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="grid gap-4 md:grid-cols-2"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nombre</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ej. ETL ventas" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="organizationId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Organización</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccione una organización" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {organizations.map(org => (
+                        <SelectItem key={org.id} value={org.id}>
+                          {org.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expiresAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Vencimiento (opcional)</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="includeDescendants"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Incluir organizaciones descendientes</FormLabel>
+                    <FormDescription>
+                      La clave también podrá enviar valores de los KPIs de las
+                      organizaciones hijas.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <div className="md:col-span-2">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                ) : (
+                  <KeyRound className="mr-2 size-4" />
+                )}
+                Crear clave
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+
+      {createdSecret && (
+        <div className="space-y-2 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm">
+          <p className="font-medium">
+            Copie la clave ahora: no se volverá a mostrar.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="bg-background flex-1 break-all rounded p-2">
+              {createdSecret}
+            </code>
+            <Button variant="outline" size="sm" onClick={handleCopySecret}>
+              <Copy className="mr-2 size-4" /> Copiar
+            </Button>
+          </div>
+          <p className="text-muted-foreground">
+            Envíe los valores con <code>POST /api/kpi-values</code>, la cabecera{" "}
+            <code>Authorization: Bearer &lt;clave&gt;</code> y, para poder
+            reintentar sin duplicar, <code>Idempotency-Key</code>.
+          </p>
+        </div>
+      )}
+
+      {initialApiKeys.length === 0 ? (
+        <p className="text-muted-foreground py-8 text-center">
+          No hay claves de API emitidas.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nombre</TableHead>
+              <TableHead>Clave</TableHead>
+              <TableHead>Organización</TableHead>
+              <TableHead>Último uso</TableHead>
+              <TableHead>Vencimiento</TableHead>
+              <TableHead>Estado</TableHead>
+              <TableHead className="text-right">Acciones</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {initialApiKeys.map(apiKey => {
+              const status = getKeyStatus(apiKey)
+              return (
+                <TableRow key={apiKey.id}>
+                  <TableCell className="font-medium">{apiKey.name}</TableCell>
+                  <TableCell>
+                    <code>{apiKey.keyPrefix}…</code>
+                  </TableCell>
+                  <TableCell>
+                    {apiKey.organizationName ?? apiKey.organizationId}
+                    {apiKey.includeDescendants && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        (y descendientes)
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {apiKey.lastUsedAt
+                      ? format(new Date(apiKey.lastUsedAt), "dd/MM/yyyy HH:mm")
+                      : "Nunca"}
+                  </TableCell>
+                  <TableCell>
+                    {apiKey.expiresAt
+                      ? format(new Date(apiKey.expiresAt), "dd/MM/yyyy")
+                      : "Sin vencimiento"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {canManageKeys && !apiKey.revokedAt && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                          >
+                            <Ban className="mr-2 size-4" /> Revocar
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              ¿Revocar la clave &quot;{apiKey.name}&quot;?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Los procesos que la usan dejarán de poder enviar
+                              valores. Esta acción no se puede deshacer.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleRevoke(apiKey.id)}
+                              className="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+                            >
+                              Revocar
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
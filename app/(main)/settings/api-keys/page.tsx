@@ -0,0 +1,75 @@
+/**
+ * @file app/(main)/settings/api-keys/page.tsx
+ * @brief Página de administración de las claves de API de ingesta de valores de KPI.
+ * @description Server Component: autentica, obtiene las claves emitidas y las organizaciones, y
+ * renderiza el gestor cliente. Las claves permiten a los procesos externos (ETL) enviar valores a
+ * `POST /api/kpi-values`.
+ */
+
+import { auth } from "@clerk/nextjs/server"
+import { redirect } from "next/navigation"
+import { getApiKeysAction } from "@/actions/db/api-key-actions"
+import { getAllOrganizationsAction } from "@/actions/db/organization-actions"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card"
+import ApiKeyManager from "./_components/api-key-manager"
+
+export default async function ApiKeysSettingsPage() {
+  const { userId } = await auth()
+  if (!userId) {
+    redirect("/login")
+  }
+
+  const [apiKeysRes, organizationsRes] = await Promise.all([
+    getApiKeysAction(),
+    getAllOrganizationsAction()
+  ])
+
+  if (!apiKeysRes.isSuccess || !organizationsRes.isSuccess) {
+    return (
+      <div className="container mx-auto py-12">
+        <h1 className="mb-4 text-2xl font-bold">
+          Error al cargar las claves de API
+        </h1>
+        <p className="text-red-500">
+          {apiKeysRes.isSuccess ? organizationsRes.message : apiKeysRes.message}
+        </p>
+      </div>
+    )
+  }
+
+  const organizations = (organizationsRes.data || []).map(org => ({
+    id: org.id,
+    name: org.name
+  }))
+
+  return (
+    <div className="container mx-auto py-12">
+      <div className="mb-8 flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Claves de API</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ingesta de valores de KPI</CardTitle>
+          <CardDescription>
+            Cada clave permite enviar valores a los KPIs de una organización (y,
+            opcionalmente, de sus descendientes) mediante{" "}
+            <code>POST /api/kpi-values</code>, en JSON o NDJSON.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ApiKeyManager
+            initialApiKeys={apiKeysRes.data || []}
+            organizations={organizations}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,7 +3,8 @@
  * @brief Componente de cliente para el formulario de configuración general de la aplicación.
  * @description Este componente permite a los administradores personalizar la terminología
  * de la aplicación (ej. cambiar "Measures" a "KPIs") y activar/desactivar la funcionalidad
- * de "Strategy Maps" (UC-403, UC-404).
+ * de "Strategy Maps" (UC-403, UC-404), elegir cómo se tratan los elementos sin datos al agregar
+ * las puntuaciones del Scorecard y definir el mes de inicio del año fiscal.
  * Utiliza `react-hook-form` para la gestión del formulario, `zod` para la validación,
  * y `Server Actions` para la persistencia de datos. Proporciona retroalimentación al usuario
  * a través de notificaciones `useToast`.
@@ -17,9 +18,15 @@ import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
 import {
   updateTerminologyAction,
-  toggleStrategyMapsAction
+  toggleStrategyMapsAction,
+  updateScoreMissingDataPolicyAction,
+  updateFiscalYearStartMonthAction
 } from "@/actions/db/app-settings-actions"
-import { ActionState } from "@/types"
+import {
+  ActionState,
+  SCORE_MISSING_DATA_POLICIES,
+  ScoreMissingDataPolicy
+} from "@/types"
 import { useToast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import {
@@ -36,6 +43,13 @@ import { Button } from "@/components/ui/button"
 import { Loader2, Save, Settings } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
 import { SelectAppSetting } from "@/db/schema"
 import { Separator } from "@/components/ui/separator"
 
@@ -44,30 +58,69 @@ import { Separator } from "@/components/ui/separator"
  * @description Propiedades para el componente AppSettingsForm.
  * @property {SelectAppSetting | null} initialCustomKpiTerm - Objeto de configuración inicial para la terminología de KPI.
  * @property {boolean} initialEnableStrategyMaps - Estado inicial de la activación de Strategy Maps.
+ * @property {ScoreMissingDataPolicy} initialScoreMissingDataPolicy - Política inicial de datos faltantes.
+ * @property {number} initialFiscalYearStartMonth - Mes inicial (1-12) de inicio del año fiscal.
  */
 interface AppSettingsFormProps {
   initialCustomKpiTerm: SelectAppSetting | null
   initialEnableStrategyMaps: boolean
+  initialScoreMissingDataPolicy: ScoreMissingDataPolicy
+  initialFiscalYearStartMonth: number
+}
+
+/**
+ * @constant SCORE_POLICY_LABELS
+ * @description Etiquetas legibles de las políticas de datos faltantes.
+ */
+const SCORE_POLICY_LABELS: Record<ScoreMissingDataPolicy, string> = {
+  exclude: "Ignorar elementos sin datos",
+  zero: "Contar elementos sin datos como 0",
+  propagate: "Dejar al padre sin puntuación"
 }
 
+/**
+ * @constant MONTH_LABELS
+ * @description Nombres de los meses, en orden, para elegir el inicio del año fiscal.
+ */
+const MONTH_LABELS = [
+  "Enero",
+  "Febrero",
+  "Marzo",
+  "Abril",
+  "Mayo",
+  "Junio",
+  "Julio",
+  "Agosto",
+  "Septiembre",
+  "Octubre",
+  "Noviembre",
+  "Diciembre"
+]
+
 /**
  * @schema formSchema
  * @description Esquema de validación Zod para el formulario de configuración de la aplicación.
  * Define la estructura y las reglas para los campos del formulario.
  * @property {string} customKpiTerm - El término personalizado para KPI (ej. "Medidas", "Métricas").
  * @property {boolean} enableStrategyMaps - Indica si la funcionalidad de Strategy Maps está habilitada.
+ * @property {ScoreMissingDataPolicy} scoreMissingDataPolicy - Tratamiento de los hijos sin datos en la agregación.
+ * @property {string} fiscalYearStartMonth - Mes (1-12) de inicio del año fiscal.
  */
 const formSchema = z.object({
   customKpiTerm: z
     .string()
     .min(1, "El término de KPI es requerido.")
     .max(255, "El término no puede exceder los 255 caracteres."),
-  enableStrategyMaps: z.boolean().default(false)
+  enableStrategyMaps: z.boolean().default(false),
+  scoreMissingDataPolicy: z.enum(SCORE_MISSING_DATA_POLICIES),
+  fiscalYearStartMonth: z.string()
 })
 
 export default function AppSettingsForm({
   initialCustomKpiTerm,
-  initialEnableStrategyMaps
+  initialEnableStrategyMaps,
+  initialScoreMissingDataPolicy,
+  initialFiscalYearStartMonth
 }: AppSettingsFormProps) {
   const { toast } = useToast()
   const router = useRouter()
@@ -77,7 +130,9 @@ export default function AppSettingsForm({
     resolver: zodResolver(formSchema),
     defaultValues: {
       customKpiTerm: initialCustomKpiTerm?.settingValue || "KPI", // Valor por defecto si no hay configuración
-      enableStrategyMaps: initialEnableStrategyMaps
+      enableStrategyMaps: initialEnableStrategyMaps,
+      scoreMissingDataPolicy: initialScoreMissingDataPolicy,
+      fiscalYearStartMonth: String(initialFiscalYearStartMonth)
     }
   })
 
@@ -85,9 +140,17 @@ export default function AppSettingsForm({
   useEffect(() => {
     form.reset({
       customKpiTerm: initialCustomKpiTerm?.settingValue || "KPI",
-      enableStrategyMaps: initialEnableStrategyMaps
+      enableStrategyMaps: initialEnableStrategyMaps,
+      scoreMissingDataPolicy: initialScoreMissingDataPolicy,
+      fiscalYearStartMonth: String(initialFiscalYearStartMonth)
     })
-  }, [initialCustomKpiTerm, initialEnableStrategyMaps, form])
+  }, [
+    initialCustomKpiTerm,
+    initialEnableStrategyMaps,
+    initialScoreMissingDataPolicy,
+    initialFiscalYearStartMonth,
+    form
+  ])
 
   /**
    * @function onSubmit
@@ -126,6 +189,30 @@ export default function AppSettingsForm({
       errorMessages.push(`Strategy Maps: ${strategyMapsResult.message}`)
     }
 
+    // 3. Actualizar política de datos faltantes de la agregación de puntuaciones
+    const scorePolicyResult: ActionState<SelectAppSetting> =
+      await updateScoreMissingDataPolicyAction({
+        policy: values.scoreMissingDataPolicy
+      })
+
+    if (scorePolicyResult.isSuccess) {
+      successCount++
+    } else {
+      errorMessages.push(`Puntuaciones: ${scorePolicyResult.message}`)
+    }
+
+    // 4. Actualizar el mes de inicio del año fiscal
+    const fiscalYearResult: ActionState<SelectAppSetting> =
+      await updateFiscalYearStartMonthAction({
+        month: Number(values.fiscalYearStartMonth)
+      })
+
+    if (fiscalYearResult.isSuccess) {
+      successCount++
+    } else {
+      errorMessages.push(`Año fiscal: ${fiscalYearResult.message}`)
+    }
+
     // Mostrar feedback al usuario
     if (successCount > 0 && errorMessages.length === 0) {
       toast({
@@ -220,6 +307,76 @@ export default function AppSettingsForm({
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="scoreMissingDataPolicy"
+              render={({ field }) => (
+                <FormItem className="mt-4 rounded-lg border p-4">
+                  <FormLabel className="text-base">
+                    Elementos sin datos en la puntuación del Scorecard
+                  </FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value}
+                    disabled={isSubmitting}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecciona una política" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SCORE_MISSING_DATA_POLICIES.map(policy => (
+                        <SelectItem key={policy} value={policy}>
+                          {SCORE_POLICY_LABELS[policy]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Cómo se tratan los KPIs u objetivos sin valor para el
+                    período al calcular el promedio ponderado de objetivos y
+                    perspectivas.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="fiscalYearStartMonth"
+              render={({ field }) => (
+                <FormItem className="mt-4 rounded-lg border p-4">
+                  <FormLabel className="text-base">
+                    Inicio del año fiscal
+                  </FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value}
+                    disabled={isSubmitting}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecciona un mes" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MONTH_LABELS.map((label, index) => (
+                        <SelectItem key={label} value={String(index + 1)}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Los valores de KPIs trimestrales y anuales se guardan en el
+                    inicio del trimestre o año fiscal que contiene la fecha
+                    informada.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </CardContent>
         </Card>
 
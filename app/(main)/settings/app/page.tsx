@@ -3,8 +3,10 @@
  * @brief Página de administración de la configuración general de la aplicación DeltaOne.
  * @description Este Server Component se encarga de:
  *   - Autenticar al usuario para asegurar el acceso.
- *   - Obtener las configuraciones actuales de la aplicación, como la terminología personalizada
- *     y el estado de activación de los Strategy Maps, mediante Server Actions.
+ *   - Obtener las configuraciones actuales de la aplicación, como la terminología personalizada,
+ *     el estado de activación de los Strategy Maps, la política de datos faltantes de la
+ *     agregación de puntuaciones del Scorecard y el mes de inicio del año fiscal, mediante
+ *     Server Actions.
  *   - Pasar estas configuraciones como props al componente cliente `AppSettingsForm` para
  *     su visualización y edición.
  * Es un punto central para que los administradores personalicen la experiencia de la aplicación
@@ -17,6 +19,15 @@ import { getAppSettingAction } from "@/actions/db/app-settings-actions"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import AppSettingsForm from "./_components/app-settings-form"
 import { SelectAppSetting } from "@/db/schema"
+import { SCORE_MISSING_DATA_POLICIES } from "@/types"
+import {
+  DEFAULT_SCORE_MISSING_DATA_POLICY,
+  SCORE_MISSING_DATA_POLICY_SETTING_KEY
+} from "@/lib/scorecard-scoring"
+import {
+  FISCAL_YEAR_START_MONTH_SETTING_KEY,
+  parseFiscalYearStartMonth
+} from "@/lib/period-utils"
 import { Separator } from "@/components/ui/separator"
 
 export default async function AppSettingsPage() {
@@ -26,9 +37,16 @@ export default async function AppSettingsPage() {
   }
 
   // Obtener configuraciones de la aplicación
-  const [terminologySettingRes, strategyMapsSettingRes] = await Promise.all([
+  const [
+    terminologySettingRes,
+    strategyMapsSettingRes,
+    scorePolicyRes,
+    fiscalYearRes
+  ] = await Promise.all([
     getAppSettingAction("custom_kpi_term"), // Ejemplo: 'KPI' en lugar de 'Measures'
-    getAppSettingAction("enable_strategy_maps") // true/false para Strategy Maps
+    getAppSettingAction("enable_strategy_maps"), // true/false para Strategy Maps
+    getAppSettingAction(SCORE_MISSING_DATA_POLICY_SETTING_KEY), // exclude/zero/propagate
+    getAppSettingAction(FISCAL_YEAR_START_MONTH_SETTING_KEY) // 1-12
   ])
 
   // Manejo de errores para la obtención de configuraciones
@@ -48,6 +66,14 @@ export default async function AppSettingsPage() {
   const customKpiTerm: SelectAppSetting | null = terminologySettingRes.data
   const enableStrategyMaps: boolean =
     strategyMapsSettingRes.data?.settingValue === "true"
+  const scoreMissingDataPolicy =
+    SCORE_MISSING_DATA_POLICIES.find(
+      policy =>
+        scorePolicyRes.isSuccess && policy === scorePolicyRes.data?.settingValue
+    ) ?? DEFAULT_SCORE_MISSING_DATA_POLICY
+  const fiscalYearStartMonth = parseFiscalYearStartMonth(
+    fiscalYearRes.isSuccess ? fiscalYearRes.data?.settingValue : null
+  )
 
   return (
     <div className="container mx-auto py-12">
@@ -63,6 +89,8 @@ export default async function AppSettingsPage() {
           <AppSettingsForm
             initialCustomKpiTerm={customKpiTerm}
             initialEnableStrategyMaps={enableStrategyMaps}
+            initialScoreMissingDataPolicy={scoreMissingDataPolicy}
+            initialFiscalYearStartMonth={fiscalYearStartMonth}
           />
         </CardContent>
       </Card>
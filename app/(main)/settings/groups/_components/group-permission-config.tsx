@@ -5,6 +5,7 @@
  * grupos de usuarios (UC-402). También sentará las bases para la gestión de miembros
  * y la asignación de permisos, incluyendo permisos organizacionales (UC-503).
  * Utiliza Server Actions para todas las operaciones CRUD y Shadcn UI para la interfaz.
+ * Al elegir el tipo de grupo se muestran los permisos que concede por defecto.
  */
 "use client"
 
@@ -25,7 +26,12 @@ import {
   assignGroupMembersAction,
   assignGroupPermissionsAction
 } from "@/actions/db/user-group-actions"
-import { ActionState } from "@/types"
+import {
+  ActionState,
+  GROUP_TYPE_DEFAULT_PERMISSIONS,
+  PERMISSION_KEY_LABELS,
+  READ_ONLY_GROUP_TYPES
+} from "@/types"
 import { useToast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import {
@@ -76,6 +82,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -131,6 +138,20 @@ const groupFormSchema = z.object({
   })
 })
 
+/**
+ * @function describeGroupTypeDefaults
+ * @description Resume los permisos que concede por defecto un tipo de grupo.
+ */
+function describeGroupTypeDefaults(
+  groupType: z.infer<typeof groupFormSchema>["groupType"]
+): string {
+  if (READ_ONLY_GROUP_TYPES.includes(groupType)) {
+    return "Solo lectura: los miembros ven las organizaciones permitidas, pero no pueden modificar datos aunque se les asignen permisos."
+  }
+  const defaults = GROUP_TYPE_DEFAULT_PERMISSIONS[groupType]
+  return `Permisos por defecto: ${defaults.map(key => PERMISSION_KEY_LABELS[key]).join(", ")}. Los permisos asignados al grupo reemplazan a estos.`
+}
+
 /**
  * @function GroupForm
  * @description Formulario para crear o editar un grupo de usuarios.
@@ -223,6 +244,9 @@ const GroupForm: React.FC<GroupFormProps> = ({ group, onSuccess, onClose }) => {
                   ))}
                 </SelectContent>
               </UiSelect>
+              <FormDescription>
+                {describeGroupTypeDefaults(field.value)}
+              </FormDescription>
               <FormMessage />
             </FormItem>
           )}
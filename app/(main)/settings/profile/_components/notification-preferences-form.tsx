@@ -0,0 +1,139 @@
+/**
+ * @file app/(main)/settings/profile/_components/notification-preferences-form.tsx
+ * @brief Componente de cliente para elegir cómo se reciben las alertas por correo.
+ * @description Permite al usuario elegir entre recibir un correo por cada alerta disparada o un
+ * único resumen diario o semanal agrupado por organización y KPI. Utiliza `react-hook-form` y
+ * `zod` para el formulario y una Server Action para guardar la preferencia.
+ */
+
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { useRouter } from "next/navigation"
+import { updateMyAlertDeliveryModeAction } from "@/actions/db/profiles-actions"
+import { ALERT_DELIVERY_MODES, AlertDeliveryMode } from "@/types"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Loader2, Save } from "lucide-react"
+
+/**
+ * @constant DELIVERY_MODE_LABELS
+ * @description Etiquetas legibles de los modos de entrega de alertas.
+ */
+const DELIVERY_MODE_LABELS: Record<AlertDeliveryMode, string> = {
+  immediate: "Inmediata (un correo por alerta)",
+  daily_digest: "Resumen diario",
+  weekly_digest: "Resumen semanal (lunes)"
+}
+
+const formSchema = z.object({
+  alertDeliveryMode: z.enum(ALERT_DELIVERY_MODES)
+})
+
+interface NotificationPreferencesFormProps {
+  initialAlertDeliveryMode: AlertDeliveryMode
+}
+
+export default function NotificationPreferencesForm({
+  initialAlertDeliveryMode
+}: NotificationPreferencesFormProps) {
+  const { toast } = useToast()
+  const router = useRouter()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { alertDeliveryMode: initialAlertDeliveryMode }
+  })
+
+  useEffect(() => {
+    form.reset({ alertDeliveryMode: initialAlertDeliveryMode })
+  }, [initialAlertDeliveryMode, form])
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    setIsSubmitting(true)
+    const result = await updateMyAlertDeliveryModeAction(values)
+    if (result.isSuccess) {
+      toast({
+        title: "Éxito",
+        description: "Preferencia de alertas guardada correctamente."
+      })
+      router.refresh()
+    } else {
+      toast({
+        title: "Error",
+        description: result.message,
+        variant: "destructive"
+      })
+    }
+    setIsSubmitting(false)
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="alertDeliveryMode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Entrega de alertas por correo</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value}
+                disabled={isSubmitting}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecciona un modo de entrega" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {ALERT_DELIVERY_MODES.map(mode => (
+                    <SelectItem key={mode} value={mode}>
+                      {DELIVERY_MODE_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Con los resúmenes recibirás un único correo con todas tus
+                alertas, agrupadas por organización y KPI. Todas las alertas
+                siguen disponibles en la página de Alertas.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 size-4" />
+          )}
+          Guardar preferencias
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,45 @@
+/**
+ * @file app/(main)/settings/profile/page.tsx
+ * @brief Página de preferencias personales del usuario en DeltaOne.
+ * @description Server Component: autentica, obtiene el perfil del usuario actual y renderiza el
+ * formulario cliente con su preferencia de entrega de alertas (inmediata o en resumen).
+ */
+
+import { auth } from "@clerk/nextjs/server"
+import { redirect } from "next/navigation"
+import { getProfileByUserIdAction } from "@/actions/db/profiles-actions"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import NotificationPreferencesForm from "./_components/notification-preferences-form"
+
+export default async function ProfileSettingsPage() {
+  const { userId } = await auth()
+  if (!userId) {
+    redirect("/login")
+  }
+
+  const profileRes = await getProfileByUserIdAction(userId)
+  if (!profileRes.isSuccess) {
+    return (
+      <div className="container mx-auto py-12">
+        <h1 className="mb-4 text-2xl font-bold">Error al cargar el perfil</h1>
+        <p className="text-red-500">{profileRes.message}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto py-12">
+      <h1 className="mb-6 text-3xl font-bold">Mi perfil</h1>
+      <Card>
+        <CardHeader>
+          <CardTitle>Notificaciones de alertas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <NotificationPreferencesForm
+            initialAlertDeliveryMode={profileRes.data.alertDeliveryMode}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+/**
+ * @file app/(main)/settings/users/_components/effective-permissions-explainer.tsx
+ * @brief Componente de cliente que explica los permisos efectivos de un usuario.
+ * @description Para la organización seleccionada (o de forma global) lista cada permiso, si el
+ * usuario lo tiene y la regla que lo decidió: una fila explícita del grupo, el permiso por defecto
+ * del tipo de grupo, un grupo de solo lectura, la configuración inicial o la falta de grupos.
+ */
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { getEffectivePermissionsAction } from "@/actions/db/user-group-actions"
+import {
+  EffectivePermissionExplanation,
+  PERMISSION_KEY_LABELS,
+  PermissionKey
+} from "@/types"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Loader2 } from "lucide-react"
+
+const GLOBAL_SCOPE = "global"
+
+/**
+ * @interface EffectivePermissionsExplainerProps
+ * @description Propiedades para el componente EffectivePermissionsExplainer.
+ * @property {string} userId - Usuario cuyos permisos se explican.
+ * @property {{ id: string; name: string }[]} organizations - Organizaciones que se pueden consultar.
+ */
+interface EffectivePermissionsExplainerProps {
+  userId: string
+  organizations: { id: string; name: string }[]
+}
+
+/** Describe la regla que concedió o denegó un permiso. */
+function describeRule(explanation: EffectivePermissionExplanation): string {
+  const group = `"${explanation.groupName}"`
+  switch (explanation.rule) {
+    case "explicit_organization":
+      return `Permiso explícito del grupo ${group} en la organización.`
+    case "explicit_global":
+      return `Permiso explícito global del grupo ${group}.`
+    case "group_type_default":
+      return `Permiso por defecto del tipo "${explanation.groupType}" (grupo ${group}).`
+    case "read_only_group_type":
+      return `El grupo ${group} es de solo lectura (${explanation.groupType}).`
+    case "bootstrap":
+      return "Configuración inicial: aún no hay miembros en ningún grupo."
+    case "no_groups":
+      return "El usuario no pertenece a ningún grupo."
+  }
+}
+
+export default function EffectivePermissionsExplainer({
+  userId,
+  organizations
+}: EffectivePermissionsExplainerProps) {
+  const [organizationId, setOrganizationId] = useState<string>(GLOBAL_SCOPE)
+  const [explanations, setExplanations] = useState<
+    EffectivePermissionExplanation[]
+  >([])
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    getEffectivePermissionsAction({
+      userId,
+      organizationId: organizationId === GLOBAL_SCOPE ? null : organizationId
+    }).then(result => {
+      if (cancelled) return
+      setExplanations(result.isSuccess ? result.data : [])
+      setError(result.isSuccess ? null : result.message)
+      setIsLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, organizationId])
+
+  return (
+    <div className="space-y-4">
+      <Select value={organizationId} onValueChange={setOrganizationId}>
+        <SelectTrigger>
+          <SelectValue placeholder="Seleccione una organización" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={GLOBAL_SCOPE}>Global</SelectItem>
+          {organizations.map(org => (
+            <SelectItem key={org.id} value={org.id}>
+              {org.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="size-6 animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Permiso</TableHead>
+              <TableHead>Estado</TableHead>
+              <TableHead>Motivo</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {explanations.map(explanation => (
+              <TableRow key={explanation.key}>
+                <TableCell>
+                  {PERMISSION_KEY_LABELS[explanation.key as PermissionKey] ??
+                    explanation.key}
+                  <div className="text-muted-foreground text-xs">
+                    {explanation.key}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={explanation.granted ? "default" : "secondary"}
+                  >
+                    {explanation.granted ? "Concedido" : "Denegado"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {describeRule(explanation)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
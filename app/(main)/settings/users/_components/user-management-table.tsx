@@ -5,6 +5,7 @@
  *  - Props v1: initialProfiles, initialGroups (compatibles).
  *  - Nuevo (opcional): canManageUsers para habilitar/inhabilitar acciones (v2).
  *  - Conserva edición individual (UC-400), desactivación (UC-400) e importación masiva (UC-401).
+ *  - Explica los permisos efectivos de cada usuario (regla y grupo que conceden cada permiso).
  */
 "use client"
 
@@ -43,8 +44,10 @@ import {
   UploadCloud, // Icono para importación masiva
   Loader2,
   Save,
-  Users
+  Users,
+  ShieldCheck
 } from "lucide-react"
+import EffectivePermissionsExplainer from "./effective-permissions-explainer"
 import {
   Dialog,
   DialogContent,
@@ -88,11 +91,13 @@ import {
  * @property {SelectProfile[]} initialProfiles - Lista inicial de perfiles de usuario.
  * @property {SelectGroup[]} initialGroups - Lista inicial de grupos (para mostrar membresías).
  * @property {boolean} [canManageUsers] - Si el usuario puede gestionar (editar/desactivar/importar). Default: true.
+ * @property {{ id: string; name: string }[]} [organizations] - Organizaciones para consultar los permisos efectivos.
  */
 interface UserManagementTableProps {
   initialProfiles: SelectProfile[]
   initialGroups: SelectGroup[]
   canManageUsers?: boolean
+  organizations?: { id: string; name: string }[]
 }
 
 /**
@@ -380,7 +385,8 @@ const BulkImportUsersForm: React.FC<BulkImportUsersFormProps> = ({
 const UserManagementTable: React.FC<UserManagementTableProps> = ({
   initialProfiles,
   initialGroups,
-  canManageUsers = true
+  canManageUsers = true,
+  organizations = []
 }) => {
   const { toast } = useToast()
   const router = useRouter()
@@ -512,6 +518,28 @@ const UserManagementTable: React.FC<UserManagementTableProps> = ({
                         </DialogContent>
                       </Dialog>
 
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <DropdownMenuItem onSelect={e => e.preventDefault()}>
+                            <ShieldCheck className="mr-2 size-4" /> Permisos
+                            efectivos
+                          </DropdownMenuItem>
+                        </DialogTrigger>
+                        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[800px]">
+                          <DialogHeader>
+                            <DialogTitle>Permisos Efectivos</DialogTitle>
+                            <DialogDescription>
+                              Qué permisos tiene {user.email ?? user.userId} y
+                              qué regla los concede o deniega.
+                            </DialogDescription>
+                          </DialogHeader>
+                          <EffectivePermissionsExplainer
+                            userId={user.userId}
+                            organizations={organizations}
+                          />
+                        </DialogContent>
+                      </Dialog>
+
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
                           <DropdownMenuItem
@@ -4,6 +4,7 @@
  * @description Basado en la versión 1, agrega:
  *  - Carga de permisos del usuario e integración con hasPermission.
  *  - Botón/modal de Importación Masiva (UC-401) condicionado por permisos.
+ *  - Organizaciones para consultar los permisos efectivos de cada usuario.
  *  Mantiene compatibilidad con v1 (mismas props para UserManagementTable).
  */
 
@@ -11,6 +12,7 @@ import { auth } from "@clerk/nextjs/server"
 import { redirect } from "next/navigation"
 import { getAllProfilesAction } from "@/actions/db/profiles-actions"
 import { getAllGroupsAction } from "@/actions/db/user-group-actions"
+import { getAllOrganizationsAction } from "@/actions/db/organization-actions"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import UserManagementTable from "./_components/user-management-table"
 import { SelectGroup, SelectProfile } from "@/db/schema"
@@ -41,12 +43,14 @@ export default async function UserSettingsPage() {
     redirect("/login")
   }
 
-  // Carga concurrente: perfiles, grupos y permisos (map)
-  const [profilesRes, groupsRes, permsRes] = await Promise.all([
-    getAllProfilesAction(),
-    getAllGroupsAction(),
-    getUserPermissionsMapAction() // devuelve UserPermissionsMap
-  ])
+  // Carga concurrente: perfiles, grupos, permisos (map) y organizaciones (permisos efectivos)
+  const [profilesRes, groupsRes, permsRes, organizationsRes] =
+    await Promise.all([
+      getAllProfilesAction(),
+      getAllGroupsAction(),
+      getUserPermissionsMapAction(), // devuelve UserPermissionsMap
+      getAllOrganizationsAction()
+    ])
 
   if (!profilesRes.isSuccess) {
     logger.error(`Error loading user profiles: ${profilesRes.message}`)
@@ -75,6 +79,9 @@ export default async function UserSettingsPage() {
 
   const profiles: SelectProfile[] = profilesRes.data || []
   const groups: SelectGroup[] = groupsRes.data || []
+  const organizations = organizationsRes.isSuccess
+    ? (organizationsRes.data || []).map(org => ({ id: org.id, name: org.name }))
+    : []
 
   // Helper de permisos (v2). Usamos 'user:manage' para habilitar importación/desactivación.
   const hasPermission = createHasPermission(userPermissions)
@@ -115,6 +122,7 @@ export default async function UserSettingsPage() {
           <UserManagementTable
             initialProfiles={profiles} // <- mismos nombres que v1
             initialGroups={groups} // <- mismos nombres que v1
+            organizations={organizations}
           />
         </CardContent>
       </Card>
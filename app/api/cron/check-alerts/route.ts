@@ -2,10 +2,13 @@
  * @file app/api/cron/check-alerts/route.ts
  * @brief Implementa la lógica para verificar y enviar alertas mediante un trabajo cron.
  * @description Este archivo contiene un endpoint protegido que es invocado por Vercel Cron Jobs.
- * Realiza la validación de las alertas configuradas en el sistema, evalúa sus condiciones y,
- * en caso de ser necesario, envía notificaciones por correo electrónico a los destinatarios
- * correspondientes. Asegura la autenticación mediante un secreto (`CRON_SECRET`) y maneja
- * errores para garantizar la estabilidad del proceso.
+ * Realiza la validación de las alertas configuradas en el sistema, evalúa sus condiciones con el
+ * motor de `lib/alert-evaluation.ts` y, si se cumplen, envía notificaciones por correo electrónico
+ * con los KPIs y períodos afectados a los destinatarios correspondientes. Cada notificación queda
+ * registrada en `alert_events`, lo que evita repetir el mismo hecho dentro de la ventana de
+ * frecuencia de la alerta. Los destinatarios que prefieren recibir resúmenes no reciben el correo
+ * inmediato: sus eventos se envían en el cron `send-alert-digests`. Asegura la autenticación
+ * mediante un secreto (`CRON_SECRET`) y maneja errores para garantizar la estabilidad del proceso.
  */
 
 import { NextResponse } from "next/server"
@@ -14,9 +17,52 @@ import { alertsTable, groupMembersTable, profilesTable } from "@/db/schema"
 import { getLogger } from "@/lib/logger"
 import { inArray } from "drizzle-orm"
 import { sendEmail } from "@/lib/mailer" // Import the mailer utility
+import {
+  buildAlertEmail,
+  evaluateAlert,
+  isAlertDue
+} from "@/lib/alert-evaluation"
+import {
+  AlertDelivery,
+  AlertRecipient,
+  filterNewAlertMatches,
+  recordAlertEvents
+} from "@/lib/alert-events"
 
 const logger = getLogger("cron-check-alerts")
 
+/**
+ * Resolves the given users and the members of the given groups, with their e-mail addresses
+ * and alert delivery preference.
+ * @param {string[]} userIds - Recipient user IDs.
+ * @param {string[]} groupIds - Recipient group IDs.
+ * @returns {Promise<AlertRecipient[]>} Unique recipients.
+ */
+async function resolveRecipients(
+  userIds: string[],
+  groupIds: string[]
+): Promise<AlertRecipient[]> {
+  const allUserIds = new Set(userIds.filter(Boolean))
+
+  if (groupIds.length > 0) {
+    const groupMembers = await db
+      .select({ userId: groupMembersTable.userId })
+      .from(groupMembersTable)
+      .where(inArray(groupMembersTable.groupId, groupIds))
+    groupMembers.forEach(gm => gm.userId && allUserIds.add(gm.userId))
+  }
+
+  if (allUserIds.size === 0) return []
+  return db
+    .select({
+      userId: profilesTable.userId,
+      email: profilesTable.email,
+      alertDeliveryMode: profilesTable.alertDeliveryMode
+    })
+    .from(profilesTable)
+    .where(inArray(profilesTable.userId, Array.from(allUserIds)))
+}
+
 /**
  * Handles incoming requests from Vercel Cron Jobs to check and send alerts.
  * This route is protected by `CRON_SECRET`.
@@ -49,113 +95,109 @@ export async function GET(request: Request) {
   logger.info("Cron job 'check-alerts' started.")
 
   try {
+    const now = new Date()
     const allAlerts = await db.select().from(alertsTable)
     logger.info(`Found ${allAlerts.length} alerts to process.`)
 
+    let triggeredCount = 0
     for (const alert of allAlerts) {
+      if (!isAlertDue(alert.frequencyConfig, now)) continue
       logger.info(`Processing alert: ${alert.id}, Type: ${alert.alertType}`)
 
-      // Placeholder for complex alert evaluation logic
-      // In a real scenario, this would involve detailed checks for each alert type:
-      // - 'Red KPI': Fetch KPI values, compare to thresholds, check if 'Red'.
-      // - 'Update Reminder': Check kpi_updaters and kpi_values for overdue updates.
-      // - 'Note Reply': Check for new replies to notes.
-      // - 'Custom KPI Change': Evaluate conditionDetails against actual KPI values.
-
-      // For this atomic step, we'll simulate an alert trigger based on a simple condition.
-      // This will be refined in future steps with a dedicated alert evaluation engine.
-      const shouldTrigger = Math.random() < 0.2 // 20% chance to "trigger" for demonstration
-
-      if (shouldTrigger) {
-        logger.info(
-          `Alert ${alert.id} (${alert.alertType}) condition met. Preparing to send notification.`
+      let evaluation
+      try {
+        evaluation = await evaluateAlert(db, alert, now)
+      } catch (error) {
+        logger.error(
+          `Error evaluating alert ${alert.id}: ${error instanceof Error ? error.message : String(error)}`
         )
-
-        const recipientEmails: string[] = []
-
-        // Fetch user emails from profilesTable (type-safe guards)
-        const userIds = Array.isArray(alert.recipientsUserIds)
-          ? alert.recipientsUserIds
-          : []
-        if (userIds.length > 0) {
-          const users = await db
-            .select({ email: profilesTable.email })
-            .from(profilesTable)
-            .where(inArray(profilesTable.userId, userIds))
-          recipientEmails.push(
-            ...(users.map(u => u.email).filter(Boolean) as string[])
+        continue
+      }
+      if (!evaluation.triggered) continue
+
+      // Suprimir los hechos ya notificados dentro de la ventana de frecuencia
+      const matches = await filterNewAlertMatches(
+        db,
+        alert,
+        evaluation.matches,
+        now
+      )
+      if (matches.length === 0) {
+        logger.info(`Alert ${alert.id} only matched already notified data.`)
+        continue
+      }
+      triggeredCount++
+
+      logger.info(
+        `Alert ${alert.id} (${alert.alertType}) condition met for ${matches.length} KPI period(s). Preparing to send notification.`
+      )
+
+      const userIds = [
+        ...(Array.isArray(alert.recipientsUserIds)
+          ? (alert.recipientsUserIds as string[])
+          : []),
+        ...matches.flatMap(match => match.recipientUserIds ?? [])
+      ]
+      const groupIds = Array.isArray(alert.recipientsGroupIds)
+        ? (alert.recipientsGroupIds as string[])
+        : []
+      const recipients = await resolveRecipients(userIds, groupIds)
+      // Users on digest delivery receive these events in their daily/weekly summary
+      const uniqueRecipientEmails = Array.from(
+        new Set(
+          recipients
+            .filter(r => r.alertDeliveryMode === "immediate")
+            .map(r => r.email)
+            .filter(Boolean) as string[]
+        )
+      )
+      const hasDigestRecipients = recipients.some(
+        r => r.alertDeliveryMode !== "immediate" && r.email
+      )
+
+      let delivery: AlertDelivery
+      if (uniqueRecipientEmails.length > 0) {
+        const { subject, text, html } = buildAlertEmail(alert, matches)
+        const emailSent = await sendEmail({
+          to: uniqueRecipientEmails,
+          subject,
+          text,
+          html
+        })
+
+        if (emailSent) {
+          logger.info(
+            `Email notification sent for alert ${alert.id} to ${uniqueRecipientEmails.length} recipients.`
           )
-        }
-
-        // Fetch group member emails (type-safe guards)
-        const groupIds = Array.isArray(alert.recipientsGroupIds)
-          ? alert.recipientsGroupIds
-          : []
-        if (groupIds.length > 0) {
-          const groupMembers = await db
-            .select({ userId: groupMembersTable.userId })
-            .from(groupMembersTable)
-            .where(inArray(groupMembersTable.groupId, groupIds))
-
-          const memberUserIds = groupMembers
-            .map(gm => gm.userId)
-            .filter(Boolean)
-          if (memberUserIds.length > 0) {
-            const groupUsers = await db
-              .select({ email: profilesTable.email })
-              .from(profilesTable)
-              .where(inArray(profilesTable.userId, memberUserIds))
-            recipientEmails.push(
-              ...(groupUsers.map(u => u.email).filter(Boolean) as string[])
-            )
-          }
-        }
-
-        const uniqueRecipientEmails = Array.from(new Set(recipientEmails))
-
-        if (uniqueRecipientEmails.length > 0) {
-          const emailSubject = `DeltaOne Alert: ${alert.alertType} Triggered!`
-          const emailBody = `Dear User,\n\nThis is an automated alert from DeltaOne.\n\nYour alert of type '${alert.alertType}' (ID: ${alert.id}) has been triggered.\n\n${alert.kpiId ? `Associated KPI ID: ${alert.kpiId}\n` : ""}Condition details: ${JSON.stringify(alert.conditionDetails, null, 2)}\nFrequency: ${JSON.stringify(alert.frequencyConfig, null, 2)}\n\nPlease log in to DeltaOne for more details.\n\nBest regards,\nDeltaOne Team`
-
-          const emailHtml = `
-            <p>Dear User,</p>
-            <p>This is an automated alert from DeltaOne.</p>
-            <p>Your alert of type '<strong>${alert.alertType}</strong>' (ID: ${alert.id}) has been triggered.</p>
-            ${alert.kpiId ? `<p>Associated KPI ID: ${alert.kpiId}</p>` : ""}
-            <p>Condition details: <code><pre>${JSON.stringify(alert.conditionDetails, null, 2)}</pre></code></p>
-            <p>Frequency: <code><pre>${JSON.stringify(alert.frequencyConfig, null, 2)}</pre></code></p>
-            <p>Please log in to <a href="YOUR_DELTACLOUD_URL">DeltaOne</a> for more details.</p>
-            <p>Best regards,<br/>DeltaOne Team</p>
-          `
-
-          const emailSent = await sendEmail({
-            to: uniqueRecipientEmails,
-            subject: emailSubject,
-            text: emailBody,
-            html: emailHtml
-          })
-
-          if (emailSent) {
-            logger.info(
-              `Email notification sent for alert ${alert.id} to ${uniqueRecipientEmails.length} recipients.`
-            )
-          } else {
-            logger.error(
-              `Failed to send email notification for alert ${alert.id}.`
-            )
-          }
+          delivery = { channel: "email", status: "sent" }
         } else {
-          logger.warn(
-            `Alert ${alert.id} triggered but no recipient emails found.`
+          logger.error(
+            `Failed to send email notification for alert ${alert.id}.`
           )
+          delivery = {
+            channel: "email",
+            status: "failed",
+            error: "SMTP delivery failed."
+          }
         }
+      } else if (hasDigestRecipients) {
+        logger.info(`Alert ${alert.id} queued for digest delivery.`)
+        delivery = { channel: "email", status: "queued" }
+      } else {
+        logger.warn(
+          `Alert ${alert.id} triggered but no recipient emails found.`
+        )
+        delivery = { channel: "in_app", status: "skipped" }
       }
+
+      await recordAlertEvents(db, alert, matches, recipients, delivery)
     }
 
     logger.info("Cron job 'check-alerts' finished successfully.")
     return NextResponse.json({
       success: true,
-      message: "Alerts checked successfully."
+      message: "Alerts checked successfully.",
+      triggered: triggeredCount
     })
   } catch (error) {
     logger.error(
@@ -4,7 +4,8 @@
  * @description Esta ruta de API es invocada por Vercel Cron Jobs para procesar
  * todas las importaciones de KPI que están programadas y pendientes de ejecución.
  * Realiza una verificación de seguridad para asegurar que la solicitud proviene
- * de Vercel Cron y delega la ejecución real a la Server Action `executeSavedKpiImportAction`.
+ * de Vercel Cron y ejecuta cada importación pendiente en nombre de su creador, que debe conservar
+ * el permiso de gestión de importaciones (ver `lib/saved-import-execution.ts`).
  * Registra el éxito o fracaso de cada importación.
  */
 
@@ -12,13 +13,36 @@ import { NextResponse } from "next/server"
 import { db } from "@/db/db"
 import { savedImportsTable, SelectSavedImport } from "@/db/schema"
 import { isNotNull } from "drizzle-orm"
+import { ActionState, ImportChangeSet } from "@/types"
 import { getLogger } from "@/lib/logger"
-import { executeSavedKpiImportAction } from "@/actions/db/import-actions"
+import { requirePermission } from "@/lib/authorization"
+import { runSavedKpiImport } from "@/lib/saved-import-execution"
 import { isScheduledImportDue } from "@/lib/schedule-utils" // Import the new utility
 import { ScheduleConfig } from "@/types/schedule-types" // Import the type
 
 const logger = getLogger("cron-scheduled-imports")
 
+/**
+ * Ejecuta una importación programada en nombre de su creador, que debe conservar el permiso.
+ * Solo se llama tras verificar `CRON_SECRET`.
+ * @param {SelectSavedImport} savedImport - La importación programada.
+ * @returns {Promise<ActionState<ImportChangeSet>>} El resultado de la ejecución.
+ */
+async function executeScheduledImport(
+  savedImport: SelectSavedImport
+): Promise<ActionState<ImportChangeSet>> {
+  const denied = await requirePermission(
+    db,
+    savedImport.createdById,
+    "import:manage_saved_imports"
+  )
+  if (denied) return denied
+  return runSavedKpiImport(db, savedImport.id, {
+    executorUserId: savedImport.createdById,
+    trigger: "cron"
+  })
+}
+
 /**
  * Maneja las solicitudes POST para ejecutar importaciones de KPI programadas.
  * Esta función es invocada por Vercel Cron Jobs.
@@ -86,11 +110,8 @@ export async function POST(request: Request) {
         logger.info(
           `Executing due scheduled import: ${savedImport.name} (ID: ${savedImport.id})`
         )
-        // 4. Ejecutar la Server Action para la importación, actuando en nombre del usuario creador
-        const executionResult = await executeSavedKpiImportAction(
-          { id: savedImport.id },
-          savedImport.createdById // Pass the creator's ID as the executor
-        )
+        // 4. Ejecutar la importación, actuando en nombre del usuario creador
+        const executionResult = await executeScheduledImport(savedImport)
 
         if (executionResult.isSuccess) {
           logger.info(
@@ -112,7 +133,7 @@ export async function POST(request: Request) {
             status: "failure",
             message: executionResult.message
           })
-          // Note: executeSavedKpiImportAction updates lastRunAt on success.
+          // Note: runSavedKpiImport updates lastRunAt on success.
           // For failure, we might want to log, but not update lastRunAt to retry, or update with an error flag.
           // For now, it's just logging errors.
         }
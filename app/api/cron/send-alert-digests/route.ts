@@ -0,0 +1,76 @@
+/**
+ * @file app/api/cron/send-alert-digests/route.ts
+ * @brief Envía los resúmenes diarios y semanales de alertas mediante un trabajo cron.
+ * @description Este endpoint protegido es invocado una vez al día por Vercel Cron Jobs. Envía el
+ * resumen diario a los usuarios con entrega 'daily_digest' y, los lunes (UTC), el resumen semanal
+ * a los usuarios con entrega 'weekly_digest'. Cada resumen agrupa en un único correo todas las
+ * alertas disparadas pendientes del usuario (ver `lib/alert-digest.ts`). Asegura la autenticación
+ * mediante un secreto (`CRON_SECRET`).
+ */
+
+import { NextResponse } from "next/server"
+import { db } from "@/db/db"
+import { getLogger } from "@/lib/logger"
+import { sendAlertDigests } from "@/lib/alert-digest"
+
+const logger = getLogger("cron-send-alert-digests")
+
+/**
+ * Handles incoming requests from Vercel Cron Jobs to send alert digests.
+ * This route is protected by `CRON_SECRET`.
+ * @param {Request} request - The incoming request object.
+ * @returns {Promise<NextResponse>} A JSON response with the number of digests sent.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get("Authorization")
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    logger.error("CRON_SECRET environment variable is not set.")
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Server configuration error: CRON_SECRET missing."
+      },
+      { status: 500 }
+    )
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    logger.warn("Unauthorized access attempt to cron job endpoint.")
+    return NextResponse.json(
+      { success: false, message: "Unauthorized." },
+      { status: 401 }
+    )
+  }
+
+  logger.info("Cron job 'send-alert-digests' started.")
+
+  try {
+    const daily = await sendAlertDigests(db, "daily_digest")
+    const weekly =
+      new Date().getUTCDay() === 1
+        ? await sendAlertDigests(db, "weekly_digest")
+        : null
+
+    logger.info("Cron job 'send-alert-digests' finished successfully.")
+    return NextResponse.json({
+      success: true,
+      message: "Alert digests sent successfully.",
+      daily,
+      weekly
+    })
+  } catch (error) {
+    logger.error(
+      `Error during cron job 'send-alert-digests': ${error instanceof Error ? error.message : String(error)}`,
+      { error }
+    )
+    return NextResponse.json(
+      {
+        success: false,
+        message: `Failed to send alert digests: ${error instanceof Error ? error.message : String(error)}`
+      },
+      { status: 500 }
+    )
+  }
+}
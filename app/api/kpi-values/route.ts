@@ -0,0 +1,170 @@
+/**
+ * @file app/api/kpi-values/route.ts
+ * @brief Endpoint para que los procesos externos (ETL) envíen valores de KPI por lotes.
+ * @description `POST /api/kpi-values` recibe un lote de elementos
+ * `{ kpi, organization, periodDate, actual, target, thresholds, note }` en JSON (arreglo, objeto
+ * con `items` o un único objeto) o NDJSON (`Content-Type: application/x-ndjson`, un objeto por
+ * línea) y guarda cada uno con la misma validación y puntuación que la actualización manual. Un
+ * cuerpo de más de 2MB se rechaza con 413 sin terminar de leerlo. Se autentica con una clave de
+ * API (`Authorization: Bearer <clave>` o `X-Api-Key`) limitada a una organización y,
+ * opcionalmente, a sus descendientes. Con la cabecera `Idempotency-Key`, un reenvío
+ * del mismo cuerpo devuelve la respuesta original sin volver a escribir los valores. La respuesta
+ * incluye el resultado de cada elemento: 200 si se guardaron todos, 207 si solo algunos y 422 si
+ * ninguno.
+ */
+
+import { NextResponse } from "next/server"
+import { db } from "@/db/db"
+import {
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+  authenticateApiKey,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  hashApiKey,
+  readApiKeyFromHeaders,
+  releaseIdempotentRequest
+} from "@/lib/api-keys"
+import {
+  ingestKpiValues,
+  parseKpiValueIngestionBody,
+  readKpiValueIngestionBody
+} from "@/lib/kpi-value-ingestion"
+import { getLogger } from "@/lib/logger"
+import { KpiValueIngestionResponse } from "@/types"
+
+const logger = getLogger("api-kpi-values")
+
+/**
+ * Builds a JSON response with the ingestion body and status code.
+ * @param {KpiValueIngestionResponse} body - Response body.
+ * @param {number} status - HTTP status code.
+ * @param {boolean} [replayed] - Whether the response is replayed from a previous request.
+ * @returns {NextResponse} The response.
+ */
+function respond(
+  body: KpiValueIngestionResponse,
+  status: number,
+  replayed = false
+): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: replayed ? { "Idempotent-Replayed": "true" } : undefined
+  })
+}
+
+/**
+ * Handles a batch of KPI values pushed by an external process.
+ * @param {Request} request - The incoming request object.
+ * @returns {Promise<NextResponse>} Per-item results and a summary of the batch.
+ */
+export async function POST(request: Request) {
+  const secret = readApiKeyFromHeaders(request.headers)
+  if (!secret) {
+    return respond({ success: false, message: "Falta la clave de API." }, 401)
+  }
+  const apiKey = await authenticateApiKey(db, secret)
+  if (!apiKey) {
+    logger.warn("Rejected KPI value ingestion with an invalid API key.")
+    return respond(
+      {
+        success: false,
+        message: "Clave de API inválida, revocada o vencida."
+      },
+      401
+    )
+  }
+
+  const idempotencyKey = request.headers.get("idempotency-key")?.trim() || null
+  if (idempotencyKey && idempotencyKey.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+    return respond(
+      {
+        success: false,
+        message: `La cabecera Idempotency-Key no puede exceder ${IDEMPOTENCY_KEY_MAX_LENGTH} caracteres.`
+      },
+      400
+    )
+  }
+
+  const read = await readKpiValueIngestionBody(request)
+  if (!read.isSuccess) {
+    return respond({ success: false, message: read.message }, read.status)
+  }
+  const body = read.body
+  const parsed = parseKpiValueIngestionBody(
+    body,
+    request.headers.get("content-type")
+  )
+  if (!parsed.isSuccess) {
+    return respond({ success: false, message: parsed.message }, parsed.status)
+  }
+
+  let requestId: string | null = null
+  if (idempotencyKey) {
+    const state = await beginIdempotentRequest(
+      db,
+      apiKey.id,
+      idempotencyKey,
+      hashApiKey(body)
+    )
+    if (state.status === "replay") {
+      return respond(
+        state.responseBody as KpiValueIngestionResponse,
+        state.statusCode,
+        true
+      )
+    }
+    if (state.status === "in_progress") {
+      return respond(
+        {
+          success: false,
+          message:
+            "Una solicitud con la misma Idempotency-Key se está procesando."
+        },
+        409
+      )
+    }
+    if (state.status === "conflict") {
+      return respond(
+        {
+          success: false,
+          message:
+            "La Idempotency-Key ya se usó con un cuerpo de solicitud distinto."
+        },
+        422
+      )
+    }
+    requestId = state.requestId
+  }
+
+  try {
+    const results = await ingestKpiValues(db, apiKey, parsed.entries)
+    const saved = results.filter(r => r.status === "saved").length
+    const rejected = results.length - saved
+    const status = rejected === 0 ? 200 : saved === 0 ? 422 : 207
+    const response: KpiValueIngestionResponse = {
+      success: rejected === 0,
+      message: `${saved} valores guardados y ${rejected} rechazados.`,
+      summary: { received: results.length, saved, rejected },
+      results
+    }
+    if (requestId) {
+      await completeIdempotentRequest(db, requestId, status, response)
+    }
+    logger.info(
+      `API key ${apiKey.id} ingested ${saved} KPI values (${rejected} rejected).`
+    )
+    return respond(response, status)
+  } catch (error) {
+    logger.error(
+      `Error ingesting KPI values with API key ${apiKey.id}: ${error instanceof Error ? error.message : String(error)}`
+    )
+    if (requestId) await releaseIdempotentRequest(db, requestId)
+    return respond(
+      {
+        success: false,
+        message: "Error interno al guardar los valores de KPI."
+      },
+      500
+    )
+  }
+}
@@ -35,7 +35,9 @@ import {
   Users,
   Settings,
   LayoutDashboard,
-  Menu
+  Menu,
+  UserCog,
+  KeyRound
 } from "lucide-react"
 import React, { useState } from "react"
 
@@ -76,6 +78,16 @@ const navLinks: NavLinkProps[] = [
     href: "/settings/app",
     icon: <Settings className="size-5" />,
     label: "Configuración"
+  },
+  {
+    href: "/settings/api-keys",
+    icon: <KeyRound className="size-5" />,
+    label: "Claves de API"
+  },
+  {
+    href: "/settings/profile",
+    icon: <UserCog className="size-5" />,
+    label: "Mi perfil"
   }
 ]
 
@@ -10,13 +10,22 @@ import {
   kpisTable,
   kpiValuesTable,
   kpiUpdatersTable,
+  kpiGroupUpdatersTable,
   importConnectionsTable,
   savedImportsTable,
   alertsTable,
   groupsTable,
   groupMembersTable,
   groupPermissionsTable,
-  appSettingsTable
+  appSettingsTable,
+  scorecardElementScoresTable,
+  alertEventsTable,
+  alertEventRecipientsTable,
+  kpiNotesTable,
+  importRunsTable,
+  importRunChangesTable,
+  apiKeysTable,
+  apiIngestionRequestsTable
 } from "./schema"
 
 config({ path: ".env.local" })
@@ -28,13 +37,22 @@ const schema = {
   kpis: kpisTable,
   kpiValues: kpiValuesTable,
   kpiUpdaters: kpiUpdatersTable,
+  kpiGroupUpdaters: kpiGroupUpdatersTable,
   importConnections: importConnectionsTable,
   savedImports: savedImportsTable,
   alerts: alertsTable,
   groups: groupsTable,
   groupMembers: groupMembersTable,
   groupPermissions: groupPermissionsTable,
-  appSettings: appSettingsTable
+  appSettings: appSettingsTable,
+  scorecardElementScores: scorecardElementScoresTable,
+  alertEvents: alertEventsTable,
+  alertEventRecipients: alertEventRecipientsTable,
+  kpiNotes: kpiNotesTable,
+  importRuns: importRunsTable,
+  importRunChanges: importRunChangesTable,
+  apiKeys: apiKeysTable,
+  apiIngestionRequests: apiIngestionRequestsTable
 }
 
 const client = postgres(process.env.DATABASE_URL!)
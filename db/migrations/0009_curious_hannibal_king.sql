@@ -0,0 +1,5 @@
+CREATE TYPE "public"."kpi_scoring_direction" AS ENUM('Higher is Better', 'Lower is Better', 'Closer to Target');--> statement-breakpoint
+CREATE TYPE "public"."kpi_scoring_method" AS ENUM('Stepped', 'Interpolated');--> statement-breakpoint
+ALTER TABLE "kpis" ADD COLUMN "scoring_direction" "kpi_scoring_direction" DEFAULT 'Higher is Better' NOT NULL;--> statement-breakpoint
+ALTER TABLE "kpis" ADD COLUMN "scoring_method" "kpi_scoring_method" DEFAULT 'Stepped' NOT NULL;--> statement-breakpoint
+ALTER TABLE "kpis" ADD COLUMN "target_tolerance" numeric;
\ No newline at end of file
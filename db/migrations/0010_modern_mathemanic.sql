@@ -0,0 +1,16 @@
+CREATE TABLE "scorecard_element_scores" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scorecard_element_id" uuid NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"period_date" date NOT NULL,
+	"score" numeric,
+	"color" "kpi_color",
+	"contributing_children" integer DEFAULT 0 NOT NULL,
+	"missing_children" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scorecard_element_scores" ADD CONSTRAINT "scorecard_element_scores_scorecard_element_id_scorecard_elements_id_fk" FOREIGN KEY ("scorecard_element_id") REFERENCES "public"."scorecard_elements"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scorecard_element_scores" ADD CONSTRAINT "scorecard_element_scores_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "scorecard_element_scores_element_id_period_date_idx" ON "scorecard_element_scores" USING btree ("scorecard_element_id","period_date");
\ No newline at end of file
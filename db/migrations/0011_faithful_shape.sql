@@ -0,0 +1,33 @@
+CREATE TYPE "public"."alert_event_channel" AS ENUM('email', 'in_app');--> statement-breakpoint
+CREATE TYPE "public"."alert_event_delivery_status" AS ENUM('sent', 'failed', 'skipped');--> statement-breakpoint
+CREATE TABLE "alert_event_recipients" (
+	"event_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"email" text,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "alert_event_recipients_event_id_user_id_pk" PRIMARY KEY("event_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "alert_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"alert_id" uuid NOT NULL,
+	"alert_type" "alert_type" NOT NULL,
+	"kpi_id" uuid,
+	"kpi_name" text,
+	"period_date" date,
+	"detail" text NOT NULL,
+	"dedupe_key" text NOT NULL,
+	"channel" "alert_event_channel" NOT NULL,
+	"delivery_status" "alert_event_delivery_status" NOT NULL,
+	"delivery_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "alert_event_recipients" ADD CONSTRAINT "alert_event_recipients_event_id_alert_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."alert_events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_event_recipients" ADD CONSTRAINT "alert_event_recipients_user_id_profiles_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("user_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_events" ADD CONSTRAINT "alert_events_alert_id_alerts_id_fk" FOREIGN KEY ("alert_id") REFERENCES "public"."alerts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_events" ADD CONSTRAINT "alert_events_kpi_id_kpis_id_fk" FOREIGN KEY ("kpi_id") REFERENCES "public"."kpis"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_events_alert_id_dedupe_key_idx" ON "alert_events" USING btree ("alert_id","dedupe_key");
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TYPE "public"."alert_delivery_mode" AS ENUM('immediate', 'daily_digest', 'weekly_digest');--> statement-breakpoint
+ALTER TYPE "public"."alert_event_delivery_status" ADD VALUE 'queued' BEFORE 'skipped';--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "alert_delivery_mode" "alert_delivery_mode" DEFAULT 'immediate' NOT NULL;--> statement-breakpoint
+ALTER TABLE "alert_event_recipients" ADD COLUMN "delivery_mode" "alert_delivery_mode" DEFAULT 'immediate' NOT NULL;--> statement-breakpoint
+ALTER TABLE "alert_event_recipients" ADD COLUMN "digest_sent_at" timestamp;
\ No newline at end of file
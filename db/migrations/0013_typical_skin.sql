@@ -0,0 +1,17 @@
+CREATE TABLE "kpi_notes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kpi_value_id" uuid NOT NULL,
+	"parent_note_id" uuid,
+	"author_user_id" text,
+	"content" text NOT NULL,
+	"mentioned_user_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"edited_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "kpi_notes" ADD CONSTRAINT "kpi_notes_kpi_value_id_kpi_values_id_fk" FOREIGN KEY ("kpi_value_id") REFERENCES "public"."kpi_values"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "kpi_notes" ADD CONSTRAINT "kpi_notes_author_user_id_profiles_user_id_fk" FOREIGN KEY ("author_user_id") REFERENCES "public"."profiles"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "kpi_notes" ADD CONSTRAINT "kpi_notes_parent_note_id_fkey" FOREIGN KEY ("parent_note_id") REFERENCES "public"."kpi_notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "kpi_notes_kpi_value_id_idx" ON "kpi_notes" USING btree ("kpi_value_id");--> statement-breakpoint
+CREATE INDEX "kpi_notes_created_at_idx" ON "kpi_notes" USING btree ("created_at");
\ No newline at end of file
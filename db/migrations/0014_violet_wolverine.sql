@@ -0,0 +1,3 @@
+ALTER TABLE "saved_imports" ADD COLUMN "source_query" text;--> statement-breakpoint
+ALTER TABLE "saved_imports" ADD COLUMN "row_limit" integer;--> statement-breakpoint
+ALTER TABLE "saved_imports" ADD COLUMN "query_timeout_seconds" integer;
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TYPE "public"."import_run_status" AS ENUM('running', 'succeeded', 'failed', 'rolled_back');--> statement-breakpoint
+CREATE TYPE "public"."import_run_trigger" AS ENUM('manual', 'cron');--> statement-breakpoint
+CREATE TABLE "import_run_changes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"kpi_id" uuid NOT NULL,
+	"period_date" date NOT NULL,
+	"previous_value" jsonb,
+	"new_value" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "import_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"saved_import_id" uuid NOT NULL,
+	"trigger" "import_run_trigger" NOT NULL,
+	"status" "import_run_status" DEFAULT 'running' NOT NULL,
+	"triggered_by_user_id" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"rows_read" integer DEFAULT 0 NOT NULL,
+	"rows_transformed" integer DEFAULT 0 NOT NULL,
+	"rows_upserted" integer DEFAULT 0 NOT NULL,
+	"rows_rejected" integer DEFAULT 0 NOT NULL,
+	"rejected_rows" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"error_message" text,
+	"rolled_back_at" timestamp,
+	"rolled_back_by_user_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "import_run_changes" ADD CONSTRAINT "import_run_changes_run_id_import_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."import_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_run_changes" ADD CONSTRAINT "import_run_changes_kpi_id_kpis_id_fk" FOREIGN KEY ("kpi_id") REFERENCES "public"."kpis"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_runs" ADD CONSTRAINT "import_runs_saved_import_id_saved_imports_id_fk" FOREIGN KEY ("saved_import_id") REFERENCES "public"."saved_imports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_runs" ADD CONSTRAINT "import_runs_triggered_by_user_id_profiles_user_id_fk" FOREIGN KEY ("triggered_by_user_id") REFERENCES "public"."profiles"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_runs" ADD CONSTRAINT "import_runs_rolled_back_by_user_id_profiles_user_id_fk" FOREIGN KEY ("rolled_back_by_user_id") REFERENCES "public"."profiles"("user_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "import_run_changes_run_id_idx" ON "import_run_changes" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "import_runs_saved_import_id_started_at_idx" ON "import_runs" USING btree ("saved_import_id","started_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "organizations" ADD COLUMN "external_code" text;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "aliases" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "kpis" ADD COLUMN "external_code" text;--> statement-breakpoint
+ALTER TABLE "kpis" ADD COLUMN "aliases" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "organizations" ADD CONSTRAINT "organizations_external_code_unique" UNIQUE("external_code");--> statement-breakpoint
+ALTER TABLE "kpis" ADD CONSTRAINT "kpis_external_code_unique" UNIQUE("external_code");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "kpi_group_updaters" (
+	"kpi_id" uuid NOT NULL,
+	"group_id" uuid NOT NULL,
+	"can_modify_thresholds" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "kpi_group_updaters_kpi_id_group_id_pk" PRIMARY KEY("kpi_id","group_id")
+);
+--> statement-breakpoint
+CREATE TABLE "scorecard_element_group_updaters" (
+	"scorecard_element_id" uuid NOT NULL,
+	"group_id" uuid NOT NULL,
+	"can_modify_thresholds" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scorecard_element_group_updaters_scorecard_element_id_group_id_pk" PRIMARY KEY("scorecard_element_id","group_id")
+);
+--> statement-breakpoint
+ALTER TABLE "kpi_group_updaters" ADD CONSTRAINT "kpi_group_updaters_kpi_id_kpis_id_fk" FOREIGN KEY ("kpi_id") REFERENCES "public"."kpis"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "kpi_group_updaters" ADD CONSTRAINT "kpi_group_updaters_group_id_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."groups"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scorecard_element_group_updaters" ADD CONSTRAINT "scorecard_element_group_updaters_scorecard_element_id_scorecard_elements_id_fk" FOREIGN KEY ("scorecard_element_id") REFERENCES "public"."scorecard_elements"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scorecard_element_group_updaters" ADD CONSTRAINT "scorecard_element_group_updaters_group_id_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."groups"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,143 @@
+/**
+ * @file db/schema/alert-events-schema.ts
+ * @brief Define el esquema de base de datos para el historial de alertas disparadas en DeltaOne.
+ * @description La tabla alert_events registra cada disparo de una alerta para un KPI y período
+ * concretos, con el canal y el estado de entrega de la notificación. Sirve para evitar notificar
+ * dos veces el mismo hecho dentro de la ventana de frecuencia de la alerta. La tabla
+ * alert_event_recipients guarda los destinatarios de cada evento, su modo de entrega (inmediata o
+ * en resumen diario/semanal, con la marca de envío del resumen) y su estado de lectura, que se
+ * muestra en la página /alerts.
+ */
+
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  pgEnum,
+  date,
+  index,
+  primaryKey
+} from "drizzle-orm/pg-core"
+import { alertsTable, alertTypeEnum } from "./alerts-schema" // Alerta que originó el evento
+import { kpisTable } from "./kpis-schema" // KPI afectado
+import { alertDeliveryModeEnum, profilesTable } from "./profiles-schema" // Destinatarios y su modo de entrega
+
+/**
+ * @enum alertEventChannelEnum
+ * @description Canal por el que se notificó el evento.
+ */
+export const alertEventChannelEnum = pgEnum("alert_event_channel", [
+  "email", // Correo electrónico
+  "in_app" // Solo visible en la aplicación (/alerts)
+])
+
+/**
+ * @enum alertEventDeliveryStatusEnum
+ * @description Estado de entrega de la notificación del evento.
+ */
+export const alertEventDeliveryStatusEnum = pgEnum(
+  "alert_event_delivery_status",
+  [
+    "sent", // Notificación entregada
+    "failed", // Falló el envío (no bloquea un nuevo intento)
+    "queued", // Pendiente de enviarse en el resumen diario/semanal de los destinatarios
+    "skipped" // Sin destinatarios con correo; solo queda registrado en la aplicación
+  ]
+)
+
+/**
+ * @constant alertEventsTable
+ * @description Definición de la tabla alert_events, con un registro por KPI y período que disparó una alerta.
+ */
+export const alertEventsTable = pgTable(
+  "alert_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // Identificador único del evento
+    alertId: uuid("alert_id")
+      .references(() => alertsTable.id, { onDelete: "cascade" })
+      .notNull(), // FK a la alerta disparada, con borrado en cascada
+    alertType: alertTypeEnum("alert_type").notNull(), // Tipo de la alerta al momento del disparo
+    kpiId: uuid("kpi_id").references(() => kpisTable.id, {
+      onDelete: "cascade"
+    }), // FK al KPI afectado
+    kpiName: text("kpi_name"), // Nombre del KPI al momento del disparo
+    periodDate: date("period_date"), // Período afectado
+    detail: text("detail").notNull(), // Motivo legible del disparo
+    dedupeKey: text("dedupe_key").notNull(), // Clave para suprimir duplicados (KPI, período y detalle)
+    channel: alertEventChannelEnum("channel").notNull(), // Canal de notificación
+    deliveryStatus: alertEventDeliveryStatusEnum("delivery_status").notNull(), // Estado de entrega
+    deliveryError: text("delivery_error"), // Error de entrega, si lo hubo
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Momento del disparo
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Marca de tiempo de última actualización
+  },
+  table => {
+    return [
+      // Búsqueda de duplicados por alerta y clave
+      index("alert_events_alert_id_dedupe_key_idx").on(
+        table.alertId,
+        table.dedupeKey
+      )
+    ]
+  }
+)
+
+/**
+ * @constant alertEventRecipientsTable
+ * @description Definición de la tabla alert_event_recipients, con los destinatarios de cada evento
+ * y su estado de lectura en la aplicación.
+ */
+export const alertEventRecipientsTable = pgTable(
+  "alert_event_recipients",
+  {
+    eventId: uuid("event_id")
+      .references(() => alertEventsTable.id, { onDelete: "cascade" })
+      .notNull(), // FK al evento
+    userId: text("user_id")
+      .references(() => profilesTable.userId, { onDelete: "cascade" })
+      .notNull(), // FK al usuario destinatario
+    email: text("email"), // Correo al que se envió (null si el usuario no tiene correo)
+    deliveryMode: alertDeliveryModeEnum("delivery_mode")
+      .notNull()
+      .default("immediate"), // Modo de entrega del usuario al momento del disparo
+    digestSentAt: timestamp("digest_sent_at"), // Momento en que se incluyó en un resumen (null = pendiente)
+    readAt: timestamp("read_at"), // Momento en que el usuario lo marcó como leído (null = no leído)
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación del registro
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Marca de tiempo de última actualización (lectura o resumen)
+  },
+  table => {
+    return [primaryKey({ columns: [table.eventId, table.userId] })]
+  }
+)
+
+/**
+ * @typedef {typeof alertEventsTable.$inferInsert} InsertAlertEvent
+ * @description Define el tipo para la inserción de un evento de alerta.
+ */
+export type InsertAlertEvent = typeof alertEventsTable.$inferInsert
+
+/**
+ * @typedef {typeof alertEventsTable.$inferSelect} SelectAlertEvent
+ * @description Define el tipo para la selección de un evento de alerta.
+ */
+export type SelectAlertEvent = typeof alertEventsTable.$inferSelect
+
+/**
+ * @typedef {typeof alertEventRecipientsTable.$inferInsert} InsertAlertEventRecipient
+ * @description Define el tipo para la inserción de un destinatario de evento de alerta.
+ */
+export type InsertAlertEventRecipient =
+  typeof alertEventRecipientsTable.$inferInsert
+
+/**
+ * @typedef {typeof alertEventRecipientsTable.$inferSelect} SelectAlertEventRecipient
+ * @description Define el tipo para la selección de un destinatario de evento de alerta.
+ */
+export type SelectAlertEventRecipient =
+  typeof alertEventRecipientsTable.$inferSelect
@@ -0,0 +1,98 @@
+/**
+ * @file db/schema/api-keys-schema.ts
+ * @brief Define el esquema de base de datos para las claves de API de ingesta de valores de KPI en DeltaOne.
+ * @description La tabla api_keys almacena las claves con las que los procesos externos (ETL) envían
+ * valores de KPI al endpoint `POST /api/kpi-values`. Cada clave está limitada a una organización y,
+ * opcionalmente, a sus descendientes; de la clave solo se guarda el hash SHA-256 y un prefijo
+ * visible para identificarla. La tabla api_ingestion_requests registra las solicitudes enviadas con
+ * una clave de idempotencia para devolver la misma respuesta si se reenvían.
+ */
+
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  boolean,
+  integer,
+  jsonb,
+  uniqueIndex
+} from "drizzle-orm/pg-core"
+import { organizationsTable } from "./organizations-schema" // Organización a la que se limita la clave
+import { profilesTable } from "./profiles-schema" // Usuario que creó la clave
+
+/**
+ * @constant apiKeysTable
+ * @description Definición de la tabla api_keys, con una fila por clave de API emitida.
+ */
+export const apiKeysTable = pgTable("api_keys", {
+  id: uuid("id").primaryKey().defaultRandom(), // Identificador único de la clave
+  name: text("name").notNull(), // Nombre descriptivo (ej. "ETL ventas")
+  keyPrefix: text("key_prefix").notNull(), // Primeros caracteres de la clave, para identificarla en la interfaz
+  keyHash: text("key_hash").notNull().unique(), // Hash SHA-256 de la clave completa (la clave no se almacena)
+  organizationId: uuid("organization_id")
+    .references(() => organizationsTable.id, { onDelete: "cascade" })
+    .notNull(), // Organización a la que se limita la clave
+  includeDescendants: boolean("include_descendants").default(true).notNull(), // Permite también las organizaciones descendientes
+  createdById: text("created_by_user_id")
+    .references(() => profilesTable.userId, { onDelete: "cascade" })
+    .notNull(), // Usuario que creó la clave; los valores enviados se registran a su nombre
+  lastUsedAt: timestamp("last_used_at"), // Último uso autenticado
+  expiresAt: timestamp("expires_at"), // Vencimiento opcional
+  revokedAt: timestamp("revoked_at"), // Revocación (null = activa)
+  createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación del registro
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => new Date()) // Marca de tiempo de última actualización
+})
+
+/**
+ * @constant apiIngestionRequestsTable
+ * @description Definición de la tabla api_ingestion_requests: solicitudes de ingesta enviadas con
+ * una clave de idempotencia (cabecera `Idempotency-Key`) y la respuesta que se devolvió.
+ */
+export const apiIngestionRequestsTable = pgTable(
+  "api_ingestion_requests",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // Identificador único de la solicitud
+    apiKeyId: uuid("api_key_id")
+      .references(() => apiKeysTable.id, { onDelete: "cascade" })
+      .notNull(), // Clave con la que se envió
+    idempotencyKey: text("idempotency_key").notNull(), // Clave de idempotencia indicada por el cliente
+    requestHash: text("request_hash").notNull(), // Hash SHA-256 del cuerpo, para detectar reutilizaciones con otros datos
+    statusCode: integer("status_code"), // Código HTTP devuelto (null = en proceso)
+    responseBody: jsonb("response_body"), // Respuesta devuelta (null = en proceso)
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de recepción
+    completedAt: timestamp("completed_at"), // Marca de tiempo de la respuesta
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Marca de tiempo de última actualización
+  },
+  table => [
+    uniqueIndex("api_ingestion_requests_key_idx").on(
+      table.apiKeyId,
+      table.idempotencyKey
+    )
+  ]
+)
+
+/**
+ * @typedef {typeof apiKeysTable.$inferInsert} InsertApiKey
+ * @description Define el tipo para la inserción de una nueva clave de API.
+ */
+export type InsertApiKey = typeof apiKeysTable.$inferInsert
+
+/**
+ * @typedef {typeof apiKeysTable.$inferSelect} SelectApiKey
+ * @description Define el tipo para la selección de una clave de API existente.
+ */
+export type SelectApiKey = typeof apiKeysTable.$inferSelect
+
+/**
+ * @typedef {typeof apiIngestionRequestsTable.$inferSelect} SelectApiIngestionRequest
+ * @description Define el tipo para la selección de una solicitud de ingesta registrada.
+ */
+export type SelectApiIngestionRequest =
+  typeof apiIngestionRequestsTable.$inferSelect
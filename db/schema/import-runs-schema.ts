@@ -0,0 +1,174 @@
+/**
+ * @file db/schema/import-runs-schema.ts
+ * @brief Define el esquema de base de datos para el historial de ejecuciones de importaciones en DeltaOne.
+ * @description La tabla import_runs registra cada ejecución de una importación guardada: quién o qué
+ * la disparó (manual o cron), cuándo empezó y terminó, su estado, los conteos de filas leídas,
+ * transformadas, escritas y rechazadas, y el motivo de cada rechazo. La tabla import_run_changes
+ * guarda, por cada KPI y período escrito, el valor anterior y el escrito por la ejecución, para
+ * poder revertirla (rollback).
+ */
+
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  pgEnum,
+  integer,
+  jsonb,
+  date,
+  index
+} from "drizzle-orm/pg-core"
+import { savedImportsTable } from "./saved-imports-schema" // Importación ejecutada
+import { kpisTable } from "./kpis-schema" // KPI escrito
+import { kpiColorEnum } from "./kpi-values-schema" // Color de los valores guardados
+import { profilesTable } from "./profiles-schema" // Usuario que disparó o revirtió la ejecución
+
+/**
+ * @enum importRunTriggerEnum
+ * @description Origen de la ejecución de una importación.
+ */
+export const importRunTriggerEnum = pgEnum("import_run_trigger", [
+  "manual", // Ejecutada por un usuario desde la aplicación
+  "cron" // Ejecutada por la programación (Vercel Cron)
+])
+
+/**
+ * @enum importRunStatusEnum
+ * @description Estado de una ejecución de importación.
+ */
+export const importRunStatusEnum = pgEnum("import_run_status", [
+  "running", // En curso
+  "succeeded", // Terminó y escribió sus valores
+  "failed", // Falló; no escribió valores
+  "rolled_back" // Sus valores se revirtieron a los anteriores
+])
+
+/**
+ * @interface ImportRunRejectedRow
+ * @description Fila rechazada por una ejecución y el motivo.
+ */
+export interface ImportRunRejectedRow {
+  rowNumber: number | null
+  reason: string
+  kpiId?: string | null
+}
+
+/**
+ * @interface KpiValueSnapshot
+ * @description Campos de un valor de KPI guardados antes y después de una ejecución.
+ */
+export interface KpiValueSnapshot {
+  actualValue: string | null
+  targetValue: string | null
+  thresholdRed: string | null
+  thresholdYellow: string | null
+  score: string | null
+  color: (typeof kpiColorEnum.enumValues)[number] | null
+  note: string | null
+  updatedByUserId: string | null
+  isManualEntry: boolean
+}
+
+/**
+ * @constant importRunsTable
+ * @description Definición de la tabla import_runs, con un registro por ejecución de una importación guardada.
+ */
+export const importRunsTable = pgTable(
+  "import_runs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // Identificador único de la ejecución
+    savedImportId: uuid("saved_import_id")
+      .references(() => savedImportsTable.id, { onDelete: "cascade" })
+      .notNull(), // FK a la importación ejecutada, con borrado en cascada
+    trigger: importRunTriggerEnum("trigger").notNull(), // Origen de la ejecución
+    status: importRunStatusEnum("status").default("running").notNull(), // Estado de la ejecución
+    triggeredByUserId: text("triggered_by_user_id").references(
+      () => profilesTable.userId,
+      { onDelete: "set null" }
+    ), // Usuario que la ejecutó (o creador de la importación, si la disparó el cron)
+    startedAt: timestamp("started_at").defaultNow().notNull(), // Inicio de la ejecución
+    finishedAt: timestamp("finished_at"), // Fin de la ejecución (null mientras está en curso)
+    rowsRead: integer("rows_read").default(0).notNull(), // Filas extraídas del origen
+    rowsTransformed: integer("rows_transformed").default(0).notNull(), // Filas tras las transformaciones
+    rowsUpserted: integer("rows_upserted").default(0).notNull(), // Valores de KPI insertados o actualizados
+    rowsRejected: integer("rows_rejected").default(0).notNull(), // Filas rechazadas (KPI, fecha o valor inválidos)
+    rejectedRows: jsonb("rejected_rows")
+      .$type<ImportRunRejectedRow[]>()
+      .default([])
+      .notNull(), // Detalle de las filas rechazadas y sus motivos
+    errorMessage: text("error_message"), // Error que hizo fallar la ejecución
+    rolledBackAt: timestamp("rolled_back_at"), // Momento en que se revirtió
+    rolledBackByUserId: text("rolled_back_by_user_id").references(
+      () => profilesTable.userId,
+      { onDelete: "set null" }
+    ), // Usuario que la revirtió
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación del registro
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Marca de tiempo de última actualización (fin o reversión)
+  },
+  table => {
+    return [
+      // Historial de una importación, de la más reciente a la más antigua
+      index("import_runs_saved_import_id_started_at_idx").on(
+        table.savedImportId,
+        table.startedAt
+      )
+    ]
+  }
+)
+
+/**
+ * @constant importRunChangesTable
+ * @description Definición de la tabla import_run_changes, con el valor anterior y el escrito de cada
+ * KPI y período que tocó una ejecución (null en `previousValue` si la ejecución lo creó).
+ */
+export const importRunChangesTable = pgTable(
+  "import_run_changes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // Identificador único del cambio
+    runId: uuid("run_id")
+      .references(() => importRunsTable.id, { onDelete: "cascade" })
+      .notNull(), // FK a la ejecución, con borrado en cascada
+    kpiId: uuid("kpi_id")
+      .references(() => kpisTable.id, { onDelete: "cascade" })
+      .notNull(), // FK al KPI escrito, con borrado en cascada
+    periodDate: date("period_date").notNull(), // Período escrito
+    previousValue: jsonb("previous_value").$type<KpiValueSnapshot | null>(), // Valor antes de la ejecución (null = no existía)
+    newValue: jsonb("new_value").$type<KpiValueSnapshot>().notNull(), // Valor escrito por la ejecución
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación del registro
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Marca de tiempo de última actualización
+  },
+  table => {
+    return [index("import_run_changes_run_id_idx").on(table.runId)]
+  }
+)
+
+/**
+ * @typedef {typeof importRunsTable.$inferInsert} InsertImportRun
+ * @description Define el tipo para la inserción de una nueva ejecución de importación.
+ */
+export type InsertImportRun = typeof importRunsTable.$inferInsert
+
+/**
+ * @typedef {typeof importRunsTable.$inferSelect} SelectImportRun
+ * @description Define el tipo para la selección de una ejecución de importación existente.
+ */
+export type SelectImportRun = typeof importRunsTable.$inferSelect
+
+/**
+ * @typedef {typeof importRunChangesTable.$inferInsert} InsertImportRunChange
+ * @description Define el tipo para la inserción de un cambio de una ejecución.
+ */
+export type InsertImportRunChange = typeof importRunChangesTable.$inferInsert
+
+/**
+ * @typedef {typeof importRunChangesTable.$inferSelect} SelectImportRunChange
+ * @description Define el tipo para la selección de un cambio de una ejecución.
+ */
+export type SelectImportRunChange = typeof importRunChangesTable.$inferSelect
@@ -9,7 +9,7 @@ export * from "./organizations-schema" // Exportar el esquema de organizaciones
 export * from "./scorecard-elements-schema" // Exportar el esquema de elementos del Scorecard
 export * from "./kpis-schema" // Exportar el esquema de KPIs
 export * from "./kpi-values-schema" // Exportar el esquema de valores de KPI
-export * from "./kpi-updaters-schema" // Exportar el esquema de encargados de actualización de KPI
+export * from "./kpi-updaters-schema" // Exportar el esquema de encargados de actualización de KPI (usuarios y grupos)
 export * from "./import-connections-schema" // Exportar el esquema de conexiones de importación
 export * from "./saved-imports-schema" // Exportar el esquema de importaciones guardadas
 export * from "./alerts-schema" // Exportar el esquema de alertas
@@ -17,3 +17,8 @@ export * from "./groups-schema" // Exportar el esquema de grupos de usuarios
 export * from "./group-members-schema" // Exportar el esquema de miembros de grupo
 export * from "./group-permissions-schema" // Exportar el esquema de permisos de grupo
 export * from "./app-settings-schema" // Exportar el esquema de configuración de la aplicación
+export * from "./scorecard-element-scores-schema" // Exportar el esquema de la caché de puntuaciones del Scorecard
+export * from "./alert-events-schema" // Exportar el esquema del historial de alertas disparadas
+export * from "./kpi-notes-schema" // Exportar el esquema de notas y respuestas de valores de KPI
+export * from "./import-runs-schema" // Exportar el esquema del historial de ejecuciones de importaciones
+export * from "./api-keys-schema" // Exportar el esquema de claves de API y solicitudes de ingesta
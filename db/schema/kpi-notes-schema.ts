@@ -0,0 +1,74 @@
+/**
+ * @file db/schema/kpi-notes-schema.ts
+ * @brief Define el esquema de base de datos para las notas de los valores de KPI en DeltaOne.
+ * @description La tabla kpi_notes almacena las conversaciones asociadas a un valor de KPI (un KPI
+ * en un período): cada valor puede tener varias notas raíz y cada nota raíz sus respuestas
+ * (`parentNoteId`), con su autor, los usuarios mencionados con @ y las marcas de creación y edición.
+ * Las respuestas alimentan las alertas de tipo "Note Reply".
+ */
+
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  jsonb,
+  index,
+  foreignKey
+} from "drizzle-orm/pg-core"
+import { kpiValuesTable } from "./kpi-values-schema" // Valor de KPI comentado
+import { profilesTable } from "./profiles-schema" // Autor de la nota
+
+/**
+ * @constant kpiNotesTable
+ * @description Definición de la tabla kpi_notes, con las notas y respuestas de cada valor de KPI.
+ */
+export const kpiNotesTable = pgTable(
+  "kpi_notes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // Identificador único de la nota
+    kpiValueId: uuid("kpi_value_id")
+      .references(() => kpiValuesTable.id, { onDelete: "cascade" })
+      .notNull(), // FK al valor de KPI comentado, con borrado en cascada
+    parentNoteId: uuid("parent_note_id"), // Nota raíz a la que responde (null = nota raíz) (restricción abajo)
+    authorUserId: text("author_user_id").references(
+      () => profilesTable.userId,
+      { onDelete: "set null" }
+    ), // FK al autor, se setea a NULL si el usuario es eliminado
+    content: text("content").notNull(), // Texto de la nota
+    mentionedUserIds: jsonb("mentioned_user_ids")
+      .$type<string[]>()
+      .notNull()
+      .default([]), // Usuarios mencionados con @ en el texto
+    editedAt: timestamp("edited_at"), // Última edición del texto (null = nunca editada)
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Marca de tiempo de última actualización
+  },
+  t => [
+    // Las respuestas se eliminan junto con su nota raíz
+    foreignKey({
+      columns: [t.parentNoteId],
+      foreignColumns: [t.id],
+      name: "kpi_notes_parent_note_id_fkey"
+    }).onDelete("cascade"),
+    // Lectura de las conversaciones de un valor de KPI
+    index("kpi_notes_kpi_value_id_idx").on(t.kpiValueId),
+    // Búsqueda de respuestas recientes para las alertas "Note Reply"
+    index("kpi_notes_created_at_idx").on(t.createdAt)
+  ]
+)
+
+/**
+ * @typedef {typeof kpiNotesTable.$inferInsert} InsertKpiNote
+ * @description Define el tipo para la inserción de una nota de KPI.
+ */
+export type InsertKpiNote = typeof kpiNotesTable.$inferInsert
+
+/**
+ * @typedef {typeof kpiNotesTable.$inferSelect} SelectKpiNote
+ * @description Define el tipo para la selección de una nota de KPI.
+ */
+export type SelectKpiNote = typeof kpiNotesTable.$inferSelect
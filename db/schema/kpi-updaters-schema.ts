@@ -1,13 +1,24 @@
 /**
  * @file db/schema/kpi-updaters-schema.ts
  * @brief Define el esquema de base de datos para los encargados de actualización de KPI en DeltaOne.
- * @description Esta tabla de unión gestiona la asignación de usuarios o grupos
- * responsables de actualizar manualmente los valores de KPIs específicos.
+ * @description Estas tablas de unión gestionan la asignación de usuarios o grupos
+ * responsables de actualizar manualmente los valores de KPIs específicos, o de todos los KPIs bajo
+ * un elemento del Scorecard. Los miembros de un grupo asignado y los KPIs bajo un elemento se
+ * resuelven al consultar, por lo que los cambios en el grupo o en el árbol aplican de inmediato.
  */
 
-import { pgTable, uuid, text, timestamp, boolean } from "drizzle-orm/pg-core"
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  boolean,
+  primaryKey
+} from "drizzle-orm/pg-core"
 import { kpisTable } from "./kpis-schema" // Importar la tabla de KPIs
 import { profilesTable } from "./profiles-schema" // Importar la tabla de perfiles
+import { groupsTable } from "./groups-schema" // Importar la tabla de grupos
+import { scorecardElementsTable } from "./scorecard-elements-schema" // Importar la tabla de elementos del Scorecard
 
 /**
  * @constant kpiUpdatersTable
@@ -51,3 +62,92 @@ export type InsertKpiUpdater = typeof kpiUpdatersTable.$inferInsert
  * @description Define el tipo para la selección de un encargado de actualización de KPI existente.
  */
 export type SelectKpiUpdater = typeof kpiUpdatersTable.$inferSelect
+
+/**
+ * @constant kpiGroupUpdatersTable
+ * @description Definición de la tabla kpi_group_updaters, una tabla de unión que asocia
+ * KPIs con los grupos cuyos miembros son responsables de actualizarlos manualmente.
+ */
+export const kpiGroupUpdatersTable = pgTable(
+  "kpi_group_updaters",
+  {
+    kpiId: uuid("kpi_id")
+      .references(() => kpisTable.id, { onDelete: "cascade" })
+      .notNull(), // FK al KPI
+    groupId: uuid("group_id")
+      .references(() => groupsTable.id, { onDelete: "cascade" })
+      .notNull(), // FK al grupo responsable de la actualización
+    canModifyThresholds: boolean("can_modify_thresholds")
+      .default(false)
+      .notNull(), // Indica si los miembros del grupo pueden modificar los umbrales del KPI
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación del registro
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Marca de tiempo de última actualización
+  },
+  table => {
+    return [
+      // Clave primaria compuesta para asegurar que un grupo solo pueda ser asignado una vez como actualizador para un KPI específico
+      primaryKey({ columns: [table.kpiId, table.groupId] })
+    ]
+  }
+)
+
+/**
+ * @typedef {typeof kpiGroupUpdatersTable.$inferInsert} InsertKpiGroupUpdater
+ * @description Define el tipo para la inserción de un nuevo grupo encargado de actualización de KPI.
+ */
+export type InsertKpiGroupUpdater = typeof kpiGroupUpdatersTable.$inferInsert
+
+/**
+ * @typedef {typeof kpiGroupUpdatersTable.$inferSelect} SelectKpiGroupUpdater
+ * @description Define el tipo para la selección de un grupo encargado de actualización de KPI existente.
+ */
+export type SelectKpiGroupUpdater = typeof kpiGroupUpdatersTable.$inferSelect
+
+/**
+ * @constant scorecardElementGroupUpdatersTable
+ * @description Definición de la tabla scorecard_element_group_updaters, una tabla de unión que asocia
+ * elementos del Scorecard con los grupos cuyos miembros actualizan los KPIs del elemento y de todos
+ * sus descendientes, incluidos los KPIs creados después de la asignación.
+ */
+export const scorecardElementGroupUpdatersTable = pgTable(
+  "scorecard_element_group_updaters",
+  {
+    scorecardElementId: uuid("scorecard_element_id")
+      .references(() => scorecardElementsTable.id, { onDelete: "cascade" })
+      .notNull(), // FK al elemento raíz de la asignación
+    groupId: uuid("group_id")
+      .references(() => groupsTable.id, { onDelete: "cascade" })
+      .notNull(), // FK al grupo responsable de la actualización
+    canModifyThresholds: boolean("can_modify_thresholds")
+      .default(false)
+      .notNull(), // Indica si los miembros del grupo pueden modificar los umbrales de los KPIs
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación del registro
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Marca de tiempo de última actualización
+  },
+  table => {
+    return [
+      // Clave primaria compuesta para asegurar que un grupo solo pueda ser asignado una vez a un elemento
+      primaryKey({ columns: [table.scorecardElementId, table.groupId] })
+    ]
+  }
+)
+
+/**
+ * @typedef {typeof scorecardElementGroupUpdatersTable.$inferInsert} InsertScorecardElementGroupUpdater
+ * @description Define el tipo para la inserción de un nuevo grupo encargado de los KPIs de un elemento.
+ */
+export type InsertScorecardElementGroupUpdater =
+  typeof scorecardElementGroupUpdatersTable.$inferInsert
+
+/**
+ * @typedef {typeof scorecardElementGroupUpdatersTable.$inferSelect} SelectScorecardElementGroupUpdater
+ * @description Define el tipo para la selección de un grupo encargado de los KPIs de un elemento existente.
+ */
+export type SelectScorecardElementGroupUpdater =
+  typeof scorecardElementGroupUpdatersTable.$inferSelect
@@ -11,7 +11,9 @@ import {
   timestamp,
   pgEnum,
   integer,
-  boolean
+  boolean,
+  decimal,
+  jsonb
 } from "drizzle-orm/pg-core"
 import { scorecardElementsTable } from "./scorecard-elements-schema" // Importar la tabla de elementos del Scorecard
 
@@ -58,6 +60,27 @@ export const kpiAggregationTypeEnum = pgEnum("kpi_aggregation_type", [
   "Last Value"
 ])
 
+/**
+ * @enum kpiScoringDirectionEnum
+ * @description Define el sentido de la puntuación de un KPI Goal/Red Flag: mayor es mejor (ej. ventas),
+ * menor es mejor (ej. costos, defectos, churn) o más cerca del objetivo es mejor (banda de tolerancia).
+ */
+export const kpiScoringDirectionEnum = pgEnum("kpi_scoring_direction", [
+  "Higher is Better",
+  "Lower is Better",
+  "Closer to Target"
+])
+
+/**
+ * @enum kpiScoringMethodEnum
+ * @description Define cómo se calcula la puntuación entre umbrales: por tramos fijos (100/50/25/0)
+ * o por interpolación lineal entre los umbrales.
+ */
+export const kpiScoringMethodEnum = pgEnum("kpi_scoring_method", [
+  "Stepped",
+  "Interpolated"
+])
+
 /**
  * @constant kpisTable
  * @description Definición de la tabla kpis, que almacena la configuración de cada KPI.
@@ -76,6 +99,15 @@ export const kpisTable = pgTable("kpis", {
   isManualUpdate: boolean("is_manual_update").default(false).notNull(), // Indica si el KPI se actualiza manualmente
   calculationEquation: text("calculation_equation"), // Ecuación para KPIs calculados automáticamente
   rollupEnabled: boolean("rollup_enabled").default(false).notNull(), // Habilita el rollup desde organizaciones hijas
+  scoringDirection: kpiScoringDirectionEnum("scoring_direction")
+    .default("Higher is Better")
+    .notNull(), // Sentido de la puntuación para KPIs Goal/Red Flag
+  scoringMethod: kpiScoringMethodEnum("scoring_method")
+    .default("Stepped")
+    .notNull(), // Puntuación por tramos fijos o interpolada entre umbrales
+  targetTolerance: decimal("target_tolerance"), // Desviación máxima respecto del objetivo considerada "Verde" (modo 'Closer to Target')
+  externalCode: text("external_code").unique(), // Código del KPI en los sistemas de origen (opcional, único)
+  aliases: jsonb("aliases").$type<string[]>().notNull().default([]), // Otros nombres con los que se conoce el KPI en importaciones y ecuaciones
   createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación del registro
   updatedAt: timestamp("updated_at")
     .defaultNow()
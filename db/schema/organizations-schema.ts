@@ -5,7 +5,14 @@
  * permitiendo el seguimiento del rendimiento a diferentes niveles.
  * Se incluyen referencias para jerarquía padre-hijo, plantillas y borrado en cascada.
  */
-import { pgTable, uuid, text, timestamp, foreignKey } from "drizzle-orm/pg-core"
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  foreignKey,
+  jsonb
+} from "drizzle-orm/pg-core"
 import { relations } from "drizzle-orm" // Importar relations para definir las relaciones
 
 /**
@@ -21,6 +28,8 @@ export const organizationsTable = pgTable(
     // Definir la columna sin references() para evitar el ciclo de tipos.
     parentId: uuid("parent_id"), // FK autoreferenciada; la restricción se define en el extra config
     templateFromDatasetField: text("template_from_dataset_field"), // Campo que indica si la organización fue creada a partir de una plantilla y de qué campo de dataset
+    externalCode: text("external_code").unique(), // Código de la organización en los sistemas de origen (opcional, único)
+    aliases: jsonb("aliases").$type<string[]>().notNull().default([]), // Otros nombres con los que se conoce la organización en importaciones
     createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación del registro
     updatedAt: timestamp("updated_at")
       .defaultNow()
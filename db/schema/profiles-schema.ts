@@ -3,7 +3,7 @@
  * @brief Define el esquema de base de datos para los perfiles de usuario.
  * @description Esta tabla extiende los datos del usuario provenientes de Clerk,
  * incorporando información sobre el nivel de membresía, detalles de suscripción a través de Stripe,
- * y fechas relevantes de creación y actualización del perfil.
+ * la preferencia de entrega de alertas y fechas relevantes de creación y actualización del perfil.
  */
 
 import { pgTable, text, timestamp, pgEnum, boolean } from "drizzle-orm/pg-core"
@@ -14,6 +14,16 @@ import { pgTable, text, timestamp, pgEnum, boolean } from "drizzle-orm/pg-core"
  */
 export const membershipEnum = pgEnum("membership", ["free", "pro"])
 
+/**
+ * @enum alertDeliveryModeEnum
+ * @description Define cómo recibe el usuario las notificaciones de alertas por correo.
+ */
+export const alertDeliveryModeEnum = pgEnum("alert_delivery_mode", [
+  "immediate", // Un correo por cada alerta disparada
+  "daily_digest", // Un resumen diario con todas las alertas disparadas
+  "weekly_digest" // Un resumen semanal con todas las alertas disparadas
+])
+
 /**
  * @constant profilesTable
  * @description Definición de la tabla `profiles`, que extiende los datos del usuario de Clerk
@@ -26,6 +36,9 @@ export const profilesTable = pgTable("profiles", {
   stripeCustomerId: text("stripe_customer_id"), // ID de cliente de Stripe para la gestión de pagos
   stripeSubscriptionId: text("stripe_subscription_id"), // ID de suscripción de Stripe
   isActive: boolean("is_active").notNull().default(true), // Indica si el usuario está activo o desactivado
+  alertDeliveryMode: alertDeliveryModeEnum("alert_delivery_mode")
+    .notNull()
+    .default("immediate"), // Entrega de alertas: inmediata o en resumen diario/semanal
   createdAt: timestamp("created_at").defaultNow().notNull(), // Fecha de creación del perfil
   updatedAt: timestamp("updated_at")
     .defaultNow()
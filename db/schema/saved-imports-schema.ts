@@ -2,10 +2,19 @@
  * @file db/schema/saved-imports-schema.ts
  * @brief Define el esquema de base de datos para las importaciones de datos guardadas en DeltaOne.
  * @description Esta tabla permite almacenar configuraciones de importación de KPI reutilizables,
- * incluyendo mapeos de datos, transformaciones y programación de ejecuciones recurrentes.
+ * incluyendo mapeos de datos, transformaciones y programación de ejecuciones recurrentes. Para las
+ * conexiones PostgreSQL y MySQL guarda además la consulta SQL de origen, su límite de filas y su
+ * tiempo máximo de ejecución.
  */
 
-import { pgTable, uuid, text, timestamp, jsonb } from "drizzle-orm/pg-core"
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  jsonb,
+  integer
+} from "drizzle-orm/pg-core"
 import { importConnectionsTable } from "./import-connections-schema" // Importar la tabla de conexiones de importación
 import { profilesTable } from "./profiles-schema" // Importar la tabla de perfiles
 
@@ -23,6 +32,9 @@ export const savedImportsTable = pgTable("saved_imports", {
   kpiMappings: jsonb("kpi_mappings").notNull(), // Configuración de mapeo de columnas de origen a KPIs de destino (JSON)
   transformations: jsonb("transformations"), // Array de objetos con reglas de transformación de datos (JSON, opcional)
   scheduleConfig: jsonb("schedule_config"), // Configuración de programación: frecuencia, hora, etc. (JSON, opcional)
+  sourceQuery: text("source_query"), // Consulta SQL de solo lectura para conexiones PostgreSQL/MySQL (opcional)
+  rowLimit: integer("row_limit"), // Máximo de filas a leer de la consulta (null = límite por defecto)
+  queryTimeoutSeconds: integer("query_timeout_seconds"), // Tiempo máximo de la consulta en segundos (null = por defecto)
   lastRunAt: timestamp("last_run_at"), // Marca de tiempo de la última ejecución exitosa de esta importación
   createdById: text("created_by_user_id")
     .references(() => profilesTable.userId, { onDelete: "set null" })
@@ -0,0 +1,72 @@
+/**
+ * @file db/schema/scorecard-element-scores-schema.ts
+ * @brief Define el esquema de base de datos para la caché de puntuaciones agregadas del Scorecard en DeltaOne.
+ * @description Esta tabla almacena, por período, la puntuación y el color calculados para los elementos
+ * del Scorecard que no son KPI (perspectivas, objetivos, iniciativas), obtenidos como promedio ponderado
+ * (según `scorecard_elements.weight`) de las puntuaciones de sus hijos. Es una caché: se invalida cuando
+ * cambian los valores de KPI o la estructura del Scorecard y se recalcula bajo demanda.
+ */
+
+import {
+  pgTable,
+  uuid,
+  timestamp,
+  decimal,
+  integer,
+  date,
+  uniqueIndex
+} from "drizzle-orm/pg-core"
+import { scorecardElementsTable } from "./scorecard-elements-schema" // Elemento al que pertenece la puntuación
+import { organizationsTable } from "./organizations-schema" // Organización (para invalidar por organización)
+import { kpiColorEnum } from "./kpi-values-schema" // Reutiliza los colores de KPI
+
+/**
+ * @constant scorecardElementScoresTable
+ * @description Definición de la tabla scorecard_element_scores, que almacena la puntuación agregada
+ * de cada elemento del Scorecard para un período dado.
+ */
+export const scorecardElementScoresTable = pgTable(
+  "scorecard_element_scores",
+  {
+    id: uuid("id").primaryKey().defaultRandom(), // Identificador único del registro
+    scorecardElementId: uuid("scorecard_element_id")
+      .references(() => scorecardElementsTable.id, { onDelete: "cascade" })
+      .notNull(), // FK al elemento del Scorecard, con borrado en cascada
+    organizationId: uuid("organization_id")
+      .references(() => organizationsTable.id, { onDelete: "cascade" })
+      .notNull(), // FK a la organización del elemento, con borrado en cascada
+    periodDate: date("period_date").notNull(), // Período al que corresponde la puntuación
+    score: decimal("score"), // Puntuación agregada (null si no hay datos suficientes)
+    color: kpiColorEnum("color"), // Color derivado de la puntuación agregada
+    contributingChildren: integer("contributing_children").default(0).notNull(), // Hijos con datos que aportaron al promedio
+    missingChildren: integer("missing_children").default(0).notNull(), // Hijos sin datos para el período
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Marca de tiempo de creación del registro
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .notNull()
+      .$onUpdate(() => new Date()) // Marca de tiempo de última actualización
+  },
+  table => {
+    return [
+      // Una sola puntuación por elemento y período
+      uniqueIndex("scorecard_element_scores_element_id_period_date_idx").on(
+        table.scorecardElementId,
+        table.periodDate
+      )
+    ]
+  }
+)
+
+/**
+ * @typedef {typeof scorecardElementScoresTable.$inferInsert} InsertScorecardElementScore
+ * @description Define el tipo para la inserción de una puntuación agregada de elemento de Scorecard.
+ */
+export type InsertScorecardElementScore =
+  typeof scorecardElementScoresTable.$inferInsert
+
+/**
+ * @typedef {typeof scorecardElementScoresTable.$inferSelect} SelectScorecardElementScore
+ * @description Define el tipo para la selección de una puntuación agregada de elemento de Scorecard.
+ */
+export type SelectScorecardElementScore =
+  typeof scorecardElementScoresTable.$inferSelect
@@ -0,0 +1,38 @@
+/**
+ * @file lib/__tests__/fake-drizzle.ts
+ * @brief Drizzle falso para las pruebas unitarias de las funciones que reciben la conexión.
+ * @description Cada consulta encadenada (`select`, `from`, `where`, `limit`, `innerJoin`) resuelve,
+ * en orden, el siguiente resultado de la cola; una cola agotada resuelve una lista vacía. Las pruebas
+ * pueden inspeccionar la cola después para comprobar cuántas consultas se hicieron.
+ */
+
+/**
+ * @interface FakeDrizzleQuery
+ * @description Consulta encadenable que, al esperarse, entrega el siguiente resultado de la cola.
+ */
+export interface FakeDrizzleQuery extends PromiseLike<unknown[]> {
+  select: (...args: unknown[]) => FakeDrizzleQuery
+  from: (...args: unknown[]) => FakeDrizzleQuery
+  where: (...args: unknown[]) => FakeDrizzleQuery
+  limit: (...args: unknown[]) => FakeDrizzleQuery
+  innerJoin: (...args: unknown[]) => FakeDrizzleQuery
+}
+
+/**
+ * @function fakeDrizzle
+ * @description Crea un Drizzle falso que resuelve las consultas con los resultados indicados.
+ * @param {unknown[][]} results - Cola de resultados, uno por consulta y en el orden en que se hacen.
+ * @returns {FakeDrizzleQuery} Conexión falsa para pasar donde se espera `drizzle`.
+ */
+export function fakeDrizzle(results: unknown[][]): FakeDrizzleQuery {
+  const query: FakeDrizzleQuery = {
+    select: () => query,
+    from: () => query,
+    where: () => query,
+    limit: () => query,
+    innerJoin: () => query,
+    then: (onFulfilled, onRejected) =>
+      Promise.resolve(results.shift() ?? []).then(onFulfilled, onRejected)
+  }
+  return query
+}
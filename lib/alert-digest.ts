@@ -0,0 +1,312 @@
+/**
+ * @file lib/alert-digest.ts
+ * @brief Resúmenes diarios y semanales de alertas por usuario.
+ * @description Este módulo reúne los eventos de alerta pendientes de los usuarios que eligieron
+ * recibir sus alertas en resumen (`profiles.alert_delivery_mode`), los agrupa por organización y
+ * KPI con el valor, objetivo y color del período afectado, y envía un único correo por usuario.
+ * Tras el envío marca los eventos como incluidos en el resumen (`digest_sent_at`).
+ * Lo invoca el cron `send-alert-digests`.
+ */
+
+import {
+  alertEventRecipientsTable,
+  alertEventsTable,
+  kpiValuesTable,
+  kpisTable,
+  organizationsTable,
+  profilesTable,
+  scorecardElementsTable
+} from "@/db/schema"
+import { getLogger } from "@/lib/logger"
+import { escapeHtml } from "@/lib/alert-evaluation"
+import { sendEmail } from "@/lib/mailer"
+import { AlertDeliveryMode, AlertDigestItem } from "@/types"
+import { and, eq, inArray, isNull } from "drizzle-orm"
+
+const logger = getLogger("alert-digest")
+
+/**
+ * @typedef {'daily_digest' | 'weekly_digest'} AlertDigestMode
+ * @description Modos de entrega que se envían como resumen.
+ */
+export type AlertDigestMode = Exclude<AlertDeliveryMode, "immediate">
+
+/**
+ * @interface AlertDigestKpiGroup
+ * @description Eventos de un KPI dentro del resumen.
+ */
+export interface AlertDigestKpiGroup {
+  kpiId: string | null
+  kpiName: string
+  items: AlertDigestItem[]
+}
+
+/**
+ * @interface AlertDigestOrganizationGroup
+ * @description KPIs de una organización dentro del resumen.
+ */
+export interface AlertDigestOrganizationGroup {
+  organizationName: string
+  kpis: AlertDigestKpiGroup[]
+}
+
+const COLOR_LABELS: Record<NonNullable<AlertDigestItem["color"]>, string> = {
+  Red: "Rojo",
+  Yellow: "Amarillo",
+  Green: "Verde"
+}
+
+const COLOR_STYLES: Record<NonNullable<AlertDigestItem["color"]>, string> = {
+  Red: "background:#ef4444;color:#fff",
+  Yellow: "background:#facc15;color:#000",
+  Green: "background:#22c55e;color:#fff"
+}
+
+/**
+ * @function groupAlertDigestItems
+ * @description Agrupa los eventos por organización y KPI (en orden alfabético), con los eventos
+ * de cada KPI del más reciente al más antiguo.
+ * @param {AlertDigestItem[]} items - Eventos del resumen.
+ * @returns {AlertDigestOrganizationGroup[]} Eventos agrupados.
+ */
+export function groupAlertDigestItems(
+  items: AlertDigestItem[]
+): AlertDigestOrganizationGroup[] {
+  const organizations = new Map<string, Map<string, AlertDigestKpiGroup>>()
+
+  for (const item of items) {
+    const organizationName = item.organizationName ?? "Sin organización"
+    const kpiKey = item.kpiId ?? "none"
+    if (!organizations.has(organizationName)) {
+      organizations.set(organizationName, new Map())
+    }
+    const kpis = organizations.get(organizationName)!
+    if (!kpis.has(kpiKey)) {
+      kpis.set(kpiKey, {
+        kpiId: item.kpiId,
+        kpiName: item.kpiName ?? "General",
+        items: []
+      })
+    }
+    kpis.get(kpiKey)!.items.push(item)
+  }
+
+  return Array.from(organizations.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([organizationName, kpis]) => ({
+      organizationName,
+      kpis: Array.from(kpis.values())
+        .sort((a, b) => a.kpiName.localeCompare(b.kpiName))
+        .map(kpi => ({
+          ...kpi,
+          items: [...kpi.items].sort(
+            (a, b) =>
+              new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+          )
+        }))
+    }))
+}
+
+/**
+ * @function describeDigestValue
+ * @description Texto con el valor, el objetivo y el color del KPI en el período del evento.
+ */
+function describeDigestValue(item: AlertDigestItem): string {
+  const parts = [
+    item.actualValue !== null ? `valor ${item.actualValue}` : null,
+    item.targetValue !== null ? `objetivo ${item.targetValue}` : null,
+    item.color ? COLOR_LABELS[item.color] : null
+  ].filter(Boolean)
+  return parts.join(", ")
+}
+
+/**
+ * @function buildAlertDigestEmail
+ * @description Compone el correo de resumen de alertas de un usuario.
+ * @param {AlertDigestMode} mode - Resumen diario o semanal.
+ * @param {AlertDigestItem[]} items - Eventos incluidos en el resumen.
+ * @param {string} appUrl - URL base de la aplicación para los enlaces (puede ser vacía).
+ * @returns {{ subject: string; text: string; html: string }} Contenido del correo.
+ */
+export function buildAlertDigestEmail(
+  mode: AlertDigestMode,
+  items: AlertDigestItem[],
+  appUrl: string
+): { subject: string; text: string; html: string } {
+  const periodLabel = mode === "daily_digest" ? "diario" : "semanal"
+  const subject = `DeltaOne: resumen ${periodLabel} de alertas (${items.length})`
+  const groups = groupAlertDigestItems(items)
+  const alertsUrl = appUrl ? `${appUrl}/alerts` : ""
+  const scorecardsUrl = appUrl ? `${appUrl}/scorecards` : ""
+
+  const textSections = groups.map(group => {
+    const kpiLines = group.kpis.map(kpi => {
+      const itemLines = kpi.items.map(item => {
+        const value = describeDigestValue(item)
+        return `    - [${item.periodDate ?? "—"}] ${item.alertType}: ${item.detail}${value ? ` (${value})` : ""}`
+      })
+      return `  ${kpi.kpiName}\n${itemLines.join("\n")}`
+    })
+    return `${group.organizationName}\n${kpiLines.join("\n")}`
+  })
+  const text = `Hola,\n\nEste es tu resumen ${periodLabel} de alertas de DeltaOne:\n\n${textSections.join("\n\n")}\n\n${
+    alertsUrl ? `Ver todas tus alertas: ${alertsUrl}\n\n` : ""
+  }Equipo DeltaOne`
+
+  const htmlSections = groups
+    .map(group => {
+      const rows = group.kpis
+        .flatMap(kpi =>
+          kpi.items.map(
+            (item, index) => `
+              <tr>
+                ${
+                  index === 0
+                    ? `<td rowspan="${kpi.items.length}">${
+                        scorecardsUrl
+                          ? `<a href="${scorecardsUrl}">${escapeHtml(kpi.kpiName)}</a>`
+                          : escapeHtml(kpi.kpiName)
+                      }</td>`
+                    : ""
+                }
+                <td>${item.periodDate ?? "—"}</td>
+                <td>${escapeHtml(item.alertType)}</td>
+                <td>${escapeHtml(item.detail)}</td>
+                <td>${item.actualValue !== null ? escapeHtml(item.actualValue) : "—"}</td>
+                <td>${item.targetValue !== null ? escapeHtml(item.targetValue) : "—"}</td>
+                <td>${
+                  item.color
+                    ? `<span style="${COLOR_STYLES[item.color]};padding:2px 6px;border-radius:4px">${COLOR_LABELS[item.color]}</span>`
+                    : "—"
+                }</td>
+              </tr>`
+          )
+        )
+        .join("")
+      return `
+        <h3>${escapeHtml(group.organizationName)}</h3>
+        <table cellpadding="6" border="1" style="border-collapse: collapse">
+          <thead><tr><th>KPI</th><th>Período</th><th>Alerta</th><th>Detalle</th><th>Valor</th><th>Objetivo</th><th>Color</th></tr></thead>
+          <tbody>${rows}</tbody>
+        </table>`
+    })
+    .join("")
+  const html = `
+    <p>Hola,</p>
+    <p>Este es tu resumen ${periodLabel} de alertas de DeltaOne:</p>
+    ${htmlSections}
+    ${alertsUrl ? `<p><a href="${alertsUrl}">Ver todas tus alertas</a></p>` : ""}
+    <p>Equipo DeltaOne</p>
+  `
+
+  return { subject, text, html }
+}
+
+/**
+ * @function sendAlertDigests
+ * @description Envía el resumen de alertas pendientes a cada usuario con el modo de entrega indicado.
+ * Los eventos de usuarios sin correo se marcan igualmente como procesados (siguen visibles en /alerts);
+ * si el envío falla, quedan pendientes para el siguiente resumen.
+ * @param {any} drizzle - Instancia de Drizzle.
+ * @param {AlertDigestMode} mode - Resumen diario o semanal.
+ * @returns {Promise<{ users: number; events: number }>} Usuarios a los que se envió y eventos incluidos.
+ */
+export async function sendAlertDigests(
+  drizzle: any,
+  mode: AlertDigestMode
+): Promise<{ users: number; events: number }> {
+  const rows: (AlertDigestItem & {
+    userId: string
+    email: string | null
+  })[] = await drizzle
+    .select({
+      userId: alertEventRecipientsTable.userId,
+      email: profilesTable.email,
+      eventId: alertEventsTable.id,
+      alertType: alertEventsTable.alertType,
+      organizationId: organizationsTable.id,
+      organizationName: organizationsTable.name,
+      kpiId: alertEventsTable.kpiId,
+      kpiName: alertEventsTable.kpiName,
+      periodDate: alertEventsTable.periodDate,
+      detail: alertEventsTable.detail,
+      actualValue: kpiValuesTable.actualValue,
+      targetValue: kpiValuesTable.targetValue,
+      color: kpiValuesTable.color,
+      createdAt: alertEventsTable.createdAt
+    })
+    .from(alertEventRecipientsTable)
+    .innerJoin(
+      alertEventsTable,
+      eq(alertEventRecipientsTable.eventId, alertEventsTable.id)
+    )
+    .innerJoin(
+      profilesTable,
+      eq(alertEventRecipientsTable.userId, profilesTable.userId)
+    )
+    .leftJoin(kpisTable, eq(alertEventsTable.kpiId, kpisTable.id))
+    .leftJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .leftJoin(
+      organizationsTable,
+      eq(scorecardElementsTable.organizationId, organizationsTable.id)
+    )
+    .leftJoin(
+      kpiValuesTable,
+      and(
+        eq(kpiValuesTable.kpiId, alertEventsTable.kpiId),
+        eq(kpiValuesTable.periodDate, alertEventsTable.periodDate)
+      )
+    )
+    .where(
+      and(
+        eq(alertEventRecipientsTable.deliveryMode, mode),
+        isNull(alertEventRecipientsTable.digestSentAt)
+      )
+    )
+
+  const byUser = new Map<
+    string,
+    { email: string | null; items: AlertDigestItem[] }
+  >()
+  for (const { userId, email, ...item } of rows) {
+    if (!byUser.has(userId)) byUser.set(userId, { email, items: [] })
+    byUser.get(userId)!.items.push(item)
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? ""
+  let users = 0
+  let events = 0
+  for (const [userId, { email, items }] of byUser) {
+    if (email) {
+      const { subject, text, html } = buildAlertDigestEmail(mode, items, appUrl)
+      const sent = await sendEmail({ to: email, subject, text, html })
+      if (!sent) {
+        logger.error(`Failed to send ${mode} to user ${userId}.`)
+        continue
+      }
+      users++
+      events += items.length
+    } else {
+      logger.warn(`User ${userId} has no e-mail; skipping ${mode}.`)
+    }
+
+    await drizzle
+      .update(alertEventRecipientsTable)
+      .set({ digestSentAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(alertEventRecipientsTable.userId, userId),
+          inArray(
+            alertEventRecipientsTable.eventId,
+            items.map(item => item.eventId)
+          )
+        )
+      )
+  }
+
+  logger.info(`Sent ${mode} to ${users} user(s) with ${events} event(s).`)
+  return { users, events }
+}
@@ -0,0 +1,730 @@
+/**
+ * @file lib/alert-evaluation.ts
+ * @brief Motor de evaluación de las alertas configuradas en DeltaOne.
+ * @description Este módulo evalúa cada tipo de alerta (`alertTypeEnum`) contra los datos reales:
+ * KPIs cuyo último valor pasó a "Rojo", actualizadores con valores pendientes según la frecuencia
+ * de calendario del KPI, respuestas a notas de valores de KPI y cambios personalizados (umbrales o
+ * variaciones) definidos en `conditionDetails`. Cada evaluador devuelve los KPIs y períodos que
+ * cumplen la condición, con los que se compone la notificación por correo.
+ * Lo invoca el cron `check-alerts`, que se ejecuta cada `ALERT_CRON_INTERVAL_HOURS` horas.
+ */
+
+import {
+  SelectAlert,
+  appSettingsTable,
+  kpiNotesTable,
+  kpiValuesTable,
+  kpisTable,
+  profilesTable,
+  scorecardElementsTable
+} from "@/db/schema"
+import { getLogger } from "@/lib/logger"
+import { getNoteReplyRecipientIds } from "@/lib/kpi-notes"
+import { loadKpiUpdaterUserIds } from "@/lib/kpi-updaters"
+import {
+  DEFAULT_FISCAL_YEAR_START_MONTH,
+  KpiCalendarFrequency,
+  getFiscalYearStartMonth,
+  getPeriodStartDate,
+  shiftPeriodDate
+} from "@/lib/period-utils"
+import {
+  AlertComparisonOperator,
+  AlertEvaluationResult,
+  AlertMatch,
+  CustomKpiChangeConditionDetails,
+  UpdateReminderConditionDetails
+} from "@/types"
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  format,
+  parseISO
+} from "date-fns"
+import {
+  and,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  ne,
+  or
+} from "drizzle-orm"
+
+const logger = getLogger("alert-evaluation")
+
+/**
+ * @constant ALERT_CRON_INTERVAL_HOURS
+ * @description Intervalo (en horas) con el que se ejecuta el cron `check-alerts`. Las alertas
+ * inmediatas evalúan los cambios ocurridos desde la ejecución anterior.
+ */
+export const ALERT_CRON_INTERVAL_HOURS = 1
+
+/**
+ * @constant NOTE_REPLY_ALERTS_SETTING_KEY
+ * @description Clave de app_settings que habilita globalmente las alertas de respuesta a notas.
+ */
+export const NOTE_REPLY_ALERTS_SETTING_KEY = "enable_note_reply_alerts"
+
+type AlertRunFrequency = "immediate" | "daily" | "weekly" | "monthly" | "once"
+
+/**
+ * @function getAlertRunFrequency
+ * @description Obtiene la frecuencia de ejecución de `frequencyConfig` ('immediate' por defecto).
+ */
+function getAlertRunFrequency(frequencyConfig: unknown): AlertRunFrequency {
+  const type = (frequencyConfig as { type?: unknown } | null)?.type
+  return type === "daily" ||
+    type === "weekly" ||
+    type === "monthly" ||
+    type === "once"
+    ? type
+    : "immediate"
+}
+
+/**
+ * @function isAlertDue
+ * @description Indica si una alerta debe evaluarse en la ejecución actual del cron.
+ * Las alertas inmediatas (y las de una sola vez) se evalúan siempre; las diarias en la primera
+ * ejecución del día (UTC), las semanales el lunes y las mensuales el día 1.
+ * @param {unknown} frequencyConfig - Configuración de frecuencia de la alerta.
+ * @param {Date} now - Momento de la ejecución (UTC).
+ * @returns {boolean} `true` si la alerta debe evaluarse.
+ */
+export function isAlertDue(frequencyConfig: unknown, now: Date): boolean {
+  const isFirstRunOfDay = now.getUTCHours() < ALERT_CRON_INTERVAL_HOURS
+  switch (getAlertRunFrequency(frequencyConfig)) {
+    case "daily":
+      return isFirstRunOfDay
+    case "weekly":
+      return isFirstRunOfDay && now.getUTCDay() === 1
+    case "monthly":
+      return isFirstRunOfDay && now.getUTCDate() === 1
+    default:
+      return true
+  }
+}
+
+/**
+ * @function getAlertEvaluationWindowStart
+ * @description Devuelve el inicio de la ventana de cambios que considera una alerta: desde la
+ * ejecución anterior en la que debía evaluarse según su frecuencia.
+ * @param {unknown} frequencyConfig - Configuración de frecuencia de la alerta.
+ * @param {Date} now - Momento de la ejecución (UTC).
+ * @returns {Date} Inicio de la ventana de evaluación.
+ */
+export function getAlertEvaluationWindowStart(
+  frequencyConfig: unknown,
+  now: Date
+): Date {
+  switch (getAlertRunFrequency(frequencyConfig)) {
+    case "daily":
+      return addDays(now, -1)
+    case "weekly":
+      return addWeeks(now, -1)
+    case "monthly":
+      return addMonths(now, -1)
+    default:
+      return addHours(now, -ALERT_CRON_INTERVAL_HOURS)
+  }
+}
+
+/**
+ * @constant ALERT_IMMEDIATE_DEDUPE_HOURS
+ * @description Horas durante las que una alerta inmediata no vuelve a notificar el mismo hecho.
+ */
+export const ALERT_IMMEDIATE_DEDUPE_HOURS = 24
+
+/**
+ * @function getAlertDedupeWindowStart
+ * @description Devuelve desde cuándo un evento ya notificado suprime la repetición del mismo hecho
+ * (mismo KPI, período y detalle): un período de la frecuencia de la alerta (menos media ejecución
+ * del cron, para no suprimir la notificación del período siguiente), 24 horas para las inmediatas
+ * y sin límite (null) para las de una sola vez.
+ * @param {unknown} frequencyConfig - Configuración de frecuencia de la alerta.
+ * @param {Date} now - Momento de la ejecución (UTC).
+ * @returns {Date | null} Inicio de la ventana de supresión de duplicados.
+ */
+export function getAlertDedupeWindowStart(
+  frequencyConfig: unknown,
+  now: Date
+): Date | null {
+  switch (getAlertRunFrequency(frequencyConfig)) {
+    case "once":
+      return null
+    case "immediate":
+      return addHours(now, -ALERT_IMMEDIATE_DEDUPE_HOURS)
+    default:
+      return addMinutes(
+        getAlertEvaluationWindowStart(frequencyConfig, now),
+        (ALERT_CRON_INTERVAL_HOURS * 60) / 2
+      )
+  }
+}
+
+/**
+ * @function buildAlertDedupeKey
+ * @description Clave que identifica un mismo hecho notificado por una alerta.
+ */
+export function buildAlertDedupeKey(match: AlertMatch): string {
+  return `${match.kpiId}|${match.periodDate}|${match.detail}`
+}
+
+/**
+ * @function compareWithOperator
+ * @description Compara un valor contra un umbral con el operador de la alerta.
+ */
+export function compareWithOperator(
+  value: number,
+  operator: AlertComparisonOperator,
+  threshold: number
+): boolean {
+  const equal = Math.abs(value - threshold) < 1e-9
+  switch (operator) {
+    case "gt":
+      return value > threshold
+    case "lt":
+      return value < threshold
+    case "eq":
+      return equal
+    case "ne":
+      return !equal
+  }
+}
+
+const OPERATOR_LABELS: Record<AlertComparisonOperator, string> = {
+  gt: ">",
+  lt: "<",
+  eq: "=",
+  ne: "≠"
+}
+
+/**
+ * @function parseNumber
+ * @description Convierte un valor almacenado como texto/decimal en número (null si no es numérico).
+ */
+function parseNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * @function evaluateCustomCondition
+ * @description Evalúa la condición de una alerta 'Custom KPI Change' sobre el último valor de un KPI.
+ * @param {CustomKpiChangeConditionDetails} details - Condición configurada.
+ * @param {{ actualValue: string | null; score: string | null }} current - Último valor del KPI.
+ * @param {{ actualValue: string | null; score: string | null } | null} previous - Valor del período anterior.
+ * @returns Descripción del dato observado si la condición se cumple; null en caso contrario.
+ */
+export function evaluateCustomCondition(
+  details: CustomKpiChangeConditionDetails,
+  current: { actualValue: string | null; score: string | null },
+  previous: { actualValue: string | null; score: string | null } | null
+): string | null {
+  const threshold = parseNumber(details.thresholdValue)
+  if (threshold === null) return null
+
+  const field =
+    details.triggerEvent === "score_changing" ? "score" : "actualValue"
+  const label =
+    details.triggerEvent === "score_changing" ? "Puntuación" : "Valor"
+  const currentValue = parseNumber(current[field])
+  if (currentValue === null) return null
+
+  let observed = currentValue
+  let description = `${label} ${currentValue}`
+  if (details.comparison === "delta") {
+    const previousValue = previous ? parseNumber(previous[field]) : null
+    if (previousValue === null) return null
+    observed = Math.round((currentValue - previousValue) * 1e6) / 1e6
+    description = `${label} ${previousValue} → ${currentValue} (variación ${observed})`
+  }
+
+  if (!compareWithOperator(observed, details.operator, threshold)) return null
+  return `${description} ${OPERATOR_LABELS[details.operator]} ${threshold}`
+}
+
+/**
+ * @interface UpdateReminderDue
+ * @description Período pendiente de actualización detectado por un recordatorio.
+ */
+export interface UpdateReminderDue {
+  periodDate: string
+  deadline: string
+  overdue: boolean
+}
+
+/**
+ * @function getUpdateReminderDue
+ * @description Determina qué períodos de un KPI requieren recordatorio de actualización.
+ * El plazo de un período es el inicio del período siguiente. Se avisa `daysBeforeDeadline` días
+ * antes del cierre del período en curso si aún no tiene valor, y `daysAfterDeadline` días después
+ * del cierre del período anterior si sigue sin valor (actualizador atrasado).
+ * @param {KpiCalendarFrequency} frequency - Frecuencia de calendario del KPI.
+ * @param {Date} now - Momento de la evaluación.
+ * @param {UpdateReminderConditionDetails} details - Días antes/después configurados.
+ * @param {Set<string>} periodsWithValue - Períodos (YYYY-MM-DD) que ya tienen valor.
+ * @param {number} [fiscalYearStartMonth=1] - Mes (1-12) en que comienza el año fiscal.
+ * @returns {UpdateReminderDue[]} Períodos pendientes.
+ */
+export function getUpdateReminderDue(
+  frequency: KpiCalendarFrequency,
+  now: Date,
+  details: UpdateReminderConditionDetails,
+  periodsWithValue: Set<string>,
+  fiscalYearStartMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+): UpdateReminderDue[] {
+  const currentPeriod = getPeriodStartDate(now, frequency, fiscalYearStartMonth)
+  const previousPeriod = shiftPeriodDate(currentPeriod, frequency, -1)
+  const nextPeriod = shiftPeriodDate(currentPeriod, frequency, 1)
+  const due: UpdateReminderDue[] = []
+
+  if (
+    details.daysAfterDeadline !== undefined &&
+    !periodsWithValue.has(previousPeriod) &&
+    now >= addDays(parseISO(currentPeriod), details.daysAfterDeadline)
+  ) {
+    due.push({
+      periodDate: previousPeriod,
+      deadline: currentPeriod,
+      overdue: true
+    })
+  }
+
+  if (
+    details.daysBeforeDeadline !== undefined &&
+    !periodsWithValue.has(currentPeriod) &&
+    now >= addDays(parseISO(nextPeriod), -details.daysBeforeDeadline)
+  ) {
+    due.push({
+      periodDate: currentPeriod,
+      deadline: nextPeriod,
+      overdue: false
+    })
+  }
+
+  return due
+}
+
+/**
+ * @function loadKpiNames
+ * @description Obtiene el nombre (del elemento del Scorecard) de cada KPI.
+ */
+async function loadKpiNames(
+  drizzle: any,
+  kpiIds: string[]
+): Promise<Map<string, string>> {
+  if (kpiIds.length === 0) return new Map()
+  const rows: { id: string; name: string }[] = await drizzle
+    .select({ id: kpisTable.id, name: scorecardElementsTable.name })
+    .from(kpisTable)
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(inArray(kpisTable.id, kpiIds))
+  return new Map(rows.map(row => [row.id, row.name]))
+}
+
+/**
+ * @function getLatestKpiValue
+ * @description Obtiene el valor del período más reciente de un KPI.
+ */
+async function getLatestKpiValue(drizzle: any, kpiId: string) {
+  const [latest] = await drizzle
+    .select()
+    .from(kpiValuesTable)
+    .where(eq(kpiValuesTable.kpiId, kpiId))
+    .orderBy(desc(kpiValuesTable.periodDate))
+    .limit(1)
+  return latest as typeof kpiValuesTable.$inferSelect | undefined
+}
+
+/**
+ * @function evaluateRedKpiAlert
+ * @description 'Red KPI': el último valor del KPI está en "Rojo" y fue registrado o modificado
+ * dentro de la ventana de evaluación.
+ */
+export async function evaluateRedKpiAlert(
+  drizzle: any,
+  alert: SelectAlert,
+  windowStart: Date
+): Promise<AlertMatch[]> {
+  if (!alert.kpiId) return []
+  const latest = await getLatestKpiValue(drizzle, alert.kpiId)
+  if (!latest || latest.color !== "Red" || latest.updatedAt < windowStart) {
+    return []
+  }
+
+  const names = await loadKpiNames(drizzle, [alert.kpiId])
+  const valueText =
+    latest.actualValue !== null ? `valor ${latest.actualValue}` : "sin valor"
+  const targetText =
+    latest.targetValue !== null ? `, objetivo ${latest.targetValue}` : ""
+  return [
+    {
+      kpiId: alert.kpiId,
+      kpiName: names.get(alert.kpiId) ?? alert.kpiId,
+      periodDate: latest.periodDate,
+      detail: `El KPI está en Rojo (${valueText}${targetText}).`
+    }
+  ]
+}
+
+/**
+ * @function evaluateUpdateReminderAlert
+ * @description 'Update Reminder': KPIs de actualización manual con actualizadores asignados cuyo
+ * valor del período en curso o del anterior falta según `conditionDetails`. Si la alerta está
+ * vinculada a un KPI solo se revisa ese KPI. Los actualizadores, asignados directamente o como
+ * miembros actuales de un grupo asignado, se añaden como destinatarios.
+ */
+export async function evaluateUpdateReminderAlert(
+  drizzle: any,
+  alert: SelectAlert,
+  now: Date
+): Promise<AlertMatch[]> {
+  const details = (alert.conditionDetails ??
+    {}) as UpdateReminderConditionDetails
+  if (
+    details.daysBeforeDeadline === undefined &&
+    details.daysAfterDeadline === undefined
+  ) {
+    return []
+  }
+
+  const manualKpis: { id: string; calendarFrequency: KpiCalendarFrequency }[] =
+    await drizzle
+      .select({
+        id: kpisTable.id,
+        calendarFrequency: kpisTable.calendarFrequency
+      })
+      .from(kpisTable)
+      .where(
+        alert.kpiId
+          ? and(
+              eq(kpisTable.isManualUpdate, true),
+              eq(kpisTable.id, alert.kpiId)
+            )
+          : eq(kpisTable.isManualUpdate, true)
+      )
+  const updaterUserIds = await loadKpiUpdaterUserIds(
+    drizzle,
+    manualKpis.map(kpi => kpi.id)
+  )
+  if (updaterUserIds.size === 0) return []
+
+  const kpis = new Map<
+    string,
+    { frequency: KpiCalendarFrequency; userIds: string[] }
+  >()
+  for (const kpi of manualKpis) {
+    const userIds = updaterUserIds.get(kpi.id)
+    if (userIds) kpis.set(kpi.id, { frequency: kpi.calendarFrequency, userIds })
+  }
+
+  const kpiIds = Array.from(kpis.keys())
+  const earliestPeriod = format(addMonths(now, -13), "yyyy-MM-dd")
+  const values: { kpiId: string; periodDate: string }[] = await drizzle
+    .select({
+      kpiId: kpiValuesTable.kpiId,
+      periodDate: kpiValuesTable.periodDate
+    })
+    .from(kpiValuesTable)
+    .where(
+      and(
+        inArray(kpiValuesTable.kpiId, kpiIds),
+        gte(kpiValuesTable.periodDate, earliestPeriod),
+        isNotNull(kpiValuesTable.actualValue)
+      )
+    )
+  const periodsByKpi = new Map<string, Set<string>>()
+  for (const value of values) {
+    if (!periodsByKpi.has(value.kpiId)) {
+      periodsByKpi.set(value.kpiId, new Set())
+    }
+    periodsByKpi.get(value.kpiId)!.add(value.periodDate)
+  }
+
+  const names = await loadKpiNames(drizzle, kpiIds)
+  const fiscalYearStartMonth = await getFiscalYearStartMonth(drizzle)
+  const matches: AlertMatch[] = []
+  for (const [kpiId, { frequency, userIds }] of kpis) {
+    const due = getUpdateReminderDue(
+      frequency,
+      now,
+      details,
+      periodsByKpi.get(kpiId) ?? new Set(),
+      fiscalYearStartMonth
+    )
+    for (const item of due) {
+      matches.push({
+        kpiId,
+        kpiName: names.get(kpiId) ?? kpiId,
+        periodDate: item.periodDate,
+        detail: item.overdue
+          ? `Valor atrasado: el plazo venció el ${item.deadline}.`
+          : `Valor pendiente: el plazo vence el ${item.deadline}.`,
+        recipientUserIds: userIds
+      })
+    }
+  }
+  return matches
+}
+
+/**
+ * @function evaluateNoteReplyAlert
+ * @description 'Note Reply': respuestas a notas de valores de KPI (del KPI de la alerta, o de
+ * todos si no está vinculada) publicadas dentro de la ventana de evaluación por un usuario distinto
+ * del creador de la alerta. Además de los destinatarios de la alerta, se notifica a los
+ * participantes de la conversación y a los mencionados. Requiere que `enable_note_reply_alerts`
+ * esté habilitado.
+ */
+export async function evaluateNoteReplyAlert(
+  drizzle: any,
+  alert: SelectAlert,
+  windowStart: Date
+): Promise<AlertMatch[]> {
+  const [setting]: { settingValue: string }[] = await drizzle
+    .select({ settingValue: appSettingsTable.settingValue })
+    .from(appSettingsTable)
+    .where(eq(appSettingsTable.settingKey, NOTE_REPLY_ALERTS_SETTING_KEY))
+  if (setting?.settingValue !== "true") return []
+
+  const conditions = [
+    isNotNull(kpiNotesTable.parentNoteId),
+    gte(kpiNotesTable.createdAt, windowStart),
+    or(
+      isNull(kpiNotesTable.authorUserId),
+      ne(kpiNotesTable.authorUserId, alert.createdById)
+    )
+  ]
+  if (alert.kpiId) conditions.push(eq(kpiValuesTable.kpiId, alert.kpiId))
+
+  const replies: {
+    parentNoteId: string
+    authorUserId: string | null
+    authorEmail: string | null
+    content: string
+    mentionedUserIds: string[]
+    createdAt: Date
+    kpiId: string
+    periodDate: string
+  }[] = await drizzle
+    .select({
+      parentNoteId: kpiNotesTable.parentNoteId,
+      authorUserId: kpiNotesTable.authorUserId,
+      authorEmail: profilesTable.email,
+      content: kpiNotesTable.content,
+      mentionedUserIds: kpiNotesTable.mentionedUserIds,
+      createdAt: kpiNotesTable.createdAt,
+      kpiId: kpiValuesTable.kpiId,
+      periodDate: kpiValuesTable.periodDate
+    })
+    .from(kpiNotesTable)
+    .innerJoin(kpiValuesTable, eq(kpiNotesTable.kpiValueId, kpiValuesTable.id))
+    .leftJoin(
+      profilesTable,
+      eq(kpiNotesTable.authorUserId, profilesTable.userId)
+    )
+    .where(and(...conditions))
+  if (replies.length === 0) return []
+
+  const rootIds = Array.from(new Set(replies.map(reply => reply.parentNoteId)))
+  const threadNotes: {
+    id: string
+    parentNoteId: string | null
+    authorUserId: string | null
+    createdAt: Date
+  }[] = await drizzle
+    .select({
+      id: kpiNotesTable.id,
+      parentNoteId: kpiNotesTable.parentNoteId,
+      authorUserId: kpiNotesTable.authorUserId,
+      createdAt: kpiNotesTable.createdAt
+    })
+    .from(kpiNotesTable)
+    .where(
+      or(
+        inArray(kpiNotesTable.id, rootIds),
+        inArray(kpiNotesTable.parentNoteId, rootIds)
+      )
+    )
+
+  const names = await loadKpiNames(
+    drizzle,
+    Array.from(new Set(replies.map(reply => reply.kpiId)))
+  )
+  return replies.map(reply => ({
+    kpiId: reply.kpiId,
+    kpiName: names.get(reply.kpiId) ?? reply.kpiId,
+    periodDate: reply.periodDate,
+    detail: `Nueva respuesta${reply.authorEmail ? ` de ${reply.authorEmail}` : ""}: "${
+      reply.content.length > 200
+        ? `${reply.content.slice(0, 200)}…`
+        : reply.content
+    }"`,
+    recipientUserIds: getNoteReplyRecipientIds(
+      reply,
+      threadNotes.filter(
+        note =>
+          note.id === reply.parentNoteId ||
+          note.parentNoteId === reply.parentNoteId
+      )
+    )
+  }))
+}
+
+/**
+ * @function evaluateCustomKpiChangeAlert
+ * @description 'Custom KPI Change': el último valor del KPI, registrado o modificado dentro de la
+ * ventana de evaluación, cumple el umbral (o la variación respecto del período anterior) de
+ * `conditionDetails`.
+ */
+export async function evaluateCustomKpiChangeAlert(
+  drizzle: any,
+  alert: SelectAlert,
+  windowStart: Date
+): Promise<AlertMatch[]> {
+  if (!alert.kpiId || !alert.conditionDetails) return []
+  const details = alert.conditionDetails as CustomKpiChangeConditionDetails
+
+  const latest = await getLatestKpiValue(drizzle, alert.kpiId)
+  if (!latest || latest.updatedAt < windowStart) return []
+
+  let previous: { actualValue: string | null; score: string | null } | null =
+    null
+  if (details.comparison === "delta") {
+    const [kpi]: { calendarFrequency: KpiCalendarFrequency }[] = await drizzle
+      .select({ calendarFrequency: kpisTable.calendarFrequency })
+      .from(kpisTable)
+      .where(eq(kpisTable.id, alert.kpiId))
+    if (!kpi) return []
+    const [previousValue] = await drizzle
+      .select({
+        actualValue: kpiValuesTable.actualValue,
+        score: kpiValuesTable.score
+      })
+      .from(kpiValuesTable)
+      .where(
+        and(
+          eq(kpiValuesTable.kpiId, alert.kpiId),
+          eq(
+            kpiValuesTable.periodDate,
+            shiftPeriodDate(latest.periodDate, kpi.calendarFrequency, -1)
+          )
+        )
+      )
+    previous = previousValue ?? null
+  }
+
+  const observed = evaluateCustomCondition(details, latest, previous)
+  if (!observed) return []
+
+  const names = await loadKpiNames(drizzle, [alert.kpiId])
+  return [
+    {
+      kpiId: alert.kpiId,
+      kpiName: names.get(alert.kpiId) ?? alert.kpiId,
+      periodDate: latest.periodDate,
+      detail: `Condición cumplida: ${observed}.`
+    }
+  ]
+}
+
+/**
+ * @function evaluateAlert
+ * @description Evalúa una alerta con el evaluador correspondiente a su tipo.
+ * @param {any} drizzle - Instancia de Drizzle.
+ * @param {SelectAlert} alert - Alerta a evaluar.
+ * @param {Date} now - Momento de la ejecución (UTC).
+ * @returns {Promise<AlertEvaluationResult>} Si se disparó y los datos concretos que la dispararon.
+ */
+export async function evaluateAlert(
+  drizzle: any,
+  alert: SelectAlert,
+  now: Date
+): Promise<AlertEvaluationResult> {
+  const windowStart = getAlertEvaluationWindowStart(alert.frequencyConfig, now)
+  let matches: AlertMatch[] = []
+
+  switch (alert.alertType) {
+    case "Red KPI":
+      matches = await evaluateRedKpiAlert(drizzle, alert, windowStart)
+      break
+    case "Update Reminder":
+      matches = await evaluateUpdateReminderAlert(drizzle, alert, now)
+      break
+    case "Note Reply":
+      matches = await evaluateNoteReplyAlert(drizzle, alert, windowStart)
+      break
+    case "Custom KPI Change":
+      matches = await evaluateCustomKpiChangeAlert(drizzle, alert, windowStart)
+      break
+  }
+
+  logger.info(
+    `Alert ${alert.id} (${alert.alertType}) evaluated: ${matches.length} match(es).`
+  )
+  return { triggered: matches.length > 0, matches }
+}
+
+/**
+ * @function escapeHtml
+ * @description Escapa los caracteres especiales de HTML de un texto.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * @function buildAlertEmail
+ * @description Compone el correo de una alerta disparada con la lista de KPIs y períodos afectados.
+ * @param {SelectAlert} alert - Alerta disparada.
+ * @param {AlertMatch[]} matches - Datos que la dispararon.
+ * @returns {{ subject: string; text: string; html: string }} Contenido del correo.
+ */
+export function buildAlertEmail(
+  alert: SelectAlert,
+  matches: AlertMatch[]
+): { subject: string; text: string; html: string } {
+  const subject = `DeltaOne: alerta '${alert.alertType}' (${matches.length} ${
+    matches.length === 1 ? "KPI" : "KPIs"
+  })`
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? ""
+
+  const textLines = matches.map(
+    match => `- ${match.kpiName} [${match.periodDate}]: ${match.detail}`
+  )
+  const text = `Hola,\n\nSe disparó la alerta '${alert.alertType}' de DeltaOne:\n\n${textLines.join("\n")}\n\n${
+    appUrl ? `Más detalles en ${appUrl}\n\n` : ""
+  }Equipo DeltaOne`
+
+  const rows = matches
+    .map(
+      match =>
+        `<tr><td>${escapeHtml(match.kpiName)}</td><td>${match.periodDate}</td><td>${escapeHtml(match.detail)}</td></tr>`
+    )
+    .join("")
+  const html = `
+    <p>Hola,</p>
+    <p>Se disparó la alerta '<strong>${escapeHtml(alert.alertType)}</strong>' de DeltaOne:</p>
+    <table cellpadding="6" border="1" style="border-collapse: collapse">
+      <thead><tr><th>KPI</th><th>Período</th><th>Detalle</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+    ${appUrl ? `<p>Más detalles en <a href="${appUrl}">DeltaOne</a>.</p>` : ""}
+    <p>Equipo DeltaOne</p>
+  `
+
+  return { subject, text, html }
+}
@@ -0,0 +1,145 @@
+/**
+ * @file lib/alert-events.ts
+ * @brief Historial de alertas disparadas: supresión de duplicados y registro de entregas.
+ * @description Este módulo filtra los hechos ya notificados por una alerta dentro de la ventana de
+ * su frecuencia (ver `getAlertDedupeWindowStart`) y registra en `alert_events` cada KPI y período
+ * notificado, con su canal, estado de entrega y destinatarios (`alert_event_recipients`), que
+ * luego consultan los usuarios en la página /alerts.
+ */
+
+import {
+  SelectAlert,
+  alertEventRecipientsTable,
+  alertEventsTable
+} from "@/db/schema"
+import { getLogger } from "@/lib/logger"
+import {
+  buildAlertDedupeKey,
+  getAlertDedupeWindowStart
+} from "@/lib/alert-evaluation"
+import { AlertDeliveryMode, AlertMatch } from "@/types"
+import { and, eq, gte, inArray } from "drizzle-orm"
+
+const logger = getLogger("alert-events")
+
+/**
+ * @interface AlertRecipient
+ * @description Usuario destinatario de una alerta, su correo (si lo tiene) y su modo de entrega.
+ */
+export interface AlertRecipient {
+  userId: string
+  email: string | null
+  alertDeliveryMode: AlertDeliveryMode
+}
+
+/**
+ * @interface AlertDelivery
+ * @description Resultado de la entrega de la notificación de una alerta.
+ */
+export interface AlertDelivery {
+  channel: "email" | "in_app"
+  status: "sent" | "failed" | "queued" | "skipped"
+  error?: string | null
+}
+
+/**
+ * @function filterNewAlertMatches
+ * @description Descarta los hechos que la alerta ya notificó dentro de su ventana de supresión.
+ * Los envíos fallidos no suprimen, para que se reintenten en la siguiente ejecución.
+ * @param {any} drizzle - Instancia de Drizzle.
+ * @param {SelectAlert} alert - Alerta evaluada.
+ * @param {AlertMatch[]} matches - Hechos que cumplen la condición.
+ * @param {Date} now - Momento de la ejecución (UTC).
+ * @returns {Promise<AlertMatch[]>} Hechos aún no notificados.
+ */
+export async function filterNewAlertMatches(
+  drizzle: any,
+  alert: SelectAlert,
+  matches: AlertMatch[],
+  now: Date
+): Promise<AlertMatch[]> {
+  if (matches.length === 0) return []
+
+  const keys = Array.from(new Set(matches.map(buildAlertDedupeKey)))
+  const windowStart = getAlertDedupeWindowStart(alert.frequencyConfig, now)
+  const conditions = [
+    eq(alertEventsTable.alertId, alert.id),
+    inArray(alertEventsTable.dedupeKey, keys),
+    inArray(alertEventsTable.deliveryStatus, ["sent", "queued", "skipped"])
+  ]
+  if (windowStart) conditions.push(gte(alertEventsTable.createdAt, windowStart))
+
+  const previous: { dedupeKey: string }[] = await drizzle
+    .select({ dedupeKey: alertEventsTable.dedupeKey })
+    .from(alertEventsTable)
+    .where(and(...conditions))
+  const notified = new Set(previous.map(event => event.dedupeKey))
+
+  const seen = new Set<string>()
+  const fresh = matches.filter(match => {
+    const key = buildAlertDedupeKey(match)
+    if (notified.has(key) || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+
+  if (fresh.length < matches.length) {
+    logger.info(
+      `Alert ${alert.id}: suppressed ${matches.length - fresh.length} duplicate match(es).`
+    )
+  }
+  return fresh
+}
+
+/**
+ * @function recordAlertEvents
+ * @description Registra un evento por cada hecho notificado, junto con sus destinatarios.
+ * @param {any} drizzle - Instancia de Drizzle.
+ * @param {SelectAlert} alert - Alerta disparada.
+ * @param {AlertMatch[]} matches - Hechos notificados.
+ * @param {AlertRecipient[]} recipients - Destinatarios de la notificación.
+ * @param {AlertDelivery} delivery - Canal y estado de entrega.
+ * @returns {Promise<string[]>} IDs de los eventos creados.
+ */
+export async function recordAlertEvents(
+  drizzle: any,
+  alert: SelectAlert,
+  matches: AlertMatch[],
+  recipients: AlertRecipient[],
+  delivery: AlertDelivery
+): Promise<string[]> {
+  if (matches.length === 0) return []
+
+  const events: { id: string }[] = await drizzle
+    .insert(alertEventsTable)
+    .values(
+      matches.map(match => ({
+        alertId: alert.id,
+        alertType: alert.alertType,
+        kpiId: match.kpiId,
+        kpiName: match.kpiName,
+        periodDate: match.periodDate,
+        detail: match.detail,
+        dedupeKey: buildAlertDedupeKey(match),
+        channel: delivery.channel,
+        deliveryStatus: delivery.status,
+        deliveryError: delivery.error ?? null
+      }))
+    )
+    .returning({ id: alertEventsTable.id })
+
+  if (recipients.length > 0) {
+    await drizzle.insert(alertEventRecipientsTable).values(
+      events.flatMap(event =>
+        recipients.map(recipient => ({
+          eventId: event.id,
+          userId: recipient.userId,
+          email: recipient.email,
+          deliveryMode: recipient.alertDeliveryMode
+        }))
+      )
+    )
+  }
+
+  return events.map(event => event.id)
+}
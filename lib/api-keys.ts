@@ -0,0 +1,220 @@
+/**
+ * @file lib/api-keys.ts
+ * @brief Claves de API e idempotencia de la ingesta de valores de KPI.
+ * @description Genera las claves con las que los procesos externos envían valores a
+ * `POST /api/kpi-values` y las autentica a partir de las cabeceras de la solicitud. De cada clave
+ * solo se guarda su hash SHA-256; la clave completa se muestra una única vez al crearla. Cada clave
+ * está limitada a una organización y, opcionalmente, a sus descendientes. También registra las
+ * solicitudes enviadas con una cabecera `Idempotency-Key`, para que un reenvío devuelva la misma
+ * respuesta sin volver a escribir los valores.
+ */
+
+import crypto from "crypto"
+import {
+  SelectApiIngestionRequest,
+  SelectApiKey,
+  apiIngestionRequestsTable,
+  apiKeysTable
+} from "@/db/schema"
+import { getDescendantOrganizations } from "@/lib/organization-utils"
+import { and, eq } from "drizzle-orm"
+
+/** Prefijo de todas las claves emitidas, para reconocerlas en la configuración de los clientes. */
+const API_KEY_PREFIX = "dok_"
+
+/** Caracteres de la clave que se guardan en claro para identificarla en la interfaz. */
+const VISIBLE_PREFIX_LENGTH = 12
+
+/**
+ * @constant IDEMPOTENCY_KEY_MAX_LENGTH
+ * @description Longitud máxima de la cabecera `Idempotency-Key`.
+ */
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255
+
+/**
+ * @function hashApiKey
+ * @description Hash SHA-256 (hexadecimal) de una clave o de un cuerpo de solicitud.
+ */
+export function hashApiKey(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex")
+}
+
+/**
+ * @function generateApiKey
+ * @description Genera una clave de API aleatoria.
+ * @returns {{ secret: string; keyPrefix: string; keyHash: string }} La clave completa (solo se
+ * muestra al crearla), su prefijo visible y el hash que se guarda.
+ */
+export function generateApiKey(): {
+  secret: string
+  keyPrefix: string
+  keyHash: string
+} {
+  const secret = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`
+  return {
+    secret,
+    keyPrefix: secret.slice(0, VISIBLE_PREFIX_LENGTH),
+    keyHash: hashApiKey(secret)
+  }
+}
+
+/**
+ * @function readApiKeyFromHeaders
+ * @description Lee la clave de la cabecera `Authorization: Bearer <clave>` o `X-Api-Key`.
+ * @returns {string | null} La clave, o null si no se envió.
+ */
+export function readApiKeyFromHeaders(headers: Headers): string | null {
+  const authorization = headers.get("authorization")
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim())
+    if (match) return match[1].trim()
+  }
+  const apiKey = headers.get("x-api-key")
+  return apiKey && apiKey.trim() ? apiKey.trim() : null
+}
+
+/**
+ * @function authenticateApiKey
+ * @description Busca la clave por su hash y comprueba que no esté revocada ni vencida. Si es
+ * válida, registra su último uso.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} secret - Clave enviada por el cliente.
+ * @param {Date} [now] - Fecha de referencia.
+ * @returns {Promise<SelectApiKey | null>} La clave, o null si no es válida.
+ */
+export async function authenticateApiKey(
+  drizzle: any,
+  secret: string,
+  now: Date = new Date()
+): Promise<SelectApiKey | null> {
+  if (!secret.startsWith(API_KEY_PREFIX)) return null
+  const [apiKey]: SelectApiKey[] = await drizzle
+    .select()
+    .from(apiKeysTable)
+    .where(eq(apiKeysTable.keyHash, hashApiKey(secret)))
+    .limit(1)
+  if (!apiKey || apiKey.revokedAt) return null
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= now.getTime()) {
+    return null
+  }
+
+  await drizzle
+    .update(apiKeysTable)
+    .set({ lastUsedAt: now })
+    .where(eq(apiKeysTable.id, apiKey.id))
+  return apiKey
+}
+
+/**
+ * @function getApiKeyOrganizationIds
+ * @description Organizaciones a las que la clave puede enviar valores: la suya y, si la clave lo
+ * permite, todas sus descendientes.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {Pick<SelectApiKey, "organizationId" | "includeDescendants">} apiKey - La clave.
+ * @returns {Promise<string[]>} IDs de las organizaciones permitidas.
+ */
+export async function getApiKeyOrganizationIds(
+  drizzle: any,
+  apiKey: Pick<SelectApiKey, "organizationId" | "includeDescendants">
+): Promise<string[]> {
+  if (!apiKey.includeDescendants) return [apiKey.organizationId]
+  return [
+    apiKey.organizationId,
+    ...(await getDescendantOrganizations(drizzle, apiKey.organizationId))
+  ]
+}
+
+/**
+ * @typedef IdempotentRequestState
+ * @description Estado de una solicitud con clave de idempotencia: nueva (se reservó la clave),
+ * repetida (se devuelve la respuesta guardada), en curso o reutilizada con otro cuerpo.
+ */
+export type IdempotentRequestState =
+  | { status: "new"; requestId: string }
+  | { status: "replay"; statusCode: number; responseBody: unknown }
+  | { status: "in_progress" }
+  | { status: "conflict" }
+
+/**
+ * @function beginIdempotentRequest
+ * @description Reserva la clave de idempotencia para la clave de API. Si ya existe, devuelve la
+ * respuesta guardada cuando el cuerpo es el mismo, o informa del conflicto si es otro.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} apiKeyId - Clave de API que envía la solicitud.
+ * @param {string} idempotencyKey - Valor de la cabecera `Idempotency-Key`.
+ * @param {string} requestHash - Hash del cuerpo de la solicitud.
+ * @returns {Promise<IdempotentRequestState>} El estado de la solicitud.
+ */
+export async function beginIdempotentRequest(
+  drizzle: any,
+  apiKeyId: string,
+  idempotencyKey: string,
+  requestHash: string
+): Promise<IdempotentRequestState> {
+  const [reserved]: { id: string }[] = await drizzle
+    .insert(apiIngestionRequestsTable)
+    .values({ apiKeyId, idempotencyKey, requestHash })
+    .onConflictDoNothing({
+      target: [
+        apiIngestionRequestsTable.apiKeyId,
+        apiIngestionRequestsTable.idempotencyKey
+      ]
+    })
+    .returning({ id: apiIngestionRequestsTable.id })
+  if (reserved) return { status: "new", requestId: reserved.id }
+
+  const [existing]: SelectApiIngestionRequest[] = await drizzle
+    .select()
+    .from(apiIngestionRequestsTable)
+    .where(
+      and(
+        eq(apiIngestionRequestsTable.apiKeyId, apiKeyId),
+        eq(apiIngestionRequestsTable.idempotencyKey, idempotencyKey)
+      )
+    )
+    .limit(1)
+  // La reserva se liberó entre ambas consultas (la solicitud anterior falló): se considera en curso
+  if (!existing) return { status: "in_progress" }
+  if (existing.requestHash !== requestHash) return { status: "conflict" }
+  if (existing.statusCode === null) return { status: "in_progress" }
+  return {
+    status: "replay",
+    statusCode: existing.statusCode,
+    responseBody: existing.responseBody
+  }
+}
+
+/**
+ * @function completeIdempotentRequest
+ * @description Guarda la respuesta de una solicitud reservada, para devolverla en los reenvíos.
+ */
+export async function completeIdempotentRequest(
+  drizzle: any,
+  requestId: string,
+  statusCode: number,
+  responseBody: unknown
+): Promise<void> {
+  await drizzle
+    .update(apiIngestionRequestsTable)
+    .set({
+      statusCode,
+      responseBody,
+      completedAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(eq(apiIngestionRequestsTable.id, requestId))
+}
+
+/**
+ * @function releaseIdempotentRequest
+ * @description Libera la reserva de una solicitud que falló sin respuesta, para que el cliente
+ * pueda reintentarla con la misma clave de idempotencia.
+ */
+export async function releaseIdempotentRequest(
+  drizzle: any,
+  requestId: string
+): Promise<void> {
+  await drizzle
+    .delete(apiIngestionRequestsTable)
+    .where(eq(apiIngestionRequestsTable.id, requestId))
+}
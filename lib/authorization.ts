@@ -0,0 +1,398 @@
+/**
+ * @file lib/authorization.ts
+ * @brief Autorización de las Server Actions según los permisos de los grupos del usuario.
+ * @description Resuelve los grupos a los que pertenece el usuario, con su tipo, y sus filas de
+ * `group_permissions`, globales o por organización, y los consolida en un `UserPermissionsMap` con
+ * los permisos efectivos (ver `lib/effective-permissions.ts`: solo lectura, fila explícita y permiso
+ * por defecto del tipo de grupo). La comprobación sigue el mismo criterio que `makeHasPermission`:
+ * primero el permiso de la organización y, si no existe, el permiso global. Todas las Server Actions que
+ * modifican datos llaman a `requirePermission` después de validar la entrada y antes de escribir.
+ * Las Server Actions de lectura filtran las organizaciones, elementos del Scorecard, KPIs y valores
+ * con `loadOrganizationVisibility`. Mientras ningún usuario pertenezca a un grupo, los permisos de
+ * gestión de grupos y de lectura se conceden a cualquier usuario autenticado, para poder configurar
+ * el primer grupo de administradores. Un perfil desactivado no tiene ningún permiso ni ve ninguna
+ * organización, aunque siga perteneciendo a sus grupos.
+ */
+
+import {
+  groupMembersTable,
+  groupPermissionsTable,
+  groupsTable,
+  kpiValuesTable,
+  kpisTable,
+  profilesTable,
+  scorecardElementsTable
+} from "@/db/schema"
+import {
+  GroupPermissionRow,
+  PermissionGroup,
+  buildEffectivePermissionsMap,
+  explainUserPermissions
+} from "@/lib/effective-permissions"
+import { getLogger } from "@/lib/logger"
+import {
+  EffectivePermissionExplanation,
+  PermissionKey,
+  UserPermissionsMap,
+  makeHasPermission
+} from "@/types/permissions-types"
+import { eq, inArray } from "drizzle-orm"
+
+const logger = getLogger("authorization")
+
+/**
+ * @constant PERMISSION_DENIED_MESSAGES
+ * @description Mensaje que recibe el usuario cuando le falta cada permiso.
+ */
+export const PERMISSION_DENIED_MESSAGES: Record<PermissionKey, string> = {
+  "user:manage": "No tiene permisos para gestionar usuarios.",
+  "group:manage": "No tiene permisos para gestionar grupos.",
+  "group:assign_members":
+    "No tiene permisos para asignar miembros a los grupos.",
+  "group:assign_permissions":
+    "No tiene permisos para asignar permisos a los grupos.",
+  "organization:manage": "No tiene permisos para gestionar organizaciones.",
+  "kpi:manage": "No tiene permisos para gestionar KPIs.",
+  "scorecard_element:manage":
+    "No tiene permisos para gestionar elementos del Scorecard.",
+  "import:manage_connections":
+    "No tiene permisos para gestionar conexiones de importación.",
+  "import:manage_saved_imports":
+    "No tiene permisos para gestionar importaciones.",
+  "alert:manage": "No tiene permisos para gestionar alertas.",
+  "app_settings:manage":
+    "No tiene permisos para cambiar la configuración de la aplicación.",
+  "kpi_value:update": "No tiene permisos para actualizar valores de KPI.",
+  "kpi_note:create": "No tiene permisos para publicar notas.",
+  "organization:view": "No tiene permisos para ver esta organización."
+}
+
+/** Mensaje que recibe un usuario cuyo perfil está desactivado. */
+export const INACTIVE_PROFILE_MESSAGE =
+  "Su usuario está desactivado. Contacte a un administrador."
+
+/** Permisos que se conceden mientras ningún usuario pertenece a un grupo (configuración inicial). */
+export const BOOTSTRAP_PERMISSION_KEYS: PermissionKey[] = [
+  "group:manage",
+  "group:assign_members",
+  "group:assign_permissions",
+  "organization:view"
+]
+
+/**
+ * @function loadUserPermissionGrants
+ * @description Carga los grupos del usuario (con su tipo) y todas sus filas de `group_permissions`.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario.
+ * @returns {Promise<{ groups: PermissionGroup[]; rows: GroupPermissionRow[] }>} Grupos y filas.
+ */
+async function loadUserPermissionGrants(
+  drizzle: any,
+  userId: string
+): Promise<{ groups: PermissionGroup[]; rows: GroupPermissionRow[] }> {
+  const groups: PermissionGroup[] = await drizzle
+    .select({
+      id: groupsTable.id,
+      name: groupsTable.name,
+      groupType: groupsTable.groupType
+    })
+    .from(groupMembersTable)
+    .innerJoin(groupsTable, eq(groupMembersTable.groupId, groupsTable.id))
+    .where(eq(groupMembersTable.userId, userId))
+  if (groups.length === 0) return { groups, rows: [] }
+
+  const rows: GroupPermissionRow[] = await drizzle
+    .select({
+      groupId: groupPermissionsTable.groupId,
+      permissionKey: groupPermissionsTable.permissionKey,
+      permissionValue: groupPermissionsTable.permissionValue,
+      organizationId: groupPermissionsTable.organizationId
+    })
+    .from(groupPermissionsTable)
+    .where(
+      inArray(
+        groupPermissionsTable.groupId,
+        groups.map(g => g.id)
+      )
+    )
+  return { groups, rows }
+}
+
+/**
+ * @function loadUserPermissionsMap
+ * @description Carga los permisos efectivos del usuario, por organización y globales,
+ * consolidados en un `UserPermissionsMap`.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario.
+ * @returns {Promise<UserPermissionsMap>} El mapa de permisos (vacío si no pertenece a ningún grupo).
+ */
+export async function loadUserPermissionsMap(
+  drizzle: any,
+  userId: string
+): Promise<UserPermissionsMap> {
+  const { groups, rows } = await loadUserPermissionGrants(drizzle, userId)
+  if (groups.length === 0) return {}
+  return buildEffectivePermissionsMap(groups, rows)
+}
+
+/**
+ * @function explainUserEffectivePermissions
+ * @description Explica cada permiso efectivo del usuario en una organización (o globales): si lo
+ * tiene y qué regla y qué grupo lo concedieron o denegaron.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario.
+ * @param {string | null} [organizationId] - Organización consultada (null = global).
+ * @returns {Promise<EffectivePermissionExplanation[]>} Un elemento por cada permiso.
+ */
+export async function explainUserEffectivePermissions(
+  drizzle: any,
+  userId: string,
+  organizationId: string | null = null
+): Promise<EffectivePermissionExplanation[]> {
+  const { groups, rows } = await loadUserPermissionGrants(drizzle, userId)
+  const explanations = explainUserPermissions(groups, rows, organizationId)
+  const bootstrapOpen =
+    explanations.some(
+      e =>
+        !e.granted && BOOTSTRAP_PERMISSION_KEYS.includes(e.key as PermissionKey)
+    ) && (await isPermissionBootstrapOpen(drizzle))
+  if (!bootstrapOpen) return explanations
+  return explanations.map(e =>
+    !e.granted && BOOTSTRAP_PERMISSION_KEYS.includes(e.key as PermissionKey)
+      ? { ...e, granted: true, rule: "bootstrap" }
+      : e
+  )
+}
+
+/**
+ * @function isPermissionBootstrapOpen
+ * @description Indica si aún no hay ningún miembro en ningún grupo (instalación sin configurar).
+ */
+export async function isPermissionBootstrapOpen(
+  drizzle: any
+): Promise<boolean> {
+  const members: unknown[] = await drizzle
+    .select({ userId: groupMembersTable.userId })
+    .from(groupMembersTable)
+    .limit(1)
+  return members.length === 0
+}
+
+/**
+ * @function isUserProfileActive
+ * @description Indica si el perfil del usuario está activo. Un usuario sin perfil cuenta como
+ * activo: el layout de `(main)` se lo crea al primer acceso.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario.
+ * @returns {Promise<boolean>} Falso si el perfil está desactivado.
+ */
+export async function isUserProfileActive(
+  drizzle: any,
+  userId: string
+): Promise<boolean> {
+  const [profile]: { isActive: boolean }[] = await drizzle
+    .select({ isActive: profilesTable.isActive })
+    .from(profilesTable)
+    .where(eq(profilesTable.userId, userId))
+    .limit(1)
+  return !profile || profile.isActive
+}
+
+/** Comprueba el permiso de un usuario cuyo perfil ya se sabe activo. */
+async function hasActiveUserPermission(
+  drizzle: any,
+  userId: string,
+  key: PermissionKey,
+  organizationId: string | null
+): Promise<boolean> {
+  const permissions = await loadUserPermissionsMap(drizzle, userId)
+  if (makeHasPermission(permissions)(key, organizationId)) return true
+  return (
+    BOOTSTRAP_PERMISSION_KEYS.includes(key) &&
+    (await isPermissionBootstrapOpen(drizzle))
+  )
+}
+
+/**
+ * @function hasUserPermission
+ * @description Comprueba si el usuario tiene el permiso en la organización indicada (o global),
+ * con el mismo criterio que `makeHasPermission`. Un perfil desactivado no tiene ningún permiso.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario.
+ * @param {PermissionKey} key - El permiso.
+ * @param {string | null} [organizationId] - Organización sobre la que se actúa (null = global).
+ * @returns {Promise<boolean>} Verdadero si tiene el permiso.
+ */
+export async function hasUserPermission(
+  drizzle: any,
+  userId: string,
+  key: PermissionKey,
+  organizationId: string | null = null
+): Promise<boolean> {
+  if (!(await isUserProfileActive(drizzle, userId))) return false
+  return hasActiveUserPermission(drizzle, userId, key, organizationId)
+}
+
+/**
+ * @function loadPermissionCheck
+ * @description Carga una sola vez los permisos del usuario y devuelve una función que indica, con el
+ * mismo criterio que `requirePermission`, si tiene el permiso en cada organización (o global). Las
+ * Server Actions de lectura la usan para filtrar listados de varias organizaciones.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario.
+ * @param {PermissionKey} key - El permiso.
+ * @returns {Promise<(organizationId: string | null) => boolean>} Indica si tiene el permiso.
+ */
+export async function loadPermissionCheck(
+  drizzle: any,
+  userId: string,
+  key: PermissionKey
+): Promise<(organizationId: string | null) => boolean> {
+  if (!(await isUserProfileActive(drizzle, userId))) return () => false
+  const hasPermission = makeHasPermission(
+    await loadUserPermissionsMap(drizzle, userId)
+  )
+  const bootstrapOpen =
+    BOOTSTRAP_PERMISSION_KEYS.includes(key) &&
+    (await isPermissionBootstrapOpen(drizzle))
+  return organizationId => bootstrapOpen || hasPermission(key, organizationId)
+}
+
+/**
+ * @function requirePermission
+ * @description Guarda de autorización de las Server Actions. Devuelve el estado de fracaso que la
+ * acción debe retornar si el usuario no tiene el permiso, o null si puede continuar. Rechaza a los
+ * perfiles desactivados aunque la petición no haya pasado por el middleware.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario autenticado.
+ * @param {PermissionKey} key - El permiso requerido.
+ * @param {string | null} [organizationId] - Organización sobre la que se actúa (null = global).
+ * @returns {Promise<{ isSuccess: false; message: string } | null>} El rechazo, o null si está autorizado.
+ */
+export async function requirePermission(
+  drizzle: any,
+  userId: string,
+  key: PermissionKey,
+  organizationId: string | null = null
+): Promise<{ isSuccess: false; message: string } | null> {
+  if (!(await isUserProfileActive(drizzle, userId))) {
+    logger.warn(`Inactive user ${userId} denied '${key}'.`)
+    return { isSuccess: false, message: INACTIVE_PROFILE_MESSAGE }
+  }
+  if (await hasActiveUserPermission(drizzle, userId, key, organizationId)) {
+    return null
+  }
+  logger.warn(
+    `User ${userId} denied '${key}'${organizationId ? ` on organization ${organizationId}` : ""}.`
+  )
+  return { isSuccess: false, message: PERMISSION_DENIED_MESSAGES[key] }
+}
+
+/**
+ * @function loadOrganizationVisibility
+ * @description Resuelve qué organizaciones puede ver el usuario: aquellas en las que tiene
+ * `organization:view` (con el mismo criterio que `makeHasPermission`) o algún otro permiso concedido
+ * para esa organización, como los asignados a un árbol de organizaciones con los permisos de rollup.
+ * Un perfil desactivado no ve ninguna organización.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario.
+ * @returns {Promise<(organizationId: string) => boolean>} Indica si el usuario ve una organización.
+ */
+export async function loadOrganizationVisibility(
+  drizzle: any,
+  userId: string
+): Promise<(organizationId: string) => boolean> {
+  if (!(await isUserProfileActive(drizzle, userId))) return () => false
+  const permissions = await loadUserPermissionsMap(drizzle, userId)
+  if (Object.keys(permissions).length === 0) {
+    const bootstrapOpen = await isPermissionBootstrapOpen(drizzle)
+    return () => bootstrapOpen
+  }
+  const hasPermission = makeHasPermission(permissions)
+  return organizationId =>
+    hasPermission("organization:view", organizationId) ||
+    Object.values(permissions).some(scopes => scopes[organizationId] === true)
+}
+
+/**
+ * @function requireOrganizationVisibility
+ * @description Guarda de las Server Actions de lectura sobre una organización. Devuelve el estado de
+ * fracaso que la acción debe retornar si el usuario no ve la organización, o null si puede continuar.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario autenticado.
+ * @param {string} organizationId - La organización consultada.
+ * @returns {Promise<{ isSuccess: false; message: string } | null>} El rechazo, o null si está autorizado.
+ */
+export async function requireOrganizationVisibility(
+  drizzle: any,
+  userId: string,
+  organizationId: string
+): Promise<{ isSuccess: false; message: string } | null> {
+  const canView = await loadOrganizationVisibility(drizzle, userId)
+  if (canView(organizationId)) return null
+  logger.warn(`User ${userId} denied reading organization ${organizationId}.`)
+  return {
+    isSuccess: false,
+    message: PERMISSION_DENIED_MESSAGES["organization:view"]
+  }
+}
+
+/**
+ * @function getScorecardElementOrganizationId
+ * @description Organización a la que pertenece un elemento del Scorecard, para acotar el permiso.
+ * @returns {Promise<string | null>} El ID de la organización, o null si el elemento no existe.
+ */
+export async function getScorecardElementOrganizationId(
+  drizzle: any,
+  scorecardElementId: string
+): Promise<string | null> {
+  const [element]: { organizationId: string }[] = await drizzle
+    .select({ organizationId: scorecardElementsTable.organizationId })
+    .from(scorecardElementsTable)
+    .where(eq(scorecardElementsTable.id, scorecardElementId))
+    .limit(1)
+  return element?.organizationId ?? null
+}
+
+/**
+ * @function getKpiOrganizationId
+ * @description Organización a la que pertenece un KPI (la de su elemento del Scorecard).
+ * @returns {Promise<string | null>} El ID de la organización, o null si el KPI no existe.
+ */
+export async function getKpiOrganizationId(
+  drizzle: any,
+  kpiId: string
+): Promise<string | null> {
+  const [kpi]: { organizationId: string }[] = await drizzle
+    .select({ organizationId: scorecardElementsTable.organizationId })
+    .from(kpisTable)
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(eq(kpisTable.id, kpiId))
+    .limit(1)
+  return kpi?.organizationId ?? null
+}
+
+/**
+ * @function getKpiValueOrganizationId
+ * @description Organización a la que pertenece un valor de KPI (la del elemento de su KPI).
+ * @returns {Promise<string | null>} El ID de la organización, o null si el valor no existe.
+ */
+export async function getKpiValueOrganizationId(
+  drizzle: any,
+  kpiValueId: string
+): Promise<string | null> {
+  const [element]: { organizationId: string }[] = await drizzle
+    .select({ organizationId: scorecardElementsTable.organizationId })
+    .from(kpiValuesTable)
+    .innerJoin(kpisTable, eq(kpiValuesTable.kpiId, kpisTable.id))
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(eq(kpiValuesTable.id, kpiValueId))
+    .limit(1)
+  return element?.organizationId ?? null
+}
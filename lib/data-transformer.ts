@@ -3,11 +3,26 @@
  * @brief Implementa la lógica para aplicar transformaciones a los datos durante el proceso de importación.
  * @description Este módulo contiene funciones que toman un conjunto de datos y un array de reglas
  * de transformación, aplicando cada regla secuencialmente para limpiar, filtrar o reformatear
- * los datos antes de su carga en los KPIs de DeltaOne.
+ * los datos antes de su carga en los KPIs de DeltaOne: filtros, reemplazos con expresiones
+ * regulares, valores por defecto, conversión de tipos, renombrado de columnas, columnas derivadas,
+ * tablas de equivalencias, escalado de unidades, recorte de espacios, normalización de mayúsculas,
+ * lectura de fechas con formato explícito y conversión de columnas anchas en filas (unpivot).
  */
 
-import { TransformationRule, TransformationType } from "@/types/import-types" // Se importan los tipos de reglas de transformación
+import {
+  TRANSFORMATION_TYPE_LABELS,
+  TransformationRule,
+  TransformationRuleOf
+} from "@/types/import-types" // Se importan los tipos de reglas de transformación
 import { getLogger } from "@/lib/logger" // Se importa el logger para registrar eventos
+import {
+  evaluateFilterExpression,
+  evaluateValueExpression,
+  formatFilterExpressionError,
+  parseFilterExpression,
+  parseValueExpression
+} from "@/lib/filter-expression" // Se importa el evaluador seguro de condiciones y expresiones
+import { format as formatDate, isValid, parse as parseDate } from "date-fns"
 
 const logger = getLogger("data-transformer")
 
@@ -41,6 +56,46 @@ export function applyTransformations(
   return transformedData
 }
 
+/**
+ * @function validateTransformationRules
+ * @description Valida los parámetros de las reglas que no se pueden comprobar con el esquema Zod
+ * (la sintaxis de las condiciones de filtro y de las expresiones de columnas derivadas, y los
+ * formatos de fecha), para rechazarlas al guardar la importación.
+ * @param {TransformationRule[]} rules - Las reglas de transformación a validar.
+ * @returns {string | null} El mensaje del primer error encontrado o null si todas son válidas.
+ */
+export function validateTransformationRules(
+  rules: TransformationRule[]
+): string | null {
+  for (const [index, rule] of rules.entries()) {
+    const prefix = `Transformación ${index + 1} (${TRANSFORMATION_TYPE_LABELS[rule.type]} en "${rule.field}")`
+    switch (rule.type) {
+      case "filter": {
+        const parsed = parseFilterExpression(rule.parameters.condition)
+        if (!parsed.isSuccess) {
+          return `${prefix}: ${formatFilterExpressionError(parsed.error)}`
+        }
+        break
+      }
+      case "derived_column": {
+        const parsed = parseValueExpression(rule.parameters.expression)
+        if (!parsed.isSuccess) {
+          return `${prefix}: ${formatFilterExpressionError(parsed.error)}`
+        }
+        break
+      }
+      case "date_parse":
+        try {
+          formatDate(new Date(2024, 0, 31), rule.parameters.format)
+        } catch {
+          return `${prefix}: formato de fecha inválido "${rule.parameters.format}".`
+        }
+        break
+    }
+  }
+  return null
+}
+
 /**
  * @function applySingleTransformation
  * @description Aplica una única regla de transformación a un conjunto de datos.
@@ -52,21 +107,37 @@ function applySingleTransformation(
   data: DataRow[],
   rule: TransformationRule
 ): DataRow[] {
-  const { type, field, parameters } = rule
+  const { field } = rule
 
-  switch (type) {
+  switch (rule.type) {
     case "filter":
-      return applyFilterTransformation(data, field, parameters)
+      return applyFilterTransformation(data, field, rule.parameters)
     case "regex_replace":
-      return applyRegexReplaceTransformation(data, field, parameters)
+      return applyRegexReplaceTransformation(data, field, rule.parameters)
     case "set_default":
-      return applySetDefaultTransformation(data, field, parameters)
+      return applySetDefaultTransformation(data, field, rule.parameters)
     case "data_type_conversion":
-      return applyDataTypeConversionTransformation(data, field, parameters)
+      return applyDataTypeConversionTransformation(data, field, rule.parameters)
+    case "rename":
+      return applyRenameTransformation(data, field, rule.parameters)
+    case "derived_column":
+      return applyDerivedColumnTransformation(data, field, rule.parameters)
+    case "value_mapping":
+      return applyValueMappingTransformation(data, field, rule.parameters)
+    case "unit_scaling":
+      return applyUnitScalingTransformation(data, field, rule.parameters)
+    case "trim":
+      return applyTrimTransformation(data, field, rule.parameters)
+    case "case_normalization":
+      return applyCaseNormalizationTransformation(data, field, rule.parameters)
+    case "date_parse":
+      return applyDateParseTransformation(data, field, rule.parameters)
+    case "unpivot":
+      return applyUnpivotTransformation(data, field, rule.parameters)
     default:
       // Si el tipo de transformación es desconocido, se registra una advertencia y se devuelven los datos sin modificar.
       logger.warn(
-        `Tipo de transformación desconocido: '${type}' para el campo '${field}'. La regla será omitida.`
+        `Tipo de transformación desconocido: '${(rule as TransformationRule).type}' para el campo '${field}'. La regla será omitida.`
       )
       return data
   }
@@ -74,15 +145,13 @@ function applySingleTransformation(
 
 /**
  * @function applyFilterTransformation
- * @description Aplica una transformación de filtro a los datos.
- * @WARNING La evaluación dinámica de cadenas de condición puede ser un riesgo de seguridad (ej. inyección de código).
- * En una implementación de producción, se recomienda usar un parser de expresiones seguro
- * (ej. una librería de evaluación de expresiones o una estructura de condición más controlada)
- * en lugar de `eval()`.
+ * @description Aplica una transformación de filtro a los datos: conserva las filas que cumplen la
+ * condición, evaluada con el lenguaje de expresiones seguro de `lib/filter-expression.ts` (sin `eval`).
  * @param {DataRow[]} data - Los datos a filtrar.
- * @param {string} field - El campo al que se aplica el filtro.
+ * @param {string} field - El campo al que se aplica el filtro (referenciado como `value` en la condición).
  * @param {any} parameters - Los parámetros de la regla, esperando `{ condition: string }` (ej. "value > 100").
  * @returns {DataRow[]} Los datos filtrados.
+ * @throws {Error} Si la condición no es válida, para no importar filas que el filtro debía excluir.
  */
 function applyFilterTransformation(
   data: DataRow[],
@@ -96,24 +165,14 @@ function applyFilterTransformation(
     return data
   }
 
-  return data.filter(row => {
-    // Reemplazar la palabra clave 'value' en la condición con el valor real del campo de la fila.
-    // Esto es necesario para que la cadena de condición sea evaluable.
-    const conditionString = parameters.condition.replace(
-      /value/g,
-      `row['${field}']`
+  const parsed = parseFilterExpression(parameters.condition)
+  if (!parsed.isSuccess) {
+    throw new Error(
+      `Condición de filtro inválida para el campo '${field}': ${formatFilterExpressionError(parsed.error)}`
     )
-    try {
-      // ADVERTENCIA: Uso de eval().
-      // Este es un placeholder. Para producción, usar un parser de expresiones seguro.
-      return eval(conditionString)
-    } catch (e) {
-      logger.error(
-        `Error al evaluar la condición de filtro '${conditionString}' para el campo '${field}': ${e instanceof Error ? e.message : String(e)}. La fila será filtrada.`
-      )
-      return false // Si la evaluación falla, la fila se filtra para evitar datos inconsistentes.
-    }
-  })
+  }
+
+  return data.filter(row => evaluateFilterExpression(parsed.ast, row, field))
 }
 
 /**
@@ -236,7 +295,7 @@ function applyDataTypeConversionTransformation(
               )
               row[field] = null
             } else {
-              row[field] = dateValue.toISOString().split("T") // Formato YYYY-MM-DD
+              row[field] = dateValue.toISOString().split("T")[0] // Formato YYYY-MM-DD
             }
             break
           default:
@@ -254,3 +313,271 @@ function applyDataTypeConversionTransformation(
     return row
   })
 }
+
+/**
+ * @function isBlank
+ * @description Indica si un valor está vacío (undefined, null o texto de solo espacios).
+ */
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "")
+  )
+}
+
+/**
+ * @function applyRenameTransformation
+ * @description Renombra una columna, conservando el orden de las columnas de la fila.
+ * @param {DataRow[]} data - Los datos a transformar.
+ * @param {string} field - La columna a renombrar.
+ * @param {object} parameters - `{ newName: string }`.
+ * @returns {DataRow[]} Los datos con la columna renombrada.
+ */
+function applyRenameTransformation(
+  data: DataRow[],
+  field: string,
+  parameters: TransformationRuleOf<"rename">["parameters"]
+): DataRow[] {
+  return data.map(row => {
+    if (!(field in row) || field === parameters.newName) return row
+    return Object.fromEntries(
+      Object.entries(row)
+        .filter(([key]) => key !== parameters.newName)
+        .map(([key, value]) => [
+          key === field ? parameters.newName : key,
+          value
+        ])
+    )
+  })
+}
+
+/**
+ * @function applyDerivedColumnTransformation
+ * @description Crea (o reemplaza) una columna con el resultado de una expresión sobre otros campos
+ * de la fila, evaluada con el lenguaje de expresiones seguro.
+ * @param {DataRow[]} data - Los datos a transformar.
+ * @param {string} field - La columna que se crea.
+ * @param {object} parameters - `{ expression: string }` (ej. "[Ventas] / [Unidades] * 100").
+ * @returns {DataRow[]} Los datos con la columna derivada.
+ * @throws {Error} Si la expresión no es válida.
+ */
+function applyDerivedColumnTransformation(
+  data: DataRow[],
+  field: string,
+  parameters: TransformationRuleOf<"derived_column">["parameters"]
+): DataRow[] {
+  const parsed = parseValueExpression(parameters.expression)
+  if (!parsed.isSuccess) {
+    throw new Error(
+      `Expresión inválida para la columna derivada '${field}': ${formatFilterExpressionError(parsed.error)}`
+    )
+  }
+
+  return data.map(row => ({
+    ...row,
+    [field]: evaluateValueExpression(parsed.ast, row, field)
+  }))
+}
+
+/**
+ * @function applyValueMappingTransformation
+ * @description Reemplaza los valores de un campo según una tabla de equivalencias (ej. código de
+ * organización de origen → ID de KPI). Sin distinguir mayúsculas salvo que se indique; los
+ * espacios de los extremos no cuentan. Los valores sin equivalencia se conservan, se vacían o
+ * descartan la fila, según `unmatched`.
+ * @param {DataRow[]} data - Los datos a transformar.
+ * @param {string} field - El campo con el valor de origen.
+ * @param {object} parameters - Tabla, campo de destino (por defecto el mismo) y acción para los valores sin equivalencia.
+ * @returns {DataRow[]} Los datos con los valores reemplazados.
+ */
+function applyValueMappingTransformation(
+  data: DataRow[],
+  field: string,
+  parameters: TransformationRuleOf<"value_mapping">["parameters"]
+): DataRow[] {
+  const normalizeKey = (value: unknown) => {
+    const text = String(value).trim()
+    return parameters.caseSensitive ? text : text.toLowerCase()
+  }
+  const table = new Map(
+    parameters.mappings.map(mapping => [normalizeKey(mapping.from), mapping.to])
+  )
+  const targetField = parameters.targetField?.trim() || field
+
+  const result: DataRow[] = []
+  for (const row of data) {
+    const source = row[field]
+    const mapped = isBlank(source) ? undefined : table.get(normalizeKey(source))
+    if (mapped !== undefined) {
+      result.push({ ...row, [targetField]: mapped })
+    } else if (parameters.unmatched === "keep") {
+      result.push({ ...row, [targetField]: source ?? null })
+    } else if (parameters.unmatched === "null") {
+      result.push({ ...row, [targetField]: null })
+    }
+    // unmatched === "drop": la fila se descarta
+  }
+  return result
+}
+
+/**
+ * @function applyUnitScalingTransformation
+ * @description Multiplica un valor numérico por un factor (ej. 0.001 para expresarlo en miles) y,
+ * opcionalmente, lo redondea. Los valores vacíos no cambian y los no numéricos pasan a null.
+ * @param {DataRow[]} data - Los datos a transformar.
+ * @param {string} field - El campo a escalar.
+ * @param {object} parameters - `{ factor: number; decimals?: number | null }`.
+ * @returns {DataRow[]} Los datos con el valor escalado.
+ */
+function applyUnitScalingTransformation(
+  data: DataRow[],
+  field: string,
+  parameters: TransformationRuleOf<"unit_scaling">["parameters"]
+): DataRow[] {
+  return data.map(row => {
+    if (isBlank(row[field])) return row
+    const numValue = Number(
+      typeof row[field] === "string" ? row[field].trim() : row[field]
+    )
+    if (!Number.isFinite(numValue)) {
+      logger.warn(
+        `Fallo al escalar el valor '${row[field]}' del campo '${field}': no es numérico. Se establecerá a null.`
+      )
+      return { ...row, [field]: null }
+    }
+    const scaled = numValue * parameters.factor
+    const decimals = parameters.decimals
+    return {
+      ...row,
+      [field]:
+        decimals === null || decimals === undefined
+          ? scaled
+          : Math.round(scaled * 10 ** decimals) / 10 ** decimals
+    }
+  })
+}
+
+/**
+ * @function applyTrimTransformation
+ * @description Quita los espacios de los extremos de un texto y, opcionalmente, reduce los
+ * espacios internos repetidos a uno.
+ * @param {DataRow[]} data - Los datos a transformar.
+ * @param {string} field - El campo a recortar.
+ * @param {object} parameters - `{ collapseWhitespace?: boolean }`.
+ * @returns {DataRow[]} Los datos con el texto recortado.
+ */
+function applyTrimTransformation(
+  data: DataRow[],
+  field: string,
+  parameters: TransformationRuleOf<"trim">["parameters"]
+): DataRow[] {
+  return data.map(row => {
+    if (typeof row[field] !== "string") return row
+    const trimmed = row[field].trim()
+    return {
+      ...row,
+      [field]: parameters.collapseWhitespace
+        ? trimmed.replace(/\s+/g, " ")
+        : trimmed
+    }
+  })
+}
+
+/**
+ * @function applyCaseNormalizationTransformation
+ * @description Convierte un texto a mayúsculas, minúsculas o tipo título (cada palabra con inicial mayúscula).
+ * @param {DataRow[]} data - Los datos a transformar.
+ * @param {string} field - El campo a normalizar.
+ * @param {object} parameters - `{ mode: 'upper' | 'lower' | 'title' }`.
+ * @returns {DataRow[]} Los datos con el texto normalizado.
+ */
+function applyCaseNormalizationTransformation(
+  data: DataRow[],
+  field: string,
+  parameters: TransformationRuleOf<"case_normalization">["parameters"]
+): DataRow[] {
+  return data.map(row => {
+    if (typeof row[field] !== "string") return row
+    const text: string = row[field]
+    const normalized =
+      parameters.mode === "upper"
+        ? text.toLocaleUpperCase("es")
+        : parameters.mode === "lower"
+          ? text.toLocaleLowerCase("es")
+          : text
+              .toLocaleLowerCase("es")
+              .replace(
+                /(^|[\s\-/])(\p{L})/gu,
+                (_, separator, letter) =>
+                  `${separator}${letter.toLocaleUpperCase("es")}`
+              )
+    return { ...row, [field]: normalized }
+  })
+}
+
+/**
+ * @function applyDateParseTransformation
+ * @description Lee una fecha con un formato explícito de date-fns (ej. "dd/MM/yyyy") y la guarda
+ * como "yyyy-MM-dd". Las fechas ya leídas por el origen (objetos Date) solo se formatean; los
+ * valores que no cumplen el formato pasan a null.
+ * @param {DataRow[]} data - Los datos a transformar.
+ * @param {string} field - El campo con la fecha.
+ * @param {object} parameters - `{ format: string }`.
+ * @returns {DataRow[]} Los datos con la fecha normalizada.
+ */
+function applyDateParseTransformation(
+  data: DataRow[],
+  field: string,
+  parameters: TransformationRuleOf<"date_parse">["parameters"]
+): DataRow[] {
+  const referenceDate = new Date()
+  return data.map(row => {
+    const value = row[field]
+    if (isBlank(value)) return row
+    const date =
+      value instanceof Date
+        ? value
+        : parseDate(String(value).trim(), parameters.format, referenceDate)
+    if (!isValid(date)) {
+      logger.warn(
+        `Fallo al leer la fecha '${value}' del campo '${field}' con el formato '${parameters.format}'. Se establecerá a null.`
+      )
+      return { ...row, [field]: null }
+    }
+    return { ...row, [field]: formatDate(date, "yyyy-MM-dd") }
+  })
+}
+
+/**
+ * @function applyUnpivotTransformation
+ * @description Convierte columnas anchas (ej. una por mes) en filas: cada columna indicada produce
+ * una fila con el resto de los campos, el nombre o la clave de la columna en `keyField` y su valor
+ * en el campo de la regla. Las columnas que no existen en una fila se omiten.
+ * @param {DataRow[]} data - Los datos a transformar.
+ * @param {string} field - El campo que recibe el valor de cada columna.
+ * @param {object} parameters - `{ columns: { column: string; key?: string | null }[]; keyField: string }`.
+ * @returns {DataRow[]} Los datos en formato largo.
+ */
+function applyUnpivotTransformation(
+  data: DataRow[],
+  field: string,
+  parameters: TransformationRuleOf<"unpivot">["parameters"]
+): DataRow[] {
+  const unpivoted = new Set(parameters.columns.map(c => c.column))
+  const result: DataRow[] = []
+  for (const row of data) {
+    const base = Object.fromEntries(
+      Object.entries(row).filter(([key]) => !unpivoted.has(key))
+    )
+    for (const { column, key } of parameters.columns) {
+      if (!(column in row)) continue
+      result.push({
+        ...base,
+        [parameters.keyField]: key?.trim() || column,
+        [field]: row[column]
+      })
+    }
+  }
+  return result
+}
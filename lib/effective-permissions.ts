@@ -0,0 +1,211 @@
+/**
+ * @file lib/effective-permissions.ts
+ * @brief Resolución de los permisos efectivos de un usuario a partir de sus grupos.
+ * @description Cada grupo decide un permiso con la primera regla que aplica: un grupo de solo
+ * lectura (View Only) nunca concede un permiso que modifique datos; si no, manda la fila explícita
+ * de `group_permissions` de la organización, luego la fila global y, sin filas, el permiso por
+ * defecto de su tipo de grupo. El usuario tiene el permiso si algún grupo se lo concede. La
+ * explicación indica la regla y el grupo que decidieron cada permiso.
+ */
+
+import {
+  EffectivePermissionExplanation,
+  EffectivePermissionRule,
+  GROUP_TYPE_DEFAULT_PERMISSIONS,
+  PERMISSION_KEYS,
+  READ_ONLY_GROUP_TYPES,
+  READ_PERMISSION_KEYS,
+  UserGroupType,
+  UserPermissionsMap,
+  toOrgScope
+} from "@/types"
+
+/** Grupo al que pertenece el usuario. */
+export interface PermissionGroup {
+  id: string
+  name: string
+  groupType: UserGroupType
+}
+
+/** Fila de `group_permissions` de uno de los grupos del usuario. */
+export interface GroupPermissionRow {
+  groupId: string
+  permissionKey: string
+  permissionValue: boolean
+  organizationId: string | null
+}
+
+interface GroupPermissionDecision {
+  granted: boolean
+  rule: EffectivePermissionRule
+  group: PermissionGroup
+  organizationId: string | null
+}
+
+/** Orden en que se elige el grupo que explica un permiso: la regla más específica primero. */
+const RULE_PRECEDENCE: EffectivePermissionRule[] = [
+  "explicit_organization",
+  "explicit_global",
+  "group_type_default",
+  "read_only_group_type"
+]
+
+/**
+ * @function resolveGroupPermission
+ * @description Decide un permiso para un grupo en una organización (o global).
+ * @param {PermissionGroup} group - El grupo.
+ * @param {GroupPermissionRow[]} rows - Filas de `group_permissions` (de cualquier grupo).
+ * @param {string} key - El permiso.
+ * @param {string | null} organizationId - Organización sobre la que se actúa (null = global).
+ * @returns {GroupPermissionDecision} Si el grupo concede el permiso y con qué regla.
+ */
+function resolveGroupPermission(
+  group: PermissionGroup,
+  rows: GroupPermissionRow[],
+  key: string,
+  organizationId: string | null
+): GroupPermissionDecision {
+  if (
+    READ_ONLY_GROUP_TYPES.includes(group.groupType) &&
+    !(READ_PERMISSION_KEYS as readonly string[]).includes(key)
+  ) {
+    return {
+      granted: false,
+      rule: "read_only_group_type",
+      group,
+      organizationId: null
+    }
+  }
+  const explicit = (orgId: string | null) =>
+    rows.find(
+      row =>
+        row.groupId === group.id &&
+        row.permissionKey === key &&
+        row.organizationId === orgId
+    )
+  const orgRow = organizationId ? explicit(organizationId) : undefined
+  if (orgRow) {
+    return {
+      granted: orgRow.permissionValue,
+      rule: "explicit_organization",
+      group,
+      organizationId
+    }
+  }
+  const globalRow = explicit(null)
+  if (globalRow) {
+    return {
+      granted: globalRow.permissionValue,
+      rule: "explicit_global",
+      group,
+      organizationId: null
+    }
+  }
+  return {
+    granted: (
+      GROUP_TYPE_DEFAULT_PERMISSIONS[group.groupType] as readonly string[]
+    ).includes(key),
+    rule: "group_type_default",
+    group,
+    organizationId: null
+  }
+}
+
+/**
+ * @function explainPermission
+ * @description Resuelve un permiso del usuario y la regla que lo decidió. Si algún grupo lo
+ * concede, explica la concesión más específica; si no, la denegación más específica.
+ * @param {PermissionGroup[]} groups - Grupos del usuario.
+ * @param {GroupPermissionRow[]} rows - Filas de `group_permissions` de esos grupos.
+ * @param {string} key - El permiso.
+ * @param {string | null} [organizationId] - Organización sobre la que se actúa (null = global).
+ * @returns {EffectivePermissionExplanation} El permiso efectivo explicado.
+ */
+export function explainPermission(
+  groups: PermissionGroup[],
+  rows: GroupPermissionRow[],
+  key: string,
+  organizationId: string | null = null
+): EffectivePermissionExplanation {
+  if (groups.length === 0) {
+    return {
+      key,
+      granted: false,
+      rule: "no_groups",
+      groupId: null,
+      groupName: null,
+      groupType: null,
+      organizationId: null
+    }
+  }
+  const byPrecedence = (
+    a: GroupPermissionDecision,
+    b: GroupPermissionDecision
+  ) => RULE_PRECEDENCE.indexOf(a.rule) - RULE_PRECEDENCE.indexOf(b.rule)
+  const decisions = groups.map(group =>
+    resolveGroupPermission(group, rows, key, organizationId)
+  )
+  const [decisive] = decisions.some(d => d.granted)
+    ? decisions.filter(d => d.granted).sort(byPrecedence)
+    : decisions.sort(byPrecedence)
+  return {
+    key,
+    granted: decisive.granted,
+    rule: decisive.rule,
+    groupId: decisive.group.id,
+    groupName: decisive.group.name,
+    groupType: decisive.group.groupType,
+    organizationId: decisive.organizationId
+  }
+}
+
+/**
+ * @function explainUserPermissions
+ * @description Explica todos los permisos del usuario en una organización (o globales).
+ * @returns {EffectivePermissionExplanation[]} Un elemento por cada clave de `PERMISSION_KEYS`.
+ */
+export function explainUserPermissions(
+  groups: PermissionGroup[],
+  rows: GroupPermissionRow[],
+  organizationId: string | null = null
+): EffectivePermissionExplanation[] {
+  return PERMISSION_KEYS.map(key =>
+    explainPermission(groups, rows, key, organizationId)
+  )
+}
+
+/**
+ * @function buildEffectivePermissionsMap
+ * @description Consolida los permisos efectivos en un `UserPermissionsMap`: el valor global de
+ * cada permiso y el de cada organización con filas explícitas. Las demás organizaciones usan el
+ * valor global, como en `makeHasPermission`. Incluye las claves no declaradas de las filas.
+ * @returns {UserPermissionsMap} El mapa de permisos efectivos.
+ */
+export function buildEffectivePermissionsMap(
+  groups: PermissionGroup[],
+  rows: GroupPermissionRow[]
+): UserPermissionsMap {
+  const keys = new Set<string>([
+    ...PERMISSION_KEYS,
+    ...rows.map(row => row.permissionKey)
+  ])
+  const map: UserPermissionsMap = {}
+  for (const key of keys) {
+    const organizationIds = new Set<string | null>([null])
+    for (const row of rows) {
+      if (row.permissionKey === key && row.organizationId) {
+        organizationIds.add(row.organizationId)
+      }
+    }
+    map[key] = {}
+    for (const organizationId of organizationIds) {
+      map[key][toOrgScope(organizationId)] = explainPermission(
+        groups,
+        rows,
+        key,
+        organizationId
+      ).granted
+    }
+  }
+  return map
+}
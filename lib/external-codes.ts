@@ -0,0 +1,79 @@
+/**
+ * @file lib/external-codes.ts
+ * @brief Códigos externos y alias de KPIs y organizaciones.
+ * @description Un código externo es el identificador estable con el que un sistema de origen
+ * (ERP, CRM, hojas de cálculo) conoce a un KPI o a una organización; es opcional y único en cada
+ * tabla, sin distinguir mayúsculas. Los alias son otros nombres con los que se conoce la entidad.
+ * Este módulo los compara con los identificadores leídos de los datos de origen y de las
+ * ecuaciones y comprueba que un código no esté ya en uso; los esquemas de validación están en
+ * `types/external-code-types.ts`.
+ */
+
+import { kpisTable, organizationsTable } from "@/db/schema"
+import { normalizeAliases, normalizeIdentifier } from "@/types"
+import { and, ne, sql } from "drizzle-orm"
+
+/**
+ * @function parseAliasList
+ * @description Convierte el texto de un campo de formulario (un alias por línea o separados por
+ * comas) en una lista de alias normalizada.
+ */
+export function parseAliasList(text: string | null | undefined): string[] {
+  return normalizeAliases((text ?? "").split(/[\n,]/))
+}
+
+/**
+ * @function matchesExternalCode
+ * @description Indica si el identificador coincide con el código externo (sin distinguir mayúsculas).
+ */
+export function matchesExternalCode(
+  externalCode: string | null | undefined,
+  identifier: string
+): boolean {
+  return (
+    !!externalCode &&
+    normalizeIdentifier(externalCode) === normalizeIdentifier(identifier)
+  )
+}
+
+/**
+ * @function matchesAlias
+ * @description Indica si el identificador coincide con alguno de los alias (sin distinguir mayúsculas).
+ */
+export function matchesAlias(
+  aliases: string[] | null | undefined,
+  identifier: string
+): boolean {
+  const key = normalizeIdentifier(identifier)
+  return (aliases ?? []).some(alias => normalizeIdentifier(alias) === key)
+}
+
+/**
+ * @function isExternalCodeInUse
+ * @description Comprueba si otro KPI u otra organización ya usa el código externo (sin distinguir
+ * mayúsculas), para informar del conflicto antes de que lo rechace el índice único.
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @param {"kpi" | "organization"} entity - Tabla en la que se busca el código.
+ * @param {string} externalCode - Código a comprobar.
+ * @param {string} [excludeId] - Entidad que se está editando (no cuenta como conflicto).
+ * @returns {Promise<boolean>} Verdadero si el código ya está en uso.
+ */
+export async function isExternalCodeInUse(
+  drizzle: any,
+  entity: "kpi" | "organization",
+  externalCode: string,
+  excludeId?: string
+): Promise<boolean> {
+  const table = entity === "kpi" ? kpisTable : organizationsTable
+  const rows: { id: string }[] = await drizzle
+    .select({ id: table.id })
+    .from(table)
+    .where(
+      and(
+        sql`lower(${table.externalCode}) = ${normalizeIdentifier(externalCode)}`,
+        excludeId ? ne(table.id, excludeId) : undefined
+      )
+    )
+    .limit(1)
+  return rows.length > 0
+}
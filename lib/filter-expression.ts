@@ -0,0 +1,862 @@
+/**
+ * @file lib/filter-expression.ts
+ * @brief Parser y evaluador seguro (sin `eval`) para las condiciones de los filtros de importación.
+ * @description Este módulo implementa un tokenizador y un parser descendente recursivo para la
+ * condición de las transformaciones de tipo "filter". La gramática es cerrada: comparaciones
+ * (=, <>, <, <=, >, >=), AND / OR / NOT y paréntesis, listas IN / NOT IN, CONTAINS, STARTSWITH y
+ * ENDSWITH, IS NULL / IS NOT NULL y referencias a campos de la fila: `value` (el campo de la
+ * regla), identificadores simples (region) o nombres entre corchetes ([Región de venta]).
+ * Se aceptan también los operadores de JavaScript de las condiciones anteriores (==, ===, !=,
+ * !==, &&, || y !). Las columnas derivadas usan expresiones de valor con los mismos operandos,
+ * aritmética (+, -, *, /), concatenación de texto (&) y paréntesis. Ninguna expresión puede
+ * ejecutar código: solo lee valores de la fila.
+ */
+
+import {
+  FilterComparisonOperator,
+  FilterExpressionError,
+  FilterExpressionNode,
+  FilterExpressionParseResult,
+  FilterLiteralNode,
+  FilterOperandNode,
+  FilterTextOperator,
+  ValueExpressionNode,
+  ValueExpressionParseResult
+} from "@/types"
+
+/**
+ * Profundidad máxima de anidamiento permitida, para evitar desbordes de pila
+ * con expresiones maliciosas o mal formadas.
+ */
+const MAX_DEPTH = 64
+
+/**
+ * Palabras reservadas (sin distinguir mayúsculas). No pueden usarse como nombre de campo simple;
+ * un campo con ese nombre se referencia entre corchetes.
+ */
+const KEYWORDS = new Set([
+  "AND",
+  "OR",
+  "NOT",
+  "IN",
+  "IS",
+  "NULL",
+  "TRUE",
+  "FALSE",
+  "CONTAINS",
+  "STARTSWITH",
+  "ENDSWITH",
+  "VALUE"
+])
+
+const TEXT_OPERATORS: Record<string, FilterTextOperator> = {
+  CONTAINS: "contains",
+  STARTSWITH: "startsWith",
+  ENDSWITH: "endsWith"
+}
+
+type TokenType =
+  | "number"
+  | "string"
+  | "field"
+  | "identifier"
+  | "operator"
+  | "lparen"
+  | "rparen"
+  | "comma"
+  | "end"
+
+interface Token {
+  type: TokenType
+  text: string
+  position: number
+  value?: string | number
+}
+
+/**
+ * Error interno usado para cortar el análisis; nunca sale de este módulo.
+ */
+class FilterExpressionFailure extends Error {
+  constructor(public readonly filterError: FilterExpressionError) {
+    super(filterError.message)
+  }
+}
+
+function failWith(message: string, position?: number): never {
+  throw new FilterExpressionFailure({ message, position })
+}
+
+/**
+ * Convierte la condición en una lista de tokens.
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < expression.length) {
+    const char = expression[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // Números: 12, -3, 12.5, .5 (el signo solo forma parte de un literal)
+    const numberMatch = /^-?(\d+(\.\d+)?|\.\d+)/.exec(expression.slice(i))
+    if (numberMatch && (char !== "-" || isOperandStart(tokens))) {
+      const text = numberMatch[0]
+      if (/[0-9.A-Za-z_]/.test(expression[i + text.length] ?? "")) {
+        failWith(`Número inválido "${text}".`, i)
+      }
+      tokens.push({ type: "number", text, position: i, value: Number(text) })
+      i += text.length
+      continue
+    }
+
+    // Textos entre comillas simples o dobles, con escapes \' \" \\
+    if (char === "'" || char === '"') {
+      let value = ""
+      let j = i + 1
+      while (j < expression.length && expression[j] !== char) {
+        if (expression[j] === "\\" && j + 1 < expression.length) j++
+        value += expression[j]
+        j++
+      }
+      if (j >= expression.length) {
+        failWith(`Texto sin cerrar: falta ${char}.`, i)
+      }
+      tokens.push({
+        type: "string",
+        text: expression.slice(i, j + 1),
+        position: i,
+        value
+      })
+      i = j + 1
+      continue
+    }
+
+    // Campos entre corchetes: [Nombre de columna]
+    if (char === "[") {
+      const closing = expression.indexOf("]", i)
+      if (closing === -1) {
+        failWith("Referencia a campo sin cerrar: falta ']'.", i)
+      }
+      const name = expression.slice(i + 1, closing).trim()
+      if (name === "") failWith("Referencia a campo vacía.", i)
+      tokens.push({
+        type: "field",
+        text: expression.slice(i, closing + 1),
+        position: i,
+        value: name
+      })
+      i = closing + 1
+      continue
+    }
+
+    // Identificadores (palabras reservadas y nombres de campo simples)
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!
+      tokens.push({ type: "identifier", text: match[0], position: i })
+      i += match[0].length
+      continue
+    }
+
+    // Operadores: se normalizan los de JavaScript a la forma de la gramática
+    const operator = ["===", "!==", "<=", ">=", "<>", "!=", "==", "&&", "||"]
+      .concat(["=", "<", ">", "!", "+", "-", "*", "/", "&"])
+      .find(candidate => expression.startsWith(candidate, i))
+    if (operator) {
+      const normalized: Record<string, string> = {
+        "===": "=",
+        "==": "=",
+        "!==": "<>",
+        "!=": "<>",
+        "&&": "AND",
+        "||": "OR",
+        "!": "NOT"
+      }
+      tokens.push({
+        type: "operator",
+        text: normalized[operator] ?? operator,
+        position: i
+      })
+      i += operator.length
+      continue
+    }
+
+    if (char === "(") {
+      tokens.push({ type: "lparen", text: char, position: i })
+      i++
+      continue
+    }
+    if (char === ")") {
+      tokens.push({ type: "rparen", text: char, position: i })
+      i++
+      continue
+    }
+    if (char === ",") {
+      tokens.push({ type: "comma", text: char, position: i })
+      i++
+      continue
+    }
+
+    failWith(`Carácter no permitido "${char}".`, i)
+  }
+
+  tokens.push({ type: "end", text: "", position: expression.length })
+  return tokens
+}
+
+/**
+ * Indica si el siguiente token es el inicio de un operando (para distinguir "-3" de una resta,
+ * que la gramática no admite).
+ */
+function isOperandStart(tokens: Token[]): boolean {
+  const previous = tokens[tokens.length - 1]
+  return (
+    !previous ||
+    previous.type === "operator" ||
+    previous.type === "lparen" ||
+    previous.type === "comma" ||
+    (previous.type === "identifier" &&
+      KEYWORDS.has(previous.text.toUpperCase()) &&
+      !["NULL", "TRUE", "FALSE", "VALUE"].includes(previous.text.toUpperCase()))
+  )
+}
+
+/**
+ * Parser descendente recursivo. Precedencia de las condiciones (de menor a mayor):
+ * OR < AND < NOT < predicado; de las expresiones de valor: & < suma/resta < multiplicación/división
+ * < signo < primario.
+ */
+class ExpressionParser {
+  private index = 0
+  private depth = 0
+  readonly fields = new Set<string>()
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FilterExpressionNode {
+    const node = this.parseOr()
+    const token = this.peek()
+    if (token.type !== "end") {
+      this.unexpected(token)
+    }
+    return node
+  }
+
+  parseValueExpression(): ValueExpressionNode {
+    const node = this.parseConcat()
+    const token = this.peek()
+    if (token.type !== "end") {
+      this.unexpected(token)
+    }
+    return node
+  }
+
+  private isArithmetic(token: Token, operators: string[]): boolean {
+    return token.type === "operator" && operators.includes(token.text)
+  }
+
+  private parseConcat(): ValueExpressionNode {
+    let left = this.parseAdditive()
+    while (this.isArithmetic(this.peek(), ["&"])) {
+      const operatorToken = this.next()
+      const right = this.parseAdditive()
+      left = {
+        type: "arithmetic",
+        operator: "&",
+        left,
+        right,
+        position: operatorToken.position
+      }
+    }
+    return left
+  }
+
+  private parseAdditive(): ValueExpressionNode {
+    let left = this.parseMultiplicative()
+    while (this.isArithmetic(this.peek(), ["+", "-"])) {
+      const operatorToken = this.next()
+      const right = this.parseMultiplicative()
+      left = {
+        type: "arithmetic",
+        operator: operatorToken.text as "+" | "-",
+        left,
+        right,
+        position: operatorToken.position
+      }
+    }
+    return left
+  }
+
+  private parseMultiplicative(): ValueExpressionNode {
+    let left = this.parseSign()
+    while (this.isArithmetic(this.peek(), ["*", "/"])) {
+      const operatorToken = this.next()
+      const right = this.parseSign()
+      left = {
+        type: "arithmetic",
+        operator: operatorToken.text as "*" | "/",
+        left,
+        right,
+        position: operatorToken.position
+      }
+    }
+    return left
+  }
+
+  private parseSign(): ValueExpressionNode {
+    const token = this.peek()
+    if (this.isArithmetic(token, ["-", "+"])) {
+      this.next()
+      this.enter(token.position)
+      const operand = this.parseSign()
+      this.leave()
+      return token.text === "-"
+        ? { type: "negate", operand, position: token.position }
+        : operand
+    }
+    if (token.type === "lparen") {
+      this.next()
+      this.enter(token.position)
+      const inner = this.parseConcat()
+      this.leave()
+      const closing = this.next()
+      if (closing.type !== "rparen") {
+        if (closing.type === "end") {
+          failWith("Falta cerrar un paréntesis.", token.position)
+        }
+        this.unexpected(closing)
+      }
+      return inner
+    }
+    return this.parseOperand()
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]
+  }
+
+  private unexpected(token: Token): never {
+    if (token.type === "end") {
+      failWith("La condición termina de forma inesperada.", token.position)
+    }
+    failWith(`Símbolo inesperado "${token.text}".`, token.position)
+  }
+
+  private enter(position: number) {
+    this.depth++
+    if (this.depth > MAX_DEPTH) {
+      failWith(
+        `La condición supera la profundidad máxima de anidamiento (${MAX_DEPTH}).`,
+        position
+      )
+    }
+  }
+
+  private leave() {
+    this.depth--
+  }
+
+  /** Indica si el token es la palabra reservada u operador normalizado indicado. */
+  private isWord(token: Token, word: string): boolean {
+    return (
+      (token.type === "identifier" || token.type === "operator") &&
+      token.text.toUpperCase() === word
+    )
+  }
+
+  private parseOr(): FilterExpressionNode {
+    let left = this.parseAnd()
+    while (this.isWord(this.peek(), "OR")) {
+      const operatorToken = this.next()
+      const right = this.parseAnd()
+      left = {
+        type: "logical",
+        operator: "OR",
+        left,
+        right,
+        position: operatorToken.position
+      }
+    }
+    return left
+  }
+
+  private parseAnd(): FilterExpressionNode {
+    let left = this.parseNot()
+    while (this.isWord(this.peek(), "AND")) {
+      const operatorToken = this.next()
+      const right = this.parseNot()
+      left = {
+        type: "logical",
+        operator: "AND",
+        left,
+        right,
+        position: operatorToken.position
+      }
+    }
+    return left
+  }
+
+  private parseNot(): FilterExpressionNode {
+    const token = this.peek()
+    if (this.isWord(token, "NOT")) {
+      this.next()
+      this.enter(token.position)
+      const operand = this.parseNot()
+      this.leave()
+      return { type: "not", operand, position: token.position }
+    }
+    return this.parsePredicate()
+  }
+
+  private parsePredicate(): FilterExpressionNode {
+    const token = this.peek()
+    if (token.type === "lparen") {
+      this.next()
+      this.enter(token.position)
+      const inner = this.parseOr()
+      this.leave()
+      const closing = this.next()
+      if (closing.type !== "rparen") {
+        if (closing.type === "end") {
+          failWith("Falta cerrar un paréntesis.", token.position)
+        }
+        this.unexpected(closing)
+      }
+      return inner
+    }
+
+    const left = this.parseOperand()
+    const operatorToken = this.peek()
+
+    if (
+      operatorToken.type === "operator" &&
+      ["=", "<>", "<", "<=", ">", ">="].includes(operatorToken.text)
+    ) {
+      this.next()
+      return {
+        type: "comparison",
+        operator: operatorToken.text as FilterComparisonOperator,
+        left,
+        right: this.parseOperand(),
+        position: operatorToken.position
+      }
+    }
+
+    if (this.isWord(operatorToken, "IS")) {
+      this.next()
+      const negated = this.isWord(this.peek(), "NOT")
+      if (negated) this.next()
+      const nullToken = this.next()
+      if (!this.isWord(nullToken, "NULL")) {
+        failWith(
+          `Se esperaba NULL después de IS${negated ? " NOT" : ""}.`,
+          nullToken.position
+        )
+      }
+      return {
+        type: "nullCheck",
+        operand: left,
+        negated,
+        position: operatorToken.position
+      }
+    }
+
+    const negated = this.isWord(operatorToken, "NOT")
+    const keywordToken = negated ? this.peek(1) : operatorToken
+    const keyword = keywordToken.text.toUpperCase()
+    if (keywordToken.type === "identifier" && keyword === "IN") {
+      if (negated) this.next()
+      this.next()
+      return {
+        type: "in",
+        operand: left,
+        values: this.parseList(keywordToken),
+        negated,
+        position: keywordToken.position
+      }
+    }
+    if (keywordToken.type === "identifier" && TEXT_OPERATORS[keyword]) {
+      if (negated) this.next()
+      this.next()
+      return {
+        type: "text",
+        operator: TEXT_OPERATORS[keyword],
+        left,
+        right: this.parseOperand(),
+        negated,
+        position: keywordToken.position
+      }
+    }
+
+    if (operatorToken.type === "end") {
+      failWith(
+        "Falta el operador: use una comparación, IN, CONTAINS, STARTSWITH, ENDSWITH o IS NULL.",
+        operatorToken.position
+      )
+    }
+    return this.unexpected(operatorToken)
+  }
+
+  private parseList(inToken: Token): FilterLiteralNode[] {
+    const open = this.next()
+    if (open.type !== "lparen") {
+      failWith('Se esperaba "(" después de IN.', open.position)
+    }
+    const values: FilterLiteralNode[] = []
+    for (;;) {
+      const operand = this.parseOperand()
+      if (operand.type !== "literal") {
+        failWith(
+          "La lista de IN solo admite valores literales.",
+          operand.position
+        )
+      }
+      values.push(operand)
+      if (this.peek().type !== "comma") break
+      this.next()
+    }
+    const closing = this.next()
+    if (closing.type !== "rparen") {
+      if (closing.type === "end") {
+        failWith("Falta cerrar la lista de IN.", inToken.position)
+      }
+      this.unexpected(closing)
+    }
+    return values
+  }
+
+  private parseOperand(): FilterOperandNode {
+    const token = this.next()
+
+    switch (token.type) {
+      case "number":
+      case "string":
+        return {
+          type: "literal",
+          value: token.value!,
+          position: token.position
+        }
+
+      case "field": {
+        const name = token.value as string
+        this.fields.add(name)
+        return { type: "field", name, position: token.position }
+      }
+
+      case "identifier": {
+        const word = token.text.toUpperCase()
+        if (word === "VALUE") {
+          return { type: "field", name: null, position: token.position }
+        }
+        if (word === "NULL" || word === "TRUE" || word === "FALSE") {
+          return {
+            type: "literal",
+            value: word === "NULL" ? null : word === "TRUE",
+            position: token.position
+          }
+        }
+        if (KEYWORDS.has(word)) {
+          failWith(
+            `"${token.text}" es una palabra reservada. Para un campo con ese nombre use [${token.text}].`,
+            token.position
+          )
+        }
+        this.fields.add(token.text)
+        return { type: "field", name: token.text, position: token.position }
+      }
+
+      default:
+        return this.unexpected(token)
+    }
+  }
+}
+
+/**
+ * @function parseFilterExpression
+ * @description Analiza sintácticamente una condición de filtro y devuelve su AST junto con los
+ * campos de la fila que referencia, o un error estructurado con la posición del problema.
+ * @param {string} expression - La condición a analizar (ej. "value > 100 AND region IN ('N', 'S')").
+ * @returns {FilterExpressionParseResult} El AST y los campos, o el error de análisis.
+ */
+export function parseFilterExpression(
+  expression: string
+): FilterExpressionParseResult {
+  if (!expression || expression.trim() === "") {
+    return {
+      isSuccess: false,
+      error: { message: "La condición del filtro está vacía." }
+    }
+  }
+
+  try {
+    const parser = new ExpressionParser(tokenize(expression))
+    const ast = parser.parse()
+    return { isSuccess: true, ast, fields: Array.from(parser.fields) }
+  } catch (error) {
+    if (error instanceof FilterExpressionFailure) {
+      return { isSuccess: false, error: error.filterError }
+    }
+    throw error
+  }
+}
+
+/**
+ * @function validateFilterExpression
+ * @description Valida la sintaxis de una condición de filtro.
+ * @param {string} expression - La condición a validar.
+ * @returns {FilterExpressionError | null} El error de sintaxis o null si la condición es válida.
+ */
+export function validateFilterExpression(
+  expression: string
+): FilterExpressionError | null {
+  const result = parseFilterExpression(expression)
+  return result.isSuccess ? null : result.error
+}
+
+/**
+ * @function parseValueExpression
+ * @description Analiza sintácticamente la expresión de una columna derivada (ej. "[Ventas] / [Unidades]").
+ * @param {string} expression - La expresión a analizar.
+ * @returns {ValueExpressionParseResult} El AST y los campos, o el error de análisis.
+ */
+export function parseValueExpression(
+  expression: string
+): ValueExpressionParseResult {
+  if (!expression || expression.trim() === "") {
+    return { isSuccess: false, error: { message: "La expresión está vacía." } }
+  }
+
+  try {
+    const parser = new ExpressionParser(tokenize(expression))
+    const ast = parser.parseValueExpression()
+    return { isSuccess: true, ast, fields: Array.from(parser.fields) }
+  } catch (error) {
+    if (error instanceof FilterExpressionFailure) {
+      return { isSuccess: false, error: error.filterError }
+    }
+    throw error
+  }
+}
+
+/**
+ * @function formatFilterExpressionError
+ * @description Construye un mensaje legible para el usuario, con la posición (base 1) si la hay.
+ * @param {FilterExpressionError} error - El error a formatear.
+ * @returns {string} Mensaje de error.
+ */
+export function formatFilterExpressionError(
+  error: FilterExpressionError
+): string {
+  return error.position !== undefined
+    ? `${error.message} (posición ${error.position + 1})`
+    : error.message
+}
+
+type FilterValue = string | number | boolean | null
+
+/**
+ * Normaliza el valor de una celda: undefined pasa a null y las fechas a texto ISO.
+ */
+function normalizeCellValue(value: unknown): FilterValue {
+  if (value === undefined || value === null) return null
+  if (value instanceof Date) return value.toISOString()
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return value
+  }
+  return String(value)
+}
+
+function resolveOperand(
+  operand: FilterOperandNode,
+  row: Record<string, unknown>,
+  field: string
+): FilterValue {
+  if (operand.type === "literal") return operand.value
+  return normalizeCellValue(row[operand.name ?? field])
+}
+
+/**
+ * Convierte un valor a número si es numérico (número o texto numérico no vacío).
+ */
+function toNumber(value: FilterValue): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.trim())
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+/**
+ * Compara dos valores no nulos: numéricamente si ambos son numéricos y como texto en otro caso.
+ * @returns Negativo, cero o positivo.
+ */
+function compareValues(left: FilterValue, right: FilterValue): number {
+  const leftNumber = toNumber(left)
+  const rightNumber = toNumber(right)
+  if (leftNumber !== null && rightNumber !== null) {
+    return leftNumber - rightNumber
+  }
+  const leftText = String(left)
+  const rightText = String(right)
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0
+}
+
+function valuesEqual(left: FilterValue, right: FilterValue): boolean {
+  if (left === null || right === null) return left === right
+  return compareValues(left, right) === 0
+}
+
+function evaluateNode(
+  node: FilterExpressionNode,
+  row: Record<string, unknown>,
+  field: string
+): boolean {
+  switch (node.type) {
+    case "logical":
+      return node.operator === "AND"
+        ? evaluateNode(node.left, row, field) &&
+            evaluateNode(node.right, row, field)
+        : evaluateNode(node.left, row, field) ||
+            evaluateNode(node.right, row, field)
+
+    case "not":
+      return !evaluateNode(node.operand, row, field)
+
+    case "comparison": {
+      const left = resolveOperand(node.left, row, field)
+      const right = resolveOperand(node.right, row, field)
+      if (node.operator === "=") return valuesEqual(left, right)
+      if (node.operator === "<>") return !valuesEqual(left, right)
+      // Las comparaciones de orden con un valor vacío son falsas
+      if (left === null || right === null) return false
+      const difference = compareValues(left, right)
+      switch (node.operator) {
+        case "<":
+          return difference < 0
+        case "<=":
+          return difference <= 0
+        case ">":
+          return difference > 0
+        case ">=":
+          return difference >= 0
+      }
+      return false
+    }
+
+    case "in": {
+      const value = resolveOperand(node.operand, row, field)
+      const found = node.values.some(literal =>
+        valuesEqual(value, literal.value)
+      )
+      return node.negated ? !found : found
+    }
+
+    case "text": {
+      const left = resolveOperand(node.left, row, field)
+      const right = resolveOperand(node.right, row, field)
+      if (left === null || right === null) return node.negated
+      const text = String(left)
+      const search = String(right)
+      const matches =
+        node.operator === "contains"
+          ? text.includes(search)
+          : node.operator === "startsWith"
+            ? text.startsWith(search)
+            : text.endsWith(search)
+      return node.negated ? !matches : matches
+    }
+
+    case "nullCheck": {
+      const value = resolveOperand(node.operand, row, field)
+      // Un texto vacío o de solo espacios cuenta como vacío (igual que 'set_default')
+      const isNull =
+        value === null || (typeof value === "string" && value.trim() === "")
+      return node.negated ? !isNull : isNull
+    }
+  }
+}
+
+/**
+ * @function evaluateFilterExpression
+ * @description Evalúa una condición previamente analizada con `parseFilterExpression` sobre una fila.
+ * Las comparaciones son numéricas si ambos valores son numéricos y de texto en otro caso; un campo
+ * inexistente vale null.
+ * @param {FilterExpressionNode} ast - El árbol sintáctico de la condición.
+ * @param {Record<string, unknown>} row - La fila de datos.
+ * @param {string} field - Campo de la regla, al que se refiere `value`.
+ * @returns {boolean} Si la fila cumple la condición.
+ */
+export function evaluateFilterExpression(
+  ast: FilterExpressionNode,
+  row: Record<string, unknown>,
+  field: string
+): boolean {
+  return evaluateNode(ast, row, field)
+}
+
+function evaluateValueNode(
+  node: ValueExpressionNode,
+  row: Record<string, unknown>,
+  field: string
+): FilterValue {
+  switch (node.type) {
+    case "literal":
+    case "field":
+      return resolveOperand(node, row, field)
+
+    case "negate": {
+      const operand = toNumber(evaluateValueNode(node.operand, row, field))
+      return operand === null ? null : -operand
+    }
+
+    case "arithmetic": {
+      const left = evaluateValueNode(node.left, row, field)
+      const right = evaluateValueNode(node.right, row, field)
+      if (node.operator === "&") {
+        return `${left ?? ""}${right ?? ""}`
+      }
+      const leftNumber = toNumber(left)
+      const rightNumber = toNumber(right)
+      if (leftNumber === null || rightNumber === null) return null
+      const result =
+        node.operator === "+"
+          ? leftNumber + rightNumber
+          : node.operator === "-"
+            ? leftNumber - rightNumber
+            : node.operator === "*"
+              ? leftNumber * rightNumber
+              : leftNumber / rightNumber
+      return Number.isFinite(result) ? result : null
+    }
+  }
+}
+
+/**
+ * @function evaluateValueExpression
+ * @description Evalúa una expresión de valor previamente analizada con `parseValueExpression`.
+ * La aritmética solo opera con valores numéricos: si algún operando está vacío o no es numérico,
+ * o se divide por cero, el resultado es null. La concatenación trata los vacíos como texto vacío.
+ * @param {ValueExpressionNode} ast - El árbol sintáctico de la expresión.
+ * @param {Record<string, unknown>} row - La fila de datos.
+ * @param {string} field - Campo de la regla, al que se refiere `value`.
+ * @returns {string | number | boolean | null} El valor calculado.
+ */
+export function evaluateValueExpression(
+  ast: ValueExpressionNode,
+  row: Record<string, unknown>,
+  field: string
+): string | number | boolean | null {
+  return evaluateValueNode(ast, row, field)
+}
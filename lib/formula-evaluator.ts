@@ -0,0 +1,756 @@
+/**
+ * @file lib/formula-evaluator.ts
+ * @brief Parser y evaluador seguro (sin `eval`) para las ecuaciones de cálculo de KPI.
+ * @description Este módulo implementa un tokenizador y un parser descendente recursivo que
+ * convierte una ecuación de KPI en un árbol sintáctico (AST) y la evalúa sobre un conjunto
+ * cerrado de operaciones: aritmética (+, -, *, /, ^), paréntesis, comparaciones
+ * (=, <>, <, <=, >, >=) y las funciones MIN, MAX, ABS, IF, ROUND, SUM y AVG.
+ * Las referencias a otros KPIs ([KPI:UUID] o [KPI:NombreDeKPI], con modificadores opcionales de campo,
+ * período y agregación como [KPI:Ventas:target] o [KPI:Ventas:ytd:lastYear]) se resuelven mediante
+ * una función provista por el llamador, por lo que el módulo no accede a la base de datos
+ * y puede usarse tanto en el servidor como en componentes de cliente (validación en el editor).
+ * Los errores se devuelven de forma estructurada (código, mensaje y posición).
+ */
+
+import {
+  FormulaAggregate,
+  FormulaBinaryOperator,
+  FormulaError,
+  FormulaErrorCode,
+  FormulaEvaluationResult,
+  FormulaNode,
+  FormulaParseResult,
+  FormulaPeriodShift,
+  FormulaReferenceField,
+  FormulaReferenceNode,
+  FormulaReferenceResolver
+} from "@/types"
+
+/**
+ * Profundidad máxima de anidamiento permitida, para evitar desbordes de pila
+ * con expresiones maliciosas o mal formadas.
+ */
+const MAX_DEPTH = 64
+
+/**
+ * Expresión regular para validar identificadores UUID (mismo criterio que `extractKpiReferences`).
+ */
+const UUID_REGEX =
+  /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/
+
+/**
+ * Funciones soportadas y su aridad (maxArgs = null indica número variable de argumentos).
+ */
+const SUPPORTED_FUNCTIONS: Record<
+  string,
+  { minArgs: number; maxArgs: number | null }
+> = {
+  MIN: { minArgs: 1, maxArgs: null },
+  MAX: { minArgs: 1, maxArgs: null },
+  SUM: { minArgs: 1, maxArgs: null },
+  AVG: { minArgs: 1, maxArgs: null },
+  ABS: { minArgs: 1, maxArgs: 1 },
+  ROUND: { minArgs: 1, maxArgs: 2 },
+  IF: { minArgs: 3, maxArgs: 3 }
+}
+
+type TokenType =
+  | "number"
+  | "reference"
+  | "identifier"
+  | "operator"
+  | "lparen"
+  | "rparen"
+  | "comma"
+  | "end"
+
+interface Token {
+  type: TokenType
+  text: string
+  position: number
+  value?: number
+  reference?: FormulaReferenceNode
+}
+
+/**
+ * Error interno usado para cortar el análisis/evaluación; nunca sale de este módulo.
+ */
+class FormulaFailure extends Error {
+  constructor(public readonly formulaError: FormulaError) {
+    super(formulaError.message)
+  }
+}
+
+function failWith(
+  code: FormulaErrorCode,
+  message: string,
+  position?: number,
+  length?: number
+): never {
+  throw new FormulaFailure({ code, message, position, length })
+}
+
+/**
+ * Modificadores admitidos en las referencias ([KPI:Nombre:modificador]), sin distinguir mayúsculas.
+ */
+const REFERENCE_MODIFIERS: Record<
+  string,
+  | { kind: "field"; value: FormulaReferenceField }
+  | { kind: "periodShift"; value: FormulaPeriodShift }
+  | { kind: "aggregate"; value: FormulaAggregate }
+> = {
+  actual: { kind: "field", value: "actual" },
+  target: { kind: "field", value: "target" },
+  red: { kind: "field", value: "thresholdRed" },
+  thresholdred: { kind: "field", value: "thresholdRed" },
+  yellow: { kind: "field", value: "thresholdYellow" },
+  thresholdyellow: { kind: "field", value: "thresholdYellow" },
+  prev: { kind: "periodShift", value: "previous" },
+  previous: { kind: "periodShift", value: "previous" },
+  lastperiod: { kind: "periodShift", value: "previous" },
+  lastyear: { kind: "periodShift", value: "lastYear" },
+  samelastyear: { kind: "periodShift", value: "lastYear" },
+  ytd: { kind: "aggregate", value: "ytd" },
+  trailing12: { kind: "aggregate", value: "trailing12" },
+  ttm: { kind: "aggregate", value: "trailing12" },
+  avg12: { kind: "aggregate", value: "trailing12" }
+}
+
+/**
+ * @function parseKpiReferenceBody
+ * @description Separa el identificador de KPI de sus modificadores en el cuerpo de una referencia
+ * (el texto posterior a "KPI:"). Los segmentos finales separados por ':' que coinciden con un
+ * modificador conocido se interpretan como tales; el resto forma el identificador, de modo que
+ * los nombres de KPI que contienen ':' siguen funcionando.
+ * @param {string} body - Texto de la referencia sin el prefijo "KPI:" (ej. "Ventas:target:lastYear").
+ * @returns Los datos de la referencia, un objeto `{ error }` si los modificadores se repiten o se
+ * contradicen, o null si no hay identificador.
+ */
+export function parseKpiReferenceBody(
+  body: string
+):
+  | Pick<
+      FormulaReferenceNode,
+      "identifier" | "field" | "periodShift" | "aggregate"
+    >
+  | { error: string }
+  | null {
+  const segments = body.split(":")
+  let field: FormulaReferenceField | null = null
+  let periodShift: FormulaPeriodShift | null = null
+  let aggregate: FormulaAggregate | null = null
+
+  while (segments.length > 1) {
+    const modifier =
+      REFERENCE_MODIFIERS[segments[segments.length - 1].trim().toLowerCase()]
+    if (!modifier) break
+    segments.pop()
+    const current =
+      modifier.kind === "field"
+        ? field
+        : modifier.kind === "periodShift"
+          ? periodShift
+          : aggregate
+    if (current !== null) {
+      return { error: "modificadores repetidos o incompatibles." }
+    }
+    if (modifier.kind === "field") field = modifier.value
+    if (modifier.kind === "periodShift") periodShift = modifier.value
+    if (modifier.kind === "aggregate") aggregate = modifier.value
+  }
+
+  const identifier = segments.join(":").trim()
+  if (identifier === "") return null
+
+  return {
+    identifier,
+    field: field ?? "actual",
+    periodShift: periodShift ?? "current",
+    aggregate
+  }
+}
+
+/**
+ * Convierte la ecuación en una lista de tokens.
+ */
+function tokenize(equation: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < equation.length) {
+    const char = equation[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // Números: 12, 12.5, .5
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+(\.\d+)?|\.\d+)/.exec(equation.slice(i))
+      if (!match) {
+        failWith("INVALID_NUMBER", "Número inválido.", i, 1)
+      }
+      const text = match[0]
+      if (/[0-9.]/.test(equation[i + text.length] ?? "")) {
+        failWith("INVALID_NUMBER", `Número inválido "${text}".`, i)
+      }
+      tokens.push({ type: "number", text, position: i, value: Number(text) })
+      i += text.length
+      continue
+    }
+
+    // Referencias a KPI: [KPI:...]
+    if (char === "[") {
+      const closing = equation.indexOf("]", i)
+      if (closing === -1) {
+        failWith(
+          "INVALID_REFERENCE",
+          "Referencia sin cerrar: falta ']'.",
+          i,
+          equation.length - i
+        )
+      }
+      const originalMatch = equation.slice(i, closing + 1)
+      const inner = originalMatch.slice(1, -1)
+      const parsedReference = inner.startsWith("KPI:")
+        ? parseKpiReferenceBody(inner.slice(4))
+        : null
+      if (!parsedReference) {
+        failWith(
+          "INVALID_REFERENCE",
+          `Referencia inválida "${originalMatch}". Use el formato [KPI:UUID] o [KPI:NombreDeKPI].`,
+          i,
+          originalMatch.length
+        )
+      }
+      if ("error" in parsedReference) {
+        failWith(
+          "INVALID_REFERENCE",
+          `Referencia inválida "${originalMatch}": ${parsedReference.error}`,
+          i,
+          originalMatch.length
+        )
+      }
+      const reference: FormulaReferenceNode = {
+        type: "reference",
+        ...parsedReference,
+        isId: UUID_REGEX.test(parsedReference.identifier),
+        originalMatch,
+        position: i
+      }
+      tokens.push({
+        type: "reference",
+        text: originalMatch,
+        position: i,
+        reference
+      })
+      i = closing + 1
+      continue
+    }
+
+    // Identificadores (nombres de función)
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(equation.slice(i))!
+      tokens.push({ type: "identifier", text: match[0], position: i })
+      i += match[0].length
+      continue
+    }
+
+    // Operadores de dos caracteres
+    const twoChars = equation.slice(i, i + 2)
+    if (["<=", ">=", "<>", "!=", "=="].includes(twoChars)) {
+      const text = twoChars === "!=" ? "<>" : twoChars === "==" ? "=" : twoChars
+      tokens.push({ type: "operator", text, position: i })
+      i += 2
+      continue
+    }
+
+    if ("+-*/^=<>".includes(char)) {
+      tokens.push({ type: "operator", text: char, position: i })
+      i++
+      continue
+    }
+
+    if (char === "(") {
+      tokens.push({ type: "lparen", text: char, position: i })
+      i++
+      continue
+    }
+    if (char === ")") {
+      tokens.push({ type: "rparen", text: char, position: i })
+      i++
+      continue
+    }
+    if (char === ",") {
+      tokens.push({ type: "comma", text: char, position: i })
+      i++
+      continue
+    }
+
+    failWith("INVALID_CHARACTER", `Carácter no permitido "${char}".`, i, 1)
+  }
+
+  tokens.push({ type: "end", text: "", position: equation.length })
+  return tokens
+}
+
+/**
+ * Parser descendente recursivo. Precedencia (de menor a mayor):
+ * comparación < suma/resta < multiplicación/división < signo < potencia < primario.
+ */
+class FormulaParser {
+  private index = 0
+  private depth = 0
+  readonly references: FormulaReferenceNode[] = []
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseComparison()
+    const token = this.peek()
+    if (token.type !== "end") {
+      this.unexpected(token)
+    }
+    return node
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]
+  }
+
+  private unexpected(token: Token): never {
+    if (token.type === "end") {
+      failWith(
+        "UNEXPECTED_END",
+        "La ecuación termina de forma inesperada.",
+        token.position
+      )
+    }
+    failWith(
+      "UNEXPECTED_TOKEN",
+      `Símbolo inesperado "${token.text}".`,
+      token.position,
+      token.text.length
+    )
+  }
+
+  private enter(position: number) {
+    this.depth++
+    if (this.depth > MAX_DEPTH) {
+      failWith(
+        "MAX_DEPTH_EXCEEDED",
+        `La ecuación supera la profundidad máxima de anidamiento (${MAX_DEPTH}).`,
+        position
+      )
+    }
+  }
+
+  private leave() {
+    this.depth--
+  }
+
+  private isOperator(token: Token, operators: string[]): boolean {
+    return token.type === "operator" && operators.includes(token.text)
+  }
+
+  private parseComparison(): FormulaNode {
+    let left = this.parseAdditive()
+    while (this.isOperator(this.peek(), ["=", "<>", "<", "<=", ">", ">="])) {
+      const operatorToken = this.next()
+      const right = this.parseAdditive()
+      left = {
+        type: "binary",
+        operator: operatorToken.text as FormulaBinaryOperator,
+        left,
+        right,
+        position: operatorToken.position
+      }
+    }
+    return left
+  }
+
+  private parseAdditive(): FormulaNode {
+    let left = this.parseMultiplicative()
+    while (this.isOperator(this.peek(), ["+", "-"])) {
+      const operatorToken = this.next()
+      const right = this.parseMultiplicative()
+      left = {
+        type: "binary",
+        operator: operatorToken.text as FormulaBinaryOperator,
+        left,
+        right,
+        position: operatorToken.position
+      }
+    }
+    return left
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    let left = this.parseUnary()
+    while (this.isOperator(this.peek(), ["*", "/"])) {
+      const operatorToken = this.next()
+      const right = this.parseUnary()
+      left = {
+        type: "binary",
+        operator: operatorToken.text as FormulaBinaryOperator,
+        left,
+        right,
+        position: operatorToken.position
+      }
+    }
+    return left
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek()
+    if (this.isOperator(token, ["+", "-"])) {
+      this.next()
+      this.enter(token.position)
+      const operand = this.parseUnary()
+      this.leave()
+      return {
+        type: "unary",
+        operator: token.text as "+" | "-",
+        operand,
+        position: token.position
+      }
+    }
+    return this.parsePower()
+  }
+
+  private parsePower(): FormulaNode {
+    const base = this.parsePrimary()
+    const token = this.peek()
+    if (this.isOperator(token, ["^"])) {
+      this.next()
+      this.enter(token.position)
+      // Asociatividad a la derecha: 2^3^2 = 2^(3^2)
+      const exponent = this.parseUnary()
+      this.leave()
+      return {
+        type: "binary",
+        operator: "^",
+        left: base,
+        right: exponent,
+        position: token.position
+      }
+    }
+    return base
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next()
+
+    switch (token.type) {
+      case "number":
+        return { type: "number", value: token.value!, position: token.position }
+
+      case "reference":
+        this.references.push(token.reference!)
+        return token.reference!
+
+      case "lparen": {
+        this.enter(token.position)
+        const inner = this.parseComparison()
+        this.leave()
+        const closing = this.next()
+        if (closing.type !== "rparen") {
+          if (closing.type === "end") {
+            failWith(
+              "UNEXPECTED_END",
+              "Falta cerrar un paréntesis.",
+              token.position,
+              1
+            )
+          }
+          this.unexpected(closing)
+        }
+        return inner
+      }
+
+      case "identifier":
+        return this.parseCall(token)
+
+      default:
+        return this.unexpected(token)
+    }
+  }
+
+  private parseCall(nameToken: Token): FormulaNode {
+    const name = nameToken.text.toUpperCase()
+    const definition = SUPPORTED_FUNCTIONS[name]
+    if (!definition) {
+      failWith(
+        "UNKNOWN_FUNCTION",
+        `Función desconocida "${nameToken.text}". Funciones permitidas: ${Object.keys(SUPPORTED_FUNCTIONS).join(", ")}.`,
+        nameToken.position,
+        nameToken.text.length
+      )
+    }
+
+    const open = this.next()
+    if (open.type !== "lparen") {
+      failWith(
+        "UNEXPECTED_TOKEN",
+        `Se esperaba "(" después de ${name}.`,
+        open.position,
+        open.text.length
+      )
+    }
+
+    this.enter(nameToken.position)
+    const args: FormulaNode[] = []
+    if (this.peek().type !== "rparen") {
+      args.push(this.parseComparison())
+      while (this.peek().type === "comma") {
+        this.next()
+        args.push(this.parseComparison())
+      }
+    }
+    this.leave()
+
+    const closing = this.next()
+    if (closing.type !== "rparen") {
+      this.unexpected(closing)
+    }
+
+    if (
+      args.length < definition.minArgs ||
+      (definition.maxArgs !== null && args.length > definition.maxArgs)
+    ) {
+      const expected =
+        definition.maxArgs === null
+          ? `al menos ${definition.minArgs}`
+          : definition.minArgs === definition.maxArgs
+            ? `${definition.minArgs}`
+            : `entre ${definition.minArgs} y ${definition.maxArgs}`
+      failWith(
+        "INVALID_ARGUMENT_COUNT",
+        `La función ${name} espera ${expected} argumento(s) y recibió ${args.length}.`,
+        nameToken.position,
+        nameToken.text.length
+      )
+    }
+
+    return { type: "call", name, args, position: nameToken.position }
+  }
+}
+
+/**
+ * @function parseFormula
+ * @description Analiza sintácticamente una ecuación de KPI y devuelve su AST junto
+ * con las referencias a KPIs encontradas, o un error estructurado con la posición del problema.
+ * @param {string} equation - La ecuación a analizar.
+ * @returns {FormulaParseResult} El AST y las referencias, o el error de análisis.
+ */
+export function parseFormula(equation: string): FormulaParseResult {
+  if (!equation || equation.trim() === "") {
+    return {
+      isSuccess: false,
+      error: { code: "EMPTY_EXPRESSION", message: "La ecuación está vacía." }
+    }
+  }
+
+  try {
+    const parser = new FormulaParser(tokenize(equation))
+    const ast = parser.parse()
+    return { isSuccess: true, ast, references: parser.references }
+  } catch (error) {
+    if (error instanceof FormulaFailure) {
+      return { isSuccess: false, error: error.formulaError }
+    }
+    throw error
+  }
+}
+
+/**
+ * @function validateFormula
+ * @description Valida la sintaxis de una ecuación de KPI.
+ * @param {string} equation - La ecuación a validar.
+ * @returns {FormulaError | null} El error de sintaxis o null si la ecuación es válida.
+ */
+export function validateFormula(equation: string): FormulaError | null {
+  const result = parseFormula(equation)
+  return result.isSuccess ? null : result.error
+}
+
+/**
+ * @function formatFormulaError
+ * @description Construye un mensaje legible para el usuario a partir de un error estructurado,
+ * incluyendo la posición (base 1) cuando está disponible.
+ * @param {FormulaError} error - El error a formatear.
+ * @returns {string} Mensaje de error.
+ */
+export function formatFormulaError(error: FormulaError): string {
+  return error.position !== undefined
+    ? `${error.message} (posición ${error.position + 1})`
+    : error.message
+}
+
+function ensureFinite(value: number, position: number): number {
+  if (!Number.isFinite(value)) {
+    failWith(
+      "NON_FINITE_RESULT",
+      "La operación produce un resultado no numérico o infinito.",
+      position
+    )
+  }
+  return value
+}
+
+function evaluateNode(
+  node: FormulaNode,
+  resolve: FormulaReferenceResolver
+): number {
+  switch (node.type) {
+    case "number":
+      return node.value
+
+    case "reference": {
+      const value = resolve(node)
+      if (value === null || Number.isNaN(value)) {
+        failWith(
+          "MISSING_VALUE",
+          `La referencia ${node.originalMatch} no tiene valor para el período.`,
+          node.position,
+          node.originalMatch.length
+        )
+      }
+      return value
+    }
+
+    case "unary": {
+      const operand = evaluateNode(node.operand, resolve)
+      return node.operator === "-" ? -operand : operand
+    }
+
+    case "binary": {
+      const left = evaluateNode(node.left, resolve)
+      const right = evaluateNode(node.right, resolve)
+      switch (node.operator) {
+        case "+":
+          return ensureFinite(left + right, node.position)
+        case "-":
+          return ensureFinite(left - right, node.position)
+        case "*":
+          return ensureFinite(left * right, node.position)
+        case "/":
+          if (right === 0) {
+            failWith("DIVISION_BY_ZERO", "División por cero.", node.position, 1)
+          }
+          return ensureFinite(left / right, node.position)
+        case "^":
+          return ensureFinite(Math.pow(left, right), node.position)
+        case "=":
+          return left === right ? 1 : 0
+        case "<>":
+          return left !== right ? 1 : 0
+        case "<":
+          return left < right ? 1 : 0
+        case "<=":
+          return left <= right ? 1 : 0
+        case ">":
+          return left > right ? 1 : 0
+        case ">=":
+          return left >= right ? 1 : 0
+      }
+      break
+    }
+
+    case "call": {
+      // IF se evalúa de forma perezosa: solo la rama seleccionada, lo que permite
+      // proteger divisiones, ej. IF([KPI:b] = 0, 0, [KPI:a] / [KPI:b]).
+      if (node.name === "IF") {
+        const condition = evaluateNode(node.args[0], resolve)
+        return evaluateNode(
+          condition !== 0 ? node.args[1] : node.args[2],
+          resolve
+        )
+      }
+
+      const args = node.args.map(arg => evaluateNode(arg, resolve))
+      switch (node.name) {
+        case "MIN":
+          return Math.min(...args)
+        case "MAX":
+          return Math.max(...args)
+        case "SUM":
+          return ensureFinite(
+            args.reduce((acc, value) => acc + value, 0),
+            node.position
+          )
+        case "AVG":
+          return ensureFinite(
+            args.reduce((acc, value) => acc + value, 0) / args.length,
+            node.position
+          )
+        case "ABS":
+          return Math.abs(args[0])
+        case "ROUND": {
+          const decimals = args.length > 1 ? args[1] : 0
+          if (!Number.isInteger(decimals) || decimals < 0 || decimals > 10) {
+            failWith(
+              "INVALID_ARGUMENT",
+              "ROUND admite un número entero de decimales entre 0 y 10.",
+              node.position
+            )
+          }
+          const factor = Math.pow(10, decimals)
+          return Math.round(args[0] * factor) / factor
+        }
+      }
+      break
+    }
+  }
+
+  return failWith(
+    "UNEXPECTED_TOKEN",
+    "Expresión no soportada.",
+    (node as FormulaNode).position
+  )
+}
+
+/**
+ * @function evaluateFormulaAst
+ * @description Evalúa un AST previamente analizado con `parseFormula`.
+ * @param {FormulaNode} ast - El árbol sintáctico a evaluar.
+ * @param {FormulaReferenceResolver} resolve - Función que devuelve el valor de cada referencia a KPI.
+ * @returns {FormulaEvaluationResult} El valor numérico o un error estructurado
+ * (división por cero, valor faltante o resultado no finito).
+ */
+export function evaluateFormulaAst(
+  ast: FormulaNode,
+  resolve: FormulaReferenceResolver
+): FormulaEvaluationResult {
+  try {
+    return { isSuccess: true, value: evaluateNode(ast, resolve) }
+  } catch (error) {
+    if (error instanceof FormulaFailure) {
+      return { isSuccess: false, error: error.formulaError }
+    }
+    throw error
+  }
+}
+
+/**
+ * @function evaluateFormula
+ * @description Analiza y evalúa una ecuación de KPI en un solo paso.
+ * @param {string} equation - La ecuación a evaluar.
+ * @param {FormulaReferenceResolver} resolve - Función que devuelve el valor de cada referencia a KPI.
+ * @returns {FormulaEvaluationResult} El valor numérico o un error estructurado.
+ */
+export function evaluateFormula(
+  equation: string,
+  resolve: FormulaReferenceResolver
+): FormulaEvaluationResult {
+  const parsed = parseFormula(equation)
+  if (!parsed.isSuccess) {
+    return parsed
+  }
+  return evaluateFormulaAst(parsed.ast, resolve)
+}
@@ -0,0 +1,365 @@
+/**
+ * @file lib/import-preview.ts
+ * @brief Diferencia entre los valores importados y los valores de KPI ya guardados.
+ * @description Este módulo compara los valores que produce una importación (estándar o simple) con
+ * los existentes en `kpi_values` para cada KPI y período, y clasifica cada fila como inserción,
+ * actualización u omisión (fila inválida o sin cambios), con los valores, puntuaciones y colores
+ * anteriores y nuevos. Se usa tanto para la vista previa sin escritura (dry-run) como para decidir
+ * qué valores escribe una ejecución real. Antes de comparar, las filas que caen en el mismo KPI y
+ * período se combinan según el tipo de agregación del KPI.
+ */
+
+import {
+  InsertKpiValue,
+  SelectKpiValue,
+  kpiAggregationTypeEnum,
+  kpiValuesTable
+} from "@/db/schema"
+import { ImportChangeRow, ImportChangeSet } from "@/types"
+import { inArray } from "drizzle-orm"
+
+/**
+ * @interface ImportCandidate
+ * @description Valor de KPI producido por una fila de la importación. Si combina varias filas del
+ * mismo período, `combinedRowNumbers` indica las filas de origen y `reason` lo describe.
+ */
+export interface ImportCandidate {
+  rowNumber: number | null
+  kpiName: string | null
+  value: InsertKpiValue
+  combinedRowNumbers?: number[]
+  reason?: string | null
+}
+
+/**
+ * @typedef {'Sum' | 'Average' | 'Last Value'} KpiAggregationType
+ * @description Alias para los tipos de agregación de KPI definidos en el esquema de Drizzle.
+ */
+export type KpiAggregationType =
+  (typeof kpiAggregationTypeEnum.enumValues)[number]
+
+const AGGREGATION_LABELS: Record<KpiAggregationType, string> = {
+  Sum: "suma",
+  Average: "promedio",
+  "Last Value": "último valor"
+}
+
+/**
+ * @interface ImportSkippedRow
+ * @description Fila de la importación que no produce un valor, con el motivo.
+ */
+export interface ImportSkippedRow {
+  rowNumber: number | null
+  reason: string
+  kpiId?: string | null
+  kpiName?: string | null
+  periodDate?: string | null
+}
+
+/**
+ * @typedef ExistingKpiValue
+ * @description Campos de un valor de KPI guardado que usan la vista previa y el historial de ejecuciones.
+ */
+export type ExistingKpiValue = Pick<
+  SelectKpiValue,
+  | "kpiId"
+  | "periodDate"
+  | "actualValue"
+  | "targetValue"
+  | "thresholdRed"
+  | "thresholdYellow"
+  | "score"
+  | "color"
+  | "note"
+  | "updatedByUserId"
+  | "isManualEntry"
+>
+
+/**
+ * @constant IMPORT_COMPARED_FIELDS
+ * @description Campos escritos por las importaciones que determinan si un valor cambia.
+ */
+export const IMPORT_COMPARED_FIELDS = [
+  "actualValue",
+  "targetValue",
+  "thresholdRed",
+  "thresholdYellow",
+  "note"
+] as const
+
+/**
+ * @function kpiValueKey
+ * @description Clave única de un valor de KPI (KPI + período), igual al índice único de `kpi_values`.
+ */
+export function kpiValueKey(kpiId: string, periodDate: string): string {
+  return `${kpiId}|${periodDate}`
+}
+
+/**
+ * @function normalizeComparedValue
+ * @description Normaliza un campo comparado (texto vacío equivale a null).
+ */
+export function normalizeComparedValue(
+  value: string | null | undefined
+): string | null {
+  const text = value?.trim()
+  return text ? text : null
+}
+
+/**
+ * @function aggregatePeriodValues
+ * @description Combina los valores reales de varias filas del mismo período. "Sum" y "Average"
+ * operan sobre los valores numéricos; "Last Value", o un grupo sin valores numéricos (ej. KPIs de
+ * texto), toma el último valor no vacío en el orden del origen.
+ * @param {(string | null | undefined)[]} values - Valores en el orden del origen.
+ * @param {KpiAggregationType} aggregationType - Tipo de agregación del KPI.
+ * @returns {string | null} El valor combinado, o null si todos están vacíos.
+ */
+export function aggregatePeriodValues(
+  values: (string | null | undefined)[],
+  aggregationType: KpiAggregationType
+): string | null {
+  const present = values
+    .map(value => normalizeComparedValue(value))
+    .filter((value): value is string => value !== null)
+  if (present.length === 0) return null
+
+  const numbers = present.map(Number).filter(value => Number.isFinite(value))
+  if (aggregationType === "Last Value" || numbers.length === 0) {
+    return present[present.length - 1]
+  }
+  const sum = numbers.reduce((acc, value) => acc + value, 0)
+  const result = aggregationType === "Sum" ? sum : sum / numbers.length
+  // Elimina el ruido de coma flotante (ej. 0.30000000000000004)
+  return String(Number(result.toFixed(10)))
+}
+
+/**
+ * @function combineSamePeriodCandidates
+ * @description Combina los valores de una importación que caen en el mismo KPI y período (tras
+ * normalizar la fecha al inicio del período) en un solo valor: el valor real se agrega con el
+ * `aggregationType` del KPI (ver `aggregatePeriodValues`) y el objetivo, los umbrales y la nota toman
+ * el último valor no vacío. El valor combinado conserva la primera fila y la posición de la primera
+ * aparición, y registra en `combinedRowNumbers` las filas de origen. La puntuación y el color deben
+ * calcularse después de combinar.
+ * @param {ImportCandidate[]} candidates - Valores producidos por la importación, en orden.
+ * @param {Map<string, KpiAggregationType>} aggregationTypes - Tipo de agregación por ID de KPI
+ * ("Last Value" si falta).
+ * @returns {ImportCandidate[]} Un valor por KPI y período.
+ */
+export function combineSamePeriodCandidates(
+  candidates: ImportCandidate[],
+  aggregationTypes: Map<string, KpiAggregationType>
+): ImportCandidate[] {
+  const groups = new Map<string, ImportCandidate[]>()
+  for (const candidate of candidates) {
+    const key = kpiValueKey(candidate.value.kpiId, candidate.value.periodDate)
+    const group = groups.get(key)
+    if (group) group.push(candidate)
+    else groups.set(key, [candidate])
+  }
+
+  return Array.from(groups.values()).map(group => {
+    if (group.length === 1) return group[0]
+    const [first] = group
+    const last = group[group.length - 1]
+    const values = group.map(candidate => candidate.value)
+    const lastPresent = (
+      field: "targetValue" | "thresholdRed" | "thresholdYellow" | "note"
+    ) => {
+      const present = values.filter(
+        value => normalizeComparedValue(value[field]) !== null
+      )
+      if (present.length > 0) return present[present.length - 1][field]
+      return values.some(value => value[field] !== undefined) ? null : undefined
+    }
+
+    const aggregationType =
+      aggregationTypes.get(first.value.kpiId) ?? "Last Value"
+    const combinedRowNumbers = group
+      .flatMap(
+        candidate => candidate.combinedRowNumbers ?? [candidate.rowNumber]
+      )
+      .filter((rowNumber): rowNumber is number => rowNumber !== null)
+
+    return {
+      rowNumber: first.rowNumber,
+      kpiName: first.kpiName,
+      combinedRowNumbers,
+      reason: `Combina las filas ${combinedRowNumbers.join(", ")} del mismo período (${AGGREGATION_LABELS[aggregationType]}).`,
+      value: {
+        ...last.value,
+        actualValue: aggregatePeriodValues(
+          values.map(value => value.actualValue),
+          aggregationType
+        ),
+        targetValue: lastPresent("targetValue"),
+        thresholdRed: lastPresent("thresholdRed"),
+        thresholdYellow: lastPresent("thresholdYellow"),
+        note: lastPresent("note")
+      }
+    }
+  })
+}
+
+/**
+ * @function loadExistingKpiValues
+ * @description Carga los valores guardados de los pares KPI + período indicados.
+ * @param {any} drizzle - Instancia de Drizzle.
+ * @param {{ kpiId: string; periodDate: string }[]} keys - KPIs y períodos a consultar.
+ * @returns {Promise<Map<string, ExistingKpiValue>>} Valores por `kpiValueKey`.
+ */
+export async function loadExistingKpiValues(
+  drizzle: any,
+  keys: { kpiId: string; periodDate: string }[]
+): Promise<Map<string, ExistingKpiValue>> {
+  const existing = new Map<string, ExistingKpiValue>()
+  if (keys.length === 0) return existing
+
+  const wanted = new Set(keys.map(k => kpiValueKey(k.kpiId, k.periodDate)))
+  const rows: ExistingKpiValue[] = await drizzle
+    .select({
+      kpiId: kpiValuesTable.kpiId,
+      periodDate: kpiValuesTable.periodDate,
+      actualValue: kpiValuesTable.actualValue,
+      targetValue: kpiValuesTable.targetValue,
+      thresholdRed: kpiValuesTable.thresholdRed,
+      thresholdYellow: kpiValuesTable.thresholdYellow,
+      score: kpiValuesTable.score,
+      color: kpiValuesTable.color,
+      note: kpiValuesTable.note,
+      updatedByUserId: kpiValuesTable.updatedByUserId,
+      isManualEntry: kpiValuesTable.isManualEntry
+    })
+    .from(kpiValuesTable)
+    .where(
+      inArray(kpiValuesTable.kpiId, Array.from(new Set(keys.map(k => k.kpiId))))
+    )
+
+  for (const row of rows) {
+    const key = kpiValueKey(row.kpiId, row.periodDate)
+    if (wanted.has(key)) existing.set(key, row)
+  }
+  return existing
+}
+
+/**
+ * @function buildImportChangeSet
+ * @description Clasifica los valores de una importación frente a los existentes. Los valores se
+ * procesan en orden, de modo que si dos filas escriben el mismo KPI y período la segunda se compara
+ * con la primera (igual que el upsert); las importaciones los combinan antes con
+ * `combineSamePeriodCandidates`. Un valor sin cambios en los campos que la importación
+ * escribe se omite. Solo se devuelven para escribir las inserciones y actualizaciones, junto con
+ * el valor que quedará guardado en cada KPI y período escrito.
+ * @param {ImportCandidate[]} candidates - Valores producidos por la importación.
+ * @param {ImportSkippedRow[]} skipped - Filas omitidas antes de producir un valor.
+ * @param {Map<string, ExistingKpiValue>} existing - Valores guardados por `kpiValueKey`.
+ * @param {boolean} dryRun - Si el resultado es una vista previa (no se escribirá nada).
+ * @returns {{ changeSet: ImportChangeSet; valuesToWrite: InsertKpiValue[]; writtenValues: Map<string, ExistingKpiValue> }}
+ */
+export function buildImportChangeSet(
+  candidates: ImportCandidate[],
+  skipped: ImportSkippedRow[],
+  existing: Map<string, ExistingKpiValue>,
+  dryRun: boolean
+): {
+  changeSet: ImportChangeSet
+  valuesToWrite: InsertKpiValue[]
+  writtenValues: Map<string, ExistingKpiValue>
+} {
+  const current = new Map(existing)
+  const writtenValues = new Map<string, ExistingKpiValue>()
+  const rows: ImportChangeRow[] = skipped.map(row => ({
+    rowNumber: row.rowNumber,
+    action: "skip",
+    reason: row.reason,
+    kpiId: row.kpiId ?? null,
+    kpiName: row.kpiName ?? null,
+    periodDate: row.periodDate ?? null,
+    oldActualValue: null,
+    newActualValue: null,
+    oldTargetValue: null,
+    newTargetValue: null,
+    oldScore: null,
+    newScore: null,
+    oldColor: null,
+    newColor: null
+  }))
+  const valuesToWrite: InsertKpiValue[] = []
+
+  for (const { rowNumber, kpiName, value, reason } of candidates) {
+    const key = kpiValueKey(value.kpiId, value.periodDate)
+    const previous = current.get(key)
+    const changed =
+      !previous ||
+      IMPORT_COMPARED_FIELDS.some(
+        field =>
+          value[field] !== undefined &&
+          normalizeComparedValue(value[field]) !==
+            normalizeComparedValue(previous[field])
+      )
+
+    rows.push({
+      rowNumber,
+      action: !previous ? "insert" : changed ? "update" : "skip",
+      reason: changed ? (reason ?? null) : "El valor guardado no cambia.",
+      kpiId: value.kpiId,
+      kpiName,
+      periodDate: value.periodDate,
+      oldActualValue: previous?.actualValue ?? null,
+      newActualValue: value.actualValue ?? null,
+      oldTargetValue: previous?.targetValue ?? null,
+      newTargetValue: value.targetValue ?? null,
+      oldScore: previous?.score ?? null,
+      newScore: value.score ?? null,
+      oldColor: previous?.color ?? null,
+      newColor: value.color ?? null
+    })
+
+    if (changed) {
+      valuesToWrite.push(value)
+      const written: ExistingKpiValue = {
+        kpiId: value.kpiId,
+        periodDate: value.periodDate,
+        actualValue: value.actualValue ?? null,
+        targetValue:
+          value.targetValue !== undefined
+            ? value.targetValue
+            : (previous?.targetValue ?? null),
+        thresholdRed:
+          value.thresholdRed !== undefined
+            ? value.thresholdRed
+            : (previous?.thresholdRed ?? null),
+        thresholdYellow:
+          value.thresholdYellow !== undefined
+            ? value.thresholdYellow
+            : (previous?.thresholdYellow ?? null),
+        score: value.score ?? null,
+        color: value.color ?? null,
+        note: value.note ?? null,
+        updatedByUserId: value.updatedByUserId ?? null,
+        isManualEntry: value.isManualEntry ?? false
+      }
+      current.set(key, written)
+      writtenValues.set(key, written)
+    }
+  }
+
+  rows.sort(
+    (a, b) =>
+      (a.rowNumber ?? Number.MAX_SAFE_INTEGER) -
+      (b.rowNumber ?? Number.MAX_SAFE_INTEGER)
+  )
+
+  return {
+    changeSet: {
+      dryRun,
+      rows,
+      insertCount: rows.filter(row => row.action === "insert").length,
+      updateCount: rows.filter(row => row.action === "update").length,
+      skipCount: rows.filter(row => row.action === "skip").length
+    },
+    valuesToWrite,
+    writtenValues
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * @file lib/import-runs.ts
+ * @brief Historial de ejecuciones de importaciones guardadas y reversión (rollback) de una ejecución.
+ * @description Este módulo registra en `import_runs` el inicio y el resultado de cada ejecución
+ * (origen, estado, conteos de filas y motivos de rechazo) y en `import_run_changes` el valor anterior
+ * y el escrito de cada KPI y período. Para revertir una ejecución planifica, por cada valor tocado,
+ * si se restaura el anterior, se elimina (si la ejecución lo creó) o se conserva porque cambió
+ * después de la ejecución (conflicto).
+ */
+
+import {
+  ImportRunRejectedRow,
+  KpiValueSnapshot,
+  SelectImportRun,
+  SelectImportRunChange,
+  importRunChangesTable,
+  importRunStatusEnum,
+  importRunTriggerEnum,
+  importRunsTable
+} from "@/db/schema"
+import {
+  ExistingKpiValue,
+  IMPORT_COMPARED_FIELDS,
+  kpiValueKey,
+  normalizeComparedValue
+} from "@/lib/import-preview"
+import { eq } from "drizzle-orm"
+
+// Filas rechazadas que se guardan con su motivo en cada ejecución
+export const IMPORT_RUN_MAX_REJECTED_ROWS = 500
+
+/**
+ * @interface ImportRunCounts
+ * @description Conteos de filas de una ejecución.
+ */
+export interface ImportRunCounts {
+  rowsRead: number
+  rowsTransformed: number
+  rowsUpserted: number
+  rowsRejected: number
+}
+
+/**
+ * @interface ImportRunRollbackPlan
+ * @description Cambios de una ejecución agrupados según cómo se revierten.
+ */
+export interface ImportRunRollbackPlan {
+  restore: SelectImportRunChange[]
+  remove: SelectImportRunChange[]
+  conflicts: SelectImportRunChange[]
+}
+
+/**
+ * @function toKpiValueSnapshot
+ * @description Extrae los campos de un valor de KPI que se guardan en el historial.
+ */
+export function toKpiValueSnapshot(value: ExistingKpiValue): KpiValueSnapshot {
+  return {
+    actualValue: value.actualValue,
+    targetValue: value.targetValue,
+    thresholdRed: value.thresholdRed,
+    thresholdYellow: value.thresholdYellow,
+    score: value.score,
+    color: value.color,
+    note: value.note,
+    updatedByUserId: value.updatedByUserId,
+    isManualEntry: value.isManualEntry
+  }
+}
+
+/**
+ * @function startImportRun
+ * @description Registra el inicio de una ejecución con estado "running".
+ * @param {any} drizzle - Instancia de Drizzle.
+ * @param {{ savedImportId: string; trigger: 'manual' | 'cron'; triggeredByUserId: string | null }} run
+ * @returns {Promise<SelectImportRun>} La ejecución registrada.
+ */
+export async function startImportRun(
+  drizzle: any,
+  run: {
+    savedImportId: string
+    trigger: (typeof importRunTriggerEnum.enumValues)[number]
+    triggeredByUserId: string | null
+  }
+): Promise<SelectImportRun> {
+  const [created] = await drizzle
+    .insert(importRunsTable)
+    .values({ ...run, status: "running", startedAt: new Date() })
+    .returning()
+  return created
+}
+
+/**
+ * @function finishImportRun
+ * @description Registra el resultado de una ejecución: estado, conteos, filas rechazadas (hasta
+ * `IMPORT_RUN_MAX_REJECTED_ROWS`) y el error, si falló.
+ * @param {any} drizzle - Instancia de Drizzle (o transacción).
+ * @param {string} runId - ID de la ejecución.
+ * @param {object} result - Estado final, conteos, filas rechazadas y mensaje de error.
+ * @returns {Promise<void>}
+ */
+export async function finishImportRun(
+  drizzle: any,
+  runId: string,
+  result: {
+    status: (typeof importRunStatusEnum.enumValues)[number]
+    counts: ImportRunCounts
+    rejectedRows?: ImportRunRejectedRow[]
+    errorMessage?: string | null
+  }
+): Promise<void> {
+  await drizzle
+    .update(importRunsTable)
+    .set({
+      status: result.status,
+      finishedAt: new Date(),
+      ...result.counts,
+      rejectedRows: (result.rejectedRows ?? []).slice(
+        0,
+        IMPORT_RUN_MAX_REJECTED_ROWS
+      ),
+      errorMessage: result.errorMessage ?? null,
+      updatedAt: new Date()
+    })
+    .where(eq(importRunsTable.id, runId))
+}
+
+/**
+ * @function recordImportRunChanges
+ * @description Guarda el valor anterior y el escrito de cada KPI y período que escribe una ejecución.
+ * @param {any} drizzle - Instancia de Drizzle (o transacción).
+ * @param {string} runId - ID de la ejecución.
+ * @param {Map<string, ExistingKpiValue>} previousValues - Valores antes de la ejecución por `kpiValueKey`.
+ * @param {Map<string, ExistingKpiValue>} writtenValues - Valores escritos por `kpiValueKey`.
+ * @returns {Promise<void>}
+ */
+export async function recordImportRunChanges(
+  drizzle: any,
+  runId: string,
+  previousValues: Map<string, ExistingKpiValue>,
+  writtenValues: Map<string, ExistingKpiValue>
+): Promise<void> {
+  if (writtenValues.size === 0) return
+  await drizzle.insert(importRunChangesTable).values(
+    Array.from(writtenValues, ([key, written]) => {
+      const previous = previousValues.get(key)
+      return {
+        runId,
+        kpiId: written.kpiId,
+        periodDate: written.periodDate,
+        previousValue: previous ? toKpiValueSnapshot(previous) : null,
+        newValue: toKpiValueSnapshot(written)
+      }
+    })
+  )
+}
+
+/**
+ * @function planImportRunRollback
+ * @description Decide cómo revertir cada valor tocado por una ejecución: si el valor guardado sigue
+ * siendo el que escribió la ejecución, se restaura el anterior o, si la ejecución lo creó, se elimina.
+ * Si cambió o se eliminó después, se conserva y se informa como conflicto.
+ * @param {SelectImportRunChange[]} changes - Cambios registrados de la ejecución.
+ * @param {Map<string, ExistingKpiValue>} currentValues - Valores guardados actualmente por `kpiValueKey`.
+ * @returns {ImportRunRollbackPlan} Cambios a restaurar, a eliminar y en conflicto.
+ */
+export function planImportRunRollback(
+  changes: SelectImportRunChange[],
+  currentValues: Map<string, ExistingKpiValue>
+): ImportRunRollbackPlan {
+  const plan: ImportRunRollbackPlan = { restore: [], remove: [], conflicts: [] }
+  for (const change of changes) {
+    const current = currentValues.get(
+      kpiValueKey(change.kpiId, change.periodDate)
+    )
+    const unchangedSinceRun =
+      current !== undefined &&
+      IMPORT_COMPARED_FIELDS.every(
+        field =>
+          normalizeComparedValue(current[field]) ===
+          normalizeComparedValue(change.newValue[field])
+      )
+
+    if (!unchangedSinceRun) plan.conflicts.push(change)
+    else if (change.previousValue) plan.restore.push(change)
+    else plan.remove.push(change)
+  }
+  return plan
+}
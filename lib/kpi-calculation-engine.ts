@@ -1,13 +1,59 @@
 /**
- * @file lib/kpi-calculation-engine2.ts
- * @brief Proporciona utilidades para el procesamiento de ecuaciones de cálculo de KPI y futuras lógicas de rollup.
+ * @file lib/kpi-calculation-engine.ts
+ * @brief Proporciona utilidades para el procesamiento de ecuaciones de cálculo de KPI y el cálculo de rollups.
  * @description Este módulo contiene funciones para extraer referencias a otros KPIs dentro de una ecuación
- * y para sustituir esas referencias por valores reales. También incluye un placeholder para
- * la función de cálculo de valores de KPI de rollup, sentando las bases para futuras implementaciones
- * del motor de cálculo y auditoría.
+ * y para sustituir esas referencias por valores reales. También evalúa ecuaciones de cálculo para un
+ * período (mediante el evaluador seguro de `lib/formula-evaluator.ts`) y persiste el resultado en
+ * `kpi_values`, y recalcula en cascada (en orden topológico) los KPIs calculados que dependen de un
+ * valor modificado. Calcula además los KPIs de rollup agregando los KPIs del mismo nombre en las
+ * organizaciones hijas, y los vuelve a calcular cuando cambia el valor de un hijo.
  */
-import { SelectKpi, kpiScoringTypeEnum, kpiDataTypeEnum } from "@/db/schema"
+import {
+  SelectKpi,
+  SelectKpiValue,
+  InsertKpiValue,
+  kpiScoringTypeEnum,
+  kpiDataTypeEnum,
+  SelectOrganization,
+  kpisTable,
+  kpiValuesTable,
+  organizationsTable,
+  scorecardElementsTable
+} from "@/db/schema"
 import { getLogger } from "@/lib/logger"
+import {
+  calculateKpiScoreAndColor,
+  getKpiScoringOptions
+} from "@/lib/kpi-scoring"
+import {
+  getAncestorOrganizations,
+  getDescendantOrganizations
+} from "@/lib/organization-utils"
+import {
+  evaluateFormulaAst,
+  parseFormula,
+  parseKpiReferenceBody
+} from "@/lib/formula-evaluator"
+import {
+  KpiDependencyGraph,
+  KpiGraphNode,
+  KpiReferenceCandidate,
+  buildKpiDependencyGraph,
+  getRecalculationOrder,
+  matchKpiReference
+} from "@/lib/kpi-dependency-graph"
+import { invalidateScorecardScoresForKpis } from "@/lib/scorecard-scoring"
+import { FormulaError, FormulaReferenceNode } from "@/types"
+import {
+  KpiCalendarFrequency,
+  getFiscalYearStartMonth,
+  getReferencePeriodDate,
+  getTrailingTwelveMonthsRange,
+  getYearToDateRange,
+  normalizePeriodDate,
+  shiftPeriodDate
+} from "@/lib/period-utils"
+import { and, eq, gt, gte, inArray, isNotNull, lte, or, sql } from "drizzle-orm"
 
 const logger = getLogger("kpi-calculation-engine")
 
@@ -27,7 +73,7 @@ type KpiDataType = (typeof kpiDataTypeEnum.enumValues)[number]
  * @interface KpiReference
  * @description Representa una referencia a un KPI dentro de una ecuación de cálculo.
  * @property {'kpi'} type - El tipo de referencia (actualmente solo 'kpi').
- * @property {string} identifier - El ID (UUID) o nombre (string) del KPI referenciado.
+ * @property {string} identifier - El ID (UUID), nombre, código externo o alias del KPI referenciado, sin modificadores.
  * @property {boolean} isId - Verdadero si el identifier es un UUID, falso si es un nombre.
  * @property {string} originalMatch - La cadena exacta que se encontró en la ecuación (ej. '[KPI:UUID]' o '[KPI:NombreDeKPI]').
  */
@@ -41,13 +87,17 @@ export interface KpiReference {
 /**
  * @function extractKpiReferences
  * @description Extrae todas las referencias a KPIs de una cadena de ecuación.
- * Las referencias deben seguir el formato [KPI:UUID] o [KPI:NombreDeKPI].
+ * Las referencias deben seguir el formato [KPI:UUID] o [KPI:NombreDeKPI], con modificadores opcionales.
+ * En lugar del nombre se puede usar el código externo o un alias del KPI (ej. [KPI:VTA-001]).
  * @param {string} equation - La cadena de la ecuación de cálculo de donde se extraerán las referencias.
  * @returns {KpiReference[]} Un array de objetos KpiReference encontrados en la ecuación.
  * @notes
  *  Soporta referencias por UUID o por cualquier cadena de texto que no contenga ']' como identificador.
- *  Este paso no valida si los KPIs referenciados realmente existen en la base de datos.
- *  Podría ser extendido en el futuro para manejar referencias con períodos de tiempo (ej., [KPI:UUID:lastMonth]).
+ *  Este paso no valida si los KPIs referenciados realmente existen en la base de datos; los
+ *  identificadores que no son UUID se resuelven después por nombre, código externo o alias
+ *  (ver `resolveKpiReferenceIds`).
+ *  Las referencias pueden llevar modificadores de campo, período y agregación (ej., [KPI:UUID:prev],
+ *  [KPI:Ventas:target], [KPI:Ventas:ytd:lastYear]); el identificador devuelto no los incluye.
  */
 export function extractKpiReferences(equation: string): KpiReference[] {
   const references: KpiReference[] = []
@@ -64,7 +114,12 @@ export function extractKpiReferences(equation: string): KpiReference[] {
   while ((match = kpiReferenceRegex.exec(equation)) !== null) {
     const fullMatch = match[0]
     const identifierRaw = match[1]
-    const identifier = identifierRaw.trim() // Eliminar espacios en blanco alrededor del identificador
+    // Separar los modificadores opcionales (ej. ':target', ':prev', ':ytd') del identificador
+    const parsedBody = parseKpiReferenceBody(identifierRaw)
+    const identifier =
+      parsedBody && !("error" in parsedBody)
+        ? parsedBody.identifier
+        : identifierRaw.trim() // Eliminar espacios en blanco alrededor del identificador
 
     // Verifica si el identificador coincide con el patrón de un UUID para determinar su tipo.
     const isId = uuidRegex.test(identifier)
@@ -135,43 +190,1114 @@ export function substituteKpiValues(
   return substitutedEquation
 }
 
+/**
+ * @interface RollupKpi
+ * @description KPI de rollup con los datos necesarios para localizar a sus KPIs hijos.
+ */
+interface RollupKpi {
+  id: string
+  name: string
+  organizationId: string
+  scoringType: SelectKpi["scoringType"]
+  scoringDirection: SelectKpi["scoringDirection"]
+  scoringMethod: SelectKpi["scoringMethod"]
+  targetTolerance: SelectKpi["targetTolerance"]
+  aggregationType: SelectKpi["aggregationType"]
+  rollupEnabled: boolean
+}
+
+/**
+ * @function loadRollupKpi
+ * @description Carga un KPI junto con el nombre y la organización de su elemento de Scorecard.
+ */
+async function loadRollupKpi(
+  drizzle: any,
+  kpiId: string
+): Promise<RollupKpi | undefined> {
+  const [row]: RollupKpi[] = await drizzle
+    .select({
+      id: kpisTable.id,
+      name: scorecardElementsTable.name,
+      organizationId: scorecardElementsTable.organizationId,
+      scoringType: kpisTable.scoringType,
+      scoringDirection: kpisTable.scoringDirection,
+      scoringMethod: kpisTable.scoringMethod,
+      targetTolerance: kpisTable.targetTolerance,
+      aggregationType: kpisTable.aggregationType,
+      rollupEnabled: kpisTable.rollupEnabled
+    })
+    .from(kpisTable)
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(eq(kpisTable.id, kpiId))
+  return row
+}
+
+/**
+ * @function getRollupContributorKpiIds
+ * @description Determina los KPIs hijos que aportan al rollup de un KPI: los KPIs con el mismo nombre
+ * en las organizaciones descendientes. Si una organización intermedia tiene a su vez un KPI de rollup
+ * con ese nombre, se usa su valor y se omite su subárbol, para no contar dos veces los mismos datos.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {RollupKpi} kpi - El KPI de rollup (padre).
+ * @returns {Promise<string[]>} IDs de los KPIs hijos que aportan al rollup.
+ */
+async function getRollupContributorKpiIds(
+  drizzle: any,
+  kpi: RollupKpi
+): Promise<string[]> {
+  const descendantIds = await getDescendantOrganizations(
+    drizzle,
+    kpi.organizationId
+  )
+  if (descendantIds.length === 0) return []
+
+  const organizations: Pick<SelectOrganization, "id" | "parentId">[] =
+    await drizzle
+      .select({
+        id: organizationsTable.id,
+        parentId: organizationsTable.parentId
+      })
+      .from(organizationsTable)
+      .where(inArray(organizationsTable.id, descendantIds))
+  const parentById = new Map(organizations.map(o => [o.id, o.parentId]))
+
+  const matched: {
+    id: string
+    organizationId: string
+    rollupEnabled: boolean
+  }[] = await drizzle
+    .select({
+      id: kpisTable.id,
+      organizationId: scorecardElementsTable.organizationId,
+      rollupEnabled: kpisTable.rollupEnabled
+    })
+    .from(kpisTable)
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(
+      and(
+        eq(scorecardElementsTable.name, kpi.name),
+        inArray(scorecardElementsTable.organizationId, descendantIds)
+      )
+    )
+
+  const rollupOrganizations = new Set(
+    matched.filter(m => m.rollupEnabled).map(m => m.organizationId)
+  )
+
+  return matched
+    .filter(m => {
+      // Omitir si algún ancestro intermedio (entre el hijo y el padre) ya agrega este KPI
+      let current = parentById.get(m.organizationId) ?? null
+      while (current && current !== kpi.organizationId) {
+        if (rollupOrganizations.has(current)) return false
+        current = parentById.get(current) ?? null
+      }
+      return true
+    })
+    .map(m => m.id)
+}
+
+/**
+ * @function aggregateValues
+ * @description Aplica el tipo de agregación a los valores de los KPIs hijos.
+ * "Last Value" toma el valor actualizado más recientemente.
+ */
+function aggregateValues(
+  values: { value: number; updatedAt: Date }[],
+  aggregationType: RollupKpi["aggregationType"]
+): number {
+  switch (aggregationType) {
+    case "Sum":
+      return values.reduce((acc, v) => acc + v.value, 0)
+    case "Average":
+      return values.reduce((acc, v) => acc + v.value, 0) / values.length
+    case "Last Value":
+      return [...values].sort(
+        (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+      )[0].value
+  }
+}
+
 /**
  * @function calculateKpiRollupValue
- * @description [PLACEHOLDER] Calcula el valor de un KPI de rollup agregando valores de KPIs con el mismo nombre
- * en organizaciones hijas, utilizando el tipo de agregación especificado.
+ * @description Calcula el valor de un KPI de rollup para un período agregando los valores de los KPIs
+ * con el mismo nombre en las organizaciones hijas (ver `getRollupContributorKpiIds`), según su
+ * `aggregationType` (Sum, Average, Last Value).
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
  * @param {string} kpiId - El ID del KPI de rollup (padre).
- * @param {string} organizationId - El ID de la organización padre.
- * @param {'Sum' | 'Average' | 'Last Value'} aggregationType - El tipo de agregación a realizar.
- * @returns {Promise<string | null>} El valor agregado calculado o null si no hay datos o la agregación falla.
+ * @param {string} periodDate - El período a agregar (YYYY-MM-DD).
+ * @returns {Promise<string | null>} El valor agregado, o null si ningún hijo tiene valor para el período.
  * @notes
- *  Esta es una función placeholder. La implementación completa requerirá:
- *  1. Recorrer recursivamente la jerarquía de organizaciones hijas.
- *  2. Identificar KPIs con el mismo nombre en cada organización hija.
- *  3. Obtener los valores (`actualValue`) de esos KPIs hijos para un período relevante.
- *  4. Aplicar la lógica de agregación (Suma, Promedio, Último Valor).
- *  5. Considerar el manejo de diferentes períodos de tiempo y el `dataType` de los KPIs.
- *  Esta lógica será implementada en un paso posterior del plan de desarrollo.
+ *  Los hijos sin valor (o con un valor no numérico) para el período se omiten de la agregación.
  */
 export async function calculateKpiRollupValue(
+  drizzle: any,
   kpiId: string,
-  organizationId: string,
-  aggregationType: "Sum" | "Average" | "Last Value"
+  periodDate: string
 ): Promise<string | null> {
-  logger.info(
-    "PLACEHOLDER: Invocando la función de cálculo de rollup para KPI.",
-    { kpiId, organizationId, aggregationType }
+  const kpi = await loadRollupKpi(drizzle, kpiId)
+  if (!kpi) return null
+  const value = await aggregateRollupForPeriod(drizzle, kpi, periodDate)
+  return value !== null ? formatCalculatedValue(value) : null
+}
+
+async function aggregateRollupForPeriod(
+  drizzle: any,
+  kpi: RollupKpi,
+  periodDate: string,
+  contributorIds?: string[]
+): Promise<number | null> {
+  const contributors =
+    contributorIds ?? (await getRollupContributorKpiIds(drizzle, kpi))
+  if (contributors.length === 0) return null
+
+  const rows: Pick<SelectKpiValue, "actualValue" | "updatedAt">[] =
+    await drizzle
+      .select({
+        actualValue: kpiValuesTable.actualValue,
+        updatedAt: kpiValuesTable.updatedAt
+      })
+      .from(kpiValuesTable)
+      .where(
+        and(
+          inArray(kpiValuesTable.kpiId, contributors),
+          eq(kpiValuesTable.periodDate, periodDate)
+        )
+      )
+
+  const values = rows
+    .filter(r => r.actualValue !== null && r.actualValue.trim() !== "")
+    .map(r => ({ value: parseFloat(r.actualValue!), updatedAt: r.updatedAt }))
+    .filter(v => !isNaN(v.value))
+
+  logger.info(`Rollup for KPI ${kpi.id} on ${periodDate}.`, {
+    aggregationType: kpi.aggregationType,
+    contributors: contributors.length,
+    withValue: values.length
+  })
+
+  if (values.length === 0) return null
+  return aggregateValues(values, kpi.aggregationType)
+}
+
+/**
+ * @interface KpiCalculationResult
+ * @description Resultado del cálculo de un KPI calculado (o de rollup) para un período.
+ * @property {string} kpiId - El ID del KPI calculado.
+ * @property {string} periodDate - El período evaluado (YYYY-MM-DD).
+ * @property {SelectKpiValue | null} value - El registro de `kpi_values` escrito, o null si no se pudo calcular.
+ * @property {FormulaError} [error] - Error estructurado cuando la ecuación no pudo evaluarse.
+ */
+export interface KpiCalculationResult {
+  kpiId: string
+  periodDate: string
+  value: SelectKpiValue | null
+  error?: FormulaError
+}
+
+/**
+ * @function resolveKpiReferenceIds
+ * @description Resuelve las referencias de una ecuación ([KPI:UUID] o [KPI:NombreDeKPI]) a IDs de KPI.
+ * Las referencias por nombre se buscan por el nombre del elemento de Scorecard vinculado al KPI,
+ * priorizando los KPIs de la organización indicada; fuera de ella solo se acepta una coincidencia única.
+ * Si ningún nombre coincide, se buscan por código externo y después por alias (ver `matchKpiReference`).
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @param {Pick<FormulaReferenceNode, "identifier" | "isId">[]} references - Referencias a resolver.
+ * @param {string | null} organizationId - Organización del KPI que contiene la ecuación.
+ * @param {KpiReferenceCandidate[]} [candidates] - KPIs ya cargados (ej. los nodos del grafo de
+ * dependencias); si se indican, las referencias se resuelven contra ellos sin consultar la base de datos.
+ * @returns {Promise<Map<string, string>>} Mapa identificador → ID de KPI (las no resueltas no aparecen).
+ */
+export async function resolveKpiReferenceIds(
+  drizzle: any,
+  references: Pick<FormulaReferenceNode, "identifier" | "isId">[],
+  organizationId: string | null,
+  candidates?: KpiReferenceCandidate[]
+): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>()
+  if (candidates) {
+    for (const reference of references) {
+      const matchedId = matchKpiReference(reference, candidates, organizationId)
+      if (matchedId) resolved.set(reference.identifier, matchedId)
+    }
+    return resolved
+  }
+
+  const ids = [
+    ...new Set(references.filter(r => r.isId).map(r => r.identifier))
+  ]
+  const names = [
+    ...new Set(references.filter(r => !r.isId).map(r => r.identifier))
+  ]
+
+  if (ids.length > 0) {
+    const rows: { id: string }[] = await drizzle
+      .select({ id: kpisTable.id })
+      .from(kpisTable)
+      .where(inArray(kpisTable.id, ids))
+    for (const row of rows) {
+      resolved.set(row.id, row.id)
+    }
+  }
+
+  if (names.length > 0) {
+    // Candidatos: los KPIs con alguno de los nombres y los que tienen código externo o alias
+    const rows: KpiReferenceCandidate[] = await drizzle
+      .select({
+        id: kpisTable.id,
+        name: scorecardElementsTable.name,
+        organizationId: scorecardElementsTable.organizationId,
+        externalCode: kpisTable.externalCode,
+        aliases: kpisTable.aliases
+      })
+      .from(kpisTable)
+      .innerJoin(
+        scorecardElementsTable,
+        eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+      )
+      .where(
+        or(
+          inArray(scorecardElementsTable.name, names),
+          isNotNull(kpisTable.externalCode),
+          sql`jsonb_array_length(${kpisTable.aliases}) > 0`
+        )
+      )
+
+    for (const name of names) {
+      const matchedId = matchKpiReference(
+        { identifier: name, isId: false },
+        rows,
+        organizationId
+      )
+      if (matchedId) resolved.set(name, matchedId)
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * @function formatCalculatedValue
+ * @description Convierte el resultado numérico de una ecuación en el texto que se almacena en
+ * `kpi_values.actual_value`, eliminando el ruido de coma flotante (ej. 0.30000000000000004).
+ */
+function formatCalculatedValue(value: number): string {
+  return String(Number(value.toFixed(10)))
+}
+
+/**
+ * @function parseNumericValue
+ * @description Convierte un valor de KPI almacenado como texto en número, o null si está vacío o no es numérico.
+ */
+function parseNumericValue(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === "") return null
+  const parsed = parseFloat(value)
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Columna de `kpi_values` que se lee para cada campo de referencia.
+ */
+const REFERENCE_FIELD_COLUMNS = {
+  actual: kpiValuesTable.actualValue,
+  target: kpiValuesTable.targetValue,
+  thresholdRed: kpiValuesTable.thresholdRed,
+  thresholdYellow: kpiValuesTable.thresholdYellow
+} as const
+
+/**
+ * @function loadReferenceValue
+ * @description Obtiene el valor numérico de una referencia de ecuación para un período, aplicando
+ * su campo ([KPI:X:target]), su desplazamiento de período ([KPI:X:prev], [KPI:X:lastYear]) y su
+ * agregación ([KPI:X:ytd] suma el acumulado del año; [KPI:X:trailing12] promedia los últimos 12 meses).
+ * El período se lleva a la frecuencia del KPI referenciado (ver `getReferencePeriodDate`).
+ * @returns {Promise<number | null>} El valor, o null si no hay datos.
+ */
+async function loadReferenceValue(
+  drizzle: any,
+  reference: FormulaReferenceNode,
+  kpiId: string,
+  frequency: KpiCalendarFrequency,
+  periodDate: string,
+  fiscalYearStartMonth: number
+): Promise<number | null> {
+  const anchor = getReferencePeriodDate(
+    periodDate,
+    reference.periodShift,
+    frequency,
+    fiscalYearStartMonth
   )
+  const column = REFERENCE_FIELD_COLUMNS[reference.field]
 
-  // Lógica compleja de obtención de hijos, sus KPIs, y agregación se implementará aquí en un paso posterior.
-  // Por ahora, devolvemos un valor de ejemplo.
-  switch (aggregationType) {
-    case "Sum":
-      return "1000" // Valor de ejemplo
-    case "Average":
-      return "150" // Valor de ejemplo
-    case "Last Value":
-      return "200" // Valor de ejemplo
-    default:
-      return null
+  if (!reference.aggregate) {
+    const [row]: { value: string | null }[] = await drizzle
+      .select({ value: column })
+      .from(kpiValuesTable)
+      .where(
+        and(
+          eq(kpiValuesTable.kpiId, kpiId),
+          eq(kpiValuesTable.periodDate, anchor)
+        )
+      )
+    return parseNumericValue(row?.value)
+  }
+
+  const range =
+    reference.aggregate === "ytd"
+      ? getYearToDateRange(anchor)
+      : getTrailingTwelveMonthsRange(anchor)
+  const rows: { value: string | null }[] = await drizzle
+    .select({ value: column })
+    .from(kpiValuesTable)
+    .where(
+      and(
+        eq(kpiValuesTable.kpiId, kpiId),
+        gte(kpiValuesTable.periodDate, range.start),
+        lte(kpiValuesTable.periodDate, range.end)
+      )
+    )
+  const values = rows
+    .map(r => parseNumericValue(r.value))
+    .filter((v): v is number => v !== null)
+  if (values.length === 0) return null
+
+  const sum = values.reduce((acc, v) => acc + v, 0)
+  return reference.aggregate === "ytd" ? sum : sum / values.length
+}
+
+/**
+ * @typedef {KpiScoringConfig}
+ * @description Configuración de puntuación de un KPI necesaria para calcular score y color.
+ */
+type KpiScoringConfig = Pick<
+  SelectKpi,
+  | "id"
+  | "scoringType"
+  | "scoringDirection"
+  | "scoringMethod"
+  | "targetTolerance"
+>
+
+/**
+ * @function scoreKpiValue
+ * @description Calcula la puntuación y el color de un valor numérico según la configuración del KPI.
+ */
+function scoreKpiValue(
+  kpi: KpiScoringConfig,
+  numericValue: number | null,
+  value: Pick<
+    SelectKpiValue,
+    "targetValue" | "thresholdRed" | "thresholdYellow"
+  > | null
+): { score: number | null; color: SelectKpiValue["color"] } {
+  if (numericValue === null) return { score: null, color: null }
+  if (kpi.scoringType === "Goal/Red Flag") {
+    return calculateKpiScoreAndColor(
+      numericValue,
+      parseNumericValue(value?.targetValue),
+      parseNumericValue(value?.thresholdRed),
+      parseNumericValue(value?.thresholdYellow),
+      getKpiScoringOptions(kpi)
+    )
+  }
+  if (kpi.scoringType === "Yes/No") {
+    return {
+      score: numericValue !== 0 ? 100 : 0,
+      color: numericValue !== 0 ? "Green" : "Red"
+    }
+  }
+  return { score: null, color: null }
+}
+
+/**
+ * @function writeDerivedKpiValue
+ * @description Escribe en `kpi_values` un valor derivado (calculado por ecuación o por rollup) con
+ * isManualEntry=false. Conserva el objetivo, los umbrales y la nota ya registrados para el período
+ * y recalcula la puntuación y el color.
+ * @returns {Promise<SelectKpiValue | null>} El registro escrito.
+ */
+async function writeDerivedKpiValue(
+  drizzle: any,
+  kpi: KpiScoringConfig,
+  periodDate: string,
+  numericValue: number,
+  userId: string | null
+): Promise<SelectKpiValue | null> {
+  const kpiId = kpi.id
+  const [existing]: SelectKpiValue[] = await drizzle
+    .select()
+    .from(kpiValuesTable)
+    .where(
+      and(
+        eq(kpiValuesTable.kpiId, kpiId),
+        eq(kpiValuesTable.periodDate, periodDate)
+      )
+    )
+
+  const { score, color } = scoreKpiValue(kpi, numericValue, existing ?? null)
+
+  const insertOrUpdateData: InsertKpiValue = {
+    kpiId,
+    periodDate,
+    actualValue: formatCalculatedValue(numericValue),
+    targetValue: existing?.targetValue ?? null,
+    thresholdRed: existing?.thresholdRed ?? null,
+    thresholdYellow: existing?.thresholdYellow ?? null,
+    score: score !== null ? String(score) : null,
+    color,
+    updatedByUserId: userId,
+    isManualEntry: false,
+    note: existing?.note ?? null
+  }
+
+  const [upserted]: SelectKpiValue[] = await drizzle
+    .insert(kpiValuesTable)
+    .values(insertOrUpdateData)
+    .onConflictDoUpdate({
+      target: [kpiValuesTable.kpiId, kpiValuesTable.periodDate],
+      set: {
+        actualValue: insertOrUpdateData.actualValue,
+        score: insertOrUpdateData.score,
+        color: insertOrUpdateData.color,
+        updatedByUserId: insertOrUpdateData.updatedByUserId,
+        isManualEntry: false,
+        updatedAt: new Date()
+      }
+    })
+    .returning()
+
+  await invalidateScorecardScoresForKpis(drizzle, [kpiId], periodDate)
+
+  logger.info("Derived KPI value written.", {
+    kpiId,
+    periodDate,
+    actualValue: insertOrUpdateData.actualValue
+  })
+  return upserted ?? null
+}
+
+/**
+ * @function calculateKpiValueForPeriod
+ * @description Evalúa la ecuación de cálculo de un KPI para un período y escribe el resultado en
+ * `kpi_values` (upsert sobre kpiId + periodDate, con isManualEntry=false).
+ * La fecha se lleva antes al inicio del período de la frecuencia del KPI calculado (ver
+ * `normalizePeriodDate`). Los valores referenciados se leen del período de su propia frecuencia que
+ * contiene ese inicio, salvo que la referencia indique otro campo, un desplazamiento de período o una
+ * agregación (ver `loadReferenceValue`). Se conservan el objetivo, los umbrales y la nota ya registrados para el
+ * período, y se recalculan la puntuación y el color.
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @param {string} kpiId - El ID del KPI calculado.
+ * @param {string} periodDate - El período a calcular (YYYY-MM-DD).
+ * @param {string | null} userId - Usuario que dispara el cálculo (para auditoría), si aplica.
+ * @param {{ graph?: KpiDependencyGraph }} [options] - Grafo de dependencias ya construido, cuyos nodos
+ * resuelven las referencias de la ecuación sin volver a cargar los KPIs.
+ * @returns {Promise<KpiCalculationResult>} El valor escrito o el error estructurado de la ecuación.
+ * @notes
+ *  Si un KPI referenciado no tiene valor para el período, o la ecuación produce una división por cero,
+ *  no se escribe ningún valor y se devuelve el error correspondiente.
+ */
+export async function calculateKpiValueForPeriod(
+  drizzle: any,
+  kpiId: string,
+  periodDate: string,
+  userId: string | null = null,
+  options: { graph?: KpiDependencyGraph } = {}
+): Promise<KpiCalculationResult> {
+  const [kpi]: (KpiScoringConfig &
+    Pick<SelectKpi, "calculationEquation" | "calendarFrequency"> & {
+      organizationId: string
+    })[] = await drizzle
+    .select({
+      id: kpisTable.id,
+      scoringType: kpisTable.scoringType,
+      scoringDirection: kpisTable.scoringDirection,
+      scoringMethod: kpisTable.scoringMethod,
+      targetTolerance: kpisTable.targetTolerance,
+      calculationEquation: kpisTable.calculationEquation,
+      calendarFrequency: kpisTable.calendarFrequency,
+      organizationId: scorecardElementsTable.organizationId
+    })
+    .from(kpisTable)
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(eq(kpisTable.id, kpiId))
+
+  if (!kpi || !kpi.calculationEquation) {
+    return {
+      kpiId,
+      periodDate,
+      value: null,
+      error: {
+        code: "EMPTY_EXPRESSION",
+        message: "El KPI no tiene una ecuación de cálculo configurada."
+      }
+    }
   }
+
+  // El valor se calcula y se guarda en el inicio canónico del período del KPI calculado
+  const fiscalYearStartMonth = await getFiscalYearStartMonth(drizzle)
+  periodDate = normalizePeriodDate(
+    periodDate,
+    kpi.calendarFrequency,
+    fiscalYearStartMonth
+  )
+
+  const parsed = parseFormula(kpi.calculationEquation)
+  if (!parsed.isSuccess) {
+    logger.warn(`Invalid calculation equation for KPI ${kpiId}.`, {
+      error: parsed.error
+    })
+    return { kpiId, periodDate, value: null, error: parsed.error }
+  }
+
+  // 1. Resolver referencias y cargar sus valores (con su campo, desplazamiento y agregación)
+  const referenceIds = await resolveKpiReferenceIds(
+    drizzle,
+    parsed.references,
+    kpi.organizationId,
+    options.graph?.nodes
+  )
+  const unresolved = parsed.references.find(
+    r => !referenceIds.has(r.identifier)
+  )
+  if (unresolved) {
+    const error: FormulaError = {
+      code: "INVALID_REFERENCE",
+      message: `El KPI referenciado "${unresolved.identifier}" no existe.`,
+      position: unresolved.position,
+      length: unresolved.originalMatch.length
+    }
+    return { kpiId, periodDate, value: null, error }
+  }
+
+  const referencedKpiIds = [...new Set(referenceIds.values())]
+  const frequencies: Pick<SelectKpi, "id" | "calendarFrequency">[] =
+    referencedKpiIds.length > 0
+      ? await drizzle
+          .select({
+            id: kpisTable.id,
+            calendarFrequency: kpisTable.calendarFrequency
+          })
+          .from(kpisTable)
+          .where(inArray(kpisTable.id, referencedKpiIds))
+      : []
+  const frequencyById = new Map(
+    frequencies.map(f => [f.id, f.calendarFrequency])
+  )
+
+  const referenceValues = new Map<string, number | null>()
+  for (const reference of parsed.references) {
+    if (referenceValues.has(reference.originalMatch)) continue
+    const referencedKpiId = referenceIds.get(reference.identifier)!
+    referenceValues.set(
+      reference.originalMatch,
+      await loadReferenceValue(
+        drizzle,
+        reference,
+        referencedKpiId,
+        frequencyById.get(referencedKpiId) ?? "Monthly",
+        periodDate,
+        fiscalYearStartMonth
+      )
+    )
+  }
+
+  // 2. Evaluar la ecuación
+  const evaluation = evaluateFormulaAst(
+    parsed.ast,
+    reference => referenceValues.get(reference.originalMatch) ?? null
+  )
+  if (!evaluation.isSuccess) {
+    logger.info(`KPI ${kpiId} could not be calculated for ${periodDate}.`, {
+      error: evaluation.error
+    })
+    return { kpiId, periodDate, value: null, error: evaluation.error }
+  }
+
+  // 3. Escribir el valor (conservando objetivo/umbrales/nota del período)
+  const value = await writeDerivedKpiValue(
+    drizzle,
+    kpi,
+    periodDate,
+    evaluation.value,
+    userId
+  )
+  return { kpiId, periodDate, value }
+}
+
+/**
+ * @function loadKpiGraphNodes
+ * @description Carga todos los KPIs con el nombre y la organización de su elemento de Scorecard
+ * (y su código externo y alias), para construir el grafo de dependencias entre ecuaciones.
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @returns {Promise<KpiGraphNode[]>} Los nodos del grafo.
+ */
+export async function loadKpiGraphNodes(drizzle: any): Promise<KpiGraphNode[]> {
+  return drizzle
+    .select({
+      id: kpisTable.id,
+      name: scorecardElementsTable.name,
+      organizationId: scorecardElementsTable.organizationId,
+      calculationEquation: kpisTable.calculationEquation,
+      externalCode: kpisTable.externalCode,
+      aliases: kpisTable.aliases
+    })
+    .from(kpisTable)
+    .leftJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+}
+
+/**
+ * @function recalculateDependentKpis
+ * @description Recalcula, para un período, los KPIs calculados que dependen (directa o indirectamente)
+ * de los KPIs cuyo valor cambió, en orden topológico para que cada ecuación use valores ya actualizados.
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @param {string[]} changedKpiIds - KPIs cuyo valor cambió en el período.
+ * @param {string} periodDate - El período afectado (YYYY-MM-DD).
+ * @param {string | null} userId - Usuario que originó el cambio (para auditoría), si aplica.
+ * @param {{ includeChanged?: boolean; graph?: KpiDependencyGraph }} [options] - `includeChanged` recalcula
+ * también los KPIs cambiados que sean calculados (ej. tras modificar su ecuación); `graph` permite reutilizar
+ * un grafo ya construido al recalcular varios períodos.
+ * @returns {Promise<KpiCalculationResult[]>} El resultado de cada KPI recalculado.
+ */
+export async function recalculateDependentKpis(
+  drizzle: any,
+  changedKpiIds: string[],
+  periodDate: string,
+  userId: string | null = null,
+  options: { includeChanged?: boolean; graph?: KpiDependencyGraph } = {}
+): Promise<KpiCalculationResult[]> {
+  const graph =
+    options.graph ?? buildKpiDependencyGraph(await loadKpiGraphNodes(drizzle))
+  const order = getRecalculationOrder(
+    graph,
+    changedKpiIds,
+    options.includeChanged ?? false
+  )
+
+  const results: KpiCalculationResult[] = []
+  for (const kpiId of order) {
+    results.push(
+      await calculateKpiValueForPeriod(drizzle, kpiId, periodDate, userId, {
+        graph
+      })
+    )
+  }
+
+  if (results.length > 0) {
+    logger.info(`Recalculated ${results.length} dependent KPIs.`, {
+      changedKpiIds,
+      periodDate,
+      failed: results.filter(r => !r.value).map(r => r.kpiId)
+    })
+  }
+  return results
+}
+
+/**
+ * @function updateKpiRollupValueForPeriod
+ * @description Calcula el rollup de un KPI para un período y lo escribe en `kpi_values` del KPI padre
+ * con isManualEntry=false (conservando objetivo, umbrales y nota del período).
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @param {string} kpiId - El ID del KPI de rollup.
+ * @param {string} periodDate - El período (YYYY-MM-DD).
+ * @param {string | null} userId - Usuario que originó el cambio, si aplica.
+ * @returns {Promise<KpiCalculationResult>} El valor escrito, o null si ningún hijo tiene valor para el período.
+ */
+export async function updateKpiRollupValueForPeriod(
+  drizzle: any,
+  kpiId: string,
+  periodDate: string,
+  userId: string | null = null
+): Promise<KpiCalculationResult> {
+  const kpi = await loadRollupKpi(drizzle, kpiId)
+  if (!kpi || !kpi.rollupEnabled) {
+    return { kpiId, periodDate, value: null }
+  }
+
+  const aggregated = await aggregateRollupForPeriod(drizzle, kpi, periodDate)
+  if (aggregated === null) {
+    return { kpiId, periodDate, value: null }
+  }
+
+  const value = await writeDerivedKpiValue(
+    drizzle,
+    kpi,
+    periodDate,
+    aggregated,
+    userId
+  )
+  return { kpiId, periodDate, value }
+}
+
+/**
+ * @function recalculateRollupAncestors
+ * @description Recalcula, para un período, los KPIs de rollup de las organizaciones ancestro que
+ * agregan a los KPIs cuyo valor cambió (mismo nombre), del nivel más cercano al más lejano.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string[]} changedKpiIds - KPIs cuyo valor cambió.
+ * @param {string} periodDate - El período afectado (YYYY-MM-DD).
+ * @param {string | null} userId - Usuario que originó el cambio, si aplica.
+ * @returns {Promise<KpiCalculationResult[]>} El resultado de cada rollup recalculado.
+ */
+export async function recalculateRollupAncestors(
+  drizzle: any,
+  changedKpiIds: string[],
+  periodDate: string,
+  userId: string | null = null
+): Promise<KpiCalculationResult[]> {
+  const order: string[] = []
+
+  for (const changedKpiId of new Set(changedKpiIds)) {
+    const changed = await loadRollupKpi(drizzle, changedKpiId)
+    if (!changed) continue
+
+    const ancestorIds = await getAncestorOrganizations(
+      drizzle,
+      changed.organizationId
+    )
+    if (ancestorIds.length === 0) continue
+
+    const rollups: { id: string; organizationId: string }[] = await drizzle
+      .select({
+        id: kpisTable.id,
+        organizationId: scorecardElementsTable.organizationId
+      })
+      .from(kpisTable)
+      .innerJoin(
+        scorecardElementsTable,
+        eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+      )
+      .where(
+        and(
+          eq(scorecardElementsTable.name, changed.name),
+          eq(kpisTable.rollupEnabled, true),
+          inArray(scorecardElementsTable.organizationId, ancestorIds)
+        )
+      )
+
+    // Del ancestro más cercano al más lejano; si un KPI ya estaba en la lista se mueve al final,
+    // de modo que cada rollup se calcula después de los rollups de sus descendientes.
+    const chain = ancestorIds
+      .map(orgId => rollups.find(r => r.organizationId === orgId)?.id)
+      .filter((id): id is string => !!id)
+    for (const rollupId of chain) {
+      const existingIndex = order.indexOf(rollupId)
+      if (existingIndex !== -1) order.splice(existingIndex, 1)
+      order.push(rollupId)
+    }
+  }
+
+  const results: KpiCalculationResult[] = []
+  for (const rollupId of order) {
+    results.push(
+      await updateKpiRollupValueForPeriod(drizzle, rollupId, periodDate, userId)
+    )
+  }
+  return results
+}
+
+/**
+ * Número máximo de rondas de propagación (ecuaciones → rollups → ecuaciones ...), como protección
+ * ante configuraciones que se realimentan.
+ */
+const MAX_PROPAGATION_ROUNDS = 10
+
+/**
+ * @function propagateKpiValueChanges
+ * @description Punto de entrada tras escribir valores de KPI (actualización manual, importación o API):
+ * recalcula en cascada los KPIs calculados dependientes y los rollups de las organizaciones ancestro,
+ * repitiendo mientras los valores derivados generen nuevos cambios. También invalida la caché de
+ * puntuaciones agregadas del Scorecard de las organizaciones afectadas.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string[]} changedKpiIds - KPIs cuyo valor cambió en el período.
+ * @param {string} periodDate - El período afectado (YYYY-MM-DD).
+ * @param {string | null} userId - Usuario que originó el cambio, si aplica.
+ * @param {{ graph?: KpiDependencyGraph; followTimeDependents?: boolean }} [options] - Grafo de dependencias ya
+ * construido, para reutilizarlo; `followTimeDependents: false` omite el recálculo de períodos posteriores.
+ * @returns {Promise<KpiCalculationResult[]>} El resultado de cada recálculo realizado.
+ */
+export async function propagateKpiValueChanges(
+  drizzle: any,
+  changedKpiIds: string[],
+  periodDate: string,
+  userId: string | null = null,
+  options: { graph?: KpiDependencyGraph; followTimeDependents?: boolean } = {}
+): Promise<KpiCalculationResult[]> {
+  await invalidateScorecardScoresForKpis(drizzle, changedKpiIds, periodDate)
+  const graph =
+    options.graph ?? buildKpiDependencyGraph(await loadKpiGraphNodes(drizzle))
+  const results: KpiCalculationResult[] = []
+  let pending = [...changedKpiIds]
+
+  for (
+    let round = 0;
+    pending.length > 0 && round < MAX_PROPAGATION_ROUNDS;
+    round++
+  ) {
+    const calculated = await recalculateDependentKpis(
+      drizzle,
+      pending,
+      periodDate,
+      userId,
+      { graph }
+    )
+    const calculatedIds = calculated.filter(r => r.value).map(r => r.kpiId)
+
+    // En la primera ronda los rollups ancestro de los KPIs originales también deben recalcularse;
+    // en las siguientes, los ancestros de los rollups ya se recorrieron completos.
+    const rollups = await recalculateRollupAncestors(
+      drizzle,
+      round === 0 ? [...pending, ...calculatedIds] : calculatedIds,
+      periodDate,
+      userId
+    )
+
+    results.push(...calculated, ...rollups)
+    pending = rollups.filter(r => r.value).map(r => r.kpiId)
+  }
+
+  // Referencias desplazadas o agregadas ([KPI:X:prev], [KPI:X:ytd], ...): el cambio afecta también a
+  // períodos posteriores (hasta un año) de los KPIs que las usan; se recalculan los ya existentes.
+  if (options.followTimeDependents !== false) {
+    const touched = new Set([
+      ...changedKpiIds,
+      ...results.filter(r => r.value).map(r => r.kpiId)
+    ])
+    const timeDependentIds = new Set<string>()
+    for (const kpiId of touched) {
+      for (const dependent of graph.timeDependents.get(kpiId) ?? []) {
+        timeDependentIds.add(dependent)
+      }
+    }
+
+    if (timeDependentIds.size > 0) {
+      const laterPeriods: { kpiId: string; periodDate: string }[] =
+        await drizzle
+          .select({
+            kpiId: kpiValuesTable.kpiId,
+            periodDate: kpiValuesTable.periodDate
+          })
+          .from(kpiValuesTable)
+          .where(
+            and(
+              inArray(kpiValuesTable.kpiId, [...timeDependentIds]),
+              gt(kpiValuesTable.periodDate, periodDate),
+              lte(
+                kpiValuesTable.periodDate,
+                shiftPeriodDate(periodDate, "Annually", 1)
+              )
+            )
+          )
+
+      laterPeriods.sort((a, b) => a.periodDate.localeCompare(b.periodDate))
+      for (const later of laterPeriods) {
+        const own = await calculateKpiValueForPeriod(
+          drizzle,
+          later.kpiId,
+          later.periodDate,
+          userId,
+          { graph }
+        )
+        results.push(own)
+        if (own.value) {
+          results.push(
+            ...(await propagateKpiValueChanges(
+              drizzle,
+              [later.kpiId],
+              later.periodDate,
+              userId,
+              { graph, followTimeDependents: false }
+            ))
+          )
+        }
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * @function recalculateKpiRollupForAllPeriods
+ * @description Calcula el rollup de un KPI para todos los períodos en los que algún KPI hijo tiene
+ * valores, y propaga los cambios. Se usa al habilitar el rollup.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} kpiId - El KPI de rollup.
+ * @param {string | null} userId - Usuario que originó el cambio, si aplica.
+ * @returns {Promise<KpiCalculationResult[]>} El resultado de cada cálculo realizado.
+ */
+export async function recalculateKpiRollupForAllPeriods(
+  drizzle: any,
+  kpiId: string,
+  userId: string | null = null
+): Promise<KpiCalculationResult[]> {
+  const kpi = await loadRollupKpi(drizzle, kpiId)
+  if (!kpi || !kpi.rollupEnabled) return []
+
+  const contributors = await getRollupContributorKpiIds(drizzle, kpi)
+  if (contributors.length === 0) return []
+
+  const periods: { periodDate: string }[] = await drizzle
+    .selectDistinct({ periodDate: kpiValuesTable.periodDate })
+    .from(kpiValuesTable)
+    .where(inArray(kpiValuesTable.kpiId, contributors))
+
+  const graph = buildKpiDependencyGraph(await loadKpiGraphNodes(drizzle))
+  const results: KpiCalculationResult[] = []
+  for (const { periodDate } of periods) {
+    const aggregated = await aggregateRollupForPeriod(
+      drizzle,
+      kpi,
+      periodDate,
+      contributors
+    )
+    if (aggregated === null) continue
+    const value = await writeDerivedKpiValue(
+      drizzle,
+      kpi,
+      periodDate,
+      aggregated,
+      userId
+    )
+    results.push({ kpiId, periodDate, value })
+    results.push(
+      ...(await propagateKpiValueChanges(drizzle, [kpiId], periodDate, userId, {
+        graph
+      }))
+    )
+  }
+  return results
+}
+
+/**
+ * @function recalculateKpiForAllPeriods
+ * @description Recalcula un KPI calculado (y propaga el cambio a sus dependientes y rollups) en todos los períodos para los que
+ * alguno de los KPIs referenciados por su ecuación tiene valores. Se usa al modificar la ecuación.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} kpiId - El KPI calculado.
+ * @param {string | null} userId - Usuario que originó el cambio, si aplica.
+ * @returns {Promise<KpiCalculationResult[]>} El resultado de cada cálculo realizado.
+ */
+export async function recalculateKpiForAllPeriods(
+  drizzle: any,
+  kpiId: string,
+  userId: string | null = null
+): Promise<KpiCalculationResult[]> {
+  const graph = buildKpiDependencyGraph(await loadKpiGraphNodes(drizzle))
+  const sourceIds = new Set(graph.dependencies.get(kpiId) ?? [])
+  const timeSourceIds = [...graph.timeDependents]
+    .filter(([, dependents]) => dependents.has(kpiId))
+    .map(([sourceId]) => sourceId)
+  timeSourceIds.forEach(sourceId => sourceIds.add(sourceId))
+  if (sourceIds.size === 0) return []
+
+  const sourcePeriods: { periodDate: string }[] = await drizzle
+    .selectDistinct({ periodDate: kpiValuesTable.periodDate })
+    .from(kpiValuesTable)
+    .where(inArray(kpiValuesTable.kpiId, [...sourceIds]))
+
+  // Las referencias desplazadas hacen que un valor de origen afecte a períodos posteriores
+  const periods = new Set(sourcePeriods.map(p => p.periodDate))
+  if (timeSourceIds.length > 0) {
+    const [kpi] = await drizzle
+      .select({ calendarFrequency: kpisTable.calendarFrequency })
+      .from(kpisTable)
+      .where(eq(kpisTable.id, kpiId))
+    for (const { periodDate } of sourcePeriods) {
+      if (kpi)
+        periods.add(shiftPeriodDate(periodDate, kpi.calendarFrequency, 1))
+      periods.add(shiftPeriodDate(periodDate, "Annually", 1))
+    }
+  }
+
+  const results: KpiCalculationResult[] = []
+  for (const periodDate of [...periods].sort()) {
+    const own = await calculateKpiValueForPeriod(
+      drizzle,
+      kpiId,
+      periodDate,
+      userId,
+      { graph }
+    )
+    results.push(own)
+    if (own.value) {
+      results.push(
+        ...(await propagateKpiValueChanges(
+          drizzle,
+          [kpiId],
+          periodDate,
+          userId,
+          { graph }
+        ))
+      )
+    }
+  }
+  return results
+}
+
+/**
+ * @function rescoreKpiValues
+ * @description Recalcula la puntuación y el color de todos los valores registrados de un KPI
+ * Goal/Red Flag con su configuración de puntuación actual (sentido, método y tolerancia).
+ * Se usa tras modificar esa configuración; no altera los valores reales, objetivos ni umbrales.
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @param {string} kpiId - El ID del KPI.
+ * @returns {Promise<number>} Número de valores cuya puntuación o color cambió.
+ */
+export async function rescoreKpiValues(
+  drizzle: any,
+  kpiId: string
+): Promise<number> {
+  const [kpi]: KpiScoringConfig[] = await drizzle
+    .select({
+      id: kpisTable.id,
+      scoringType: kpisTable.scoringType,
+      scoringDirection: kpisTable.scoringDirection,
+      scoringMethod: kpisTable.scoringMethod,
+      targetTolerance: kpisTable.targetTolerance
+    })
+    .from(kpisTable)
+    .where(eq(kpisTable.id, kpiId))
+  if (!kpi || kpi.scoringType !== "Goal/Red Flag") return 0
+
+  const values: SelectKpiValue[] = await drizzle
+    .select()
+    .from(kpiValuesTable)
+    .where(eq(kpiValuesTable.kpiId, kpiId))
+
+  let updated = 0
+  for (const value of values) {
+    const { score, color } = scoreKpiValue(
+      kpi,
+      parseNumericValue(value.actualValue),
+      value
+    )
+    const scoreStr = score !== null ? String(score) : null
+    if (parseNumericValue(value.score) === score && value.color === color) {
+      continue
+    }
+    await drizzle
+      .update(kpiValuesTable)
+      .set({ score: scoreStr, color, updatedAt: new Date() })
+      .where(eq(kpiValuesTable.id, value.id))
+    updated++
+  }
+
+  if (updated > 0) {
+    await invalidateScorecardScoresForKpis(drizzle, [kpiId])
+  }
+
+  logger.info("KPI values rescored.", { kpiId, updated })
+  return updated
 }
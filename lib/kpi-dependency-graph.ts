@@ -0,0 +1,236 @@
+/**
+ * @file lib/kpi-dependency-graph.ts
+ * @brief Grafo de dependencias entre KPIs calculados.
+ * @description Construye, a partir de las ecuaciones de cálculo, el grafo de dependencias entre KPIs
+ * (qué KPIs referencia cada ecuación y qué KPIs dependen de cada uno), detecta ciclos y determina
+ * el orden topológico en el que deben recalcularse los KPIs afectados por un cambio de valor.
+ * Es un módulo puro (sin acceso a la base de datos); la carga de los nodos y la ejecución del
+ * recálculo viven en `lib/kpi-calculation-engine.ts`.
+ */
+
+import { matchesAlias, matchesExternalCode } from "@/lib/external-codes"
+import { parseFormula } from "@/lib/formula-evaluator"
+import { FormulaReferenceNode } from "@/types"
+
+/**
+ * @interface KpiGraphNode
+ * @description KPI tal como participa en el grafo de dependencias.
+ * @property {string} id - ID del KPI.
+ * @property {string | null} name - Nombre del elemento de Scorecard vinculado (para referencias por nombre).
+ * @property {string | null} organizationId - Organización del elemento de Scorecard.
+ * @property {string | null} calculationEquation - Ecuación de cálculo, si el KPI es calculado.
+ * @property {string | null} [externalCode] - Código externo del KPI (para referencias por código).
+ * @property {string[]} [aliases] - Alias del KPI (para referencias por alias).
+ */
+export interface KpiGraphNode {
+  id: string
+  name: string | null
+  organizationId: string | null
+  calculationEquation: string | null
+  externalCode?: string | null
+  aliases?: string[] | null
+}
+
+/**
+ * @interface KpiDependencyGraph
+ * @description Grafo de dependencias en ambos sentidos.
+ * @property {Map<string, Set<string>>} dependencies - KPI calculado → KPIs que referencia su ecuación.
+ * @property {Map<string, Set<string>>} dependents - KPI → KPIs calculados cuya ecuación lo referencia.
+ * @property {Map<string, Set<string>>} timeDependents - KPI → KPIs calculados que lo referencian con
+ * desplazamiento de período o agregación (su valor en un período afecta a períodos posteriores).
+ * @property {KpiGraphNode[]} nodes - KPIs con los que se construyó el grafo; permiten resolver las
+ * referencias de las ecuaciones sin volver a consultarlos.
+ * @notes
+ *  `dependencies` y `dependents` solo incluyen las referencias que leen el período evaluado
+ *  (con o sin agregación); las referencias a períodos anteriores ([KPI:X:prev], [KPI:X:lastYear])
+ *  no forman ciclos, por lo que un KPI puede referenciar su propio período anterior.
+ */
+export interface KpiDependencyGraph {
+  dependencies: Map<string, Set<string>>
+  dependents: Map<string, Set<string>>
+  timeDependents: Map<string, Set<string>>
+  nodes: KpiGraphNode[]
+}
+
+/**
+ * @typedef KpiReferenceCandidate
+ * @description Datos de un KPI con los que se resuelven las referencias de las ecuaciones.
+ */
+export type KpiReferenceCandidate = Pick<
+  KpiGraphNode,
+  "id" | "name" | "organizationId" | "externalCode" | "aliases"
+>
+
+/**
+ * @function matchKpiReference
+ * @description Resuelve una referencia de ecuación contra una lista de KPIs candidatos.
+ * Las referencias por UUID deben existir; las referencias por nombre priorizan los KPIs de la
+ * organización indicada y, fuera de ella, solo se aceptan si la coincidencia es única. Si ningún
+ * nombre coincide, el identificador se busca como código externo (sin distinguir mayúsculas) y
+ * después entre los alias, con el mismo criterio que los nombres.
+ * @param {Pick<FormulaReferenceNode, "identifier" | "isId">} reference - La referencia a resolver.
+ * @param {KpiReferenceCandidate[]} candidates - KPIs disponibles.
+ * @param {string | null} organizationId - Organización del KPI que contiene la ecuación.
+ * @returns {string | undefined} El ID del KPI referenciado, o undefined si no se pudo resolver.
+ */
+export function matchKpiReference(
+  reference: Pick<FormulaReferenceNode, "identifier" | "isId">,
+  candidates: KpiReferenceCandidate[],
+  organizationId: string | null
+): string | undefined {
+  if (reference.isId) {
+    return candidates.find(c => c.id === reference.identifier)?.id
+  }
+  const pick = (matches: KpiReferenceCandidate[]) => {
+    const sameOrg = matches.find(c => c.organizationId === organizationId)
+    if (sameOrg) return sameOrg.id
+    return matches.length === 1 ? matches[0].id : undefined
+  }
+
+  const byName = candidates.filter(c => c.name === reference.identifier)
+  if (byName.length > 0) return pick(byName)
+  const byCode = candidates.find(c =>
+    matchesExternalCode(c.externalCode, reference.identifier)
+  )
+  if (byCode) return byCode.id
+  return pick(
+    candidates.filter(c => matchesAlias(c.aliases, reference.identifier))
+  )
+}
+
+/**
+ * @function buildKpiDependencyGraph
+ * @description Construye el grafo de dependencias a partir de las ecuaciones de los KPIs.
+ * Las ecuaciones inválidas y las referencias no resueltas se ignoran (no generan aristas).
+ * @param {KpiGraphNode[]} nodes - Todos los KPIs que pueden participar en el grafo.
+ * @returns {KpiDependencyGraph} El grafo de dependencias.
+ */
+export function buildKpiDependencyGraph(
+  nodes: KpiGraphNode[]
+): KpiDependencyGraph {
+  const dependencies = new Map<string, Set<string>>()
+  const dependents = new Map<string, Set<string>>()
+  const timeDependents = new Map<string, Set<string>>()
+  const addEdge = (map: Map<string, Set<string>>, from: string, to: string) => {
+    if (!map.has(from)) map.set(from, new Set())
+    map.get(from)!.add(to)
+  }
+
+  for (const node of nodes) {
+    if (!node.calculationEquation) continue
+    const parsed = parseFormula(node.calculationEquation)
+    if (!parsed.isSuccess) continue
+
+    const nodeDependencies = new Set<string>()
+    for (const reference of parsed.references) {
+      const referencedId = matchKpiReference(
+        reference,
+        nodes,
+        node.organizationId
+      )
+      if (!referencedId) continue
+      if (reference.periodShift !== "current" || reference.aggregate) {
+        addEdge(timeDependents, referencedId, node.id)
+      }
+      if (reference.periodShift === "current") {
+        nodeDependencies.add(referencedId)
+        addEdge(dependents, referencedId, node.id)
+      }
+    }
+    dependencies.set(node.id, nodeDependencies)
+  }
+
+  return { dependencies, dependents, timeDependents, nodes }
+}
+
+/**
+ * @function findKpiDependencyCycle
+ * @description Busca un ciclo de dependencias que pase por el KPI indicado.
+ * @param {KpiDependencyGraph} graph - El grafo de dependencias.
+ * @param {string} startKpiId - El KPI desde el que se busca el ciclo.
+ * @returns {string[] | null} El camino del ciclo (empieza y termina en `startKpiId`), o null si no hay ciclo.
+ */
+export function findKpiDependencyCycle(
+  graph: KpiDependencyGraph,
+  startKpiId: string
+): string[] | null {
+  const visited = new Set<string>()
+  const path: string[] = [startKpiId]
+
+  const visit = (kpiId: string): boolean => {
+    for (const next of graph.dependencies.get(kpiId) ?? []) {
+      if (next === startKpiId) {
+        path.push(next)
+        return true
+      }
+      if (visited.has(next)) continue
+      visited.add(next)
+      path.push(next)
+      if (visit(next)) return true
+      path.pop()
+    }
+    return false
+  }
+
+  return visit(startKpiId) ? path : null
+}
+
+/**
+ * @function getRecalculationOrder
+ * @description Devuelve, en orden topológico, los KPIs calculados que deben recalcularse cuando
+ * cambian los valores de los KPIs indicados (dependientes directos e indirectos).
+ * @param {KpiDependencyGraph} graph - El grafo de dependencias.
+ * @param {string[]} changedKpiIds - KPIs cuyo valor cambió.
+ * @param {boolean} [includeChanged=false] - Si es true, los KPIs cambiados que sean calculados también
+ * se incluyen (ej. tras modificar su ecuación).
+ * @returns {string[]} IDs de KPI en el orden en que deben recalcularse. Los KPIs que formen parte
+ * de un ciclo (datos inconsistentes) se omiten.
+ */
+export function getRecalculationOrder(
+  graph: KpiDependencyGraph,
+  changedKpiIds: string[],
+  includeChanged = false
+): string[] {
+  // 1. KPIs afectados (aguas abajo de los cambiados)
+  const affected = new Set<string>()
+  const queue: string[] = []
+  for (const kpiId of changedKpiIds) {
+    if (includeChanged && graph.dependencies.has(kpiId)) {
+      affected.add(kpiId)
+    }
+    queue.push(kpiId)
+  }
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const dependent of graph.dependents.get(current) ?? []) {
+      if (!affected.has(dependent)) {
+        affected.add(dependent)
+        queue.push(dependent)
+      }
+    }
+  }
+
+  // 2. Orden topológico (Kahn) considerando solo aristas dentro del subconjunto afectado
+  const inDegree = new Map<string, number>()
+  for (const kpiId of affected) {
+    const internal = [...(graph.dependencies.get(kpiId) ?? [])].filter(d =>
+      affected.has(d)
+    )
+    inDegree.set(kpiId, internal.length)
+  }
+
+  const ready = [...affected].filter(kpiId => inDegree.get(kpiId) === 0)
+  const order: string[] = []
+  while (ready.length > 0) {
+    const current = ready.shift()!
+    order.push(current)
+    for (const dependent of graph.dependents.get(current) ?? []) {
+      if (!affected.has(dependent)) continue
+      const remaining = inDegree.get(dependent)! - 1
+      inDegree.set(dependent, remaining)
+      if (remaining === 0) ready.push(dependent)
+    }
+  }
+
+  return order
+}
@@ -0,0 +1,181 @@
+/**
+ * @file lib/kpi-notes.ts
+ * @brief Utilidades de las notas y respuestas de los valores de KPI.
+ * @description Este módulo resuelve las menciones con @ del texto de una nota, arma las
+ * conversaciones (nota raíz y respuestas) que muestra la interfaz, define quién puede editar o
+ * eliminar una nota y a quién notificar cuando alguien responde: los participantes de la
+ * conversación y los usuarios mencionados.
+ */
+
+import {
+  getKpiValueOrganizationId,
+  hasUserPermission
+} from "@/lib/authorization"
+import {
+  KpiNoteThread,
+  KpiNoteView,
+  MentionableUser,
+  PermissionKey
+} from "@/types"
+
+/**
+ * @constant KPI_NOTE_MODERATION_PERMISSION
+ * @description Permiso que autoriza a eliminar notas de otros usuarios en los KPIs de la organización.
+ */
+export const KPI_NOTE_MODERATION_PERMISSION: PermissionKey = "kpi:manage"
+
+// "@" al inicio o tras un carácter que no forma parte de una palabra ni de un correo
+const MENTION_PATTERN = /(^|[^\w@.])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g
+
+/**
+ * @function extractMentionTokens
+ * @description Extrae los identificadores mencionados con @ en un texto (correo, parte local del
+ * correo o ID de usuario), sin repetir y en minúsculas.
+ * @param {string} content - Texto de la nota.
+ * @returns {string[]} Identificadores mencionados.
+ */
+export function extractMentionTokens(content: string): string[] {
+  const tokens = new Set<string>()
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const token = match[2].replace(/[.]+$/, "").toLowerCase()
+    if (token) tokens.add(token)
+  }
+  return Array.from(tokens)
+}
+
+/**
+ * @function resolveMentionedUserIds
+ * @description Resuelve las menciones de un texto contra los usuarios existentes. Una mención
+ * coincide con el correo completo, el ID de usuario o la parte local del correo si esta no es ambigua.
+ * @param {string} content - Texto de la nota.
+ * @param {MentionableUser[]} users - Usuarios que pueden mencionarse.
+ * @returns {string[]} IDs de los usuarios mencionados, en orden de aparición.
+ */
+export function resolveMentionedUserIds(
+  content: string,
+  users: MentionableUser[]
+): string[] {
+  const byKey = new Map<string, string>()
+  const localParts = new Map<string, string[]>()
+  for (const user of users) {
+    byKey.set(user.userId.toLowerCase(), user.userId)
+    if (!user.email) continue
+    const email = user.email.toLowerCase()
+    byKey.set(email, user.userId)
+    const localPart = email.split("@")[0]
+    localParts.set(localPart, [
+      ...(localParts.get(localPart) ?? []),
+      user.userId
+    ])
+  }
+
+  const mentioned: string[] = []
+  for (const token of extractMentionTokens(content)) {
+    const candidates = localParts.get(token)
+    const userId =
+      byKey.get(token) ?? (candidates?.length === 1 ? candidates[0] : undefined)
+    if (userId && !mentioned.includes(userId)) mentioned.push(userId)
+  }
+  return mentioned
+}
+
+/**
+ * @function canEditKpiNote
+ * @description Solo el autor puede editar el texto de una nota.
+ */
+export function canEditKpiNote(
+  note: { authorUserId: string | null },
+  userId: string
+): boolean {
+  return note.authorUserId !== null && note.authorUserId === userId
+}
+
+/**
+ * @function canDeleteKpiNote
+ * @description El autor puede eliminar su nota; quien administra los KPIs de la organización
+ * (`KPI_NOTE_MODERATION_PERMISSION`) puede eliminar cualquiera.
+ */
+export function canDeleteKpiNote(
+  note: { authorUserId: string | null },
+  userId: string,
+  canModerate: boolean
+): boolean {
+  return canModerate || canEditKpiNote(note, userId)
+}
+
+/**
+ * @function buildKpiNoteThreads
+ * @description Agrupa las notas de un valor de KPI en conversaciones: notas raíz de la más reciente
+ * a la más antigua y, dentro de cada una, sus respuestas en orden cronológico. Las respuestas cuya
+ * nota raíz no está en la lista se descartan.
+ * @param {KpiNoteView[]} notes - Notas del valor de KPI.
+ * @returns {KpiNoteThread[]} Conversaciones.
+ */
+export function buildKpiNoteThreads(notes: KpiNoteView[]): KpiNoteThread[] {
+  const byCreatedAt = (a: KpiNoteView, b: KpiNoteView) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+
+  const threads = new Map<string, KpiNoteThread>()
+  notes
+    .filter(note => note.parentNoteId === null)
+    .sort((a, b) => byCreatedAt(b, a))
+    .forEach(note => threads.set(note.id, { note, replies: [] }))
+
+  notes
+    .filter(note => note.parentNoteId !== null)
+    .sort(byCreatedAt)
+    .forEach(reply => threads.get(reply.parentNoteId!)?.replies.push(reply))
+
+  return Array.from(threads.values())
+}
+
+/**
+ * @function getNoteReplyRecipientIds
+ * @description Usuarios a notificar por una respuesta: el autor de la nota raíz, quienes
+ * respondieron antes en la conversación y los mencionados en la respuesta, excepto su autor.
+ * @param {object} reply - Respuesta publicada.
+ * @param {object[]} thread - Nota raíz y respuestas de la conversación.
+ * @returns {string[]} IDs de los destinatarios.
+ */
+export function getNoteReplyRecipientIds(
+  reply: {
+    authorUserId: string | null
+    mentionedUserIds: string[]
+    createdAt: Date
+  },
+  thread: { authorUserId: string | null; createdAt: Date }[]
+): string[] {
+  const recipients = new Set<string>()
+  for (const note of thread) {
+    if (note.authorUserId && note.createdAt <= reply.createdAt) {
+      recipients.add(note.authorUserId)
+    }
+  }
+  reply.mentionedUserIds.forEach(userId => recipients.add(userId))
+  if (reply.authorUserId) recipients.delete(reply.authorUserId)
+  return Array.from(recipients)
+}
+
+/**
+ * @function canModerateKpiValueNotes
+ * @description Indica si el usuario tiene el permiso efectivo `KPI_NOTE_MODERATION_PERMISSION` en la
+ * organización del KPI del valor indicado (ver `lib/authorization.ts`).
+ * @param {any} drizzle - Instancia de Drizzle.
+ * @param {string} userId - Usuario a verificar.
+ * @param {string} kpiValueId - Valor de KPI comentado.
+ * @returns {Promise<boolean>} true si puede eliminar notas de otros usuarios.
+ */
+export async function canModerateKpiValueNotes(
+  drizzle: any,
+  userId: string,
+  kpiValueId: string
+): Promise<boolean> {
+  const organizationId = await getKpiValueOrganizationId(drizzle, kpiValueId)
+  if (!organizationId) return false
+  return hasUserPermission(
+    drizzle,
+    userId,
+    KPI_NOTE_MODERATION_PERMISSION,
+    organizationId
+  )
+}
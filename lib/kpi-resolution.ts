@@ -0,0 +1,217 @@
+/**
+ * @file lib/kpi-resolution.ts
+ * @brief Resolución de identificadores de KPI y organización leídos de los datos de origen.
+ * @description Este módulo resuelve, en los mapeos dinámicos de las importaciones, el KPI de cada
+ * fila a partir del identificador de una columna (ID, código externo, nombre o alias) y,
+ * opcionalmente, de la organización indicada en otra columna. Los textos se comparan sin distinguir
+ * mayúsculas ni espacios en los extremos; un nombre solo se busca entre los alias si no coincide con
+ * ningún nombre. Un nombre que coincide con KPIs de varias organizaciones solo se resuelve si la fila
+ * indica la organización. Las funciones son puras: los KPIs y organizaciones se cargan antes.
+ */
+
+import { matchesAlias, matchesExternalCode } from "@/lib/external-codes"
+import { ImportIdentifierType, normalizeIdentifier } from "@/types"
+
+/**
+ * @interface ResolvableKpi
+ * @description Datos de un KPI necesarios para resolverlo por su identificador.
+ */
+export interface ResolvableKpi {
+  id: string
+  name: string | null
+  organizationId: string
+  externalCode?: string | null
+  aliases?: string[] | null
+}
+
+/**
+ * @interface ResolvableOrganization
+ * @description Datos de una organización necesarios para resolverla por su identificador.
+ */
+export interface ResolvableOrganization {
+  id: string
+  name: string
+  externalCode?: string | null
+  aliases?: string[] | null
+}
+
+/**
+ * @typedef KpiResolution
+ * @description Resultado de resolver un identificador: el ID del KPI o el motivo del fallo.
+ */
+export type KpiResolution =
+  | { isSuccess: true; kpiId: string }
+  | { isSuccess: false; reason: string }
+
+/**
+ * @interface KpiResolver
+ * @description Resuelve identificadores de KPI (y de organización) contra los KPIs cargados.
+ */
+export interface KpiResolver {
+  resolve(
+    kpiIdentifier: string,
+    kpiIdentifierType: ImportIdentifierType,
+    organizationIdentifier?: string | null,
+    organizationIdentifierType?: ImportIdentifierType
+  ): KpiResolution
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Busca las entidades identificadas por un texto: por código externo (en los tipos "auto" y
+ * "externalCode") y, si no hay coincidencia, por nombre y después por alias (en "auto" y "name").
+ */
+function findByText<
+  T extends { externalCode?: string | null; aliases?: string[] | null }
+>(
+  items: T[],
+  identifier: string,
+  type: "auto" | "name" | "externalCode",
+  getName: (item: T) => string | null
+): T[] {
+  if (type !== "name") {
+    const byCode = items.filter(item =>
+      matchesExternalCode(item.externalCode, identifier)
+    )
+    if (byCode.length > 0 || type === "externalCode") return byCode
+  }
+  const key = normalizeIdentifier(identifier)
+  const byName = items.filter(item => {
+    const name = getName(item)
+    return name !== null && normalizeIdentifier(name) === key
+  })
+  if (byName.length > 0) return byName
+  return items.filter(item => matchesAlias(item.aliases, identifier))
+}
+
+function describeType(type: ImportIdentifierType): string {
+  return type === "externalCode" ? "código" : "nombre"
+}
+
+/**
+ * @function createKpiResolver
+ * @description Crea un resolvedor de identificadores sobre los KPIs y organizaciones indicados.
+ * @param {ResolvableKpi[]} kpis - KPIs candidatos.
+ * @param {ResolvableOrganization[]} organizations - Organizaciones candidatas.
+ * @returns {KpiResolver} El resolvedor.
+ */
+export function createKpiResolver(
+  kpis: ResolvableKpi[],
+  organizations: ResolvableOrganization[]
+): KpiResolver {
+  const kpisById = new Map(kpis.map(kpi => [kpi.id.toLowerCase(), kpi]))
+  const organizationsById = new Map(
+    organizations.map(org => [org.id.toLowerCase(), org])
+  )
+
+  const resolveOrganization = (
+    identifier: string,
+    type: ImportIdentifierType
+  ):
+    | { isSuccess: true; organizationId: string }
+    | { isSuccess: false; reason: string } => {
+    const matches =
+      type === "id" || (type === "auto" && UUID_PATTERN.test(identifier))
+        ? organizationsById.has(identifier.toLowerCase())
+          ? [organizationsById.get(identifier.toLowerCase())!]
+          : []
+        : findByText(organizations, identifier, type, org => org.name)
+    if (matches.length === 0) {
+      return {
+        isSuccess: false,
+        reason: `Organización "${identifier}" no encontrada.`
+      }
+    }
+    if (matches.length > 1) {
+      return {
+        isSuccess: false,
+        reason: `El ${describeType(type)} "${identifier}" coincide con ${matches.length} organizaciones.`
+      }
+    }
+    return { isSuccess: true, organizationId: matches[0].id.toLowerCase() }
+  }
+
+  return {
+    resolve(
+      kpiIdentifier,
+      kpiIdentifierType,
+      organizationIdentifier,
+      organizationIdentifierType = "auto"
+    ) {
+      const identifier = kpiIdentifier.trim()
+      if (!identifier) {
+        return { isSuccess: false, reason: "Falta el identificador del KPI." }
+      }
+
+      let organizationId: string | null = null
+      if (organizationIdentifier && organizationIdentifier.trim()) {
+        const organization = resolveOrganization(
+          organizationIdentifier.trim(),
+          organizationIdentifierType
+        )
+        if (!organization.isSuccess) return organization
+        organizationId = organization.organizationId
+      }
+      const inOrganization = (kpi: ResolvableKpi) =>
+        organizationId === null ||
+        kpi.organizationId.toLowerCase() === organizationId
+
+      if (
+        kpiIdentifierType === "id" ||
+        (kpiIdentifierType === "auto" && UUID_PATTERN.test(identifier))
+      ) {
+        const kpi = kpisById.get(identifier.toLowerCase())
+        if (!kpi) {
+          return {
+            isSuccess: false,
+            reason: `KPI "${identifier}" no encontrado.`
+          }
+        }
+        if (!inOrganization(kpi)) {
+          return {
+            isSuccess: false,
+            reason: `El KPI "${identifier}" no pertenece a la organización "${organizationIdentifier}".`
+          }
+        }
+        return { isSuccess: true, kpiId: kpi.id }
+      }
+
+      // Un código externo identifica un único KPI: si es de otra organización se informa como tal
+      const candidates = findByText(
+        kpis,
+        identifier,
+        kpiIdentifierType,
+        kpi => kpi.name
+      )
+      const byCode =
+        kpiIdentifierType !== "name" &&
+        candidates.length === 1 &&
+        matchesExternalCode(candidates[0].externalCode, identifier)
+      if (byCode && !inOrganization(candidates[0])) {
+        return {
+          isSuccess: false,
+          reason: `El KPI "${identifier}" no pertenece a la organización "${organizationIdentifier}".`
+        }
+      }
+
+      const matches = candidates.filter(inOrganization)
+      if (matches.length === 0) {
+        return {
+          isSuccess: false,
+          reason: organizationId
+            ? `KPI "${identifier}" no encontrado en la organización "${organizationIdentifier}".`
+            : `KPI "${identifier}" no encontrado.`
+        }
+      }
+      if (matches.length > 1) {
+        return {
+          isSuccess: false,
+          reason: `El ${describeType(kpiIdentifierType)} "${identifier}" coincide con ${matches.length} KPIs; indica la columna de organización.`
+        }
+      }
+      return { isSuccess: true, kpiId: matches[0].id }
+    }
+  }
+}
@@ -1,46 +1,171 @@
-import { kpiColorEnum } from "@/db/schema"
+import {
+  SelectKpi,
+  kpiColorEnum,
+  kpiScoringDirectionEnum,
+  kpiScoringMethodEnum
+} from "@/db/schema"
 
 export type KpiColor = (typeof kpiColorEnum.enumValues)[number]
 
+export type KpiScoringDirection =
+  (typeof kpiScoringDirectionEnum.enumValues)[number]
+
+export type KpiScoringMethod = (typeof kpiScoringMethodEnum.enumValues)[number]
+
+/**
+ * Configuración de puntuación de un KPI Goal/Red Flag.
+ * - direction: sentido de la puntuación (por defecto "Higher is Better").
+ * - method: tramos fijos 100/50/25/0 ("Stepped", por defecto) o interpolación lineal entre umbrales.
+ * - tolerance: en "Closer to Target", desviación máxima respecto del target que se considera Verde.
+ */
+export interface KpiScoringOptions {
+  direction?: KpiScoringDirection
+  method?: KpiScoringMethod
+  tolerance?: number | null
+}
+
+/**
+ * Obtiene las opciones de puntuación a partir de la configuración almacenada del KPI.
+ */
+export function getKpiScoringOptions(
+  kpi: Pick<SelectKpi, "scoringDirection" | "scoringMethod" | "targetTolerance">
+): KpiScoringOptions {
+  const tolerance =
+    kpi.targetTolerance !== null && kpi.targetTolerance !== undefined
+      ? parseFloat(kpi.targetTolerance)
+      : null
+  return {
+    direction: kpi.scoringDirection,
+    method: kpi.scoringMethod,
+    tolerance:
+      tolerance !== null && !isNaN(tolerance) ? Math.abs(tolerance) : null
+  }
+}
+
+interface NormalizedValues {
+  actual: number
+  target: number | null
+  thresholdRed: number | null
+  thresholdYellow: number | null
+}
+
+/**
+ * Transforma los valores a una escala equivalente donde "mayor es mejor":
+ * - "Lower is Better": se invierte el signo de todos los valores.
+ * - "Closer to Target": cada valor se reemplaza por su distancia (negativa) al target; el target
+ *   pasa a ser la tolerancia y los umbrales definen bandas simétricas alrededor del target.
+ * Devuelve null si la dirección requiere un target y no lo hay.
+ */
+function normalizeToHigherIsBetter(
+  values: NormalizedValues,
+  direction: KpiScoringDirection,
+  tolerance: number | null
+): NormalizedValues | null {
+  const { actual, target, thresholdRed, thresholdYellow } = values
+  switch (direction) {
+    case "Lower is Better": {
+      const negate = (v: number | null) => (v === null ? null : -v)
+      return {
+        actual: -actual,
+        target: negate(target),
+        thresholdRed: negate(thresholdRed),
+        thresholdYellow: negate(thresholdYellow)
+      }
+    }
+    case "Closer to Target": {
+      if (target === null) return null
+      const distance = (v: number | null) =>
+        v === null ? null : -Math.abs(v - target)
+      return {
+        actual: distance(actual)!,
+        target: -(tolerance ?? 0),
+        thresholdRed: distance(thresholdRed),
+        thresholdYellow: distance(thresholdYellow)
+      }
+    }
+    default:
+      return values
+  }
+}
+
+/**
+ * Interpola linealmente el score entre dos puntos de anclaje.
+ */
+function interpolate(
+  value: number,
+  from: number,
+  to: number,
+  fromScore: number,
+  toScore: number
+): number {
+  if (to === from) return toScore
+  return fromScore + ((toScore - fromScore) * (value - from)) / (to - from)
+}
+
 /**
  * Calcula score y color para KPIs tipo Goal/Red Flag.
- * Asume "mayor o igual es mejor" respecto del target.
+ * Por defecto asume "mayor o igual es mejor" respecto del target y tramos fijos (100/50/25/0);
+ * `options` permite invertir el sentido, puntuar por cercanía al target (con banda de tolerancia)
+ * e interpolar linealmente el score entre umbrales (el color no cambia con la interpolación).
  */
 export function calculateKpiScoreAndColor(
   actualValue: number | null,
   targetValue: number | null,
   thresholdRed: number | null,
-  thresholdYellow: number | null
+  thresholdYellow: number | null,
+  options: KpiScoringOptions = {}
 ): { score: number | null; color: KpiColor | null } {
   if (actualValue === null || isNaN(actualValue)) {
     return { score: null, color: null }
   }
 
+  const normalized = normalizeToHigherIsBetter(
+    { actual: actualValue, target: targetValue, thresholdRed, thresholdYellow },
+    options.direction ?? "Higher is Better",
+    options.tolerance ?? null
+  )
+  if (!normalized) {
+    return { score: null, color: null }
+  }
+  const actual = normalized.actual
+  const target = normalized.target
+  const red = normalized.thresholdRed
+  const yellow = normalized.thresholdYellow
+  const interpolated = options.method === "Interpolated"
+
   let score: number | null = null
   let color: KpiColor | null = null
 
-  if (targetValue !== null) {
-    if (actualValue >= targetValue) {
+  if (target !== null) {
+    if (actual >= target) {
       score = 100
       color = "Green"
-    } else if (thresholdYellow !== null && actualValue >= thresholdYellow) {
-      score = 50
+    } else if (yellow !== null && actual >= yellow) {
+      score = interpolated ? interpolate(actual, yellow, target, 50, 100) : 50
       color = "Yellow"
-    } else if (thresholdRed !== null && actualValue >= thresholdRed) {
-      score = 25
+    } else if (red !== null && actual >= red) {
+      score = interpolated
+        ? interpolate(
+            actual,
+            red,
+            yellow ?? target,
+            25,
+            yellow !== null ? 50 : 100
+          )
+        : 25
       color = "Red"
     } else {
       score = 0
       color = "Red"
     }
-  } else if (thresholdRed !== null || thresholdYellow !== null) {
-    if (thresholdYellow !== null && actualValue >= thresholdYellow) {
+  } else if (red !== null || yellow !== null) {
+    if (yellow !== null && actual >= yellow) {
       score = 75
       color = "Yellow"
-    } else if (thresholdRed !== null && actualValue >= thresholdRed) {
+    } else if (red !== null && actual >= red) {
       score = 50
       color = "Red"
-    } else if (actualValue < (thresholdRed ?? thresholdYellow ?? -Infinity)) {
+    } else if (actual < (red ?? yellow ?? -Infinity)) {
       score = 0
       color = "Red"
     } else {
@@ -53,7 +178,7 @@ export function calculateKpiScoreAndColor(
   }
 
   if (score !== null) {
-    score = Math.max(0, Math.min(100, score))
+    score = Math.round(Math.max(0, Math.min(100, score)) * 100) / 100
   }
 
   return { score, color }
@@ -0,0 +1,337 @@
+/**
+ * @file lib/kpi-updaters.ts
+ * @brief Resolución de los encargados de actualización (Updaters) de los KPIs.
+ * @description Un usuario es Updater de un KPI si está asignado directamente en `kpi_updaters`, si
+ * pertenece a un grupo asignado en `kpi_group_updaters` o si pertenece a un grupo asignado en
+ * `scorecard_element_group_updaters` al elemento del KPI o a uno de sus ancestros. La pertenencia a
+ * los grupos y los KPIs bajo un elemento se resuelven en cada consulta, de modo que la rotación de
+ * los equipos y los KPIs creados después no obligan a reasignar. Lo usan la actualización manual de
+ * valores, los recordatorios de actualización y la lista de KPIs por actualizar de cada usuario.
+ */
+
+import {
+  groupMembersTable,
+  kpiGroupUpdatersTable,
+  kpiUpdatersTable,
+  kpisTable,
+  scorecardElementGroupUpdatersTable,
+  scorecardElementsTable
+} from "@/db/schema"
+import { KpiUpdaterAccess, KpiValueThresholds } from "@/types"
+import { and, eq, inArray } from "drizzle-orm"
+
+/**
+ * @function loadScorecardElementLineages
+ * @description Cadena de cada elemento del Scorecard hasta la raíz: el propio elemento y sus ancestros.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string[]} elementIds - Los elementos.
+ * @returns {Promise<Map<string, string[]>>} Los IDs del elemento y sus ancestros por ID de elemento.
+ */
+async function loadScorecardElementLineages(
+  drizzle: any,
+  elementIds: string[]
+): Promise<Map<string, string[]>> {
+  const parentOf = new Map<string, string | null>()
+  let idsToSearch = Array.from(new Set(elementIds))
+
+  // Sube por el árbol nivel por nivel, consultando solo los elementos aún no vistos
+  while (idsToSearch.length > 0) {
+    const elements: { id: string; parentId: string | null }[] = await drizzle
+      .select({
+        id: scorecardElementsTable.id,
+        parentId: scorecardElementsTable.parentId
+      })
+      .from(scorecardElementsTable)
+      .where(inArray(scorecardElementsTable.id, idsToSearch))
+    elements.forEach(element => parentOf.set(element.id, element.parentId))
+    idsToSearch.forEach(id => parentOf.set(id, parentOf.get(id) ?? null))
+    idsToSearch = Array.from(
+      new Set(
+        elements
+          .map(element => element.parentId)
+          .filter((id): id is string => !!id && !parentOf.has(id))
+      )
+    )
+  }
+
+  const lineages = new Map<string, string[]>()
+  for (const elementId of elementIds) {
+    // El conjunto de visitados protege ante ciclos
+    const lineage: string[] = []
+    for (
+      let id: string | null = elementId;
+      id && !lineage.includes(id);
+      id = parentOf.get(id) ?? null
+    ) {
+      lineage.push(id)
+    }
+    lineages.set(elementId, lineage)
+  }
+  return lineages
+}
+
+/**
+ * @function getKpiUpdaterAccess
+ * @description Acceso del usuario al KPI como Updater, directamente, por un grupo asignado al KPI o
+ * por un grupo asignado al elemento del KPI o a uno de sus ancestros. Puede modificar los umbrales
+ * si alguna de esas asignaciones se lo permite.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} kpiId - El KPI.
+ * @param {string} userId - El usuario.
+ * @returns {Promise<KpiUpdaterAccess | null>} El acceso, o null si no es Updater del KPI.
+ */
+export async function getKpiUpdaterAccess(
+  drizzle: any,
+  kpiId: string,
+  userId: string
+): Promise<KpiUpdaterAccess | null> {
+  const direct: { canModifyThresholds: boolean }[] = await drizzle
+    .select({ canModifyThresholds: kpiUpdatersTable.canModifyThresholds })
+    .from(kpiUpdatersTable)
+    .where(
+      and(
+        eq(kpiUpdatersTable.kpiId, kpiId),
+        eq(kpiUpdatersTable.userId, userId)
+      )
+    )
+  const viaGroups: { canModifyThresholds: boolean }[] = await drizzle
+    .select({ canModifyThresholds: kpiGroupUpdatersTable.canModifyThresholds })
+    .from(kpiGroupUpdatersTable)
+    .innerJoin(
+      groupMembersTable,
+      eq(kpiGroupUpdatersTable.groupId, groupMembersTable.groupId)
+    )
+    .where(
+      and(
+        eq(kpiGroupUpdatersTable.kpiId, kpiId),
+        eq(groupMembersTable.userId, userId)
+      )
+    )
+
+  const [kpi]: { scorecardElementId: string }[] = await drizzle
+    .select({ scorecardElementId: kpisTable.scorecardElementId })
+    .from(kpisTable)
+    .where(eq(kpisTable.id, kpiId))
+    .limit(1)
+  let viaElements: { canModifyThresholds: boolean }[] = []
+  if (kpi) {
+    const lineage =
+      (
+        await loadScorecardElementLineages(drizzle, [kpi.scorecardElementId])
+      ).get(kpi.scorecardElementId) ?? []
+    viaElements = await drizzle
+      .select({
+        canModifyThresholds:
+          scorecardElementGroupUpdatersTable.canModifyThresholds
+      })
+      .from(scorecardElementGroupUpdatersTable)
+      .innerJoin(
+        groupMembersTable,
+        eq(
+          scorecardElementGroupUpdatersTable.groupId,
+          groupMembersTable.groupId
+        )
+      )
+      .where(
+        and(
+          inArray(
+            scorecardElementGroupUpdatersTable.scorecardElementId,
+            lineage
+          ),
+          eq(groupMembersTable.userId, userId)
+        )
+      )
+  }
+
+  const assignments = [...direct, ...viaGroups, ...viaElements]
+  if (assignments.length === 0) return null
+  return {
+    canModifyThresholds: assignments.some(
+      assignment => assignment.canModifyThresholds
+    )
+  }
+}
+
+/**
+ * @function loadKpiUpdaterUserIds
+ * @description Usuarios Updaters de cada KPI: los asignados directamente y los miembros actuales
+ * de los grupos asignados al KPI o a su elemento o a uno de sus ancestros, sin duplicados.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string[]} kpiIds - Los KPIs.
+ * @returns {Promise<Map<string, string[]>>} Los IDs de usuario por ID de KPI (solo KPIs con Updaters).
+ */
+export async function loadKpiUpdaterUserIds(
+  drizzle: any,
+  kpiIds: string[]
+): Promise<Map<string, string[]>> {
+  const updaters = new Map<string, string[]>()
+  if (kpiIds.length === 0) return updaters
+
+  const direct: { kpiId: string; userId: string }[] = await drizzle
+    .select({ kpiId: kpiUpdatersTable.kpiId, userId: kpiUpdatersTable.userId })
+    .from(kpiUpdatersTable)
+    .where(inArray(kpiUpdatersTable.kpiId, kpiIds))
+  const viaGroups: { kpiId: string; userId: string }[] = await drizzle
+    .select({
+      kpiId: kpiGroupUpdatersTable.kpiId,
+      userId: groupMembersTable.userId
+    })
+    .from(kpiGroupUpdatersTable)
+    .innerJoin(
+      groupMembersTable,
+      eq(kpiGroupUpdatersTable.groupId, groupMembersTable.groupId)
+    )
+    .where(inArray(kpiGroupUpdatersTable.kpiId, kpiIds))
+
+  // Asignaciones por elemento: se expanden a los KPIs cuyo elemento o ancestro está asignado
+  const kpis: { id: string; scorecardElementId: string }[] = await drizzle
+    .select({
+      id: kpisTable.id,
+      scorecardElementId: kpisTable.scorecardElementId
+    })
+    .from(kpisTable)
+    .where(inArray(kpisTable.id, kpiIds))
+  const lineages = await loadScorecardElementLineages(
+    drizzle,
+    kpis.map(kpi => kpi.scorecardElementId)
+  )
+  const lineageElementIds = Array.from(
+    new Set(Array.from(lineages.values()).flat())
+  )
+  const elementUpdaters: { scorecardElementId: string; userId: string }[] =
+    lineageElementIds.length === 0
+      ? []
+      : await drizzle
+          .select({
+            scorecardElementId:
+              scorecardElementGroupUpdatersTable.scorecardElementId,
+            userId: groupMembersTable.userId
+          })
+          .from(scorecardElementGroupUpdatersTable)
+          .innerJoin(
+            groupMembersTable,
+            eq(
+              scorecardElementGroupUpdatersTable.groupId,
+              groupMembersTable.groupId
+            )
+          )
+          .where(
+            inArray(
+              scorecardElementGroupUpdatersTable.scorecardElementId,
+              lineageElementIds
+            )
+          )
+  const viaElements = kpis.flatMap(kpi => {
+    const lineage = lineages.get(kpi.scorecardElementId) ?? []
+    return elementUpdaters
+      .filter(row => lineage.includes(row.scorecardElementId))
+      .map(row => ({ kpiId: kpi.id, userId: row.userId }))
+  })
+
+  for (const { kpiId, userId } of [...direct, ...viaGroups, ...viaElements]) {
+    const userIds = updaters.get(kpiId) ?? []
+    if (!userIds.includes(userId)) userIds.push(userId)
+    updaters.set(kpiId, userIds)
+  }
+  return updaters
+}
+
+/**
+ * @function getUpdatableKpiIds
+ * @description KPIs de los que el usuario es Updater, directamente, por un grupo asignado al KPI o
+ * por un grupo asignado a un elemento del Scorecard (sus KPIs y los de sus descendientes).
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario.
+ * @returns {Promise<string[]>} Los IDs de los KPIs, sin duplicados.
+ */
+export async function getUpdatableKpiIds(
+  drizzle: any,
+  userId: string
+): Promise<string[]> {
+  const direct: { kpiId: string }[] = await drizzle
+    .select({ kpiId: kpiUpdatersTable.kpiId })
+    .from(kpiUpdatersTable)
+    .where(eq(kpiUpdatersTable.userId, userId))
+  const viaGroups: { kpiId: string }[] = await drizzle
+    .select({ kpiId: kpiGroupUpdatersTable.kpiId })
+    .from(kpiGroupUpdatersTable)
+    .innerJoin(
+      groupMembersTable,
+      eq(kpiGroupUpdatersTable.groupId, groupMembersTable.groupId)
+    )
+    .where(eq(groupMembersTable.userId, userId))
+  const elements: { scorecardElementId: string }[] = await drizzle
+    .select({
+      scorecardElementId: scorecardElementGroupUpdatersTable.scorecardElementId
+    })
+    .from(scorecardElementGroupUpdatersTable)
+    .innerJoin(
+      groupMembersTable,
+      eq(scorecardElementGroupUpdatersTable.groupId, groupMembersTable.groupId)
+    )
+    .where(eq(groupMembersTable.userId, userId))
+
+  const kpiIds = new Set([...direct, ...viaGroups].map(row => row.kpiId))
+  for (const elementId of new Set(elements.map(e => e.scorecardElementId))) {
+    for (const kpiId of await getKpiIdsUnderScorecardElement(
+      drizzle,
+      elementId
+    )) {
+      kpiIds.add(kpiId)
+    }
+  }
+  return Array.from(kpiIds)
+}
+
+/**
+ * @function getKpiIdsUnderScorecardElement
+ * @description KPIs del elemento del Scorecard indicado y de todos sus descendientes.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} scorecardElementId - El elemento raíz.
+ * @returns {Promise<string[]>} Los IDs de los KPIs del subárbol.
+ */
+export async function getKpiIdsUnderScorecardElement(
+  drizzle: any,
+  scorecardElementId: string
+): Promise<string[]> {
+  const elementIds = new Set<string>([scorecardElementId])
+  let parentIdsToSearch: string[] = [scorecardElementId]
+
+  // Recorre el árbol nivel por nivel; el conjunto de visitados protege ante ciclos
+  while (parentIdsToSearch.length > 0) {
+    const children: { id: string }[] = await drizzle
+      .select({ id: scorecardElementsTable.id })
+      .from(scorecardElementsTable)
+      .where(inArray(scorecardElementsTable.parentId, parentIdsToSearch))
+    parentIdsToSearch = children
+      .map(child => child.id)
+      .filter(id => !elementIds.has(id))
+    parentIdsToSearch.forEach(id => elementIds.add(id))
+  }
+
+  const kpis: { id: string }[] = await drizzle
+    .select({ id: kpisTable.id })
+    .from(kpisTable)
+    .where(inArray(kpisTable.scorecardElementId, Array.from(elementIds)))
+  return kpis.map(kpi => kpi.id)
+}
+
+/**
+ * @function resolveUpdaterThresholds
+ * @description Objetivo y umbrales que guarda un Updater sin permiso para modificarlos: los campos
+ * vacíos toman el valor vigente y los campos indicados deben coincidir con él.
+ * @param {KpiValueThresholds} submitted - Objetivo y umbrales enviados.
+ * @param {KpiValueThresholds} current - Objetivo y umbrales vigentes del KPI.
+ * @returns {KpiValueThresholds | null} Los valores a guardar, o null si se intenta cambiar alguno.
+ */
+export function resolveUpdaterThresholds(
+  submitted: KpiValueThresholds,
+  current: KpiValueThresholds
+): KpiValueThresholds | null {
+  const fields = Object.keys(current) as (keyof KpiValueThresholds)[]
+  const changed = fields.some(field => {
+    const value = submitted[field]?.trim() || null
+    return value !== null && value !== current[field]
+  })
+  return changed ? null : current
+}
@@ -0,0 +1,192 @@
+/**
+ * @file lib/kpi-value-entry.ts
+ * @brief Validación, puntuación y guardado de un valor de KPI introducido manualmente o por API.
+ * @description Reúne las reglas que aplican tanto la actualización manual de un valor
+ * (`updateKpiManualValueAction`) como la ingesta por API (`POST /api/kpi-values`): el valor actual
+ * debe ser numérico en los KPIs numéricos, el objetivo y los umbrales de los KPIs Goal/Red Flag
+ * deben ser números, la puntuación y el color se calculan según el tipo de puntuación del KPI y,
+ * si la configuración `require_note_for_red_kpi` está activa, un valor en Rojo exige una nota.
+ */
+
+import {
+  InsertKpiValue,
+  SelectKpi,
+  SelectKpiValue,
+  appSettingsTable,
+  kpiColorEnum,
+  kpiValuesTable
+} from "@/db/schema"
+import {
+  calculateKpiScoreAndColor,
+  getKpiScoringOptions
+} from "@/lib/kpi-scoring"
+import { eq } from "drizzle-orm"
+
+type KpiColor = (typeof kpiColorEnum.enumValues)[number]
+
+const NUMERIC_DATA_TYPES = new Set(["Number", "Percentage", "Currency"])
+
+/**
+ * @constant REQUIRE_NOTE_FOR_RED_KPI_SETTING_KEY
+ * @description Clave de `app_settings` que exige una nota al guardar un valor en Rojo.
+ */
+export const REQUIRE_NOTE_FOR_RED_KPI_SETTING_KEY = "require_note_for_red_kpi"
+
+/**
+ * @interface KpiValueEntryInput
+ * @description Valores introducidos para un KPI y período.
+ */
+export interface KpiValueEntryInput {
+  actualValue?: string | null
+  targetValue?: string | null
+  thresholdRed?: string | null
+  thresholdYellow?: string | null
+  note?: string | null
+}
+
+/**
+ * @typedef KpiValueEntryEvaluation
+ * @description Resultado de validar y puntuar un valor: la puntuación y el color, o el motivo del rechazo.
+ */
+export type KpiValueEntryEvaluation =
+  | { isSuccess: true; score: number | null; color: KpiColor | null }
+  | { isSuccess: false; message: string }
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== ""
+
+/**
+ * @function evaluateKpiValueEntry
+ * @description Valida los valores introducidos contra la configuración del KPI y calcula su
+ * puntuación y color.
+ * @param {Pick<SelectKpi, "dataType" | "scoringType" | "scoringDirection" | "scoringMethod" | "targetTolerance">} kpi - Configuración del KPI.
+ * @param {KpiValueEntryInput} input - Valores introducidos.
+ * @param {boolean} isNoteRequiredForRed - Si un valor en Rojo exige una nota.
+ * @returns {KpiValueEntryEvaluation} Puntuación y color, o el motivo del rechazo.
+ */
+export function evaluateKpiValueEntry(
+  kpi: Pick<
+    SelectKpi,
+    | "dataType"
+    | "scoringType"
+    | "scoringDirection"
+    | "scoringMethod"
+    | "targetTolerance"
+  >,
+  input: KpiValueEntryInput,
+  isNoteRequiredForRed: boolean
+): KpiValueEntryEvaluation {
+  const { actualValue, targetValue, thresholdRed, thresholdYellow, note } =
+    input
+
+  // El valor actual debe ser numérico en los KPIs de tipo Número, Porcentaje o Moneda
+  let parsedActualValue: number | null = null
+  if (isNonEmptyString(actualValue) && NUMERIC_DATA_TYPES.has(kpi.dataType)) {
+    parsedActualValue = parseFloat(actualValue)
+    if (isNaN(parsedActualValue)) {
+      return {
+        isSuccess: false,
+        message: `El valor actual no es un número válido para el tipo de dato ${kpi.dataType}.`
+      }
+    }
+  }
+
+  let score: number | null = null
+  let color: KpiColor | null = null
+
+  if (kpi.scoringType === "Goal/Red Flag") {
+    const parse = (value: string | null | undefined) =>
+      isNonEmptyString(value) ? parseFloat(value) : null
+    const parsedTarget = parse(targetValue)
+    const parsedThresholdRed = parse(thresholdRed)
+    const parsedThresholdYellow = parse(thresholdYellow)
+
+    if (Number.isNaN(parsedTarget)) {
+      return { isSuccess: false, message: "El valor objetivo no es un número válido." }
+    }
+    if (Number.isNaN(parsedThresholdRed)) {
+      return { isSuccess: false, message: "El umbral rojo no es un número válido." }
+    }
+    if (Number.isNaN(parsedThresholdYellow)) {
+      return { isSuccess: false, message: "El umbral amarillo no es un número válido." }
+    }
+
+    const calculated = calculateKpiScoreAndColor(
+      parsedActualValue,
+      parsedTarget,
+      parsedThresholdRed,
+      parsedThresholdYellow,
+      getKpiScoringOptions(kpi)
+    )
+    score = calculated.score
+    color = calculated.color
+  } else if (kpi.scoringType === "Yes/No") {
+    // 'Yes' puntúa 100 (Verde) y 'No' 0 (Rojo); otros valores quedan sin puntuación
+    const answer = actualValue?.trim().toLowerCase()
+    if (answer === "yes") {
+      score = 100
+      color = "Green"
+    } else if (answer === "no") {
+      score = 0
+      color = "Red"
+    }
+  }
+  // Los KPIs de tipo Texto no se puntúan
+
+  if (isNoteRequiredForRed && color === "Red" && !isNonEmptyString(note)) {
+    return {
+      isSuccess: false,
+      message: "Una nota es requerida al actualizar un KPI a estado 'Rojo'."
+    }
+  }
+
+  return { isSuccess: true, score, color }
+}
+
+/**
+ * @function isNoteRequiredForRedKpi
+ * @description Lee la configuración que exige una nota al guardar un valor en Rojo (UC-303).
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @returns {Promise<boolean>} Verdadero si la nota es obligatoria.
+ */
+export async function isNoteRequiredForRedKpi(drizzle: any): Promise<boolean> {
+  const [setting]: { settingValue: string | null }[] = await drizzle
+    .select({ settingValue: appSettingsTable.settingValue })
+    .from(appSettingsTable)
+    .where(eq(appSettingsTable.settingKey, REQUIRE_NOTE_FOR_RED_KPI_SETTING_KEY))
+    .limit(1)
+  return setting?.settingValue === "true"
+}
+
+/**
+ * @function upsertKpiValue
+ * @description Inserta el valor de un KPI y período o, si ya existe, lo reemplaza.
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @param {InsertKpiValue} value - Valor a guardar (con `periodDate` ya normalizado).
+ * @returns {Promise<SelectKpiValue | undefined>} El valor guardado.
+ */
+export async function upsertKpiValue(
+  drizzle: any,
+  value: InsertKpiValue
+): Promise<SelectKpiValue | undefined> {
+  const [saved]: SelectKpiValue[] = await drizzle
+    .insert(kpiValuesTable)
+    .values(value)
+    .onConflictDoUpdate({
+      target: [kpiValuesTable.kpiId, kpiValuesTable.periodDate],
+      set: {
+        actualValue: value.actualValue,
+        targetValue: value.targetValue,
+        thresholdRed: value.thresholdRed,
+        thresholdYellow: value.thresholdYellow,
+        score: value.score,
+        color: value.color,
+        updatedByUserId: value.updatedByUserId,
+        isManualEntry: value.isManualEntry,
+        note: value.note,
+        updatedAt: new Date()
+      }
+    })
+    .returning()
+  return saved
+}
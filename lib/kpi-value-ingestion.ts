@@ -0,0 +1,411 @@
+/**
+ * @file lib/kpi-value-ingestion.ts
+ * @brief Ingesta por lotes de valores de KPI enviados por procesos externos.
+ * @description Este módulo lee el cuerpo de `POST /api/kpi-values`, hasta un tamaño máximo (un
+ * arreglo JSON, un objeto con `items`, un único objeto o NDJSON con un objeto por línea), y guarda
+ * cada elemento del lote de forma independiente: resuelve el KPI y la organización (ID, código externo, nombre o alias) entre
+ * las organizaciones permitidas por la clave de API, lleva la fecha al inicio del período, completa
+ * los campos omitidos con el valor guardado y aplica la misma validación y puntuación que la
+ * actualización manual (`lib/kpi-value-entry.ts`). Los KPIs calculados y los rollups no admiten
+ * valores enviados. Tras guardar, recalcula en cascada los KPIs dependientes de cada período.
+ */
+
+import {
+  SelectApiKey,
+  SelectKpi,
+  kpisTable,
+  organizationsTable,
+  scorecardElementsTable
+} from "@/db/schema"
+import { getApiKeyOrganizationIds } from "@/lib/api-keys"
+import {
+  ExistingKpiValue,
+  kpiValueKey,
+  loadExistingKpiValues
+} from "@/lib/import-preview"
+import {
+  loadKpiGraphNodes,
+  propagateKpiValueChanges
+} from "@/lib/kpi-calculation-engine"
+import { buildKpiDependencyGraph } from "@/lib/kpi-dependency-graph"
+import { createKpiResolver } from "@/lib/kpi-resolution"
+import {
+  evaluateKpiValueEntry,
+  isNoteRequiredForRedKpi,
+  upsertKpiValue
+} from "@/lib/kpi-value-entry"
+import { getLogger } from "@/lib/logger"
+import {
+  getFiscalYearStartMonth,
+  normalizePeriodDate
+} from "@/lib/period-utils"
+import {
+  KPI_VALUE_INGESTION_MAX_BODY_BYTES,
+  KPI_VALUE_INGESTION_MAX_ITEMS,
+  KpiValueIngestionEntry,
+  KpiValueIngestionItem,
+  KpiValueIngestionItemResult,
+  KpiValueIngestionItemSchema
+} from "@/types"
+import { eq, inArray } from "drizzle-orm"
+
+const logger = getLogger("kpi-value-ingestion")
+
+/**
+ * @typedef KpiValueIngestionBody
+ * @description Resultado de leer el cuerpo de la solicitud: los elementos del lote o el motivo
+ * (y el código HTTP) por el que se rechaza la solicitud completa.
+ */
+export type KpiValueIngestionBody =
+  | { isSuccess: true; entries: KpiValueIngestionEntry[] }
+  | { isSuccess: false; status: number; message: string }
+
+/**
+ * @function readKpiValueIngestionBody
+ * @description Lee el cuerpo de la solicitud como texto sin superar
+ * `KPI_VALUE_INGESTION_MAX_BODY_BYTES`: rechaza la solicitud si la cabecera `Content-Length` ya
+ * excede el límite y, si no la trae o no es fiable, deja de leer en cuanto el cuerpo lo supera.
+ * @param {Request} request - La solicitud entrante.
+ * @returns {Promise<{ isSuccess: true; body: string } | { isSuccess: false; status: number; message: string }>}
+ * El cuerpo leído o el motivo del rechazo (413).
+ */
+export async function readKpiValueIngestionBody(
+  request: Request
+): Promise<
+  | { isSuccess: true; body: string }
+  | { isSuccess: false; status: number; message: string }
+> {
+  const tooLarge = {
+    isSuccess: false as const,
+    status: 413,
+    message: `El cuerpo de la solicitud excede ${KPI_VALUE_INGESTION_MAX_BODY_BYTES / (1024 * 1024)}MB.`
+  }
+  if (
+    Number(request.headers.get("content-length")) >
+    KPI_VALUE_INGESTION_MAX_BODY_BYTES
+  ) {
+    return tooLarge
+  }
+  if (!request.body) return { isSuccess: true, body: "" }
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > KPI_VALUE_INGESTION_MAX_BODY_BYTES) {
+      await reader.cancel()
+      return tooLarge
+    }
+    chunks.push(value)
+  }
+  return { isSuccess: true, body: Buffer.concat(chunks).toString("utf-8") }
+}
+
+/**
+ * @function isNdjsonContentType
+ * @description Indica si el tipo de contenido corresponde a NDJSON (un objeto JSON por línea).
+ */
+export function isNdjsonContentType(contentType: string | null): boolean {
+  return /ndjson|jsonl/i.test(contentType ?? "")
+}
+
+/**
+ * @function parseKpiValueIngestionBody
+ * @description Lee los elementos del cuerpo de la solicitud. En NDJSON cada línea no vacía es un
+ * elemento y una línea con JSON inválido solo invalida ese elemento; en JSON se admite un arreglo,
+ * un objeto `{ "items": [...] }` o un único objeto.
+ * @param {string} body - Cuerpo de la solicitud.
+ * @param {string | null} contentType - Cabecera `Content-Type`.
+ * @returns {KpiValueIngestionBody} Los elementos leídos o el motivo del rechazo.
+ */
+export function parseKpiValueIngestionBody(
+  body: string,
+  contentType: string | null
+): KpiValueIngestionBody {
+  let entries: KpiValueIngestionEntry[]
+
+  if (isNdjsonContentType(contentType)) {
+    entries = []
+    body.split(/\r?\n/).forEach((text, lineIndex) => {
+      if (!text.trim()) return
+      const entry: KpiValueIngestionEntry = {
+        index: entries.length,
+        line: lineIndex + 1
+      }
+      try {
+        entry.value = JSON.parse(text)
+      } catch {
+        entry.error = "JSON inválido en la línea."
+      }
+      entries.push(entry)
+    })
+  } else {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(body)
+    } catch {
+      return {
+        isSuccess: false,
+        status: 400,
+        message: "El cuerpo de la solicitud no es un JSON válido."
+      }
+    }
+    const items = Array.isArray(parsed)
+      ? parsed
+      : parsed !== null &&
+          typeof parsed === "object" &&
+          Array.isArray((parsed as { items?: unknown }).items)
+        ? (parsed as { items: unknown[] }).items
+        : [parsed]
+    entries = items.map((value, index) => ({ index, line: null, value }))
+  }
+
+  if (entries.length === 0) {
+    return {
+      isSuccess: false,
+      status: 400,
+      message: "La solicitud no contiene elementos."
+    }
+  }
+  if (entries.length > KPI_VALUE_INGESTION_MAX_ITEMS) {
+    return {
+      isSuccess: false,
+      status: 413,
+      message: `La solicitud contiene ${entries.length} elementos; el máximo es ${KPI_VALUE_INGESTION_MAX_ITEMS}.`
+    }
+  }
+  return { isSuccess: true, entries }
+}
+
+/**
+ * Valor a guardar de un campo: el enviado (los números se guardan como texto), null si se envió
+ * null para borrarlo o el guardado si se omitió.
+ */
+function resolveField(
+  sent: string | number | null | undefined,
+  stored: string | null | undefined
+): string | null {
+  if (sent === undefined) return stored ?? null
+  if (sent === null) return null
+  return typeof sent === "number" ? String(sent) : sent
+}
+
+/**
+ * @function mergeIngestionItem
+ * @description Combina un elemento con el valor guardado del mismo KPI y período: los campos
+ * omitidos conservan el valor guardado y los enviados como null lo borran.
+ * @param {KpiValueIngestionItem} item - Elemento validado.
+ * @param {ExistingKpiValue | undefined} existing - Valor guardado, si existe.
+ * @returns Valores a validar y guardar.
+ */
+export function mergeIngestionItem(
+  item: KpiValueIngestionItem,
+  existing: ExistingKpiValue | undefined
+): {
+  actualValue: string | null
+  targetValue: string | null
+  thresholdRed: string | null
+  thresholdYellow: string | null
+  note: string | null
+} {
+  const thresholds =
+    item.thresholds === null ? { red: null, yellow: null } : item.thresholds
+  return {
+    actualValue: resolveField(item.actual, existing?.actualValue),
+    targetValue: resolveField(item.target, existing?.targetValue),
+    thresholdRed: resolveField(thresholds?.red, existing?.thresholdRed),
+    thresholdYellow: resolveField(
+      thresholds?.yellow,
+      existing?.thresholdYellow
+    ),
+    note: item.note === undefined ? (existing?.note ?? null) : item.note
+  }
+}
+
+/**
+ * @function ingestKpiValues
+ * @description Guarda los elementos de un lote enviado con una clave de API. Cada elemento se
+ * valida y guarda de forma independiente; los rechazados no impiden guardar los demás.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {SelectApiKey} apiKey - Clave de API autenticada.
+ * @param {KpiValueIngestionEntry[]} entries - Elementos leídos del cuerpo.
+ * @returns {Promise<KpiValueIngestionItemResult[]>} El resultado de cada elemento, en el orden recibido.
+ */
+export async function ingestKpiValues(
+  drizzle: any,
+  apiKey: SelectApiKey,
+  entries: KpiValueIngestionEntry[]
+): Promise<KpiValueIngestionItemResult[]> {
+  const organizationIds = await getApiKeyOrganizationIds(drizzle, apiKey)
+  const kpis: {
+    kpi: SelectKpi
+    name: string
+    organizationId: string
+  }[] = await drizzle
+    .select({
+      kpi: kpisTable,
+      name: scorecardElementsTable.name,
+      organizationId: scorecardElementsTable.organizationId
+    })
+    .from(kpisTable)
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(inArray(scorecardElementsTable.organizationId, organizationIds))
+  const organizations = await drizzle
+    .select({
+      id: organizationsTable.id,
+      name: organizationsTable.name,
+      externalCode: organizationsTable.externalCode,
+      aliases: organizationsTable.aliases
+    })
+    .from(organizationsTable)
+    .where(inArray(organizationsTable.id, organizationIds))
+
+  // Solo se resuelven los KPIs y organizaciones permitidos por la clave
+  const resolver = createKpiResolver(
+    kpis.map(k => ({
+      id: k.kpi.id,
+      name: k.name,
+      organizationId: k.organizationId,
+      externalCode: k.kpi.externalCode,
+      aliases: k.kpi.aliases
+    })),
+    organizations
+  )
+  const kpiMap = new Map(kpis.map(k => [k.kpi.id, k.kpi]))
+  const fiscalYearStartMonth = await getFiscalYearStartMonth(drizzle)
+  const isNoteRequiredForRed = await isNoteRequiredForRedKpi(drizzle)
+
+  const results: KpiValueIngestionItemResult[] = []
+  const reject = (entry: KpiValueIngestionEntry, message: string) =>
+    results.push({
+      index: entry.index,
+      line: entry.line,
+      status: "rejected",
+      message
+    })
+
+  // 1) Validación y resolución de cada elemento
+  const accepted: {
+    entry: KpiValueIngestionEntry
+    item: KpiValueIngestionItem
+    kpi: SelectKpi
+    periodDate: string
+  }[] = []
+  for (const entry of entries) {
+    if (entry.error) {
+      reject(entry, entry.error)
+      continue
+    }
+    const validated = KpiValueIngestionItemSchema.safeParse(entry.value)
+    if (!validated.success) {
+      reject(entry, validated.error.errors.map(e => e.message).join(", "))
+      continue
+    }
+    const item = validated.data
+
+    const resolution = resolver.resolve(item.kpi, "auto", item.organization)
+    if (!resolution.isSuccess) {
+      reject(entry, resolution.reason)
+      continue
+    }
+    const kpi = kpiMap.get(resolution.kpiId)!
+    if (kpi.calculationEquation || kpi.rollupEnabled) {
+      reject(
+        entry,
+        "El KPI se calcula automáticamente (ecuación o rollup) y no admite valores enviados."
+      )
+      continue
+    }
+    accepted.push({
+      entry,
+      item,
+      kpi,
+      periodDate: normalizePeriodDate(
+        item.periodDate,
+        kpi.calendarFrequency,
+        fiscalYearStartMonth
+      )
+    })
+  }
+
+  // 2) Puntuación y guardado, en el orden recibido (un elemento posterior del mismo KPI y
+  // período parte del valor que guardó el anterior)
+  const existingValues = await loadExistingKpiValues(
+    drizzle,
+    accepted.map(a => ({ kpiId: a.kpi.id, periodDate: a.periodDate }))
+  )
+  const written = new Map<string, Set<string>>()
+  for (const { entry, item, kpi, periodDate } of accepted) {
+    const key = kpiValueKey(kpi.id, periodDate)
+    const values = mergeIngestionItem(item, existingValues.get(key))
+    const evaluation = evaluateKpiValueEntry(kpi, values, isNoteRequiredForRed)
+    if (!evaluation.isSuccess) {
+      reject(entry, evaluation.message)
+      continue
+    }
+
+    try {
+      const saved = await upsertKpiValue(drizzle, {
+        kpiId: kpi.id,
+        periodDate,
+        ...values,
+        score: evaluation.score !== null ? String(evaluation.score) : null,
+        color: evaluation.color,
+        updatedByUserId: apiKey.createdById,
+        isManualEntry: false
+      })
+      if (!saved) {
+        reject(entry, "Fallo al guardar el valor del KPI.")
+        continue
+      }
+      existingValues.set(key, saved)
+    } catch (error) {
+      logger.error(
+        `Error saving ingested value for KPI ${kpi.id}, period ${periodDate}: ${error instanceof Error ? error.message : String(error)}`
+      )
+      reject(entry, "Fallo al guardar el valor del KPI.")
+      continue
+    }
+
+    if (!written.has(periodDate)) written.set(periodDate, new Set())
+    written.get(periodDate)!.add(kpi.id)
+    results.push({
+      index: entry.index,
+      line: entry.line,
+      status: "saved",
+      message: "Valor guardado.",
+      kpiId: kpi.id,
+      periodDate,
+      score: evaluation.score,
+      color: evaluation.color
+    })
+  }
+
+  // 3) Recálculo en cascada de KPIs calculados dependientes y rollups, período a período
+  if (written.size > 0) {
+    try {
+      const graph = buildKpiDependencyGraph(await loadKpiGraphNodes(drizzle))
+      for (const [periodDate, kpiIds] of written) {
+        await propagateKpiValueChanges(
+          drizzle,
+          [...kpiIds],
+          periodDate,
+          apiKey.createdById,
+          { graph }
+        )
+      }
+    } catch (error) {
+      logger.error(
+        `Error recalculating KPIs dependent on ingested values: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  return results.sort((a, b) => a.index - b.index)
+}
@@ -216,6 +216,7 @@ export async function replicateScorecardStructure(
         isManualUpdate: kpi.isManualUpdate,
         calculationEquation: kpi.calculationEquation, // Copiar la ecuación si existe
         rollupEnabled: kpi.rollupEnabled, // Copiar el estado de rollup
+        aliases: kpi.aliases, // Copiar los alias (el código externo es único y no se replica)
         createdAt: new Date(),
         updatedAt: new Date()
       }
@@ -279,3 +280,36 @@ export async function getDescendantOrganizations(
   )
   return allDescendants
 }
+
+/**
+ * @function getAncestorOrganizations
+ * @description Obtiene los IDs de las organizaciones ancestro de una organización dada
+ * (padre, abuelo, etc.), ordenados del más cercano al más lejano.
+ * @param {typeof db} drizzle - La instancia de Drizzle ORM.
+ * @param {string} organizationId - El ID de la organización de partida.
+ * @returns {Promise<string[]>} Una promesa que resuelve con un array de IDs de organizaciones ancestro.
+ */
+export async function getAncestorOrganizations(
+  drizzle: any,
+  organizationId: string
+): Promise<string[]> {
+  const ancestors: string[] = []
+  const visited = new Set<string>([organizationId])
+  let currentId: string | null = organizationId
+
+  while (currentId) {
+    const [current]: Pick<SelectOrganization, "parentId">[] = await drizzle
+      .select({ parentId: organizationsTable.parentId })
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, currentId))
+
+    const parentId: string | null = current?.parentId ?? null
+    // Protección ante jerarquías corruptas con ciclos
+    if (!parentId || visited.has(parentId)) break
+    visited.add(parentId)
+    ancestors.push(parentId)
+    currentId = parentId
+  }
+
+  return ancestors
+}
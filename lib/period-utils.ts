@@ -0,0 +1,248 @@
+/**
+ * @file lib/period-utils.ts
+ * @brief Utilidades de fechas de período para los valores de KPI.
+ * @description Este módulo contiene funciones auxiliares para desplazar fechas de período según la
+ * frecuencia de calendario de un KPI (período anterior, mismo período del año anterior), para
+ * calcular ventanas de agregación (acumulado del año, últimos 12 meses) y para llevar cualquier
+ * fecha al inicio canónico del período que la contiene. Los trimestres y años se cuentan desde el
+ * mes de inicio del año fiscal configurado en `app_settings` (enero por defecto).
+ * Las fechas de período se manejan como cadenas ISO (YYYY-MM-DD), igual que la columna
+ * `kpi_values.period_date`. Se utiliza 'date-fns' para la aritmética de fechas.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  format,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear
+} from "date-fns"
+import { eq } from "drizzle-orm"
+import { appSettingsTable, kpiCalendarFrequencyEnum } from "@/db/schema"
+import { FormulaPeriodShift } from "@/types"
+
+/**
+ * @typedef {'Daily' | 'Weekly' | 'Monthly' | 'Quarterly' | 'Annually'} KpiCalendarFrequency
+ * @description Alias para las frecuencias de calendario de KPI definidas en el esquema de Drizzle.
+ */
+export type KpiCalendarFrequency =
+  (typeof kpiCalendarFrequencyEnum.enumValues)[number]
+
+/**
+ * @interface PeriodRange
+ * @description Rango inclusivo de fechas de período (YYYY-MM-DD).
+ */
+export interface PeriodRange {
+  start: string
+  end: string
+}
+
+/**
+ * @constant FISCAL_YEAR_START_MONTH_SETTING_KEY
+ * @description Clave de app_settings con el mes (1-12) en que comienza el año fiscal.
+ */
+export const FISCAL_YEAR_START_MONTH_SETTING_KEY = "fiscal_year_start_month"
+
+/**
+ * @constant DEFAULT_FISCAL_YEAR_START_MONTH
+ * @description Mes de inicio del año fiscal cuando no hay configuración (enero).
+ */
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 1
+
+function toPeriodString(date: Date): string {
+  return format(date, "yyyy-MM-dd")
+}
+
+/**
+ * @function shiftPeriodDate
+ * @description Desplaza una fecha de período un número de períodos según la frecuencia del KPI.
+ * @param {string} periodDate - Fecha de período (YYYY-MM-DD).
+ * @param {KpiCalendarFrequency} frequency - Frecuencia de calendario del KPI.
+ * @param {number} amount - Número de períodos a desplazar (negativo hacia atrás).
+ * @returns {string} La fecha de período desplazada (YYYY-MM-DD).
+ */
+export function shiftPeriodDate(
+  periodDate: string,
+  frequency: KpiCalendarFrequency,
+  amount: number
+): string {
+  const date = parseISO(periodDate)
+  switch (frequency) {
+    case "Daily":
+      return toPeriodString(addDays(date, amount))
+    case "Weekly":
+      return toPeriodString(addWeeks(date, amount))
+    case "Monthly":
+      return toPeriodString(addMonths(date, amount))
+    case "Quarterly":
+      return toPeriodString(addQuarters(date, amount))
+    case "Annually":
+      return toPeriodString(addYears(date, amount))
+  }
+}
+
+/**
+ * @function getPreviousPeriodDate
+ * @description Devuelve la fecha del período anterior según la frecuencia del KPI.
+ */
+export function getPreviousPeriodDate(
+  periodDate: string,
+  frequency: KpiCalendarFrequency
+): string {
+  return shiftPeriodDate(periodDate, frequency, -1)
+}
+
+/**
+ * @function getSamePeriodLastYear
+ * @description Devuelve la fecha del mismo período del año anterior.
+ */
+export function getSamePeriodLastYear(periodDate: string): string {
+  return toPeriodString(addYears(parseISO(periodDate), -1))
+}
+
+/**
+ * @function getYearToDateRange
+ * @description Devuelve el rango desde el inicio del año hasta el período indicado (inclusive).
+ */
+export function getYearToDateRange(periodDate: string): PeriodRange {
+  return {
+    start: toPeriodString(startOfYear(parseISO(periodDate))),
+    end: periodDate
+  }
+}
+
+/**
+ * @function getTrailingTwelveMonthsRange
+ * @description Devuelve el rango de los últimos 12 meses que termina en el período indicado (inclusive).
+ */
+export function getTrailingTwelveMonthsRange(periodDate: string): PeriodRange {
+  return {
+    start: toPeriodString(addDays(addMonths(parseISO(periodDate), -12), 1)),
+    end: periodDate
+  }
+}
+
+/**
+ * @function parseFiscalYearStartMonth
+ * @description Interpreta el valor guardado del mes de inicio del año fiscal; los valores ausentes
+ * o fuera de 1-12 se sustituyen por enero.
+ */
+export function parseFiscalYearStartMonth(
+  value: string | null | undefined
+): number {
+  const month = Number(value)
+  return Number.isInteger(month) && month >= 1 && month <= 12
+    ? month
+    : DEFAULT_FISCAL_YEAR_START_MONTH
+}
+
+/**
+ * @function getFiscalYearStartMonth
+ * @description Lee de `app_settings` el mes (1-12) en que comienza el año fiscal.
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @returns {Promise<number>} El mes de inicio, o enero si no está configurado.
+ */
+export async function getFiscalYearStartMonth(drizzle: any): Promise<number> {
+  const [setting]: { settingValue: string }[] = await drizzle
+    .select({ settingValue: appSettingsTable.settingValue })
+    .from(appSettingsTable)
+    .where(eq(appSettingsTable.settingKey, FISCAL_YEAR_START_MONTH_SETTING_KEY))
+  return parseFiscalYearStartMonth(setting?.settingValue)
+}
+
+/**
+ * @function getPeriodStartDate
+ * @description Devuelve la fecha de inicio del período (según la frecuencia del KPI) que contiene
+ * la fecha indicada. Las semanas comienzan el lunes; los trimestres y años, en el mes de inicio
+ * del año fiscal.
+ * @param {Date} date - Fecha de referencia.
+ * @param {KpiCalendarFrequency} frequency - Frecuencia de calendario del KPI.
+ * @param {number} [fiscalYearStartMonth=1] - Mes (1-12) en que comienza el año fiscal.
+ * @returns {string} La fecha de inicio del período (YYYY-MM-DD).
+ */
+export function getPeriodStartDate(
+  date: Date,
+  frequency: KpiCalendarFrequency,
+  fiscalYearStartMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+): string {
+  // Meses transcurridos desde el inicio del año fiscal que contiene la fecha
+  const monthsIntoFiscalYear =
+    (date.getMonth() - (fiscalYearStartMonth - 1) + 12) % 12
+  switch (frequency) {
+    case "Daily":
+      return toPeriodString(startOfDay(date))
+    case "Weekly":
+      return toPeriodString(startOfWeek(date, { weekStartsOn: 1 }))
+    case "Monthly":
+      return toPeriodString(startOfMonth(date))
+    case "Quarterly":
+      return toPeriodString(
+        startOfMonth(addMonths(date, -(monthsIntoFiscalYear % 3)))
+      )
+    case "Annually":
+      return toPeriodString(
+        startOfMonth(addMonths(date, -monthsIntoFiscalYear))
+      )
+  }
+}
+
+/**
+ * @function normalizePeriodDate
+ * @description Lleva una fecha de período (YYYY-MM-DD) al inicio canónico del período de la
+ * frecuencia del KPI, de modo que todas las fechas de un mismo período se guarden en una sola fila
+ * de `kpi_values` (ej. 2024-03-17 y 2024-03-31 de un KPI mensual pasan a 2024-03-01).
+ * @param {string} periodDate - Fecha de período (YYYY-MM-DD).
+ * @param {KpiCalendarFrequency} frequency - Frecuencia de calendario del KPI.
+ * @param {number} [fiscalYearStartMonth=1] - Mes (1-12) en que comienza el año fiscal.
+ * @returns {string} La fecha de inicio del período (YYYY-MM-DD).
+ */
+export function normalizePeriodDate(
+  periodDate: string,
+  frequency: KpiCalendarFrequency,
+  fiscalYearStartMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+): string {
+  return getPeriodStartDate(
+    parseISO(periodDate),
+    frequency,
+    fiscalYearStartMonth
+  )
+}
+
+/**
+ * @function getReferencePeriodDate
+ * @description Devuelve el período que se lee de un KPI referenciado en una ecuación. El período del
+ * KPI calculado se lleva antes al inicio del período del KPI referenciado (ej. un KPI mensual que
+ * referencia uno trimestral lee el trimestre que contiene el mes) y el desplazamiento de la
+ * referencia se aplica con la frecuencia del KPI referenciado.
+ * @param {string} periodDate - Período del KPI calculado (YYYY-MM-DD).
+ * @param {FormulaPeriodShift} periodShift - Desplazamiento de la referencia.
+ * @param {KpiCalendarFrequency} frequency - Frecuencia de calendario del KPI referenciado.
+ * @param {number} [fiscalYearStartMonth=1] - Mes (1-12) en que comienza el año fiscal.
+ * @returns {string} El período del KPI referenciado (YYYY-MM-DD).
+ */
+export function getReferencePeriodDate(
+  periodDate: string,
+  periodShift: FormulaPeriodShift,
+  frequency: KpiCalendarFrequency,
+  fiscalYearStartMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+): string {
+  const current = normalizePeriodDate(
+    periodDate,
+    frequency,
+    fiscalYearStartMonth
+  )
+  if (periodShift === "current") return current
+  return normalizePeriodDate(
+    periodShift === "previous"
+      ? getPreviousPeriodDate(current, frequency)
+      : getSamePeriodLastYear(current),
+    frequency,
+    fiscalYearStartMonth
+  )
+}
@@ -0,0 +1,107 @@
+/**
+ * @file lib/route-access.ts
+ * @brief Control de acceso a las rutas de la aplicación autenticada desde el middleware.
+ * @description Define las rutas del grupo `(main)` y los permisos de gestión que exige cada sección
+ * de `/settings`, y decide si un usuario autenticado puede abrir una ruta: se bloquea a los perfiles
+ * desactivados y a los usuarios que no pertenecen a ningún grupo (salvo en la configuración inicial,
+ * sin miembros en ningún grupo). Una sección de `/settings` se abre si el usuario tiene alguno de
+ * sus permisos, globalmente o en alguna organización; cada Server Action sigue comprobando el
+ * permiso sobre la organización concreta.
+ */
+
+import {
+  BOOTSTRAP_PERMISSION_KEYS,
+  isPermissionBootstrapOpen,
+  isUserProfileActive,
+  loadUserPermissionsMap
+} from "@/lib/authorization"
+import { PermissionKey, UserPermissionsMap } from "@/types"
+
+/** Rutas del grupo `(main)`, que exigen sesión iniciada. */
+export const MAIN_ROUTE_PATTERNS = [
+  "/dashboard(.*)",
+  "/organizations(.*)",
+  "/scorecards(.*)",
+  "/data-imports(.*)",
+  "/alerts(.*)",
+  "/settings(.*)"
+]
+
+/**
+ * Permisos que abren cada sección de `/settings` (basta con uno). Las secciones que no aparecen,
+ * como `/settings/profile`, solo exigen acceso a la aplicación.
+ */
+export const SETTINGS_ROUTE_PERMISSIONS: Record<string, PermissionKey[]> = {
+  "/settings/users": ["user:manage"],
+  "/settings/groups": [
+    "group:manage",
+    "group:assign_members",
+    "group:assign_permissions"
+  ],
+  "/settings/app": ["app_settings:manage"],
+  "/settings/alerts": ["alert:manage"],
+  "/settings/api-keys": ["import:manage_connections"]
+}
+
+/**
+ * Motivo por el que se bloquea una ruta:
+ * - `inactive`: el perfil del usuario está desactivado.
+ * - `no_groups`: el usuario no pertenece a ningún grupo.
+ * - `forbidden`: le falta el permiso de gestión de la sección.
+ */
+export type RouteAccessDenialReason = "inactive" | "no_groups" | "forbidden"
+
+/**
+ * @function getRequiredRoutePermissions
+ * @description Permisos que exige una ruta (basta con uno); vacío si no exige ninguno.
+ * @param {string} pathname - La ruta solicitada.
+ * @returns {PermissionKey[]} Los permisos de la sección de `/settings` que contiene la ruta.
+ */
+export function getRequiredRoutePermissions(pathname: string): PermissionKey[] {
+  const section = Object.keys(SETTINGS_ROUTE_PERMISSIONS).find(
+    prefix => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  )
+  return section ? SETTINGS_ROUTE_PERMISSIONS[section] : []
+}
+
+/** Indica si el permiso está concedido globalmente o en alguna organización. */
+const hasPermissionInAnyScope = (
+  permissions: UserPermissionsMap,
+  key: PermissionKey
+): boolean => Object.values(permissions[key] ?? {}).some(Boolean)
+
+/**
+ * @function checkRouteAccess
+ * @description Decide si un usuario autenticado puede abrir una ruta de la aplicación.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} userId - El usuario autenticado.
+ * @param {string} pathname - La ruta solicitada.
+ * @returns {Promise<RouteAccessDenialReason | null>} El motivo del bloqueo, o null si puede abrirla.
+ * @notes Un usuario sin perfil aún puede entrar: el layout de `(main)` se lo crea al primer acceso.
+ * Las Server Actions vuelven a rechazar a los perfiles desactivados (ver `requirePermission`).
+ */
+export async function checkRouteAccess(
+  drizzle: any,
+  userId: string,
+  pathname: string
+): Promise<RouteAccessDenialReason | null> {
+  if (!(await isUserProfileActive(drizzle, userId))) return "inactive"
+
+  const required = getRequiredRoutePermissions(pathname)
+  const permissions = await loadUserPermissionsMap(drizzle, userId)
+  if (Object.keys(permissions).length === 0) {
+    if (!(await isPermissionBootstrapOpen(drizzle))) return "no_groups"
+    return required.length === 0 ||
+      required.some(key => BOOTSTRAP_PERMISSION_KEYS.includes(key))
+      ? null
+      : "forbidden"
+  }
+
+  if (
+    required.length > 0 &&
+    !required.some(key => hasPermissionInAnyScope(permissions, key))
+  ) {
+    return "forbidden"
+  }
+  return null
+}
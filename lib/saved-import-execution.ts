@@ -0,0 +1,693 @@
+/**
+ * @file lib/saved-import-execution.ts
+ * @brief Ejecución de importaciones guardadas de valores de KPI (UC-201, UC-203).
+ * @description Extrae las filas de la conexión de una importación guardada, aplica sus
+ * transformaciones, mapea los valores a los KPIs y los escribe en `kpi_values`, registrando la
+ * ejecución en `import_runs`. No es un módulo de Server Actions: quien lo llama ya verificó quién
+ * ejecuta la importación (el usuario autenticado en `executeSavedKpiImportAction` o el creador en
+ * el cron de importaciones programadas, tras verificar `CRON_SECRET`).
+ */
+
+import {
+  ImportRunRejectedRow,
+  SelectImportConnection,
+  SelectImportRun,
+  SelectKpi,
+  SelectSavedImport,
+  importConnectionsTable,
+  kpiValuesTable,
+  kpisTable,
+  organizationsTable,
+  savedImportsTable,
+  scorecardElementsTable
+} from "@/db/schema"
+import {
+  ActionState,
+  ImportChangeSet,
+  ImportUnresolvedIdentifier,
+  fail,
+  formatZodError,
+  ok
+} from "@/types"
+import {
+  KpiMapping,
+  KpiMappingSchema,
+  SqlConnectionDetailsSchema,
+  TransformationRule,
+  TransformationRuleSchema
+} from "@/types/import-types"
+import { eq, inArray } from "drizzle-orm"
+import { z } from "zod"
+import { getLogger } from "@/lib/logger"
+import { decrypt } from "@/lib/encryption"
+import {
+  applyTransformations,
+  validateTransformationRules
+} from "@/lib/data-transformer"
+import {
+  extractSqlRows,
+  isSqlImportConnectionType,
+  normalizeSqlQuery,
+  resolveSqlExtractionLimits
+} from "@/lib/sql-extraction"
+import {
+  buildImportChangeSet,
+  combineSamePeriodCandidates,
+  ImportCandidate,
+  ImportSkippedRow,
+  loadExistingKpiValues
+} from "@/lib/import-preview"
+import {
+  finishImportRun,
+  ImportRunCounts,
+  recordImportRunChanges,
+  startImportRun
+} from "@/lib/import-runs"
+import {
+  calculateKpiScoreAndColor,
+  getKpiScoringOptions
+} from "@/lib/kpi-scoring"
+import {
+  getFiscalYearStartMonth,
+  normalizePeriodDate
+} from "@/lib/period-utils"
+import { createKpiResolver } from "@/lib/kpi-resolution"
+import { buildKpiDependencyGraph } from "@/lib/kpi-dependency-graph"
+import {
+  loadKpiGraphNodes,
+  propagateKpiValueChanges
+} from "@/lib/kpi-calculation-engine"
+import { firstOrUndefined } from "@/lib/db-helpers"
+
+const logger = getLogger("saved-import-execution")
+
+/**
+ * @function recalculateDependentsOfImportedValues
+ * @description Recalcula, período a período, los KPIs calculados que dependen de los valores escritos
+ * por una importación (en orden topológico) y los rollups de las organizaciones ancestro.
+ * Los errores se registran sin abortar la importación.
+ * @param {any} drizzle La instancia de Drizzle ORM.
+ * @param {{ kpiId: string; periodDate: string }[]} written Valores escritos (kpiId + período).
+ * @param {string | null} userId Usuario ejecutor (auditoría).
+ * @returns {Promise<void>}
+ */
+export async function recalculateDependentsOfImportedValues(
+  drizzle: any,
+  written: { kpiId: string; periodDate: string }[],
+  userId: string | null
+): Promise<void> {
+  if (written.length === 0) return
+  try {
+    const kpiIdsByPeriod = new Map<string, Set<string>>()
+    for (const { kpiId, periodDate } of written) {
+      if (!kpiIdsByPeriod.has(periodDate))
+        kpiIdsByPeriod.set(periodDate, new Set())
+      kpiIdsByPeriod.get(periodDate)!.add(kpiId)
+    }
+
+    const graph = buildKpiDependencyGraph(await loadKpiGraphNodes(drizzle))
+    for (const [periodDate, kpiIds] of kpiIdsByPeriod) {
+      await propagateKpiValueChanges(drizzle, [...kpiIds], periodDate, userId, {
+        graph
+      })
+    }
+  } catch (e) {
+    logger.error(
+      `Error recalculating dependent KPIs after import: ${e instanceof Error ? e.message : String(e)}`
+    )
+  }
+}
+
+/**
+ * @function validateSqlImportSource
+ * @description Verifica que una importación sobre una conexión PostgreSQL/MySQL tenga una consulta
+ * SQL de origen válida (una sola sentencia de lectura).
+ * @param {string} connectionType Tipo de la conexión de la importación.
+ * @param {string | null | undefined} sourceQuery Consulta SQL de origen.
+ * @returns {string | null} Mensaje de error o `null` si es válida.
+ */
+export function validateSqlImportSource(
+  connectionType: string,
+  sourceQuery: string | null | undefined
+): string | null {
+  if (!isSqlImportConnectionType(connectionType)) return null
+  if (!sourceQuery?.trim()) {
+    return "La consulta SQL de origen es requerida para conexiones PostgreSQL y MySQL."
+  }
+  try {
+    normalizeSqlQuery(sourceQuery)
+    return null
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e)
+  }
+}
+
+/**
+ * @function runSavedKpiImport
+ * @description Ejecuta una importación guardada en nombre de `executorUserId`.
+ * Flujo:
+ *   1) Carga import + conexión asociada.
+ *   2) Decripta y parsea detalles de conexión.
+ *   3) Extrae las filas (consulta SQL en PostgreSQL/MySQL) y aplica las transformaciones.
+ *   4) Mapea columnas → campos KPI (resolviendo el KPI de cada fila en los mapeos dinámicos), lleva
+ *      cada fecha al inicio del período del KPI, combina las filas del mismo KPI y período según su
+ *      `aggregationType` y calcula `score/color`. Los identificadores que no se resuelven se omiten y
+ *      se informan en `unresolvedIdentifiers`.
+ *   5) Compara con los valores guardados (inserciones, actualizaciones y filas omitidas). Con `dryRun`
+ *      devuelve esa vista previa sin escribir nada.
+ *   6) Upsert en `kpi_values` por [kpiId, periodDate] de los valores que cambian y recálculo en cascada
+ *      de KPIs calculados dependientes y rollups.
+ *   7) Actualiza `lastRunAt`.
+ * Cada ejecución (no las vistas previas) queda registrada en `import_runs` con su origen, estado,
+ * conteos y filas rechazadas, y los valores anteriores de lo escrito en `import_run_changes` para
+ * poder revertirla. No verifica permisos: le corresponde a quien la llama.
+ * @param {any} drizzle La instancia de Drizzle ORM.
+ * @param {string} importId La importación guardada.
+ * @param {{ executorUserId: string; trigger: "manual" | "cron"; dryRun?: boolean }} options
+ * Usuario en cuyo nombre se escriben los valores y origen de la ejecución.
+ * @returns {Promise<ActionState<ImportChangeSet>>} Cambios escritos (o que se escribirían, con `dryRun`).
+ */
+export async function runSavedKpiImport(
+  drizzle: any,
+  importId: string,
+  {
+    executorUserId,
+    trigger,
+    dryRun = false
+  }: { executorUserId: string; trigger: "manual" | "cron"; dryRun?: boolean }
+): Promise<ActionState<ImportChangeSet>> {
+  let run: SelectImportRun | null = null
+  const counts: ImportRunCounts = {
+    rowsRead: 0,
+    rowsTransformed: 0,
+    rowsUpserted: 0,
+    rowsRejected: 0
+  }
+  let rejectedRows: ImportRunRejectedRow[] = []
+  // Registra el fallo en el historial de la ejecución antes de devolverlo
+  const failRun = async (
+    message: string
+  ): Promise<ActionState<ImportChangeSet>> => {
+    if (run)
+      await finishImportRun(drizzle, run.id, {
+        status: "failed",
+        counts,
+        rejectedRows,
+        errorMessage: message
+      })
+    return fail(message)
+  }
+
+  try {
+    // 1) Import + Conexión
+    const joined = await firstOrUndefined<{
+      saved_imports: SelectSavedImport
+      import_connections: SelectImportConnection | null
+    }>(
+      drizzle
+        .select()
+        .from(savedImportsTable)
+        .leftJoin(
+          importConnectionsTable,
+          eq(savedImportsTable.connectionId, importConnectionsTable.id)
+        )
+        .where(eq(savedImportsTable.id, importId))
+        .limit(1)
+    )
+
+    // Drizzle retorna con claves por nombre de tabla (snake_case)
+    if (!joined || !joined.saved_imports) {
+      return fail("Configuración de importación de KPI guardada no encontrada.")
+    }
+
+    const savedImport = joined.saved_imports
+    const connection = joined.import_connections
+
+    // Historial: las vistas previas no registran ejecuciones
+    if (!dryRun) {
+      run = await startImportRun(drizzle, {
+        savedImportId: importId,
+        trigger,
+        triggeredByUserId: executorUserId
+      })
+    }
+
+    if (!connection)
+      return failRun("Conexión de importación asociada no encontrada.")
+
+    // 2) Decrypt + parse de detalles
+    let connectionDetails: unknown = {}
+    try {
+      const decrypted = decrypt(
+        connection.connectionDetails as unknown as string
+      )
+      connectionDetails = JSON.parse(decrypted)
+    } catch {
+      logger.error(
+        `No se pudieron parsear los detalles de conexión para importId=${importId}`
+      )
+      return failRun("Detalles de conexión inválidos o corruptos.")
+    }
+
+    // 3) JSONB: mapeos/transformaciones
+    const mappingsRes = z
+      .array(KpiMappingSchema)
+      .safeParse(savedImport.kpiMappings ?? [])
+    if (!mappingsRes.success) {
+      logger.error(`Invalid KPI mappings: ${formatZodError(mappingsRes.error)}`)
+      return failRun(
+        "Mapeos de KPI inválidos o corruptos en la configuración de importación."
+      )
+    }
+    const kpiMappings: KpiMapping[] = mappingsRes.data
+
+    // Importaciones guardadas antes de validar las reglas de transformación al guardar
+    const transfRes = z
+      .array(TransformationRuleSchema)
+      .safeParse(savedImport.transformations ?? [])
+    if (!transfRes.success) {
+      return failRun(
+        `Reglas de transformación inválidas: ${formatZodError(transfRes.error)}`
+      )
+    }
+    const transformations: TransformationRule[] = transfRes.data
+    const transformationError = validateTransformationRules(transformations)
+    if (transformationError) return failRun(transformationError)
+
+    // 4) Extracción
+    let rawData: Record<string, unknown>[] = []
+    const connectionType = connection.connectionType
+    if (isSqlImportConnectionType(connectionType)) {
+      const detailsRes = SqlConnectionDetailsSchema.safeParse(connectionDetails)
+      if (!detailsRes.success) {
+        return failRun(
+          `Detalles de conexión incompletos: ${formatZodError(detailsRes.error)}`
+        )
+      }
+      const sourceError = validateSqlImportSource(
+        connectionType,
+        savedImport.sourceQuery
+      )
+      if (sourceError) return failRun(sourceError)
+
+      const limits = resolveSqlExtractionLimits(savedImport)
+      try {
+        const extraction = await extractSqlRows(
+          connectionType,
+          detailsRes.data,
+          savedImport.sourceQuery!,
+          limits
+        )
+        rawData = extraction.rows
+        if (extraction.truncated) {
+          logger.warn(
+            `Import ${importId}: source query returned more than ${limits.rowLimit} rows; extra rows were ignored.`
+          )
+        }
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e)
+        logger.error(
+          `Data extraction failed for import ${importId} (${connectionType}): ${message}`
+        )
+        return failRun(
+          `Fallo al extraer los datos de la base de datos: ${message}`
+        )
+      }
+    } else if (connectionType === "Excel") {
+      logger.info(
+        `Simulating data extraction for connection type: ${connectionType}`
+      )
+      rawData = [
+        {
+          Date: "2023-01-01T00:00:00Z",
+          KPI_ID: "a1",
+          Actual: "100",
+          Target: "120"
+        },
+        {
+          Date: "2023-02-01T00:00:00Z",
+          KPI_ID: "b2",
+          Actual: "50",
+          ThresholdRed: "40"
+        }
+      ]
+    } else {
+      logger.warn(
+        `Data extraction is not available for connection type: ${connectionType}`
+      )
+      return failRun(
+        `La extracción de datos aún no está disponible para conexiones de tipo ${connectionType}.`
+      )
+    }
+
+    counts.rowsRead = rawData.length
+    if (rawData.length === 0) {
+      const { changeSet } = buildImportChangeSet([], [], new Map(), dryRun)
+      if (dryRun)
+        return ok("Vista previa generada: no se extrajeron datos.", changeSet)
+      await drizzle
+        .update(savedImportsTable)
+        .set({ lastRunAt: new Date(), updatedAt: new Date() })
+        .where(eq(savedImportsTable.id, importId))
+      if (run)
+        await finishImportRun(drizzle, run.id, { status: "succeeded", counts })
+      return ok(
+        "Importación ejecutada, pero no se extrajeron datos.",
+        changeSet
+      )
+    }
+
+    // 5) Transformaciones
+    const transformed = applyTransformations(rawData, transformations)
+    counts.rowsTransformed = transformed.length
+    logger.info(`Applied ${transformations.length} transformations.`)
+
+    // 6) Pre-carga de KPIs (con su nombre para la vista previa). Los mapeos dinámicos pueden
+    //    referirse a cualquier KPI, así que en ese caso se cargan todos junto con las organizaciones.
+    const hasDynamicMappings = kpiMappings.some(m => m.mode === "dynamic")
+    const staticKpiIds = Array.from(
+      new Set(kpiMappings.flatMap(m => (m.mode === "dynamic" ? [] : [m.kpiId])))
+    )
+    const kpis: {
+      kpi: SelectKpi
+      name: string | null
+      organizationId: string | null
+    }[] =
+      hasDynamicMappings || staticKpiIds.length > 0
+        ? await drizzle
+            .select({
+              kpi: kpisTable,
+              name: scorecardElementsTable.name,
+              organizationId: scorecardElementsTable.organizationId
+            })
+            .from(kpisTable)
+            .leftJoin(
+              scorecardElementsTable,
+              eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+            )
+            .where(
+              hasDynamicMappings
+                ? undefined
+                : inArray(kpisTable.id, staticKpiIds)
+            )
+        : []
+    const kpiMap = new Map<string, SelectKpi>(kpis.map(k => [k.kpi.id, k.kpi]))
+    const kpiNames = new Map(kpis.map(k => [k.kpi.id, k.name]))
+    const fiscalYearStartMonth = await getFiscalYearStartMonth(drizzle)
+    const kpiResolver = hasDynamicMappings
+      ? createKpiResolver(
+          kpis.flatMap(k =>
+            k.organizationId
+              ? [
+                  {
+                    id: k.kpi.id,
+                    name: k.name,
+                    organizationId: k.organizationId,
+                    externalCode: k.kpi.externalCode,
+                    aliases: k.kpi.aliases
+                  }
+                ]
+              : []
+          ),
+          await drizzle
+            .select({
+              id: organizationsTable.id,
+              name: organizationsTable.name,
+              externalCode: organizationsTable.externalCode,
+              aliases: organizationsTable.aliases
+            })
+            .from(organizationsTable)
+        )
+      : null
+
+    // 7) Mapeo y cálculo
+    const candidates: ImportCandidate[] = []
+    const skipped: ImportSkippedRow[] = []
+    const unresolved = new Map<string, ImportUnresolvedIdentifier>()
+
+    // 🔧 FIX: aceptar null | undefined en el parámetro `field`
+    const getMappedValue = (
+      row: Record<string, unknown>,
+      field:
+        | { sourceField: string; defaultValue?: string | null }
+        | null
+        | undefined
+    ) => {
+      if (!field) return null
+      const v = row[field.sourceField]
+      if (v === undefined || v === null || String(v).trim() === "") {
+        return field.defaultValue ?? null
+      }
+      return String(v)
+    }
+
+    for (const [index, row] of transformed.entries()) {
+      const rowNumber = index + 1
+      for (const mapping of kpiMappings) {
+        let kpiId: string
+        if (mapping.mode === "dynamic") {
+          // Mapeo clave-valor: el KPI (y su organización) se leen de la fila
+          const kpiIdentifier =
+            getMappedValue(row, mapping.kpiField)?.trim() ?? ""
+          const organizationIdentifier =
+            getMappedValue(row, mapping.organizationField)?.trim() || null
+          const resolution = kpiResolver!.resolve(
+            kpiIdentifier,
+            mapping.kpiIdentifierType ?? "auto",
+            organizationIdentifier,
+            mapping.organizationIdentifierType ?? "auto"
+          )
+          if (!resolution.isSuccess) {
+            skipped.push({ rowNumber, reason: resolution.reason })
+            if (kpiIdentifier) {
+              const key = `${kpiIdentifier}|${organizationIdentifier ?? ""}`
+              const entry = unresolved.get(key)
+              if (entry) entry.rowCount++
+              else
+                unresolved.set(key, {
+                  kpiIdentifier,
+                  organizationIdentifier,
+                  reason: resolution.reason,
+                  rowCount: 1
+                })
+            }
+            continue
+          }
+          kpiId = resolution.kpiId
+        } else {
+          kpiId = mapping.kpiId
+        }
+
+        const kpi = kpiMap.get(kpiId)
+        if (!kpi) {
+          logger.info(`KPI ${kpiId} no encontrado; fila omitida.`)
+          skipped.push({
+            rowNumber,
+            kpiId,
+            reason: "El KPI mapeado no existe."
+          })
+          continue
+        }
+        const kpiName = kpiNames.get(kpi.id) ?? null
+
+        const rawPeriod = getMappedValue(row, mapping.periodDate)
+        if (!rawPeriod) {
+          skipped.push({
+            rowNumber,
+            kpiId: kpi.id,
+            kpiName,
+            reason: "Falta la fecha del período."
+          })
+          continue
+        }
+        const rawPeriodDate = rawPeriod.includes("T")
+          ? rawPeriod.split("T")[0]
+          : rawPeriod
+        if (
+          !/^\d{4}-\d{2}-\d{2}$/.test(rawPeriodDate) ||
+          isNaN(Date.parse(rawPeriodDate))
+        ) {
+          logger.info(
+            `Formato de fecha inválido '${rawPeriodDate}' para KPI ${kpiId}`
+          )
+          skipped.push({
+            rowNumber,
+            kpiId: kpi.id,
+            kpiName,
+            reason: `Fecha inválida "${rawPeriod}".`
+          })
+          continue
+        }
+        // Inicio canónico del período según la frecuencia del KPI
+        const periodDate = normalizePeriodDate(
+          rawPeriodDate,
+          kpi.calendarFrequency,
+          fiscalYearStartMonth
+        )
+
+        candidates.push({
+          rowNumber,
+          kpiName,
+          value: {
+            kpiId: kpi.id,
+            periodDate,
+            actualValue: getMappedValue(row, mapping.actualValue),
+            targetValue: getMappedValue(row, mapping.targetValue),
+            thresholdRed: getMappedValue(row, mapping.thresholdRed),
+            thresholdYellow: getMappedValue(row, mapping.thresholdYellow),
+            score: null,
+            color: null,
+            updatedByUserId: executorUserId,
+            isManualEntry: false,
+            note: getMappedValue(row, mapping.note),
+            createdAt: new Date(),
+            updatedAt: new Date()
+          }
+        })
+      }
+    }
+
+    // 7b) Filas del mismo KPI y período: se combinan según el aggregationType del KPI
+    const combined = combineSamePeriodCandidates(
+      candidates,
+      new Map(kpis.map(k => [k.kpi.id, k.kpi.aggregationType]))
+    )
+
+    // 7c) Cálculo score/color (score como string) sobre el valor combinado
+    const toNum = (s: string | null | undefined) =>
+      s != null && s.trim() !== "" && !isNaN(Number(s)) ? Number(s) : null
+    for (const { value } of combined) {
+      const kpi = kpiMap.get(value.kpiId)!
+      const a = toNum(value.actualValue)
+      const t = toNum(value.targetValue)
+      const r = toNum(value.thresholdRed)
+      const y = toNum(value.thresholdYellow)
+
+      if (kpi.scoringType === "Goal/Red Flag" && a !== null) {
+        const res = calculateKpiScoreAndColor(
+          a,
+          t,
+          r,
+          y,
+          getKpiScoringOptions(kpi)
+        )
+        value.score = res.score != null ? String(res.score) : null
+        value.color = res.color
+      } else if (kpi.scoringType === "Yes/No" && a !== null) {
+        value.score = a === 1 ? "100" : "0"
+        value.color = a === 1 ? "Green" : "Red"
+      }
+    }
+
+    // 8) Diferencia con los valores guardados (vista previa)
+    const existingValues = await loadExistingKpiValues(
+      drizzle,
+      combined.map(c => c.value)
+    )
+    const {
+      changeSet,
+      valuesToWrite: kpiValuesToUpsert,
+      writtenValues
+    } = buildImportChangeSet(combined, skipped, existingValues, dryRun)
+    if (unresolved.size > 0) {
+      changeSet.unresolvedIdentifiers = Array.from(unresolved.values())
+      logger.warn(
+        `Import ${importId}: ${unresolved.size} KPI identifier(s) could not be resolved.`
+      )
+    }
+    rejectedRows = skipped.map(({ rowNumber, reason, kpiId }) => ({
+      rowNumber,
+      reason,
+      kpiId
+    }))
+    counts.rowsRejected = skipped.length
+    if (dryRun) {
+      return ok(
+        `Vista previa generada: ${changeSet.insertCount} inserciones, ${changeSet.updateCount} actualizaciones y ${changeSet.skipCount} filas omitidas.`,
+        changeSet
+      )
+    }
+
+    // 9) Upsert por conflicto (kpiId, periodDate)
+    if (kpiValuesToUpsert.length > 0) {
+      await drizzle.transaction(async (tx: any) => {
+        for (const v of kpiValuesToUpsert) {
+          await tx
+            .insert(kpiValuesTable)
+            .values(v)
+            .onConflictDoUpdate({
+              target: [kpiValuesTable.kpiId, kpiValuesTable.periodDate],
+              set: {
+                actualValue: v.actualValue,
+                targetValue: v.targetValue,
+                thresholdRed: v.thresholdRed,
+                thresholdYellow: v.thresholdYellow,
+                score: v.score,
+                color: v.color,
+                updatedByUserId: v.updatedByUserId,
+                isManualEntry: v.isManualEntry,
+                note: v.note,
+                updatedAt: new Date()
+              }
+            })
+        }
+        // Valores anteriores de lo escrito, para poder revertir la ejecución
+        if (run)
+          await recordImportRunChanges(
+            tx,
+            run.id,
+            existingValues,
+            writtenValues
+          )
+      })
+      counts.rowsUpserted = kpiValuesToUpsert.length
+      logger.info(
+        `Successfully processed ${kpiValuesToUpsert.length} KPI values.`
+      )
+
+      // 9b) Recálculo en cascada de KPIs calculados dependientes y rollups
+      await recalculateDependentsOfImportedValues(
+        drizzle,
+        kpiValuesToUpsert.map(v => ({
+          kpiId: v.kpiId,
+          periodDate: v.periodDate
+        })),
+        executorUserId
+      )
+    } else {
+      logger.info(
+        `No valid KPI values to insert after mapping for import ID: ${importId}.`
+      )
+    }
+
+    // 10) lastRunAt
+    await drizzle
+      .update(savedImportsTable)
+      .set({ lastRunAt: new Date(), updatedAt: new Date() })
+      .where(eq(savedImportsTable.id, importId))
+    if (run)
+      await finishImportRun(drizzle, run.id, {
+        status: "succeeded",
+        counts,
+        rejectedRows
+      })
+
+    return ok("Importación de KPI ejecutada exitosamente.", changeSet)
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e)
+    logger.error(`Error executing saved KPI import: ${message}`)
+    if (run) {
+      await finishImportRun(drizzle, run.id, {
+        status: "failed",
+        counts,
+        rejectedRows,
+        errorMessage: message
+      }).catch((finishError: unknown) =>
+        logger.error(
+          `Error recording failed import run ${run?.id}: ${finishError instanceof Error ? finishError.message : String(finishError)}`
+        )
+      )
+    }
+    return fail("Fallo al ejecutar la importación de KPI.")
+  }
+}
@@ -0,0 +1,483 @@
+/**
+ * @file lib/scorecard-scoring.ts
+ * @brief Agregación ponderada de puntuaciones a lo largo del árbol del Scorecard.
+ * @description Calcula, para un período, la puntuación y el color de las perspectivas, objetivos e
+ * iniciativas como promedio ponderado (según `scorecard_elements.weight`) de las puntuaciones de sus
+ * hijos, partiendo de la puntuación de los valores de KPI. Los hijos sin datos se tratan según la
+ * política configurable `score_missing_data_policy` (app_settings). Los resultados de los elementos
+ * que no son KPI se guardan en la caché `scorecard_element_scores`, que se invalida cuando cambian los
+ * valores de KPI o la estructura del Scorecard y se recalcula bajo demanda.
+ */
+
+import {
+  SelectScorecardElement,
+  appSettingsTable,
+  kpisTable,
+  kpiValuesTable,
+  scorecardElementScoresTable,
+  scorecardElementsTable
+} from "@/db/schema"
+import { getLogger } from "@/lib/logger"
+import { KpiColor } from "@/lib/kpi-scoring"
+import {
+  SCORE_MISSING_DATA_POLICIES,
+  ScoreMissingDataPolicy,
+  ScorecardElementScore,
+  ScorecardScoresResult
+} from "@/types"
+import { and, desc, eq, inArray } from "drizzle-orm"
+
+const logger = getLogger("scorecard-scoring")
+
+/**
+ * @constant SCORE_MISSING_DATA_POLICY_SETTING_KEY
+ * @description Clave de app_settings con la política de datos faltantes.
+ */
+export const SCORE_MISSING_DATA_POLICY_SETTING_KEY = "score_missing_data_policy"
+
+/**
+ * @constant DEFAULT_SCORE_MISSING_DATA_POLICY
+ * @description Política usada cuando no hay configuración: se ignoran los hijos sin datos.
+ */
+export const DEFAULT_SCORE_MISSING_DATA_POLICY: ScoreMissingDataPolicy =
+  "exclude"
+
+/**
+ * @constant SCORE_COLOR_THRESHOLDS
+ * @description Límites inferiores de puntuación agregada para los colores Verde y Amarillo.
+ * Con la puntuación por tramos de los KPIs (100/50/25/0), un único hijo conserva su color.
+ */
+export const SCORE_COLOR_THRESHOLDS = { green: 75, yellow: 50 }
+
+/**
+ * @interface ScorecardScoreNode
+ * @description Elemento del Scorecard tal como participa en la agregación.
+ * @property {number} weight - Ponderación del elemento en el promedio de su padre.
+ */
+export interface ScorecardScoreNode {
+  id: string
+  parentId: string | null
+  elementType: SelectScorecardElement["elementType"]
+  weight: number
+}
+
+/**
+ * @interface KpiElementScore
+ * @description Puntuación y color registrados para el KPI vinculado a un elemento, en el período.
+ */
+export interface KpiElementScore {
+  score: number | null
+  color: KpiColor | null
+}
+
+/**
+ * @function scoreToColor
+ * @description Convierte una puntuación agregada en color según `SCORE_COLOR_THRESHOLDS`.
+ */
+export function scoreToColor(score: number | null): KpiColor | null {
+  if (score === null) return null
+  if (score >= SCORE_COLOR_THRESHOLDS.green) return "Green"
+  if (score >= SCORE_COLOR_THRESHOLDS.yellow) return "Yellow"
+  return "Red"
+}
+
+/**
+ * @function aggregateChildScores
+ * @description Calcula el promedio ponderado de las puntuaciones de los hijos de un elemento.
+ * Los hijos con peso 0 no participan.
+ * @param {{ weight: number; score: number | null }[]} children - Peso y puntuación de cada hijo.
+ * @param {ScoreMissingDataPolicy} policy - Tratamiento de los hijos sin puntuación.
+ * @returns La puntuación agregada (null si no hay datos suficientes) y los conteos de hijos.
+ */
+export function aggregateChildScores(
+  children: { weight: number; score: number | null }[],
+  policy: ScoreMissingDataPolicy
+): {
+  score: number | null
+  contributingChildren: number
+  missingChildren: number
+} {
+  const weighted = children.filter(c => c.weight > 0)
+  const missingChildren = weighted.filter(c => c.score === null).length
+  const contributing = weighted.filter(c => c.score !== null)
+
+  if (policy === "propagate" && missingChildren > 0) {
+    return {
+      score: null,
+      contributingChildren: contributing.length,
+      missingChildren
+    }
+  }
+
+  const considered =
+    policy === "zero"
+      ? weighted.map(c => ({ weight: c.weight, score: c.score ?? 0 }))
+      : contributing
+  const totalWeight = considered.reduce((acc, c) => acc + c.weight, 0)
+  if (considered.length === 0 || totalWeight === 0) {
+    return { score: null, contributingChildren: 0, missingChildren }
+  }
+
+  const sum = considered.reduce((acc, c) => acc + c.weight * c.score!, 0)
+  return {
+    score: Math.round((sum / totalWeight) * 100) / 100,
+    contributingChildren: contributing.length,
+    missingChildren
+  }
+}
+
+/**
+ * @function computeScorecardScores
+ * @description Calcula de abajo hacia arriba la puntuación de todos los elementos del Scorecard.
+ * Los KPIs toman la puntuación y el color de su valor para el período; el resto de elementos
+ * agregan a sus hijos con `aggregateChildScores`.
+ * @param {ScorecardScoreNode[]} nodes - Elementos del Scorecard.
+ * @param {Map<string, KpiElementScore>} kpiScores - Puntuación del KPI por ID de elemento.
+ * @param {ScoreMissingDataPolicy} policy - Tratamiento de los hijos sin puntuación.
+ * @returns {Map<string, ScorecardElementScore>} Puntuación por ID de elemento.
+ * @notes
+ *  Las iniciativas se puntúan (para mostrarlas) pero no aportan a la puntuación de su padre,
+ *  ya que representan proyectos y no resultados. Los ciclos en `parentId` (datos inconsistentes)
+ *  se cortan: el elemento repetido se considera sin datos.
+ */
+export function computeScorecardScores(
+  nodes: ScorecardScoreNode[],
+  kpiScores: Map<string, KpiElementScore>,
+  policy: ScoreMissingDataPolicy
+): Map<string, ScorecardElementScore> {
+  const childrenByParent = new Map<string, ScorecardScoreNode[]>()
+  for (const node of nodes) {
+    if (!node.parentId) continue
+    if (!childrenByParent.has(node.parentId)) {
+      childrenByParent.set(node.parentId, [])
+    }
+    childrenByParent.get(node.parentId)!.push(node)
+  }
+
+  const results = new Map<string, ScorecardElementScore>()
+  const visiting = new Set<string>()
+
+  const compute = (node: ScorecardScoreNode): ScorecardElementScore => {
+    const cached = results.get(node.id)
+    if (cached) return cached
+
+    if (node.elementType === "KPI") {
+      const kpiScore = kpiScores.get(node.id)
+      const result: ScorecardElementScore = {
+        scorecardElementId: node.id,
+        score: kpiScore?.score ?? null,
+        color: kpiScore?.color ?? null,
+        contributingChildren: 0,
+        missingChildren: 0
+      }
+      results.set(node.id, result)
+      return result
+    }
+
+    visiting.add(node.id)
+    const children = (childrenByParent.get(node.id) ?? []).filter(
+      child => child.elementType !== "Initiative"
+    )
+    const aggregated = aggregateChildScores(
+      children.map(child => ({
+        weight: child.weight,
+        score: visiting.has(child.id) ? null : compute(child).score
+      })),
+      policy
+    )
+    visiting.delete(node.id)
+
+    const result: ScorecardElementScore = {
+      scorecardElementId: node.id,
+      ...aggregated,
+      color: scoreToColor(aggregated.score)
+    }
+    results.set(node.id, result)
+    return result
+  }
+
+  nodes.forEach(compute)
+  return results
+}
+
+/**
+ * @function getScoreMissingDataPolicy
+ * @description Lee la política de datos faltantes desde app_settings (o la política por defecto).
+ */
+export async function getScoreMissingDataPolicy(
+  drizzle: any
+): Promise<ScoreMissingDataPolicy> {
+  const [setting]: { settingValue: string }[] = await drizzle
+    .select({ settingValue: appSettingsTable.settingValue })
+    .from(appSettingsTable)
+    .where(
+      eq(appSettingsTable.settingKey, SCORE_MISSING_DATA_POLICY_SETTING_KEY)
+    )
+  const value = SCORE_MISSING_DATA_POLICIES.find(
+    policy => policy === setting?.settingValue
+  )
+  return value ?? DEFAULT_SCORE_MISSING_DATA_POLICY
+}
+
+/**
+ * @function loadScorecardScoreNodes
+ * @description Carga los elementos del Scorecard de una organización como nodos de agregación.
+ */
+async function loadScorecardScoreNodes(
+  drizzle: any,
+  organizationId: string
+): Promise<ScorecardScoreNode[]> {
+  const elements: Pick<
+    SelectScorecardElement,
+    "id" | "parentId" | "elementType" | "weight"
+  >[] = await drizzle
+    .select({
+      id: scorecardElementsTable.id,
+      parentId: scorecardElementsTable.parentId,
+      elementType: scorecardElementsTable.elementType,
+      weight: scorecardElementsTable.weight
+    })
+    .from(scorecardElementsTable)
+    .where(eq(scorecardElementsTable.organizationId, organizationId))
+
+  return elements.map(element => {
+    const weight = parseFloat(element.weight)
+    return { ...element, weight: isNaN(weight) ? 1 : weight }
+  })
+}
+
+/**
+ * @function loadKpiElementScores
+ * @description Carga la puntuación y el color de los valores de KPI de una organización en un período,
+ * indexados por el ID del elemento de Scorecard vinculado.
+ */
+async function loadKpiElementScores(
+  drizzle: any,
+  organizationId: string,
+  periodDate: string
+): Promise<Map<string, KpiElementScore>> {
+  const rows: {
+    scorecardElementId: string
+    score: string | null
+    color: KpiColor | null
+  }[] = await drizzle
+    .select({
+      scorecardElementId: kpisTable.scorecardElementId,
+      score: kpiValuesTable.score,
+      color: kpiValuesTable.color
+    })
+    .from(kpiValuesTable)
+    .innerJoin(kpisTable, eq(kpiValuesTable.kpiId, kpisTable.id))
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(
+      and(
+        eq(scorecardElementsTable.organizationId, organizationId),
+        eq(kpiValuesTable.periodDate, periodDate)
+      )
+    )
+
+  return new Map(
+    rows.map(row => {
+      const score = row.score !== null ? parseFloat(row.score) : null
+      return [
+        row.scorecardElementId,
+        {
+          score: score !== null && !isNaN(score) ? score : null,
+          color: row.color
+        }
+      ]
+    })
+  )
+}
+
+/**
+ * @function calculateScorecardScoresForPeriod
+ * @description Calcula las puntuaciones de todos los elementos del Scorecard de una organización para
+ * un período y reemplaza la caché de los elementos que no son KPI.
+ * @param {any} drizzle - La instancia de Drizzle ORM (o la transacción actual).
+ * @param {string} organizationId - La organización.
+ * @param {string} periodDate - El período (YYYY-MM-DD).
+ * @returns {Promise<ScorecardElementScore[]>} Puntuación de cada elemento (incluidos los KPIs).
+ */
+export async function calculateScorecardScoresForPeriod(
+  drizzle: any,
+  organizationId: string,
+  periodDate: string
+): Promise<ScorecardElementScore[]> {
+  const [nodes, kpiScores, policy] = await Promise.all([
+    loadScorecardScoreNodes(drizzle, organizationId),
+    loadKpiElementScores(drizzle, organizationId, periodDate),
+    getScoreMissingDataPolicy(drizzle)
+  ])
+  const scores = computeScorecardScores(nodes, kpiScores, policy)
+
+  const aggregateRows = nodes
+    .filter(node => node.elementType !== "KPI")
+    .map(node => scores.get(node.id)!)
+
+  await drizzle
+    .delete(scorecardElementScoresTable)
+    .where(
+      and(
+        eq(scorecardElementScoresTable.organizationId, organizationId),
+        eq(scorecardElementScoresTable.periodDate, periodDate)
+      )
+    )
+  if (aggregateRows.length > 0) {
+    await drizzle.insert(scorecardElementScoresTable).values(
+      aggregateRows.map(row => ({
+        scorecardElementId: row.scorecardElementId,
+        organizationId,
+        periodDate,
+        score: row.score !== null ? String(row.score) : null,
+        color: row.color,
+        contributingChildren: row.contributingChildren,
+        missingChildren: row.missingChildren
+      }))
+    )
+  }
+
+  logger.info("Scorecard scores calculated.", {
+    organizationId,
+    periodDate,
+    policy,
+    elements: nodes.length
+  })
+  return [...scores.values()]
+}
+
+/**
+ * @function getLatestScorecardPeriod
+ * @description Devuelve el período más reciente con valores de KPI en la organización, o null.
+ */
+export async function getLatestScorecardPeriod(
+  drizzle: any,
+  organizationId: string
+): Promise<string | null> {
+  const [latest]: { periodDate: string }[] = await drizzle
+    .select({ periodDate: kpiValuesTable.periodDate })
+    .from(kpiValuesTable)
+    .innerJoin(kpisTable, eq(kpiValuesTable.kpiId, kpisTable.id))
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(eq(scorecardElementsTable.organizationId, organizationId))
+    .orderBy(desc(kpiValuesTable.periodDate))
+    .limit(1)
+  return latest?.periodDate ?? null
+}
+
+/**
+ * @function getScorecardScores
+ * @description Obtiene las puntuaciones del Scorecard de una organización para un período, usando la
+ * caché si está completa y recalculándola en caso contrario.
+ * @param {any} drizzle - La instancia de Drizzle ORM.
+ * @param {string} organizationId - La organización.
+ * @param {string | null} [periodDate] - El período; por defecto, el más reciente con valores de KPI.
+ * @returns {Promise<ScorecardScoresResult>} El período evaluado y la puntuación de cada elemento.
+ */
+export async function getScorecardScores(
+  drizzle: any,
+  organizationId: string,
+  periodDate?: string | null
+): Promise<ScorecardScoresResult> {
+  const period =
+    periodDate ?? (await getLatestScorecardPeriod(drizzle, organizationId))
+  if (!period) return { periodDate: null, scores: [] }
+
+  const [nodes, cached] = await Promise.all([
+    loadScorecardScoreNodes(drizzle, organizationId),
+    drizzle
+      .select()
+      .from(scorecardElementScoresTable)
+      .where(
+        and(
+          eq(scorecardElementScoresTable.organizationId, organizationId),
+          eq(scorecardElementScoresTable.periodDate, period)
+        )
+      )
+  ])
+
+  const aggregateCount = nodes.filter(n => n.elementType !== "KPI").length
+  if (cached.length !== aggregateCount) {
+    return {
+      periodDate: period,
+      scores: await calculateScorecardScoresForPeriod(
+        drizzle,
+        organizationId,
+        period
+      )
+    }
+  }
+
+  const kpiScores = await loadKpiElementScores(drizzle, organizationId, period)
+  const scores: ScorecardElementScore[] = [
+    ...nodes
+      .filter(node => node.elementType === "KPI")
+      .map(node => ({
+        scorecardElementId: node.id,
+        score: kpiScores.get(node.id)?.score ?? null,
+        color: kpiScores.get(node.id)?.color ?? null,
+        contributingChildren: 0,
+        missingChildren: 0
+      })),
+    ...cached.map((row: typeof scorecardElementScoresTable.$inferSelect) => ({
+      scorecardElementId: row.scorecardElementId,
+      score: row.score !== null ? parseFloat(row.score) : null,
+      color: row.color,
+      contributingChildren: row.contributingChildren,
+      missingChildren: row.missingChildren
+    }))
+  ]
+  return { periodDate: period, scores }
+}
+
+/**
+ * @function invalidateScorecardScores
+ * @description Elimina de la caché las puntuaciones de una o varias organizaciones (opcionalmente
+ * solo de un período), para que se recalculen en la próxima lectura.
+ */
+export async function invalidateScorecardScores(
+  drizzle: any,
+  organizationIds: string[],
+  periodDate?: string
+): Promise<void> {
+  if (organizationIds.length === 0) return
+  const conditions = [
+    inArray(scorecardElementScoresTable.organizationId, organizationIds)
+  ]
+  if (periodDate) {
+    conditions.push(eq(scorecardElementScoresTable.periodDate, periodDate))
+  }
+  await drizzle.delete(scorecardElementScoresTable).where(and(...conditions))
+}
+
+/**
+ * @function invalidateScorecardScoresForKpis
+ * @description Invalida la caché de las organizaciones a las que pertenecen los KPIs indicados
+ * (opcionalmente solo para un período). Se llama tras escribir valores de KPI.
+ */
+export async function invalidateScorecardScoresForKpis(
+  drizzle: any,
+  kpiIds: string[],
+  periodDate?: string
+): Promise<void> {
+  if (kpiIds.length === 0) return
+  const rows: { organizationId: string }[] = await drizzle
+    .selectDistinct({ organizationId: scorecardElementsTable.organizationId })
+    .from(kpisTable)
+    .innerJoin(
+      scorecardElementsTable,
+      eq(kpisTable.scorecardElementId, scorecardElementsTable.id)
+    )
+    .where(inArray(kpisTable.id, kpiIds))
+  await invalidateScorecardScores(
+    drizzle,
+    rows.map(row => row.organizationId),
+    periodDate
+  )
+}
@@ -0,0 +1,416 @@
+/**
+ * @file lib/spreadsheet-import.ts
+ * @brief Lectura de archivos Excel (.xlsx, .xls) y CSV para la importación simple de valores de KPI.
+ * @description Este módulo convierte el archivo subido en una matriz de celdas (eligiendo la hoja),
+ * detecta la fila de encabezados y las columnas de KPI, fecha, valor y meta, e interpreta números y
+ * fechas con formato local (ej. `1.234,56` y `31/12/2024`). Cada fila de datos se valida contra los
+ * KPIs de la organización; las filas que no pueden importarse se informan con su número y el motivo.
+ */
+
+import { kpiDataTypeEnum } from "@/db/schema"
+import {
+  normalizeIdentifier,
+  SimpleImportFileInfo,
+  SimpleImportRowError
+} from "@/types"
+import { SIMPLE_IMPORT_MAX_FILE_BYTES } from "@/types/import-types"
+import * as XLSX from "xlsx"
+
+// Filas iniciales en las que se busca la fila de encabezados
+const HEADER_SEARCH_ROWS = 20
+
+/**
+ * @constant SIMPLE_IMPORT_COLUMN_ALIASES
+ * @description Encabezados reconocidos (normalizados: minúsculas, sin acentos ni separadores) para
+ * cada columna de la importación simple.
+ */
+const SIMPLE_IMPORT_COLUMN_ALIASES = {
+  kpiName: ["kpiname", "kpi", "nombrekpi", "nombredelkpi", "indicador"],
+  date: ["date", "fecha", "periodo", "period", "fechaperiodo", "perioddate"],
+  value: ["value", "valor", "actual", "valoractual", "actualvalue", "real"],
+  target: ["target", "meta", "objetivo", "targetvalue", "valorobjetivo"]
+} as const
+
+type SimpleImportColumn = keyof typeof SIMPLE_IMPORT_COLUMN_ALIASES
+
+/**
+ * @typedef {'Number' | 'Percentage' | 'Currency' | 'Text'} KpiDataType
+ * @description Alias para los tipos de dato de KPI definidos en el esquema de Drizzle.
+ */
+type KpiDataType = (typeof kpiDataTypeEnum.enumValues)[number]
+
+/**
+ * @interface ParsedSpreadsheet
+ * @description Hoja leída: estructura detectada y filas de datos con su número de fila.
+ */
+export interface ParsedSpreadsheet extends SimpleImportFileInfo {
+  columns: Record<SimpleImportColumn, number | null>
+  rows: { rowNumber: number; cells: unknown[] }[]
+}
+
+/**
+ * @interface SimpleImportKpi
+ * @description Datos mínimos de un KPI de la organización para validar las filas.
+ */
+export interface SimpleImportKpi {
+  id: string
+  name: string | null
+  externalCode?: string | null
+  aliases?: string[] | null
+  dataType: KpiDataType
+}
+
+/**
+ * @interface SimpleImportValue
+ * @description Valor válido listo para guardarse en `kpi_values`.
+ */
+export interface SimpleImportValue<
+  K extends SimpleImportKpi = SimpleImportKpi
+> {
+  rowNumber: number
+  kpi: K
+  periodDate: string
+  actualValue: string
+  targetValue: string | null
+}
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === ""
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0")
+}
+
+/**
+ * @function toIsoDate
+ * @description Arma una fecha YYYY-MM-DD validando que exista en el calendario.
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null
+  }
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+/**
+ * @function parseLocaleNumber
+ * @description Interpreta un número escrito con separadores locales. Si aparecen punto y coma, el
+ * último es el separador decimal (`1.234,56` y `1,234.56`); una coma sola es decimal (`12,5`); varios
+ * separadores iguales son de miles (`1.234.567`) y un punto solo es decimal. Se ignoran espacios, símbolos de moneda y `%`.
+ * @param {unknown} value - Valor de la celda.
+ * @returns {number | null} Número o `null` si no es un número válido.
+ */
+export function parseLocaleNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value !== "string") return null
+
+  let text = value.replace(/[\s $€£%]/g, "")
+  if (!text) return null
+
+  const lastComma = text.lastIndexOf(",")
+  const lastDot = text.lastIndexOf(".")
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimal = lastComma > lastDot ? "," : "."
+    const thousands = decimal === "," ? "." : ","
+    text = text.split(thousands).join("").replace(decimal, ".")
+  } else if (lastComma >= 0) {
+    text =
+      text.indexOf(",") === lastComma
+        ? text.replace(",", ".")
+        : text.split(",").join("")
+  } else if (lastDot >= 0 && text.indexOf(".") !== lastDot) {
+    text = text.split(".").join("")
+  }
+
+  if (!/^[-+]?(\d+(\.\d*)?|\.\d+)$/.test(text)) return null
+  const parsed = Number(text)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * @function parseLocaleDate
+ * @description Interpreta una fecha de período. Acepta ISO (`2024-12-31`), día/mes/año con `/`, `-`
+ * o `.` (`31/12/2024`; si el segundo número no puede ser un mes se lee como mes/día/año), mes/año
+ * (`12/2024`, `2024-12`: primer día del mes), números de serie de Excel y objetos Date.
+ * @param {unknown} value - Valor de la celda.
+ * @returns {string | null} Fecha YYYY-MM-DD o `null` si no es una fecha válida.
+ */
+export function parseLocaleDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? null
+      : toIsoDate(value.getFullYear(), value.getMonth() + 1, value.getDate())
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value < 1 || value > 2958465) return null
+    const code = XLSX.SSF.parse_date_code(value)
+    return code ? toIsoDate(code.y, code.m, code.d) : null
+  }
+  if (typeof value !== "string") return null
+
+  const text = value.trim()
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/)
+  if (match) return toIsoDate(+match[1], +match[2], +match[3])
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?:\s.*)?$/)
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3]
+    const [first, second] = [+match[1], +match[2]]
+    return second > 12 && first <= 12
+      ? toIsoDate(year, first, second)
+      : toIsoDate(year, second, first)
+  }
+
+  match = text.match(/^(\d{4})[-/.](\d{1,2})$/)
+  if (match) return toIsoDate(+match[1], +match[2], 1)
+  match = text.match(/^(\d{1,2})[-/.](\d{4})$/)
+  if (match) return toIsoDate(+match[2], +match[1], 1)
+
+  if (/^\d+(\.\d+)?$/.test(text)) return parseLocaleDate(Number(text))
+  return null
+}
+
+/**
+ * @function sheetToMatrix
+ * @description Convierte una hoja en una matriz de valores. Las celdas numéricas con formato de
+ * fecha se devuelven como YYYY-MM-DD (sin pasar por la zona horaria del servidor).
+ */
+function sheetToMatrix(sheet: XLSX.WorkSheet): unknown[][] {
+  if (!sheet["!ref"]) return []
+  const range = XLSX.utils.decode_range(sheet["!ref"])
+  const matrix: unknown[][] = []
+  // Desde A1, para que el índice coincida con el número de fila de la hoja
+  for (let r = 0; r <= range.e.r; r++) {
+    const row: unknown[] = []
+    for (let c = 0; c <= range.e.c; c++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })] as
+        | XLSX.CellObject
+        | undefined
+      if (!cell || cell.v === undefined || cell.t === "e") {
+        row.push(null)
+      } else if (
+        cell.t === "n" &&
+        typeof cell.z === "string" &&
+        XLSX.SSF.is_date(cell.z)
+      ) {
+        row.push(parseLocaleDate(cell.v) ?? cell.v)
+      } else {
+        row.push(cell.v)
+      }
+    }
+    matrix.push(row)
+  }
+  return matrix
+}
+
+/**
+ * @function findColumns
+ * @description Ubica las columnas reconocidas en una fila de encabezados.
+ */
+function findColumns(
+  headerCells: unknown[]
+): Record<SimpleImportColumn, number | null> {
+  const normalized = headerCells.map(normalizeHeader)
+  const find = (column: SimpleImportColumn) => {
+    const aliases: readonly string[] = SIMPLE_IMPORT_COLUMN_ALIASES[column]
+    const index = normalized.findIndex(header => aliases.includes(header))
+    return index >= 0 ? index : null
+  }
+  return {
+    kpiName: find("kpiName"),
+    date: find("date"),
+    value: find("value"),
+    target: find("target")
+  }
+}
+
+function hasRequiredColumns(
+  columns: Record<SimpleImportColumn, number | null>
+): boolean {
+  return (
+    columns.kpiName !== null && columns.date !== null && columns.value !== null
+  )
+}
+
+/**
+ * @function readSpreadsheet
+ * @description Lee un archivo .xlsx, .xls o .csv, selecciona la hoja y detecta (o valida) la fila de
+ * encabezados con las columnas de KPI, fecha y valor (la meta es opcional).
+ * @param {Buffer} content - Contenido del archivo.
+ * @param {string} fileName - Nombre del archivo (determina el formato por su extensión).
+ * @param {{ sheetName?: string | null; headerRow?: number | null }} [options] - Hoja y fila de
+ * encabezados (base 1). Por defecto, la primera hoja y la fila detectada.
+ * @returns {ParsedSpreadsheet} Estructura detectada y filas de datos.
+ * @throws {Error} Si el archivo excede `SIMPLE_IMPORT_MAX_FILE_BYTES` (antes de interpretarlo), el
+ * formato no es soportado, la hoja no existe o faltan columnas requeridas.
+ */
+export function readSpreadsheet(
+  content: Buffer,
+  fileName: string,
+  options: { sheetName?: string | null; headerRow?: number | null } = {}
+): ParsedSpreadsheet {
+  // El contenido lo sube el usuario: se limita su tamaño antes de entregarlo al parser
+  if (content.length > SIMPLE_IMPORT_MAX_FILE_BYTES) {
+    throw new Error("El tamaño del archivo no debe exceder 5MB.")
+  }
+  const extension = fileName.toLowerCase().match(/\.[^.]+$/)?.[0]
+  let workbook: XLSX.WorkBook
+  if (extension === ".csv") {
+    // Todas las celdas como texto: números y fechas se interpretan luego con formato local
+    const text = content.toString("utf-8").replace(/^\uFEFF/, "")
+    workbook = XLSX.read(text, { type: "string", raw: true })
+  } else if (extension === ".xlsx" || extension === ".xls") {
+    workbook = XLSX.read(content, { type: "buffer", cellNF: true })
+  } else {
+    throw new Error(
+      "Formato de archivo no soportado. Use archivos .xlsx, .xls o .csv."
+    )
+  }
+
+  const sheetNames = workbook.SheetNames
+  const sheetName = options.sheetName || sheetNames[0]
+  if (!sheetName || !workbook.Sheets[sheetName]) {
+    throw new Error(`La hoja "${options.sheetName}" no existe en el archivo.`)
+  }
+  const matrix = sheetToMatrix(workbook.Sheets[sheetName])
+
+  let headerIndex: number
+  if (options.headerRow) {
+    headerIndex = options.headerRow - 1
+    if (
+      headerIndex >= matrix.length ||
+      !hasRequiredColumns(findColumns(matrix[headerIndex]))
+    ) {
+      throw new Error(
+        `La fila ${options.headerRow} de la hoja "${sheetName}" no contiene las columnas KPI, Fecha y Valor.`
+      )
+    }
+  } else {
+    headerIndex = matrix
+      .slice(0, HEADER_SEARCH_ROWS)
+      .findIndex(row => hasRequiredColumns(findColumns(row)))
+    if (headerIndex < 0) {
+      throw new Error(
+        `No se encontró en la hoja "${sheetName}" una fila de encabezados con las columnas KPI, Fecha y Valor.`
+      )
+    }
+  }
+
+  return {
+    sheetNames,
+    sheetName,
+    headerRow: headerIndex + 1,
+    headers: matrix[headerIndex].map(cell => String(cell ?? "").trim()),
+    columns: findColumns(matrix[headerIndex]),
+    rows: matrix
+      .slice(headerIndex + 1)
+      .map((cells, index) => ({ rowNumber: headerIndex + index + 2, cells }))
+      .filter(row => !row.cells.every(isBlank))
+  }
+}
+
+/**
+ * @function mapSimpleImportRows
+ * @description Valida las filas de datos contra los KPIs de la organización (por nombre, código
+ * externo o alias, en ese orden de prioridad y sin distinguir mayúsculas) y separa los valores
+ * importables de las filas omitidas con su motivo.
+ * Los KPIs de tipo Texto guardan el valor tal cual; los demás exigen un número.
+ * @param {ParsedSpreadsheet} sheet - Hoja leída con `readSpreadsheet`.
+ * @param {K[]} kpis - KPIs de la organización.
+ * @returns {{ values: SimpleImportValue<K>[]; skippedRows: SimpleImportRowError[] }}
+ */
+export function mapSimpleImportRows<K extends SimpleImportKpi>(
+  sheet: ParsedSpreadsheet,
+  kpis: K[]
+): { values: SimpleImportValue<K>[]; skippedRows: SimpleImportRowError[] } {
+  const kpisByName = new Map<string, K>()
+  const register = (key: string | null | undefined, kpi: K) => {
+    const normalized = key ? normalizeIdentifier(key) : ""
+    if (normalized && !kpisByName.has(normalized)) {
+      kpisByName.set(normalized, kpi)
+    }
+  }
+  kpis.forEach(kpi => register(kpi.name, kpi))
+  kpis.forEach(kpi => register(kpi.externalCode, kpi))
+  kpis.forEach(kpi =>
+    (kpi.aliases ?? []).forEach(alias => register(alias, kpi))
+  )
+  const cell = (cells: unknown[], index: number | null) =>
+    index === null ? null : cells[index]
+  const display = (value: unknown) => String(value ?? "").trim()
+
+  const values: SimpleImportValue<K>[] = []
+  const skippedRows: SimpleImportRowError[] = []
+
+  for (const { rowNumber, cells } of sheet.rows) {
+    const skip = (reason: string) => skippedRows.push({ rowNumber, reason })
+
+    const kpiName = display(cell(cells, sheet.columns.kpiName))
+    if (!kpiName) {
+      skip("Falta el nombre del KPI.")
+      continue
+    }
+    const kpi = kpisByName.get(normalizeIdentifier(kpiName))
+    if (!kpi) {
+      skip(`El KPI "${kpiName}" no existe en la organización.`)
+      continue
+    }
+
+    const rawDate = cell(cells, sheet.columns.date)
+    const periodDate = parseLocaleDate(rawDate)
+    if (!periodDate) {
+      skip(
+        isBlank(rawDate)
+          ? "Falta la fecha del período."
+          : `Fecha inválida "${display(rawDate)}".`
+      )
+      continue
+    }
+
+    const rawValue = cell(cells, sheet.columns.value)
+    if (isBlank(rawValue)) {
+      skip("Falta el valor del KPI.")
+      continue
+    }
+    let actualValue: string
+    if (kpi.dataType === "Text") {
+      actualValue = display(rawValue)
+    } else {
+      const parsed = parseLocaleNumber(rawValue)
+      if (parsed === null) {
+        skip(`Valor numérico inválido "${display(rawValue)}".`)
+        continue
+      }
+      actualValue = String(parsed)
+    }
+
+    const rawTarget = cell(cells, sheet.columns.target)
+    let targetValue: string | null = null
+    if (!isBlank(rawTarget)) {
+      const parsed = parseLocaleNumber(rawTarget)
+      if (parsed === null) {
+        skip(`Meta inválida "${display(rawTarget)}".`)
+        continue
+      }
+      targetValue = String(parsed)
+    }
+
+    values.push({ rowNumber, kpi, periodDate, actualValue, targetValue })
+  }
+
+  return { values, skippedRows }
+}
@@ -0,0 +1,297 @@
+/**
+ * @file lib/sql-extraction.ts
+ * @brief Extracción de filas desde bases de datos PostgreSQL y MySQL para las importaciones estándar.
+ * @description Este módulo abre una conexión con los detalles descifrados de una conexión de
+ * importación, ejecuta la consulta SQL guardada en la importación dentro de una transacción de solo
+ * lectura y lee las filas por lotes (cursor en PostgreSQL, stream en MySQL) hasta el límite de filas
+ * configurado, con un tiempo máximo de ejecución. Las filas se normalizan (fechas ISO, textos) para
+ * que sigan el flujo existente de `applyTransformations` y `KpiMapping`.
+ */
+
+import {
+  SQL_IMPORT_CONNECTION_TYPES,
+  SQL_IMPORT_DEFAULT_ROW_LIMIT,
+  SQL_IMPORT_DEFAULT_TIMEOUT_SECONDS,
+  SQL_IMPORT_MAX_ROW_LIMIT,
+  SQL_IMPORT_MAX_TIMEOUT_SECONDS,
+  SqlConnectionDetails,
+  SqlImportConnectionType
+} from "@/types"
+import { getLogger } from "@/lib/logger"
+import mysql from "mysql2"
+import postgres from "postgres"
+
+const logger = getLogger("sql-extraction")
+
+// Filas que se leen por lote del cursor de PostgreSQL
+const POSTGRES_CURSOR_BATCH_SIZE = 500
+
+/**
+ * @interface SqlExtractionLimits
+ * @description Límite de filas y tiempo máximo (ms) de una extracción.
+ */
+export interface SqlExtractionLimits {
+  rowLimit: number
+  timeoutMs: number
+}
+
+/**
+ * @interface SqlExtractionResult
+ * @description Filas extraídas e indicador de si la consulta tenía más filas que el límite.
+ */
+export interface SqlExtractionResult {
+  rows: Record<string, unknown>[]
+  truncated: boolean
+}
+
+/**
+ * @function isSqlImportConnectionType
+ * @description Indica si el tipo de conexión admite extracción mediante consulta SQL.
+ */
+export function isSqlImportConnectionType(
+  connectionType: string
+): connectionType is SqlImportConnectionType {
+  return (SQL_IMPORT_CONNECTION_TYPES as readonly string[]).includes(
+    connectionType
+  )
+}
+
+/**
+ * @function normalizeSqlQuery
+ * @description Valida que la consulta sea una única sentencia SELECT (o WITH ... SELECT) y la
+ * devuelve sin el punto y coma final. Es una validación temprana con mensajes claros: la garantía
+ * de no modificar datos la da la transacción de solo lectura en la que se ejecuta.
+ * @param {string} query - Consulta SQL guardada en la importación.
+ * @returns {string} Consulta normalizada.
+ * @throws {Error} Si la consulta está vacía, tiene varias sentencias o no es de lectura.
+ */
+export function normalizeSqlQuery(query: string): string {
+  const trimmed = query.trim().replace(/;\s*$/, "").trim()
+  if (!trimmed) throw new Error("La consulta SQL de origen está vacía.")
+
+  // Se descartan literales y comentarios para analizar solo la estructura de la consulta
+  const structure = trimmed
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/"(?:[^"]|"")*"/g, '""')
+    .replace(/`[^`]*`/g, "``")
+    .replace(/--[^\n]*/g, " ")
+    .replace(/\/\*[\s\S]*?\*\//g, " ")
+    .trim()
+
+  if (structure.includes(";")) {
+    throw new Error(
+      "La consulta SQL de origen debe contener una sola sentencia."
+    )
+  }
+  if (!/^\(*\s*(select|with)\b/i.test(structure)) {
+    throw new Error(
+      "La consulta SQL de origen debe ser de solo lectura (SELECT o WITH)."
+    )
+  }
+  return trimmed
+}
+
+/**
+ * @function resolveSqlExtractionLimits
+ * @description Aplica los valores por defecto y los máximos al límite de filas y al tiempo máximo
+ * configurados en la importación.
+ * @param {{ rowLimit?: number | null; queryTimeoutSeconds?: number | null }} source - Configuración guardada.
+ * @returns {SqlExtractionLimits} Límite de filas y tiempo máximo en milisegundos.
+ */
+export function resolveSqlExtractionLimits(source: {
+  rowLimit?: number | null
+  queryTimeoutSeconds?: number | null
+}): SqlExtractionLimits {
+  const clamp = (
+    value: number | null | undefined,
+    fallback: number,
+    max: number
+  ) => (value && value > 0 ? Math.min(Math.floor(value), max) : fallback)
+
+  return {
+    rowLimit: clamp(
+      source.rowLimit,
+      SQL_IMPORT_DEFAULT_ROW_LIMIT,
+      SQL_IMPORT_MAX_ROW_LIMIT
+    ),
+    timeoutMs:
+      clamp(
+        source.queryTimeoutSeconds,
+        SQL_IMPORT_DEFAULT_TIMEOUT_SECONDS,
+        SQL_IMPORT_MAX_TIMEOUT_SECONDS
+      ) * 1000
+  }
+}
+
+/**
+ * @function normalizeSqlRow
+ * @description Convierte los valores de una fila a tipos que entiende el flujo de importación:
+ * fechas a ISO 8601, binarios a texto UTF-8 y enteros grandes a texto.
+ * @param {Record<string, unknown>} row - Fila devuelta por el controlador.
+ * @returns {Record<string, unknown>} Fila normalizada.
+ */
+export function normalizeSqlRow(
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {}
+  for (const [column, value] of Object.entries(row)) {
+    if (value instanceof Date) {
+      normalized[column] = isNaN(value.getTime()) ? null : value.toISOString()
+    } else if (Buffer.isBuffer(value)) {
+      normalized[column] = value.toString("utf8")
+    } else if (typeof value === "bigint") {
+      normalized[column] = value.toString()
+    } else {
+      normalized[column] = value
+    }
+  }
+  return normalized
+}
+
+/**
+ * @function extractPostgresRows
+ * @description Ejecuta la consulta en PostgreSQL con un cursor dentro de una transacción de solo
+ * lectura con `statement_timeout`.
+ */
+async function extractPostgresRows(
+  details: SqlConnectionDetails,
+  query: string,
+  limits: SqlExtractionLimits
+): Promise<SqlExtractionResult> {
+  const sql = postgres({
+    host: details.host,
+    port: details.port,
+    username: details.user,
+    password: details.password,
+    database: details.database,
+    ssl: details.ssl ? "require" : false,
+    max: 1,
+    prepare: false,
+    connect_timeout: Math.ceil(limits.timeoutMs / 1000),
+    onnotice: () => {}
+  })
+
+  const rows: Record<string, unknown>[] = []
+  let truncated = false
+  try {
+    await sql.begin("read only", async tx => {
+      await tx.unsafe(`SET LOCAL statement_timeout = ${limits.timeoutMs}`)
+      for await (const batch of tx
+        .unsafe(query)
+        .cursor(POSTGRES_CURSOR_BATCH_SIZE)) {
+        for (const row of batch) {
+          if (rows.length >= limits.rowLimit) {
+            truncated = true
+            break
+          }
+          rows.push(normalizeSqlRow(row as Record<string, unknown>))
+        }
+        if (truncated) break
+      }
+    })
+  } finally {
+    await sql.end({ timeout: 5 })
+  }
+  return { rows, truncated }
+}
+
+/**
+ * @function extractMysqlRows
+ * @description Ejecuta la consulta en MySQL como stream en una sesión de solo lectura, con el
+ * tiempo máximo aplicado por el controlador.
+ */
+async function extractMysqlRows(
+  details: SqlConnectionDetails,
+  query: string,
+  limits: SqlExtractionLimits
+): Promise<SqlExtractionResult> {
+  const connection = mysql.createConnection({
+    host: details.host,
+    port: details.port,
+    user: details.user,
+    password: details.password,
+    database: details.database,
+    ssl: details.ssl ? {} : undefined,
+    connectTimeout: limits.timeoutMs,
+    dateStrings: true,
+    supportBigNumbers: true,
+    bigNumberStrings: true
+  })
+  // Evita que un error tras cerrar la conexión termine el proceso
+  connection.on("error", error =>
+    logger.warn(`MySQL connection error: ${error.message}`)
+  )
+
+  const rows: Record<string, unknown>[] = []
+  let truncated = false
+  let completed = false
+  try {
+    await connection.promise().query("SET SESSION TRANSACTION READ ONLY")
+    const stream = connection
+      .query({ sql: query, timeout: limits.timeoutMs })
+      .stream({ objectMode: true })
+    for await (const row of stream) {
+      if (rows.length >= limits.rowLimit) {
+        truncated = true
+        break
+      }
+      rows.push(normalizeSqlRow(row as Record<string, unknown>))
+    }
+    completed = !truncated
+  } finally {
+    // Si se cortó el stream o falló la consulta, la conexión no puede cerrarse limpiamente
+    if (completed) await connection.promise().end()
+    else connection.destroy()
+  }
+  return { rows, truncated }
+}
+
+/**
+ * @function extractSqlRows
+ * @description Ejecuta la consulta de origen de una importación contra una base de datos
+ * PostgreSQL o MySQL y devuelve sus filas normalizadas, hasta el límite configurado.
+ * @param {SqlImportConnectionType} connectionType - Tipo de la conexión.
+ * @param {SqlConnectionDetails} details - Detalles descifrados de la conexión.
+ * @param {string} query - Consulta SQL de solo lectura.
+ * @param {SqlExtractionLimits} limits - Límite de filas y tiempo máximo.
+ * @returns {Promise<SqlExtractionResult>} Filas extraídas.
+ */
+export async function extractSqlRows(
+  connectionType: SqlImportConnectionType,
+  details: SqlConnectionDetails,
+  query: string,
+  limits: SqlExtractionLimits
+): Promise<SqlExtractionResult> {
+  const normalizedQuery = normalizeSqlQuery(query)
+  const startedAt = Date.now()
+  const result =
+    connectionType === "PostgreSQL"
+      ? await extractPostgresRows(details, normalizedQuery, limits)
+      : await extractMysqlRows(details, normalizedQuery, limits)
+
+  logger.info(
+    `Extracted ${result.rows.length} row(s) from ${connectionType} ${details.host}/${details.database} in ${Date.now() - startedAt} ms${
+      result.truncated ? ` (truncated at ${limits.rowLimit})` : ""
+    }.`
+  )
+  return result
+}
+
+/**
+ * @function testSqlConnection
+ * @description Verifica que se pueda abrir una conexión y ejecutar `SELECT 1`.
+ * @param {SqlImportConnectionType} connectionType - Tipo de la conexión.
+ * @param {SqlConnectionDetails} details - Detalles de la conexión.
+ * @returns {Promise<void>} Se resuelve si la conexión funciona; lanza el error del controlador si no.
+ */
+export async function testSqlConnection(
+  connectionType: SqlImportConnectionType,
+  details: SqlConnectionDetails
+): Promise<void> {
+  await extractSqlRows(
+    connectionType,
+    details,
+    "SELECT 1 AS ok",
+    resolveSqlExtractionLimits({ rowLimit: 1, queryTimeoutSeconds: 10 })
+  )
+}
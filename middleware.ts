@@ -1,26 +1,39 @@
 /*
 Contains middleware for protecting routes, checking user authentication, and redirecting as needed.
+Routes of the (main) group require a signed-in user with an active profile and at least one group
+membership; the settings subtree also requires the section's manage permission (see lib/route-access.ts).
 */
 
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server"
 import { NextResponse } from "next/server"
+import { db } from "@/db/db"
+import { MAIN_ROUTE_PATTERNS, checkRouteAccess } from "@/lib/route-access"
 
-const isProtectedRoute = createRouteMatcher(["/todo(.*)"])
+const isProtectedRoute = createRouteMatcher(MAIN_ROUTE_PATTERNS)
 
 export default clerkMiddleware(async (auth, req) => {
+  if (!isProtectedRoute(req)) return
+
   const { userId, redirectToSignIn } = await auth()
 
   // If the user isn't signed in and the route is private, redirect to sign-in
-  if (!userId && isProtectedRoute(req)) {
-    return redirectToSignIn({ returnBackUrl: "/login" })
+  if (!userId) {
+    return redirectToSignIn({ returnBackUrl: req.url })
   }
 
-  // If the user is logged in and the route is protected, let them view.
-  if (userId && isProtectedRoute(req)) {
-    return NextResponse.next()
+  // Deactivated users, users without groups and users lacking the section's permission are blocked
+  const denialReason = await checkRouteAccess(db, userId, req.nextUrl.pathname)
+  if (denialReason) {
+    const deniedUrl = new URL("/access-denied", req.url)
+    deniedUrl.searchParams.set("reason", denialReason)
+    return NextResponse.redirect(deniedUrl)
   }
+
+  return NextResponse.next()
 })
 
 export const config = {
+  // Node.js runtime: the access checks query the database through Drizzle
+  runtime: "nodejs",
   matcher: ["/((?!.*\\..*|_next).*)", "/", "/(api|trpc)(.*)"]
 }
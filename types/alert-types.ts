@@ -0,0 +1,136 @@
+/**
+ * @file types/alert-types.ts
+ * @brief Define los tipos del motor de evaluación de alertas.
+ * @description Contiene la forma de los detalles de condición de las alertas personalizadas y de
+ * los recordatorios de actualización, así como el resultado de evaluar una alerta: los KPIs y
+ * períodos concretos que cumplen la condición, usados para componer la notificación.
+ */
+
+/**
+ * @typedef {'gt' | 'lt' | 'eq' | 'ne'} AlertComparisonOperator
+ * @description Operador de comparación de una alerta 'Custom KPI Change'.
+ */
+export type AlertComparisonOperator = "gt" | "lt" | "eq" | "ne"
+
+/**
+ * @interface CustomKpiChangeConditionDetails
+ * @description Condición de una alerta 'Custom KPI Change'.
+ * @property {'score_changing' | 'value_changing'} triggerEvent - Se evalúa la puntuación o el valor real.
+ * @property {AlertComparisonOperator} operator - Operador de comparación contra el umbral.
+ * @property {string} thresholdValue - Umbral numérico (como texto).
+ * @property {'value' | 'delta'} [comparison] - Compara el último dato ('value', por defecto) o su
+ * variación respecto del período anterior ('delta').
+ */
+export interface CustomKpiChangeConditionDetails {
+  triggerEvent: "score_changing" | "value_changing"
+  operator: AlertComparisonOperator
+  thresholdValue: string
+  comparison?: "value" | "delta"
+}
+
+/**
+ * @interface UpdateReminderConditionDetails
+ * @description Condición de un recordatorio de actualización ('Update Reminder').
+ * @property {number} [daysBeforeDeadline] - Avisar estos días antes del cierre del período en curso.
+ * @property {number} [daysAfterDeadline] - Avisar estos días después del cierre del período anterior sin valor.
+ */
+export interface UpdateReminderConditionDetails {
+  daysBeforeDeadline?: number
+  daysAfterDeadline?: number
+}
+
+/**
+ * @interface AlertMatch
+ * @description Dato concreto que hizo disparar una alerta.
+ * @property {string} kpiId - ID del KPI.
+ * @property {string} kpiName - Nombre del KPI (elemento del Scorecard).
+ * @property {string} periodDate - Período afectado (YYYY-MM-DD).
+ * @property {string} detail - Descripción legible del motivo del disparo.
+ * @property {string[]} [recipientUserIds] - Destinatarios adicionales propios del dato (ej. actualizadores).
+ */
+export interface AlertMatch {
+  kpiId: string
+  kpiName: string
+  periodDate: string
+  detail: string
+  recipientUserIds?: string[]
+}
+
+/**
+ * @interface AlertEvaluationResult
+ * @description Resultado de evaluar una alerta.
+ * @property {boolean} triggered - Indica si la condición se cumplió.
+ * @property {AlertMatch[]} matches - KPIs y períodos que cumplen la condición.
+ */
+export interface AlertEvaluationResult {
+  triggered: boolean
+  matches: AlertMatch[]
+}
+
+/**
+ * @interface UserAlertEvent
+ * @description Evento de alerta tal como lo ve un destinatario en la página /alerts.
+ * @property {string} id - ID del evento.
+ * @property {string} alertType - Tipo de la alerta disparada.
+ * @property {string | null} kpiName - Nombre del KPI afectado.
+ * @property {string | null} periodDate - Período afectado (YYYY-MM-DD).
+ * @property {string} detail - Motivo del disparo.
+ * @property {'email' | 'in_app'} channel - Canal de notificación.
+ * @property {'sent' | 'failed' | 'queued' | 'skipped'} deliveryStatus - Estado de entrega.
+ * @property {Date} createdAt - Momento del disparo.
+ * @property {Date | null} readAt - Momento en que el usuario lo leyó (null = no leído).
+ */
+export interface UserAlertEvent {
+  id: string
+  alertType: "Red KPI" | "Update Reminder" | "Note Reply" | "Custom KPI Change"
+  kpiId: string | null
+  kpiName: string | null
+  periodDate: string | null
+  detail: string
+  channel: "email" | "in_app"
+  deliveryStatus: "sent" | "failed" | "queued" | "skipped"
+  createdAt: Date
+  readAt: Date | null
+}
+
+/**
+ * @constant ALERT_DELIVERY_MODES
+ * @description Modos de entrega de alertas que puede elegir un usuario en su perfil:
+ * - immediate: un correo por cada alerta disparada (por defecto).
+ * - daily_digest: un único correo diario con todas las alertas disparadas.
+ * - weekly_digest: un único correo semanal (los lunes) con todas las alertas disparadas.
+ */
+export const ALERT_DELIVERY_MODES = [
+  "immediate",
+  "daily_digest",
+  "weekly_digest"
+] as const
+
+/**
+ * @typedef {'immediate' | 'daily_digest' | 'weekly_digest'} AlertDeliveryMode
+ * @description Preferencia del usuario para recibir las alertas por correo.
+ */
+export type AlertDeliveryMode = (typeof ALERT_DELIVERY_MODES)[number]
+
+/**
+ * @interface AlertDigestItem
+ * @description Evento pendiente de incluir en el resumen de alertas de un usuario.
+ * @property {string | null} organizationName - Organización del KPI afectado.
+ * @property {string | null} actualValue - Valor real del KPI en el período.
+ * @property {string | null} targetValue - Valor objetivo del KPI en el período.
+ * @property {'Red' | 'Yellow' | 'Green' | null} color - Color del KPI en el período.
+ */
+export interface AlertDigestItem {
+  eventId: string
+  alertType: UserAlertEvent["alertType"]
+  organizationId: string | null
+  organizationName: string | null
+  kpiId: string | null
+  kpiName: string | null
+  periodDate: string | null
+  detail: string
+  actualValue: string | null
+  targetValue: string | null
+  color: "Red" | "Yellow" | "Green" | null
+  createdAt: Date
+}
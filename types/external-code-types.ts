@@ -0,0 +1,69 @@
+/**
+ * @file types/external-code-types.ts
+ * @brief Define los esquemas de validación de los códigos externos y los alias.
+ * @description Un código externo es el identificador estable con el que un sistema de origen
+ * conoce a un KPI o a una organización; los alias son otros nombres con los que se conoce la
+ * entidad. Incluye la forma canónica con la que se comparan los identificadores.
+ */
+
+import { z } from "zod"
+
+/**
+ * @function normalizeIdentifier
+ * @description Forma canónica de un nombre, código o alias para compararlo: sin espacios en los
+ * extremos y en minúsculas.
+ */
+export function normalizeIdentifier(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+/**
+ * @function normalizeAliases
+ * @description Recorta los alias y elimina los vacíos y los repetidos (sin distinguir mayúsculas),
+ * conservando el orden y la escritura de la primera aparición.
+ * @param {string[]} aliases - Alias tal como se introdujeron.
+ * @returns {string[]} Alias normalizados.
+ */
+export function normalizeAliases(aliases: string[]): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const alias of aliases) {
+    const trimmed = alias.trim()
+    const key = normalizeIdentifier(trimmed)
+    if (!trimmed || seen.has(key)) continue
+    seen.add(key)
+    result.push(trimmed)
+  }
+  return result
+}
+
+/**
+ * @constant ExternalCodeSchema
+ * @description Código externo: letras, números y los separadores `.`, `_`, `-` y `/`.
+ */
+export const ExternalCodeSchema = z
+  .string()
+  .trim()
+  .min(1, "El código externo no puede estar vacío.")
+  .max(100, "El código externo no puede exceder los 100 caracteres.")
+  .regex(
+    /^[A-Za-z0-9._\-/]+$/,
+    "El código externo solo admite letras, números y los caracteres . _ - /"
+  )
+
+/**
+ * @constant AliasesSchema
+ * @description Lista de alias. Los corchetes no se admiten porque delimitan las referencias de
+ * las ecuaciones ([KPI:alias]). Se eliminan los vacíos y los repetidos.
+ */
+export const AliasesSchema = z
+  .array(
+    z
+      .string()
+      .max(255, "Un alias no puede exceder los 255 caracteres.")
+      .refine(alias => !/[[\]]/.test(alias), {
+        message: "Los alias no pueden contener corchetes."
+      })
+  )
+  .max(50, "No se pueden indicar más de 50 alias.")
+  .transform(normalizeAliases)
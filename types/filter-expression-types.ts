@@ -0,0 +1,190 @@
+/**
+ * @file types/filter-expression-types.ts
+ * @brief Define los tipos del lenguaje de expresiones de los filtros de importación.
+ * @description Contiene las interfaces del árbol sintáctico (AST) que produce el parser de
+ * condiciones de las transformaciones de tipo "filter" y de expresiones de valor de las columnas
+ * derivadas ("derived_column"), el error estructurado que se muestra al guardar una importación con
+ * una expresión inválida y los tipos de resultado del análisis.
+ */
+
+/**
+ * @typedef {'=' | '<>' | '<' | '<=' | '>' | '>='} FilterComparisonOperator
+ * @description Operadores de comparación soportados.
+ */
+export type FilterComparisonOperator = "=" | "<>" | "<" | "<=" | ">" | ">="
+
+/**
+ * @typedef {'contains' | 'startsWith' | 'endsWith'} FilterTextOperator
+ * @description Operadores de texto soportados (distinguen mayúsculas y minúsculas).
+ */
+export type FilterTextOperator = "contains" | "startsWith" | "endsWith"
+
+/**
+ * @interface FilterLiteralNode
+ * @description Literal de texto, número, booleano o null.
+ */
+export interface FilterLiteralNode {
+  type: "literal"
+  value: string | number | boolean | null
+  position: number
+}
+
+/**
+ * @interface FilterFieldNode
+ * @description Referencia a un campo de la fila: `value` (campo de la regla, `name` null), un
+ * identificador simple (ej. region) o un nombre entre corchetes (ej. [Región de venta]).
+ */
+export interface FilterFieldNode {
+  type: "field"
+  name: string | null
+  position: number
+}
+
+/**
+ * @typedef {FilterLiteralNode | FilterFieldNode} FilterOperandNode
+ * @description Operando de una condición.
+ */
+export type FilterOperandNode = FilterLiteralNode | FilterFieldNode
+
+/**
+ * @interface FilterLogicalNode
+ * @description Conjunción o disyunción de dos condiciones.
+ */
+export interface FilterLogicalNode {
+  type: "logical"
+  operator: "AND" | "OR"
+  left: FilterExpressionNode
+  right: FilterExpressionNode
+  position: number
+}
+
+/**
+ * @interface FilterNotNode
+ * @description Negación de una condición.
+ */
+export interface FilterNotNode {
+  type: "not"
+  operand: FilterExpressionNode
+  position: number
+}
+
+/**
+ * @interface FilterComparisonNode
+ * @description Comparación entre dos operandos.
+ */
+export interface FilterComparisonNode {
+  type: "comparison"
+  operator: FilterComparisonOperator
+  left: FilterOperandNode
+  right: FilterOperandNode
+  position: number
+}
+
+/**
+ * @interface FilterInNode
+ * @description Pertenencia de un operando a una lista de literales (`IN` / `NOT IN`).
+ */
+export interface FilterInNode {
+  type: "in"
+  operand: FilterOperandNode
+  values: FilterLiteralNode[]
+  negated: boolean
+  position: number
+}
+
+/**
+ * @interface FilterTextNode
+ * @description Operación de texto (`CONTAINS`, `STARTSWITH`, `ENDSWITH`, opcionalmente negada).
+ */
+export interface FilterTextNode {
+  type: "text"
+  operator: FilterTextOperator
+  left: FilterOperandNode
+  right: FilterOperandNode
+  negated: boolean
+  position: number
+}
+
+/**
+ * @interface FilterNullCheckNode
+ * @description Comprobación de valor vacío (`IS NULL` / `IS NOT NULL`).
+ */
+export interface FilterNullCheckNode {
+  type: "nullCheck"
+  operand: FilterOperandNode
+  negated: boolean
+  position: number
+}
+
+/**
+ * @typedef FilterExpressionNode
+ * @description Nodo del AST de una condición de filtro.
+ */
+export type FilterExpressionNode =
+  | FilterLogicalNode
+  | FilterNotNode
+  | FilterComparisonNode
+  | FilterInNode
+  | FilterTextNode
+  | FilterNullCheckNode
+
+/**
+ * @interface FilterExpressionError
+ * @description Error estructurado del parser de condiciones de filtro.
+ * @property {string} message - Mensaje legible (en español) para mostrar al usuario.
+ * @property {number} [position] - Posición (índice base 0) donde se detectó el error.
+ */
+export interface FilterExpressionError {
+  message: string
+  position?: number
+}
+
+/**
+ * @typedef FilterExpressionParseResult
+ * @description Resultado del análisis de una condición: el AST y los campos de la fila que
+ * referencia (sin contar `value`), o el error de sintaxis.
+ */
+export type FilterExpressionParseResult =
+  | { isSuccess: true; ast: FilterExpressionNode; fields: string[] }
+  | { isSuccess: false; error: FilterExpressionError }
+
+/**
+ * @interface ValueArithmeticNode
+ * @description Operación aritmética (+, -, *, /) o concatenación de texto (&) en una expresión de
+ * valor (columnas derivadas).
+ */
+export interface ValueArithmeticNode {
+  type: "arithmetic"
+  operator: "+" | "-" | "*" | "/" | "&"
+  left: ValueExpressionNode
+  right: ValueExpressionNode
+  position: number
+}
+
+/**
+ * @interface ValueNegateNode
+ * @description Cambio de signo de una expresión de valor.
+ */
+export interface ValueNegateNode {
+  type: "negate"
+  operand: ValueExpressionNode
+  position: number
+}
+
+/**
+ * @typedef ValueExpressionNode
+ * @description Nodo del AST de una expresión de valor (columnas derivadas).
+ */
+export type ValueExpressionNode =
+  | FilterOperandNode
+  | ValueArithmeticNode
+  | ValueNegateNode
+
+/**
+ * @typedef ValueExpressionParseResult
+ * @description Resultado del análisis de una expresión de valor: el AST y los campos de la fila
+ * que referencia, o el error de sintaxis.
+ */
+export type ValueExpressionParseResult =
+  | { isSuccess: true; ast: ValueExpressionNode; fields: string[] }
+  | { isSuccess: false; error: FilterExpressionError }
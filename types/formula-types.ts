@@ -0,0 +1,190 @@
+/**
+ * @file types/formula-types.ts
+ * @brief Define los tipos del evaluador de fórmulas de cálculo de KPI.
+ * @description Contiene las interfaces del árbol sintáctico (AST) que produce el parser
+ * de ecuaciones de KPI, los códigos de error estructurados que el editor de ecuaciones
+ * puede mostrar al usuario y los tipos de resultado de validación y evaluación.
+ */
+
+/**
+ * @typedef {string} FormulaErrorCode
+ * @description Códigos de error que puede producir el parser o el evaluador de fórmulas.
+ */
+export type FormulaErrorCode =
+  | "EMPTY_EXPRESSION"
+  | "INVALID_CHARACTER"
+  | "INVALID_NUMBER"
+  | "INVALID_REFERENCE"
+  | "UNEXPECTED_TOKEN"
+  | "UNEXPECTED_END"
+  | "UNKNOWN_FUNCTION"
+  | "INVALID_ARGUMENT_COUNT"
+  | "INVALID_ARGUMENT"
+  | "MAX_DEPTH_EXCEEDED"
+  | "DIVISION_BY_ZERO"
+  | "MISSING_VALUE"
+  | "NON_FINITE_RESULT"
+
+/**
+ * @interface FormulaError
+ * @description Error estructurado del parser/evaluador de fórmulas.
+ * @property {FormulaErrorCode} code - Código del error.
+ * @property {string} message - Mensaje legible (en español) para mostrar al usuario.
+ * @property {number} [position] - Posición (índice base 0) en la ecuación donde se detectó el error.
+ * @property {number} [length] - Longitud del fragmento de la ecuación asociado al error.
+ */
+export interface FormulaError {
+  code: FormulaErrorCode
+  message: string
+  position?: number
+  length?: number
+}
+
+/**
+ * @typedef {string} FormulaBinaryOperator
+ * @description Operadores binarios soportados por el evaluador.
+ */
+export type FormulaBinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "^"
+  | "="
+  | "<>"
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+
+/**
+ * @interface FormulaNumberNode
+ * @description Literal numérico.
+ */
+export interface FormulaNumberNode {
+  type: "number"
+  value: number
+  position: number
+}
+
+/**
+ * @typedef {'actual' | 'target' | 'thresholdRed' | 'thresholdYellow'} FormulaReferenceField
+ * @description Campo del valor de KPI que se lee en una referencia (por defecto el valor actual).
+ */
+export type FormulaReferenceField =
+  | "actual"
+  | "target"
+  | "thresholdRed"
+  | "thresholdYellow"
+
+/**
+ * @typedef {'current' | 'previous' | 'lastYear'} FormulaPeriodShift
+ * @description Desplazamiento de período de una referencia: período evaluado, período anterior
+ * (según la frecuencia del KPI referenciado) o mismo período del año anterior.
+ */
+export type FormulaPeriodShift = "current" | "previous" | "lastYear"
+
+/**
+ * @typedef {'ytd' | 'trailing12'} FormulaAggregate
+ * @description Agregación sobre una ventana de períodos: suma del acumulado del año (ytd)
+ * o promedio de los últimos 12 meses (trailing12).
+ */
+export type FormulaAggregate = "ytd" | "trailing12"
+
+/**
+ * @interface FormulaReferenceNode
+ * @description Referencia a otro KPI con el formato [KPI:UUID] o [KPI:NombreDeKPI], opcionalmente
+ * seguida de modificadores separados por ':' (ej. [KPI:Ventas:target], [KPI:Ventas:prev],
+ * [KPI:Ventas:ytd:lastYear]).
+ * @property {string} identifier - El ID (UUID) o nombre del KPI referenciado (sin modificadores).
+ * @property {boolean} isId - Verdadero si el identificador es un UUID.
+ * @property {string} originalMatch - Texto exacto de la referencia en la ecuación.
+ * @property {FormulaReferenceField} field - Campo del valor de KPI a leer.
+ * @property {FormulaPeriodShift} periodShift - Desplazamiento de período.
+ * @property {FormulaAggregate | null} aggregate - Agregación sobre una ventana de períodos, si aplica.
+ */
+export interface FormulaReferenceNode {
+  type: "reference"
+  identifier: string
+  isId: boolean
+  originalMatch: string
+  field: FormulaReferenceField
+  periodShift: FormulaPeriodShift
+  aggregate: FormulaAggregate | null
+  position: number
+}
+
+/**
+ * @interface FormulaUnaryNode
+ * @description Operación unaria (signo).
+ */
+export interface FormulaUnaryNode {
+  type: "unary"
+  operator: "+" | "-"
+  operand: FormulaNode
+  position: number
+}
+
+/**
+ * @interface FormulaBinaryNode
+ * @description Operación binaria (aritmética o comparación).
+ */
+export interface FormulaBinaryNode {
+  type: "binary"
+  operator: FormulaBinaryOperator
+  left: FormulaNode
+  right: FormulaNode
+  position: number
+}
+
+/**
+ * @interface FormulaCallNode
+ * @description Llamada a una función soportada (MIN, MAX, ABS, IF, ROUND, ...).
+ * @property {string} name - Nombre de la función normalizado en mayúsculas.
+ */
+export interface FormulaCallNode {
+  type: "call"
+  name: string
+  args: FormulaNode[]
+  position: number
+}
+
+/**
+ * @typedef {FormulaNode}
+ * @description Nodo del árbol sintáctico de una fórmula.
+ */
+export type FormulaNode =
+  | FormulaNumberNode
+  | FormulaReferenceNode
+  | FormulaUnaryNode
+  | FormulaBinaryNode
+  | FormulaCallNode
+
+/**
+ * @typedef {FormulaParseResult}
+ * @description Resultado del análisis sintáctico de una ecuación.
+ */
+export type FormulaParseResult =
+  | {
+      isSuccess: true
+      ast: FormulaNode
+      references: FormulaReferenceNode[]
+    }
+  | { isSuccess: false; error: FormulaError }
+
+/**
+ * @typedef {FormulaEvaluationResult}
+ * @description Resultado de la evaluación de una fórmula.
+ */
+export type FormulaEvaluationResult =
+  | { isSuccess: true; value: number }
+  | { isSuccess: false; error: FormulaError }
+
+/**
+ * @typedef {FormulaReferenceResolver}
+ * @description Función que obtiene el valor numérico de una referencia a KPI.
+ * Devuelve null si el KPI referenciado no tiene valor para el período evaluado.
+ */
+export type FormulaReferenceResolver = (
+  reference: FormulaReferenceNode
+) => number | null
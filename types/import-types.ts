@@ -32,9 +32,41 @@ export const KpiMappingFieldSchema = z.object({
 })
 
 /**
- *  @interface KpiMapping
- *  @description Define la configuración de mapeo para un KPI específico dentro de una importación.
- *  @property {string} kpiId - El ID del KPI de destino en DeltaOne.
+ * @constant IMPORT_IDENTIFIER_TYPES
+ * @description Cómo interpreta una importación el identificador de KPI u organización leído de una
+ * columna: por ID (UUID), por nombre o alias, por código externo (los textos sin distinguir
+ * mayúsculas) o automáticamente (ID si el valor es un UUID y, si no, código externo, nombre o alias).
+ */
+export const IMPORT_IDENTIFIER_TYPES = [
+  "auto",
+  "id",
+  "name",
+  "externalCode"
+] as const
+
+/**
+ * @typedef {'auto' | 'id' | 'name' | 'externalCode'} ImportIdentifierType
+ * @description Tipo de identificador de KPI u organización en un mapeo dinámico.
+ */
+export type ImportIdentifierType = (typeof IMPORT_IDENTIFIER_TYPES)[number]
+
+/**
+ * @constant IMPORT_IDENTIFIER_TYPE_LABELS
+ * @description Etiquetas legibles de los tipos de identificador.
+ */
+export const IMPORT_IDENTIFIER_TYPE_LABELS: Record<
+  ImportIdentifierType,
+  string
+> = {
+  auto: "Automático (ID, código o nombre)",
+  id: "ID",
+  name: "Nombre o alias",
+  externalCode: "Código externo"
+}
+
+/**
+ *  @interface KpiMappingValueFields
+ *  @description Campos de valor comunes a todos los mapeos de KPI.
  *  @property {KpiMappingField} periodDate - Cómo se mapea la fecha del período del KPI.
  *  @property {KpiMappingField} actualValue - Cómo se mapea el valor real del KPI.
  *  @property {KpiMappingField | null} [targetValue] - Cómo se mapea el valor objetivo del KPI (opcional).
@@ -42,8 +74,7 @@ export const KpiMappingFieldSchema = z.object({
  *  @property {KpiMappingField | null} [thresholdYellow] - Cómo se mapea el umbral amarillo del KPI (opcional).
  *  @property {KpiMappingField | null} [note] - Cómo se mapea la nota del KPI (opcional).
  */
-export interface KpiMapping {
-  kpiId: string
+export interface KpiMappingValueFields {
   periodDate: KpiMappingField
   actualValue: KpiMappingField
   targetValue?: KpiMappingField | null
@@ -53,53 +84,603 @@ export interface KpiMapping {
 }
 
 /**
- * @schema KpiMappingSchema
- * @description Esquema Zod para validar KpiMapping.
+ *  @interface StaticKpiMapping
+ *  @description Mapeo de todas las filas a un KPI fijo (modo por defecto; los mapeos guardados antes
+ *  de existir el modo dinámico no tienen `mode`).
+ *  @property {string} kpiId - El ID del KPI de destino en DeltaOne.
  */
-export const KpiMappingSchema = z.object({
-  kpiId: z.string().uuid("ID de KPI inválido."),
+export interface StaticKpiMapping extends KpiMappingValueFields {
+  mode?: "static"
+  kpiId: string
+}
+
+/**
+ *  @interface DynamicKpiMapping
+ *  @description Mapeo clave-valor: una columna del origen indica el KPI de cada fila y, opcionalmente,
+ *  otra indica su organización. La importación resuelve el KPI de cada fila al ejecutarse.
+ *  @property {KpiMappingField} kpiField - Columna con el identificador del KPI.
+ *  @property {ImportIdentifierType} [kpiIdentifierType] - Cómo se interpreta el identificador ("auto" por defecto).
+ *  @property {KpiMappingField | null} [organizationField] - Columna con la organización (opcional).
+ *  @property {ImportIdentifierType} [organizationIdentifierType] - Cómo se interpreta la organización ("auto" por defecto).
+ */
+export interface DynamicKpiMapping extends KpiMappingValueFields {
+  mode: "dynamic"
+  kpiField: KpiMappingField
+  kpiIdentifierType?: ImportIdentifierType
+  organizationField?: KpiMappingField | null
+  organizationIdentifierType?: ImportIdentifierType
+}
+
+/**
+ *  @typedef KpiMapping
+ *  @description Configuración de mapeo de una importación hacia KPIs: fija (`StaticKpiMapping`) o
+ *  dinámica (`DynamicKpiMapping`).
+ */
+export type KpiMapping = StaticKpiMapping | DynamicKpiMapping
+
+const kpiMappingValueFieldsShape = {
   periodDate: KpiMappingFieldSchema,
   actualValue: KpiMappingFieldSchema,
   targetValue: KpiMappingFieldSchema.nullable().optional(),
   thresholdRed: KpiMappingFieldSchema.nullable().optional(),
   thresholdYellow: KpiMappingFieldSchema.nullable().optional(),
   note: KpiMappingFieldSchema.nullable().optional()
+}
+
+/**
+ * @schema StaticKpiMappingSchema
+ * @description Esquema Zod para validar StaticKpiMapping.
+ */
+export const StaticKpiMappingSchema = z.object({
+  mode: z.literal("static").optional(),
+  kpiId: z.string().uuid("ID de KPI inválido."),
+  ...kpiMappingValueFieldsShape
 })
 
+/**
+ * @schema DynamicKpiMappingSchema
+ * @description Esquema Zod para validar DynamicKpiMapping.
+ */
+export const DynamicKpiMappingSchema = z.object({
+  mode: z.literal("dynamic"),
+  kpiField: KpiMappingFieldSchema,
+  kpiIdentifierType: z.enum(IMPORT_IDENTIFIER_TYPES).optional(),
+  organizationField: KpiMappingFieldSchema.nullable().optional(),
+  organizationIdentifierType: z.enum(IMPORT_IDENTIFIER_TYPES).optional(),
+  ...kpiMappingValueFieldsShape
+})
+
+/**
+ * @schema KpiMappingSchema
+ * @description Esquema Zod para validar KpiMapping (fijo o dinámico).
+ */
+export const KpiMappingSchema = z.union([
+  DynamicKpiMappingSchema,
+  StaticKpiMappingSchema
+])
+
+/**
+ * @constant TRANSFORMATION_TYPES
+ * @description Tipos de transformaciones de datos soportadas, en el orden en que las ofrece el asistente.
+ */
+export const TRANSFORMATION_TYPES = [
+  "filter",
+  "regex_replace",
+  "set_default",
+  "data_type_conversion",
+  "rename",
+  "derived_column",
+  "value_mapping",
+  "unit_scaling",
+  "trim",
+  "case_normalization",
+  "date_parse",
+  "unpivot"
+] as const
+
 /**
  *  @enum TransformationType
  *  @description Enumera los tipos de transformaciones de datos soportadas.
  */
-export type TransformationType =
-  | "filter"
-  | "regex_replace"
-  | "set_default"
-  | "data_type_conversion"
+export type TransformationType = (typeof TRANSFORMATION_TYPES)[number]
+
+/**
+ * @constant TRANSFORMATION_TYPE_LABELS
+ * @description Nombre de cada tipo de transformación para mostrar al usuario.
+ */
+export const TRANSFORMATION_TYPE_LABELS: Record<TransformationType, string> = {
+  filter: "Filtro",
+  regex_replace: "Reemplazo (expresión regular)",
+  set_default: "Valor por defecto",
+  data_type_conversion: "Conversión de tipo",
+  rename: "Renombrar columna",
+  derived_column: "Columna derivada",
+  value_mapping: "Tabla de equivalencias",
+  unit_scaling: "Escalado de unidades",
+  trim: "Recortar espacios",
+  case_normalization: "Mayúsculas/minúsculas",
+  date_parse: "Leer fecha con formato",
+  unpivot: "Columnas a filas (unpivot)"
+}
+
+/**
+ * @schema FilterTransformationParametersSchema
+ * @description Parámetros de 'filter': condición que deben cumplir las filas que se conservan
+ * (ej. "value > 100 AND [Región] IN ('Norte', 'Sur')"); ver la gramática en `lib/filter-expression.ts`.
+ */
+export const FilterTransformationParametersSchema = z.object({
+  condition: z.string().trim().min(1, "La condición del filtro es requerida.")
+})
+
+/**
+ * @schema RegexReplaceTransformationParametersSchema
+ * @description Parámetros de 'regex_replace': expresión regular y texto de reemplazo.
+ */
+export const RegexReplaceTransformationParametersSchema = z.object({
+  pattern: z
+    .string()
+    .min(1, "La expresión regular es requerida.")
+    .refine(
+      pattern => {
+        try {
+          new RegExp(pattern, "g")
+          return true
+        } catch {
+          return false
+        }
+      },
+      { message: "La expresión regular no es válida." }
+    ),
+  replacement: z.string()
+})
+
+/**
+ * @schema SetDefaultTransformationParametersSchema
+ * @description Parámetros de 'set_default': valor que se asigna si el campo está vacío.
+ */
+export const SetDefaultTransformationParametersSchema = z.object({
+  defaultValue: z.union([z.string(), z.number(), z.boolean(), z.null()])
+})
+
+/**
+ * @schema DataTypeConversionTransformationParametersSchema
+ * @description Parámetros de 'data_type_conversion': tipo de dato de destino.
+ */
+export const DataTypeConversionTransformationParametersSchema = z.object({
+  targetType: z.enum(["number", "string", "date"], {
+    errorMap: () => ({ message: "Tipo de dato de destino inválido." })
+  })
+})
+
+/**
+ * @schema RenameTransformationParametersSchema
+ * @description Parámetros de 'rename': nuevo nombre de la columna.
+ */
+export const RenameTransformationParametersSchema = z.object({
+  newName: z
+    .string()
+    .trim()
+    .min(1, "El nuevo nombre de la columna es requerido.")
+})
+
+/**
+ * @schema DerivedColumnTransformationParametersSchema
+ * @description Parámetros de 'derived_column': expresión que calcula la nueva columna a partir de
+ * otros campos de la fila (ej. "[Ventas] / [Unidades] * 100" o "[Región] & '-' & [Zona]").
+ */
+export const DerivedColumnTransformationParametersSchema = z.object({
+  expression: z
+    .string()
+    .trim()
+    .min(1, "La expresión de la columna derivada es requerida.")
+})
+
+/**
+ * @schema ValueMappingTransformationParametersSchema
+ * @description Parámetros de 'value_mapping': tabla de equivalencias (ej. código de organización
+ * de origen → ID de KPI), campo de destino (null = el mismo campo) y qué hacer con los valores
+ * que no están en la tabla: conservarlos, vaciarlos o descartar la fila.
+ */
+export const ValueMappingTransformationParametersSchema = z.object({
+  mappings: z
+    .array(
+      z.object({
+        from: z.string(),
+        to: z.string()
+      })
+    )
+    .min(1, "La tabla de equivalencias debe tener al menos una fila."),
+  targetField: z.string().trim().nullable().optional(),
+  caseSensitive: z.boolean().optional(),
+  unmatched: z.enum(["keep", "null", "drop"], {
+    errorMap: () => ({
+      message: "Acción para valores sin equivalencia inválida."
+    })
+  })
+})
+
+/**
+ * @schema UnitScalingTransformationParametersSchema
+ * @description Parámetros de 'unit_scaling': factor por el que se multiplica el valor (ej. 0.001
+ * para pasar de unidades a miles) y decimales a los que se redondea (opcional).
+ */
+export const UnitScalingTransformationParametersSchema = z.object({
+  factor: z
+    .number({ invalid_type_error: "El factor debe ser un número." })
+    .finite("El factor debe ser un número.")
+    .refine(factor => factor !== 0, { message: "El factor no puede ser 0." }),
+  decimals: z
+    .number()
+    .int("Los decimales deben ser un número entero.")
+    .min(0, "Los decimales deben estar entre 0 y 10.")
+    .max(10, "Los decimales deben estar entre 0 y 10.")
+    .nullable()
+    .optional()
+})
+
+/**
+ * @schema TrimTransformationParametersSchema
+ * @description Parámetros de 'trim': si además se reducen los espacios internos repetidos a uno.
+ */
+export const TrimTransformationParametersSchema = z.object({
+  collapseWhitespace: z.boolean().optional()
+})
+
+/**
+ * @schema CaseNormalizationTransformationParametersSchema
+ * @description Parámetros de 'case_normalization': mayúsculas, minúsculas o tipo título.
+ */
+export const CaseNormalizationTransformationParametersSchema = z.object({
+  mode: z.enum(["upper", "lower", "title"], {
+    errorMap: () => ({ message: "Modo de normalización inválido." })
+  })
+})
+
+/**
+ * @schema DateParseTransformationParametersSchema
+ * @description Parámetros de 'date_parse': formato explícito de la fecha de origen con los tokens
+ * de date-fns (ej. "dd/MM/yyyy", "MMM yyyy"). El resultado se guarda como "yyyy-MM-dd".
+ */
+export const DateParseTransformationParametersSchema = z.object({
+  format: z.string().trim().min(1, "El formato de fecha es requerido.")
+})
+
+/**
+ * @schema UnpivotTransformationParametersSchema
+ * @description Parámetros de 'unpivot': columnas anchas (ej. una por mes) que se convierten en filas,
+ * el campo que recibe el nombre (o la clave indicada, ej. "2024-01-01") de cada columna, y la clave
+ * opcional de cada una. El valor de cada columna se guarda en el campo de la regla.
+ */
+export const UnpivotTransformationParametersSchema = z.object({
+  columns: z
+    .array(
+      z.object({
+        column: z
+          .string()
+          .trim()
+          .min(1, "El nombre de la columna es requerido."),
+        key: z.string().trim().nullable().optional()
+      })
+    )
+    .min(1, "Debe indicar al menos una columna."),
+  keyField: z.string().trim().min(1, "El campo de la clave es requerido.")
+})
+
+const transformationFieldSchema = z
+  .string()
+  .trim()
+  .min(1, "El campo de la transformación es requerido.")
 
 /**
  * @schema TransformationRuleSchema
- * @description Esquema Zod para validar TransformationRule.
+ * @description Esquema Zod para validar TransformationRule según su tipo.
  * @property {TransformationType} type - El tipo de transformación a realizar (ej. 'filter', 'regex_replace').
  * @property {string} field - El campo o columna de los datos de origen a la que se aplica la transformación.
- * @property {any} parameters - Parámetros específicos para la transformación.
- *    *  Para 'filter': { condition: string } (ej. "value > 100")
- *    *  Para 'regex_replace': { pattern: string; replacement: string }
- *    *  Para 'set_default': { defaultValue: any }
- *    *  Para 'data_type_conversion': { targetType: 'number' | 'string' | 'date' }
- */
-export interface TransformationRule {
-  type: TransformationType
-  field: string
-  parameters: any
-}
+ * En 'derived_column' es la columna que se crea y en 'unpivot' la columna que recibe los valores.
+ * @property {object} parameters - Parámetros específicos de cada tipo (ver los esquemas de arriba).
+ */
+export const TransformationRuleSchema = z.discriminatedUnion(
+  "type",
+  [
+    z.object({
+      type: z.literal("filter"),
+      field: transformationFieldSchema,
+      parameters: FilterTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("regex_replace"),
+      field: transformationFieldSchema,
+      parameters: RegexReplaceTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("set_default"),
+      field: transformationFieldSchema,
+      parameters: SetDefaultTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("data_type_conversion"),
+      field: transformationFieldSchema,
+      parameters: DataTypeConversionTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("rename"),
+      field: transformationFieldSchema,
+      parameters: RenameTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("derived_column"),
+      field: transformationFieldSchema,
+      parameters: DerivedColumnTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("value_mapping"),
+      field: transformationFieldSchema,
+      parameters: ValueMappingTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("unit_scaling"),
+      field: transformationFieldSchema,
+      parameters: UnitScalingTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("trim"),
+      field: transformationFieldSchema,
+      parameters: TrimTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("case_normalization"),
+      field: transformationFieldSchema,
+      parameters: CaseNormalizationTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("date_parse"),
+      field: transformationFieldSchema,
+      parameters: DateParseTransformationParametersSchema
+    }),
+    z.object({
+      type: z.literal("unpivot"),
+      field: transformationFieldSchema,
+      parameters: UnpivotTransformationParametersSchema
+    })
+  ],
+  {
+    errorMap: (issue, ctx) => ({
+      message:
+        issue.code === "invalid_union_discriminator"
+          ? "Tipo de transformación inválido."
+          : ctx.defaultError
+    })
+  }
+)
+
+/**
+ * @typedef TransformationRule
+ * @description Regla de transformación con los parámetros de su tipo.
+ */
+export type TransformationRule = z.infer<typeof TransformationRuleSchema>
+
+/**
+ * @typedef TransformationRuleOf
+ * @description Regla de transformación de un tipo concreto.
+ */
+export type TransformationRuleOf<T extends TransformationType> = Extract<
+  TransformationRule,
+  { type: T }
+>
+
+/**
+ * @constant SQL_IMPORT_CONNECTION_TYPES
+ * @description Tipos de conexión relacionales con extracción real mediante una consulta SQL.
+ */
+export const SQL_IMPORT_CONNECTION_TYPES = ["PostgreSQL", "MySQL"] as const
+
+/**
+ * @typedef {'PostgreSQL' | 'MySQL'} SqlImportConnectionType
+ * @description Tipo de conexión relacional soportado por la extracción SQL.
+ */
+export type SqlImportConnectionType =
+  (typeof SQL_IMPORT_CONNECTION_TYPES)[number]
 
-export const TransformationRuleSchema = z.object({
-  type: z.enum(
-    ["filter", "regex_replace", "set_default", "data_type_conversion"],
-    {
-      errorMap: () => ({ message: "Tipo de transformación inválido." })
-    }
-  ),
-  field: z.string().min(1, "El campo de la transformación es requerido."),
-  parameters: z.any() // Los parámetros son dinámicos según el tipo de transformación
+/**
+ * @constant SQL_IMPORT_DEFAULT_ROW_LIMIT
+ * @description Filas que se leen como máximo si la importación no define un límite.
+ */
+export const SQL_IMPORT_DEFAULT_ROW_LIMIT = 10000
+
+/**
+ * @constant SQL_IMPORT_MAX_ROW_LIMIT
+ * @description Límite máximo de filas configurable en una importación.
+ */
+export const SQL_IMPORT_MAX_ROW_LIMIT = 100000
+
+/**
+ * @constant SQL_IMPORT_DEFAULT_TIMEOUT_SECONDS
+ * @description Tiempo máximo de la consulta si la importación no define uno.
+ */
+export const SQL_IMPORT_DEFAULT_TIMEOUT_SECONDS = 30
+
+/**
+ * @constant SQL_IMPORT_MAX_TIMEOUT_SECONDS
+ * @description Tiempo máximo configurable de la consulta de una importación.
+ */
+export const SQL_IMPORT_MAX_TIMEOUT_SECONDS = 300
+
+/**
+ * @schema SqlConnectionDetailsSchema
+ * @description Esquema Zod de los detalles (descifrados) de una conexión PostgreSQL o MySQL.
+ * @property {string} host - Servidor de la base de datos.
+ * @property {number} port - Puerto (acepta número o texto numérico).
+ * @property {string} user - Usuario.
+ * @property {string} [password] - Contraseña.
+ * @property {string} database - Base de datos.
+ * @property {boolean} [ssl] - Conectar mediante SSL.
+ */
+export const SqlConnectionDetailsSchema = z.object({
+  host: z.string().min(1, "El host es requerido."),
+  port: z.coerce
+    .number({ invalid_type_error: "El puerto debe ser numérico." })
+    .int("El puerto debe ser un número entero.")
+    .positive("El puerto debe ser positivo."),
+  user: z.string().min(1, "El usuario es requerido."),
+  password: z.string().optional(),
+  database: z.string().min(1, "La base de datos es requerida."),
+  ssl: z.boolean().optional()
 })
+
+/**
+ * @typedef {z.infer<typeof SqlConnectionDetailsSchema>} SqlConnectionDetails
+ * @description Detalles de una conexión PostgreSQL o MySQL.
+ */
+export type SqlConnectionDetails = z.infer<typeof SqlConnectionDetailsSchema>
+
+/**
+ * @schema SqlImportSourceSchema
+ * @description Esquema Zod de la consulta de origen de una importación guardada sobre una conexión
+ * SQL: la consulta (solo lectura), el límite de filas y el tiempo máximo de ejecución.
+ */
+export const SqlImportSourceSchema = z.object({
+  sourceQuery: z
+    .string()
+    .max(10000, "La consulta no puede exceder los 10000 caracteres.")
+    .nullable()
+    .optional(),
+  rowLimit: z
+    .number()
+    .int("El límite de filas debe ser un número entero.")
+    .min(1, "El límite de filas debe ser al menos 1.")
+    .max(
+      SQL_IMPORT_MAX_ROW_LIMIT,
+      `El límite de filas no puede exceder ${SQL_IMPORT_MAX_ROW_LIMIT}.`
+    )
+    .nullable()
+    .optional(),
+  queryTimeoutSeconds: z
+    .number()
+    .int("El tiempo máximo debe ser un número entero.")
+    .min(1, "El tiempo máximo debe ser al menos 1 segundo.")
+    .max(
+      SQL_IMPORT_MAX_TIMEOUT_SECONDS,
+      `El tiempo máximo no puede exceder ${SQL_IMPORT_MAX_TIMEOUT_SECONDS} segundos.`
+    )
+    .nullable()
+    .optional()
+})
+
+/**
+ * @constant SIMPLE_IMPORT_FILE_EXTENSIONS
+ * @description Extensiones de archivo aceptadas por la importación simple de valores de KPI.
+ */
+export const SIMPLE_IMPORT_FILE_EXTENSIONS = [".xlsx", ".xls", ".csv"] as const
+
+/**
+ * @constant SIMPLE_IMPORT_MAX_FILE_BYTES
+ * @description Tamaño máximo (5MB) de un archivo de la importación simple; se rechaza antes de leerlo.
+ */
+export const SIMPLE_IMPORT_MAX_FILE_BYTES = 5 * 1024 * 1024
+
+/**
+ * @interface SimpleImportFileInfo
+ * @description Estructura detectada de un archivo de importación simple.
+ * @property {string[]} sheetNames - Hojas del libro (un CSV tiene una sola).
+ * @property {string} sheetName - Hoja leída.
+ * @property {number} headerRow - Fila de encabezados (base 1, como en la hoja de cálculo).
+ * @property {string[]} headers - Encabezados de la fila de encabezados.
+ */
+export interface SimpleImportFileInfo {
+  sheetNames: string[]
+  sheetName: string
+  headerRow: number
+  headers: string[]
+}
+
+/**
+ * @interface SimpleImportRowError
+ * @description Fila omitida de una importación simple y el motivo.
+ * @property {number} rowNumber - Número de fila en la hoja (base 1).
+ * @property {string} reason - Motivo por el que se omitió la fila.
+ */
+export interface SimpleImportRowError {
+  rowNumber: number
+  reason: string
+}
+
+/**
+ * @interface SimpleImportReport
+ * @description Resultado de una importación simple: estructura leída, filas procesadas, valores
+ * importados, el detalle de las filas omitidas y la diferencia con los valores guardados.
+ */
+export interface SimpleImportReport extends SimpleImportFileInfo {
+  totalRows: number
+  importedCount: number
+  skippedRows: SimpleImportRowError[]
+  changes: ImportChangeSet
+}
+
+/**
+ * @typedef {'insert' | 'update' | 'skip'} ImportChangeAction
+ * @description Efecto de una fila importada sobre `kpi_values`: crea un valor, modifica uno
+ * existente o se omite (fila inválida o sin cambios).
+ */
+export type ImportChangeAction = "insert" | "update" | "skip"
+
+/**
+ * @interface ImportChangeRow
+ * @description Diferencia entre el valor guardado y el valor importado de un KPI en un período.
+ * Las filas omitidas indican el motivo y pueden no tener KPI o período (si no se pudieron leer); las
+ * inserciones y actualizaciones que combinan varias filas del mismo período lo indican en `reason`.
+ */
+export interface ImportChangeRow {
+  rowNumber: number | null
+  action: ImportChangeAction
+  reason: string | null
+  kpiId: string | null
+  kpiName: string | null
+  periodDate: string | null
+  oldActualValue: string | null
+  newActualValue: string | null
+  oldTargetValue: string | null
+  newTargetValue: string | null
+  oldScore: string | null
+  newScore: string | null
+  oldColor: "Red" | "Yellow" | "Green" | null
+  newColor: "Red" | "Yellow" | "Green" | null
+}
+
+/**
+ * @interface ImportUnresolvedIdentifier
+ * @description Identificador de KPI (y de organización, si se mapeó) de un mapeo dinámico que la
+ * importación no pudo resolver, con el motivo y el número de filas omitidas por él.
+ */
+export interface ImportUnresolvedIdentifier {
+  kpiIdentifier: string
+  organizationIdentifier: string | null
+  reason: string
+  rowCount: number
+}
+
+/**
+ * @interface ImportChangeSet
+ * @description Cambios de una importación. En modo de vista previa (`dryRun`) describe lo que se
+ * escribiría sin haber escrito nada; en una ejecución, lo que se escribió. Las importaciones con
+ * mapeos dinámicos informan además los identificadores que no se pudieron resolver.
+ */
+export interface ImportChangeSet {
+  dryRun: boolean
+  rows: ImportChangeRow[]
+  insertCount: number
+  updateCount: number
+  skipCount: number
+  unresolvedIdentifiers?: ImportUnresolvedIdentifier[]
+}
+
+/**
+ * @interface ImportRunRollbackResult
+ * @description Resultado de revertir una ejecución de importación: valores restaurados al anterior,
+ * valores eliminados (la ejecución los había creado) y valores que cambiaron después de la ejecución
+ * y por eso se conservaron.
+ */
+export interface ImportRunRollbackResult {
+  restoredCount: number
+  removedCount: number
+  conflicts: { kpiId: string; periodDate: string }[]
+}
@@ -7,3 +7,11 @@ export * from "./import-types"
 export * from "./schedule-types"
 export * from "./validation"
 export * from "./permissions-types"
+export * from "./formula-types"
+export * from "./scorecard-score-types"
+export * from "./alert-types"
+export * from "./kpi-note-types"
+export * from "./filter-expression-types"
+export * from "./kpi-value-ingestion-types"
+export * from "./kpi-updater-types"
+export * from "./external-code-types"
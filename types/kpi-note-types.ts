@@ -0,0 +1,61 @@
+/**
+ * @file types/kpi-note-types.ts
+ * @brief Define los tipos de las notas y respuestas de los valores de KPI.
+ * @description Contiene la forma en que se muestran las notas de un valor de KPI, agrupadas en
+ * conversaciones (nota raíz y respuestas), con su autor, menciones y los permisos de edición y
+ * eliminación del usuario actual.
+ */
+
+/**
+ * @constant KPI_NOTE_MAX_LENGTH
+ * @description Longitud máxima del texto de una nota.
+ */
+export const KPI_NOTE_MAX_LENGTH = 2000
+
+/**
+ * @interface MentionableUser
+ * @description Usuario que puede mencionarse con @ en una nota.
+ * @property {string} userId - ID del usuario.
+ * @property {string | null} email - Correo del usuario.
+ */
+export interface MentionableUser {
+  userId: string
+  email: string | null
+}
+
+/**
+ * @interface KpiNoteView
+ * @description Nota de un valor de KPI tal como se muestra en la conversación.
+ * @property {string} id - ID de la nota.
+ * @property {string | null} parentNoteId - Nota raíz a la que responde (null = nota raíz).
+ * @property {string | null} authorUserId - ID del autor (null si el usuario fue eliminado).
+ * @property {string | null} authorEmail - Correo del autor.
+ * @property {string} content - Texto de la nota.
+ * @property {MentionableUser[]} mentions - Usuarios mencionados.
+ * @property {Date} createdAt - Momento de creación.
+ * @property {Date | null} editedAt - Última edición (null = nunca editada).
+ * @property {boolean} canEdit - El usuario actual puede editarla.
+ * @property {boolean} canDelete - El usuario actual puede eliminarla.
+ */
+export interface KpiNoteView {
+  id: string
+  parentNoteId: string | null
+  authorUserId: string | null
+  authorEmail: string | null
+  content: string
+  mentions: MentionableUser[]
+  createdAt: Date
+  editedAt: Date | null
+  canEdit: boolean
+  canDelete: boolean
+}
+
+/**
+ * @interface KpiNoteThread
+ * @description Conversación de un valor de KPI: una nota raíz y sus respuestas (de la más antigua
+ * a la más reciente).
+ */
+export interface KpiNoteThread {
+  note: KpiNoteView
+  replies: KpiNoteView[]
+}
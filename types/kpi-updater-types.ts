@@ -0,0 +1,48 @@
+/**
+ * @file types/kpi-updater-types.ts
+ * @brief Define los tipos de la asignación de Updaters de los KPIs.
+ * @description Contiene la forma en que se listan los KPIs manuales que el usuario actual debe
+ * actualizar, directamente o por uno de sus grupos, el acceso que le dan sus asignaciones y el
+ * objetivo y los umbrales que solo pueden cambiar los Updaters autorizados.
+ */
+
+import type { kpiCalendarFrequencyEnum } from "@/db/schema"
+
+/**
+ * @interface KpiToUpdate
+ * @description KPI manual del que el usuario es Updater, con su organización.
+ * @property {string} kpiId - ID del KPI.
+ * @property {string} name - Nombre del elemento del Scorecard del KPI.
+ * @property {string} organizationId - ID de la organización del KPI.
+ * @property {string} organizationName - Nombre de la organización.
+ * @property {string} calendarFrequency - Frecuencia de actualización del KPI.
+ */
+export interface KpiToUpdate {
+  kpiId: string
+  name: string
+  organizationId: string
+  organizationName: string
+  calendarFrequency: (typeof kpiCalendarFrequencyEnum.enumValues)[number]
+}
+
+/**
+ * @interface KpiUpdaterAccess
+ * @description Acceso de un usuario a un KPI como Updater, combinando todas sus asignaciones.
+ * @property {boolean} canModifyThresholds - Alguna asignación le permite modificar los umbrales.
+ */
+export interface KpiUpdaterAccess {
+  canModifyThresholds: boolean
+}
+
+/**
+ * @interface KpiValueThresholds
+ * @description Objetivo y umbrales de un valor de KPI, almacenados como texto.
+ * @property {string | null} targetValue - Valor objetivo.
+ * @property {string | null} thresholdRed - Umbral que define "Rojo".
+ * @property {string | null} thresholdYellow - Umbral que define "Amarillo".
+ */
+export interface KpiValueThresholds {
+  targetValue: string | null
+  thresholdRed: string | null
+  thresholdYellow: string | null
+}
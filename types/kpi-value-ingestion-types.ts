@@ -0,0 +1,148 @@
+/**
+ * @file types/kpi-value-ingestion-types.ts
+ * @brief Define los tipos de la ingesta de valores de KPI por API y de las claves de API.
+ * @description Contiene el esquema de cada elemento que se envía a `POST /api/kpi-values` (KPI,
+ * organización, período, valores, umbrales y nota), el resultado por elemento y la respuesta del
+ * endpoint, y la forma en que se muestran las claves de API en la configuración.
+ */
+
+import { z } from "zod"
+
+/**
+ * @constant KPI_VALUE_INGESTION_MAX_ITEMS
+ * @description Número máximo de elementos por solicitud.
+ */
+export const KPI_VALUE_INGESTION_MAX_ITEMS = 1000
+
+/**
+ * @constant KPI_VALUE_INGESTION_MAX_BODY_BYTES
+ * @description Tamaño máximo del cuerpo de una solicitud (2MB), holgado para el máximo de elementos.
+ */
+export const KPI_VALUE_INGESTION_MAX_BODY_BYTES = 2 * 1024 * 1024
+
+/**
+ * Valor de un campo numérico o de texto: número, texto o null (borra el valor guardado). Si se
+ * omite, se conserva el valor guardado.
+ */
+const IngestionFieldSchema = z
+  .union([
+    z.string().max(255, "Los valores no pueden exceder 255 caracteres."),
+    z.number().finite("Los valores numéricos deben ser finitos.")
+  ])
+  .nullable()
+  .optional()
+
+/**
+ * @constant KpiValueIngestionItemSchema
+ * @description Esquema de un elemento de la ingesta. `kpi` y `organization` aceptan el ID, el código
+ * externo, el nombre o un alias; la organización solo hace falta si el nombre del KPI se repite.
+ */
+export const KpiValueIngestionItemSchema = z.object({
+  kpi: z
+    .string({ required_error: "Falta el identificador del KPI." })
+    .trim()
+    .min(1, "Falta el identificador del KPI.")
+    .max(255, "El identificador del KPI no puede exceder 255 caracteres."),
+  organization: z
+    .string()
+    .trim()
+    .max(255, "El identificador de la organización no puede exceder 255 caracteres.")
+    .nullable()
+    .optional(),
+  periodDate: z
+    .string({ required_error: "Falta la fecha del período." })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido. Usar YYYY-MM-DD.")
+    .refine(value => !isNaN(Date.parse(value)), "Fecha del período inválida."),
+  actual: IngestionFieldSchema,
+  target: IngestionFieldSchema,
+  thresholds: z
+    .object({ red: IngestionFieldSchema, yellow: IngestionFieldSchema })
+    .nullable()
+    .optional(),
+  note: z
+    .string()
+    .max(1000, "La nota no puede exceder los 1000 caracteres.")
+    .nullable()
+    .optional()
+})
+
+/**
+ * @typedef KpiValueIngestionItem
+ * @description Elemento de la ingesta ya validado.
+ */
+export type KpiValueIngestionItem = z.infer<typeof KpiValueIngestionItemSchema>
+
+/**
+ * @interface KpiValueIngestionEntry
+ * @description Elemento leído del cuerpo de la solicitud, antes de validarlo.
+ * @property {number} index - Posición del elemento en el lote (base 0).
+ * @property {number | null} line - Línea del cuerpo NDJSON (null en JSON).
+ * @property {unknown} [value] - Objeto leído.
+ * @property {string} [error] - Error de lectura de la línea (JSON inválido).
+ */
+export interface KpiValueIngestionEntry {
+  index: number
+  line: number | null
+  value?: unknown
+  error?: string
+}
+
+/**
+ * @interface KpiValueIngestionItemResult
+ * @description Resultado de un elemento del lote.
+ * @property {number} index - Posición del elemento en el lote (base 0).
+ * @property {number | null} line - Línea del cuerpo NDJSON (null en JSON).
+ * @property {'saved' | 'rejected'} status - Si el valor se guardó o se rechazó.
+ * @property {string} message - Motivo del rechazo o confirmación.
+ * @property {string} [kpiId] - KPI resuelto.
+ * @property {string} [periodDate] - Inicio del período en que se guardó el valor.
+ * @property {number | null} [score] - Puntuación calculada.
+ * @property {string | null} [color] - Color calculado.
+ */
+export interface KpiValueIngestionItemResult {
+  index: number
+  line: number | null
+  status: "saved" | "rejected"
+  message: string
+  kpiId?: string
+  periodDate?: string
+  score?: number | null
+  color?: string | null
+}
+
+/**
+ * @interface KpiValueIngestionResponse
+ * @description Cuerpo de la respuesta de `POST /api/kpi-values`.
+ */
+export interface KpiValueIngestionResponse {
+  success: boolean
+  message: string
+  summary?: { received: number; saved: number; rejected: number }
+  results?: KpiValueIngestionItemResult[]
+}
+
+/**
+ * @interface ApiKeyView
+ * @description Clave de API tal como se muestra en la configuración (sin el secreto).
+ */
+export interface ApiKeyView {
+  id: string
+  name: string
+  keyPrefix: string
+  organizationId: string
+  organizationName: string | null
+  includeDescendants: boolean
+  lastUsedAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+/**
+ * @interface CreatedApiKey
+ * @description Clave recién creada: el secreto solo se devuelve en este momento.
+ */
+export interface CreatedApiKey {
+  apiKey: ApiKeyView
+  secret: string
+}
@@ -6,24 +6,110 @@
  *  - Define UserPermissionsMap usando un sentinel 'global' para permisos sin organización
  *  - Agrega PermissionContextType para el contexto de permisos en el frontend.
  *  - Incluye utilidades para normalizar el organizationId y una fábrica de hasPermission.
+ *  - Define los permisos por defecto de cada tipo de grupo y la explicación de un permiso efectivo.
  */
 
 import { z } from "zod"
+import type { userGroupTypeEnum } from "@/db/schema"
 
 /** =========================
  *  Permission keys (v2)
  *  ========================= */
-export type PermissionKey =
-  | "user:manage"
-  | "group:manage"
-  | "group:assign_members"
-  | "group:assign_permissions"
-  | "organization:manage"
-  | "kpi:manage"
-  | "scorecard_element:manage"
-  | "import:manage_connections"
-  | "import:manage_saved_imports"
-  | "alert:manage"
+export const PERMISSION_KEYS = [
+  "user:manage",
+  "group:manage",
+  "group:assign_members",
+  "group:assign_permissions",
+  "organization:manage",
+  "kpi:manage",
+  "scorecard_element:manage",
+  "import:manage_connections",
+  "import:manage_saved_imports",
+  "alert:manage",
+  "app_settings:manage",
+  "kpi_value:update",
+  "kpi_note:create",
+  "organization:view"
+] as const
+
+export type PermissionKey = (typeof PERMISSION_KEYS)[number]
+
+/** Descripción de cada permiso para la interfaz. */
+export const PERMISSION_KEY_LABELS: Record<PermissionKey, string> = {
+  "user:manage": "Gestionar usuarios",
+  "group:manage": "Gestionar grupos",
+  "group:assign_members": "Asignar miembros a grupos",
+  "group:assign_permissions": "Asignar permisos a grupos",
+  "organization:manage": "Gestionar organizaciones",
+  "kpi:manage": "Gestionar KPIs",
+  "scorecard_element:manage": "Gestionar elementos del Scorecard",
+  "import:manage_connections": "Gestionar conexiones de importación",
+  "import:manage_saved_imports": "Gestionar importaciones",
+  "alert:manage": "Gestionar alertas",
+  "app_settings:manage": "Configurar la aplicación",
+  "kpi_value:update": "Actualizar valores de los KPIs asignados",
+  "kpi_note:create": "Publicar notas en los valores de KPI",
+  "organization:view": "Ver la organización, su Scorecard y sus valores de KPI"
+}
+
+/** =========================
+ *  Permisos por tipo de grupo
+ *  ========================= */
+
+export type UserGroupType = (typeof userGroupTypeEnum.enumValues)[number]
+
+/**
+ * Permisos que concede cada tipo de grupo sin filas explícitas en `group_permissions`. Una fila
+ * explícita (global o de una organización) reemplaza al permiso por defecto de su grupo. Salvo
+ * los Power User, ningún tipo ve organizaciones por defecto: `organization:view` se asigna por
+ * organización.
+ */
+export const GROUP_TYPE_DEFAULT_PERMISSIONS: Record<
+  UserGroupType,
+  readonly PermissionKey[]
+> = {
+  "Power User": PERMISSION_KEYS,
+  "Update User": ["kpi_value:update", "kpi_note:create"],
+  "Interactive User": ["kpi_note:create"],
+  "View Only": []
+}
+
+/** Permisos de lectura: no modifican datos, por lo que también aplican a los grupos de solo lectura. */
+export const READ_PERMISSION_KEYS: readonly PermissionKey[] = [
+  "organization:view"
+]
+
+/**
+ * Tipos de grupo que nunca modifican datos: sus filas explícitas solo conceden permisos de lectura.
+ */
+export const READ_ONLY_GROUP_TYPES: readonly UserGroupType[] = ["View Only"]
+
+/**
+ * Regla que decide un permiso efectivo:
+ * - `explicit_organization` / `explicit_global`: fila de `group_permissions` del grupo.
+ * - `group_type_default`: permiso por defecto del tipo de grupo.
+ * - `read_only_group_type`: el grupo es de solo lectura y el permiso modifica datos.
+ * - `bootstrap`: ningún usuario pertenece aún a un grupo (configuración inicial).
+ * - `no_groups`: el usuario no pertenece a ningún grupo.
+ */
+export type EffectivePermissionRule =
+  | "explicit_organization"
+  | "explicit_global"
+  | "group_type_default"
+  | "read_only_group_type"
+  | "bootstrap"
+  | "no_groups"
+
+/** Permiso efectivo de un usuario y la regla (y el grupo) que lo concedió o denegó. */
+export interface EffectivePermissionExplanation {
+  key: string
+  granted: boolean
+  rule: EffectivePermissionRule
+  groupId: string | null
+  groupName: string | null
+  groupType: UserGroupType | null
+  organizationId: string | null
+}
 
 /** =========================
  *  Backend shapes (v1 & v2)
@@ -146,21 +232,9 @@ export const buildUserPermissionsMap = (
 // Mantiene nombres v1 (backend contracts existentes)
 export const upsertPermissionSchema = z.object({
   groupId: z.string().uuid("ID de grupo inválido."),
-  permissionKey: z.enum(
-    [
-      "user:manage",
-      "group:manage",
-      "group:assign_members",
-      "group:assign_permissions",
-      "organization:manage",
-      "kpi:manage",
-      "scorecard_element:manage",
-      "import:manage_connections",
-      "import:manage_saved_imports",
-      "alert:manage"
-    ],
-    { errorMap: () => ({ message: "Clave de permiso inválida." }) }
-  ),
+  permissionKey: z.enum(PERMISSION_KEYS, {
+    errorMap: () => ({ message: "Clave de permiso inválida." })
+  }),
   permissionValue: z.boolean(),
   organizationId: z
     .string()
@@ -0,0 +1,55 @@
+/**
+ * @file types/scorecard-score-types.ts
+ * @brief Define los tipos de la agregación ponderada de puntuaciones del Scorecard.
+ * @description Contiene la política de datos faltantes configurable, la puntuación calculada de cada
+ * elemento del Scorecard para un período y el resultado que consume la página de Scorecards para
+ * mostrar el árbol Rojo/Amarillo/Verde.
+ */
+
+/**
+ * @constant SCORE_MISSING_DATA_POLICIES
+ * @description Políticas válidas para tratar los hijos sin puntuación al agregar la puntuación del padre:
+ * - exclude: se ignoran y los pesos del resto se renormalizan (por defecto).
+ * - zero: cuentan como puntuación 0.
+ * - propagate: el padre queda sin puntuación si algún hijo no tiene datos.
+ */
+export const SCORE_MISSING_DATA_POLICIES = [
+  "exclude",
+  "zero",
+  "propagate"
+] as const
+
+/**
+ * @typedef {'exclude' | 'zero' | 'propagate'} ScoreMissingDataPolicy
+ * @description Política de datos faltantes de la agregación de puntuaciones del Scorecard.
+ */
+export type ScoreMissingDataPolicy =
+  (typeof SCORE_MISSING_DATA_POLICIES)[number]
+
+/**
+ * @interface ScorecardElementScore
+ * @description Puntuación de un elemento del Scorecard para un período.
+ * @property {string} scorecardElementId - ID del elemento.
+ * @property {number | null} score - Puntuación (0-100); null si no hay datos suficientes.
+ * @property {'Red' | 'Yellow' | 'Green' | null} color - Color asociado a la puntuación.
+ * @property {number} contributingChildren - Hijos con datos que aportaron a la puntuación (0 para KPIs).
+ * @property {number} missingChildren - Hijos sin datos para el período (0 para KPIs).
+ */
+export interface ScorecardElementScore {
+  scorecardElementId: string
+  score: number | null
+  color: "Red" | "Yellow" | "Green" | null
+  contributingChildren: number
+  missingChildren: number
+}
+
+/**
+ * @interface ScorecardScoresResult
+ * @description Puntuaciones de todos los elementos del Scorecard de una organización para un período.
+ * @property {string | null} periodDate - Período evaluado (YYYY-MM-DD), o null si la organización no tiene valores.
+ * @property {ScorecardElementScore[]} scores - Puntuación por elemento.
+ */
+export interface ScorecardScoresResult {
+  periodDate: string | null
+  scores: ScorecardElementScore[]
+}